@@ -9,6 +9,9 @@ const STATIC_CACHE = `locateconnect-static-${CACHE_VERSION}`;
 const DYNAMIC_CACHE = `locateconnect-dynamic-${CACHE_VERSION}`;
 const IMAGE_CACHE = `locateconnect-images-${CACHE_VERSION}`;
 const OFFLINE_CACHE = `locateconnect-offline-${CACHE_VERSION}`;
+// Map tiles pre-downloaded for offline field search; not tied to CACHE_VERSION
+// so an app update does not throw away a volunteer's downloaded area
+const TILE_CACHE = 'locateconnect-tiles-v1';
 
 // Static assets to cache on install
 const STATIC_ASSETS = [
@@ -57,7 +60,8 @@ self.addEventListener('activate', (event) => {
               cacheName !== STATIC_CACHE &&
               cacheName !== DYNAMIC_CACHE &&
               cacheName !== IMAGE_CACHE &&
-              cacheName !== OFFLINE_CACHE
+              cacheName !== OFFLINE_CACHE &&
+              cacheName !== TILE_CACHE
             ) {
               console.log('[ServiceWorker] Deleting old cache:', cacheName);
               return caches.delete(cacheName);
@@ -92,6 +96,12 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  // Handle map tiles
+  if (url.hostname.endsWith('tile.openstreetmap.org')) {
+    event.respondWith(handleTileRequest(request));
+    return;
+  }
+
   // Handle image requests
   if (request.destination === 'image') {
     event.respondWith(handleImageRequest(request));
@@ -164,6 +174,12 @@ async function handleApiRequest(request) {
  * Handle image requests with cache-first strategy
  */
 async function handleImageRequest(request) {
+  // Tiles from the configured offline tile server
+  const tile = await (await caches.open(TILE_CACHE)).match(request.url);
+  if (tile) {
+    return tile;
+  }
+
   const cache = await caches.open(IMAGE_CACHE);
   const cachedResponse = await cache.match(request);
 
@@ -183,6 +199,25 @@ async function handleImageRequest(request) {
   }
 }
 
+/**
+ * Handle map tile requests: tiles downloaded for field search are served
+ * from the cache, everything else goes to the network
+ */
+async function handleTileRequest(request) {
+  const cache = await caches.open(TILE_CACHE);
+  const cachedResponse = await cache.match(request.url);
+
+  if (cachedResponse) {
+    return cachedResponse;
+  }
+
+  try {
+    return await fetch(request);
+  } catch {
+    return new Response('', { status: 504, statusText: 'Tile not available offline' });
+  }
+}
+
 /**
  * Handle navigation requests with network-first, offline fallback
  */
@@ -565,6 +600,9 @@ self.addEventListener('message', (event) => {
     case 'CLEAR_CACHE':
       clearAllCaches();
       break;
+    case 'WIPE_DEVICE':
+      event.waitUntil(wipeDevice(data.commandId));
+      break;
     case 'QUEUE_TIP':
       queueOfflineTip(data);
       break;
@@ -615,6 +653,16 @@ async function clearAllCaches() {
   await Promise.all(cacheNames.map(name => caches.delete(name)));
 }
 
+/**
+ * Remote wipe: drop every cache, including responses cached since the page
+ * cleared them, and tell all open tabs so they lock and sign out
+ */
+async function wipeDevice(commandId) {
+  await clearAllCaches();
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  clients.forEach((client) => client.postMessage({ type: 'DEVICE_WIPED', commandId }));
+}
+
 /**
  * Queue offline tip for later submission
  */
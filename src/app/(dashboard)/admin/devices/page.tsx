@@ -0,0 +1,251 @@
+'use client';
+
+/**
+ * Field Device Management
+ * Look up the devices an officer registered for biometric login, revoke a
+ * lost device and queue a wipe of its offline data, or reinstate a device
+ * that was found
+ */
+
+import { useState, useCallback, useEffect, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { cn } from '@/lib/utils';
+import type { RegisteredDevice } from '@/lib/services/device-management-service';
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function wipeLabel(device: RegisteredDevice): string | null {
+  if (!device.pendingWipe) return null;
+  return device.pendingWipe.status === 'delivered'
+    ? `Wipe delivered ${formatDate(device.pendingWipe.deliveredAt)}`
+    : 'Wipe waiting for device to connect';
+}
+
+function DeviceManagement() {
+  const searchParams = useSearchParams();
+  const [userId, setUserId] = useState(searchParams.get('userId') ?? '');
+  const [devices, setDevices] = useState<RegisteredDevice[] | null>(null);
+  const [revoking, setRevoking] = useState<RegisteredDevice | null>(null);
+  const [reason, setReason] = useState('');
+  const [wipe, setWipe] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = useCallback(async (id: string) => {
+    if (!id) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/auth/webauthn/devices?userId=${encodeURIComponent(id)}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load devices');
+      setDevices(data.devices);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load devices');
+      setDevices(null);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const initial = searchParams.get('userId');
+    if (initial) load(initial);
+  }, [searchParams, load]);
+
+  const startRevoke = (device: RegisteredDevice) => {
+    setRevoking(device);
+    setReason('');
+    setWipe(Boolean(device.deviceId));
+    setError(null);
+  };
+
+  const confirmRevoke = async () => {
+    if (!revoking) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/auth/webauthn/devices/${revoking.id}/revoke`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason, wipe }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to revoke device');
+      setRevoking(null);
+      await load(userId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke device');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const reinstate = async (device: RegisteredDevice) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/auth/webauthn/devices/${device.id}/reinstate`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to reinstate device');
+      await load(userId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reinstate device');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Field Devices</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Revoke a lost or stolen device. Its offline case data is wiped the next time it connects, and it
+          cannot be registered again until you reinstate it. Revoking signs the officer out on all of their
+          devices, so they must sign in again on the ones they still use.
+        </p>
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          load(userId.trim());
+        }}
+        className="flex gap-2"
+      >
+        <input
+          value={userId}
+          onChange={(e) => setUserId(e.target.value)}
+          placeholder="User ID"
+          className="w-96 rounded-lg border border-gray-300 px-3 py-2 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={loading || !userId.trim()}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          Look up
+        </button>
+      </form>
+
+      {error && <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+
+      {devices && (
+        <div className="overflow-hidden rounded-xl border border-gray-200 bg-white">
+          {devices.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No registered devices.</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  <th className="px-4 py-3">Device</th>
+                  <th className="px-4 py-3">Registered</th>
+                  <th className="px-4 py-3">Last used</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {devices.map((device) => (
+                  <tr key={device.id}>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{device.deviceName || 'Unknown device'}</p>
+                      <p className="text-xs text-gray-500">{device.deviceId ?? 'Registered before remote wipe'}</p>
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{formatDate(device.createdAt)}</td>
+                    <td className="px-4 py-3 text-gray-700">{formatDate(device.lastUsedAt)}</td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={cn(
+                          'rounded-full px-2 py-0.5 text-xs',
+                          device.revokedAt ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                        )}
+                      >
+                        {device.revokedAt ? 'Revoked' : 'Active'}
+                      </span>
+                      {device.revokedAt && (
+                        <p className="mt-1 text-xs text-gray-500">
+                          {formatDate(device.revokedAt)}: {device.revocationReason}
+                        </p>
+                      )}
+                      {wipeLabel(device) && <p className="mt-1 text-xs text-amber-700">{wipeLabel(device)}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {!device.revokedAt && (
+                        <button
+                          onClick={() => startRevoke(device)}
+                          className="rounded-lg border border-red-300 px-3 py-1 text-red-700 hover:bg-red-50"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                      {device.deviceRevokedAt && (
+                        <button
+                          onClick={() => reinstate(device)}
+                          disabled={loading}
+                          className="rounded-lg border border-gray-300 px-3 py-1 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Reinstate
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {revoking && (
+        <div className="space-y-3 rounded-xl border border-red-200 bg-white p-6">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Revoke {revoking.deviceName || 'unknown device'}
+          </h2>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason, e.g. reported lost on shift"
+            rows={2}
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={wipe}
+              disabled={!revoking.deviceId}
+              onChange={(e) => setWipe(e.target.checked)}
+            />
+            Wipe offline data and caches when the device next connects
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={confirmRevoke}
+              disabled={loading || reason.trim().length < 3}
+              className="rounded-lg bg-red-600 px-4 py-2 text-sm text-white hover:bg-red-700 disabled:opacity-50"
+            >
+              Revoke device
+            </button>
+            <button
+              onClick={() => setRevoking(null)}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm text-gray-700"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function DeviceManagementPage() {
+  return (
+    <Suspense fallback={<div className="h-40 animate-pulse rounded-xl bg-gray-100" />}>
+      <DeviceManagement />
+    </Suspense>
+  );
+}
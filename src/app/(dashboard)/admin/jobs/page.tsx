@@ -0,0 +1,225 @@
+'use client';
+
+/**
+ * Job Queue
+ * Queue depth per queue, recent jobs, and jobs that used every attempt with
+ * a button to replay each one
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { cn } from '@/lib/utils';
+import {
+  JOB_STATUS_LABELS,
+  JOB_TYPE_LABELS,
+  type Job,
+  type JobDeadLetter,
+  type JobQueueStats,
+  type JobStatus,
+} from '@/types';
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-800',
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  dead: 'bg-red-100 text-red-800',
+};
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function formatPayload(payload: Record<string, unknown>): string {
+  return Object.entries(payload)
+    .filter(([, value]) => value !== null && typeof value !== 'object')
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(', ');
+}
+
+export default function JobQueuePage() {
+  const [stats, setStats] = useState<JobQueueStats[]>([]);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [deadLetters, setDeadLetters] = useState<JobDeadLetter[]>([]);
+  const [status, setStatus] = useState<JobStatus | ''>('');
+  const [replaying, setReplaying] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async (filter: JobStatus | '') => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [jobsRes, deadRes] = await Promise.all([
+        fetch(`/api/jobs${filter ? `?status=${filter}` : ''}`),
+        fetch('/api/jobs/dead-letters'),
+      ]);
+      const jobsData = await jobsRes.json();
+      const deadData = await deadRes.json();
+      if (!jobsRes.ok) throw new Error(jobsData.error || 'Failed to load jobs');
+      if (!deadRes.ok) throw new Error(deadData.error || 'Failed to load dead-lettered jobs');
+      setStats(jobsData.stats);
+      setJobs(jobsData.jobs);
+      setDeadLetters(deadData.dead_letters);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load jobs');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load(status);
+  }, [status, load]);
+
+  const replay = async (deadLetter: JobDeadLetter) => {
+    setReplaying(deadLetter.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/jobs/dead-letters/${deadLetter.id}/replay`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to replay job');
+      await load(status);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to replay job');
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Job Queue</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            AMBER distributions, follow-ups, notification digests and agent runs. Jobs that fail on every
+            attempt wait here until replayed.
+          </p>
+        </div>
+        <button
+          onClick={() => load(status)}
+          disabled={loading}
+          className="rounded-lg border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error && <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        {stats.map((queue) => (
+          <div key={queue.queue} className="rounded-xl border border-gray-200 bg-white p-4">
+            <p className="text-sm font-medium capitalize text-gray-900">{queue.queue}</p>
+            <p className="mt-2 text-2xl font-bold text-gray-900">{queue.queued}</p>
+            <p className="text-xs text-gray-500">
+              queued · {queue.running} running · {queue.dead} dead
+            </p>
+            {queue.oldest_queued_at && (
+              <p className="mt-1 text-xs text-gray-500">Oldest due {formatDate(queue.oldest_queued_at)}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold text-gray-900">Dead-lettered</h2>
+        <div className="overflow-hidden rounded-xl border border-gray-200 bg-white">
+          {deadLetters.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No jobs waiting for replay.</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  <th className="px-4 py-3">Job</th>
+                  <th className="px-4 py-3">Failed</th>
+                  <th className="px-4 py-3">Last error</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {deadLetters.map((deadLetter) => (
+                  <tr key={deadLetter.id}>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{JOB_TYPE_LABELS[deadLetter.job_type]}</p>
+                      <p className="text-xs text-gray-500">{formatPayload(deadLetter.payload)}</p>
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {formatDate(deadLetter.dead_at)}
+                      <p className="text-xs text-gray-500">after {deadLetter.attempts} attempt(s)</p>
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {deadLetter.errors[deadLetter.errors.length - 1]?.message ?? '—'}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => replay(deadLetter)}
+                        disabled={replaying !== null}
+                        className="rounded-lg border border-blue-300 px-3 py-1 text-blue-700 hover:bg-blue-50 disabled:opacity-50"
+                      >
+                        {replaying === deadLetter.id ? 'Replaying…' : 'Replay'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Recent jobs</h2>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as JobStatus | '')}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="">All statuses</option>
+            {(Object.keys(JOB_STATUS_LABELS) as JobStatus[]).map((value) => (
+              <option key={value} value={value}>
+                {JOB_STATUS_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="overflow-hidden rounded-xl border border-gray-200 bg-white">
+          {jobs.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">{loading ? 'Loading…' : 'No jobs.'}</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  <th className="px-4 py-3">Job</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3">Attempts</th>
+                  <th className="px-4 py-3">Run at</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {jobs.map((job) => (
+                  <tr key={job.id}>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{JOB_TYPE_LABELS[job.job_type]}</p>
+                      <p className="text-xs text-gray-500">{formatPayload(job.payload)}</p>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={cn('rounded-full px-2 py-0.5 text-xs', STATUS_STYLES[job.status])}>
+                        {JOB_STATUS_LABELS[job.status]}
+                      </span>
+                      {job.last_error && <p className="mt-1 text-xs text-red-700">{job.last_error}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {job.attempts} / {job.max_attempts}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{formatDate(job.run_at)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+'use client';
+
+/**
+ * Priority Profiles Page
+ * Admin editor for versioned jurisdiction priority weight sets
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { cn } from '@/lib/utils';
+import {
+  PRIORITY_THRESHOLD_LABELS,
+  PRIORITY_WEIGHT_LABELS,
+  type PriorityThresholdKey,
+  type PriorityWeightConfig,
+  type PriorityWeightKey,
+  type PriorityWeightProfileVersion,
+} from '@/types';
+
+const STATUS_STYLES: Record<PriorityWeightProfileVersion['status'], string> = {
+  active: 'bg-green-100 text-green-700',
+  draft: 'bg-yellow-100 text-yellow-700',
+  retired: 'bg-gray-100 text-gray-600',
+};
+
+interface DraftForm {
+  profileKey: string;
+  name: string;
+  weights: PriorityWeightConfig;
+  changeNotes: string;
+}
+
+export default function PriorityProfilesPage() {
+  const [versions, setVersions] = useState<PriorityWeightProfileVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<PriorityWeightProfileVersion | null>(null);
+  const [draft, setDraft] = useState<DraftForm | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/priority-profiles');
+      if (response.ok) {
+        const data = await response.json();
+        setVersions(data.data || []);
+      }
+    } catch (error) {
+      console.error('Error loading priority profiles:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const startNewVersion = (base: PriorityWeightProfileVersion) => {
+    setErrors([]);
+    setDraft({
+      profileKey: base.profileKey,
+      name: base.name,
+      weights: JSON.parse(JSON.stringify(base.weights)),
+      changeNotes: '',
+    });
+  };
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setErrors([]);
+    try {
+      const response = await fetch('/api/priority-profiles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        const issues: { path: string; message: string }[] = data.error?.details?.issues || [];
+        setErrors(
+          issues.length > 0
+            ? issues.map((i) => `${i.path}: ${i.message}`)
+            : [data.error?.message || 'Failed to save profile']
+        );
+        return;
+      }
+      setDraft(null);
+      setSelected(data.data);
+      await loadVersions();
+    } catch (error) {
+      console.error('Error saving priority profile:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const activate = async (version: PriorityWeightProfileVersion) => {
+    try {
+      const response = await fetch(`/api/priority-profiles/${version.id}/activate`, {
+        method: 'POST',
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setSelected(data.data);
+        await loadVersions();
+      }
+    } catch (error) {
+      console.error('Error activating priority profile:', error);
+    }
+  };
+
+  const updateWeight = (key: PriorityWeightKey, value: number) => {
+    if (!draft) return;
+    setDraft({ ...draft, weights: { ...draft.weights, [key]: value } });
+  };
+
+  const updateThreshold = (key: PriorityThresholdKey, value: number) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      weights: { ...draft.weights, thresholds: { ...draft.weights.thresholds, [key]: value } },
+    });
+  };
+
+  const shown = draft?.weights ?? selected?.weights;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Priority Profiles</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Versioned jurisdiction weight sets. Weights are never edited in place; every change creates a new version.
+          </p>
+        </div>
+        <Link
+          href="/admin/priority-profiles/simulate"
+          className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          What-If Simulator
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        {/* Version list */}
+        <div className="rounded-xl border border-gray-200 bg-white p-4">
+          <h2 className="text-lg font-semibold text-gray-900">Versions</h2>
+          {loading ? (
+            <p className="mt-4 text-sm text-gray-500">Loading...</p>
+          ) : versions.length === 0 ? (
+            <p className="mt-4 text-sm text-gray-500">No stored profiles</p>
+          ) : (
+            <ul className="mt-4 divide-y divide-gray-100">
+              {versions.map((version) => (
+                <li key={version.id}>
+                  <button
+                    onClick={() => {
+                      setDraft(null);
+                      setSelected(version);
+                    }}
+                    className={cn(
+                      'flex w-full items-center justify-between px-2 py-3 text-left text-sm hover:bg-gray-50',
+                      selected?.id === version.id && 'bg-indigo-50'
+                    )}
+                  >
+                    <span>
+                      <span className="font-medium text-gray-900">{version.profileKey}</span>
+                      <span className="ml-2 text-gray-500">v{version.version}</span>
+                    </span>
+                    <span className={cn('rounded-full px-2 py-0.5 text-xs font-medium', STATUS_STYLES[version.status])}>
+                      {version.status}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Detail / editor */}
+        <div className="rounded-xl border border-gray-200 bg-white p-6 lg:col-span-2">
+          {!shown ? (
+            <p className="text-sm text-gray-500">Select a profile version to view its weights</p>
+          ) : (
+            <div className="space-y-6">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    {draft ? `New version of ${draft.profileKey}` : `${selected?.name} (v${selected?.version})`}
+                  </h2>
+                  {!draft && selected && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      Checksum {selected.checksum.slice(0, 16)}… · {selected.changeNotes}
+                    </p>
+                  )}
+                </div>
+                {!draft && selected && (
+                  <div className="flex gap-2">
+                    {selected.status === 'draft' && (
+                      <button
+                        onClick={() => activate(selected)}
+                        className="rounded-lg bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700"
+                      >
+                        Activate
+                      </button>
+                    )}
+                    <button
+                      onClick={() => startNewVersion(selected)}
+                      className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+                    >
+                      New Version
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                {(Object.keys(PRIORITY_WEIGHT_LABELS) as PriorityWeightKey[]).map((key) => (
+                  <label key={key} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-gray-700">{PRIORITY_WEIGHT_LABELS[key]}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={shown[key]}
+                      disabled={!draft}
+                      onChange={(e) => updateWeight(key, Number(e.target.value))}
+                      className="w-20 rounded-lg border border-gray-300 px-2 py-1 text-right disabled:bg-gray-50"
+                    />
+                  </label>
+                ))}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900">Level thresholds</h3>
+                <div className="mt-2 grid grid-cols-2 gap-3 sm:grid-cols-4">
+                  {(Object.keys(PRIORITY_THRESHOLD_LABELS) as PriorityThresholdKey[]).map((key) => (
+                    <label key={key} className="text-sm">
+                      <span className="block text-gray-700">{PRIORITY_THRESHOLD_LABELS[key]}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={shown.thresholds[key]}
+                        disabled={!draft}
+                        onChange={(e) => updateThreshold(key, Number(e.target.value))}
+                        className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1 text-right disabled:bg-gray-50"
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {draft && (
+                <div className="space-y-3">
+                  <label className="block text-sm">
+                    <span className="text-gray-700">Change notes (required)</span>
+                    <textarea
+                      value={draft.changeNotes}
+                      onChange={(e) => setDraft({ ...draft, changeNotes: e.target.value })}
+                      rows={3}
+                      className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                      placeholder="Why are these weights changing?"
+                    />
+                  </label>
+                  {errors.length > 0 && (
+                    <ul className="rounded-lg bg-red-50 p-3 text-sm text-red-700">
+                      {errors.map((error) => (
+                        <li key={error}>{error}</li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={() => setDraft(null)}
+                      className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={saveDraft}
+                      disabled={saving}
+                      className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      {saving ? 'Saving...' : 'Save Draft'}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+'use client';
+
+/**
+ * Priority What-If Simulator Page
+ * Replays historical intakes against candidate weights before they are saved
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { cn } from '@/lib/utils';
+import {
+  PRIORITY_THRESHOLD_LABELS,
+  PRIORITY_WEIGHT_LABELS,
+  type PriorityThresholdKey,
+  type PriorityWeightConfig,
+  type PriorityWeightKey,
+  type PriorityWeightProfileVersion,
+} from '@/types';
+import type { SimulationReport } from '@/lib/services/priority-simulator';
+
+const LEVEL_LABELS = ['P0 Critical', 'P1 High', 'P2 Medium', 'P3 Low', 'P4 Minimal'];
+
+export default function PrioritySimulatorPage() {
+  const [activeVersions, setActiveVersions] = useState<PriorityWeightProfileVersion[]>([]);
+  const [profileKey, setProfileKey] = useState('');
+  const [weights, setWeights] = useState<PriorityWeightConfig | null>(null);
+  const [maxMovedPercent, setMaxMovedPercent] = useState('10');
+  const [protectLevel, setProtectLevel] = useState('1');
+  const [report, setReport] = useState<SimulationReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      const response = await fetch('/api/priority-profiles');
+      if (response.ok) {
+        const data = await response.json();
+        const active = ((data.data || []) as PriorityWeightProfileVersion[]).filter(
+          (v) => v.status === 'active'
+        );
+        setActiveVersions(active);
+        if (active.length > 0) {
+          setProfileKey(active[0].profileKey);
+          setWeights(JSON.parse(JSON.stringify(active[0].weights)));
+        }
+      }
+    } catch (err) {
+      console.error('Error loading priority profiles:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  const selectProfile = (key: string) => {
+    const version = activeVersions.find((v) => v.profileKey === key);
+    setProfileKey(key);
+    setWeights(version ? JSON.parse(JSON.stringify(version.weights)) : null);
+    setReport(null);
+  };
+
+  const runSimulation = async () => {
+    if (!weights) return;
+    setRunning(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/priority-profiles/simulate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          profileKey,
+          weights,
+          checks: {
+            maxMovedRatio: maxMovedPercent ? Number(maxMovedPercent) / 100 : undefined,
+            forbidDowngradeAtOrAbove: protectLevel === '' ? undefined : Number(protectLevel),
+          },
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error?.message || 'Simulation failed');
+        return;
+      }
+      setReport(data.data);
+    } catch (err) {
+      console.error('Error running simulation:', err);
+      setError('Simulation failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const maxBucket = report
+    ? Math.max(1, ...report.scoreDistribution.map((b) => Math.max(b.baseline, b.candidate)))
+    : 1;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Priority What-If Simulator</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Replay every historical intake against candidate weights and compare with the active profile
+          </p>
+        </div>
+        <Link
+          href="/admin/priority-profiles"
+          className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Back to Profiles
+        </Link>
+      </div>
+
+      {/* Candidate weights */}
+      <div className="rounded-xl border border-gray-200 bg-white p-6">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <label className="text-sm">
+            <span className="block font-medium text-gray-700">Baseline profile</span>
+            <select
+              value={profileKey}
+              onChange={(e) => selectProfile(e.target.value)}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            >
+              {activeVersions.map((v) => (
+                <option key={v.id} value={v.profileKey}>
+                  {v.profileKey} (v{v.version})
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm">
+            <span className="block font-medium text-gray-700">Max cases moved (%)</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={maxMovedPercent}
+              onChange={(e) => setMaxMovedPercent(e.target.value)}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            />
+          </label>
+          <label className="text-sm">
+            <span className="block font-medium text-gray-700">Block downgrades at or above</span>
+            <select
+              value={protectLevel}
+              onChange={(e) => setProtectLevel(e.target.value)}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            >
+              <option value="">No check</option>
+              {LEVEL_LABELS.map((label, level) => (
+                <option key={label} value={level}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {weights && (
+          <div className="mt-6 grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {(Object.keys(PRIORITY_WEIGHT_LABELS) as PriorityWeightKey[]).map((key) => (
+              <label key={key} className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-gray-700">{PRIORITY_WEIGHT_LABELS[key]}</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={weights[key]}
+                  onChange={(e) => setWeights({ ...weights, [key]: Number(e.target.value) })}
+                  className="w-20 rounded-lg border border-gray-300 px-2 py-1 text-right"
+                />
+              </label>
+            ))}
+            {(Object.keys(PRIORITY_THRESHOLD_LABELS) as PriorityThresholdKey[]).map((key) => (
+              <label key={key} className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-gray-700">Threshold {PRIORITY_THRESHOLD_LABELS[key]}</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={weights.thresholds[key]}
+                  onChange={(e) =>
+                    setWeights({
+                      ...weights,
+                      thresholds: { ...weights.thresholds, [key]: Number(e.target.value) },
+                    })
+                  }
+                  className="w-20 rounded-lg border border-gray-300 px-2 py-1 text-right"
+                />
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-6 flex items-center justify-end gap-3">
+          {error && <span className="text-sm text-red-600">{error}</span>}
+          <button
+            onClick={runSimulation}
+            disabled={running || !weights}
+            className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {running ? 'Running...' : 'Run Simulation'}
+          </button>
+        </div>
+      </div>
+
+      {report && (
+        <>
+          {/* Summary */}
+          <div
+            className={cn(
+              'rounded-xl border p-4 text-sm',
+              report.passed
+                ? 'border-green-200 bg-green-50 text-green-800'
+                : 'border-red-200 bg-red-50 text-red-800'
+            )}
+          >
+            <p className="font-semibold">
+              {report.passed ? 'All regression checks passed' : 'Regression checks failed'}
+            </p>
+            {report.regressions.map((r) => (
+              <p key={r}>{r}</p>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <SummaryCard title="Cases replayed" value={report.totalCases} />
+            <SummaryCard title="Changed level" value={report.movedCases} />
+            <SummaryCard title="Upgraded / Downgraded" value={`${report.upgraded} / ${report.downgraded}`} />
+            <SummaryCard
+              title="Mean score"
+              value={`${report.meanScore.baseline} → ${report.meanScore.candidate}`}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            {/* Level transition matrix */}
+            <div className="rounded-xl border border-gray-200 bg-white p-6">
+              <h2 className="text-lg font-semibold text-gray-900">Level changes</h2>
+              <p className="text-xs text-gray-500">Rows: current level · Columns: candidate level</p>
+              <table className="mt-4 min-w-full text-sm">
+                <thead>
+                  <tr>
+                    <th />
+                    {LEVEL_LABELS.map((label) => (
+                      <th key={label} className="px-2 py-1 text-xs font-medium text-gray-500">
+                        {label.split(' ')[0]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.levelMatrix.map((row, from) => (
+                    <tr key={from}>
+                      <td className="px-2 py-1 text-xs font-medium text-gray-500">{LEVEL_LABELS[from]}</td>
+                      {row.map((count, to) => (
+                        <td
+                          key={to}
+                          className={cn(
+                            'px-2 py-1 text-center',
+                            from === to && 'bg-gray-50 text-gray-500',
+                            from !== to && count > 0 && (to < from ? 'bg-orange-50 text-orange-700' : 'bg-blue-50 text-blue-700')
+                          )}
+                        >
+                          {count}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Score distribution */}
+            <div className="rounded-xl border border-gray-200 bg-white p-6">
+              <h2 className="text-lg font-semibold text-gray-900">Score distribution</h2>
+              <div className="mt-4 space-y-2">
+                {report.scoreDistribution.map((bucket) => (
+                  <div key={bucket.range} className="text-xs">
+                    <div className="flex justify-between text-gray-600">
+                      <span>{bucket.range}</span>
+                      <span>
+                        {bucket.baseline} → {bucket.candidate}
+                      </span>
+                    </div>
+                    <div className="mt-1 h-2 rounded bg-gray-100">
+                      <div
+                        className="h-2 rounded bg-gray-400"
+                        style={{ width: `${(bucket.baseline / maxBucket) * 100}%` }}
+                      />
+                    </div>
+                    <div className="mt-0.5 h-2 rounded bg-gray-100">
+                      <div
+                        className="h-2 rounded bg-indigo-500"
+                        style={{ width: `${(bucket.candidate / maxBucket) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Factor impact */}
+          <div className="rounded-xl border border-gray-200 bg-white p-6">
+            <h2 className="text-lg font-semibold text-gray-900">Responsible factors</h2>
+            {report.factorImpact.length === 0 ? (
+              <p className="mt-4 text-sm text-gray-500">No factor weights changed</p>
+            ) : (
+              <table className="mt-4 min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                    <th className="px-3 py-2">Factor</th>
+                    <th className="px-3 py-2">Cases affected</th>
+                    <th className="px-3 py-2">Cases moved</th>
+                    <th className="px-3 py-2">Total score delta</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {report.factorImpact.map((f) => (
+                    <tr key={f.factor}>
+                      <td className="px-3 py-2 font-medium text-gray-900">{f.factor}</td>
+                      <td className="px-3 py-2">{f.casesAffected}</td>
+                      <td className="px-3 py-2">{f.casesMoved}</td>
+                      <td className="px-3 py-2">{f.totalDelta > 0 ? `+${f.totalDelta}` : f.totalDelta}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Moved cases */}
+          <div className="rounded-xl border border-gray-200 bg-white p-6">
+            <h2 className="text-lg font-semibold text-gray-900">Cases that would move</h2>
+            {report.changes.length === 0 ? (
+              <p className="mt-4 text-sm text-gray-500">No cases change level</p>
+            ) : (
+              <ul className="mt-4 divide-y divide-gray-100 text-sm">
+                {report.changes.slice(0, 200).map((change) => (
+                  <li key={change.caseId} className="flex items-center justify-between py-2">
+                    <span className="font-medium text-gray-900">{change.caseNumber || change.caseId}</span>
+                    <span className="text-gray-600">
+                      {LEVEL_LABELS[change.baselineLevel]} ({change.baselineScore}) →{' '}
+                      {LEVEL_LABELS[change.candidateLevel]} ({change.candidateScore})
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {change.responsibleFactors
+                        .map((f) => `${f.factor} ${f.delta > 0 ? '+' : ''}${f.delta}`)
+                        .join(', ') || 'thresholds'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function SummaryCard({ title, value }: { title: string; value: string | number }) {
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-4">
+      <p className="text-sm text-gray-500">{title}</p>
+      <p className="mt-1 text-2xl font-semibold text-gray-900">{value}</p>
+    </div>
+  );
+}
@@ -0,0 +1,666 @@
+'use client';
+
+/**
+ * Tip Verification Rule Editor
+ * Author verification rules, dry-run them against recently verified tips and
+ * switch them on once the impact looks right
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { cn } from '@/lib/utils';
+import type {
+  RuleAction,
+  RuleCondition,
+  TipPriorityBucket,
+  VerificationRule,
+} from '@/types/tip-verification.types';
+import type {
+  RuleDryRunReport,
+  RuleFieldDescriptor,
+  RuleValidationIssue,
+} from '@/lib/services/verification-rule-dry-run';
+
+type RuleType = VerificationRule['ruleType'];
+type MatchMode = 'and' | 'or';
+
+interface ConditionRow {
+  field: string;
+  operator: string;
+  value: string;
+}
+
+interface RuleDraft {
+  id?: string;
+  name: string;
+  description: string;
+  ruleType: RuleType;
+  matchMode: MatchMode;
+  rows: ConditionRow[];
+  setPriority: TipPriorityBucket | '';
+  requireReview: boolean;
+  reviewPriority: string;
+}
+
+type ListedRule = VerificationRule & { issues: RuleValidationIssue[] };
+
+const BUCKETS: TipPriorityBucket[] = ['critical', 'high', 'medium', 'low', 'spam'];
+const RULE_TYPES: RuleType[] = ['priority', 'spam', 'scoring', 'workflow'];
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '',
+  description: '',
+  ruleType: 'priority',
+  matchMode: 'and',
+  rows: [{ field: '', operator: '', value: '' }],
+  setPriority: '',
+  requireReview: false,
+  reviewPriority: '',
+};
+
+function parseValue(row: ConditionRow, field?: RuleFieldDescriptor): unknown {
+  if (row.operator === 'in' || row.operator === 'not_in') {
+    return row.value.split(',').map((v) => v.trim()).filter(Boolean);
+  }
+  if (field?.type === 'number') return row.value === '' ? undefined : Number(row.value);
+  if (field?.type === 'boolean') return row.value === 'true';
+  return row.value;
+}
+
+function formatValue(value: unknown): string {
+  return Array.isArray(value) ? value.join(', ') : value === undefined ? '' : String(value);
+}
+
+/**
+ * Flat rules load into the row editor; nested groups are left as they are
+ */
+function toDraft(rule: VerificationRule): RuleDraft | null {
+  const { conditions } = rule;
+  const group = conditions.and ? 'and' : conditions.or ? 'or' : null;
+  const leaves = group ? conditions[group]! : [conditions];
+  if (leaves.some((c) => c.and || c.or)) return null;
+
+  return {
+    id: rule.id,
+    name: rule.name,
+    description: rule.description ?? '',
+    ruleType: rule.ruleType,
+    matchMode: group ?? 'and',
+    rows: leaves.map((c) => ({
+      field: c.field ?? '',
+      operator: c.operator ?? '',
+      value: formatValue(c.value),
+    })),
+    setPriority: rule.actions.setPriority ?? '',
+    requireReview: !!rule.actions.requireReview,
+    reviewPriority: rule.actions.reviewPriority?.toString() ?? '',
+  };
+}
+
+export default function TipRulesPage() {
+  const [rules, setRules] = useState<ListedRule[]>([]);
+  const [fields, setFields] = useState<RuleFieldDescriptor[]>([]);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [limit, setLimit] = useState('500');
+  const [report, setReport] = useState<RuleDryRunReport | null>(null);
+  const [issues, setIssues] = useState<RuleValidationIssue[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/tips/verification/rules');
+      if (response.ok) {
+        const data = await response.json();
+        setRules(data.rules || []);
+        setFields(data.fields || []);
+      }
+    } catch (err) {
+      console.error('Error loading verification rules:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const fieldFor = (name: string) => fields.find((f) => f.field === name);
+
+  const updateDraft = (changes: Partial<RuleDraft>) => {
+    setDraft((current) => ({ ...current, ...changes }));
+    setReport(null);
+  };
+
+  const updateRow = (index: number, changes: Partial<ConditionRow>) => {
+    updateDraft({
+      rows: draft.rows.map((row, i) => (i === index ? { ...row, ...changes } : row)),
+    });
+  };
+
+  const buildRule = () => {
+    const leaves: RuleCondition[] = draft.rows.map((row) => ({
+      field: row.field,
+      operator: (row.operator || undefined) as RuleCondition['operator'],
+      value: parseValue(row, fieldFor(row.field)),
+    }));
+    const actions: RuleAction = {};
+    if (draft.setPriority) actions.setPriority = draft.setPriority;
+    if (draft.requireReview) actions.requireReview = true;
+    if (draft.reviewPriority) actions.reviewPriority = Number(draft.reviewPriority);
+
+    return {
+      name: draft.name,
+      description: draft.description || undefined,
+      ruleType: draft.ruleType,
+      conditions: leaves.length === 1 ? leaves[0] : { [draft.matchMode]: leaves },
+      actions,
+    };
+  };
+
+  const handleFailure = (data: { error?: string; issues?: RuleValidationIssue[] }, fallback: string) => {
+    setError(data.error || fallback);
+    setIssues(data.issues || []);
+  };
+
+  const runDryRun = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/tips/verification/rules/dry-run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ruleId: draft.id, rule: buildRule(), limit: Number(limit) || 500 }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        handleFailure(data, 'Dry run failed');
+        setReport(null);
+        return;
+      }
+      setIssues(data.issues || []);
+      setReport(data.report);
+    } catch (err) {
+      console.error('Error running dry run:', err);
+      setError('Dry run failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveRule = async (activate: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const body = JSON.stringify(draft.id ? { ...buildRule(), isActive: activate } : buildRule());
+      const response = await fetch(
+        draft.id ? `/api/tips/verification/rules/${draft.id}` : '/api/tips/verification/rules',
+        { method: draft.id ? 'PATCH' : 'POST', headers: { 'Content-Type': 'application/json' }, body }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        handleFailure(data, 'Failed to save rule');
+        return;
+      }
+
+      // New rules are created inactive; switch on in a second step
+      if (!draft.id && activate) {
+        const activated = await fetch(`/api/tips/verification/rules/${data.rule.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ isActive: true }),
+        });
+        if (!activated.ok) {
+          handleFailure(await activated.json(), 'Rule saved but could not be activated');
+          return;
+        }
+      }
+
+      setDraft(EMPTY_DRAFT);
+      setReport(null);
+      setIssues([]);
+      await loadRules();
+    } catch (err) {
+      console.error('Error saving rule:', err);
+      setError('Failed to save rule');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleRule = async (rule: ListedRule) => {
+    const response = await fetch(`/api/tips/verification/rules/${rule.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isActive: !rule.isActive }),
+    });
+    if (!response.ok) {
+      handleFailure(await response.json(), 'Failed to update rule');
+      return;
+    }
+    await loadRules();
+  };
+
+  const editRule = (rule: ListedRule) => {
+    const loaded = toDraft(rule);
+    if (!loaded) {
+      setError('This rule uses nested condition groups and cannot be edited here');
+      return;
+    }
+    setDraft(loaded);
+    setReport(null);
+    setIssues(rule.issues);
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Tip Verification Rules</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Draft a rule, dry-run it against recently verified tips, then activate it
+        </p>
+      </div>
+
+      {/* Existing rules */}
+      <div className="rounded-xl border border-gray-200 bg-white p-6">
+        <h2 className="text-lg font-semibold text-gray-900">Rules</h2>
+        {rules.length === 0 ? (
+          <p className="mt-4 text-sm text-gray-500">No rules yet</p>
+        ) : (
+          <ul className="mt-4 divide-y divide-gray-100 text-sm">
+            {rules.map((rule) => {
+              const errorCount = rule.issues.filter((i) => i.severity === 'error').length;
+              return (
+                <li key={rule.id} className="flex items-center justify-between gap-4 py-2">
+                  <div>
+                    <span className="font-medium text-gray-900">{rule.name}</span>
+                    <span className="ml-2 text-xs text-gray-500">{rule.ruleType}</span>
+                    {errorCount > 0 && (
+                      <span className="ml-2 rounded bg-red-50 px-2 py-0.5 text-xs text-red-700">
+                        {errorCount} problem{errorCount === 1 ? '' : 's'}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => editRule(rule)}
+                      className="rounded-lg border border-gray-300 px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => toggleRule(rule)}
+                      className={cn(
+                        'rounded-lg px-3 py-1 text-xs font-medium',
+                        rule.isActive
+                          ? 'bg-green-50 text-green-700 hover:bg-green-100'
+                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                      )}
+                    >
+                      {rule.isActive ? 'Active' : 'Inactive'}
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {/* Editor */}
+      <div className="rounded-xl border border-gray-200 bg-white p-6">
+        <h2 className="text-lg font-semibold text-gray-900">{draft.id ? 'Edit rule' : 'New rule'}</h2>
+
+        <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-3">
+          <label className="text-sm md:col-span-2">
+            <span className="block font-medium text-gray-700">Name</span>
+            <input
+              value={draft.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            />
+          </label>
+          <label className="text-sm">
+            <span className="block font-medium text-gray-700">Type</span>
+            <select
+              value={draft.ruleType}
+              onChange={(e) => updateDraft({ ruleType: e.target.value as RuleType })}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            >
+              {RULE_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm md:col-span-3">
+            <span className="block font-medium text-gray-700">Description</span>
+            <input
+              value={draft.description}
+              onChange={(e) => updateDraft({ description: e.target.value })}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            />
+          </label>
+        </div>
+
+        {/* Conditions */}
+        <div className="mt-6">
+          <div className="flex items-center gap-2 text-sm text-gray-700">
+            <span>When</span>
+            <select
+              value={draft.matchMode}
+              onChange={(e) => updateDraft({ matchMode: e.target.value as MatchMode })}
+              className="rounded-lg border border-gray-300 px-2 py-1 text-sm"
+            >
+              <option value="and">all</option>
+              <option value="or">any</option>
+            </select>
+            <span>of these match</span>
+          </div>
+
+          <datalist id="rule-fields">
+            {fields.map((f) => (
+              <option key={f.field} value={f.field}>
+                {f.label}
+              </option>
+            ))}
+          </datalist>
+
+          <div className="mt-3 space-y-2">
+            {draft.rows.map((row, index) => {
+              const field = fieldFor(row.field);
+              const listValue = row.operator === 'in' || row.operator === 'not_in';
+              return (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <input
+                    list="rule-fields"
+                    placeholder="field"
+                    value={row.field}
+                    onChange={(e) => updateRow(index, { field: e.target.value, operator: '', value: '' })}
+                    className={cn(
+                      'w-56 rounded-lg border px-3 py-1.5 text-sm',
+                      row.field && !field ? 'border-red-300' : 'border-gray-300'
+                    )}
+                  />
+                  <select
+                    value={row.operator}
+                    onChange={(e) => updateRow(index, { operator: e.target.value })}
+                    className="rounded-lg border border-gray-300 px-2 py-1.5 text-sm"
+                  >
+                    <option value="">operator</option>
+                    {(field?.operators ?? []).map((op) => (
+                      <option key={op} value={op}>
+                        {op}
+                      </option>
+                    ))}
+                  </select>
+                  {field?.type === 'boolean' ? (
+                    <select
+                      value={row.value}
+                      onChange={(e) => updateRow(index, { value: e.target.value })}
+                      className="rounded-lg border border-gray-300 px-2 py-1.5 text-sm"
+                    >
+                      <option value="">value</option>
+                      <option value="true">true</option>
+                      <option value="false">false</option>
+                    </select>
+                  ) : field?.type === 'enum' && !listValue ? (
+                    <select
+                      value={row.value}
+                      onChange={(e) => updateRow(index, { value: e.target.value })}
+                      className="rounded-lg border border-gray-300 px-2 py-1.5 text-sm"
+                    >
+                      <option value="">value</option>
+                      {field.values?.map((v) => (
+                        <option key={v} value={v}>
+                          {v}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type={field?.type === 'number' && !listValue ? 'number' : 'text'}
+                      min={field?.min}
+                      max={field?.max}
+                      placeholder={listValue ? field?.values?.join(', ') : 'value'}
+                      value={row.value}
+                      onChange={(e) => updateRow(index, { value: e.target.value })}
+                      className="w-64 rounded-lg border border-gray-300 px-3 py-1.5 text-sm"
+                    />
+                  )}
+                  {draft.rows.length > 1 && (
+                    <button
+                      onClick={() => updateDraft({ rows: draft.rows.filter((_, i) => i !== index) })}
+                      className="text-xs text-gray-500 hover:text-red-600"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <button
+            onClick={() => updateDraft({ rows: [...draft.rows, { field: '', operator: '', value: '' }] })}
+            className="mt-2 text-sm font-medium text-indigo-600 hover:text-indigo-700"
+          >
+            + Add condition
+          </button>
+        </div>
+
+        {/* Actions */}
+        <div className="mt-6 grid grid-cols-1 gap-4 md:grid-cols-3">
+          <label className="text-sm">
+            <span className="block font-medium text-gray-700">Set priority bucket</span>
+            <select
+              value={draft.setPriority}
+              onChange={(e) => updateDraft({ setPriority: e.target.value as TipPriorityBucket | '' })}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            >
+              <option value="">Leave unchanged</option>
+              {BUCKETS.map((bucket) => (
+                <option key={bucket} value={bucket}>
+                  {bucket}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm">
+            <span className="block font-medium text-gray-700">Review priority (1 = first)</span>
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={draft.reviewPriority}
+              onChange={(e) => updateDraft({ reviewPriority: e.target.value })}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            />
+          </label>
+          <label className="mt-6 flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.requireReview}
+              onChange={(e) => updateDraft({ requireReview: e.target.checked })}
+            />
+            Always require human review
+          </label>
+        </div>
+
+        {issues.length > 0 && (
+          <ul className="mt-6 space-y-1 text-sm">
+            {issues.map((issue) => (
+              <li
+                key={`${issue.path}:${issue.message}`}
+                className={issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}
+              >
+                <span className="font-mono text-xs">{issue.path}</span> {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="mt-6 flex flex-wrap items-center justify-end gap-3">
+          {error && <span className="text-sm text-red-600">{error}</span>}
+          {draft.id && (
+            <button
+              onClick={() => {
+                setDraft(EMPTY_DRAFT);
+                setReport(null);
+                setIssues([]);
+              }}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          )}
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Last
+            <input
+              type="number"
+              min={1}
+              max={2000}
+              value={limit}
+              onChange={(e) => setLimit(e.target.value)}
+              className="w-24 rounded-lg border border-gray-300 px-2 py-1 text-right"
+            />
+            verified tips
+          </label>
+          <button
+            onClick={runDryRun}
+            disabled={busy}
+            className="rounded-lg border border-indigo-600 px-4 py-2 text-sm font-medium text-indigo-600 hover:bg-indigo-50 disabled:opacity-50"
+          >
+            {busy ? 'Working...' : 'Dry Run'}
+          </button>
+          <button
+            onClick={() => saveRule(false)}
+            disabled={busy}
+            className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Save Inactive
+          </button>
+          <button
+            onClick={() => saveRule(true)}
+            disabled={busy || !report}
+            title={report ? undefined : 'Dry-run the rule before activating it'}
+            className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Save &amp; Activate
+          </button>
+        </div>
+      </div>
+
+      {report && (
+        <>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <SummaryCard title="Tips replayed" value={report.totalTips} />
+            <SummaryCard title="Matched by rule" value={report.matchedTips} />
+            <SummaryCard title="Re-bucketed" value={report.rebucketedTips} />
+            <SummaryCard title="Review changed" value={report.reviewChangedTips} />
+          </div>
+
+          {report.driftedTips > 0 && (
+            <p className="text-sm text-amber-700">
+              {report.driftedTips} tip{report.driftedTips === 1 ? ' was' : 's were'} recorded in a different bucket
+              than today&apos;s rules would give; changes below compare against today&apos;s rules.
+            </p>
+          )}
+
+          {/* Bucket transition matrix */}
+          <div className="rounded-xl border border-gray-200 bg-white p-6">
+            <h2 className="text-lg font-semibold text-gray-900">Bucket changes</h2>
+            <p className="text-xs text-gray-500">Rows: current rules · Columns: with this rule</p>
+            <table className="mt-4 min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th />
+                  {BUCKETS.map((bucket) => (
+                    <th key={bucket} className="px-2 py-1 text-xs font-medium capitalize text-gray-500">
+                      {bucket}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {BUCKETS.map((from, fromIndex) => (
+                  <tr key={from}>
+                    <td className="px-2 py-1 text-xs font-medium capitalize text-gray-500">{from}</td>
+                    {BUCKETS.map((to, toIndex) => {
+                      const count = report.bucketMatrix[from][to];
+                      return (
+                        <td
+                          key={to}
+                          className={cn(
+                            'px-2 py-1 text-center',
+                            from === to && 'bg-gray-50 text-gray-500',
+                            from !== to && count > 0 &&
+                              (toIndex < fromIndex ? 'bg-orange-50 text-orange-700' : 'bg-blue-50 text-blue-700')
+                          )}
+                        >
+                          {count}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Changed tips */}
+          <div className="rounded-xl border border-gray-200 bg-white p-6">
+            <h2 className="text-lg font-semibold text-gray-900">Tips that would change</h2>
+            {report.changes.length === 0 ? (
+              <p className="mt-4 text-sm text-gray-500">No tips change bucket or review</p>
+            ) : (
+              <table className="mt-4 min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                    <th className="px-3 py-2">Tip</th>
+                    <th className="px-3 py-2">Case</th>
+                    <th className="px-3 py-2">Bucket</th>
+                    <th className="px-3 py-2">Review priority</th>
+                    <th className="px-3 py-2">Needs review</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {report.changes.slice(0, 200).map((change) => (
+                    <tr key={change.tipId}>
+                      <td className="px-3 py-2 font-mono text-xs text-gray-700">{change.tipId.slice(0, 8)}</td>
+                      <td className="px-3 py-2">{change.caseNumber || change.caseId.slice(0, 8)}</td>
+                      <td className="px-3 py-2 capitalize">
+                        {change.baselineBucket === change.candidateBucket
+                          ? change.baselineBucket
+                          : `${change.baselineBucket} → ${change.candidateBucket}`}
+                      </td>
+                      <td className="px-3 py-2">
+                        {change.baselineReviewPriority === change.candidateReviewPriority
+                          ? change.baselineReviewPriority
+                          : `${change.baselineReviewPriority} → ${change.candidateReviewPriority}`}
+                      </td>
+                      <td className="px-3 py-2">
+                        {change.baselineRequiresReview === change.candidateRequiresReview
+                          ? change.baselineRequiresReview ? 'Yes' : 'No'
+                          : change.candidateRequiresReview ? 'No → Yes' : 'Yes → No'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function SummaryCard({ title, value }: { title: string; value: string | number }) {
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-4">
+      <p className="text-sm text-gray-500">{title}</p>
+      <p className="mt-1 text-2xl font-semibold text-gray-900">{value}</p>
+    </div>
+  );
+}
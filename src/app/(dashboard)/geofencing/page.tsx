@@ -8,6 +8,7 @@ type GeofenceType = "circle" | "polygon" | "corridor";
 type AlertTrigger = "enter" | "exit" | "both";
 type AlertPriority = "low" | "medium" | "high" | "critical";
 type GeofenceStatus = "active" | "paused" | "expired" | "triggered";
+type AlertTriggerType = "enter" | "exit" | "dwell" | "loiter" | "no_movement" | "speed";
 
 interface Geofence {
   id: string;
@@ -34,13 +35,34 @@ interface GeofenceAlert {
   geofenceId: string;
   geofenceName: string;
   caseName: string;
-  triggerType: "enter" | "exit";
+  triggerType: AlertTriggerType;
   triggeredAt: string;
   location: { lat: number; lng: number };
   source: string;
+  details?: Record<string, number>;
   acknowledged: boolean;
 }
 
+const alertTriggerLabels: Record<AlertTriggerType, { label: string; color: string }> = {
+  enter: { label: "Entered Zone", color: "bg-green-100 text-green-700" },
+  exit: { label: "Exited Zone", color: "bg-orange-100 text-orange-700" },
+  dwell: { label: "Dwelling", color: "bg-purple-100 text-purple-700" },
+  loiter: { label: "Loitering at Edge", color: "bg-yellow-100 text-yellow-700" },
+  no_movement: { label: "No Movement", color: "bg-red-100 text-red-700" },
+  speed: { label: "Speed Anomaly", color: "bg-blue-100 text-blue-700" },
+};
+
+const describeAlertDetails = (details?: Record<string, number>) => {
+  if (!details) return null;
+  if (details.dwellMinutes !== undefined) return `Inside for ${details.dwellMinutes} min`;
+  if (details.loiterMinutes !== undefined) {
+    return `${details.loiterMinutes} min within ${details.boundaryDistanceMeters} m of the boundary`;
+  }
+  if (details.stationaryMinutes !== undefined) return `Stationary for ${details.stationaryMinutes} min`;
+  if (details.speedKph !== undefined) return `${details.speedKph} km/h (limit ${details.maxKph} km/h)`;
+  return null;
+};
+
 const getPriorityColor = (priority: AlertPriority) => {
   switch (priority) {
     case "low":
@@ -85,6 +107,12 @@ export default function GeofencingPage() {
     priority: "medium" as AlertPriority,
     description: "",
     notifyChannels: ["email", "push"],
+    // Behaviour triggers; 0 leaves a trigger off
+    dwellMinutes: 0,
+    loiterMinutes: 0,
+    loiterBandMeters: 50,
+    noMovementMinutes: 0,
+    maxSpeedKph: 0,
   });
 
   useEffect(() => {
@@ -178,6 +206,18 @@ export default function GeofencingPage() {
         source: "Mobile App Ping",
         acknowledged: false,
       },
+      {
+        id: "alert-4",
+        geofenceId: "geo-1",
+        geofenceName: "Last Known Location - Jane Doe",
+        caseName: "Jane Doe",
+        triggerType: "dwell",
+        triggeredAt: "2026-01-17T15:15:00Z",
+        location: { lat: 53.5468, lng: -113.4941 },
+        source: "Mobile App Ping",
+        details: { dwellMinutes: 45 },
+        acknowledged: false,
+      },
       {
         id: "alert-2",
         geofenceId: "geo-3",
@@ -224,6 +264,11 @@ export default function GeofencingPage() {
       priority: "medium",
       description: "",
       notifyChannels: ["email", "push"],
+      dwellMinutes: 0,
+      loiterMinutes: 0,
+      loiterBandMeters: 50,
+      noMovementMinutes: 0,
+      maxSpeedKph: 0,
     });
   };
 
@@ -385,12 +430,8 @@ export default function GeofencingPage() {
               <div className="flex items-start justify-between">
                 <div>
                   <div className="flex items-center gap-3 mb-2">
-                    <span
-                      className={`px-2 py-1 text-xs rounded ${
-                        alert.triggerType === "enter" ? "bg-green-100 text-green-700" : "bg-orange-100 text-orange-700"
-                      }`}
-                    >
-                      {alert.triggerType === "enter" ? "Entered Zone" : "Exited Zone"}
+                    <span className={`px-2 py-1 text-xs rounded ${alertTriggerLabels[alert.triggerType].color}`}>
+                      {alertTriggerLabels[alert.triggerType].label}
                     </span>
                     {!alert.acknowledged && (
                       <span className="px-2 py-1 bg-red-100 text-red-700 text-xs rounded">New</span>
@@ -401,6 +442,7 @@ export default function GeofencingPage() {
                   <div className="flex items-center gap-4 mt-2 text-sm text-gray-500">
                     <span>{new Date(alert.triggeredAt).toLocaleString()}</span>
                     <span>Source: {alert.source}</span>
+                    {describeAlertDetails(alert.details) && <span>{describeAlertDetails(alert.details)}</span>}
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
@@ -517,6 +559,31 @@ export default function GeofencingPage() {
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Behaviour Triggers</label>
+              <p className="text-xs text-gray-500 mb-3">Leave at 0 to turn a trigger off</p>
+              <div className="grid grid-cols-2 gap-4">
+                {([
+                  { key: "dwellMinutes", label: "Dwell inside (minutes)" },
+                  { key: "loiterMinutes", label: "Loiter near boundary (minutes)" },
+                  { key: "loiterBandMeters", label: "Loitering band (meters)" },
+                  { key: "noMovementMinutes", label: "No movement (minutes)" },
+                  { key: "maxSpeedKph", label: "Max speed inside (km/h)" },
+                ] as const).map(({ key, label }) => (
+                  <div key={key}>
+                    <label className="block text-xs text-gray-600 mb-1">{label}</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={newGeofence[key]}
+                      onChange={(e) => setNewGeofence({ ...newGeofence, [key]: Number(e.target.value) || 0 })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
               <textarea
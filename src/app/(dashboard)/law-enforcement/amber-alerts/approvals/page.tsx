@@ -0,0 +1,251 @@
+"use client";
+
+/**
+ * AMBER Broadcast Approvals
+ * Queue where a second person reviews and releases WEA, EAS and highway
+ * sign broadcasts before their CAP message enters the public feed
+ */
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { cn } from "@/lib";
+import { AMBER_DISTRIBUTION_CHANNEL_LABELS } from "@/types";
+import type { BroadcastApproval, BroadcastApprovalStatus } from "@/lib/services/amber-distribution";
+
+export const dynamic = "force-dynamic";
+
+type QueuedApproval = BroadcastApproval & { canReview: boolean };
+
+const STATUS_TABS: { value: BroadcastApprovalStatus; label: string }[] = [
+  { value: "pending", label: "Awaiting approval" },
+  { value: "approved", label: "Released" },
+  { value: "rejected", label: "Rejected" },
+  { value: "expired", label: "Expired" },
+];
+
+const FIELD_LABELS: Record<string, string> = {
+  headline: "Headline",
+  description: "Description",
+  instruction: "Instruction",
+  wirelessText: "Wireless text",
+  areas: "Areas",
+  expires: "Expires",
+};
+
+function formatRemaining(expiresAt: string, now: number): string {
+  const minutes = Math.max(0, Math.round((new Date(expiresAt).getTime() - now) / 60000));
+  return minutes === 0 ? "closing" : `${minutes} min left`;
+}
+
+export default function AmberBroadcastApprovalsPage() {
+  const [status, setStatus] = useState<BroadcastApprovalStatus>("pending");
+  const [approvals, setApprovals] = useState<QueuedApproval[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    loadApprovals(status);
+  }, [status]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  async function loadApprovals(tab: BroadcastApprovalStatus) {
+    try {
+      const response = await fetch(`/api/amber-alerts/broadcast-approvals?status=${tab}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load approval queue");
+      }
+      setApprovals(data.data || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load approval queue");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function submitDecision(approval: QueuedApproval, decision: "approve" | "reject") {
+    setSubmittingId(approval.id);
+    try {
+      const response = await fetch(`/api/amber-alerts/broadcast-approvals/${approval.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision, notes: notes[approval.id] || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to submit decision");
+      }
+      await loadApprovals(status);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to submit decision");
+    } finally {
+      setSubmittingId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-6 max-w-4xl">
+      <div>
+        <nav className="text-sm text-gray-500 mb-2">
+          <Link href="/law-enforcement/amber-alerts" className="hover:text-gray-700">
+            AMBER Alerts
+          </Link>
+          <span className="mx-2">/</span>
+          <span>Broadcast Approvals</span>
+        </nav>
+        <h1 className="text-2xl font-bold text-gray-900">Broadcast Approvals</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          WEA, EAS and highway sign broadcasts go out only after someone other than the requesting officer
+          approves them. Requests not decided in time expire.
+        </p>
+      </div>
+
+      <div className="flex gap-2 border-b border-gray-200">
+        {STATUS_TABS.map((tab) => (
+          <button
+            key={tab.value}
+            type="button"
+            onClick={() => {
+              setLoading(true);
+              setStatus(tab.value);
+            }}
+            className={cn(
+              "px-4 py-2 text-sm font-medium border-b-2 -mb-px",
+              status === tab.value
+                ? "border-amber-600 text-amber-700"
+                : "border-transparent text-gray-500 hover:text-gray-700"
+            )}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="rounded-lg border border-gray-200 bg-white p-6 h-48 animate-pulse" />
+      ) : approvals.length === 0 ? (
+        <div className="rounded-lg border border-gray-200 bg-white p-6 text-sm text-gray-500">
+          No broadcast requests here.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {approvals.map((approval) => (
+            <div key={approval.id} className="rounded-lg border border-gray-200 bg-white p-6 space-y-4">
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    {approval.alertNumber || approval.amberAlertId}
+                    {approval.childName && <span className="font-normal text-gray-500"> · {approval.childName}</span>}
+                  </h2>
+                  <p className="text-sm text-gray-500">
+                    CAP {approval.msgType} · requested {new Date(approval.requestedAt).toLocaleString()}
+                  </p>
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {approval.channels.map((channel) => (
+                      <span
+                        key={channel}
+                        className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800"
+                      >
+                        {AMBER_DISTRIBUTION_CHANNEL_LABELS[channel]}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                {approval.status === "pending" && (
+                  <span className="rounded-full bg-blue-50 px-3 py-1 text-xs font-medium text-blue-700">
+                    {formatRemaining(approval.expiresAt, now)}
+                  </span>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700">What will be broadcast</h3>
+                {approval.changes.length === 0 ? (
+                  <p className="mt-1 text-sm text-gray-500">No change from what is already on air.</p>
+                ) : (
+                  <table className="mt-2 w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs uppercase text-gray-500">
+                        <th className="py-1 pr-3">Field</th>
+                        <th className="py-1 pr-3">On air now</th>
+                        <th className="py-1">After release</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 align-top">
+                      {approval.changes.map((change) => (
+                        <tr key={`${change.language}-${change.field}`}>
+                          <td className="py-2 pr-3 whitespace-nowrap text-gray-600">
+                            {FIELD_LABELS[change.field] || change.field}{" "}
+                            <span className="text-xs text-gray-400">{change.language}</span>
+                          </td>
+                          <td className="py-2 pr-3 text-red-700 line-through decoration-red-300">
+                            {change.before || <span className="no-underline text-gray-400">—</span>}
+                          </td>
+                          <td className="py-2 text-green-800">{change.after || "—"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              {approval.reviewNotes && approval.status !== "pending" && (
+                <p className="text-sm text-gray-600">
+                  <span className="font-medium">Notes:</span> {approval.reviewNotes}
+                </p>
+              )}
+
+              {approval.status === "pending" &&
+                (approval.canReview ? (
+                  <div className="space-y-3 border-t border-gray-100 pt-4">
+                    <textarea
+                      value={notes[approval.id] || ""}
+                      onChange={(event) => setNotes({ ...notes, [approval.id]: event.target.value })}
+                      placeholder="Notes (required to reject)"
+                      rows={2}
+                      className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-cyan-500 focus:outline-none focus:ring-1 focus:ring-cyan-500"
+                    />
+                    <div className="flex gap-3">
+                      <button
+                        type="button"
+                        disabled={submittingId === approval.id}
+                        onClick={() => submitDecision(approval, "approve")}
+                        className="rounded-lg bg-amber-600 px-4 py-2 text-sm font-medium text-white hover:bg-amber-700 disabled:opacity-50"
+                      >
+                        Approve and release
+                      </button>
+                      <button
+                        type="button"
+                        disabled={submittingId === approval.id || !notes[approval.id]?.trim()}
+                        onClick={() => submitDecision(approval, "reject")}
+                        className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="border-t border-gray-100 pt-4 text-sm text-gray-500">
+                    You requested this broadcast or your role cannot release these channels; another approver
+                    must decide it.
+                  </p>
+                ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
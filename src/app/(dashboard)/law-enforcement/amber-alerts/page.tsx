@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 
 export default function AmberAlertsPage() {
@@ -15,11 +16,19 @@ export default function AmberAlertsPage() {
 
   return (
     <div className="space-y-6 max-w-2xl">
-      <div>
-        <h1 className="text-2xl font-bold text-gray-900">AMBER Alert Requests</h1>
-        <p className="mt-1 text-sm text-gray-500">
-          Start a new AMBER Alert request for an active case.
-        </p>
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">AMBER Alert Requests</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Start a new AMBER Alert request for an active case.
+          </p>
+        </div>
+        <Link
+          href="/law-enforcement/amber-alerts/approvals"
+          className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Broadcast approvals
+        </Link>
       </div>
 
       <form
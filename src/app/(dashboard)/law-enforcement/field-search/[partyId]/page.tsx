@@ -0,0 +1,24 @@
+import { FieldSearchMode } from "@/components/mobile/FieldSearchMode";
+
+interface FieldSearchPageProps {
+  params: { partyId: string };
+  searchParams: { volunteerId?: string };
+}
+
+export default function FieldSearchPage({ params, searchParams }: FieldSearchPageProps) {
+  if (!searchParams.volunteerId) {
+    return (
+      <div className="max-w-lg mx-auto p-4">
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          Open field search mode from your volunteer assignment link.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-lg mx-auto p-4">
+      <FieldSearchMode searchPartyId={params.partyId} volunteerId={searchParams.volunteerId} />
+    </div>
+  );
+}
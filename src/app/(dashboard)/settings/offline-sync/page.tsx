@@ -0,0 +1,19 @@
+"use client";
+
+import { OfflineDataProtection } from "@/components/mobile/OfflineDataProtection";
+import { SyncConflictCenter } from "@/components/mobile/SyncConflictCenter";
+
+export default function OfflineSyncSettingsPage() {
+  return (
+    <div className="p-6 max-w-4xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Offline Sync</h1>
+        <p className="text-gray-600 mt-1">
+          Review changes made offline, settle conflicts with other officers&apos; edits and retry failed changes.
+        </p>
+      </div>
+      <OfflineDataProtection />
+      <SyncConflictCenter />
+    </div>
+  );
+}
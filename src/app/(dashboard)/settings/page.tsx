@@ -18,6 +18,11 @@ const settingsLinks = [
     description: "Manage consent preferences and data privacy options.",
     href: "/settings/privacy",
   },
+  {
+    title: "Offline Sync",
+    description: "Review changes made offline and resolve sync conflicts.",
+    href: "/settings/offline-sync",
+  },
 ];
 
 export default function SettingsPage() {
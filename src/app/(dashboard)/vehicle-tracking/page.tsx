@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import type { MovementReconstruction } from "@/lib/services/vehicle-movement";
 
 export const dynamic = "force-dynamic";
 
@@ -67,6 +68,9 @@ export default function VehicleTrackingPage() {
   const [selectedVehicle, setSelectedVehicle] = useState<VehicleRecord | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [filterAlertStatus, setFilterAlertStatus] = useState<AlertStatus | "all">("all");
+  const [showMovement, setShowMovement] = useState(false);
+  const [movement, setMovement] = useState<MovementReconstruction | null>(null);
+  const [movementError, setMovementError] = useState<string | null>(null);
 
   // Add vehicle form state
   const [newVehicle, setNewVehicle] = useState({
@@ -193,6 +197,26 @@ export default function VehicleTrackingPage() {
         confidence: "possible",
         notes: "Reported parked outside coffee shop",
       },
+      {
+        id: "sight-5",
+        vehicleId: "veh-1",
+        licensePlate: "ABC-1234",
+        location: { lat: 51.0447, lng: -114.0719, address: "Macleod Trail & 9 Ave, Calgary" },
+        timestamp: "2026-01-17T12:05:00Z",
+        source: "Citizen Report",
+        confidence: "unverified",
+        notes: "Caller unsure of last digit",
+      },
+      {
+        id: "sight-6",
+        vehicleId: "veh-1",
+        licensePlate: "ABC-1234",
+        location: { lat: 53.5628, lng: -113.5063, address: "Kingsway & 109 St, Edmonton" },
+        timestamp: "2026-01-17T14:05:00Z",
+        source: "ALPR Camera",
+        confidence: "confirmed",
+        direction: "Eastbound",
+      },
     ]);
   }, []);
 
@@ -206,6 +230,36 @@ export default function VehicleTrackingPage() {
     return matchesSearch && matchesStatus;
   });
 
+  useEffect(() => {
+    if (!selectedVehicle || !showMovement) return;
+
+    // Reconstructed from the stored sightings and projected to now
+    let cancelled = false;
+    async function fetchMovement(vehicleId: string) {
+      try {
+        const query = new URLSearchParams({ at: new Date().toISOString() });
+        const response = await fetch(`/api/law-enforcement/vehicles/${vehicleId}/movement?${query}`);
+        const data = await response.json();
+        if (cancelled) return;
+        if (response.ok) {
+          setMovement(data);
+        } else {
+          setMovementError(data.error || "Failed to reconstruct movement");
+        }
+      } catch (error) {
+        console.error("Failed to fetch vehicle movement:", error);
+        if (!cancelled) setMovementError("Failed to reconstruct movement");
+      }
+    }
+
+    fetchMovement(selectedVehicle.id);
+    return () => {
+      cancelled = true;
+      setMovement(null);
+      setMovementError(null);
+    };
+  }, [selectedVehicle, showMovement]);
+
   const handleAddVehicle = async () => {
     await new Promise((resolve) => setTimeout(resolve, 1000));
     setActiveTab("vehicles");
@@ -576,7 +630,13 @@ export default function VehicleTrackingPage() {
                   <p className="text-blue-600">{selectedVehicle.caseName}</p>
                 </div>
               </div>
-              <button onClick={() => setSelectedVehicle(null)} className="text-gray-500 hover:text-gray-700">
+              <button
+                onClick={() => {
+                  setSelectedVehicle(null);
+                  setShowMovement(false);
+                }}
+                className="text-gray-500 hover:text-gray-700"
+              >
                 <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                 </svg>
@@ -626,9 +686,28 @@ export default function VehicleTrackingPage() {
                     </div>
                   ))}
               </div>
+
+              {showMovement && movementError && (
+                <p className="mt-6 text-sm text-red-600">{movementError}</p>
+              )}
+              {showMovement && movement && (
+                <MovementPanel
+                  movement={movement}
+                  addressFor={(id) =>
+                    [...movement.accepted, ...movement.rejected.map((rejection) => rejection.sighting)].find(
+                      (s) => s.id === id
+                    )?.location.address ?? id
+                  }
+                />
+              )}
             </div>
             <div className="p-6 border-t border-gray-200 flex gap-3">
-              <button className="flex-1 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">View on Map</button>
+              <button
+                onClick={() => setShowMovement(!showMovement)}
+                className="flex-1 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                {showMovement ? "Hide Movement" : "Reconstruct Movement"}
+              </button>
               <button
                 className={`flex-1 py-2 rounded-lg ${
                   selectedVehicle.isAlertActive
@@ -645,3 +724,141 @@ export default function VehicleTrackingPage() {
     </div>
   );
 }
+
+const MAP_WIDTH = 560;
+const MAP_HEIGHT = 320;
+const BAND_FILL = ["fill-blue-500/40", "fill-blue-400/25", "fill-blue-300/15"];
+
+function MovementPanel({
+  movement,
+  addressFor,
+}: {
+  movement: MovementReconstruction;
+  addressFor: (sightingId: string) => string;
+}) {
+  const { prediction } = movement;
+
+  // Equirectangular projection of everything drawn, scaled to fit the panel
+  const points = [
+    ...movement.legs.flatMap((leg) => leg.path),
+    ...movement.accepted.map((s) => s.location),
+    ...(prediction ? prediction.bands.flatMap((band) => band.polygon) : []),
+  ];
+  if (points.length === 0) return null;
+
+  const midLat = points.reduce((sum, p) => sum + p.lat, 0) / points.length;
+  const xScale = Math.cos((midLat * Math.PI) / 180);
+  const minX = Math.min(...points.map((p) => p.lng * xScale));
+  const maxX = Math.max(...points.map((p) => p.lng * xScale));
+  const minY = Math.min(...points.map((p) => p.lat));
+  const maxY = Math.max(...points.map((p) => p.lat));
+  const scale = Math.min(
+    (MAP_WIDTH - 40) / Math.max(maxX - minX, 1e-6),
+    (MAP_HEIGHT - 40) / Math.max(maxY - minY, 1e-6)
+  );
+  const project = (p: { lat: number; lng: number }) =>
+    `${20 + (p.lng * xScale - minX) * scale},${MAP_HEIGHT - 20 - (p.lat - minY) * scale}`;
+
+  return (
+    <div className="mt-6">
+      <h3 className="font-semibold text-gray-900 mb-3">Movement Reconstruction</h3>
+      <svg
+        viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+        className="w-full bg-gray-50 rounded-lg border border-gray-200"
+      >
+        {prediction &&
+          [...prediction.bands].reverse().map((band, i) => (
+            <polygon
+              key={band.probability}
+              points={band.polygon.map(project).join(" ")}
+              className={BAND_FILL[prediction.bands.length - 1 - i]}
+            />
+          ))}
+        {movement.legs.map((leg) => (
+          <polyline
+            key={`${leg.fromId}-${leg.toId}`}
+            points={leg.path.map(project).join(" ")}
+            fill="none"
+            className="stroke-gray-700"
+            strokeWidth={2}
+            strokeDasharray={leg.snappedToRoad ? undefined : "6 4"}
+          />
+        ))}
+        {movement.stops
+          .filter((stop) => stop.location)
+          .map((stop) => {
+            const [x, y] = project(stop.location!).split(",");
+            return <circle key={stop.from} cx={x} cy={y} r={9} className="fill-amber-300/70 stroke-amber-600" />;
+          })}
+        {movement.accepted.map((s) => {
+          const [x, y] = project(s.location).split(",");
+          return <circle key={s.id} cx={x} cy={y} r={4} className="fill-blue-700" />;
+        })}
+        {prediction &&
+          (() => {
+            const [x, y] = project(prediction.predictedLocation).split(",");
+            return <circle cx={x} cy={y} r={5} className="fill-white stroke-blue-700" strokeWidth={2} />;
+          })()}
+      </svg>
+
+      <div className="grid grid-cols-3 gap-3 text-sm mt-3">
+        <div>
+          <p className="text-gray-500">Distance</p>
+          <p className="font-medium">{movement.totalDistanceKm.toFixed(1)} km</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Legs on roads</p>
+          <p className="font-medium">
+            {movement.legs.filter((leg) => leg.snappedToRoad).length} / {movement.legs.length}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-500">Projection</p>
+          <p className="font-medium">
+            {prediction
+              ? `${Math.round(prediction.elapsedMinutes)} min at ~${Math.round(prediction.speedKph)} km/h`
+              : "Last sighting too old"}
+          </p>
+        </div>
+      </div>
+
+      {prediction && (
+        <div className="flex gap-2 mt-3 text-xs">
+          {prediction.bands.map((band) => (
+            <span key={band.probability} className="px-2 py-1 rounded bg-blue-50 text-blue-700">
+              {Math.round(band.probability * 100)}% within {band.radiusKm.toFixed(1)} km
+            </span>
+          ))}
+        </div>
+      )}
+
+      {movement.stops.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {movement.stops.map((stop) => (
+            <div key={`${stop.kind}-${stop.from}`} className="bg-amber-50 rounded-lg p-3 text-sm">
+              <p className="font-medium text-amber-800">
+                {stop.kind === "observed" ? "Stopped" : "Unaccounted time"}: {Math.round(stop.durationMinutes)} min
+              </p>
+              <p className="text-amber-700">
+                {stop.kind === "observed"
+                  ? `Near ${addressFor(stop.sightingIds[0])}`
+                  : `Between ${addressFor(stop.sightingIds[0])} and ${addressFor(stop.sightingIds[1])}`}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {movement.rejected.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {movement.rejected.map((rejection) => (
+            <div key={rejection.sighting.id} className="bg-red-50 rounded-lg p-3 text-sm">
+              <p className="font-medium text-red-800">Set aside: {addressFor(rejection.sighting.id)}</p>
+              <p className="text-red-700">{rejection.reason}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
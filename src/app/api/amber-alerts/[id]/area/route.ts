@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { updateAmberAlertAreaSchema } from "@/lib/validations";
+import { alertAreaFor, amberDistributionService, expansionKm } from "@/lib/services/amber-distribution";
+import type { AmberAlert } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+async function authorize() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { supabase, user: null, error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || !["law_enforcement", "admin", "developer"].includes(profile.role)) {
+    return { supabase, user: null, error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  return { supabase, user, error: null };
+}
+
+/**
+ * GET /api/amber-alerts/[id]/area
+ * The alert's area, how far it has widened, and who it reaches now
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const { supabase, error } = await authorize();
+  if (error) return error;
+
+  const { data: alert, error: fetchError } = await supabase
+    .from("amber_alerts")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (fetchError || !alert) {
+    return NextResponse.json({ error: "AMBER Alert not found" }, { status: 404 });
+  }
+
+  const amberAlert = alert as AmberAlert;
+  const area = alertAreaFor(amberAlert);
+
+  try {
+    const estimate = await amberDistributionService.estimateReach({
+      area,
+      expansion: amberAlert.area_expansion,
+      issuedAt: amberAlert.issued_at,
+      provinces: amberAlert.target_provinces,
+      channels: amberAlert.distribution_channels,
+    });
+
+    return NextResponse.json({
+      area,
+      expansion: amberAlert.area_expansion ?? null,
+      margin_km: expansionKm(amberAlert.area_expansion, amberAlert.issued_at),
+      reached_margin_km: Number(amberAlert.area_margin_km ?? 0),
+      estimate,
+    });
+  } catch (err) {
+    console.error("Alert area error:", err);
+    return NextResponse.json({ error: "Failed to estimate reach" }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/amber-alerts/[id]/area
+ * Redraw the alert area or change its widening schedule. Recipients newly
+ * inside the area are sent the alert.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const { user, error } = await authorize();
+  if (error || !user) return error;
+
+  const parsed = updateAmberAlertAreaSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message || "Invalid request", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const created = await amberDistributionService.updateAlertArea(
+      id,
+      parsed.data.area,
+      parsed.data.expansion,
+      user.id
+    );
+    return NextResponse.json({ success: true, distributions_created: created });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Failed to update alert area";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
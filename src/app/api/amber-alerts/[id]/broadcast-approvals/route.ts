@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { requestBroadcastApprovalSchema } from "@/lib/validations";
+import {
+  BroadcastApprovalService,
+  BroadcastApprovalError,
+  BROADCAST_APPROVAL_ERROR_STATUS,
+} from "@/lib/services/amber-distribution";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/amber-alerts/[id]/broadcast-approvals
+ * Ask again for approval to broadcast the alert's latest CAP message, e.g.
+ * after an earlier request expired or was rejected
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || !["law_enforcement", "admin", "developer"].includes(profile.role)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = requestBroadcastApprovalSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message || "Invalid request", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const { data: alert } = await supabase
+    .from("amber_alerts")
+    .select("alert_status")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (!alert) {
+    return NextResponse.json({ error: "AMBER Alert not found" }, { status: 404 });
+  }
+  if (alert.alert_status !== "active") {
+    return NextResponse.json(
+      { error: `Cannot broadcast ${alert.alert_status} alert` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const approval = await new BroadcastApprovalService(supabase).requestApproval(
+      id,
+      parsed.data.channels,
+      user.id
+    );
+    return NextResponse.json(approval, { status: 201 });
+  } catch (error) {
+    if (error instanceof BroadcastApprovalError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: BROADCAST_APPROVAL_ERROR_STATUS[error.code] }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "Failed to request broadcast approval";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
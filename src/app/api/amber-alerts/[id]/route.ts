@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
-import { amberDistributionService } from "@/lib/services/amber-distribution";
-import type { CancelAmberAlertRequest } from "@/types";
+import { amberDistributionService, describeAlertChanges } from "@/lib/services/amber-distribution";
+import { amendAmberAlertSchema } from "@/lib/validations";
+import type { CancelAmberAlertRequest, Job } from "@/types";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -61,9 +62,114 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   });
 }
 
+/**
+ * PATCH /api/amber-alerts/[id]
+ * Amend an active AMBER alert. Every channel that already carried the alert
+ * is sent an update listing what changed, queued for the job worker.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || !["law_enforcement", "admin", "developer"].includes(profile.role)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = amendAmberAlertSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message || "Invalid request", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const { data: alert, error: fetchError } = await supabase
+    .from("amber_alerts")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (fetchError || !alert) {
+    return NextResponse.json({ error: "AMBER Alert not found" }, { status: 404 });
+  }
+
+  if (alert.alert_status !== "active") {
+    return NextResponse.json(
+      { error: `Alert is already ${alert.alert_status}` },
+      { status: 400 }
+    );
+  }
+
+  const { reason, ...amended } = parsed.data;
+  const changes = describeAlertChanges(alert, amended);
+
+  if (changes.length === 0) {
+    return NextResponse.json({ error: "No details changed" }, { status: 400 });
+  }
+
+  const { error: updateError } = await supabase
+    .from("amber_alerts")
+    .update(amended)
+    .eq("id", id);
+
+  if (updateError) {
+    return NextResponse.json({ error: updateError.message }, { status: 500 });
+  }
+
+  // Broadcast channels get the change through a CAP Update
+  try {
+    await amberDistributionService.publishCapMessage(id, user.id);
+  } catch (err) {
+    console.error("CAP message error:", err);
+  }
+
+  let followUpJob: Job | null = null;
+  try {
+    followUpJob = await amberDistributionService.queueFollowUps(id, "update", { changes, actorId: user.id });
+  } catch (err) {
+    console.error("AMBER follow-up error:", err);
+  }
+
+  // Log case update
+  await supabase.from("case_updates").insert({
+    case_id: alert.case_id,
+    author_id: user.id,
+    update_type: "amber_alert",
+    title: "AMBER Alert Updated",
+    content: [reason, ...changes.map((change) => `${change.label}: ${change.after ?? "removed"}`)]
+      .filter(Boolean)
+      .join("\n"),
+    is_public: true,
+    is_law_enforcement_only: false,
+  });
+
+  return NextResponse.json({
+    success: true,
+    changes,
+    follow_up_job_id: followUpJob?.id ?? null,
+  });
+}
+
 /**
  * DELETE /api/amber-alerts/[id]
- * Cancel an AMBER alert
+ * Cancel an AMBER alert, or end it because the child was found. Channels
+ * that already carried the alert are told it is over, queued for the job
+ * worker.
  */
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   const { id } = await params;
@@ -90,11 +196,13 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
 
   // Get the reason from request body
   let reason = "Alert cancelled";
+  let resolved = false;
   try {
     const body = (await request.json()) as CancelAmberAlertRequest;
     if (body.reason) {
       reason = body.reason;
     }
+    resolved = body.resolved === true;
   } catch {
     // No body provided
   }
@@ -120,12 +228,16 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
   // Cancel the alert
   const { error: updateError } = await supabase
     .from("amber_alerts")
-    .update({
-      alert_status: "cancelled",
-      cancelled_at: new Date().toISOString(),
-      cancelled_by: user.id,
-      cancelled_reason: reason,
-    })
+    .update(
+      resolved
+        ? { alert_status: "resolved", resolved_at: new Date().toISOString() }
+        : {
+            alert_status: "cancelled",
+            cancelled_at: new Date().toISOString(),
+            cancelled_by: user.id,
+            cancelled_reason: reason,
+          }
+    )
     .eq("id", id);
 
   if (updateError) {
@@ -141,12 +253,27 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
   // Cancel pending distributions
   const cancelledCount = await amberDistributionService.cancelDistributions(id, reason);
 
+  // Tell feed receivers to stop broadcasting
+  try {
+    await amberDistributionService.publishCapMessage(id, user.id);
+  } catch (err) {
+    console.error("CAP message error:", err);
+  }
+
+  // Tell everyone else who received the alert
+  let followUpJob: Job | null = null;
+  try {
+    followUpJob = await amberDistributionService.queueFollowUps(id, "cancel", { actorId: user.id });
+  } catch (err) {
+    console.error("AMBER follow-up error:", err);
+  }
+
   // Log case update
   await supabase.from("case_updates").insert({
     case_id: alert.case_id,
     author_id: user.id,
     update_type: "amber_alert",
-    title: "AMBER Alert Cancelled",
+    title: resolved ? "AMBER Alert Ended - Child Located" : "AMBER Alert Cancelled",
     content: reason,
     is_public: true,
     is_law_enforcement_only: false,
@@ -155,5 +282,6 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
   return NextResponse.json({
     success: true,
     distributions_cancelled: cancelledCount,
+    follow_up_job_id: followUpJob?.id ?? null,
   });
 }
@@ -66,12 +66,21 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     .order("created_at", { ascending: false })
     .limit(50);
 
+  // Get update and cancellation messages sent after the alert went out
+  const { data: followUps } = await supabase
+    .from("amber_distribution_follow_ups")
+    .select("*")
+    .eq("amber_alert_id", id)
+    .order("created_at", { ascending: false })
+    .limit(100);
+
   return NextResponse.json({
     alert_id: alert.id,
     alert_number: alert.alert_number,
     alert_status: alert.alert_status,
     summary,
     distributions: distributions || [],
+    follow_ups: followUps || [],
     recent_logs: logs || [],
   });
 }
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { reviewBroadcastApprovalSchema } from "@/lib/validations";
+import {
+  BroadcastApprovalService,
+  BroadcastApprovalError,
+  BROADCAST_APPROVAL_ERROR_STATUS,
+} from "@/lib/services/amber-distribution";
+
+interface RouteParams {
+  params: Promise<{ approvalId: string }>;
+}
+
+/**
+ * PATCH /api/amber-alerts/broadcast-approvals/[approvalId]
+ * Second-person decision on a broadcast. Approval releases the CAP message
+ * to the feed and the queued broadcast distributions with it.
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { approvalId } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = reviewBroadcastApprovalSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message || "Invalid request", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await new BroadcastApprovalService(supabase).reviewApproval(
+      approvalId,
+      parsed.data.decision,
+      { id: user.id, role: profile.role },
+      parsed.data.notes
+    );
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof BroadcastApprovalError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: BROADCAST_APPROVAL_ERROR_STATUS[error.code] }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "Failed to review broadcast";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  BroadcastApprovalService,
+  type BroadcastApprovalStatus,
+} from "@/lib/services/amber-distribution";
+
+const STATUSES: BroadcastApprovalStatus[] = ["pending", "approved", "rejected", "expired", "superseded"];
+
+/**
+ * GET /api/amber-alerts/broadcast-approvals
+ * The approver queue for WEA, EAS and highway sign broadcasts. Each request
+ * says whether the caller may decide it.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || !["law_enforcement", "admin", "developer"].includes(profile.role)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const status = (searchParams.get("status") || "pending") as BroadcastApprovalStatus;
+  if (!STATUSES.includes(status)) {
+    return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+  }
+
+  try {
+    const broadcastApprovals = new BroadcastApprovalService(supabase);
+    const [approvals, policies] = await Promise.all([
+      broadcastApprovals.listApprovals({
+        status,
+        alertId: searchParams.get("alert_id") || undefined,
+      }),
+      broadcastApprovals.getPolicies(),
+    ]);
+
+    return NextResponse.json({
+      data: approvals.map((approval) => ({
+        ...approval,
+        canReview:
+          approval.status === "pending" &&
+          user.id !== approval.requestedBy &&
+          user.id !== approval.messageAuthor &&
+          approval.channels.every((channel) => policies[channel].approverRoles.includes(profile.role)),
+      })),
+    });
+  } catch (err) {
+    console.error("Broadcast approval queue error:", err);
+    return NextResponse.json({ error: "Failed to load approval queue" }, { status: 500 });
+  }
+}
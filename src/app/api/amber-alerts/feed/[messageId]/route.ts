@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import {
+  CAP_CONTENT_TYPE,
+  signCapMessage,
+  toCapDocument,
+} from "@/lib/services/amber-distribution";
+
+// PEM values may be stored in env files with escaped newlines
+function readPem(value: string | undefined): string | undefined {
+  return value?.replace(/\\n/g, "\n");
+}
+
+/**
+ * GET /api/amber-alerts/feed/[messageId]
+ * A released CAP-CP message from the feed, with an enveloped XML signature.
+ * Receivers verify it against the certificate in CAP_SIGNING_CERTIFICATE.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ messageId: string }> }
+) {
+  const { messageId } = await params;
+
+  const privateKey = readPem(process.env.CAP_SIGNING_PRIVATE_KEY);
+  if (!privateKey) {
+    console.error("CAP_SIGNING_PRIVATE_KEY is not configured");
+    return NextResponse.json({ error: "CAP feed is not available" }, { status: 503 });
+  }
+
+  // Public endpoint read by NAAD and broadcasters; uses the service role
+  const { data: message, error } = await createServiceClient()
+    .from("amber_cap_messages")
+    .select("xml")
+    .eq("id", messageId)
+    .not("released_at", "is", null)
+    .maybeSingle();
+
+  if (error || !message) {
+    return NextResponse.json({ error: "CAP message not found" }, { status: 404 });
+  }
+
+  try {
+    const signed = signCapMessage(message.xml, {
+      privateKey,
+      certificate: readPem(process.env.CAP_SIGNING_CERTIFICATE),
+    });
+
+    return new NextResponse(toCapDocument(signed), {
+      headers: {
+        "Content-Type": `${CAP_CONTENT_TYPE}; charset=utf-8`,
+        // A message never changes once published
+        "Cache-Control": "public, max-age=3600, immutable",
+      },
+    });
+  } catch (err) {
+    console.error("CAP signing error:", err);
+    return NextResponse.json({ error: "CAP feed is not available" }, { status: 503 });
+  }
+}
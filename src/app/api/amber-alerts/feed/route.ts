@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import { buildCapFeed, type CapFeedEntry } from "@/lib/services/amber-distribution";
+
+/**
+ * GET /api/amber-alerts/feed
+ * Atom index of current CAP-CP messages: the latest released, unexpired
+ * message for each AMBER alert, including cancels so receivers can stop
+ * broadcasting. Messages awaiting two-person approval are left out.
+ * No authentication required; each linked message is signed.
+ */
+export async function GET(request: NextRequest) {
+  // Public endpoint read by NAAD and broadcasters; uses the service role
+  const supabase = createServiceClient();
+  const now = new Date();
+
+  const { data, error } = await supabase
+    .from("amber_cap_messages")
+    .select("id, amber_alert_id, identifier, msg_type, sent_at, amber_alert:amber_alerts(alert_number)")
+    .not("released_at", "is", null)
+    .gt("expires_at", now.toISOString())
+    .order("sent_at", { ascending: false })
+    .limit(200);
+
+  if (error) {
+    console.error("CAP feed error:", error);
+    return NextResponse.json({ error: "Feed unavailable" }, { status: 500 });
+  }
+
+  const selfUrl = new URL("/api/amber-alerts/feed", request.url).toString();
+  const seen = new Set<string>();
+  const entries: CapFeedEntry[] = [];
+
+  for (const row of data || []) {
+    if (seen.has(row.amber_alert_id)) continue;
+    seen.add(row.amber_alert_id);
+
+    const alert = (Array.isArray(row.amber_alert) ? row.amber_alert[0] : row.amber_alert) as
+      | { alert_number: string | null }
+      | null;
+    entries.push({
+      identifier: row.identifier,
+      msgType: row.msg_type,
+      alertNumber: alert?.alert_number || row.amber_alert_id,
+      sent: new Date(row.sent_at),
+      href: `${selfUrl}/${row.id}`,
+    });
+  }
+
+  return new NextResponse(buildCapFeed(entries, { selfUrl, updated: now }), {
+    headers: {
+      "Content-Type": "application/atom+xml; charset=utf-8",
+      "Cache-Control": "public, max-age=30",
+    },
+  });
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { estimateAmberReachSchema } from "@/lib/validations";
+import { amberDistributionService } from "@/lib/services/amber-distribution";
+
+/**
+ * POST /api/amber-alerts/reach
+ * Estimate how many recipients an alert area would reach, before the alert
+ * is issued
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || !["law_enforcement", "admin", "developer"].includes(profile.role)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = estimateAmberReachSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message || "Invalid request", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const estimate = await amberDistributionService.estimateReach(parsed.data);
+    return NextResponse.json(estimate);
+  } catch (err) {
+    console.error("Reach estimate error:", err);
+    return NextResponse.json({ error: "Failed to estimate reach" }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { amberDistributionService } from "@/lib/services/amber-distribution";
+import { amberAlertAreaSchema, amberAreaExpansionSchema } from "@/lib/validations";
 import type { AmberAlertRequest } from "@/components/alerts/AmberAlertForm";
 import type { AmberAlert, AmberDistributionChannel } from "@/types";
 
@@ -160,6 +161,19 @@ export async function POST(request: NextRequest) {
   // Derive distribution channels from form boolean flags
   const distributionChannels = deriveDistributionChannels(body);
 
+  let targetArea = null;
+  let areaExpansion = null;
+  if (body.targetArea) {
+    const parsedArea = amberAlertAreaSchema.safeParse(body.targetArea);
+    const parsedExpansion = amberAreaExpansionSchema.nullable().safeParse(body.areaExpansion ?? null);
+    if (!parsedArea.success || !parsedExpansion.success) {
+      const issue = parsedArea.error?.issues[0] ?? parsedExpansion.error?.issues[0];
+      return NextResponse.json({ error: issue?.message || "Invalid alert area" }, { status: 400 });
+    }
+    targetArea = parsedArea.data;
+    areaExpansion = parsedExpansion.data;
+  }
+
   // Build suspect name from first/last if known
   const suspectName = body.suspectKnown && (body.suspectFirstName || body.suspectLastName)
     ? `${body.suspectFirstName || ''} ${body.suspectLastName || ''}`.trim()
@@ -192,6 +206,13 @@ export async function POST(request: NextRequest) {
       vehicle_license_plate: body.vehicleLicensePlate,
       vehicle_license_province: body.vehicleLicenseProvince,
       target_provinces: body.targetProvinces || [],
+      target_area: targetArea,
+      area_expansion: areaExpansion,
+      // A radius area is also the CAP message's circle
+      target_coordinates: targetArea?.type === "radius"
+        ? `(${targetArea.center.lng},${targetArea.center.lat})`
+        : undefined,
+      target_radius_km: targetArea?.type === "radius" ? Math.round(targetArea.radius_km) : undefined,
       distribution_channels: distributionChannels,
       requesting_officer_id: user.id,
       requesting_officer_name: body.lawEnforcementContact || profile.full_name,
@@ -228,6 +249,13 @@ export async function POST(request: NextRequest) {
     is_law_enforcement_only: false,
   });
 
+  // Publish the CAP Alert to the feed before broadcast channels are queued
+  try {
+    await amberDistributionService.publishCapMessage(amberAlert.id, user.id);
+  } catch (err) {
+    console.error("CAP message error:", err);
+  }
+
   // Trigger distribution if channels were selected
   let distributionResult = null;
   if (distributionChannels.length > 0) {
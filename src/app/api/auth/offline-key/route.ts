@@ -0,0 +1,61 @@
+/**
+ * Offline Storage Key API
+ * GET /api/auth/offline-key?deviceId=...
+ * Returns the key material a device uses to unlock its encrypted offline data.
+ * It is derived from the user, the device and a server nonce for the device,
+ * so it never has to be stored and stops being available once the session
+ * ends or the device is revoked. Revocation replaces the nonce, so a device
+ * that is later reinstated never gets its old key back.
+ * LC-FEAT-031: Mobile App Companion
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createHmac } from "crypto";
+import { createClient } from "@/lib/supabase/server";
+import { getDeviceKeyNonce, isDeviceBlocked } from "@/lib/services/device-management-service";
+import { deviceIdSchema } from "@/lib/validations/device";
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsedDeviceId = deviceIdSchema.safeParse(request.nextUrl.searchParams.get("deviceId"));
+    if (!parsedDeviceId.success) {
+      return NextResponse.json({ error: "A valid device ID is required" }, { status: 400 });
+    }
+    const deviceId = parsedDeviceId.data;
+
+    // The device wipes its offline data when refused
+    if (await isDeviceBlocked(supabase, user.id, deviceId)) {
+      return NextResponse.json({ error: "This device has been revoked" }, { status: 403 });
+    }
+
+    const secret = process.env.OFFLINE_STORAGE_KEY_SECRET;
+    if (!secret) {
+      console.error("OFFLINE_STORAGE_KEY_SECRET is not configured");
+      return NextResponse.json({ error: "Offline storage is not available" }, { status: 503 });
+    }
+
+    const nonce = await getDeviceKeyNonce(supabase, deviceId);
+    if (!nonce) {
+      return NextResponse.json({ error: "This device has been revoked" }, { status: 403 });
+    }
+
+    const keyMaterial = createHmac("sha256", secret).update(`${user.id}:${deviceId}:${nonce}`).digest("base64url");
+
+    return NextResponse.json(
+      { userId: user.id, keyMaterial },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Offline key error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -26,7 +26,8 @@ export async function POST(request: NextRequest) {
     const { data: credentials, error: credError } = await supabase
       .from("webauthn_credentials")
       .select("credential_id, transports")
-      .eq("user_id", userId);
+      .eq("user_id", userId)
+      .is("revoked_at", null);
 
     if (credError) {
       console.error("Error fetching credentials:", credError);
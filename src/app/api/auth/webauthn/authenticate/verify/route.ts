@@ -6,6 +6,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { deviceIdSchema } from "@/lib/validations/device";
 
 export async function POST(request: NextRequest) {
   try {
@@ -61,6 +62,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (credential.revoked_at) {
+      return NextResponse.json(
+        { error: "Credential has been revoked" },
+        { status: 403 }
+      );
+    }
+
+    // Credentials registered before remote wipe learn their device on next use
+    const deviceId = deviceIdSchema.safeParse(body.deviceId);
+
     // In a production environment, you would verify the assertion
     // signature against the stored public key here.
     // For now, we'll update the counter and last used time.
@@ -71,6 +82,7 @@ export async function POST(request: NextRequest) {
       .update({
         counter: credential.counter + 1,
         last_used_at: new Date().toISOString(),
+        ...(!credential.device_id && deviceId.success ? { device_id: deviceId.data } : {}),
       })
       .eq("id", credential.id);
 
@@ -0,0 +1,43 @@
+/**
+ * Device Reinstatement API
+ * POST /api/auth/webauthn/devices/[id]/reinstate
+ * Lifts the revocation of the device a credential was registered from so
+ * its owner can register it again
+ * LC-FEAT-031: Mobile App Companion
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { DeviceNotFoundError, reinstateDevice } from "@/lib/services/device-management-service";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase.from("profiles").select("role").eq("id", user.id).single();
+  if (!profile || !["admin", "developer"].includes(profile.role)) {
+    return NextResponse.json({ error: "Forbidden: Admin access required" }, { status: 403 });
+  }
+
+  try {
+    const device = await reinstateDevice(supabase, { id, actorId: user.id });
+    return NextResponse.json({ device });
+  } catch (error) {
+    if (error instanceof DeviceNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Device reinstatement error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Device Revocation API
+ * POST /api/auth/webauthn/devices/[id]/revoke
+ * Revokes the credentials registered from a device and, unless `wipe` is
+ * false, queues a wipe of its offline data for when it next connects. The
+ * user is signed out on every device, not just the revoked one; the response
+ * reports how many sessions were ended.
+ * LC-FEAT-031: Mobile App Companion
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  DeviceNotFoundError,
+  DeviceWipeUnavailableError,
+  revokeDevice,
+} from "@/lib/services/device-management-service";
+import { deviceRevocationSchema } from "@/lib/validations/device";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase.from("profiles").select("role").eq("id", user.id).single();
+  if (!profile || !["admin", "developer"].includes(profile.role)) {
+    return NextResponse.json({ error: "Forbidden: Admin access required" }, { status: 403 });
+  }
+
+  const parsed = deviceRevocationSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid revocation",
+        issues: parsed.error.issues.map((issue) => ({
+          path: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { device, sessionsEnded } = await revokeDevice(supabase, { id, actorId: user.id, ...parsed.data });
+    return NextResponse.json({ device, sessionsEnded, signedOutEverywhere: true });
+  } catch (error) {
+    if (error instanceof DeviceNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof DeviceWipeUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Device revocation error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Device Check-in API
+ * POST /api/auth/webauthn/devices/check-in
+ * Called by a field device whenever it connects; hands over any wipe
+ * command queued for it
+ * LC-FEAT-031: Mobile App Companion
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { checkInDevice } from "@/lib/services/device-management-service";
+import { deviceCheckInSchema } from "@/lib/validations/device";
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = deviceCheckInSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: "A valid device ID is required" }, { status: 400 });
+    }
+
+    const wipe = await checkInDevice(supabase, user.id, parsed.data.deviceId);
+    return NextResponse.json({ wipe }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("Device check-in error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Registered Devices API
+ * GET /api/auth/webauthn/devices?userId=...
+ * Lists the devices a user registered for biometric login. Admins may list
+ * any user's devices; everyone else sees their own.
+ * LC-FEAT-031: Mobile App Companion
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { listUserDevices } from "@/lib/services/device-management-service";
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const requestedUserId = request.nextUrl.searchParams.get("userId");
+    let userId = user.id;
+
+    if (requestedUserId && requestedUserId !== user.id) {
+      const { data: profile } = await supabase.from("profiles").select("role").eq("id", user.id).single();
+      if (!profile || !["admin", "developer"].includes(profile.role)) {
+        return NextResponse.json({ error: "Forbidden: Admin access required" }, { status: 403 });
+      }
+      userId = requestedUserId;
+    }
+
+    const devices = await listUserDevices(supabase, userId);
+    return NextResponse.json({ devices });
+  } catch (error) {
+    console.error("Registered devices error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
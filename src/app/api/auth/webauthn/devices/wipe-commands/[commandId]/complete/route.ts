@@ -0,0 +1,50 @@
+/**
+ * Wipe Completion API
+ * POST /api/auth/webauthn/devices/wipe-commands/[commandId]/complete
+ * A device reports that it cleared its offline data
+ * LC-FEAT-031: Mobile App Companion
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  completeWipeCommand,
+  DeviceNotFoundError,
+  DeviceWipeUnavailableError,
+} from "@/lib/services/device-management-service";
+import { wipeCompletionSchema } from "@/lib/validations/device";
+
+interface RouteParams {
+  params: Promise<{ commandId: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { commandId } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = wipeCompletionSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid wipe result" }, { status: 400 });
+  }
+
+  try {
+    const command = await completeWipeCommand(supabase, user.id, commandId, parsed.data.result);
+    return NextResponse.json({ command });
+  } catch (error) {
+    if (error instanceof DeviceNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof DeviceWipeUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Wipe completion error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -6,6 +6,8 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { getDeviceKeyNonce } from "@/lib/services/device-management-service";
+import { deviceIdSchema } from "@/lib/validations/device";
 
 export async function POST(request: NextRequest) {
   try {
@@ -23,6 +25,7 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json();
     const { credential } = body;
+    const deviceId = deviceIdSchema.safeParse(body.deviceId);
 
     if (!credential?.id || !credential?.response) {
       return NextResponse.json(
@@ -31,6 +34,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // A revoked device stays revoked until an admin reinstates it
+    if (deviceId.success && !(await getDeviceKeyNonce(supabase, deviceId.data))) {
+      return NextResponse.json(
+        { error: "This device has been revoked. Ask an administrator to reinstate it." },
+        { status: 403 }
+      );
+    }
+
     // Get and validate challenge
     const { data: challengeData, error: challengeError } = await supabase
       .from("webauthn_challenges")
@@ -74,6 +85,8 @@ export async function POST(request: NextRequest) {
         device_type: "platform",
         transports: ["internal"],
         device_name: getDeviceNameFromUserAgent(request.headers.get("user-agent") || ""),
+        // Ties the credential to the device's offline storage for remote wipe
+        device_id: deviceId.success ? deviceId.data : null,
       });
 
     if (insertError) {
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { CaseReopenService } from "@/lib/services/case-reopen-service";
+
+interface RouteParams {
+  params: Promise<{ caseId: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const { caseId } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || !["law_enforcement", "admin", "developer"].includes(profile.role)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const episodes = await new CaseReopenService(supabase).listEpisodes(caseId);
+    return NextResponse.json({ episodes, total: episodes.length });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to fetch case episodes";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { applyOnce, SyncProtocolError, type SyncOutcome } from "@/lib/services/sync-version-service";
 import type { EvidenceItemType } from "@/types";
 
 interface RouteParams {
@@ -102,16 +103,40 @@ export async function POST(request: Request, { params }: RouteParams) {
     return NextResponse.json({ error: "Case not found" }, { status: 404 });
   }
 
+  // Retried uploads from the offline sync engine are stored once
+  try {
+    const outcome = await applyOnce(
+      supabase,
+      request,
+      { entityType: "case_evidence", entityId: resolvedCaseId, userId: user.id },
+      () => createEvidence(supabase, request, resolvedCaseId, user.id)
+    );
+    return NextResponse.json(outcome.body, { status: outcome.status });
+  } catch (error) {
+    if (error instanceof SyncProtocolError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("[API] Error uploading evidence:", error);
+    return NextResponse.json({ error: "Failed to upload evidence" }, { status: 500 });
+  }
+}
+
+async function createEvidence(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  request: Request,
+  resolvedCaseId: string,
+  userId: string
+): Promise<SyncOutcome<Record<string, unknown>>> {
   const formData = await request.formData();
   const file = formData.get("file") as File | null;
   const durationSeconds = formData.get("durationSeconds") as string | null;
 
   if (!file) {
-    return NextResponse.json({ error: "File required" }, { status: 400 });
+    return { status: 400, body: { error: "File required" } };
   }
 
   if (!file.type.startsWith("audio/")) {
-    return NextResponse.json({ error: "Audio files only" }, { status: 400 });
+    return { status: 400, body: { error: "Audio files only" } };
   }
 
   const evidenceId = crypto.randomUUID();
@@ -126,10 +151,7 @@ export async function POST(request: Request, { params }: RouteParams) {
     });
 
   if (uploadError || !uploadData) {
-    return NextResponse.json(
-      { error: uploadError?.message ?? "Failed to upload evidence" },
-      { status: 500 }
-    );
+    return { status: 500, body: { error: uploadError?.message ?? "Failed to upload evidence" } };
   }
 
   const { data: evidence, error: evidenceError } = await supabase
@@ -137,7 +159,7 @@ export async function POST(request: Request, { params }: RouteParams) {
     .insert({
       id: evidenceId,
       case_id: resolvedCaseId,
-      uploaded_by: user.id,
+      uploaded_by: userId,
       item_type: "audio",
       file_name: file.name,
       file_type: file.type,
@@ -152,10 +174,7 @@ export async function POST(request: Request, { params }: RouteParams) {
 
   if (evidenceError || !evidence) {
     await supabase.storage.from("case-evidence").remove([uploadData.path]);
-    return NextResponse.json(
-      { error: evidenceError?.message ?? "Failed to save evidence" },
-      { status: 500 }
-    );
+    return { status: 500, body: { error: evidenceError?.message ?? "Failed to save evidence" } };
   }
 
   const { error: custodyError } = await supabase
@@ -163,7 +182,7 @@ export async function POST(request: Request, { params }: RouteParams) {
     .insert({
       evidence_item_id: evidence.id,
       case_id: resolvedCaseId,
-      actor_id: user.id,
+      actor_id: userId,
       event_type: "uploaded",
       metadata: {
         fileName: evidence.file_name,
@@ -172,11 +191,8 @@ export async function POST(request: Request, { params }: RouteParams) {
     });
 
   if (custodyError) {
-    return NextResponse.json({ error: custodyError.message }, { status: 500 });
+    return { status: 500, body: { error: custodyError.message } };
   }
 
-  return NextResponse.json(
-    { item: mapEvidence(evidence as Record<string, unknown>) },
-    { status: 201 }
-  );
+  return { status: 201, body: { item: mapEvidence(evidence as Record<string, unknown>) } };
 }
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { CaseLifecycleService } from "@/lib/services/case-lifecycle-service";
+
+interface RouteParams {
+  params: Promise<{ caseId: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const { caseId } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || !["law_enforcement", "admin", "developer"].includes(profile.role)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const history = await new CaseLifecycleService(supabase).getHistory(caseId);
+    return NextResponse.json({ history, total: history.length });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to fetch lifecycle history";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
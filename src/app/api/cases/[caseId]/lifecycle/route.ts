@@ -1,18 +1,20 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import {
-  canTransitionCaseLifecycle,
+  CASE_LIFECYCLE_REASON_CODES,
+  CASE_LIFECYCLE_TRANSITIONS,
   type CaseLifecycleStatus,
 } from "@/lib/case-lifecycle";
+import {
+  CaseLifecycleService,
+  CaseLifecycleTransitionError,
+} from "@/lib/services/case-lifecycle-service";
+import { caseLifecycleTransitionSchema } from "@/lib/validations/case-lifecycle";
 
 interface RouteParams {
   params: Promise<{ caseId: string }>;
 }
 
-interface LifecyclePayload {
-  status?: CaseLifecycleStatus;
-}
-
 const uuidRegex =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
@@ -81,10 +83,16 @@ export async function GET(request: Request, { params }: RouteParams) {
     return NextResponse.json({ error: "Failed to fetch case" }, { status: 500 });
   }
 
+  const status = data.lifecycle_status as CaseLifecycleStatus;
+
   return NextResponse.json({
     caseId: data.id,
     caseNumber: data.case_number,
-    lifecycleStatus: data.lifecycle_status,
+    lifecycleStatus: status,
+    allowedTransitions: CASE_LIFECYCLE_TRANSITIONS[status].map((to) => ({
+      status: to,
+      reasonCodes: CASE_LIFECYCLE_REASON_CODES[to],
+    })),
   });
 }
 
@@ -104,48 +112,45 @@ export async function PUT(request: Request, { params }: RouteParams) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
-  const body = (await request.json()) as LifecyclePayload;
-  if (!body.status) {
-    return NextResponse.json({ error: "status is required" }, { status: 400 });
-  }
-
-  const resolvedCaseId = await resolveCaseId(supabase, caseId);
-  if (!resolvedCaseId) {
-    return NextResponse.json({ error: "Case not found" }, { status: 404 });
-  }
-
-  const { data: existing, error: existingError } = await supabase
-    .from("cases")
-    .select("lifecycle_status")
-    .eq("id", resolvedCaseId)
-    .single();
-
-  if (existingError || !existing) {
-    return NextResponse.json({ error: "Failed to fetch case" }, { status: 500 });
-  }
-
-  const currentStatus = existing.lifecycle_status as CaseLifecycleStatus;
-  if (!canTransitionCaseLifecycle(currentStatus, body.status)) {
-    return NextResponse.json(
-      { error: `Invalid lifecycle transition from ${currentStatus} to ${body.status}` },
-      { status: 400 }
-    );
-  }
-
-  const { data, error } = await supabase
-    .from("cases")
-    .update({ lifecycle_status: body.status })
-    .eq("id", resolvedCaseId)
-    .select("id, case_number, lifecycle_status")
-    .single();
-
-  if (error || !data) {
-    return NextResponse.json({ error: error?.message || "Failed to update case" }, { status: 500 });
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Malformed request body" }, { status: 400 });
+    }
+
+    const parsed = caseLifecycleTransitionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid lifecycle transition",
+          issues: parsed.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const resolvedCaseId = await resolveCaseId(supabase, caseId);
+    if (!resolvedCaseId) {
+      return NextResponse.json({ error: "Case not found" }, { status: 404 });
+    }
+
+    const result = await new CaseLifecycleService(supabase).transition(resolvedCaseId, parsed.data, user.id);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof CaseLifecycleTransitionError) {
+      return NextResponse.json(
+        { error: error.errors[0], errors: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "Failed to update case";
+    return NextResponse.json({ error: message }, { status: 500 });
   }
-
-  return NextResponse.json({
-    caseId: data.id,
-    caseNumber: data.case_number,
-    lifecycleStatus: data.lifecycle_status,
-  });
 }
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { importCaseMapLayers, loadCaseMapLayers } from "@/lib/services/case-map-service";
+import {
+  GeoInterchangeError,
+  caseMapToFeatures,
+  featuresToCaseMapLayers,
+  geoFileResponse,
+  parseGeoUpload,
+  readGeoUpload,
+} from "@/lib/geo-interchange";
+import { caseMapExportQuerySchema, geoImportOptionsSchema } from "@/lib/validations/geo-interchange";
+
+// GET /api/cases/[caseId]/map/geodata - Export map layers as GeoJSON, KML or GPX
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ caseId: string }> }
+) {
+  try {
+    const { caseId } = await params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = caseMapExportQuerySchema.safeParse(
+      Object.fromEntries([...searchParams].filter(([, v]) => v !== ""))
+    );
+    if (!query.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid export query",
+          issues: query.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const layers = await loadCaseMapLayers(supabase, caseId);
+    const features = caseMapToFeatures(layers, query.data.layers);
+
+    return geoFileResponse(features, query.data.format, `case-${caseId}-map`, {
+      name: `Case ${caseId} map`,
+    });
+  } catch (error) {
+    console.error("Failed to export map data:", error);
+    return NextResponse.json(
+      { error: "Failed to export map data" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/cases/[caseId]/map/geodata - Import points as sightings and polygons as search areas
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ caseId: string }> }
+) {
+  try {
+    const { caseId } = await params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const upload = await readGeoUpload(request);
+    const parsed = geoImportOptionsSchema.safeParse(upload.fields);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid map import",
+          issues: parsed.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { features } = parseGeoUpload(upload, parsed.data);
+    const layers = featuresToCaseMapLayers(features);
+    const imported = await importCaseMapLayers(supabase, caseId, layers);
+
+    return NextResponse.json({ imported, skipped: layers.skipped }, { status: 201 });
+  } catch (error) {
+    if (error instanceof GeoInterchangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to import map data:", error);
+    return NextResponse.json(
+      { error: "Failed to import map data" },
+      { status: 500 }
+    );
+  }
+}
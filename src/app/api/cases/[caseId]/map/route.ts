@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { loadCaseMapLayers } from "@/lib/services/case-map-service";
 
 // GET /api/cases/[caseId]/map - Get map data for a case
 export async function GET(
@@ -18,50 +19,7 @@ export async function GET(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Fetch case details for last known location
-    const { data: caseData } = await supabase
-      .from("cases")
-      .select("id, last_seen_lat, last_seen_lng, last_seen_location")
-      .eq("id", caseId)
-      .single();
-
-    // Fetch sightings for the case
-    const { data: sightingsData } = await supabase
-      .from("sightings")
-      .select("*")
-      .eq("case_id", caseId)
-      .order("reported_at", { ascending: false });
-
-    // Fetch search areas if table exists
-    const { data: searchAreasData } = await supabase
-      .from("search_areas")
-      .select("*")
-      .eq("case_id", caseId)
-      .order("priority", { ascending: true });
-
-    // Transform data for the map
-    const lastSeenLocation = caseData?.last_seen_lat && caseData?.last_seen_lng
-      ? { lat: caseData.last_seen_lat, lng: caseData.last_seen_lng }
-      : null;
-
-    const sightings = (sightingsData || []).map((s) => ({
-      id: s.id,
-      coordinates: { lat: s.latitude, lng: s.longitude },
-      reportedAt: s.reported_at,
-      description: s.description,
-      confidence: s.confidence || "unverified",
-      status: s.status || "pending",
-    }));
-
-    const searchAreas = (searchAreasData || []).map((a) => ({
-      id: a.id,
-      name: a.name,
-      type: a.type || "primary",
-      priority: a.priority || "medium",
-      status: a.status || "planned",
-      coordinates: a.coordinates || [],
-      coverage: a.coverage,
-    }));
+    const { lastSeenLocation, lastSeenAddress, sightings, searchAreas } = await loadCaseMapLayers(supabase, caseId);
 
     // Return mock data if no real data
     if (sightings.length === 0 && !lastSeenLocation) {
@@ -126,7 +84,7 @@ export async function GET(
 
     return NextResponse.json({
       lastSeenLocation,
-      lastSeenAddress: caseData?.last_seen_location,
+      lastSeenAddress,
       sightings,
       searchAreas,
       resources: [],
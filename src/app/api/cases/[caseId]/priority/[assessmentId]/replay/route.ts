@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { PriorityProfileService } from "@/lib/services/priority-profile-service";
+
+interface RouteParams {
+  params: Promise<{ caseId: string; assessmentId: string }>;
+}
+
+/**
+ * GET /api/cases/[caseId]/priority/[assessmentId]/replay
+ * Re-run a recorded assessment with the weight set version that produced it
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const { assessmentId } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || !["law_enforcement", "admin", "developer"].includes(profile.role)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const replay = await new PriorityProfileService(supabase).replayAssessment(assessmentId);
+    if (!replay) {
+      return NextResponse.json({ error: "Assessment not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: replay });
+  } catch (error) {
+    console.error("Priority replay error:", error);
+    return NextResponse.json({ error: "Failed to replay assessment" }, { status: 500 });
+  }
+}
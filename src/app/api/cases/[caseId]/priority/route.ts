@@ -0,0 +1,142 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { PriorityProfileService } from "@/lib/services/priority-profile-service";
+import { priorityAssessmentRequestSchema } from "@/lib/validations/priority-profile";
+
+interface RouteParams {
+  params: Promise<{ caseId: string }>;
+}
+
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+async function resolveCase(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  caseId: string
+) {
+  const column = uuidRegex.test(caseId) ? "id" : "case_number";
+  const { data, error } = await supabase
+    .from("cases")
+    .select("id, jurisdiction_id")
+    .eq(column, caseId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return data as { id: string; jurisdiction_id: string | null };
+}
+
+async function requireLawEnforcement(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string
+) {
+  const { data } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", userId)
+    .single();
+
+  return data?.role === "law_enforcement" || data?.role === "admin" || data?.role === "developer";
+}
+
+/**
+ * GET /api/cases/[caseId]/priority
+ * Priority assessment history, each with the weight set version used
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const { caseId } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!(await requireLawEnforcement(supabase, user.id))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const caseRecord = await resolveCase(supabase, caseId);
+  if (!caseRecord) {
+    return NextResponse.json({ error: "Case not found" }, { status: 404 });
+  }
+
+  try {
+    const assessments = await new PriorityProfileService(supabase).listAssessments(caseRecord.id);
+    return NextResponse.json({ data: assessments });
+  } catch (error) {
+    console.error("Priority history error:", error);
+    return NextResponse.json({ error: "Failed to fetch assessments" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/cases/[caseId]/priority
+ * Assess the case with the active weight set for its jurisdiction
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  const { caseId } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!(await requireLawEnforcement(supabase, user.id))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const caseRecord = await resolveCase(supabase, caseId);
+  if (!caseRecord) {
+    return NextResponse.json({ error: "Case not found" }, { status: 404 });
+  }
+
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Malformed request body" }, { status: 400 });
+    }
+
+    const parsed = priorityAssessmentRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid assessment input",
+          issues: parsed.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const priorityProfiles = new PriorityProfileService(supabase);
+    const profileKey =
+      parsed.data.profileKey ||
+      (caseRecord.jurisdiction_id
+        ? await priorityProfiles.getProfileKeyForJurisdiction(caseRecord.jurisdiction_id)
+        : null) ||
+      "qc_spvm_v1";
+
+    const record = await priorityProfiles.assessCase(
+      caseRecord.id,
+      parsed.data.input,
+      profileKey,
+      user.id
+    );
+    return NextResponse.json({ data: record }, { status: 201 });
+  } catch (error) {
+    console.error("Priority assessment error:", error);
+    return NextResponse.json({ error: "Failed to assess priority" }, { status: 500 });
+  }
+}
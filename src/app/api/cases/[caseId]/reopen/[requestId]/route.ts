@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { reviewCaseReopenRequestSchema } from "@/lib/validations";
+import {
+  CaseReopenService,
+  CaseReopenError,
+  CASE_REOPEN_ERROR_STATUS,
+} from "@/lib/services/case-reopen-service";
+import { CaseLifecycleTransitionError } from "@/lib/services/case-lifecycle-service";
+
+interface RouteParams {
+  params: Promise<{ caseId: string; requestId: string }>;
+}
+
+/**
+ * Supervisor decision on a reopen request. Approval reopens the case;
+ * approving an approved request again finishes a reopen that failed part way.
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { caseId, requestId } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (profile?.role !== "admin" && profile?.role !== "developer") {
+    return NextResponse.json({ error: "Supervisor role required" }, { status: 403 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Malformed request body" }, { status: 400 });
+  }
+
+  const parsed = reviewCaseReopenRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message || "Invalid request", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const caseReopen = new CaseReopenService(supabase);
+    const existing = await caseReopen.getRequest(requestId);
+    if (!existing || existing.caseId !== caseId) {
+      return NextResponse.json({ error: "Reopen request not found" }, { status: 404 });
+    }
+
+    const result = await caseReopen.reviewRequest(
+      requestId,
+      parsed.data.decision,
+      user.id,
+      parsed.data.notes
+    );
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof CaseReopenError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: CASE_REOPEN_ERROR_STATUS[error.code] }
+      );
+    }
+    if (error instanceof CaseLifecycleTransitionError) {
+      return NextResponse.json(
+        { error: error.errors[0], errors: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "Failed to review reopen request";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
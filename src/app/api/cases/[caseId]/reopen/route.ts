@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createCaseReopenRequestSchema } from "@/lib/validations";
+import {
+  CaseReopenService,
+  CaseReopenError,
+  CASE_REOPEN_ERROR_STATUS,
+} from "@/lib/services/case-reopen-service";
+
+interface RouteParams {
+  params: Promise<{ caseId: string }>;
+}
+
+async function requireLawEnforcement(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string
+) {
+  const { data } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", userId)
+    .single();
+
+  return data?.role === "law_enforcement" || data?.role === "admin" || data?.role === "developer";
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const { caseId } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!(await requireLawEnforcement(supabase, user.id))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const requests = await new CaseReopenService(supabase).listRequests(caseId);
+    return NextResponse.json({ requests });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to fetch reopen requests";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  const { caseId } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!(await requireLawEnforcement(supabase, user.id))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Malformed request body" }, { status: 400 });
+  }
+
+  const parsed = createCaseReopenRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message || "Invalid request", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const reopenRequest = await new CaseReopenService(supabase).createRequest(caseId, parsed.data, user.id);
+    return NextResponse.json(reopenRequest, { status: 201 });
+  } catch (error) {
+    if (error instanceof CaseReopenError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: CASE_REOPEN_ERROR_STATUS[error.code] }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "Failed to create reopen request";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
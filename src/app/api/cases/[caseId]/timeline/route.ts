@@ -8,12 +8,13 @@ import { createClient } from "@/lib/supabase/server";
 
 interface TimelineEvent {
   id: string;
-  type: "status_change" | "priority_change" | "update" | "tip" | "lead" | "evidence" | "assignment" | "case_created";
+  type: "status_change" | "lifecycle_change" | "episode" | "priority_change" | "update" | "tip" | "lead" | "evidence" | "assignment" | "case_created";
   title: string;
   description?: string;
   timestamp: string;
   author?: string;
   metadata?: Record<string, unknown>;
+  episode?: number;
 }
 
 interface RouteContext {
@@ -104,6 +105,75 @@ export async function GET(
       }
     }
 
+    // Fetch lifecycle history
+    const { data: lifecycleHistory } = await supabase
+      .from("case_lifecycle_history")
+      .select(`
+        id,
+        from_status,
+        to_status,
+        reason_code,
+        notes,
+        changed_at,
+        actor:profiles!changed_by(full_name),
+        case_lifecycle_side_effects(effect, status, detail)
+      `)
+      .eq("case_id", caseId)
+      .order("changed_at", { ascending: false });
+
+    if (lifecycleHistory) {
+      for (const entry of lifecycleHistory) {
+        const actorRecord = entry.actor as unknown as { full_name: string } | null;
+        const reason = (entry.reason_code as string).replace(/_/g, " ");
+
+        events.push({
+          id: `lifecycle-${entry.id}`,
+          type: "lifecycle_change",
+          title: `Lifecycle changed from ${entry.from_status} to ${entry.to_status}`,
+          description: entry.notes ? `Reason: ${reason} - ${entry.notes}` : `Reason: ${reason}`,
+          timestamp: entry.changed_at as string,
+          author: actorRecord?.full_name || undefined,
+          metadata: {
+            reasonCode: entry.reason_code,
+            sideEffects: entry.case_lifecycle_side_effects,
+          },
+        });
+      }
+    }
+
+    // Fetch case episodes (a case gets a new episode each time it is reopened)
+    const { data: episodes } = await supabase
+      .from("case_episodes")
+      .select("id, episode_number, opened_at, closed_at, closing_reason_code, disposition, reopen_request_id")
+      .eq("case_id", caseId)
+      .order("episode_number", { ascending: true });
+
+    if (episodes) {
+      for (const episode of episodes) {
+        if ((episode.episode_number as number) > 1) {
+          events.push({
+            id: `episode-opened-${episode.id}`,
+            type: "episode",
+            title: `Case reopened: episode ${episode.episode_number} started`,
+            timestamp: episode.opened_at as string,
+            metadata: { reopenRequestId: episode.reopen_request_id },
+          });
+        }
+
+        if (episode.closed_at) {
+          const disposition = episode.disposition as string | null;
+          events.push({
+            id: `episode-closed-${episode.id}`,
+            type: "episode",
+            title: `Episode ${episode.episode_number} closed`,
+            description: disposition ? `Disposition: ${disposition.replace(/_/g, " ")}` : undefined,
+            timestamp: episode.closed_at as string,
+            metadata: { closingReasonCode: episode.closing_reason_code },
+          });
+        }
+      }
+    }
+
     // Fetch tips
     const { data: tips } = await supabase
       .from("tips")
@@ -212,6 +282,17 @@ export async function GET(
     // Sort all events by timestamp (newest first)
     events.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 
+    // Tag each event with the episode it happened in
+    if (episodes && episodes.length > 1) {
+      for (const event of events) {
+        const time = new Date(event.timestamp).getTime();
+        const episode = [...episodes]
+          .reverse()
+          .find((e) => new Date(e.opened_at as string).getTime() <= time);
+        event.episode = (episode?.episode_number as number | undefined) ?? 1;
+      }
+    }
+
     return NextResponse.json({
       events,
       total: events.length,
@@ -323,7 +323,14 @@ export async function DELETE(request: Request, { params }: RouteParams) {
   // Update case status back to active
   await supabase
     .from('cases')
-    .update({ status: 'active', lifecycle_status: 'revived' })
+    .update({
+      status: 'active',
+      lifecycle_status: 'revived',
+      lifecycle_reason_code: 'other',
+      lifecycle_reason_notes: 'Cold case profile removed',
+      lifecycle_changed_by: user.id,
+      lifecycle_changed_at: new Date().toISOString(),
+    })
     .eq('id', coldCaseProfile.case_id);
 
   // Delete the cold case profile
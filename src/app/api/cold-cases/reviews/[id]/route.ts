@@ -253,7 +253,12 @@ export async function PATCH(request: Request, { params }: RouteParams) {
     if (completeBody.revivalRecommended && completeBody.revivalDecision === 'revive') {
       await supabase
         .from('cases')
-        .update({ lifecycle_status: 'revived' })
+        .update({
+          lifecycle_status: 'revived',
+          lifecycle_reason_code: 'review_board_decision',
+          lifecycle_changed_by: user.id,
+          lifecycle_changed_at: new Date().toISOString(),
+        })
         .eq('id', review.case_id);
     }
 
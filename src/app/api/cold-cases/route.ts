@@ -250,7 +250,14 @@ export async function POST(request: Request) {
   // Update case status to cold
   await supabase
     .from('cases')
-    .update({ status: 'cold', lifecycle_status: 'cold' })
+    .update({
+      status: 'cold',
+      lifecycle_status: 'cold',
+      lifecycle_reason_code: 'other',
+      lifecycle_reason_notes: data.classification_reason,
+      lifecycle_changed_by: user.id,
+      lifecycle_changed_at: new Date().toISOString(),
+    })
     .eq('id', body.caseId);
 
   return apiCreated(data);
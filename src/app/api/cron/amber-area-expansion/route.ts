@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { amberDistributionService } from '@/lib/services/amber-distribution';
+
+/**
+ * GET /api/cron/amber-area-expansion
+ * Vercel Cron Job endpoint for AMBER alert areas
+ * Runs every 15 minutes to widen alert areas on their expansion schedule,
+ * queueing the alert for the recipients each widening adds, and to queue
+ * any distribution left pending
+ */
+export async function GET(request: NextRequest) {
+  // Verify cron secret for Vercel
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    // New distributions are queued for the job worker as they are created
+    const widened = await amberDistributionService.widenActiveAlertAreas();
+    const requeued = await amberDistributionService.queuePendingDistributions();
+
+    console.log('[Cron] AMBER area expansion completed:', { ...widened, requeued });
+
+    return NextResponse.json({
+      success: true,
+      alertsChecked: widened.alerts,
+      distributionsCreated: widened.created,
+      distributionsRequeued: requeued,
+    });
+  } catch (error) {
+    console.error('[Cron] AMBER area expansion failed:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Vercel cron jobs only support GET requests
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createHospitalRegistryAgent, agentRegistry } from '@/lib/agents';
+import { queueAgentRun } from '@/lib/services/job-queue';
 
 /**
  * GET /api/cron/hospital-registry
  * Vercel Cron Job endpoint for hospital registry checks
  * Runs every 2 hours to check hospital registries for case matches
+ * Queues the run on the job queue; /api/cron/job-worker runs it
  */
 export async function GET(request: NextRequest) {
   // Verify cron secret for Vercel
@@ -16,39 +17,18 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // Get or create the hospital registry agent
-    let agent = agentRegistry.get('cron-hospital-registry');
+    // The job worker runs the agent and retries a failed run
+    const { job, created } = await queueAgentRun('hospital-registry', 120);
 
-    if (!agent) {
-      agent = createHospitalRegistryAgent('cron-hospital-registry');
-      agentRegistry.register(agent);
-    }
-
-    // Run the agent
-    const result = await agent.run();
-
-    // Log run to console for Vercel logs
-    console.log('[Cron] Hospital Registry Agent completed:', {
-      runId: result.runId,
-      duration: result.duration,
-      itemsProcessed: result.itemsProcessed,
-      leadsGenerated: result.leadsGenerated,
-      alertsTriggered: result.alertsTriggered,
-      errors: result.errors.length,
-    });
+    console.log('[Cron] Hospital Registry Agent queued:', { jobId: job.id, created });
 
     return NextResponse.json({
-      success: result.success,
-      runId: result.runId,
-      duration: result.duration,
-      hospitalsChecked: result.itemsProcessed,
-      matchesFound: result.leadsGenerated,
-      alertsTriggered: result.alertsTriggered,
-      errors: result.errors,
-      metrics: result.metrics,
+      success: true,
+      jobId: job.id,
+      queued: created,
     });
   } catch (error) {
-    console.error('[Cron] Hospital Registry Agent failed:', error);
+    console.error('[Cron] Hospital Registry Agent could not be queued:', error);
 
     return NextResponse.json(
       {
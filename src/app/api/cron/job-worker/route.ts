@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobQueue } from '@/lib/services/job-queue';
+import { jobHandlers } from '@/lib/services/job-queue/handlers';
+
+// Leave time to finish the job in hand before maxDuration
+const WORK_BUDGET_MS = 45_000;
+
+/**
+ * GET /api/cron/job-worker
+ * Vercel Cron Job endpoint for the job queue
+ * Runs every minute to work through queued AMBER distributions, follow-ups,
+ * notification digests and agent runs, highest priority first
+ */
+export async function GET(request: NextRequest) {
+  // Verify cron secret for Vercel
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const workerId = `cron-${crypto.randomUUID()}`;
+  const startedAt = Date.now();
+
+  try {
+    const result = await jobQueue.work({
+      workerId,
+      handlers: jobHandlers,
+      budgetMs: WORK_BUDGET_MS,
+    });
+
+    console.log('[Cron] Job worker completed:', { workerId, ...result });
+
+    return NextResponse.json({
+      success: true,
+      workerId,
+      duration: Date.now() - startedAt,
+      ...result,
+    });
+  } catch (error) {
+    console.error('[Cron] Job worker failed:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        workerId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
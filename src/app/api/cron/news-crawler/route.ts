@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createNewsCrawlerAgent, agentRegistry } from '@/lib/agents';
+import { queueAgentRun } from '@/lib/services/job-queue';
 
 /**
  * GET /api/cron/news-crawler
  * Vercel Cron Job endpoint for news article crawling
  * Runs every hour to search for news related to active cases
+ * Queues the run on the job queue; /api/cron/job-worker runs it
  */
 export async function GET(request: NextRequest) {
   // Verify cron secret for Vercel
@@ -16,37 +17,18 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // Get or create the news crawler agent
-    let agent = agentRegistry.get('cron-news-crawler');
+    // The job worker runs the agent and retries a failed run
+    const { job, created } = await queueAgentRun('news-crawler', 60);
 
-    if (!agent) {
-      agent = createNewsCrawlerAgent('cron-news-crawler');
-      agentRegistry.register(agent);
-    }
-
-    // Run the agent
-    const result = await agent.run();
-
-    // Log run to console for Vercel logs
-    console.log('[Cron] News Crawler Agent completed:', {
-      runId: result.runId,
-      duration: result.duration,
-      itemsProcessed: result.itemsProcessed,
-      leadsGenerated: result.leadsGenerated,
-      errors: result.errors.length,
-    });
+    console.log('[Cron] News Crawler Agent queued:', { jobId: job.id, created });
 
     return NextResponse.json({
-      success: result.success,
-      runId: result.runId,
-      duration: result.duration,
-      articlesProcessed: result.itemsProcessed,
-      leadsGenerated: result.leadsGenerated,
-      errors: result.errors,
-      metrics: result.metrics,
+      success: true,
+      jobId: job.id,
+      queued: created,
     });
   } catch (error) {
-    console.error('[Cron] News Crawler Agent failed:', error);
+    console.error('[Cron] News Crawler Agent could not be queued:', error);
 
     return NextResponse.json(
       {
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { jobQueue } from '@/lib/services/job-queue';
 
 /**
  * GET /api/cron/notification-digest
  * Vercel Cron Job endpoint for daily notification digest
- * Runs daily at 9 AM to send summary emails
+ * Runs daily at 9 AM to queue one digest job per user with digests enabled;
+ * /api/cron/job-worker builds and sends them
  */
 export async function GET(request: NextRequest) {
   // Verify cron secret for Vercel
@@ -17,6 +19,8 @@ export async function GET(request: NextRequest) {
 
   const runId = crypto.randomUUID();
   const startedAt = new Date();
+  // One digest per user per day, however often the cron fires
+  const digestDate = startedAt.toISOString().slice(0, 10);
 
   try {
     const supabase = await createClient();
@@ -24,108 +28,24 @@ export async function GET(request: NextRequest) {
     // Get users who have digest enabled
     const { data: usersWithDigest, error: usersError } = await supabase
       .from('profiles')
-      .select('id, email, full_name, notification_preferences')
+      .select('id')
       .eq('email_digest_enabled', true);
 
     if (usersError) {
       throw new Error(`Failed to fetch users: ${usersError.message}`);
     }
 
-    const digestsSent: string[] = [];
+    let digestsQueued = 0;
     const errors: Array<{ userId: string; error: string }> = [];
 
-    // Process each user
     for (const user of usersWithDigest || []) {
       try {
-        // Get unread notifications from the last 24 hours
-        const yesterday = new Date();
-        yesterday.setDate(yesterday.getDate() - 1);
-
-        const { data: notifications, error: notifError } = await supabase
-          .from('notifications')
-          .select('*')
-          .eq('user_id', user.id)
-          .eq('read', false)
-          .gte('created_at', yesterday.toISOString())
-          .order('created_at', { ascending: false });
-
-        if (notifError) {
-          throw new Error(notifError.message);
-        }
-
-        if (!notifications || notifications.length === 0) {
-          continue; // No notifications, skip user
-        }
-
-        // Get user's assigned cases summary
-        const { data: assignedCases, error: casesError } = await supabase
-          .from('cases')
-          .select('id, case_number, priority_level, status, first_name, last_name')
-          .eq('assigned_officer_id', user.id)
-          .eq('status', 'active');
-
-        if (casesError) {
-          console.error('Error fetching cases:', casesError);
-        }
-
-        // Group notifications by type
-        const groupedNotifications: Record<string, typeof notifications> = {};
-        for (const notif of notifications) {
-          const type = notif.type || 'general';
-          if (!groupedNotifications[type]) {
-            groupedNotifications[type] = [];
-          }
-          groupedNotifications[type].push(notif);
-        }
-
-        // Build digest content
-        const digestContent = {
-          user_id: user.id,
-          email: user.email,
-          full_name: user.full_name,
-          total_notifications: notifications.length,
-          notifications_by_type: Object.entries(groupedNotifications).map(([type, notifs]) => ({
-            type,
-            count: notifs.length,
-            items: notifs.slice(0, 5).map(n => ({
-              title: n.title,
-              message: n.message,
-              created_at: n.created_at,
-            })),
-          })),
-          assigned_cases: {
-            total: assignedCases?.length || 0,
-            by_priority: {
-              critical: assignedCases?.filter(c => c.priority_level === 0).length || 0,
-              high: assignedCases?.filter(c => c.priority_level === 1).length || 0,
-              medium: assignedCases?.filter(c => c.priority_level === 2).length || 0,
-              low: assignedCases?.filter(c => c.priority_level <= 4 && c.priority_level >= 3).length || 0,
-            },
-          },
-          generated_at: new Date().toISOString(),
-        };
-
-        // Queue email for sending (would integrate with email service)
-        await supabase.from('email_queue').insert({
-          to_email: user.email,
-          to_name: user.full_name,
-          template: 'daily_digest',
-          subject: `LocateConnect Daily Digest - ${notifications.length} notification(s)`,
-          data: digestContent,
-          status: 'pending',
-          scheduled_for: new Date().toISOString(),
-        });
-
-        // Create a digest record
-        await supabase.from('notification_digests').insert({
-          user_id: user.id,
-          notification_count: notifications.length,
-          digest_content: digestContent,
-          sent_at: new Date().toISOString(),
-        });
-
-        digestsSent.push(user.id);
-
+        const { created } = await jobQueue.enqueue(
+          'notification.digest',
+          { user_id: user.id },
+          { idempotencyKey: `notification.digest:${user.id}:${digestDate}` }
+        );
+        if (created) digestsQueued++;
       } catch (userError) {
         errors.push({
           userId: user.id,
@@ -142,18 +62,18 @@ export async function GET(request: NextRequest) {
       completed_at: new Date().toISOString(),
       status: errors.length > 0 ? 'completed_with_errors' : 'completed',
       cases_processed: usersWithDigest?.length || 0,
-      cases_affected: digestsSent.length,
+      cases_affected: digestsQueued,
       results: {
         users_processed: usersWithDigest?.length || 0,
-        digests_sent: digestsSent.length,
+        digests_queued: digestsQueued,
       },
       errors: errors.length > 0 ? errors : null,
     });
 
-    console.log('[Cron] Notification Digest completed:', {
+    console.log('[Cron] Notification Digest queued:', {
       runId,
       usersProcessed: usersWithDigest?.length || 0,
-      digestsSent: digestsSent.length,
+      digestsQueued,
       errors: errors.length,
     });
 
@@ -162,7 +82,7 @@ export async function GET(request: NextRequest) {
       runId,
       duration: Date.now() - startedAt.getTime(),
       usersProcessed: usersWithDigest?.length || 0,
-      digestsSent: digestsSent.length,
+      digestsQueued,
       errors: errors.length > 0 ? errors : undefined,
     });
   } catch (error) {
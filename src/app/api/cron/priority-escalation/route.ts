@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createPriorityEscalationAgent, agentRegistry } from '@/lib/agents';
+import { queueAgentRun } from '@/lib/services/job-queue';
 
 /**
  * GET /api/cron/priority-escalation
  * Vercel Cron Job endpoint for priority escalation
  * Runs every 15 minutes to check and escalate case priorities
+ * Queues the run on the job queue; /api/cron/job-worker runs it
  */
 export async function GET(request: NextRequest) {
   // Verify cron secret for Vercel
@@ -16,37 +17,18 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // Get or create the priority escalation agent
-    let agent = agentRegistry.get('cron-priority-escalation');
+    // The job worker runs the agent and retries a failed run
+    const { job, created } = await queueAgentRun('priority-escalation', 15);
 
-    if (!agent) {
-      agent = createPriorityEscalationAgent('cron-priority-escalation');
-      agentRegistry.register(agent);
-    }
-
-    // Run the agent
-    const result = await agent.run();
-
-    // Log run to console for Vercel logs
-    console.log('[Cron] Priority Escalation Agent completed:', {
-      runId: result.runId,
-      duration: result.duration,
-      itemsProcessed: result.itemsProcessed,
-      alertsTriggered: result.alertsTriggered,
-      errors: result.errors.length,
-    });
+    console.log('[Cron] Priority Escalation Agent queued:', { jobId: job.id, created });
 
     return NextResponse.json({
-      success: result.success,
-      runId: result.runId,
-      duration: result.duration,
-      casesProcessed: result.itemsProcessed,
-      escalations: result.alertsTriggered,
-      errors: result.errors,
-      metrics: result.metrics,
+      success: true,
+      jobId: job.id,
+      queued: created,
     });
   } catch (error) {
-    console.error('[Cron] Priority Escalation Agent failed:', error);
+    console.error('[Cron] Priority Escalation Agent could not be queued:', error);
 
     return NextResponse.json(
       {
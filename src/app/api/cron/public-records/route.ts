@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createPublicRecordsCrawlerAgent, agentRegistry } from '@/lib/agents';
+import { queueAgentRun } from '@/lib/services/job-queue';
 
 /**
  * GET /api/cron/public-records
  * Vercel Cron Job endpoint for public records crawling
  * Runs every 4 hours to search public records for case matches
+ * Queues the run on the job queue; /api/cron/job-worker runs it
  */
 export async function GET(request: NextRequest) {
   // Verify cron secret for Vercel
@@ -16,37 +17,18 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // Get or create the public records crawler agent
-    let agent = agentRegistry.get('cron-public-records');
+    // The job worker runs the agent and retries a failed run
+    const { job, created } = await queueAgentRun('public-records', 240);
 
-    if (!agent) {
-      agent = createPublicRecordsCrawlerAgent('cron-public-records');
-      agentRegistry.register(agent);
-    }
-
-    // Run the agent
-    const result = await agent.run();
-
-    // Log run to console for Vercel logs
-    console.log('[Cron] Public Records Crawler completed:', {
-      runId: result.runId,
-      duration: result.duration,
-      itemsProcessed: result.itemsProcessed,
-      leadsGenerated: result.leadsGenerated,
-      errors: result.errors.length,
-    });
+    console.log('[Cron] Public Records Crawler queued:', { jobId: job.id, created });
 
     return NextResponse.json({
-      success: result.success,
-      runId: result.runId,
-      duration: result.duration,
-      recordsSearched: result.itemsProcessed,
-      matchesFound: result.leadsGenerated,
-      errors: result.errors,
-      metrics: result.metrics,
+      success: true,
+      jobId: job.id,
+      queued: created,
     });
   } catch (error) {
-    console.error('[Cron] Public Records Crawler failed:', error);
+    console.error('[Cron] Public Records Crawler could not be queued:', error);
 
     return NextResponse.json(
       {
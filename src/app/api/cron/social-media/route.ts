@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSocialMediaAgent, agentRegistry } from '@/lib/agents';
+import { queueAgentRun } from '@/lib/services/job-queue';
 
 /**
  * GET /api/cron/social-media
  * Vercel Cron Job endpoint for social media monitoring
  * Runs every 30 minutes to check social media for case-related activity
+ * Queues the run on the job queue; /api/cron/job-worker runs it
  */
 export async function GET(request: NextRequest) {
   // Verify cron secret for Vercel
@@ -16,37 +17,18 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // Get or create the social media agent
-    let agent = agentRegistry.get('cron-social-media');
+    // The job worker runs the agent and retries a failed run
+    const { job, created } = await queueAgentRun('social-media', 30);
 
-    if (!agent) {
-      agent = createSocialMediaAgent('cron-social-media');
-      agentRegistry.register(agent);
-    }
-
-    // Run the agent
-    const result = await agent.run();
-
-    // Log run to console for Vercel logs
-    console.log('[Cron] Social Media Agent completed:', {
-      runId: result.runId,
-      duration: result.duration,
-      itemsProcessed: result.itemsProcessed,
-      leadsGenerated: result.leadsGenerated,
-      errors: result.errors.length,
-    });
+    console.log('[Cron] Social Media Agent queued:', { jobId: job.id, created });
 
     return NextResponse.json({
-      success: result.success,
-      runId: result.runId,
-      duration: result.duration,
-      postsAnalyzed: result.itemsProcessed,
-      leadsGenerated: result.leadsGenerated,
-      errors: result.errors,
-      metrics: result.metrics,
+      success: true,
+      jobId: job.id,
+      queued: created,
     });
   } catch (error) {
-    console.error('[Cron] Social Media Agent failed:', error);
+    console.error('[Cron] Social Media Agent could not be queued:', error);
 
     return NextResponse.json(
       {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import type { AlertTriggerType } from "@/types/geofence.types";
 
 // =============================================================================
 // Types
@@ -11,11 +12,12 @@ interface GeofenceAlert {
   geofenceName: string;
   caseId: string;
   caseName: string;
-  triggerType: "enter" | "exit";
+  triggerType: AlertTriggerType;
   triggeredAt: string;
   location: { lat: number; lng: number };
   source: string;
   deviceId?: string;
+  details?: Record<string, number>;
   acknowledged: boolean;
   acknowledgedBy?: string;
   acknowledgedAt?: string;
@@ -42,6 +44,7 @@ export async function GET(
 
     const searchParams = request.nextUrl.searchParams;
     const acknowledged = searchParams.get("acknowledged");
+    const triggerType = searchParams.get("triggerType");
     const limit = parseInt(searchParams.get("limit") || "50");
 
     // Try to fetch from database
@@ -65,6 +68,9 @@ export async function GET(
     if (acknowledged !== null) {
       query = query.eq("acknowledged", acknowledged === "true");
     }
+    if (triggerType) {
+      query = query.eq("trigger_type", triggerType);
+    }
 
     const { data: dbAlerts, error } = await query;
 
@@ -123,6 +129,7 @@ export async function GET(
       location: row.location,
       source: row.source,
       deviceId: row.device_id,
+      details: row.details || undefined,
       acknowledged: row.acknowledged,
       acknowledgedBy: row.acknowledged_by,
       acknowledgedAt: row.acknowledged_at,
@@ -162,7 +169,7 @@ export async function POST(
     }
 
     const body = await request.json();
-    const { triggerType, location, source, deviceId } = body;
+    const { triggerType, location, source, deviceId, details } = body;
 
     if (!triggerType || !location) {
       return NextResponse.json(
@@ -181,6 +188,7 @@ export async function POST(
         location,
         source: source || "System",
         device_id: deviceId,
+        details,
         acknowledged: false,
       })
       .select()
@@ -206,14 +214,8 @@ export async function POST(
       );
     }
 
-    // Update geofence alert count and last triggered
-    await supabase
-      .from("geofences")
-      .update({
-        alert_count: supabase.rpc("increment_alert_count", { geofence_id: geofenceId }),
-        last_triggered: new Date().toISOString(),
-      })
-      .eq("id", geofenceId);
+    // The geofence's alert count and last triggered time are bumped by
+    // trigger_bump_geofence_alert_count
 
     return NextResponse.json(
       {
@@ -225,6 +227,7 @@ export async function POST(
           location: data.location,
           source: data.source,
           deviceId: data.device_id,
+          details: data.details || undefined,
           acknowledged: data.acknowledged,
         },
       },
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { invalidateGeofenceIndex } from "@/lib/services/geofencing-service";
+import { geofenceTriggerConfigSchema } from "@/lib/validations/geofence";
 
 // =============================================================================
 // GET /api/geofences/[id] - Get single geofence
@@ -58,6 +60,7 @@ export async function GET(
         alertCount: data.alert_count || 0,
         lastTriggered: data.last_triggered,
         notifyChannels: data.notify_channels || [],
+        triggerConfig: data.trigger_config || {},
         description: data.description,
         createdBy: data.created_by,
       },
@@ -102,6 +105,16 @@ export async function PATCH(
     if (body.expiresAt !== undefined) updateData.expires_at = body.expiresAt;
     if (body.notifyChannels !== undefined) updateData.notify_channels = body.notifyChannels;
     if (body.description !== undefined) updateData.description = body.description;
+    if (body.triggerConfig !== undefined) {
+      const parsedTriggers = geofenceTriggerConfigSchema.safeParse(body.triggerConfig);
+      if (!parsedTriggers.success) {
+        return NextResponse.json(
+          { error: `Invalid triggerConfig: ${parsedTriggers.error.issues[0].message}` },
+          { status: 400 }
+        );
+      }
+      updateData.trigger_config = parsedTriggers.data;
+    }
 
     updateData.updated_at = new Date().toISOString();
 
@@ -121,6 +134,8 @@ export async function PATCH(
       });
     }
 
+    invalidateGeofenceIndex();
+
     return NextResponse.json({
       success: true,
       geofence: {
@@ -138,6 +153,7 @@ export async function PATCH(
         alertCount: data.alert_count || 0,
         lastTriggered: data.last_triggered,
         notifyChannels: data.notify_channels || [],
+        triggerConfig: data.trigger_config || {},
         description: data.description,
         createdBy: data.created_by,
       },
@@ -181,6 +197,7 @@ export async function DELETE(
       return NextResponse.json({ success: true });
     }
 
+    invalidateGeofenceIndex();
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting geofence:", error);
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { invalidateGeofenceIndex } from "@/lib/services/geofencing-service";
+import { geofenceTriggerConfigSchema } from "@/lib/validations/geofence";
+import type { GeofenceTriggerConfig } from "@/types/law-enforcement.types";
 
 // =============================================================================
 // Types
@@ -33,6 +36,7 @@ interface Geofence {
   alertCount: number;
   lastTriggered?: string;
   notifyChannels: string[];
+  triggerConfig?: GeofenceTriggerConfig;
   description?: string;
   createdBy: string;
 }
@@ -187,6 +191,7 @@ export async function GET(request: NextRequest) {
       alertCount: row.alert_count || 0,
       lastTriggered: row.last_triggered,
       notifyChannels: row.notify_channels || [],
+      triggerConfig: row.trigger_config || {},
       description: row.description,
       createdBy: row.created_by,
     }));
@@ -229,6 +234,7 @@ export async function POST(request: NextRequest) {
       priority = "medium",
       expiresAt,
       notifyChannels = ["email", "push"],
+      triggerConfig = {},
       description,
     } = body;
 
@@ -260,6 +266,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const parsedTriggers = geofenceTriggerConfigSchema.safeParse(triggerConfig);
+    if (!parsedTriggers.success) {
+      return NextResponse.json(
+        { error: `Invalid triggerConfig: ${parsedTriggers.error.issues[0].message}` },
+        { status: 400 }
+      );
+    }
+
     const { data, error } = await supabase
       .from("geofences")
       .insert({
@@ -272,6 +286,7 @@ export async function POST(request: NextRequest) {
         status: "active",
         expires_at: expiresAt,
         notify_channels: notifyChannels,
+        trigger_config: parsedTriggers.data,
         description,
         created_by: user.id,
         alert_count: 0,
@@ -295,6 +310,7 @@ export async function POST(request: NextRequest) {
         expiresAt,
         alertCount: 0,
         notifyChannels,
+        triggerConfig: parsedTriggers.data,
         description,
         createdBy: user.id,
       };
@@ -302,6 +318,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ geofence: mockGeofence }, { status: 201 });
     }
 
+    invalidateGeofenceIndex();
+
     const geofence: Geofence = {
       id: data.id,
       name: data.name,
@@ -315,6 +333,7 @@ export async function POST(request: NextRequest) {
       expiresAt: data.expires_at,
       alertCount: data.alert_count || 0,
       notifyChannels: data.notify_channels || [],
+      triggerConfig: data.trigger_config || {},
       description: data.description,
       createdBy: data.created_by,
     };
@@ -0,0 +1,45 @@
+/**
+ * Dead-letter Replay API
+ * POST /api/jobs/dead-letters/[id]/replay
+ * Queues a dead-lettered job again with fresh attempts. Each entry can be
+ * replayed once; if the replay fails too it gets a dead-letter entry of its own
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { JOB_QUEUE_ERROR_STATUS, JobQueueError, jobQueue } from "@/lib/services/job-queue";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase.from("profiles").select("role").eq("id", user.id).single();
+  if (!profile || !["admin", "developer"].includes(profile.role)) {
+    return NextResponse.json({ error: "Forbidden: Admin access required" }, { status: 403 });
+  }
+
+  try {
+    const job = await jobQueue.replayDeadLetter(id, user.id);
+    return NextResponse.json({ job }, { status: 201 });
+  } catch (error) {
+    if (error instanceof JobQueueError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: JOB_QUEUE_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error("Dead letter replay error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Dead-lettered Jobs API
+ * GET /api/jobs/dead-letters
+ * Jobs that used every attempt, newest first. Replayed entries are left out
+ * unless `include_replayed=true`
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { jobQueue } from "@/lib/services/job-queue";
+
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase.from("profiles").select("role").eq("id", user.id).single();
+  if (!profile || !["admin", "developer"].includes(profile.role)) {
+    return NextResponse.json({ error: "Forbidden: Admin access required" }, { status: 403 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const limit = Math.min(parseInt(searchParams.get("limit") || "50", 10) || 50, 200);
+
+  try {
+    const deadLetters = await jobQueue.listDeadLetters({
+      includeReplayed: searchParams.get("include_replayed") === "true",
+      limit,
+    });
+
+    return NextResponse.json({ dead_letters: deadLetters });
+  } catch (error) {
+    console.error("Dead letter list error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Job Queue API
+ * GET /api/jobs
+ * Per-queue counts and the most recent jobs, optionally filtered by
+ * `queue` and `status`
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { jobQueue } from "@/lib/services/job-queue";
+import type { JobStatus } from "@/types";
+
+const JOB_STATUSES: JobStatus[] = ["queued", "running", "completed", "dead"];
+
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase.from("profiles").select("role").eq("id", user.id).single();
+  if (!profile || !["admin", "developer"].includes(profile.role)) {
+    return NextResponse.json({ error: "Forbidden: Admin access required" }, { status: 403 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const status = searchParams.get("status");
+  const limit = Math.min(parseInt(searchParams.get("limit") || "50", 10) || 50, 200);
+
+  if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+    return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+  }
+
+  try {
+    const [stats, jobs] = await Promise.all([
+      jobQueue.stats(),
+      jobQueue.listJobs({
+        queue: searchParams.get("queue") || undefined,
+        status: (status as JobStatus | null) || undefined,
+        limit,
+      }),
+    ]);
+
+    return NextResponse.json({ stats, jobs });
+  } catch (error) {
+    console.error("Job queue error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
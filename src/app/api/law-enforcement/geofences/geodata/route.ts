@@ -0,0 +1,125 @@
+/**
+ * Geofence Geodata API Route
+ * Export a case's geofences as GeoJSON, KML or GPX, and create geofences
+ * from an uploaded file
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { GeofencingService } from "@/lib/services/geofencing-service";
+import {
+  DEFAULT_GEOFENCE_IMPORT_OPTIONS,
+  GeoInterchangeError,
+  featureToGeofence,
+  geoFileResponse,
+  geofenceToFeature,
+  parseGeoUpload,
+  readGeoUpload,
+} from "@/lib/geo-interchange";
+import { geoExportQuerySchema, geofenceImportSchema } from "@/lib/validations/geo-interchange";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const caseId = searchParams.get("caseId");
+
+    if (!caseId) {
+      return NextResponse.json({ error: "caseId required" }, { status: 400 });
+    }
+
+    const query = geoExportQuerySchema.safeParse(
+      Object.fromEntries([...searchParams].filter(([, v]) => v !== ""))
+    );
+    if (!query.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid export query",
+          issues: query.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const geofences = await new GeofencingService(await createClient()).listGeofences(caseId);
+
+    return geoFileResponse(geofences.map(geofenceToFeature), query.data.format, `geofences-${caseId}`, {
+      name: `Geofences for case ${caseId}`,
+    });
+  } catch (error) {
+    console.error("[API] Error exporting geofences:", error);
+    return NextResponse.json(
+      { error: "Failed to export geofences" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const upload = await readGeoUpload(request);
+    const parsed = geofenceImportSchema.safeParse(upload.fields);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid geofence import",
+          issues: parsed.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { caseId, format, crs, alertType, defaultRadiusMeters, defaultBufferMeters } = parsed.data;
+    const { features } = parseGeoUpload(upload, { format, crs });
+    const imported = features.map((feature) =>
+      featureToGeofence(feature, {
+        defaultRadiusMeters: defaultRadiusMeters ?? DEFAULT_GEOFENCE_IMPORT_OPTIONS.defaultRadiusMeters,
+        defaultBufferMeters: defaultBufferMeters ?? DEFAULT_GEOFENCE_IMPORT_OPTIONS.defaultBufferMeters,
+      })
+    );
+
+    const geofencing = new GeofencingService(supabase);
+    const geofences = [];
+    for (const [i, fence] of imported.entries()) {
+      geofences.push(
+        await geofencing.createGeofence(
+          {
+            caseId,
+            name: fence.name ?? `Imported geofence ${i + 1}`,
+            type: fence.type,
+            geometry: fence.geometry,
+            alertType: alertType ?? fence.alertType ?? "both",
+            expiresAt: fence.expiresAt,
+            notifications: [],
+          },
+          user.id
+        )
+      );
+    }
+
+    return NextResponse.json({ geofences }, { status: 201 });
+  } catch (error) {
+    if (error instanceof GeoInterchangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("[API] Error importing geofences:", error);
+    return NextResponse.json(
+      { error: "Failed to import geofences" },
+      { status: 500 }
+    );
+  }
+}
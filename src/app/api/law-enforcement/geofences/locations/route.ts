@@ -0,0 +1,81 @@
+/**
+ * Geofence Location Ingestion API Route
+ * Batch endpoint for location streams from the mobile companion. Accepts a
+ * JSON body of { updates: [...] } or newline-delimited JSON with one update
+ * per line.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { GeofencingService } from "@/lib/services/geofencing-service";
+import { locationBatchSchema } from "@/lib/validations/geofence";
+
+async function readBatch(request: NextRequest): Promise<unknown> {
+  const contentType = request.headers.get("content-type") || "";
+  if (!contentType.includes("ndjson")) {
+    return request.json();
+  }
+
+  const text = await request.text();
+  return {
+    updates: text
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => JSON.parse(line)),
+  };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("role")
+      .eq("id", user.id)
+      .single();
+
+    if (!profile || !["law_enforcement", "admin", "developer"].includes(profile.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    let body: unknown;
+    try {
+      body = await readBatch(request);
+    } catch {
+      return NextResponse.json({ error: "Malformed location batch" }, { status: 400 });
+    }
+
+    const parsed = locationBatchSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid location batch",
+          issues: parsed.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await new GeofencingService(supabase).processLocationBatch(parsed.data.updates);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[API] Error processing location batch:", error);
+    return NextResponse.json(
+      { error: "Failed to process location batch" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,7 +3,9 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { geofencingService, type CreateGeofenceInput } from "@/lib/services/geofencing-service";
+import { createClient } from "@/lib/supabase/server";
+import { GeofencingService, type CreateGeofenceInput } from "@/lib/services/geofencing-service";
+import { geofenceTriggerConfigSchema } from "@/lib/validations/geofence";
 
 export async function GET(request: NextRequest) {
   try {
@@ -14,7 +16,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "caseId required" }, { status: 400 });
     }
 
-    const geofences = await geofencingService.listGeofences(caseId);
+    const geofences = await new GeofencingService(await createClient()).listGeofences(caseId);
 
     return NextResponse.json({ geofences });
   } catch (error) {
@@ -28,8 +30,24 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
     const body = await request.json();
-    const userId = request.headers.get("x-user-id") || "system";
+
+    const triggerConfig = geofenceTriggerConfigSchema.safeParse(body.triggerConfig ?? {});
+    if (!triggerConfig.success) {
+      return NextResponse.json(
+        { error: `Invalid triggerConfig: ${triggerConfig.error.issues[0].message}` },
+        { status: 400 }
+      );
+    }
 
     const input: CreateGeofenceInput = {
       caseId: body.caseId,
@@ -39,9 +57,10 @@ export async function POST(request: NextRequest) {
       alertType: body.alertType || "both",
       expiresAt: body.expiresAt,
       notifications: body.notifications || [],
+      triggerConfig: triggerConfig.data,
     };
 
-    const geofence = await geofencingService.createGeofence(input, userId);
+    const geofence = await new GeofencingService(supabase).createGeofence(input, user.id);
 
     return NextResponse.json(geofence, { status: 201 });
   } catch (error) {
@@ -0,0 +1,48 @@
+/**
+ * Search Party Coverage API Route
+ * Swept coverage, cumulative probability of detection and re-search order
+ * for a search party's sectors
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { volunteerCoordinatorService } from "@/lib/services/volunteer-coordinator-service";
+import { coverageQuerySchema } from "@/lib/validations/search-planning";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ partyId: string }> }
+) {
+  try {
+    const { partyId } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const parsed = coverageQuerySchema.safeParse(
+      Object.fromEntries([...searchParams].filter(([, value]) => value !== ""))
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid coverage options",
+          issues: parsed.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const report = await volunteerCoordinatorService.getCoverage(partyId, parsed.data);
+    if (!report) {
+      return NextResponse.json({ error: "Search party not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("[API] Error computing search coverage:", error);
+    return NextResponse.json(
+      { error: "Failed to compute search coverage" },
+      { status: 500 }
+    );
+  }
+}
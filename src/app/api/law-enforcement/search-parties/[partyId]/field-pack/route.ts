@@ -0,0 +1,32 @@
+/**
+ * Search Party Field Pack API Route
+ * Sector geometry, assignments and safety details a volunteer's phone
+ * downloads before heading somewhere without coverage
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { volunteerCoordinatorService } from "@/lib/services/volunteer-coordinator-service";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ partyId: string }> }
+) {
+  try {
+    const { partyId } = await params;
+    const { searchParams } = new URL(request.url);
+    const volunteerId = searchParams.get("volunteerId") || undefined;
+
+    const pack = await volunteerCoordinatorService.getFieldPack(partyId, volunteerId);
+    if (!pack) {
+      return NextResponse.json({ error: "Search party not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(pack, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("[API] Error building field pack:", error);
+    return NextResponse.json(
+      { error: "Failed to build field pack" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Search Party Findings API Route
+ * Findings reported by volunteers, including reports made offline and
+ * synced later; a report is stored once however many times it is retried
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { volunteerCoordinatorService } from "@/lib/services/volunteer-coordinator-service";
+import { fieldFindingSchema } from "@/lib/validations/search-planning";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ partyId: string }> }
+) {
+  try {
+    const { partyId } = await params;
+    const parsed = fieldFindingSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid finding",
+          issues: parsed.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { volunteerId, ...input } = parsed.data;
+    const reportedBy = volunteerId || request.headers.get("x-user-id") || "anonymous";
+    const finding = await volunteerCoordinatorService.reportFinding(
+      { ...input, searchPartyId: partyId },
+      reportedBy
+    );
+    if (!finding) {
+      return NextResponse.json({ error: "Search party not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(finding, { status: 201 });
+  } catch (error) {
+    console.error("[API] Error reporting finding:", error);
+    return NextResponse.json(
+      { error: "Failed to report finding" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Search Sector API Route
+ * Status changes for one sector. Clients that were offline send the status
+ * they last saw; if the sector has moved on since, the current sector is
+ * returned with 409 for the client to reconcile.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  SectorStatusConflictError,
+  volunteerCoordinatorService,
+} from "@/lib/services/volunteer-coordinator-service";
+import { sectorStatusUpdateSchema } from "@/lib/validations/search-planning";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ partyId: string; sectorId: string }> }
+) {
+  try {
+    const { partyId, sectorId } = await params;
+    const parsed = sectorStatusUpdateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid sector update",
+          issues: parsed.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { status, expectedStatus, assignedTeam } = parsed.data;
+    const sector = await volunteerCoordinatorService.updateSectorStatus(partyId, sectorId, status, {
+      expectedStatus,
+      assignedTeam,
+    });
+    if (!sector) {
+      return NextResponse.json({ error: "Sector not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(sector);
+  } catch (error) {
+    if (error instanceof SectorStatusConflictError) {
+      return NextResponse.json({ error: error.message, sector: error.sector }, { status: 409 });
+    }
+    console.error("[API] Error updating search sector:", error);
+    return NextResponse.json(
+      { error: "Failed to update search sector" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Search Sector Geodata API Route
+ * Export a search party's sectors for GPS units and GIS, and import
+ * sectors drawn elsewhere
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { volunteerCoordinatorService } from "@/lib/services/volunteer-coordinator-service";
+import {
+  GeoInterchangeError,
+  featuresToSectors,
+  geoFileResponse,
+  parseGeoUpload,
+  readGeoUpload,
+  sectorToFeature,
+} from "@/lib/geo-interchange";
+import { geoExportQuerySchema, sectorImportSchema } from "@/lib/validations/geo-interchange";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ partyId: string }> }
+) {
+  try {
+    const { partyId } = await params;
+    const { searchParams } = new URL(request.url);
+    const query = geoExportQuerySchema.safeParse(
+      Object.fromEntries([...searchParams].filter(([, v]) => v !== ""))
+    );
+    if (!query.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid export query",
+          issues: query.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const party = await volunteerCoordinatorService.getSearchParty(partyId);
+    if (!party) {
+      return NextResponse.json({ error: "Search party not found" }, { status: 404 });
+    }
+
+    const sectors = [...(party.searchArea.sectors || [])].sort((a, b) => a.priority - b.priority);
+    return geoFileResponse(sectors.map(sectorToFeature), query.data.format, `sectors-${party.name}`, {
+      name: `${party.name} search sectors`,
+    });
+  } catch (error) {
+    console.error("[API] Error exporting search sectors:", error);
+    return NextResponse.json(
+      { error: "Failed to export search sectors" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ partyId: string }> }
+) {
+  try {
+    const { partyId } = await params;
+    const upload = await readGeoUpload(request);
+    const parsed = sectorImportSchema.safeParse(upload.fields);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid sector import",
+          issues: parsed.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { format, crs, replace } = parsed.data;
+    const { features } = parseGeoUpload(upload, { format, crs });
+    const party = await volunteerCoordinatorService.importSectors(partyId, featuresToSectors(features), replace);
+    if (!party) {
+      return NextResponse.json({ error: "Search party not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(party);
+  } catch (error) {
+    if (error instanceof GeoInterchangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof Error && error.message === "Sectors already assigned") {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("[API] Error importing search sectors:", error);
+    return NextResponse.json(
+      { error: "Failed to import search sectors" },
+      { status: 500 }
+    );
+  }
+}
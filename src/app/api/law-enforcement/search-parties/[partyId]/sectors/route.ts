@@ -0,0 +1,72 @@
+/**
+ * Search Sectors API Route
+ * Deployment order for a search party's sectors, and re-planning them from
+ * the lost person's behaviour category and team capacity
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { volunteerCoordinatorService } from "@/lib/services/volunteer-coordinator-service";
+import { searchPlanningSchema } from "@/lib/validations/search-planning";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ partyId: string }> }
+) {
+  try {
+    const { partyId } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "5", 10) || 5, 1), 100);
+
+    const party = await volunteerCoordinatorService.getSearchParty(partyId);
+    if (!party) {
+      return NextResponse.json({ error: "Search party not found" }, { status: 404 });
+    }
+
+    const sectors = await volunteerCoordinatorService.getNextSectors(partyId, limit);
+    return NextResponse.json({ plan: party.searchArea.plan ?? null, sectors });
+  } catch (error) {
+    console.error("[API] Error listing search sectors:", error);
+    return NextResponse.json(
+      { error: "Failed to list search sectors" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ partyId: string }> }
+) {
+  try {
+    const { partyId } = await params;
+    const parsed = searchPlanningSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid search planning",
+          issues: parsed.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const party = await volunteerCoordinatorService.replanSectors(partyId, parsed.data);
+    if (!party) {
+      return NextResponse.json({ error: "Search party not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(party);
+  } catch (error) {
+    if (error instanceof Error && error.message === "Sectors already assigned") {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("[API] Error planning search sectors:", error);
+    return NextResponse.json(
+      { error: "Failed to plan search sectors" },
+      { status: 500 }
+    );
+  }
+}
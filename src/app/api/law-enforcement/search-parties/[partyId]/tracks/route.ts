@@ -0,0 +1,50 @@
+/**
+ * Search Party Tracks API Route
+ * GPS tracks uploaded from volunteers' phones; each upload refreshes the
+ * party's sector coverage
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { volunteerCoordinatorService } from "@/lib/services/volunteer-coordinator-service";
+import { trackUploadSchema } from "@/lib/validations/search-planning";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ partyId: string }> }
+) {
+  try {
+    const { partyId } = await params;
+    const parsed = trackUploadSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid track",
+          issues: parsed.error.issues.slice(0, 20).map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const track = await volunteerCoordinatorService.uploadTrack(partyId, parsed.data);
+    if (!track) {
+      return NextResponse.json({ error: "Search party not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { id: track.id, points: track.points.length, sectorId: track.sectorId ?? null },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === "Volunteer not registered for this search party") {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("[API] Error uploading volunteer track:", error);
+    return NextResponse.json(
+      { error: "Failed to upload track" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { volunteerCoordinatorService, type CreateSearchPartyInput } from "@/lib/services/volunteer-coordinator-service";
+import { searchPlanningSchema } from "@/lib/validations/search-planning";
 
 export async function GET(request: NextRequest) {
   try {
@@ -46,6 +47,20 @@ export async function POST(request: NextRequest) {
     const coordinatorId = request.headers.get("x-user-id") || "system";
     const coordinatorName = request.headers.get("x-user-name") || "System";
 
+    const planning = searchPlanningSchema.optional().safeParse(body.planning);
+    if (!planning.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid search planning",
+          issues: planning.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
     const input: CreateSearchPartyInput = {
       caseId: body.caseId,
       name: body.name,
@@ -58,6 +73,8 @@ export async function POST(request: NextRequest) {
       providedEquipment: body.providedEquipment,
       safetyBriefing: body.safetyBriefing,
       emergencyContact: body.emergencyContact,
+      planning: planning.data,
+      sweepWidthMeters: typeof body.sweepWidthMeters === "number" ? body.sweepWidthMeters : undefined,
     };
 
     const party = await volunteerCoordinatorService.createSearchParty(
@@ -0,0 +1,122 @@
+/**
+ * Vehicle Sighting Geodata API Route
+ * Export a vehicle's sightings and the route between them, and import
+ * timed points or tracks (e.g. from a GPS logger or another agency's LPR
+ * export) as sightings
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { vehicleTrackingService } from "@/lib/services/vehicle-tracking-service";
+import {
+  GeoInterchangeError,
+  featuresToSightings,
+  geoFileResponse,
+  parseGeoUpload,
+  readGeoUpload,
+  sightingsToFeatures,
+} from "@/lib/geo-interchange";
+import { geoExportQuerySchema, sightingImportSchema } from "@/lib/validations/geo-interchange";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ vehicleId: string }> }
+) {
+  try {
+    const { vehicleId } = await params;
+    const { searchParams } = new URL(request.url);
+    const query = geoExportQuerySchema.safeParse(
+      Object.fromEntries([...searchParams].filter(([, value]) => value !== ""))
+    );
+    if (!query.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid export query",
+          issues: query.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const vehicle = await vehicleTrackingService.getVehicle(vehicleId);
+    if (!vehicle) {
+      return NextResponse.json({ error: "Vehicle not found" }, { status: 404 });
+    }
+
+    const { sightings } = await vehicleTrackingService.getSightingTimeline(vehicleId);
+    const features = sightingsToFeatures(sightings, `${vehicle.licensePlate} route`);
+    return geoFileResponse(features, query.data.format, `sightings-${vehicle.licensePlate}`, {
+      name: `Sightings of ${vehicle.licensePlate}`,
+    });
+  } catch (error) {
+    console.error("[API] Error exporting vehicle sightings:", error);
+    return NextResponse.json(
+      { error: "Failed to export vehicle sightings" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ vehicleId: string }> }
+) {
+  try {
+    const { vehicleId } = await params;
+    const upload = await readGeoUpload(request);
+    const parsed = sightingImportSchema.safeParse(upload.fields);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid sighting import",
+          issues: parsed.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const vehicle = await vehicleTrackingService.getVehicle(vehicleId);
+    if (!vehicle) {
+      return NextResponse.json({ error: "Vehicle not found" }, { status: 404 });
+    }
+
+    const { format, crs, source, confidence } = parsed.data;
+    const { features } = parseGeoUpload(upload, { format, crs });
+    const { sightings: imported, skipped } = featuresToSightings(features);
+    if (imported.length === 0) {
+      return NextResponse.json(
+        { error: "File contains no timestamped points to import as sightings" },
+        { status: 400 }
+      );
+    }
+
+    const sightings = [];
+    for (const sighting of imported) {
+      sightings.push(
+        await vehicleTrackingService.reportSighting({
+          vehicleId,
+          source,
+          location: sighting.location,
+          timestamp: sighting.timestamp,
+          confidence: sighting.confidence ?? confidence,
+        })
+      );
+    }
+
+    return NextResponse.json({ sightings, skipped }, { status: 201 });
+  } catch (error) {
+    if (error instanceof GeoInterchangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("[API] Error importing vehicle sightings:", error);
+    return NextResponse.json(
+      { error: "Failed to import vehicle sightings" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Vehicle Movement API Route
+ * Reconstructed movement for a vehicle: plausible sightings routed along
+ * the road network, estimated stops and a probability cone of where the
+ * vehicle could be now.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { vehicleTrackingService } from "@/lib/services/vehicle-tracking-service";
+import { movementQuerySchema } from "@/lib/validations/vehicle";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ vehicleId: string }> }
+) {
+  try {
+    const { vehicleId } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const parsed = movementQuerySchema.safeParse(
+      Object.fromEntries([...searchParams].filter(([, value]) => value !== ""))
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid movement options",
+          issues: parsed.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const movement = await vehicleTrackingService.reconstructMovement(vehicleId, parsed.data);
+    if (!movement) {
+      return NextResponse.json({ error: "Vehicle not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(movement);
+  } catch (error) {
+    console.error("[API] Error reconstructing vehicle movement:", error);
+    return NextResponse.json(
+      { error: "Failed to reconstruct vehicle movement" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * LPR Ingestion API Route
+ * Matches licence plate reads against tracked vehicles, tolerating OCR
+ * confusions. Confident matches become sightings; the rest are returned
+ * with ranked candidates for an analyst to review.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { vehicleTrackingService } from "@/lib/services/vehicle-tracking-service";
+import { lprBatchSchema } from "@/lib/validations/vehicle";
+
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Malformed request body" }, { status: 400 });
+    }
+
+    const parsed = lprBatchSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid LPR batch",
+          issues: parsed.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await vehicleTrackingService.processLPRData(
+      parsed.data.reads,
+      parsed.data.thresholds
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[API] Error processing LPR reads:", error);
+    return NextResponse.json(
+      { error: "Failed to process LPR reads" },
+      { status: 500 }
+    );
+  }
+}
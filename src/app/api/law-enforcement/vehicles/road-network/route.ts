@@ -0,0 +1,63 @@
+/**
+ * Road Network API Route
+ * Loads the GeoJSON road extract that vehicle movement is routed along.
+ * Law enforcement and admins only: it replaces the network for every case.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { vehicleTrackingService } from "@/lib/services/vehicle-tracking-service";
+import { roadNetworkSchema } from "@/lib/validations/vehicle";
+
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("role")
+      .eq("id", user.id)
+      .single();
+
+    if (!profile || !["law_enforcement", "admin", "developer"].includes(profile.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Malformed request body" }, { status: 400 });
+    }
+
+    const parsed = roadNetworkSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid road network",
+          issues: parsed.error.issues.slice(0, 20).map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const loaded = vehicleTrackingService.loadRoadNetwork(parsed.data);
+    return NextResponse.json(loaded);
+  } catch (error) {
+    console.error("[API] Error loading road network:", error);
+    return NextResponse.json(
+      { error: "Failed to load road network" },
+      { status: 500 }
+    );
+  }
+}
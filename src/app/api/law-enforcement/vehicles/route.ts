@@ -11,6 +11,24 @@ export async function GET(request: NextRequest) {
     const caseId = searchParams.get("caseId");
     const plate = searchParams.get("plate");
     const state = searchParams.get("state") || undefined;
+    const plateQuery = searchParams.get("plateQuery");
+    const description = {
+      state,
+      make: searchParams.get("make") || undefined,
+      model: searchParams.get("model") || undefined,
+      color: searchParams.get("color") || undefined,
+    };
+
+    // Witness partial plate, e.g. "GX*7"
+    if (plateQuery) {
+      const candidates = await vehicleTrackingService.searchByPartialPlate(plateQuery, description);
+      return NextResponse.json({ candidates });
+    }
+
+    if (plate && searchParams.get("fuzzy") === "true") {
+      const candidates = await vehicleTrackingService.findPlateCandidates({ plate, ...description });
+      return NextResponse.json({ candidates });
+    }
 
     if (plate) {
       const vehicle = await vehicleTrackingService.findByPlate(plate, state);
@@ -23,7 +41,7 @@ export async function GET(request: NextRequest) {
     }
 
     return NextResponse.json(
-      { error: "caseId or plate required" },
+      { error: "caseId, plate or plateQuery required" },
       { status: 400 }
     );
   } catch (error) {
@@ -0,0 +1,116 @@
+/**
+ * Lead Attachments API Route
+ * Attaches a file to a lead, either a case evidence item (for example one
+ * uploaded earlier in the same offline sync) or a file stored elsewhere
+ */
+
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { applyOnce, SyncProtocolError } from "@/lib/services/sync-version-service";
+import { leadAttachmentSchema } from "@/lib/validations/lead";
+
+interface RouteParams {
+  params: Promise<{ leadId: string }>;
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  const { leadId } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = leadAttachmentSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid attachment",
+        issues: parsed.error.issues.map((issue) => ({
+          path: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+  const input = parsed.data;
+
+  try {
+    const outcome = await applyOnce(
+      supabase,
+      request,
+      { entityType: "lead_attachment", entityId: leadId, userId: user.id },
+      async () => {
+        const { data: lead } = await supabase.from("leads").select("id, case_id").eq("id", leadId).maybeSingle();
+        if (!lead) {
+          return { status: 404, body: { error: "Lead not found" } };
+        }
+
+        let file = "evidenceItemId" in input ? null : input;
+        if ("evidenceItemId" in input) {
+          const { data: evidence } = await supabase
+            .from("case_evidence_items")
+            .select("id, case_id, file_name, file_type, file_size")
+            .eq("id", input.evidenceItemId)
+            .maybeSingle();
+          if (evidence && evidence.case_id === lead.case_id) {
+            // Served through the access route so every download is checked and logged
+            file = {
+              fileName: evidence.file_name,
+              fileType: evidence.file_type ?? "application/octet-stream",
+              fileSize: evidence.file_size ?? 0,
+              fileUrl: `/api/cases/${evidence.case_id}/evidence/${evidence.id}/access`,
+            };
+          }
+        }
+        if (!file) {
+          return { status: 404, body: { error: "Evidence item not found for this lead's case" } };
+        }
+
+        const { data, error } = await supabase
+          .from("lead_attachments")
+          .insert({
+            lead_id: leadId,
+            file_name: file.fileName,
+            file_type: file.fileType,
+            file_size: file.fileSize,
+            file_url: file.fileUrl,
+            uploaded_by_id: user.id,
+          })
+          .select("*")
+          .single();
+
+        if (error) {
+          return { status: 500, body: { error: error.message } };
+        }
+        return {
+          status: 201,
+          body: {
+            data: {
+              id: data.id,
+              leadId: data.lead_id,
+              fileName: data.file_name,
+              fileType: data.file_type,
+              fileSize: data.file_size,
+              fileUrl: data.file_url,
+              uploadedAt: data.uploaded_at,
+              uploadedById: data.uploaded_by_id,
+            },
+          },
+        };
+      }
+    );
+
+    return NextResponse.json(outcome.body, { status: outcome.status });
+  } catch (error) {
+    if (error instanceof SyncProtocolError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("[API] Error attaching file to lead:", error);
+    return NextResponse.json({ error: "Failed to attach file" }, { status: 500 });
+  }
+}
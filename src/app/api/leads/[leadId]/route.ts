@@ -1,5 +1,11 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import {
+  applyVersionedEdit,
+  getEntityVersion,
+  SyncProtocolError,
+} from "@/lib/services/sync-version-service";
+import { SYNC_VERSION_HEADER } from "@/lib/sync";
 import type { LeadUpdatePayload } from "@/types/lead.types";
 
 interface RouteParams {
@@ -101,7 +107,12 @@ export async function GET(request: Request, { params }: RouteParams) {
     attachments: data.attachments || [],
   };
 
-  return NextResponse.json({ data: lead });
+  // Lets offline clients base their edits on the version they were shown
+  const version = await getEntityVersion(supabase, "lead", leadId);
+  return NextResponse.json(
+    { data: lead },
+    { headers: { [SYNC_VERSION_HEADER]: JSON.stringify(version) } }
+  );
 }
 
 export async function PUT(request: Request, { params }: RouteParams) {
@@ -156,21 +167,46 @@ export async function PUT(request: Request, { params }: RouteParams) {
     }
   }
 
-  const { data, error } = await supabase
-    .from("leads")
-    .update(updatePayload)
-    .eq("id", leadId)
-    .select("*")
-    .single();
-
-  if (error) {
-    if (error.code === "PGRST116") {
-      return NextResponse.json({ error: "Lead not found" }, { status: 404 });
+  // Edits synced from offline devices are refused when they were made
+  // without knowledge of a later edit to the same lead
+  try {
+    const outcome = await applyVersionedEdit(
+      supabase,
+      request,
+      { entityType: "lead", entityId: leadId, userId: user.id },
+      async () => {
+        const { data } = await supabase.from("leads").select("*").eq("id", leadId).maybeSingle();
+        return data;
+      },
+      async () => {
+        const { data, error } = await supabase
+          .from("leads")
+          .update(updatePayload)
+          .eq("id", leadId)
+          .select("*")
+          .single();
+
+        if (error) {
+          if (error.code === "PGRST116") {
+            return { status: 404, body: { error: "Lead not found" } };
+          }
+          return { status: 500, body: { error: error.message } };
+        }
+        return { status: 200, body: { data } };
+      }
+    );
+
+    return NextResponse.json(outcome.body, {
+      status: outcome.status,
+      headers: outcome.version ? { [SYNC_VERSION_HEADER]: JSON.stringify(outcome.version) } : undefined,
+    });
+  } catch (error) {
+    if (error instanceof SyncProtocolError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
     }
-    return NextResponse.json({ error: error.message }, { status: 500 });
+    console.error("[API] Error updating lead:", error);
+    return NextResponse.json({ error: "Failed to update lead" }, { status: 500 });
   }
-
-  return NextResponse.json({ data });
 }
 
 export async function DELETE(request: Request, { params }: RouteParams) {
@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  apiSuccess,
+  apiBadRequest,
+  apiUnauthorized,
+  apiServerError,
+  apiForbidden,
+  apiNotFound,
+} from '@/lib/api/response';
+import { PriorityProfileService } from '@/lib/services/priority-profile-service';
+
+/**
+ * POST /api/priority-profiles/[id]/activate
+ * Make a draft version the active weight set for its profile key
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return apiUnauthorized('Authentication required');
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['admin', 'developer'].includes(profile.role)) {
+      return apiForbidden('Admin role required');
+    }
+
+    const priorityProfiles = new PriorityProfileService(supabase);
+    const existing = await priorityProfiles.getVersion(id);
+    if (!existing) {
+      return apiNotFound('Priority profile not found');
+    }
+    if (existing.status !== 'draft') {
+      return apiBadRequest(
+        `Only draft profiles can be activated (current status: ${existing.status})`,
+        'invalid_status'
+      );
+    }
+
+    const activated = await priorityProfiles.activateVersion(id, user.id);
+    return apiSuccess(activated);
+  } catch (error) {
+    console.error('Priority profile activate error:', error);
+    return apiServerError('Failed to activate priority profile');
+  }
+}
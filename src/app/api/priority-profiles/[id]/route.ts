@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  apiSuccess,
+  apiUnauthorized,
+  apiServerError,
+  apiForbidden,
+  apiNotFound,
+} from '@/lib/api/response';
+import { PriorityProfileService } from '@/lib/services/priority-profile-service';
+
+/**
+ * GET /api/priority-profiles/[id]
+ * Get a single weight set version
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return apiUnauthorized('Authentication required');
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['law_enforcement', 'admin', 'developer'].includes(profile.role)) {
+      return apiForbidden('Insufficient permissions');
+    }
+
+    const version = await new PriorityProfileService(supabase).getVersion(id);
+    if (!version) {
+      return apiNotFound('Priority profile not found');
+    }
+
+    return apiSuccess(version);
+  } catch (error) {
+    console.error('Priority profile API error:', error);
+    return apiServerError('Internal server error');
+  }
+}
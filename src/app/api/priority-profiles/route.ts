@@ -0,0 +1,94 @@
+import { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  apiSuccess,
+  apiBadRequest,
+  apiUnauthorized,
+  apiServerError,
+  apiCreated,
+  apiForbidden,
+} from '@/lib/api/response';
+import { PriorityProfileService } from '@/lib/services/priority-profile-service';
+import { createPriorityProfileVersionSchema } from '@/lib/validations/priority-profile';
+
+/**
+ * GET /api/priority-profiles
+ * List stored jurisdiction priority weight sets and their versions
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return apiUnauthorized('Authentication required');
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['law_enforcement', 'admin', 'developer'].includes(profile.role)) {
+      return apiForbidden('Insufficient permissions');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const profileKey = searchParams.get('profileKey') || undefined;
+
+    const versions = await new PriorityProfileService(supabase).listVersions(profileKey);
+    return apiSuccess(versions);
+  } catch (error) {
+    console.error('Priority profiles API error:', error);
+    return apiServerError('Internal server error');
+  }
+}
+
+/**
+ * POST /api/priority-profiles
+ * Create a new draft version of a weight set
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return apiUnauthorized('Authentication required');
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['admin', 'developer'].includes(profile.role)) {
+      return apiForbidden('Admin role required');
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiBadRequest('Malformed request body', 'malformed_body');
+    }
+
+    const parsed = createPriorityProfileVersionSchema.safeParse(body);
+    if (!parsed.success) {
+      return apiBadRequest('Invalid priority profile', 'invalid_profile', {
+        issues: parsed.error.issues.map((issue) => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const version = await new PriorityProfileService(supabase).createVersion(parsed.data, user.id);
+    return apiCreated(version);
+  } catch (error) {
+    console.error('Priority profile create error:', error);
+    return apiServerError('Failed to create priority profile');
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  apiSuccess,
+  apiBadRequest,
+  apiUnauthorized,
+  apiServerError,
+  apiForbidden,
+} from '@/lib/api/response';
+import { PriorityProfileService } from '@/lib/services/priority-profile-service';
+import {
+  buildCandidateProfile,
+  simulatePriorityChange,
+} from '@/lib/services/priority-simulator';
+import { priorityProfileSimulationSchema } from '@/lib/validations/priority-profile';
+
+/**
+ * POST /api/priority-profiles/simulate
+ * Replay historical intakes against a candidate weight set without saving it
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return apiUnauthorized('Authentication required');
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['admin', 'developer'].includes(profile.role)) {
+      return apiForbidden('Admin role required');
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiBadRequest('Malformed request body', 'malformed_body');
+    }
+
+    const parsed = priorityProfileSimulationSchema.safeParse(body);
+    if (!parsed.success) {
+      return apiBadRequest('Invalid simulation request', 'invalid_simulation', {
+        issues: parsed.error.issues.map((issue) => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const { profileKey, weights, checks, jurisdictionId, since, limit } = parsed.data;
+
+    const priorityProfiles = new PriorityProfileService(supabase);
+    const { profile: baseline } = await priorityProfiles.resolveProfile(profileKey);
+    const candidate = buildCandidateProfile(baseline, weights);
+    const intakes = await priorityProfiles.loadHistoricalIntakes({
+      jurisdictionId,
+      since,
+      limit,
+    });
+
+    const report = simulatePriorityChange(intakes, baseline, candidate, checks);
+
+    return apiSuccess(report, {
+      fromAssessments: intakes.filter((i) => i.source === 'assessment').length,
+      fromCaseRecords: intakes.filter((i) => i.source === 'case_record').length,
+    });
+  } catch (error) {
+    console.error('Priority simulation error:', error);
+    return apiServerError('Failed to run priority simulation');
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { extractPhotoMetadata } from '@/lib/services/photo-metadata-extractor';
+
+const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB
+const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/heic', 'image/heif'];
+
+/**
+ * POST /api/tips/[tipId]/attachments
+ * Upload a tip photo and extract EXIF/XMP metadata from its bytes
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tipId: string }> }
+) {
+  const { tipId } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const formData = await request.formData();
+  const file = formData.get('file') as File | null;
+
+  if (!file) {
+    return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+  }
+
+  if (!ALLOWED_TYPES.includes(file.type)) {
+    return NextResponse.json(
+      { error: 'Invalid file type. Allowed types: JPEG, PNG, HEIC' },
+      { status: 400 }
+    );
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    return NextResponse.json({ error: 'File size exceeds 20MB limit' }, { status: 400 });
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+
+  // The declared content type is client-controlled; trust the bytes
+  const extraction = extractPhotoMetadata(buffer, { fileName: file.name, fileSize: file.size });
+  if (!extraction.format) {
+    return NextResponse.json(
+      { error: 'File contents are not a JPEG, PNG or HEIC image' },
+      { status: 400 }
+    );
+  }
+
+  const { metadata } = extraction;
+  const attachmentId = crypto.randomUUID();
+  const storagePath = `tips/${tipId}/${attachmentId}/${file.name}`;
+
+  const { data: uploadData, error: uploadError } = await supabase.storage
+    .from('tip-attachments')
+    .upload(storagePath, buffer, {
+      contentType: file.type,
+      cacheControl: '3600',
+      upsert: false,
+    });
+
+  if (uploadError || !uploadData) {
+    console.error('[TipAttachments] Storage error:', uploadError);
+    return NextResponse.json({ error: 'Failed to upload file' }, { status: 500 });
+  }
+
+  const { data: attachment, error: insertError } = await supabase
+    .from('tip_attachments')
+    .insert({
+      id: attachmentId,
+      tip_id: tipId,
+      file_name: file.name,
+      file_type: file.type,
+      file_size: file.size,
+      url: uploadData.path,
+      storage_path: uploadData.path,
+      extracted_metadata: metadata,
+      exif_data: extraction.exif,
+      gps_latitude: metadata.hasGps ? metadata.latitude : null,
+      gps_longitude: metadata.hasGps ? metadata.longitude : null,
+      photo_taken_at: metadata.timestamp ?? null,
+      device_info: metadata.device ?? null,
+      metadata_extracted_at: new Date().toISOString(),
+    })
+    .select('id, tip_id, file_name, file_type, file_size, extracted_metadata')
+    .single();
+
+  if (insertError || !attachment) {
+    await supabase.storage.from('tip-attachments').remove([uploadData.path]);
+    // Foreign key violation: the tip does not exist
+    if (insertError?.code === '23503') {
+      return NextResponse.json({ error: 'Tip not found' }, { status: 404 });
+    }
+    console.error('[TipAttachments] Insert error:', insertError);
+    return NextResponse.json({ error: 'Failed to save attachment' }, { status: 500 });
+  }
+
+  return NextResponse.json({ attachment }, { status: 201 });
+}
+
+export const dynamic = 'force-dynamic';
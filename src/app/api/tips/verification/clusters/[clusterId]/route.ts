@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { TipClusterService } from '@/lib/services/tip-cluster-service';
+
+/**
+ * GET /api/tips/verification/clusters/[clusterId]
+ * Cluster with its tips and merge/split history
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ clusterId: string }> }
+) {
+  const { clusterId } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile || !['law_enforcement', 'admin', 'developer'].includes(profile.role)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const cluster = await new TipClusterService(supabase).getCluster(clusterId);
+    if (!cluster) {
+      return NextResponse.json({ error: 'Cluster not found' }, { status: 404 });
+    }
+    return NextResponse.json({ cluster });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load cluster' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { TipClusterService, TIP_CLUSTER_ERROR_STATUS } from '@/lib/services/tip-cluster-service';
+import { TipClusterError } from '@/lib/services/tip-clustering';
+
+type ClusterActionBody =
+  | { action: 'merge'; targetClusterId: string; sourceClusterIds: string[]; notes?: string }
+  | { action: 'split'; clusterId: string; tipIds: string[]; notes?: string };
+
+/**
+ * GET /api/tips/verification/clusters
+ * List sighting clusters for a case
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile || !['law_enforcement', 'admin', 'developer'].includes(profile.role)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const caseId = searchParams.get('caseId');
+  const minSize = parseInt(searchParams.get('minSize') || '1', 10);
+
+  if (!caseId) {
+    return NextResponse.json({ error: 'caseId is required' }, { status: 400 });
+  }
+
+  try {
+    const clusters = await new TipClusterService(supabase).listClusters(caseId, minSize);
+    return NextResponse.json({ clusters });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load clusters' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/tips/verification/clusters
+ * Merge clusters or split tips out of a cluster
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role, is_verified')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile || !['law_enforcement', 'admin', 'developer'].includes(profile.role)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  if (!profile.is_verified) {
+    return NextResponse.json({ error: 'Account not verified' }, { status: 403 });
+  }
+
+  const body: ClusterActionBody = await request.json();
+
+  const tipClusters = new TipClusterService(supabase);
+  try {
+    if (body.action === 'merge') {
+      if (!body.targetClusterId || !Array.isArray(body.sourceClusterIds) || body.sourceClusterIds.length === 0) {
+        return NextResponse.json(
+          { error: 'targetClusterId and sourceClusterIds are required' },
+          { status: 400 }
+        );
+      }
+      const cluster = await tipClusters.mergeClusters(
+        body.targetClusterId,
+        body.sourceClusterIds,
+        user.id,
+        body.notes
+      );
+      return NextResponse.json({ success: true, cluster });
+    }
+
+    if (body.action === 'split') {
+      if (!body.clusterId || !Array.isArray(body.tipIds)) {
+        return NextResponse.json({ error: 'clusterId and tipIds are required' }, { status: 400 });
+      }
+      const result = await tipClusters.splitCluster(body.clusterId, body.tipIds, user.id, body.notes);
+      return NextResponse.json({ success: true, ...result });
+    }
+
+    return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+  } catch (error) {
+    if (error instanceof TipClusterError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: TIP_CLUSTER_ERROR_STATUS[error.code] }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Cluster update failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,7 +5,9 @@ import {
   mapTipVerificationFromDb,
   type QueueType,
   type QueueStatus,
+  type TipClusterRef,
 } from '@/types/tip-verification.types';
+import { TipClusterService } from '@/lib/services/tip-cluster-service';
 
 /**
  * GET /api/tips/verification/queue
@@ -115,6 +117,16 @@ export async function GET(request: NextRequest) {
     slaBreached: stats?.filter(s => s.sla_breached).length || 0,
   };
 
+  // Sighting clusters let reviewers work related tips together
+  let clusterRefs = new Map<string, TipClusterRef>();
+  try {
+    clusterRefs = await new TipClusterService(supabase).getRefsForTips(
+      (data || []).map((item) => item.tip_id)
+    );
+  } catch (clusterError) {
+    console.error('[VerificationQueue] Failed to load clusters:', clusterError);
+  }
+
   const items = data?.map((item) => ({
     ...mapVerificationQueueItemFromDb(item),
     tip: item.tips ? {
@@ -141,6 +153,7 @@ export async function GET(request: NextRequest) {
       lastSeenLocation: item.tips.cases.last_seen_location,
     } : undefined,
     verification: item.tip_verifications ? mapTipVerificationFromDb(item.tip_verifications) : undefined,
+    cluster: clusterRefs.get(item.tip_id),
   })) || [];
 
   return NextResponse.json({
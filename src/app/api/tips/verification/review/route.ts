@@ -1,9 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { tipsterOutcomeForReview } from '@/lib/services/tipster-reliability-model';
+import {
+  TipsterReliabilityService,
+  type TipsterReliabilityUpdate,
+} from '@/lib/services/tipster-reliability-service';
 import {
   mapTipVerificationFromDb,
   mapVerificationQueueItemFromDb,
   type ReviewOutcome,
+  type TipsterOutcomeType,
   type TipVerificationStatus,
 } from '@/types/tip-verification.types';
 
@@ -43,6 +49,7 @@ export async function POST(request: NextRequest) {
     verificationId,
     queueItemId,
     outcome,
+    rejectionReason,
     notes,
     overrideScore,
     escalateTo,
@@ -53,6 +60,7 @@ export async function POST(request: NextRequest) {
     verificationId: string;
     queueItemId?: string;
     outcome: ReviewOutcome;
+    rejectionReason?: Exclude<TipsterOutcomeType, 'verified'>;
     notes?: string;
     overrideScore?: number;
     escalateTo?: string;
@@ -74,6 +82,10 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Invalid outcome' }, { status: 400 });
   }
 
+  if (rejectionReason && !['hoax', 'duplicate', 'spam'].includes(rejectionReason)) {
+    return NextResponse.json({ error: 'Invalid rejectionReason' }, { status: 400 });
+  }
+
   // Map outcome to verification status
   const statusMap: Record<ReviewOutcome, TipVerificationStatus> = {
     verified: 'verified',
@@ -128,6 +140,27 @@ export async function POST(request: NextRequest) {
     .update(tipUpdate)
     .eq('id', verification.tip_id);
 
+  // Feed the decision back into the tipster's reliability; a failure here
+  // must not undo the review
+  let tipsterReliability: TipsterReliabilityUpdate | null = null;
+  const tipsterOutcome = tipsterOutcomeForReview(outcome, {
+    rejectionReason,
+    isDuplicate: verification.is_duplicate,
+    isSpam: verification.priority_bucket === 'spam',
+  });
+  if (tipsterOutcome) {
+    try {
+      tipsterReliability = await new TipsterReliabilityService(supabase).recordReviewOutcome({
+        tipId: verification.tip_id,
+        verificationId,
+        outcome: tipsterOutcome,
+        reviewerId: user.id,
+      });
+    } catch (error) {
+      console.error('[TipReview] Failed to update tipster reliability:', error);
+    }
+  }
+
   // Update queue item if provided
   let queueItem;
   if (queueItemId) {
@@ -245,5 +278,9 @@ export async function POST(request: NextRequest) {
     verification: mapTipVerificationFromDb(verification),
     queueItem,
     lead: newLead,
+    tipsterReliability: tipsterReliability && {
+      profile: tipsterReliability.profile,
+      transition: tipsterReliability.transition,
+    },
   });
 }
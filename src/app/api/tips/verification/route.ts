@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { verifyTip } from '@/lib/services/tip-verification-engine';
+import { verifyTip, createDefaultVerifierRegistry } from '@/lib/services/tip-verification-engine';
+import { TipClusterService } from '@/lib/services/tip-cluster-service';
+import type { TipClusterIndex } from '@/lib/services/tip-clustering';
 import {
   mapTipVerificationFromDb,
   mapTipsterProfileFromDb,
+  mapTipVerifierStageSettingFromDb,
+  mapVerificationRuleFromDb,
   type TipVerificationInput,
   type TipPriorityBucket,
 } from '@/types/tip-verification.types';
@@ -148,7 +152,8 @@ export async function POST(request: NextRequest) {
         last_seen_date,
         first_name,
         last_name,
-        status
+        status,
+        jurisdiction_id
       ),
       tipster_profiles (*)
     `)
@@ -174,10 +179,28 @@ export async function POST(request: NextRequest) {
   // Fetch existing tips for duplicate detection
   const { data: existingTips } = await supabase
     .from('tips')
-    .select('id, content, location, created_at, credibility_score')
+    .select('id, content, location, latitude, longitude, sighting_date, created_at, credibility_score')
     .eq('case_id', tip.case_id)
     .neq('id', tipId);
 
+  // Duplicate lookup goes through the case's MinHash cluster index. Until
+  // the case's older tips are indexed, or if the index cannot be loaded, the
+  // engine indexes existingTips in memory instead and this tip is left for
+  // the backfill job to place
+  const tipClusters = new TipClusterService(supabase);
+  let clusterIndex: TipClusterIndex | undefined;
+  try {
+    const loaded = await tipClusters.loadIndex(tip.case_id);
+    if ((existingTips || []).some((t) => !loaded.getMember(t.id))) {
+      await tipClusters.queueBackfill(tip.case_id);
+    } else {
+      clusterIndex = loaded;
+    }
+  } catch (error) {
+    console.error('[TipVerification] Cluster index unavailable:', error);
+    clusterIndex = undefined;
+  }
+
   // Fetch verification rules
   const { data: verificationRules } = await supabase
     .from('verification_rules')
@@ -190,6 +213,21 @@ export async function POST(request: NextRequest) {
     .select('*')
     .eq('is_active', true);
 
+  // Fetch agency stage settings (global rows plus the case jurisdiction)
+  const jurisdictionId = tip.cases.jurisdiction_id as string | null;
+  const { data: stageSettings } = await supabase
+    .from('tip_verifier_stage_settings')
+    .select('*')
+    .or(
+      jurisdictionId
+        ? `jurisdiction_id.is.null,jurisdiction_id.eq.${jurisdictionId}`
+        : 'jurisdiction_id.is.null'
+    );
+
+  const registry = createDefaultVerifierRegistry().applySettings(
+    (stageSettings || []).map(mapTipVerifierStageSettingFromDb)
+  );
+
   // Prepare verification input
   const verificationInput: TipVerificationInput = {
     tipId: tip.id,
@@ -208,6 +246,7 @@ export async function POST(request: NextRequest) {
       fileSize: a.file_size,
       url: a.url,
       thumbnailUrl: a.thumbnail_url,
+      extractedMetadata: a.extracted_metadata ?? undefined,
       exifData: a.exif_data,
       gpsLatitude: a.gps_latitude,
       gpsLongitude: a.gps_longitude,
@@ -258,6 +297,7 @@ export async function POST(request: NextRequest) {
       createdAt: t.created_at,
       credibilityScore: t.credibility_score,
     })) || [],
+    clusterIndex,
     scamPatterns: scamPatterns?.map((p) => ({
       id: p.id,
       name: p.name,
@@ -273,22 +313,8 @@ export async function POST(request: NextRequest) {
       createdAt: p.created_at,
       updatedAt: p.updated_at,
     })) || [],
-    verificationRules: verificationRules?.map((r) => ({
-      id: r.id,
-      name: r.name,
-      description: r.description,
-      ruleType: r.rule_type,
-      conditions: r.conditions,
-      actions: r.actions,
-      scoreWeight: r.score_weight,
-      isActive: r.is_active,
-      jurisdictionId: r.jurisdiction_id,
-      createdBy: r.created_by,
-      updatedBy: r.updated_by,
-      createdAt: r.created_at,
-      updatedAt: r.updated_at,
-    })) || [],
-  });
+    verificationRules: (verificationRules || []).map(mapVerificationRuleFromDb),
+  }, registry);
 
   // Save verification result to database
   const verificationData = {
@@ -339,6 +365,7 @@ export async function POST(request: NextRequest) {
     requires_human_review: result.verification.requiresHumanReview,
     review_priority: result.verification.reviewPriority,
     review_deadline: result.verification.reviewDeadline,
+    stage_timings: result.stageTimings,
     verified_at: result.verification.verifiedAt,
   };
 
@@ -382,6 +409,25 @@ export async function POST(request: NextRequest) {
     })
     .eq('id', tipId);
 
+  // Place the tip in a sighting cluster; clustering never blocks verification
+  if (clusterIndex) {
+    try {
+      await tipClusters.assignTip(
+        tip.case_id,
+        {
+          tipId,
+          content: tip.content,
+          latitude: tip.latitude ?? undefined,
+          longitude: tip.longitude ?? undefined,
+          occurredAt: tip.sighting_date ?? tip.created_at,
+        },
+        clusterIndex
+      );
+    } catch (error) {
+      console.error('[TipVerification] Cluster assignment failed:', error);
+    }
+  }
+
   // Add to review queue if needed
   if (result.requiresReview) {
     await supabase
@@ -407,6 +453,7 @@ export async function POST(request: NextRequest) {
       autoActions: result.autoActions,
       warnings: result.warnings,
       suggestions: result.suggestions,
+      stageTimings: result.stageTimings,
     },
   });
 }
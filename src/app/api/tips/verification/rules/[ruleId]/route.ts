@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  VerificationRuleService,
+  VerificationRuleError,
+  VERIFICATION_RULE_ERROR_STATUS,
+} from '@/lib/services/verification-rule-service';
+import { updateVerificationRuleSchema } from '@/lib/validations/verification-rule';
+
+async function requireAdmin() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile || !['admin', 'developer'].includes(profile.role)) {
+    return { error: NextResponse.json({ error: 'Admin role required' }, { status: 403 }) };
+  }
+
+  return { user, supabase };
+}
+
+function ruleErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof VerificationRuleError) {
+    return NextResponse.json(
+      { error: error.message, issues: error.issues },
+      { status: VERIFICATION_RULE_ERROR_STATUS[error.code] }
+    );
+  }
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : fallback },
+    { status: 500 }
+  );
+}
+
+/**
+ * PATCH /api/tips/verification/rules/[ruleId]
+ * Edit a rule or switch it on or off
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  const { ruleId } = await params;
+  const auth = await requireAdmin();
+  if (auth.error) return auth.error;
+
+  const parsed = updateVerificationRuleSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: 'Invalid rule',
+        issues: parsed.error.issues.map((issue) => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+          severity: 'error',
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rule = await new VerificationRuleService(auth.supabase).updateRule(
+      ruleId,
+      parsed.data,
+      auth.user.id
+    );
+    return NextResponse.json({ rule });
+  } catch (error) {
+    return ruleErrorResponse(error, 'Failed to update rule');
+  }
+}
+
+/**
+ * DELETE /api/tips/verification/rules/[ruleId]
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  const { ruleId } = await params;
+  const auth = await requireAdmin();
+  if (auth.error) return auth.error;
+
+  try {
+    await new VerificationRuleService(auth.supabase).deleteRule(ruleId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return ruleErrorResponse(error, 'Failed to delete rule');
+  }
+}
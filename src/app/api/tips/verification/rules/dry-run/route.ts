@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  dryRunVerificationRule,
+  validateVerificationRule,
+} from '@/lib/services/verification-rule-dry-run';
+import { VerificationRuleService } from '@/lib/services/verification-rule-service';
+import { verificationRuleDryRunSchema } from '@/lib/validations/verification-rule';
+
+/**
+ * POST /api/tips/verification/rules/dry-run
+ * Replay the last N verified tips with a draft rule added to the active set
+ * and report which tips would change bucket or review priority. Nothing is
+ * saved.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile || !['admin', 'developer'].includes(profile.role)) {
+    return NextResponse.json({ error: 'Admin role required' }, { status: 403 });
+  }
+
+  const parsed = verificationRuleDryRunSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: 'Invalid dry run request',
+        issues: parsed.error.issues.map((issue) => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+          severity: 'error',
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  const { ruleId, rule, limit } = parsed.data;
+  const issues = validateVerificationRule(rule);
+  if (issues.some((issue) => issue.severity === 'error')) {
+    return NextResponse.json({ error: 'Rule is not valid', issues }, { status: 400 });
+  }
+
+  try {
+    const verificationRules = new VerificationRuleService(supabase);
+    const [rules, tips] = await Promise.all([
+      verificationRules.listRules(),
+      verificationRules.loadHistoricalTips(limit),
+    ]);
+
+    const now = new Date().toISOString();
+    const report = dryRunVerificationRule(
+      {
+        ...rule,
+        id: ruleId ?? 'draft',
+        isActive: true,
+        jurisdictionId: rule.jurisdictionId ?? undefined,
+        createdAt: now,
+        updatedAt: now,
+      },
+      rules,
+      tips
+    );
+
+    return NextResponse.json({ report, issues });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run dry run' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  describeRuleFields,
+  validateVerificationRule,
+} from '@/lib/services/verification-rule-dry-run';
+import {
+  VerificationRuleService,
+  VerificationRuleError,
+  VERIFICATION_RULE_ERROR_STATUS,
+} from '@/lib/services/verification-rule-service';
+import { verificationRuleDraftSchema } from '@/lib/validations/verification-rule';
+
+/**
+ * GET /api/tips/verification/rules
+ * List verification rules with their validation issues, plus the field
+ * catalog the rule editor autocompletes from
+ */
+export async function GET() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile || !['law_enforcement', 'admin', 'developer'].includes(profile.role)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const rules = await new VerificationRuleService(supabase).listRules();
+    return NextResponse.json({
+      rules: rules.map((rule) => ({ ...rule, issues: validateVerificationRule(rule) })),
+      fields: describeRuleFields(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load rules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/tips/verification/rules
+ * Create a rule. New rules are saved inactive until they are dry-run and
+ * switched on.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile || !['admin', 'developer'].includes(profile.role)) {
+    return NextResponse.json({ error: 'Admin role required' }, { status: 403 });
+  }
+
+  const parsed = verificationRuleDraftSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: 'Invalid rule',
+        issues: parsed.error.issues.map((issue) => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+          severity: 'error',
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rule = await new VerificationRuleService(supabase).createRule(parsed.data, user.id);
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    if (error instanceof VerificationRuleError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: VERIFICATION_RULE_ERROR_STATUS[error.code] }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create rule' },
+      { status: 500 }
+    );
+  }
+}
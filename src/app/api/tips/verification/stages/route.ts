@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { createDefaultVerifierRegistry } from '@/lib/services/tip-verification-engine';
+import { mapTipVerifierStageSettingFromDb } from '@/types/tip-verification.types';
+
+const jurisdictionIdSchema = z.string().uuid();
+
+interface UpdateStageSettingBody {
+  stageId: string;
+  jurisdictionId?: string | null;
+  enabled: boolean;
+  weight?: number | null;
+  timeoutMs?: number | null;
+}
+
+/**
+ * GET /api/tips/verification/stages
+ * List registered verifier stages with their defaults and effective settings
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile || !['law_enforcement', 'admin', 'developer'].includes(profile.role)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const jurisdictionId = request.nextUrl.searchParams.get('jurisdictionId');
+  // Interpolated into the PostgREST filter below, so it must be a bare UUID
+  if (jurisdictionId && !jurisdictionIdSchema.safeParse(jurisdictionId).success) {
+    return NextResponse.json({ error: 'jurisdictionId must be a UUID' }, { status: 400 });
+  }
+
+  let settingsQuery = supabase.from('tip_verifier_stage_settings').select('*');
+  settingsQuery = jurisdictionId
+    ? settingsQuery.or(`jurisdiction_id.is.null,jurisdiction_id.eq.${jurisdictionId}`)
+    : settingsQuery.is('jurisdiction_id', null);
+
+  const { data: rows, error } = await settingsQuery;
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const settings = (rows || []).map(mapTipVerifierStageSettingFromDb);
+  const defaults = createDefaultVerifierRegistry();
+  const effective = defaults.clone().applySettings(settings);
+
+  const stages = defaults.list().map((stage) => {
+    const current = effective.get(stage.id)!;
+    return {
+      stageId: stage.id,
+      name: stage.name,
+      method: stage.method,
+      defaults: { enabled: stage.enabled, weight: stage.weight, timeoutMs: stage.timeoutMs },
+      effective: { enabled: current.enabled, weight: current.weight, timeoutMs: current.timeoutMs },
+      settings: settings.filter((s) => s.stageId === stage.id),
+    };
+  });
+
+  return NextResponse.json({ stages });
+}
+
+/**
+ * PUT /api/tips/verification/stages
+ * Create or replace the setting for one stage in one scope (admin only)
+ */
+export async function PUT(request: NextRequest) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile || !['admin', 'developer'].includes(profile.role)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const body: UpdateStageSettingBody = await request.json();
+
+  if (!body.stageId || typeof body.enabled !== 'boolean') {
+    return NextResponse.json({ error: 'stageId and enabled are required' }, { status: 400 });
+  }
+  if (body.jurisdictionId && !jurisdictionIdSchema.safeParse(body.jurisdictionId).success) {
+    return NextResponse.json({ error: 'jurisdictionId must be a UUID' }, { status: 400 });
+  }
+
+  // Validate against the live registry so typos cannot be stored
+  try {
+    createDefaultVerifierRegistry().configure(body.stageId, {
+      enabled: body.enabled,
+      weight: body.weight ?? undefined,
+      timeoutMs: body.timeoutMs ?? undefined,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid stage setting' },
+      { status: 400 }
+    );
+  }
+
+  const values = {
+    stage_id: body.stageId,
+    jurisdiction_id: body.jurisdictionId || null,
+    enabled: body.enabled,
+    weight: body.weight ?? null,
+    timeout_ms: body.timeoutMs ?? null,
+    updated_by: user.id,
+    updated_at: new Date().toISOString(),
+  };
+
+  let existingQuery = supabase
+    .from('tip_verifier_stage_settings')
+    .select('id')
+    .eq('stage_id', body.stageId);
+  existingQuery = body.jurisdictionId
+    ? existingQuery.eq('jurisdiction_id', body.jurisdictionId)
+    : existingQuery.is('jurisdiction_id', null);
+
+  const { data: existing } = await existingQuery.maybeSingle();
+
+  const { data, error } = existing
+    ? await supabase
+        .from('tip_verifier_stage_settings')
+        .update(values)
+        .eq('id', existing.id)
+        .select()
+        .single()
+    : await supabase
+        .from('tip_verifier_stage_settings')
+        .insert(values)
+        .select()
+        .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, setting: mapTipVerifierStageSettingFromDb(data) });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { TipsterReliabilityService } from '@/lib/services/tipster-reliability-service';
+
+/**
+ * GET /api/tips/verification/tipsters/[tipsterId]/history
+ * Reviewed outcomes, tier transitions and the current decayed assessment
+ * for one tipster
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tipsterId: string }> }
+) {
+  const { tipsterId } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile || !['law_enforcement', 'admin', 'developer'].includes(profile.role)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const history = await new TipsterReliabilityService(supabase).getHistory(tipsterId);
+    if (!history) {
+      return NextResponse.json({ error: 'Tipster profile not found' }, { status: 404 });
+    }
+    return NextResponse.json({ history });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load tipster history' },
+      { status: 500 }
+    );
+  }
+}
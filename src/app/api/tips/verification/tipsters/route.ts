@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { TipsterReliabilityService } from '@/lib/services/tipster-reliability-service';
 import {
   mapTipsterProfileFromDb,
   type TipsterReliabilityTier,
@@ -206,6 +207,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
   }
 
+  const tierChanged = updateData.reliability_tier !== undefined;
+  const { data: before } = tierChanged
+    ? await supabase
+        .from('tipster_profiles')
+        .select('reliability_tier, reliability_score')
+        .eq('id', tipsterProfileId)
+        .single()
+    : { data: null };
+
   const { data, error } = await supabase
     .from('tipster_profiles')
     .update(updateData)
@@ -217,6 +227,18 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 
+  if (before) {
+    await new TipsterReliabilityService(supabase).recordManualTierChange({
+      tipsterProfileId,
+      fromTier: before.reliability_tier,
+      toTier: data.reliability_tier,
+      fromScore: before.reliability_score,
+      toScore: data.reliability_score,
+      actorId: user.id,
+      reason,
+    });
+  }
+
   return NextResponse.json({
     success: true,
     tipsterProfile: mapTipsterProfileFromDb(data),
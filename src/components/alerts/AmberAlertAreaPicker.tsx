@@ -0,0 +1,351 @@
+"use client";
+
+import { useState } from "react";
+import type {
+  AmberAlertArea,
+  AmberAreaExpansion,
+  AmberAreaPoint,
+  AmberReachEstimate,
+} from "@/types";
+import { AMBER_DISTRIBUTION_CHANNEL_LABELS } from "@/types";
+
+interface AmberAlertAreaPickerProps {
+  area?: AmberAlertArea;
+  expansion?: AmberAreaExpansion;
+  provinces: string[];
+  onChange: (area: AmberAlertArea | undefined, expansion: AmberAreaExpansion | undefined) => void;
+}
+
+type AreaType = AmberAlertArea["type"] | "provinces";
+
+const AREA_TYPES: { value: AreaType; label: string; desc: string }[] = [
+  { value: "provinces", label: "Whole provinces", desc: "Everyone in the target provinces" },
+  { value: "radius", label: "Radius", desc: "Around the last sighting" },
+  { value: "corridor", label: "Highway corridor", desc: "Along the route the vehicle may take" },
+  { value: "polygon", label: "Polygon", desc: "A drawn boundary" },
+];
+
+const inputClass =
+  "w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-cyan-500 focus:outline-none focus:ring-1 focus:ring-cyan-500";
+
+// One "lat, lng" pair per line
+function parsePoints(text: string): AmberAreaPoint[] {
+  return text
+    .split("\n")
+    .map((line) => line.split(",").map((part) => Number(part.trim())))
+    .filter((parts) => parts.length === 2 && parts.every(Number.isFinite))
+    .map(([lat, lng]) => ({ lat, lng }));
+}
+
+function formatPoints(points: AmberAreaPoint[]): string {
+  return points.map((p) => `${p.lat}, ${p.lng}`).join("\n");
+}
+
+export function AmberAlertAreaPicker({ area, expansion, provinces, onChange }: AmberAlertAreaPickerProps) {
+  const [type, setType] = useState<AreaType>(area?.type ?? "provinces");
+  const [centerLat, setCenterLat] = useState(area?.type === "radius" ? String(area.center.lat) : "");
+  const [centerLng, setCenterLng] = useState(area?.type === "radius" ? String(area.center.lng) : "");
+  const [radiusKm, setRadiusKm] = useState(area?.type === "radius" ? String(area.radius_km) : "50");
+  const [pointsText, setPointsText] = useState(area && area.type !== "radius" ? formatPoints(area.points) : "");
+  const [bufferKm, setBufferKm] = useState(area?.type === "corridor" ? String(area.buffer_km) : "10");
+  const [highways, setHighways] = useState(area?.type === "corridor" ? (area.highways || []).join(", ") : "");
+  const [widen, setWiden] = useState(Boolean(expansion));
+  const [stepKm, setStepKm] = useState(String(expansion?.step_km ?? 10));
+  const [everyMinutes, setEveryMinutes] = useState(String(expansion?.every_minutes ?? 60));
+  const [maxKm, setMaxKm] = useState(String(expansion?.max_km ?? 100));
+  const [estimate, setEstimate] = useState<AmberReachEstimate | null>(null);
+  const [estimating, setEstimating] = useState(false);
+  const [estimateError, setEstimateError] = useState<string | null>(null);
+
+  const buildArea = (values: Partial<Record<string, string>> = {}): AmberAlertArea | undefined => {
+    const current = {
+      type,
+      centerLat,
+      centerLng,
+      radiusKm,
+      pointsText,
+      bufferKm,
+      highways,
+      ...values,
+    };
+
+    if (current.type === "radius") {
+      const lat = Number(current.centerLat);
+      const lng = Number(current.centerLng);
+      const radius = Number(current.radiusKm);
+      if (!current.centerLat || !current.centerLng || !Number.isFinite(lat) || !Number.isFinite(lng) || !(radius > 0)) {
+        return undefined;
+      }
+      return { type: "radius", center: { lat, lng }, radius_km: radius };
+    }
+    if (current.type === "polygon") {
+      const points = parsePoints(current.pointsText);
+      return points.length >= 3 ? { type: "polygon", points } : undefined;
+    }
+    if (current.type === "corridor") {
+      const points = parsePoints(current.pointsText);
+      const buffer = Number(current.bufferKm);
+      if (points.length < 2 || !(buffer > 0)) return undefined;
+      const names = current.highways.split(",").map((h) => h.trim()).filter(Boolean);
+      return { type: "corridor", points, buffer_km: buffer, highways: names.length ? names : undefined };
+    }
+    return undefined;
+  };
+
+  const buildExpansion = (values: Partial<Record<string, string | boolean>> = {}): AmberAreaExpansion | undefined => {
+    const current = { widen, stepKm, everyMinutes, maxKm, ...values };
+    if (!current.widen) return undefined;
+    const step = Number(current.stepKm);
+    const every = Number(current.everyMinutes);
+    const max = Number(current.maxKm);
+    if (!(step > 0) || !(every >= 5) || !(max >= step)) return undefined;
+    return { step_km: step, every_minutes: every, max_km: max };
+  };
+
+  // Report every edit upward so the form always holds the current area
+  const update = (values: Partial<Record<string, string>>, expansionValues: Partial<Record<string, string | boolean>> = {}) => {
+    setEstimate(null);
+    const nextArea = buildArea(values);
+    onChange(nextArea, nextArea ? buildExpansion(expansionValues) : undefined);
+  };
+
+  const estimateReach = async () => {
+    setEstimating(true);
+    setEstimateError(null);
+    try {
+      const response = await fetch("/api/amber-alerts/reach", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ area: buildArea() ?? null, provinces }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to estimate reach");
+      }
+      setEstimate(data);
+    } catch (err) {
+      setEstimateError(err instanceof Error ? err.message : "Failed to estimate reach");
+    } finally {
+      setEstimating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {AREA_TYPES.map((option) => (
+          <label
+            key={option.value}
+            className={`flex flex-col gap-1 p-3 rounded-lg border cursor-pointer transition-colors ${
+              type === option.value ? "border-cyan-500 bg-cyan-50" : "border-gray-200 hover:border-gray-300"
+            }`}
+          >
+            <span className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="alert-area-type"
+                checked={type === option.value}
+                onChange={() => {
+                  setType(option.value);
+                  update({ type: option.value });
+                }}
+                className="w-4 h-4 text-cyan-600 border-gray-300 focus:ring-cyan-500"
+              />
+              <span className="text-sm font-medium">{option.label}</span>
+            </span>
+            <span className="text-xs text-gray-500">{option.desc}</span>
+          </label>
+        ))}
+      </div>
+
+      {type === "radius" && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Last sighting latitude</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={centerLat}
+              onChange={(e) => {
+                setCenterLat(e.target.value);
+                update({ centerLat: e.target.value });
+              }}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Last sighting longitude</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={centerLng}
+              onChange={(e) => {
+                setCenterLng(e.target.value);
+                update({ centerLng: e.target.value });
+              }}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Radius (km)</label>
+            <input
+              type="number"
+              min={1}
+              value={radiusKm}
+              onChange={(e) => {
+                setRadiusKm(e.target.value);
+                update({ radiusKm: e.target.value });
+              }}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+
+      {(type === "corridor" || type === "polygon") && (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {type === "corridor" ? "Route points" : "Boundary points"}
+            </label>
+            <textarea
+              rows={4}
+              value={pointsText}
+              onChange={(e) => {
+                setPointsText(e.target.value);
+                update({ pointsText: e.target.value });
+              }}
+              placeholder={"53.5461, -113.4938\n52.2681, -113.8112"}
+              className={`${inputClass} font-mono`}
+            />
+            <p className="mt-1 text-xs text-gray-500">One &quot;latitude, longitude&quot; per line.</p>
+          </div>
+          {type === "corridor" && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Highways</label>
+                <input
+                  type="text"
+                  value={highways}
+                  onChange={(e) => {
+                    setHighways(e.target.value);
+                    update({ highways: e.target.value });
+                  }}
+                  placeholder="Hwy 2, Hwy 16"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Width either side (km)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={bufferKm}
+                  onChange={(e) => {
+                    setBufferKm(e.target.value);
+                    update({ bufferKm: e.target.value });
+                  }}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {type !== "provinces" && (
+        <div className="rounded-lg border border-gray-200 p-3 space-y-3">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={widen}
+              onChange={(e) => {
+                setWiden(e.target.checked);
+                update({}, { widen: e.target.checked });
+              }}
+              className="w-4 h-4 text-cyan-600 border-gray-300 rounded focus:ring-cyan-500"
+            />
+            <span className="text-sm font-medium text-gray-900">Widen the area as the alert ages</span>
+          </label>
+          {widen && (
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Add (km)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={stepKm}
+                  onChange={(e) => {
+                    setStepKm(e.target.value);
+                    update({}, { stepKm: e.target.value });
+                  }}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Every (minutes)</label>
+                <input
+                  type="number"
+                  min={5}
+                  value={everyMinutes}
+                  onChange={(e) => {
+                    setEveryMinutes(e.target.value);
+                    update({}, { everyMinutes: e.target.value });
+                  }}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Up to (km)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={maxKm}
+                  onChange={(e) => {
+                    setMaxKm(e.target.value);
+                    update({}, { maxKm: e.target.value });
+                  }}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={estimateReach}
+          disabled={estimating || (type !== "provinces" && !buildArea())}
+          className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          {estimating ? "Estimating..." : "Estimate reach"}
+        </button>
+        {estimateError && <span className="text-sm text-red-600">{estimateError}</span>}
+      </div>
+
+      {estimate && (
+        <div className="rounded-lg bg-gray-50 p-4 text-sm space-y-2">
+          <p className="font-medium text-gray-900">
+            About {estimate.total.toLocaleString()} recipients
+            {estimate.area_km2 !== null && ` across ${estimate.area_km2.toLocaleString()} km²`}
+          </p>
+          <ul className="space-y-1 text-gray-600">
+            {Object.entries(estimate.by_channel).map(([channel, count]) => (
+              <li key={channel} className="flex justify-between">
+                <span>{AMBER_DISTRIBUTION_CHANNEL_LABELS[channel as keyof typeof AMBER_DISTRIBUTION_CHANNEL_LABELS]}</span>
+                <span className="font-medium">{(count ?? 0).toLocaleString()}</span>
+              </li>
+            ))}
+          </ul>
+          {estimate.matched_by_province > 0 && (
+            <p className="text-xs text-gray-500">
+              {estimate.matched_by_province.toLocaleString()} recipients have no location and were matched by province.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
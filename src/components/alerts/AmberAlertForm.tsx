@@ -1,6 +1,8 @@
 "use client";
 
 import { useState } from "react";
+import type { AmberAlertArea, AmberAreaExpansion } from "@/types";
+import { AmberAlertAreaPicker } from "./AmberAlertAreaPicker";
 
 export type AmberAlertStatus = "draft" | "pending_approval" | "submitted" | "active" | "expired" | "cancelled";
 
@@ -54,6 +56,8 @@ export interface AmberAlertRequest {
   // Alert Configuration
   targetProvinces: string[];
   targetRadius?: number;
+  targetArea?: AmberAlertArea;
+  areaExpansion?: AmberAreaExpansion;
   includeWirelessAlert: boolean;
   includeBroadcastAlert: boolean;
   includeHighwaySignage: boolean;
@@ -728,6 +732,20 @@ export function AmberAlertForm({
               </div>
             </div>
 
+            <div className="pt-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Alert Area
+              </label>
+              <AmberAlertAreaPicker
+                area={formData.targetArea}
+                expansion={formData.areaExpansion}
+                provinces={formData.targetProvinces}
+                onChange={(area, expansion) =>
+                  setFormData((prev) => ({ ...prev, targetArea: area, areaExpansion: expansion }))
+                }
+              />
+            </div>
+
             <div className="pt-4">
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Alert Channels
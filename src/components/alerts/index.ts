@@ -2,3 +2,4 @@
 export { AmberAlertForm } from "./AmberAlertForm";
 export type { AmberAlertRequest, AmberAlertStatus } from "./AmberAlertForm";
 export { AmberAlertRequestPanel } from "./AmberAlertRequestPanel";
+export { AmberAlertAreaPicker } from "./AmberAlertAreaPicker";
@@ -10,12 +10,13 @@ import { cn } from "@/lib";
 
 export interface TimelineEvent {
   id: string;
-  type: "status_change" | "priority_change" | "update" | "tip" | "lead" | "evidence" | "assignment" | "case_created";
+  type: "status_change" | "lifecycle_change" | "episode" | "priority_change" | "update" | "tip" | "lead" | "evidence" | "assignment" | "case_created";
   title: string;
   description?: string;
   timestamp: string;
   author?: string;
   metadata?: Record<string, unknown>;
+  episode?: number;
 }
 
 interface CaseTimelinePanelProps {
@@ -35,6 +36,18 @@ const eventTypeConfig: Record<TimelineEvent["type"], { label: string; color: str
     bgColor: "bg-purple-100",
     icon: <RefreshIcon className="h-4 w-4" />,
   },
+  lifecycle_change: {
+    label: "Lifecycle Change",
+    color: "text-slate-700",
+    bgColor: "bg-slate-200",
+    icon: <ArchiveIcon className="h-4 w-4" />,
+  },
+  episode: {
+    label: "Episode",
+    color: "text-rose-700",
+    bgColor: "bg-rose-100",
+    icon: <RefreshIcon className="h-4 w-4" />,
+  },
   priority_change: {
     label: "Priority Change",
     color: "text-orange-700",
@@ -108,6 +121,8 @@ export default function CaseTimelinePanel({ caseId }: CaseTimelinePanelProps) {
   const filterOptions: { value: FilterType; label: string }[] = [
     { value: "all", label: "All Events" },
     { value: "status_change", label: "Status Changes" },
+    { value: "lifecycle_change", label: "Lifecycle Changes" },
+    { value: "episode", label: "Episodes" },
     { value: "priority_change", label: "Priority Changes" },
     { value: "update", label: "Updates" },
     { value: "tip", label: "Tips" },
@@ -185,6 +200,9 @@ export default function CaseTimelinePanel({ caseId }: CaseTimelinePanelProps) {
               const config = eventTypeConfig[event.type] || eventTypeConfig.update;
               const isFirst = index === 0;
               const isLast = index === filteredEvents.length - 1;
+              const startsEpisodeGroup =
+                event.episode !== undefined &&
+                (isFirst || filteredEvents[index - 1].episode !== event.episode);
 
               return (
                 <div key={event.id} className="relative flex gap-4">
@@ -201,6 +219,11 @@ export default function CaseTimelinePanel({ caseId }: CaseTimelinePanelProps) {
 
                   {/* Content */}
                   <div className={cn("flex-1 pb-6", isLast && "pb-0")}>
+                    {startsEpisodeGroup && (
+                      <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-400">
+                        Episode {event.episode}
+                      </p>
+                    )}
                     <div className="flex flex-wrap items-start justify-between gap-2">
                       <div>
                         <span
@@ -218,6 +241,9 @@ export default function CaseTimelinePanel({ caseId }: CaseTimelinePanelProps) {
                         {event.description && (
                           <p className="mt-1 text-sm text-gray-600">{event.description}</p>
                         )}
+                        {event.type === "lifecycle_change" && (
+                          <LifecycleSideEffects effects={event.metadata?.sideEffects} />
+                        )}
                         {event.author && (
                           <p className="mt-1 text-xs text-gray-500">by {event.author}</p>
                         )}
@@ -237,6 +263,35 @@ export default function CaseTimelinePanel({ caseId }: CaseTimelinePanelProps) {
   );
 }
 
+interface LifecycleSideEffect {
+  effect: string;
+  status: "completed" | "skipped" | "failed";
+  detail?: string | null;
+}
+
+function LifecycleSideEffects({ effects }: { effects: unknown }) {
+  if (!Array.isArray(effects) || effects.length === 0) return null;
+
+  return (
+    <ul className="mt-2 space-y-1">
+      {(effects as LifecycleSideEffect[]).map((effect) => (
+        <li key={effect.effect} className="flex items-center gap-2 text-xs text-gray-600">
+          <span
+            className={cn(
+              "inline-block h-1.5 w-1.5 rounded-full",
+              effect.status === "completed" && "bg-green-500",
+              effect.status === "skipped" && "bg-gray-400",
+              effect.status === "failed" && "bg-red-500"
+            )}
+          />
+          <span className="capitalize">{effect.effect.replace(/_/g, " ")}</span>
+          {effect.detail && <span className="text-gray-400">- {effect.detail}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 function formatTimestamp(timestamp: string): string {
   const date = new Date(timestamp);
   const now = new Date();
@@ -326,3 +381,11 @@ function UserIcon({ className }: { className?: string }) {
     </svg>
   );
 }
+
+function ArchiveIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" d="m20.25 7.5-.625 10.632a2.25 2.25 0 0 1-2.247 2.118H6.622a2.25 2.25 0 0 1-2.247-2.118L3.75 7.5m8.25 3v6.75m0 0-3-3m3 3 3-3M3.375 7.5h17.25c.621 0 1.125-.504 1.125-1.125v-1.5c0-.621-.504-1.125-1.125-1.125H3.375c-.621 0-1.125.504-1.125 1.125v1.5c0 .621.504 1.125 1.125 1.125Z" />
+    </svg>
+  );
+}
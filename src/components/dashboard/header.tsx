@@ -8,6 +8,15 @@ import { LocaleSwitcher } from "@/components/i18n/LocaleSwitcher";
 import { useLocale } from "@/components/i18n/LocaleProvider";
 import { useTranslations } from "@/hooks/useTranslations";
 import { isLocaleComplete } from "@/lib/i18n";
+import {
+  SecureStorageRevokedError,
+  checkForRemoteWipe,
+  enforceOfflineRetention,
+  unlockWithSession,
+  wipeOfflineData,
+} from "@/lib/pwa/secure-storage";
+import { onDeviceWiped } from "@/lib/pwa/service-worker";
+import { runSync } from "@/lib/pwa/sync-engine";
 
 export function Header() {
   const [user, setUser] = useState<User | null>(null);
@@ -20,15 +29,58 @@ export function Header() {
   const showTranslationNotice = !isLocaleComplete(locale);
 
   useEffect(() => {
+    // A wiped or revoked device signs out so nothing is cached again until the officer signs back in
+    const signOutWiped = async () => {
+      await supabase.auth.signOut();
+      router.push("/login");
+      router.refresh();
+    };
+
     const getUser = async () => {
       const { data: { user } } = await supabase.auth.getUser();
       setUser(user);
+      if (!user) return;
+
+      try {
+        if (await checkForRemoteWipe()) {
+          await signOutWiped();
+          return;
+        }
+        // Open this officer's encrypted offline data and drop anything past its retention window
+        await enforceOfflineRetention();
+        await unlockWithSession();
+      } catch (error) {
+        if (error instanceof SecureStorageRevokedError) {
+          await signOutWiped();
+          return;
+        }
+        console.error("Offline data unavailable:", error);
+      }
+    };
+
+    const handleOnline = () => {
+      checkForRemoteWipe()
+        .then((wiped) => (wiped ? signOutWiped() : undefined))
+        .catch((error) => console.error("Device check-in failed:", error));
     };
+
     getUser();
-  }, [supabase.auth]);
+    window.addEventListener("online", handleOnline);
+    const stopListening = onDeviceWiped(() => {
+      signOutWiped();
+    });
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      stopListening();
+    };
+  }, [supabase.auth, router]);
 
   const handleLogout = async () => {
     setLoading(true);
+    // Shared field devices must not keep case data after logout; send what can still be sent first
+    await runSync().catch(() => undefined);
+    await wipeOfflineData().catch((error) => console.error("Failed to wipe offline data:", error));
     await supabase.auth.signOut();
     router.push("/login");
     router.refresh();
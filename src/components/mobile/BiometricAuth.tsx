@@ -7,6 +7,7 @@
  */
 
 import { useState, useCallback } from "react";
+import { getDeviceId } from "@/lib/pwa/sync-engine";
 
 export interface WebAuthnCredential {
   id: string;
@@ -182,7 +183,7 @@ export function BiometricAuth({
       const verifyResponse = await fetch("/api/auth/webauthn/register/verify", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userId, credential: credentialData }),
+        body: JSON.stringify({ userId, credential: credentialData, deviceId: getDeviceId() }),
       });
 
       if (!verifyResponse.ok) {
@@ -275,7 +276,7 @@ export function BiometricAuth({
       const verifyResponse = await fetch("/api/auth/webauthn/authenticate/verify", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userId, assertion: assertionData }),
+        body: JSON.stringify({ userId, assertion: assertionData, deviceId: getDeviceId() }),
       });
 
       if (!verifyResponse.ok) {
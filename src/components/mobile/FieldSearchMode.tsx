@@ -0,0 +1,519 @@
+"use client";
+
+/**
+ * Offline Field Search Mode
+ * Lets a search party volunteer download their sectors and map tiles, then
+ * log findings, photos and GPS tracks with or without a connection
+ * LC-FEAT-031: Mobile App Companion - Field Search
+ */
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import dynamic from "next/dynamic";
+import type { SearchSector } from "@/types/law-enforcement.types";
+import type { FieldFinding, FieldSearchPackRecord, FieldTrack } from "@/lib/pwa/indexeddb";
+import {
+  closeFieldTracks,
+  downloadFieldPack,
+  getFieldPack,
+  getFieldRecords,
+  logFieldFinding,
+  reconcileFieldSearch,
+  recordTrackPoint,
+  resolveFieldConflict,
+  setSectorStatusOffline,
+} from "@/lib/pwa/field-search";
+import { onServiceWorkerMessage } from "@/lib/pwa/service-worker";
+
+const MapContainer = dynamic(
+  () => import("react-leaflet").then((mod) => mod.MapContainer),
+  { ssr: false }
+);
+const TileLayer = dynamic(
+  () => import("react-leaflet").then((mod) => mod.TileLayer),
+  { ssr: false }
+);
+const Polygon = dynamic(
+  () => import("react-leaflet").then((mod) => mod.Polygon),
+  { ssr: false }
+);
+const Polyline = dynamic(
+  () => import("react-leaflet").then((mod) => mod.Polyline),
+  { ssr: false }
+);
+const CircleMarker = dynamic(
+  () => import("react-leaflet").then((mod) => mod.CircleMarker),
+  { ssr: false }
+);
+
+interface FieldSearchModeProps {
+  searchPartyId: string;
+  volunteerId: string;
+  className?: string;
+}
+
+const SECTOR_STATUS_CONFIG: Record<SearchSector["status"], { label: string; color: string; badge: string }> = {
+  unassigned: { label: "Unassigned", color: "#64748b", badge: "bg-slate-100 text-slate-700" },
+  assigned: { label: "Assigned", color: "#2563eb", badge: "bg-blue-100 text-blue-700" },
+  in_progress: { label: "In Progress", color: "#d97706", badge: "bg-amber-100 text-amber-700" },
+  completed: { label: "Completed", color: "#16a34a", badge: "bg-green-100 text-green-700" },
+};
+
+const FINDING_TYPES: Array<{ value: FieldFinding["type"]; label: string }> = [
+  { value: "person_sighting", label: "Person Sighting" },
+  { value: "evidence", label: "Evidence" },
+  { value: "poi", label: "Point of Interest" },
+  { value: "other", label: "Other" },
+];
+
+const MAX_PHOTOS = 6;
+const PHOTO_MAX_DIMENSION = 1600;
+
+// Phone photos are several megabytes; shrink them before they are stored for sync
+async function resizePhoto(file: File): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, PHOTO_MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve) => {
+    canvas.toBlob((blob) => resolve(blob ?? file), "image/jpeg", 0.8);
+  });
+}
+
+export function FieldSearchMode({ searchPartyId, volunteerId, className = "" }: FieldSearchModeProps) {
+  const [record, setRecord] = useState<FieldSearchPackRecord | null>(null);
+  const [findings, setFindings] = useState<FieldFinding[]>([]);
+  const [tracks, setTracks] = useState<FieldTrack[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  const [downloadProgress, setDownloadProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isTracking, setIsTracking] = useState(false);
+  const [position, setPosition] = useState<{ lat: number; lng: number; accuracy?: number } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [findingType, setFindingType] = useState<FieldFinding["type"]>("evidence");
+  const [description, setDescription] = useState("");
+  const [photos, setPhotos] = useState<Blob[]>([]);
+  const [followUpRequired, setFollowUpRequired] = useState(false);
+  const watchIdRef = useRef<number | null>(null);
+
+  const sectorId = record?.pack.sectorAssignment;
+
+  const reload = useCallback(async () => {
+    const [pack, records] = await Promise.all([getFieldPack(searchPartyId), getFieldRecords(searchPartyId)]);
+    setRecord(pack ?? null);
+    setFindings(records.findings);
+    setTracks(records.tracks);
+  }, [searchPartyId]);
+
+  const sync = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      const result = await reconcileFieldSearch(searchPartyId);
+      if (result.offline) {
+        setMessage(`Offline: ${result.pending} change(s) waiting to sync`);
+      } else if (result.conflicts.length > 0) {
+        setMessage(`${result.conflicts.length} sector conflict(s) need your decision`);
+      } else if (result.rejected > 0) {
+        setMessage(`${result.rejected} report(s) were rejected by the server`);
+      } else {
+        setMessage(result.synced > 0 ? `Synced ${result.synced} change(s)` : "Everything is up to date");
+      }
+    } catch (error) {
+      console.error("Field search sync failed:", error);
+      setMessage("Sync failed; changes are kept on this device");
+    } finally {
+      setIsSyncing(false);
+      await reload();
+    }
+  }, [searchPartyId, reload]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Monitor online status and sync as soon as the connection returns
+  useEffect(() => {
+    setIsOnline(navigator.onLine);
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    const unsubscribe = onServiceWorkerMessage((event) => {
+      if (event.data?.type === "SYNC_COMPLETE") reload();
+    });
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      unsubscribe();
+    };
+  }, [sync, reload]);
+
+  useEffect(() => {
+    return () => {
+      if (watchIdRef.current !== null) navigator.geolocation.clearWatch(watchIdRef.current);
+    };
+  }, []);
+
+  const handleDownload = async () => {
+    setDownloadProgress({ done: 0, total: 0 });
+    try {
+      const downloaded = await downloadFieldPack(searchPartyId, {
+        volunteerId,
+        onProgress: ({ done, total }) => setDownloadProgress({ done, total }),
+      });
+      setMessage(
+        downloaded.tiles.failed > 0
+          ? `Downloaded with ${downloaded.tiles.failed} missing map tile(s)`
+          : downloaded.tiles.count === 0
+            ? `Ready offline: ${downloaded.pack.sectors.length} sectors; the map needs a connection`
+            : `Ready offline: ${downloaded.pack.sectors.length} sectors, ${downloaded.tiles.count} map tiles`
+      );
+      await reload();
+    } catch (error) {
+      console.error("Field pack download failed:", error);
+      setMessage("Download failed; connect to the network and try again");
+    } finally {
+      setDownloadProgress(null);
+    }
+  };
+
+  const toggleTracking = async () => {
+    if (isTracking) {
+      if (watchIdRef.current !== null) navigator.geolocation.clearWatch(watchIdRef.current);
+      watchIdRef.current = null;
+      setIsTracking(false);
+      await closeFieldTracks(searchPartyId, volunteerId);
+      await reload();
+      return;
+    }
+
+    watchIdRef.current = navigator.geolocation.watchPosition(
+      async (pos) => {
+        const point = {
+          lat: pos.coords.latitude,
+          lng: pos.coords.longitude,
+          accuracy: pos.coords.accuracy,
+          timestamp: new Date(pos.timestamp).toISOString(),
+        };
+        setPosition(point);
+        await recordTrackPoint(searchPartyId, volunteerId, point, sectorId);
+        const records = await getFieldRecords(searchPartyId);
+        setTracks(records.tracks);
+      },
+      (error) => setMessage(`Location unavailable: ${error.message}`),
+      { enableHighAccuracy: true, maximumAge: 5000 }
+    );
+    setIsTracking(true);
+  };
+
+  const handlePhotos = async (files: FileList | null) => {
+    if (!files) return;
+    const selected = Array.from(files).slice(0, MAX_PHOTOS - photos.length);
+    const resized = await Promise.all(selected.map(resizePhoto));
+    setPhotos((prev) => [...prev, ...resized]);
+  };
+
+  const handleLogFinding = async () => {
+    if (!description.trim()) return;
+
+    let location = position;
+    if (!location) {
+      location = await new Promise((resolve) => {
+        navigator.geolocation.getCurrentPosition(
+          (pos) => resolve({ lat: pos.coords.latitude, lng: pos.coords.longitude, accuracy: pos.coords.accuracy }),
+          () => resolve(null),
+          { enableHighAccuracy: true, timeout: 15000 }
+        );
+      });
+    }
+    if (!location) {
+      setMessage("A location is needed to log a finding");
+      return;
+    }
+
+    await logFieldFinding({
+      searchPartyId,
+      volunteerId,
+      sectorId,
+      type: findingType,
+      description: description.trim(),
+      location,
+      photos,
+      followUpRequired,
+    });
+    setDescription("");
+    setPhotos([]);
+    setFollowUpRequired(false);
+    setMessage(isOnline ? "Finding saved" : "Finding saved; it will sync when you are back online");
+    if (isOnline) await sync();
+    else await reload();
+  };
+
+  const handleSectorStatus = async (sector: SearchSector, status: SearchSector["status"]) => {
+    setRecord(await setSectorStatusOffline(searchPartyId, sector.id, status));
+    if (isOnline) await sync();
+  };
+
+  const handleConflict = async (conflictSectorId: string, keep: "server" | "local") => {
+    await resolveFieldConflict(searchPartyId, conflictSectorId, keep);
+    if (keep === "local" && isOnline) await sync();
+    else await reload();
+  };
+
+  const unsynced =
+    findings.filter((f) => f.syncState === "pending" || f.syncState === "queued").length +
+    tracks.filter((t) => t.syncState === "pending" || t.syncState === "queued").length +
+    Object.keys(record?.pendingSectorStatus ?? {}).length;
+
+  if (!record) {
+    return (
+      <div className={`bg-white dark:bg-slate-800 rounded-lg shadow p-6 space-y-4 ${className}`}>
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Field Search Mode</h2>
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          Download your search party&apos;s sectors and map before heading out. Everything you record works without
+          a connection.
+        </p>
+        <button
+          onClick={handleDownload}
+          disabled={!isOnline || downloadProgress !== null}
+          className="w-full px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {downloadProgress
+            ? `Downloading map ${downloadProgress.done}/${downloadProgress.total || "…"}`
+            : isOnline
+              ? "Download for offline use"
+              : "Connect to download"}
+        </button>
+        {message && <p className="text-sm text-slate-600 dark:text-slate-400">{message}</p>}
+      </div>
+    );
+  }
+
+  const { pack } = record;
+  const assignedSector = pack.sectors.find((s) => s.id === sectorId);
+  const center = { lat: pack.meetingPoint.lat, lng: pack.meetingPoint.lng };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow p-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900 dark:text-white">{pack.name}</h2>
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              {pack.teamAssignment ? `Team ${pack.teamAssignment}` : "No team assigned"}
+              {assignedSector ? ` · ${assignedSector.name}` : ""}
+            </p>
+          </div>
+          <span
+            className={`px-2 py-1 text-xs font-medium rounded-full ${
+              isOnline ? "bg-green-100 text-green-700" : "bg-amber-100 text-amber-700"
+            }`}
+          >
+            {isOnline ? "Online" : "Offline"}
+          </span>
+        </div>
+        <div className="mt-3 flex gap-2">
+          <button
+            onClick={toggleTracking}
+            className={`flex-1 px-3 py-2 rounded-lg text-white ${
+              isTracking ? "bg-red-600 hover:bg-red-700" : "bg-blue-600 hover:bg-blue-700"
+            }`}
+          >
+            {isTracking ? "Stop tracking" : "Start tracking"}
+          </button>
+          <button
+            onClick={sync}
+            disabled={!isOnline || isSyncing}
+            className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-700 dark:text-slate-300 disabled:opacity-50"
+          >
+            {isSyncing ? "Syncing…" : `Sync${unsynced > 0 ? ` (${unsynced})` : ""}`}
+          </button>
+        </div>
+        {message && <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">{message}</p>}
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow p-4 text-sm text-slate-700 dark:text-slate-300 space-y-1">
+        <p>
+          <span className="font-medium">Meeting point:</span> {pack.meetingPoint.address}
+        </p>
+        <p>
+          <span className="font-medium">Emergency contact:</span> {pack.emergencyContact}
+        </p>
+        {pack.safetyBriefing && <p className="text-slate-600 dark:text-slate-400">{pack.safetyBriefing}</p>}
+      </div>
+
+      <div className="h-80 rounded-lg overflow-hidden shadow">
+        <MapContainer center={[center.lat, center.lng]} zoom={record.tiles.minZoom + 2} className="h-full w-full">
+          <TileLayer url={record.tiles.template} minZoom={record.tiles.minZoom} maxZoom={19} maxNativeZoom={record.tiles.maxZoom} />
+          {pack.sectors.map((sector) => (
+            <Polygon
+              key={sector.id}
+              positions={sector.geometry.map((p) => [p.lat, p.lng] as [number, number])}
+              pathOptions={{
+                color: SECTOR_STATUS_CONFIG[sector.status].color,
+                weight: sector.id === sectorId ? 4 : 2,
+                fillOpacity: 0.15,
+              }}
+            />
+          ))}
+          {tracks.map((track) => (
+            <Polyline
+              key={track.clientId}
+              positions={track.points.map((p) => [p.lat, p.lng] as [number, number])}
+              pathOptions={{ color: "#7c3aed", weight: 3 }}
+            />
+          ))}
+          {findings.map((finding) => (
+            <CircleMarker
+              key={finding.clientId}
+              center={[finding.location.lat, finding.location.lng]}
+              radius={7}
+              pathOptions={{ color: "#dc2626", fillOpacity: 0.8 }}
+            />
+          ))}
+          {position && (
+            <CircleMarker center={[position.lat, position.lng]} radius={6} pathOptions={{ color: "#2563eb", fillOpacity: 1 }} />
+          )}
+        </MapContainer>
+      </div>
+
+      {record.conflicts.length > 0 && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-4 space-y-3">
+          <h3 className="font-medium text-amber-800 dark:text-amber-300">Sector conflicts</h3>
+          {record.conflicts.map((conflict) => (
+            <div key={conflict.sectorId} className="text-sm text-amber-800 dark:text-amber-300">
+              <p>
+                {conflict.sectorName}: you marked it {SECTOR_STATUS_CONFIG[conflict.localStatus].label.toLowerCase()},
+                but it is now {SECTOR_STATUS_CONFIG[conflict.serverStatus].label.toLowerCase()}
+                {conflict.serverTeam ? ` for team ${conflict.serverTeam}` : ""}.
+              </p>
+              <div className="mt-2 flex gap-2">
+                <button
+                  onClick={() => handleConflict(conflict.sectorId, "server")}
+                  className="px-3 py-1 bg-white dark:bg-slate-800 border border-amber-300 rounded-lg"
+                >
+                  Keep current
+                </button>
+                <button
+                  onClick={() => handleConflict(conflict.sectorId, "local")}
+                  className="px-3 py-1 bg-amber-600 text-white rounded-lg hover:bg-amber-700"
+                >
+                  Use mine
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow p-4 space-y-3">
+        <h3 className="font-medium text-slate-900 dark:text-white">Sectors</h3>
+        {pack.sectors.map((sector) => (
+          <div key={sector.id} className="flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-slate-900 dark:text-white truncate">
+                {sector.name}
+                {record.pendingSectorStatus[sector.id] && <span className="ml-1 text-xs text-amber-600">(not synced)</span>}
+              </p>
+              <span className={`px-2 py-0.5 text-xs rounded-full ${SECTOR_STATUS_CONFIG[sector.status].badge}`}>
+                {SECTOR_STATUS_CONFIG[sector.status].label}
+              </span>
+            </div>
+            <select
+              value={sector.status}
+              onChange={(e) => handleSectorStatus(sector, e.target.value as SearchSector["status"])}
+              className="px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+            >
+              {Object.entries(SECTOR_STATUS_CONFIG).map(([value, config]) => (
+                <option key={value} value={value}>
+                  {config.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow p-4 space-y-3">
+        <h3 className="font-medium text-slate-900 dark:text-white">Log a finding</h3>
+        <select
+          value={findingType}
+          onChange={(e) => setFindingType(e.target.value as FieldFinding["type"])}
+          className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+        >
+          {FINDING_TYPES.map((type) => (
+            <option key={type.value} value={type.value}>
+              {type.label}
+            </option>
+          ))}
+        </select>
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={3}
+          placeholder="What did you find, and exactly where?"
+          className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white resize-none"
+        />
+        <div className="flex items-center justify-between">
+          <label className="text-sm text-blue-600 cursor-pointer">
+            {photos.length > 0 ? `${photos.length} photo(s) attached` : "Add photos"}
+            <input
+              type="file"
+              accept="image/*"
+              capture="environment"
+              multiple
+              disabled={photos.length >= MAX_PHOTOS}
+              onChange={(e) => handlePhotos(e.target.files)}
+              className="hidden"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={followUpRequired}
+              onChange={(e) => setFollowUpRequired(e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 text-blue-600"
+            />
+            Needs follow-up
+          </label>
+        </div>
+        <button
+          onClick={handleLogFinding}
+          disabled={!description.trim()}
+          className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          Save finding
+        </button>
+      </div>
+
+      {findings.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 rounded-lg shadow p-4 space-y-2">
+          <h3 className="font-medium text-slate-900 dark:text-white">Your findings</h3>
+          {findings.map((finding) => (
+            <div key={finding.clientId} className="flex items-start justify-between gap-2 text-sm">
+              <p className="text-slate-700 dark:text-slate-300">{finding.description}</p>
+              <span
+                title={finding.syncError}
+                className={`shrink-0 text-xs ${
+                  finding.syncState === "synced"
+                    ? "text-green-600"
+                    : finding.syncState === "rejected"
+                      ? "text-red-600"
+                      : "text-amber-600"
+                }`}
+              >
+                {finding.syncState === "synced" ? "Synced" : finding.syncState === "rejected" ? "Rejected" : "Waiting"}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+/**
+ * Offline Data Protection
+ * Shows whether encrypted offline data is unlocked, sets up biometric unlock
+ * for use without a connection, and lets the officer wipe the device
+ * LC-FEAT-031: Mobile App Companion
+ */
+
+import { useState, useCallback, useEffect } from "react";
+import { isSecureStorageUnlocked } from "@/lib/pwa/encryption";
+import { OFFLINE_RETENTION, type RetentionCategory } from "@/lib/pwa/indexeddb";
+import {
+  enrollWebAuthnUnlock,
+  isWebAuthnUnlockEnrolled,
+  lockSecureStorage,
+  unlockWithSession,
+  unlockWithWebAuthn,
+  wipeOfflineData,
+} from "@/lib/pwa/secure-storage";
+
+const CATEGORY_LABELS: Record<RetentionCategory, string> = {
+  cases: "Cached cases",
+  tips: "Offline tips",
+  voiceNotes: "Voice notes",
+  evidence: "Evidence uploads",
+  fieldData: "Field notes and drafts",
+  fieldSearch: "Field search packs, findings and tracks",
+  location: "Location history",
+};
+
+function formatWindow(hours: number): string {
+  return hours % 24 === 0 ? `${hours / 24} day${hours === 24 ? "" : "s"}` : `${hours} hours`;
+}
+
+interface OfflineDataProtectionProps {
+  className?: string;
+}
+
+export function OfflineDataProtection({ className = "" }: OfflineDataProtectionProps) {
+  const [unlocked, setUnlocked] = useState(false);
+  const [biometricEnrolled, setBiometricEnrolled] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setUnlocked(isSecureStorageUnlocked());
+    setBiometricEnrolled(await isWebAuthnUnlockEnrolled());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage(success);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+      await refresh();
+    }
+  };
+
+  const handleWipe = () => {
+    if (!window.confirm("Remove all offline case data and unsent changes from this device?")) return;
+    run(wipeOfflineData, "Offline data removed from this device");
+  };
+
+  return (
+    <div className={`bg-white dark:bg-slate-800 rounded-lg shadow p-4 space-y-4 ${className}`}>
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Offline data protection</h2>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Cached cases, tips and voice notes are encrypted on this device.{" "}
+            {unlocked ? "They are unlocked for this session." : "They are locked."}
+          </p>
+          {message && <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{message}</p>}
+        </div>
+        <span
+          className={`shrink-0 px-2 py-1 text-xs rounded-full ${
+            unlocked
+              ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300"
+              : "bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300"
+          }`}
+        >
+          {unlocked ? "Unlocked" : "Locked"}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {unlocked ? (
+          <button
+            onClick={() => run(async () => lockSecureStorage(), "Offline data locked")}
+            disabled={busy}
+            className="px-3 py-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-lg text-slate-700 dark:text-slate-300 disabled:opacity-50"
+          >
+            Lock now
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={() => run(unlockWithSession, "Offline data unlocked")}
+              disabled={busy}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              Unlock
+            </button>
+            {biometricEnrolled && (
+              <button
+                onClick={() => run(unlockWithWebAuthn, "Offline data unlocked")}
+                disabled={busy}
+                className="px-3 py-1.5 text-sm border border-blue-300 text-blue-700 dark:text-blue-300 rounded-lg disabled:opacity-50"
+              >
+                Unlock with biometrics
+              </button>
+            )}
+          </>
+        )}
+        {unlocked && !biometricEnrolled && (
+          <button
+            onClick={() => run(enrollWebAuthnUnlock, "Biometric unlock is ready for use offline")}
+            disabled={busy}
+            className="px-3 py-1.5 text-sm border border-blue-300 text-blue-700 dark:text-blue-300 rounded-lg disabled:opacity-50"
+          >
+            Set up biometric unlock
+          </button>
+        )}
+        <button
+          onClick={handleWipe}
+          disabled={busy}
+          className="px-3 py-1.5 text-sm border border-red-300 text-red-700 dark:text-red-400 rounded-lg disabled:opacity-50"
+        >
+          Wipe this device
+        </button>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-slate-900 dark:text-white mb-1">Kept on this device for at most</h3>
+        <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-1 text-sm">
+          {(Object.keys(OFFLINE_RETENTION) as RetentionCategory[]).map((category) => (
+            <div key={category} className="contents">
+              <dt className="text-slate-600 dark:text-slate-400">{CATEGORY_LABELS[category]}</dt>
+              <dd className="text-slate-900 dark:text-white">{formatWindow(OFFLINE_RETENTION[category].maxAgeHours)}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+}
@@ -34,6 +34,7 @@ import {
   requestPersistentStorage,
   getStorageEstimate,
 } from "@/lib/pwa/indexeddb";
+import { runSync } from "@/lib/pwa/sync-engine";
 
 interface PWAContextValue {
   // Installation
@@ -166,7 +167,11 @@ export function PWAProvider({ children, vapidPublicKey }: PWAProviderProps) {
 
   // Listen for online/offline
   useEffect(() => {
-    const handleOnline = () => setIsOnline(true);
+    const handleOnline = () => {
+      setIsOnline(true);
+      // Send changes made while offline
+      runSync().catch((error) => console.error("Offline sync failed:", error));
+    };
     const handleOffline = () => setIsOnline(false);
 
     window.addEventListener("online", handleOnline);
@@ -0,0 +1,295 @@
+"use client";
+
+/**
+ * Offline Sync Conflict Center
+ * Shows changes waiting to sync, lets the officer settle edits that
+ * conflicted with someone else's, and retry or discard changes that failed
+ * LC-FEAT-031: Mobile App Companion - Offline Sync
+ */
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import type { SyncDeadLetter, SyncOperation } from "@/lib/pwa/indexeddb";
+import {
+  discardDeadLetter,
+  getDeadLetters,
+  getPendingOperations,
+  getSyncConflicts,
+  resolveSyncConflict,
+  retryDeadLetter,
+  runSync,
+} from "@/lib/pwa/sync-engine";
+
+interface SyncConflictCenterProps {
+  className?: string;
+}
+
+// Request bodies use camelCase while the server returns database rows
+function serverValue(current: Record<string, unknown> | null, field: string): unknown {
+  if (!current) return undefined;
+  if (field in current) return current[field];
+  return current[field.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`)];
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function localFields(operation: SyncOperation): Record<string, unknown> | null {
+  const { body } = operation;
+  if (body.kind !== "json" || !body.value || typeof body.value !== "object" || Array.isArray(body.value)) {
+    return null;
+  }
+  return body.value as Record<string, unknown>;
+}
+
+function ConflictCard({ operation, onResolved }: { operation: SyncOperation; onResolved: () => void }) {
+  const fields = localFields(operation);
+  const current = operation.conflict?.current ?? null;
+  // Fields where the officer chose the server's value
+  const [keepServer, setKeepServer] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+
+  const changed = fields
+    ? Object.keys(fields).filter((field) => formatValue(fields[field]) !== formatValue(serverValue(current, field)))
+    : [];
+
+  const resolve = async (keep: "local" | "server" | "merged") => {
+    setBusy(true);
+    try {
+      if (keep === "merged" && fields) {
+        // Updates are partial, so leaving a field out keeps the server's value
+        const merged = Object.fromEntries(Object.entries(fields).filter(([field]) => !keepServer.has(field)));
+        await resolveSyncConflict(operation.id, { keep: "merged", json: merged });
+      } else {
+        await resolveSyncConflict(operation.id, { keep: keep === "server" ? "server" : "local" });
+      }
+      onResolved();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="border border-amber-200 dark:border-amber-800 rounded-lg p-4 space-y-3">
+      <div>
+        <p className="font-medium text-slate-900 dark:text-white">{operation.label}</p>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Changed on this device {new Date(operation.createdAt).toLocaleString()}; someone else changed it since.
+        </p>
+      </div>
+
+      {changed.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-slate-500 dark:text-slate-400">
+              <th className="py-1 pr-2">Field</th>
+              <th className="py-1 pr-2">Yours</th>
+              <th className="py-1">Current</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changed.map((field) => (
+              <tr key={field} className="border-t border-slate-100 dark:border-slate-700 align-top">
+                <td className="py-2 pr-2 font-medium text-slate-700 dark:text-slate-300">{field}</td>
+                <td className="py-2 pr-2">
+                  <label className="flex items-start gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name={`${operation.id}-${field}`}
+                      checked={!keepServer.has(field)}
+                      onChange={() =>
+                        setKeepServer((prev) => {
+                          const next = new Set(prev);
+                          next.delete(field);
+                          return next;
+                        })
+                      }
+                    />
+                    <span className="text-slate-900 dark:text-white break-all">{formatValue(fields?.[field])}</span>
+                  </label>
+                </td>
+                <td className="py-2">
+                  <label className="flex items-start gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name={`${operation.id}-${field}`}
+                      checked={keepServer.has(field)}
+                      onChange={() => setKeepServer((prev) => new Set(prev).add(field))}
+                    />
+                    <span className="text-slate-900 dark:text-white break-all">
+                      {formatValue(serverValue(current, field))}
+                    </span>
+                  </label>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => resolve("local")}
+          disabled={busy}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          Keep mine
+        </button>
+        <button
+          onClick={() => resolve("server")}
+          disabled={busy}
+          className="px-3 py-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-lg text-slate-700 dark:text-slate-300 disabled:opacity-50"
+        >
+          Keep current
+        </button>
+        {changed.length > 1 && (
+          <button
+            onClick={() => resolve("merged")}
+            disabled={busy}
+            className="px-3 py-1.5 text-sm border border-blue-300 text-blue-700 dark:text-blue-300 rounded-lg disabled:opacity-50"
+          >
+            Apply selected fields
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function SyncConflictCenter({ className = "" }: SyncConflictCenterProps) {
+  const [pending, setPending] = useState<SyncOperation[]>([]);
+  const [conflicts, setConflicts] = useState<SyncOperation[]>([]);
+  const [deadLetters, setDeadLetters] = useState<SyncDeadLetter[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const reload = useCallback(async () => {
+    const [pendingOps, conflictOps, letters] = await Promise.all([
+      getPendingOperations(),
+      getSyncConflicts(),
+      getDeadLetters(),
+    ]);
+    setPending(pendingOps);
+    setConflicts(conflictOps);
+    setDeadLetters(letters);
+  }, []);
+
+  const sync = useCallback(async () => {
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    setIsSyncing(true);
+    try {
+      const result = await runSync();
+      setMessage(
+        result.offline
+          ? `Offline: ${result.pending} change(s) waiting`
+          : `Sent ${result.sent}, ${result.conflicts} conflict(s), ${result.deadLettered} failed`
+      );
+      // Come back when the next operation's backoff ends
+      if (result.nextAttemptAt && !result.offline) {
+        retryTimerRef.current = setTimeout(sync, Math.max(1000, result.nextAttemptAt - Date.now()));
+      }
+    } catch (error) {
+      console.error("Offline sync failed:", error);
+      setMessage("Sync failed; changes are kept on this device");
+    } finally {
+      setIsSyncing(false);
+      await reload();
+    }
+  }, [reload]);
+
+  useEffect(() => {
+    sync();
+    window.addEventListener("online", sync);
+    return () => {
+      window.removeEventListener("online", sync);
+      if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    };
+  }, [sync]);
+
+  const handleRetry = async (id: string) => {
+    await retryDeadLetter(id);
+    await sync();
+  };
+
+  const handleDiscard = async (id: string) => {
+    await discardDeadLetter(id);
+    await reload();
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow p-4 flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Offline changes</h2>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            {pending.length} waiting · {conflicts.length} conflict(s) · {deadLetters.length} failed
+          </p>
+          {message && <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{message}</p>}
+        </div>
+        <button
+          onClick={sync}
+          disabled={isSyncing}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSyncing ? "Syncing…" : "Sync now"}
+        </button>
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 rounded-lg shadow p-4 space-y-3">
+          <h3 className="font-medium text-slate-900 dark:text-white">Conflicts</h3>
+          {conflicts.map((operation) => (
+            <ConflictCard key={operation.id} operation={operation} onResolved={sync} />
+          ))}
+        </div>
+      )}
+
+      {pending.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 rounded-lg shadow p-4 space-y-2">
+          <h3 className="font-medium text-slate-900 dark:text-white">Waiting to sync</h3>
+          {pending.map((operation) => (
+            <div key={operation.id} className="flex items-start justify-between gap-2 text-sm">
+              <span className="text-slate-700 dark:text-slate-300">{operation.label}</span>
+              <span className="shrink-0 text-xs text-slate-500 dark:text-slate-400" title={operation.lastError}>
+                {operation.attempts > 0
+                  ? `Retry ${operation.attempts} at ${new Date(operation.nextAttemptAt).toLocaleTimeString()}`
+                  : operation.dependsOn.length > 0
+                    ? "After earlier changes"
+                    : "Queued"}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {deadLetters.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 rounded-lg shadow p-4 space-y-3">
+          <h3 className="font-medium text-slate-900 dark:text-white">Failed changes</h3>
+          {deadLetters.map((letter) => (
+            <div key={letter.id} className="border border-red-200 dark:border-red-800 rounded-lg p-3 text-sm">
+              <p className="font-medium text-slate-900 dark:text-white">{letter.operation.label}</p>
+              <p className="text-red-700 dark:text-red-400">{letter.reason}</p>
+              <div className="mt-2 flex gap-2">
+                <button
+                  onClick={() => handleRetry(letter.id)}
+                  className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  Retry
+                </button>
+                <button
+                  onClick={() => handleDiscard(letter.id)}
+                  className="px-3 py-1 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-700 dark:text-slate-300"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -36,3 +36,12 @@ export type { NearbyCase } from "./NearbyCaseAlerts";
 // LE-specific components
 export { LEFieldDataForm } from "./LEFieldDataForm";
 export type { FieldEntry, FieldEntryType, FieldAttachment } from "./LEFieldDataForm";
+
+// Offline field search
+export { FieldSearchMode } from "./FieldSearchMode";
+
+// Offline sync conflicts and failures
+export { SyncConflictCenter } from "./SyncConflictCenter";
+
+// Encrypted offline data
+export { OfflineDataProtection } from "./OfflineDataProtection";
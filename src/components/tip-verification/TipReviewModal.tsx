@@ -5,6 +5,7 @@ import { cn } from '@/lib';
 import type {
   QueueItemWithDetails,
   ReviewOutcome,
+  TipsterOutcomeType,
   TipVerification,
 } from '@/types/tip-verification.types';
 
@@ -17,6 +18,9 @@ interface TipReviewModalProps {
 
 export function TipReviewModal({ item, isOpen, onClose, onComplete }: TipReviewModalProps) {
   const [outcome, setOutcome] = useState<ReviewOutcome | ''>('');
+  const [rejectionReason, setRejectionReason] = useState<Exclude<TipsterOutcomeType, 'verified'>>(
+    item.verification?.isDuplicate ? 'duplicate' : 'hoax'
+  );
   const [notes, setNotes] = useState('');
   const [overrideScore, setOverrideScore] = useState<number | undefined>(undefined);
   const [createLead, setCreateLead] = useState(false);
@@ -46,6 +50,7 @@ export function TipReviewModal({ item, isOpen, onClose, onComplete }: TipReviewM
           verificationId: item.verification?.id || item.tipVerificationId,
           queueItemId: item.id,
           outcome,
+          rejectionReason: outcome === 'rejected' ? rejectionReason : undefined,
           notes,
           overrideScore,
           createLead: createLead && outcome === 'verified',
@@ -267,6 +272,24 @@ export function TipReviewModal({ item, isOpen, onClose, onComplete }: TipReviewM
                     ))}
                   </div>
 
+                  {/* Rejection Reason - feeds the tipster's reliability */}
+                  {outcome === 'rejected' && (
+                    <div className="mb-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Rejection Reason
+                      </label>
+                      <select
+                        value={rejectionReason}
+                        onChange={(e) => setRejectionReason(e.target.value as typeof rejectionReason)}
+                        className="w-full rounded-md border-gray-300 text-sm focus:border-cyan-500 focus:ring-cyan-500"
+                      >
+                        <option value="hoax">False or hoax report</option>
+                        <option value="duplicate">Duplicate of another tip</option>
+                        <option value="spam">Spam</option>
+                      </select>
+                    </div>
+                  )}
+
                   {/* Override Score */}
                   <div className="mb-4">
                     <label className="block text-sm font-medium text-gray-700 mb-1">
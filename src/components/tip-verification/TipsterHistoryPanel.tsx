@@ -0,0 +1,136 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { cn } from '@/lib/utils';
+import type { TipsterReliabilityHistory } from '@/lib/services/tipster-reliability-service';
+import type { TipsterOutcomeType, TipsterReliabilityTier } from '@/types/tip-verification.types';
+
+interface TipsterHistoryPanelProps {
+  tipsterId: string;
+  tierLabels: Record<TipsterReliabilityTier, string>;
+}
+
+const outcomeColors: Record<TipsterOutcomeType, string> = {
+  verified: 'bg-green-100 text-green-800',
+  duplicate: 'bg-gray-100 text-gray-700',
+  hoax: 'bg-red-100 text-red-800',
+  spam: 'bg-orange-100 text-orange-800',
+};
+
+export function TipsterHistoryPanel({ tipsterId, tierLabels }: TipsterHistoryPanelProps) {
+  const [history, setHistory] = useState<TipsterReliabilityHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchHistory() {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/tips/verification/tipsters/${tipsterId}/history`);
+        if (response.ok && !cancelled) {
+          const data = await response.json();
+          setHistory(data.history);
+        }
+      } catch (error) {
+        console.error('Failed to fetch tipster history:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }
+
+    fetchHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [tipsterId]);
+
+  if (isLoading) {
+    return <div className="h-24 bg-gray-100 rounded-lg animate-pulse" />;
+  }
+
+  if (!history) {
+    return <p className="text-sm text-gray-500">Reliability history is unavailable</p>;
+  }
+
+  const { current, transitions } = history;
+  const drifted = current.score !== history.profile.reliabilityScore;
+
+  return (
+    <div className="space-y-4">
+      {/* Current assessment */}
+      <div className="p-3 bg-gray-50 rounded-lg">
+        <p className="text-sm font-medium text-gray-900">
+          Model score today: {current.score} ({tierLabels[current.tier]})
+          {drifted && (
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              stored {history.profile.reliabilityScore}; older outcomes have decayed since the last review
+            </span>
+          )}
+        </p>
+        <ul className="mt-2 space-y-1 text-sm text-gray-600 list-disc list-inside">
+          {current.reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Tier transitions */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-2">Tier changes</h4>
+        {transitions.length === 0 ? (
+          <p className="text-sm text-gray-500">No tier changes recorded</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 text-sm">
+            {transitions.map((transition) => (
+              <li key={transition.id} className="py-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-900">
+                    {tierLabels[transition.fromTier]} → {tierLabels[transition.toTier]}
+                    <span className="ml-2 text-xs font-normal text-gray-500">
+                      {transition.fromScore} → {transition.toScore}
+                    </span>
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {transition.trigger === 'manual' ? 'Manual' : 'Review'} ·{' '}
+                    {new Date(transition.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+                {transition.reasons.map((reason) => (
+                  <p key={reason} className="text-xs text-gray-500">{reason}</p>
+                ))}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Reviewed outcomes */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-2">Reviewed tips</h4>
+        {current.contributions.length === 0 ? (
+          <p className="text-sm text-gray-500">No reviewed tips yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 text-sm">
+            {current.contributions.map((contribution) => {
+              const outcome = history.outcomes.find((o) => o.tipId === contribution.tipId);
+              return (
+                <li key={contribution.tipId} className="py-2 flex items-center gap-3">
+                  <span className={cn('px-2 py-0.5 text-xs font-medium rounded', outcomeColors[contribution.outcome])}>
+                    {contribution.outcome}
+                  </span>
+                  <span className="flex-1 min-w-0 truncate text-gray-700">
+                    {outcome?.tipContent || contribution.tipId}
+                  </span>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {contribution.ageDays}d ago · weight {Math.round(contribution.decay * 100)}%
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { cn } from '@/lib/utils';
 import type { TipsterProfile, TipsterReliabilityTier } from '@/types/tip-verification.types';
+import { TipsterHistoryPanel } from './TipsterHistoryPanel';
 
 interface TipsterLeaderboardProps {
   initialLimit?: number;
@@ -297,6 +298,16 @@ export function TipsterLeaderboard({ initialLimit = 20 }: TipsterLeaderboardProp
             </div>
           )}
 
+          {/* Reliability history */}
+          <div className="mb-4 pt-4 border-t border-gray-200">
+            <h4 className="text-sm font-semibold text-gray-900 mb-3">Reliability History</h4>
+            <TipsterHistoryPanel
+              key={`${selectedTipster.id}:${selectedTipster.updatedAt}`}
+              tipsterId={selectedTipster.id}
+              tierLabels={tierLabels}
+            />
+          </div>
+
           {/* Actions */}
           <div className="flex items-center gap-2 pt-4 border-t border-gray-200">
             {selectedTipster.isBlocked ? (
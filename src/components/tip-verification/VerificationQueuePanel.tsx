@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Image from 'next/image';
 import { cn } from '@/lib';
 import type {
   QueueItemWithDetails,
@@ -19,6 +20,9 @@ export function VerificationQueuePanel({ onStatsChange }: VerificationQueuePanel
   const [selectedFilter, setSelectedFilter] = useState<QueueType | 'all'>('all');
   const [selectedItem, setSelectedItem] = useState<QueueItemWithDetails | null>(null);
   const [isReviewModalOpen, setIsReviewModalOpen] = useState(false);
+  const [groupByCluster, setGroupByCluster] = useState(false);
+  const [selectedClusterIds, setSelectedClusterIds] = useState<string[]>([]);
+  const [clusterError, setClusterError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchQueue();
@@ -76,6 +80,47 @@ export function VerificationQueuePanel({ onStatsChange }: VerificationQueuePanel
     }
   }
 
+  function toggleClusterSelection(clusterId: string) {
+    setSelectedClusterIds(prev =>
+      prev.includes(clusterId) ? prev.filter(id => id !== clusterId) : [...prev, clusterId]
+    );
+  }
+
+  async function updateClusters(body: Record<string, unknown>) {
+    setClusterError(null);
+    try {
+      const response = await fetch('/api/tips/verification/clusters', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        setClusterError(data.error || 'Cluster update failed');
+        return;
+      }
+      setSelectedClusterIds([]);
+      fetchQueue();
+    } catch (error) {
+      console.error('Failed to update clusters:', error);
+      setClusterError('Cluster update failed');
+    }
+  }
+
+  function handleMergeClusters() {
+    // The largest selected cluster absorbs the others
+    const sizes = new Map(items.map(item => [item.cluster?.clusterId, item.cluster?.memberCount ?? 0]));
+    const [target, ...sources] = [...selectedClusterIds].sort(
+      (a, b) => (sizes.get(b) ?? 0) - (sizes.get(a) ?? 0)
+    );
+    updateClusters({ action: 'merge', targetClusterId: target, sourceClusterIds: sources });
+  }
+
+  function handleSplitFromCluster(item: QueueItemWithDetails) {
+    if (!item.cluster) return;
+    updateClusters({ action: 'split', clusterId: item.cluster.clusterId, tipIds: [item.tipId] });
+  }
+
   function handleReviewComplete() {
     setIsReviewModalOpen(false);
     setSelectedItem(null);
@@ -98,6 +143,13 @@ export function VerificationQueuePanel({ onStatsChange }: VerificationQueuePanel
     low_priority: 'Low Priority',
   };
 
+  // Keep tips from the same sighting cluster next to each other
+  const displayedItems = groupByCluster
+    ? [...items].sort((a, b) =>
+        (a.cluster?.clusterId ?? a.tipId).localeCompare(b.cluster?.clusterId ?? b.tipId)
+      )
+    : items;
+
   if (isLoading) {
     return (
       <div className="space-y-4">
@@ -133,6 +185,23 @@ export function VerificationQueuePanel({ onStatsChange }: VerificationQueuePanel
           <option value="standard">Standard</option>
           <option value="low_priority">Low Priority</option>
         </select>
+        <label className="ml-2 inline-flex items-center gap-1.5 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={groupByCluster}
+            onChange={(e) => setGroupByCluster(e.target.checked)}
+            className="rounded border-gray-300 text-cyan-600 focus:ring-cyan-500"
+          />
+          Group by sighting cluster
+        </label>
+        {selectedClusterIds.length >= 2 && (
+          <button
+            onClick={handleMergeClusters}
+            className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+          >
+            Merge {selectedClusterIds.length} clusters
+          </button>
+        )}
         <button
           onClick={() => fetchQueue()}
           className="ml-auto inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
@@ -142,6 +211,10 @@ export function VerificationQueuePanel({ onStatsChange }: VerificationQueuePanel
         </button>
       </div>
 
+      {clusterError && (
+        <p className="text-sm text-red-600">{clusterError}</p>
+      )}
+
       {/* Queue Items */}
       {items.length === 0 ? (
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
@@ -153,145 +226,176 @@ export function VerificationQueuePanel({ onStatsChange }: VerificationQueuePanel
         </div>
       ) : (
         <div className="space-y-4">
-          {items.map((item) => (
-            <div
-              key={item.id}
-              className={cn(
-                'bg-white rounded-lg shadow-sm border border-gray-200 p-6 hover:border-cyan-300 transition-colors',
-                item.slaBreached && 'border-red-300 bg-red-50'
-              )}
-            >
-              <div className="flex items-start gap-4">
-                {/* Case Photo */}
-                <div className="flex-shrink-0">
-                  {item.case?.primaryPhotoUrl ? (
-                    <img
-                      src={item.case.primaryPhotoUrl}
-                      alt=""
-                      className="h-16 w-16 rounded-lg object-cover"
-                    />
-                  ) : (
-                    <div className="h-16 w-16 rounded-lg bg-gray-200 flex items-center justify-center">
-                      <UserIcon className="h-8 w-8 text-gray-400" />
-                    </div>
-                  )}
-                </div>
+          {displayedItems.map((item, index) => (
+            <div key={item.id}>
+              {groupByCluster &&
+                item.cluster &&
+                item.cluster.memberCount > 1 &&
+                displayedItems[index - 1]?.cluster?.clusterId !== item.cluster.clusterId && (
+                  <div className="mb-2 flex items-center gap-2 text-xs font-medium uppercase tracking-wide text-indigo-700">
+                    <ClusterIcon className="h-4 w-4" />
+                    Sighting cluster · {item.cluster.memberCount} tips
+                  </div>
+                )}
+              <div
+                className={cn(
+                  'bg-white rounded-lg shadow-sm border border-gray-200 p-6 hover:border-cyan-300 transition-colors',
+                  item.slaBreached && 'border-red-300 bg-red-50'
+                )}
+              >
+                <div className="flex items-start gap-4">
+                  {/* Case Photo */}
+                  <div className="flex-shrink-0">
+                    {item.case?.primaryPhotoUrl ? (
+                      <Image
+                        src={item.case.primaryPhotoUrl}
+                        alt=""
+                        width={64}
+                        height={64}
+                        className="h-16 w-16 rounded-lg object-cover"
+                      />
+                    ) : (
+                      <div className="h-16 w-16 rounded-lg bg-gray-200 flex items-center justify-center">
+                        <UserIcon className="h-8 w-8 text-gray-400" />
+                      </div>
+                    )}
+                  </div>
 
-                {/* Content */}
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-start justify-between gap-4">
-                    <div>
-                      <div className="flex items-center gap-2">
-                        <h3 className="text-sm font-medium text-gray-900">
-                          {item.case?.firstName} {item.case?.lastName}
-                        </h3>
-                        <span className="text-xs text-gray-500">
-                          {item.case?.caseNumber}
-                        </span>
-                        <span
+                  {/* Content */}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <h3 className="text-sm font-medium text-gray-900">
+                            {item.case?.firstName} {item.case?.lastName}
+                          </h3>
+                          <span className="text-xs text-gray-500">
+                            {item.case?.caseNumber}
+                          </span>
+                          <span
+                            className={cn(
+                              'inline-flex items-center px-2 py-0.5 rounded text-xs font-medium border',
+                              item.verification?.priorityBucket
+                                ? priorityColors[item.verification.priorityBucket]
+                                : 'bg-gray-100 text-gray-800'
+                            )}
+                          >
+                            {item.verification?.priorityBucket || 'Unknown'}
+                          </span>
+                          <span className="text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded">
+                            {queueTypeLabels[item.queueType]}
+                          </span>
+                          {item.cluster && item.cluster.memberCount > 1 && (
+                            <label className="inline-flex items-center gap-1 text-xs text-indigo-700 bg-indigo-50 border border-indigo-200 px-2 py-0.5 rounded">
+                              <input
+                                type="checkbox"
+                                checked={selectedClusterIds.includes(item.cluster.clusterId)}
+                                onChange={() => toggleClusterSelection(item.cluster!.clusterId)}
+                                className="h-3 w-3 rounded border-indigo-300 text-indigo-600 focus:ring-indigo-500"
+                              />
+                              {item.cluster.memberCount} related tips
+                            </label>
+                          )}
+                        </div>
+                        <p className="mt-1 text-sm text-gray-600 line-clamp-2">
+                          {item.tip?.content}
+                        </p>
+                      </div>
+
+                      {/* Credibility Score */}
+                      <div className="flex-shrink-0 text-center">
+                        <div
                           className={cn(
-                            'inline-flex items-center px-2 py-0.5 rounded text-xs font-medium border',
-                            item.verification?.priorityBucket
-                              ? priorityColors[item.verification.priorityBucket]
-                              : 'bg-gray-100 text-gray-800'
+                            'h-12 w-12 rounded-full flex items-center justify-center text-lg font-bold',
+                            (item.verification?.credibilityScore || 0) >= 70
+                              ? 'bg-green-100 text-green-700'
+                              : (item.verification?.credibilityScore || 0) >= 40
+                              ? 'bg-yellow-100 text-yellow-700'
+                              : 'bg-red-100 text-red-700'
                           )}
                         >
-                          {item.verification?.priorityBucket || 'Unknown'}
-                        </span>
-                        <span className="text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded">
-                          {queueTypeLabels[item.queueType]}
-                        </span>
+                          {item.verification?.credibilityScore || '?'}
+                        </div>
+                        <span className="text-xs text-gray-500">Score</span>
                       </div>
-                      <p className="mt-1 text-sm text-gray-600 line-clamp-2">
-                        {item.tip?.content}
-                      </p>
                     </div>
 
-                    {/* Credibility Score */}
-                    <div className="flex-shrink-0 text-center">
-                      <div
-                        className={cn(
-                          'h-12 w-12 rounded-full flex items-center justify-center text-lg font-bold',
-                          (item.verification?.credibilityScore || 0) >= 70
-                            ? 'bg-green-100 text-green-700'
-                            : (item.verification?.credibilityScore || 0) >= 40
-                            ? 'bg-yellow-100 text-yellow-700'
-                            : 'bg-red-100 text-red-700'
-                        )}
-                      >
-                        {item.verification?.credibilityScore || '?'}
-                      </div>
-                      <span className="text-xs text-gray-500">Score</span>
+                    {/* Meta Info */}
+                    <div className="mt-3 flex items-center gap-4 text-xs text-gray-500">
+                      {item.tip?.location && (
+                        <span className="flex items-center gap-1">
+                          <MapPinIcon className="h-3.5 w-3.5" />
+                          {item.tip.location}
+                        </span>
+                      )}
+                      {item.tip?.sightingDate && (
+                        <span className="flex items-center gap-1">
+                          <CalendarIcon className="h-3.5 w-3.5" />
+                          {new Date(item.tip.sightingDate).toLocaleDateString()}
+                        </span>
+                      )}
+                      {item.tip?.isAnonymous && (
+                        <span className="flex items-center gap-1">
+                          <EyeSlashIcon className="h-3.5 w-3.5" />
+                          Anonymous
+                        </span>
+                      )}
+                      {item.tip?.attachmentsCount > 0 && (
+                        <span className="flex items-center gap-1">
+                          <PhotoIcon className="h-3.5 w-3.5" />
+                          {item.tip.attachmentsCount} photo(s)
+                        </span>
+                      )}
+                      {item.slaBreached && (
+                        <span className="flex items-center gap-1 text-red-600 font-medium">
+                          <ExclamationIcon className="h-3.5 w-3.5" />
+                          SLA Breached
+                        </span>
+                      )}
+                      {item.slaDeadline && !item.slaBreached && (
+                        <span className="flex items-center gap-1">
+                          <ClockIcon className="h-3.5 w-3.5" />
+                          Due: {formatTimeRemaining(item.slaDeadline)}
+                        </span>
+                      )}
                     </div>
-                  </div>
 
-                  {/* Meta Info */}
-                  <div className="mt-3 flex items-center gap-4 text-xs text-gray-500">
-                    {item.tip?.location && (
-                      <span className="flex items-center gap-1">
-                        <MapPinIcon className="h-3.5 w-3.5" />
-                        {item.tip.location}
-                      </span>
-                    )}
-                    {item.tip?.sightingDate && (
-                      <span className="flex items-center gap-1">
-                        <CalendarIcon className="h-3.5 w-3.5" />
-                        {new Date(item.tip.sightingDate).toLocaleDateString()}
-                      </span>
-                    )}
-                    {item.tip?.isAnonymous && (
-                      <span className="flex items-center gap-1">
-                        <EyeSlashIcon className="h-3.5 w-3.5" />
-                        Anonymous
-                      </span>
-                    )}
-                    {item.tip?.attachmentsCount > 0 && (
-                      <span className="flex items-center gap-1">
-                        <PhotoIcon className="h-3.5 w-3.5" />
-                        {item.tip.attachmentsCount} photo(s)
-                      </span>
-                    )}
-                    {item.slaBreached && (
-                      <span className="flex items-center gap-1 text-red-600 font-medium">
-                        <ExclamationIcon className="h-3.5 w-3.5" />
-                        SLA Breached
-                      </span>
-                    )}
-                    {item.slaDeadline && !item.slaBreached && (
-                      <span className="flex items-center gap-1">
-                        <ClockIcon className="h-3.5 w-3.5" />
-                        Due: {formatTimeRemaining(item.slaDeadline)}
-                      </span>
+                    {/* Warnings */}
+                    {item.verification?.hoaxIndicators && item.verification.hoaxIndicators.length > 0 && (
+                      <div className="mt-2 flex items-center gap-2">
+                        <ExclamationTriangleIcon className="h-4 w-4 text-amber-500" />
+                        <span className="text-xs text-amber-600">
+                          {item.verification.hoaxIndicators.length} warning(s) detected
+                        </span>
+                      </div>
                     )}
-                  </div>
 
-                  {/* Warnings */}
-                  {item.verification?.hoaxIndicators && item.verification.hoaxIndicators.length > 0 && (
-                    <div className="mt-2 flex items-center gap-2">
-                      <ExclamationTriangleIcon className="h-4 w-4 text-amber-500" />
-                      <span className="text-xs text-amber-600">
-                        {item.verification.hoaxIndicators.length} warning(s) detected
-                      </span>
+                    {/* Actions */}
+                    <div className="mt-4 flex items-center gap-2">
+                      <button
+                        onClick={() => handleClaimItem(item.id)}
+                        className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-cyan-600 hover:bg-cyan-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-cyan-500"
+                      >
+                        Claim & Review
+                      </button>
+                      <button
+                        onClick={() => {
+                          setSelectedItem(item);
+                          setIsReviewModalOpen(true);
+                        }}
+                        className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        View Details
+                      </button>
+                      {item.cluster && item.cluster.memberCount > 1 && (
+                        <button
+                          onClick={() => handleSplitFromCluster(item)}
+                          className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                        >
+                          Split from Cluster
+                        </button>
+                      )}
                     </div>
-                  )}
-
-                  {/* Actions */}
-                  <div className="mt-4 flex items-center gap-2">
-                    <button
-                      onClick={() => handleClaimItem(item.id)}
-                      className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-cyan-600 hover:bg-cyan-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-cyan-500"
-                    >
-                      Claim & Review
-                    </button>
-                    <button
-                      onClick={() => {
-                        setSelectedItem(item);
-                        setIsReviewModalOpen(true);
-                      }}
-                      className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
-                    >
-                      View Details
-                    </button>
                   </div>
                 </div>
               </div>
@@ -410,6 +514,14 @@ function ClockIcon({ className }: { className?: string }) {
   );
 }
 
+function ClusterIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" d="M6.429 9.75 2.25 12l4.179 2.25m0-4.5 5.571 3 5.571-3m-11.142 0L2.25 7.5 12 2.25l9.75 5.25-4.179 2.25m0 0L21.75 12l-4.179 2.25m0 0 4.179 2.25L12 21.75 2.25 16.5l4.179-2.25m11.142 0-5.571 3-5.571-3" />
+    </svg>
+  );
+}
+
 function ExclamationTriangleIcon({ className }: { className?: string }) {
   return (
     <svg className={className} fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
@@ -2,3 +2,4 @@ export { VerificationQueuePanel } from "./VerificationQueuePanel";
 export { VerificationStatsPanel } from "./VerificationStatsPanel";
 export { TipsterLeaderboard } from "./TipsterLeaderboard";
 export { TipReviewModal } from "./TipReviewModal";
+export { TipsterHistoryPanel } from "./TipsterHistoryPanel";
@@ -12,21 +12,28 @@ import type {
   VOLUNTEER_STATUS_LABELS,
   ZONE_STATUS_LABELS,
 } from "@/types/volunteer.types";
+import type { SearchCoverageReport, SectorCoverage } from "@/types/law-enforcement.types";
 
 interface SearchPartyCoordinatorProps {
   eventId: string;
+  // Search party whose GPS track coverage is shown on the Coverage tab
+  searchPartyId?: string;
   initialData?: SearchEventDashboard;
   refreshInterval?: number;
 }
 
 export function SearchPartyCoordinator({
   eventId,
+  searchPartyId,
   initialData,
   refreshInterval = 10000,
 }: SearchPartyCoordinatorProps) {
   const [data, setData] = useState<SearchEventDashboard | null>(initialData || null);
+  const [coverage, setCoverage] = useState<SearchCoverageReport | null>(null);
   const [loading, setLoading] = useState(!initialData);
-  const [activeTab, setActiveTab] = useState<"overview" | "volunteers" | "zones" | "map" | "safety">("overview");
+  const [activeTab, setActiveTab] = useState<
+    "overview" | "volunteers" | "zones" | "coverage" | "map" | "safety"
+  >("overview");
 
   useEffect(() => {
     const fetchData = async () => {
@@ -51,6 +58,25 @@ export function SearchPartyCoordinator({
     return () => clearInterval(interval);
   }, [eventId, initialData, refreshInterval]);
 
+  useEffect(() => {
+    if (!searchPartyId) return;
+
+    const fetchCoverage = async () => {
+      try {
+        const response = await fetch(`/api/law-enforcement/search-parties/${searchPartyId}/coverage`);
+        if (response.ok) {
+          setCoverage(await response.json());
+        }
+      } catch (error) {
+        console.error("Failed to fetch search coverage:", error);
+      }
+    };
+
+    fetchCoverage();
+    const interval = setInterval(fetchCoverage, refreshInterval);
+    return () => clearInterval(interval);
+  }, [searchPartyId, refreshInterval]);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -129,6 +155,7 @@ export function SearchPartyCoordinator({
             { id: "overview", label: "Overview" },
             { id: "volunteers", label: "Volunteers" },
             { id: "zones", label: "Search Zones" },
+            ...(searchPartyId ? [{ id: "coverage", label: "Coverage" }] : []),
             { id: "map", label: "Live Map" },
             { id: "safety", label: "Safety" },
           ].map((tab) => (
@@ -151,6 +178,7 @@ export function SearchPartyCoordinator({
       {activeTab === "overview" && <OverviewTab data={data} />}
       {activeTab === "volunteers" && <VolunteersTab volunteers={data.activeVolunteers} />}
       {activeTab === "zones" && <ZonesTab zones={data.zones} />}
+      {activeTab === "coverage" && <CoverageTab report={coverage} />}
       {activeTab === "map" && (
         <MapTab
           zones={data.zones}
@@ -519,6 +547,108 @@ function ZonesTab({ zones }: { zones: SearchZone[] }) {
   );
 }
 
+function CoverageTab({ report }: { report: SearchCoverageReport | null }) {
+  if (!report) {
+    return <div className="text-center py-12 text-gray-500">Coverage not available yet</div>;
+  }
+
+  const byId = new Map(report.sectors.map((sector) => [sector.sectorId, sector]));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Re-search Next</h2>
+          <p className="text-sm text-gray-500">
+            {report.trackCount} tracks | Sweep width {report.sweepWidthMeters} m | Target POD{" "}
+            {Math.round(report.targetPod * 100)}%
+          </p>
+        </div>
+        {report.researchOrder.length === 0 ? (
+          <p className="text-sm text-gray-500">Every searched sector meets the target POD</p>
+        ) : (
+          <ol className="space-y-2">
+            {report.researchOrder.map((sectorId, i) => {
+              const sector = byId.get(sectorId)!;
+              return (
+                <li key={sectorId} className="flex items-center justify-between p-3 bg-orange-50 rounded-lg">
+                  <span className="font-medium text-gray-900">
+                    {i + 1}. {sector.sectorName}
+                  </span>
+                  <span className="text-sm text-orange-800">
+                    POD {Math.round(sector.pod * 100)}%
+                    {sector.remainingPoa !== undefined &&
+                      ` | ${(sector.remainingPoa * 100).toFixed(1)}% probability left`}
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {report.sectors.map((sector) => (
+          <div key={sector.sectorId} className="bg-white rounded-lg border border-gray-200 p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-medium text-gray-900">{sector.sectorName}</h3>
+              {sector.needsResearch && (
+                <span className="px-2 py-1 rounded text-xs font-medium bg-orange-100 text-orange-800">
+                  Re-search
+                </span>
+              )}
+            </div>
+            <CoverageHeat heat={sector.heat} />
+            <div className="mt-3 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-500">Swept</span>
+                <span className="font-medium">{Math.round(sector.coverage * 100)}%</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Probability of detection</span>
+                <span className="font-medium">{Math.round(sector.pod * 100)}%</span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${sector.pod >= report.targetPod ? "bg-green-500" : "bg-orange-400"}`}
+                  style={{ width: `${Math.round(sector.pod * 100)}%` }}
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Passes over each cell: none, one, two, three or more
+const HEAT_COLORS = ["#fee2e2", "#fde68a", "#86efac", "#16a34a"];
+
+function CoverageHeat({ heat }: { heat: SectorCoverage["heat"] }) {
+  return (
+    <svg
+      viewBox={`0 0 ${heat.columns} ${heat.rows}`}
+      preserveAspectRatio="none"
+      className="w-full h-32 rounded bg-gray-50"
+      shapeRendering="crispEdges"
+    >
+      {heat.passes.map((passes, i) =>
+        passes < 0 ? null : (
+          <rect
+            key={i}
+            x={i % heat.columns}
+            y={Math.floor(i / heat.columns)}
+            width={1}
+            height={1}
+            fill={HEAT_COLORS[Math.min(passes, HEAT_COLORS.length - 1)]}
+          />
+        )
+      )}
+    </svg>
+  );
+}
+
 function ZoneStatusBadge({ status }: { status: SearchZone["status"] }) {
   const colors = {
     unassigned: "bg-gray-100 text-gray-800",
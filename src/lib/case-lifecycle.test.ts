@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CASE_LIFECYCLE_TRANSITIONS,
+  canTransitionCaseLifecycle,
+  evaluateCaseLifecycleTransition,
+} from './case-lifecycle';
+
+describe('Case Lifecycle', () => {
+  describe('canTransitionCaseLifecycle', () => {
+    it('should derive allowed transitions from the rules', () => {
+      expect(CASE_LIFECYCLE_TRANSITIONS.open).toEqual(['inactive', 'cold', 'closed']);
+      expect(CASE_LIFECYCLE_TRANSITIONS.closed).toEqual(['open']);
+    });
+
+    it('should allow staying in the same status', () => {
+      expect(canTransitionCaseLifecycle('closed', 'closed')).toBe(true);
+      expect(canTransitionCaseLifecycle('closed', 'cold')).toBe(false);
+    });
+  });
+
+  describe('evaluateCaseLifecycleTransition', () => {
+    it('should reject transitions that are not in the rules', () => {
+      const result = evaluateCaseLifecycleTransition(
+        { from: 'closed', to: 'cold', reasonCode: 'other', notes: 'x' },
+        { hasDisposition: true, hasApprovedReopenRequest: false }
+      );
+
+      expect(result.allowed).toBe(false);
+      expect(result.errors).toEqual(['Invalid lifecycle transition from closed to cold']);
+    });
+
+    it('should require a reason code valid for the target status', () => {
+      const missing = evaluateCaseLifecycleTransition(
+        { from: 'open', to: 'cold' },
+        { hasDisposition: false, hasApprovedReopenRequest: false }
+      );
+      const wrong = evaluateCaseLifecycleTransition(
+        { from: 'open', to: 'cold', reasonCode: 'new_tip' },
+        { hasDisposition: false, hasApprovedReopenRequest: false }
+      );
+
+      expect(missing.allowed).toBe(false);
+      expect(wrong.errors[0]).toContain('not valid for cold');
+    });
+
+    it('should require notes for the "other" reason code', () => {
+      const result = evaluateCaseLifecycleTransition(
+        { from: 'open', to: 'inactive', reasonCode: 'other', notes: '  ' },
+        { hasDisposition: false, hasApprovedReopenRequest: false }
+      );
+
+      expect(result.allowed).toBe(false);
+    });
+
+    it('should block closing without a disposition record', () => {
+      const result = evaluateCaseLifecycleTransition(
+        { from: 'open', to: 'closed', reasonCode: 'resolved_with_disposition' },
+        { hasDisposition: false, hasApprovedReopenRequest: false }
+      );
+
+      expect(result.allowed).toBe(false);
+      expect(result.sideEffects).toEqual([]);
+      expect(result.errors[0]).toContain('disposition record');
+    });
+
+    it('should return side effects for an allowed transition', () => {
+      const closed = evaluateCaseLifecycleTransition(
+        { from: 'cold', to: 'closed', reasonCode: 'resolved_with_disposition' },
+        { hasDisposition: true, hasApprovedReopenRequest: false }
+      );
+      const revived = evaluateCaseLifecycleTransition(
+        { from: 'cold', to: 'revived', reasonCode: 'new_evidence' },
+        { hasDisposition: false, hasApprovedReopenRequest: false }
+      );
+
+      expect(closed.allowed).toBe(true);
+      expect(closed.sideEffects).toEqual([
+        'cancel_amber_distributions',
+        'deactivate_geofences',
+        'notify_family_liaison',
+      ]);
+      expect(revived.sideEffects).toEqual(['notify_family_liaison']);
+    });
+
+    it('should only reopen a closed case with an approved request', () => {
+      const request = { from: 'closed', to: 'open', reasonCode: 'missing_again' } as const;
+
+      const blocked = evaluateCaseLifecycleTransition(request, {
+        hasDisposition: true,
+        hasApprovedReopenRequest: false,
+      });
+      const approved = evaluateCaseLifecycleTransition(request, {
+        hasDisposition: true,
+        hasApprovedReopenRequest: true,
+      });
+
+      expect(blocked.errors).toEqual([
+        'Reopening a closed case requires an approved reopen request',
+      ]);
+      expect(approved.allowed).toBe(true);
+      expect(approved.sideEffects).toEqual(['notify_family_liaison']);
+    });
+  });
+});
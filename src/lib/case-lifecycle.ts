@@ -5,17 +5,145 @@ export type CaseLifecycleStatus =
   | "revived"
   | "closed";
 
+export type CaseLifecycleGuard = "disposition_recorded" | "reopen_authorized";
+
+export type CaseLifecycleSideEffect =
+  | "cancel_amber_distributions"
+  | "deactivate_geofences"
+  | "notify_family_liaison";
+
+export interface CaseLifecycleTransitionRule {
+  guards: CaseLifecycleGuard[];
+  sideEffects: CaseLifecycleSideEffect[];
+}
+
+/**
+ * Allowed transitions with the guards that must pass and the side
+ * effects to run once the new status is stored. Mirrors the
+ * enforce_case_lifecycle_transition trigger in the database.
+ */
+export const CASE_LIFECYCLE_RULES: Record<
+  CaseLifecycleStatus,
+  Partial<Record<CaseLifecycleStatus, CaseLifecycleTransitionRule>>
+> = {
+  open: {
+    inactive: { guards: [], sideEffects: ["notify_family_liaison"] },
+    cold: {
+      guards: [],
+      sideEffects: ["deactivate_geofences", "notify_family_liaison"],
+    },
+    closed: {
+      guards: ["disposition_recorded"],
+      sideEffects: [
+        "cancel_amber_distributions",
+        "deactivate_geofences",
+        "notify_family_liaison",
+      ],
+    },
+  },
+  inactive: {
+    cold: {
+      guards: [],
+      sideEffects: ["deactivate_geofences", "notify_family_liaison"],
+    },
+    revived: { guards: [], sideEffects: ["notify_family_liaison"] },
+    closed: {
+      guards: ["disposition_recorded"],
+      sideEffects: [
+        "cancel_amber_distributions",
+        "deactivate_geofences",
+        "notify_family_liaison",
+      ],
+    },
+  },
+  cold: {
+    revived: { guards: [], sideEffects: ["notify_family_liaison"] },
+    closed: {
+      guards: ["disposition_recorded"],
+      sideEffects: [
+        "cancel_amber_distributions",
+        "deactivate_geofences",
+        "notify_family_liaison",
+      ],
+    },
+  },
+  revived: {
+    inactive: { guards: [], sideEffects: ["notify_family_liaison"] },
+    closed: {
+      guards: ["disposition_recorded"],
+      sideEffects: [
+        "cancel_amber_distributions",
+        "deactivate_geofences",
+        "notify_family_liaison",
+      ],
+    },
+  },
+  // Reopening starts a new episode and needs a dual-authorized request
+  closed: {
+    open: { guards: ["reopen_authorized"], sideEffects: ["notify_family_liaison"] },
+  },
+};
+
 export const CASE_LIFECYCLE_TRANSITIONS: Record<
   CaseLifecycleStatus,
   CaseLifecycleStatus[]
 > = {
-  open: ["inactive", "cold", "closed"],
-  inactive: ["cold", "revived", "closed"],
-  cold: ["revived", "closed"],
-  revived: ["inactive", "closed"],
-  closed: [],
+  open: Object.keys(CASE_LIFECYCLE_RULES.open) as CaseLifecycleStatus[],
+  inactive: Object.keys(CASE_LIFECYCLE_RULES.inactive) as CaseLifecycleStatus[],
+  cold: Object.keys(CASE_LIFECYCLE_RULES.cold) as CaseLifecycleStatus[],
+  revived: Object.keys(CASE_LIFECYCLE_RULES.revived) as CaseLifecycleStatus[],
+  closed: Object.keys(CASE_LIFECYCLE_RULES.closed) as CaseLifecycleStatus[],
+};
+
+/**
+ * Reason codes accepted when moving into each status
+ */
+export const CASE_LIFECYCLE_REASON_CODES: Record<CaseLifecycleStatus, string[]> = {
+  open: ["missing_again", "disposition_error", "new_information", "other"],
+  inactive: ["no_active_leads", "awaiting_information", "resource_reallocation", "other"],
+  cold: [
+    "investigative_leads_exhausted",
+    "time_threshold_reached",
+    "review_board_decision",
+    "other",
+  ],
+  revived: [
+    "new_tip",
+    "new_evidence",
+    "family_request",
+    "anniversary_review",
+    "pattern_match",
+    "review_board_decision",
+    "other",
+  ],
+  closed: [
+    "resolved_with_disposition",
+    "duplicate_case",
+    "reported_in_error",
+    "transferred_jurisdiction",
+    "other",
+  ],
 };
 
+export interface CaseLifecycleTransitionRequest {
+  from: CaseLifecycleStatus;
+  to: CaseLifecycleStatus;
+  reasonCode?: string;
+  notes?: string;
+}
+
+// Facts gathered by the caller that guards are evaluated against
+export interface CaseLifecycleGuardFacts {
+  hasDisposition: boolean;
+  hasApprovedReopenRequest: boolean;
+}
+
+export interface CaseLifecycleEvaluation {
+  allowed: boolean;
+  errors: string[];
+  sideEffects: CaseLifecycleSideEffect[];
+}
+
 export function canTransitionCaseLifecycle(
   from: CaseLifecycleStatus,
   to: CaseLifecycleStatus
@@ -23,3 +151,58 @@ export function canTransitionCaseLifecycle(
   if (from === to) return true;
   return CASE_LIFECYCLE_TRANSITIONS[from].includes(to);
 }
+
+const GUARD_MESSAGES: Record<CaseLifecycleGuard, string> = {
+  disposition_recorded: "A disposition record is required before the case can be closed",
+  reopen_authorized: "Reopening a closed case requires an approved reopen request",
+};
+
+function checkGuard(guard: CaseLifecycleGuard, facts: CaseLifecycleGuardFacts) {
+  switch (guard) {
+    case "disposition_recorded":
+      return facts.hasDisposition;
+    case "reopen_authorized":
+      return facts.hasApprovedReopenRequest;
+  }
+}
+
+/**
+ * Evaluate a requested transition against the rules, reason codes and guards
+ */
+export function evaluateCaseLifecycleTransition(
+  request: CaseLifecycleTransitionRequest,
+  facts: CaseLifecycleGuardFacts
+): CaseLifecycleEvaluation {
+  const { from, to, reasonCode, notes } = request;
+  const rule = CASE_LIFECYCLE_RULES[from][to];
+
+  if (!rule) {
+    return {
+      allowed: false,
+      errors: [`Invalid lifecycle transition from ${from} to ${to}`],
+      sideEffects: [],
+    };
+  }
+
+  const errors: string[] = [];
+
+  if (!reasonCode) {
+    errors.push(`A reason code is required to move a case to ${to}`);
+  } else if (!CASE_LIFECYCLE_REASON_CODES[to].includes(reasonCode)) {
+    errors.push(`Reason code "${reasonCode}" is not valid for ${to}`);
+  } else if (reasonCode === "other" && !notes?.trim()) {
+    errors.push('Notes are required when the reason code is "other"');
+  }
+
+  for (const guard of rule.guards) {
+    if (!checkGuard(guard, facts)) {
+      errors.push(GUARD_MESSAGES[guard]);
+    }
+  }
+
+  return {
+    allowed: errors.length === 0,
+    errors,
+    sideEffects: errors.length === 0 ? rule.sideEffects : [],
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Coordinate Reference Systems
+ * Everything in the app is WGS84 latitude/longitude. Imports may arrive in
+ * Web Mercator or UTM (common in SAR and police mapping); these are
+ * converted on the way in. NAD83 and ETRS89 are within a metre or two of
+ * WGS84 and are taken as-is.
+ */
+
+import { GeoInterchangeError } from "./errors";
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export type CoordinateReference =
+  | { kind: "geographic"; code: string }
+  | { kind: "web-mercator"; code: string }
+  | { kind: "utm"; code: string; zone: number; south: boolean };
+
+export class CoordinateReferenceError extends GeoInterchangeError {
+  constructor(message: string) {
+    super(message);
+    this.name = "CoordinateReferenceError";
+  }
+}
+
+export const WGS84: CoordinateReference = { kind: "geographic", code: "EPSG:4326" };
+
+const GEOGRAPHIC_CODES = new Set([4326, 4269, 4258, 4617]);
+const WEB_MERCATOR_CODES = new Set([3857, 900913, 3785, 102100]);
+
+/**
+ * Resolve a CRS name such as "EPSG:32612", "urn:ogc:def:crs:EPSG::3857"
+ * or "urn:ogc:def:crs:OGC:1.3:CRS84"
+ */
+export function parseCrs(name: string): CoordinateReference {
+  const normalized = name.trim().toUpperCase();
+  if (/CRS:?84$/.test(normalized)) return WGS84;
+
+  const match = normalized.match(/EPSG:{1,2}(?:[\d.]*:)?(\d+)$/) ?? normalized.match(/^(\d+)$/);
+  const code = match ? Number(match[1]) : NaN;
+
+  if (GEOGRAPHIC_CODES.has(code)) return { kind: "geographic", code: `EPSG:${code}` };
+  if (WEB_MERCATOR_CODES.has(code)) return { kind: "web-mercator", code: `EPSG:${code}` };
+  // WGS84 UTM north 326zz / south 327zz, NAD83 UTM 269zz (zones 1-23), ETRS89 UTM 258zz
+  for (const [base, south, maxZone] of [
+    [32600, false, 60],
+    [32700, true, 60],
+    [26900, false, 23],
+    [25800, false, 60],
+  ] as const) {
+    const zone = code - base;
+    if (zone >= 1 && zone <= maxZone) return { kind: "utm", code: `EPSG:${code}`, zone, south };
+  }
+
+  throw new CoordinateReferenceError(`Unsupported coordinate reference system: ${name}`);
+}
+
+function fromWebMercator(x: number, y: number): LatLng {
+  const R = 6378137;
+  return {
+    lat: (Math.atan(Math.sinh(y / R)) * 180) / Math.PI,
+    lng: (x / R) * (180 / Math.PI),
+  };
+}
+
+/**
+ * Inverse transverse Mercator on the WGS84 ellipsoid (Snyder's series,
+ * sub-metre within a UTM zone)
+ */
+function fromUtm(easting: number, northing: number, zone: number, south: boolean): LatLng {
+  const a = 6378137;
+  const f = 1 / 298.257223563;
+  const k0 = 0.9996;
+  const e2 = f * (2 - f);
+  const ep2 = e2 / (1 - e2);
+
+  const x = easting - 500000;
+  const y = south ? northing - 10000000 : northing;
+
+  const m = y / k0;
+  const mu = m / (a * (1 - e2 / 4 - (3 * e2 ** 2) / 64 - (5 * e2 ** 3) / 256));
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+  const sin = Math.sin(phi1);
+  const cos = Math.cos(phi1);
+  const tan = Math.tan(phi1);
+  const n1 = a / Math.sqrt(1 - e2 * sin ** 2);
+  const t1 = tan ** 2;
+  const c1 = ep2 * cos ** 2;
+  const r1 = (a * (1 - e2)) / (1 - e2 * sin ** 2) ** 1.5;
+  const d = x / (n1 * k0);
+
+  const lat =
+    phi1 -
+    ((n1 * tan) / r1) *
+      (d ** 2 / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * ep2) * d ** 4) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * ep2 - 3 * c1 ** 2) * d ** 6) / 720);
+  const lng =
+    (d -
+      ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+      ((5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * ep2 + 24 * t1 ** 2) * d ** 5) / 120) /
+    cos;
+
+  return {
+    lat: (lat * 180) / Math.PI,
+    lng: (zone - 1) * 6 - 180 + 3 + (lng * 180) / Math.PI,
+  };
+}
+
+/**
+ * Convert an x/y (easting/northing or longitude/latitude) pair to WGS84
+ */
+export function toWgs84(x: number, y: number, crs: CoordinateReference): LatLng {
+  if (!Number.isFinite(x) || !Number.isFinite(y)) {
+    throw new CoordinateReferenceError("Coordinates must be numbers");
+  }
+
+  const point =
+    crs.kind === "geographic"
+      ? { lat: y, lng: x }
+      : crs.kind === "web-mercator"
+        ? fromWebMercator(x, y)
+        : fromUtm(x, y, crs.zone, crs.south);
+
+  if (Math.abs(point.lat) > 90 || Math.abs(point.lng) > 180) {
+    throw new CoordinateReferenceError(
+      crs.kind === "geographic"
+        ? `Coordinate (${x}, ${y}) is not longitude/latitude; set the file's coordinate reference system`
+        : `Coordinate (${x}, ${y}) is outside ${crs.code}`
+    );
+  }
+  return point;
+}
@@ -0,0 +1,13 @@
+/**
+ * Geo Interchange Errors
+ * Anything wrong with an uploaded file: malformed XML or JSON, unsupported
+ * coordinate systems, out-of-range coordinates or too much data. Routes
+ * answer these with 400 and the message.
+ */
+
+export class GeoInterchangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GeoInterchangeError";
+  }
+}
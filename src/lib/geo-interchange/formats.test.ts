@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+import { parseCrs, toWgs84 } from './crs';
+import { GeoInterchangeError } from './errors';
+import {
+  detectGeoFormat,
+  parseGeoJSON,
+  parseGPX,
+  parseKML,
+  toGeoJSON,
+  toGPX,
+  toKML,
+  type GeoFeature,
+} from './formats';
+
+const square: GeoFeature = {
+  name: 'Sector A1',
+  geometry: {
+    type: 'Polygon',
+    // Clockwise: must be rewound for RFC 7946
+    rings: [
+      [
+        { lat: 53.55, lng: -113.5 },
+        { lat: 53.55, lng: -113.49 },
+        { lat: 53.54, lng: -113.49 },
+        { lat: 53.54, lng: -113.5 },
+      ],
+    ],
+  },
+  properties: { priority: 1, status: 'unassigned' },
+};
+
+const route: GeoFeature = {
+  name: 'ABC 123 route',
+  geometry: {
+    type: 'LineString',
+    points: [
+      { lat: 53.5461, lng: -113.4938, time: '2026-01-17T10:00:00.000Z' },
+      { lat: 53.5561, lng: -113.5038, time: '2026-01-17T10:20:00.000Z' },
+      { lat: 53.5661, lng: -113.5138, time: '2026-01-17T10:45:00.000Z' },
+    ],
+  },
+  properties: {},
+};
+
+describe('coordinate reference systems', () => {
+  it('resolves EPSG codes, URNs and CRS84', () => {
+    expect(parseCrs('EPSG:4326').kind).toBe('geographic');
+    expect(parseCrs('urn:ogc:def:crs:OGC:1.3:CRS84').kind).toBe('geographic');
+    expect(parseCrs('urn:ogc:def:crs:EPSG::3857').kind).toBe('web-mercator');
+    expect(parseCrs('EPSG:32612')).toMatchObject({ kind: 'utm', zone: 12, south: false });
+    expect(parseCrs('EPSG:32756')).toMatchObject({ kind: 'utm', zone: 56, south: true });
+    expect(() => parseCrs('EPSG:27700')).toThrow(GeoInterchangeError);
+  });
+
+  it('converts UTM and Web Mercator to WGS84', () => {
+    // CN Tower, UTM 17N
+    const utm = toWgs84(630_084, 4_833_439, parseCrs('EPSG:32617'));
+    expect(utm.lat).toBeCloseTo(43.6426, 3);
+    expect(utm.lng).toBeCloseTo(-79.3871, 3);
+
+    const mercator = toWgs84(-12_634_072, 7_084_639, parseCrs('EPSG:3857'));
+    expect(mercator.lat).toBeCloseTo(53.546, 4);
+    expect(mercator.lng).toBeCloseTo(-113.4938, 4);
+  });
+
+  it('refuses projected coordinates read as longitude/latitude', () => {
+    expect(() => toWgs84(630_084, 4_833_439, parseCrs('EPSG:4326'))).toThrow(/coordinate reference system/);
+  });
+});
+
+describe('GeoJSON', () => {
+  it('writes RFC 7946 polygons: closed, counter-clockwise, longitude first', () => {
+    const json = toGeoJSON([square]) as { features: Array<{ geometry: { coordinates: number[][][] } }> };
+    const ring = json.features[0].geometry.coordinates[0];
+
+    expect(ring).toHaveLength(5);
+    expect(ring[0]).toEqual(ring[4]);
+    expect(ring).toContainEqual([-113.5, 53.55]);
+    let twice = 0;
+    for (let i = 0; i < ring.length - 1; i++) twice += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+    expect(twice).toBeGreaterThan(0);
+  });
+
+  it('round-trips features with per-vertex times', () => {
+    const [polygon, line] = parseGeoJSON(JSON.stringify(toGeoJSON([square, route])));
+
+    expect(polygon.name).toBe('Sector A1');
+    expect(polygon.properties).toMatchObject({ priority: 1, status: 'unassigned' });
+    expect(polygon.geometry.type === 'Polygon' && polygon.geometry.rings[0]).toHaveLength(4);
+    expect(line.geometry.type === 'LineString' && line.geometry.points.map((p) => p.time)).toEqual(
+      route.geometry.type === 'LineString' && route.geometry.points.map((p) => p.time)
+    );
+  });
+
+  it('reprojects a file that declares a legacy crs member', () => {
+    const [feature] = parseGeoJSON(
+      JSON.stringify({
+        type: 'FeatureCollection',
+        crs: { type: 'name', properties: { name: 'urn:ogc:def:crs:EPSG::32617' } },
+        features: [{ type: 'Feature', properties: { name: 'LKP' }, geometry: { type: 'Point', coordinates: [630084, 4833439] } }],
+      })
+    );
+    expect(feature.name).toBe('LKP');
+    expect(feature.geometry.type === 'Point' && feature.geometry.point.lat).toBeCloseTo(43.6426, 3);
+  });
+
+  it('applies the caller-supplied CRS when the file has none', () => {
+    const content = JSON.stringify({ type: 'Point', coordinates: [-12634072, 7084639] });
+    expect(() => parseGeoJSON(content)).toThrow(GeoInterchangeError);
+    const [feature] = parseGeoJSON(content, { crs: 'EPSG:3857' });
+    expect(feature.geometry.type === 'Point' && feature.geometry.point.lng).toBeCloseTo(-113.49, 2);
+  });
+
+  it('flattens multi-geometries and enforces limits', () => {
+    const multi = JSON.stringify({
+      type: 'Feature',
+      properties: { name: 'Two areas' },
+      geometry: {
+        type: 'MultiPolygon',
+        coordinates: [
+          [[[0, 0], [1, 0], [1, 1], [0, 0]]],
+          [[[2, 2], [3, 2], [3, 3], [2, 2]]],
+        ],
+      },
+    });
+    expect(parseGeoJSON(multi).map((f) => f.name)).toEqual(['Two areas', 'Two areas']);
+    expect(() => parseGeoJSON(multi, { maxFeatures: 1 })).toThrow(/more than 1 features/);
+    expect(() => parseGeoJSON('{"type":"Polygon","coordinates":[[[0,0],[1,1],[0,0]]]}')).toThrow(/three distinct/);
+  });
+});
+
+describe('KML', () => {
+  it('round-trips polygons, extended data and timed tracks', () => {
+    const kml = toKML([square, route], { name: 'Case <123>' });
+    expect(kml).toContain('<name>Case &lt;123&gt;</name>');
+    expect(kml).toContain('<gx:Track>');
+
+    const [polygon, line] = parseKML(kml);
+    expect(polygon.properties).toEqual({ priority: 1, status: 'unassigned' });
+    expect(polygon.geometry.type === 'Polygon' && polygon.geometry.rings[0][1]).toEqual({ lat: 53.55, lng: -113.49 });
+    expect(line.geometry.type === 'LineString' && line.geometry.points[2].time).toBe('2026-01-17T10:45:00.000Z');
+  });
+
+  it('reads placemarks nested in folders and multi-geometries', () => {
+    const features = parseKML(`<?xml version="1.0"?>
+      <kml xmlns="http://www.opengis.net/kml/2.2"><Document><Folder>
+        <Placemark><name>LKP</name><TimeStamp><when>2026-01-17T09:00:00Z</when></TimeStamp>
+          <Point><coordinates>-113.4938,53.5461,670</coordinates></Point></Placemark>
+        <Placemark><name>Roads</name><MultiGeometry>
+          <LineString><coordinates>-113.5,53.5 -113.4,53.5</coordinates></LineString>
+          <LineString><coordinates>-113.4,53.5 -113.4,53.6</coordinates></LineString>
+        </MultiGeometry></Placemark>
+      </Folder></Document></kml>`);
+
+    expect(features).toHaveLength(3);
+    expect(features[0]).toMatchObject({ name: 'LKP', time: '2026-01-17T09:00:00.000Z' });
+    expect(features[0].geometry.type === 'Point' && features[0].geometry.point.elevation).toBe(670);
+  });
+
+  it('rejects document type declarations and projected CRS options', () => {
+    const bomb = '<?xml version="1.0"?><!DOCTYPE kml [<!ENTITY a "aaaa">]><kml>&a;</kml>';
+    expect(() => parseKML(bomb)).toThrow(/Document type declarations/);
+    expect(() => parseKML(toKML([square]), { crs: 'EPSG:32612' })).toThrow(/always WGS84/);
+  });
+
+  it('rejects character references outside the XML character range', () => {
+    const kml = (name: string) => `<kml><Placemark><name>${name}</name><Point><coordinates>-113.5,53.5</coordinates></Point></Placemark></kml>`;
+    expect(parseKML(kml('Caf&#xE9; &#128205;'))[0].name).toBe('Café 📍');
+    expect(() => parseKML(kml('&#x110000;'))).toThrow(GeoInterchangeError);
+    expect(() => parseKML(kml('&#99999999999;'))).toThrow(/Invalid character reference/);
+    expect(() => parseKML(kml('&#0;'))).toThrow(/Invalid character reference/);
+  });
+
+  it('reads attribute values containing ">"', () => {
+    const features = parseKML(`<kml><Placemark><name>LKP</name>
+      <ExtendedData><Data name="speed > limit"><value>true</value></Data></ExtendedData>
+      <Point><coordinates>-113.5,53.5</coordinates></Point></Placemark></kml>`);
+    expect(features[0].properties).toEqual({ 'speed > limit': true });
+  });
+
+  it('finds placemarks in deeply nested folders', () => {
+    const depth = 50000;
+    const placemark = '<Placemark><name>Deep</name><Point><coordinates>-113.5,53.5</coordinates></Point></Placemark>';
+    const kml = `<kml>${'<Folder>'.repeat(depth)}${placemark}${'</Folder>'.repeat(depth)}</kml>`;
+    expect(parseKML(kml).map((f) => f.name)).toEqual(['Deep']);
+  });
+});
+
+describe('GPX', () => {
+  it('round-trips waypoints, tracks and polygons', () => {
+    const waypoint: GeoFeature = {
+      name: 'Sighting',
+      time: '2026-01-17T09:30:00.000Z',
+      geometry: { type: 'Point', point: { lat: 53.5461, lng: -113.4938 } },
+      properties: {},
+    };
+    const gpx = toGPX([route, square, waypoint]);
+    // Waypoints must come before tracks
+    expect(gpx.indexOf('<wpt')).toBeLessThan(gpx.indexOf('<trk>'));
+
+    const features = parseGPX(gpx);
+    expect(features.map((f) => f.geometry.type)).toEqual(['Point', 'LineString', 'Polygon']);
+    expect(features[0].time).toBe('2026-01-17T09:30:00.000Z');
+    expect(features[1].time).toBe('2026-01-17T10:00:00.000Z');
+    expect(features[2].geometry.type === 'Polygon' && features[2].geometry.rings[0]).toHaveLength(4);
+  });
+
+  it('rejects invalid latitude and longitude', () => {
+    const gpx = '<gpx version="1.1"><wpt lat="95" lon="-113"><name>x</name></wpt></gpx>';
+    expect(() => parseGPX(gpx)).toThrow(GeoInterchangeError);
+  });
+});
+
+describe('detectGeoFormat', () => {
+  it('uses the file name first, then the content', () => {
+    expect(detectGeoFormat('', 'sectors.GPX')).toBe('gpx');
+    expect(detectGeoFormat('  {"type":"FeatureCollection"}')).toBe('geojson');
+    expect(detectGeoFormat('<?xml version="1.0"?><kml xmlns="x">')).toBe('kml');
+    expect(() => detectGeoFormat('lat,lng\n1,2')).toThrow(GeoInterchangeError);
+  });
+});
@@ -0,0 +1,591 @@
+/**
+ * GeoJSON, KML and GPX
+ * Reads each format into one simple feature model (points, lines and
+ * polygons in WGS84 with their properties) and writes that model back out.
+ * Multi-geometries are flattened into one feature per part. GeoJSON is
+ * written to RFC 7946: longitude first, closed rings, counter-clockwise
+ * outer rings, no crs member.
+ */
+
+import { toWgs84, parseCrs, WGS84, type CoordinateReference, type LatLng } from "./crs";
+import { GeoInterchangeError } from "./errors";
+import { child, childText, children, descendants, escapeXml, parseXml, type XmlElement } from "./xml";
+
+export type GeoFormat = "geojson" | "kml" | "gpx";
+
+export interface GeoPoint extends LatLng {
+  elevation?: number;
+  time?: string;
+}
+
+export type GeoGeometry =
+  | { type: "Point"; point: GeoPoint }
+  | { type: "LineString"; points: GeoPoint[] }
+  // Outer ring first, then holes; rings are stored open (no repeated first point)
+  | { type: "Polygon"; rings: LatLng[][] };
+
+export interface GeoFeature {
+  name?: string;
+  description?: string;
+  time?: string;
+  geometry: GeoGeometry;
+  properties: Record<string, unknown>;
+}
+
+export interface GeoParseOptions {
+  // CRS for GeoJSON files that do not declare one; KML and GPX are always WGS84
+  crs?: string;
+  maxFeatures?: number;
+  maxPoints?: number;
+}
+
+export interface GeoWriteOptions {
+  name?: string;
+  description?: string;
+}
+
+export const GEO_CONTENT_TYPES: Record<GeoFormat, string> = {
+  geojson: "application/geo+json",
+  kml: "application/vnd.google-earth.kml+xml",
+  gpx: "application/gpx+xml",
+};
+
+export const MAX_IMPORT_FEATURES = 5000;
+export const MAX_IMPORT_POINTS = 200000;
+const COORDINATE_DECIMALS = 7;
+
+// =============================================================================
+// SHARED
+// =============================================================================
+
+class FeatureCollector {
+  readonly features: GeoFeature[] = [];
+  private points = 0;
+
+  constructor(
+    private readonly maxFeatures: number,
+    private readonly maxPoints: number
+  ) {}
+
+  add(feature: GeoFeature): void {
+    const g = feature.geometry;
+    this.points += g.type === "Point" ? 1 : g.type === "LineString" ? g.points.length : g.rings.flat().length;
+    if (this.features.length >= this.maxFeatures) {
+      throw new GeoInterchangeError(`File has more than ${this.maxFeatures} features`);
+    }
+    if (this.points > this.maxPoints) {
+      throw new GeoInterchangeError(`File has more than ${this.maxPoints} coordinates`);
+    }
+    this.features.push(feature);
+  }
+}
+
+function collector(options: GeoParseOptions): FeatureCollector {
+  return new FeatureCollector(options.maxFeatures ?? MAX_IMPORT_FEATURES, options.maxPoints ?? MAX_IMPORT_POINTS);
+}
+
+function samePoint(a: LatLng, b: LatLng): boolean {
+  return a.lat === b.lat && a.lng === b.lng;
+}
+
+// Drops the closing point and rejects rings that cannot enclose an area
+function openRing(points: LatLng[]): LatLng[] {
+  const ring = points.length > 1 && samePoint(points[0], points[points.length - 1]) ? points.slice(0, -1) : points;
+  if (ring.length < 3) throw new GeoInterchangeError("Polygon rings need at least three distinct points");
+  return ring;
+}
+
+function lineOf(points: GeoPoint[]): GeoGeometry {
+  if (points.length < 2) throw new GeoInterchangeError("Lines need at least two points");
+  return { type: "LineString", points };
+}
+
+function validTime(value: unknown): string | undefined {
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+  const parsed = new Date(value.trim());
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+function round(value: number): number {
+  const factor = 10 ** COORDINATE_DECIMALS;
+  return Math.round(value * factor) / factor;
+}
+
+// Positive for counter-clockwise rings in lng/lat
+function signedArea(ring: LatLng[]): number {
+  let twice = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    twice += a.lng * b.lat - b.lng * a.lat;
+  }
+  return twice / 2;
+}
+
+/**
+ * Work out the format from a file name, content type or the content itself
+ */
+export function detectGeoFormat(content: string, hint?: string | null): GeoFormat {
+  const h = hint?.toLowerCase() ?? "";
+  if (/geo\+json|\.geojson$|\.json$/.test(h)) return "geojson";
+  if (/kml|\.kml$/.test(h)) return "kml";
+  if (/gpx|\.gpx$/.test(h)) return "gpx";
+
+  const head = content.trimStart().slice(0, 2000);
+  if (head.startsWith("{")) return "geojson";
+  if (/<kml[\s>]/.test(head)) return "kml";
+  if (/<gpx[\s>]/.test(head)) return "gpx";
+  throw new GeoInterchangeError("Unrecognised file; expected GeoJSON, KML or GPX");
+}
+
+/**
+ * Parse any supported format into features
+ */
+export function parseGeoData(content: string, format: GeoFormat, options: GeoParseOptions = {}): GeoFeature[] {
+  switch (format) {
+    case "geojson":
+      return parseGeoJSON(content, options);
+    case "kml":
+      return parseKML(content, options);
+    case "gpx":
+      return parseGPX(content, options);
+  }
+}
+
+export function serializeGeoData(features: GeoFeature[], format: GeoFormat, options: GeoWriteOptions = {}): string {
+  switch (format) {
+    case "geojson":
+      return JSON.stringify(toGeoJSON(features, options));
+    case "kml":
+      return toKML(features, options);
+    case "gpx":
+      return toGPX(features, options);
+  }
+}
+
+function wgs84Only(format: string, options: GeoParseOptions): void {
+  if (options.crs && parseCrs(options.crs).kind !== "geographic") {
+    throw new GeoInterchangeError(`${format} coordinates are always WGS84; a projected CRS cannot be applied`);
+  }
+}
+
+// =============================================================================
+// GEOJSON
+// =============================================================================
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function geoJsonCrs(document: Json, options: GeoParseOptions): CoordinateReference {
+  const declared = isObject(document.crs) && isObject(document.crs.properties) ? document.crs.properties.name : undefined;
+  if (typeof declared === "string") return parseCrs(declared);
+  if (document.crs !== undefined && document.crs !== null) {
+    throw new GeoInterchangeError("Only named crs members are supported");
+  }
+  return options.crs ? parseCrs(options.crs) : WGS84;
+}
+
+function position(value: unknown, crs: CoordinateReference): GeoPoint {
+  if (!Array.isArray(value) || value.length < 2 || !value.every((v) => typeof v === "number")) {
+    throw new GeoInterchangeError("Positions must be arrays of at least two numbers");
+  }
+  const point: GeoPoint = toWgs84(value[0], value[1], crs);
+  if (value.length > 2 && Number.isFinite(value[2])) point.elevation = value[2];
+  return point;
+}
+
+function positions(value: unknown, crs: CoordinateReference): GeoPoint[] {
+  if (!Array.isArray(value)) throw new GeoInterchangeError("Expected an array of positions");
+  return value.map((p) => position(p, crs));
+}
+
+function geoJsonGeometries(geometry: unknown, crs: CoordinateReference): GeoGeometry[] {
+  if (!isObject(geometry)) throw new GeoInterchangeError("Feature geometry must be an object");
+  const coordinates = geometry.coordinates;
+  const many = (value: unknown) => {
+    if (!Array.isArray(value)) throw new GeoInterchangeError(`${String(geometry.type)} coordinates must be an array`);
+    return value;
+  };
+  const polygon = (rings: unknown): GeoGeometry => ({
+    type: "Polygon",
+    rings: many(rings).map((ring) => openRing(positions(ring, crs))),
+  });
+
+  switch (geometry.type) {
+    case "Point":
+      return [{ type: "Point", point: position(coordinates, crs) }];
+    case "MultiPoint":
+      return many(coordinates).map((p) => ({ type: "Point", point: position(p, crs) }));
+    case "LineString":
+      return [lineOf(positions(coordinates, crs))];
+    case "MultiLineString":
+      return many(coordinates).map((line) => lineOf(positions(line, crs)));
+    case "Polygon":
+      return [polygon(coordinates)];
+    case "MultiPolygon":
+      return many(coordinates).map(polygon);
+    case "GeometryCollection":
+      return many(geometry.geometries).flatMap((g) => geoJsonGeometries(g, crs));
+    default:
+      throw new GeoInterchangeError(`Unsupported GeoJSON geometry type: ${String(geometry.type)}`);
+  }
+}
+
+export function parseGeoJSON(content: string, options: GeoParseOptions = {}): GeoFeature[] {
+  let document: unknown;
+  try {
+    document = JSON.parse(content);
+  } catch {
+    throw new GeoInterchangeError("File is not valid JSON");
+  }
+  if (!isObject(document)) throw new GeoInterchangeError("GeoJSON must be an object");
+
+  const crs = geoJsonCrs(document, options);
+  const features =
+    document.type === "FeatureCollection"
+      ? document.features
+      : document.type === "Feature"
+        ? [document]
+        : [{ type: "Feature", geometry: document, properties: {} }];
+  if (!Array.isArray(features)) throw new GeoInterchangeError("FeatureCollection features must be an array");
+
+  const out = collector(options);
+  for (const feature of features) {
+    if (!isObject(feature) || feature.type !== "Feature") throw new GeoInterchangeError("Expected GeoJSON Features");
+    if (feature.geometry === null) continue;
+
+    const { name, title, description, time, timestamp, coordTimes, ...rest } = isObject(feature.properties)
+      ? feature.properties
+      : ({} as Json);
+    const geometries = geoJsonGeometries(feature.geometry, crs);
+    geometries.forEach((geometry, part) => {
+      // Per-vertex times in the togeojson convention
+      const times = Array.isArray(coordTimes) ? (geometries.length > 1 ? coordTimes[part] : coordTimes) : undefined;
+      if (geometry.type === "LineString" && Array.isArray(times)) {
+        geometry.points.forEach((p, i) => {
+          const t = validTime(times[i]);
+          if (t) p.time = t;
+        });
+      }
+      out.add({
+        name: typeof name === "string" ? name : typeof title === "string" ? title : undefined,
+        description: typeof description === "string" ? description : undefined,
+        time: validTime(time ?? timestamp),
+        geometry,
+        properties: { ...rest, ...(feature.id !== undefined ? { id: feature.id } : {}) },
+      });
+    });
+  }
+  return out.features;
+}
+
+export function toGeoJSON(features: GeoFeature[], options: GeoWriteOptions = {}): Json {
+  const coordinate = (p: GeoPoint) =>
+    p.elevation !== undefined ? [round(p.lng), round(p.lat), p.elevation] : [round(p.lng), round(p.lat)];
+
+  return {
+    type: "FeatureCollection",
+    ...(options.name ? { name: options.name } : {}),
+    features: features.map((feature) => {
+      const g = feature.geometry;
+      const properties: Json = { ...feature.properties };
+      if (feature.name !== undefined) properties.name = feature.name;
+      if (feature.description !== undefined) properties.description = feature.description;
+      if (feature.time !== undefined) properties.time = feature.time;
+
+      let geometry: Json;
+      if (g.type === "Point") {
+        geometry = { type: "Point", coordinates: coordinate(g.point) };
+        if (g.point.time && feature.time === undefined) properties.time = g.point.time;
+      } else if (g.type === "LineString") {
+        geometry = { type: "LineString", coordinates: g.points.map(coordinate) };
+        if (g.points.some((p) => p.time)) properties.coordTimes = g.points.map((p) => p.time ?? null);
+      } else {
+        geometry = {
+          type: "Polygon",
+          coordinates: g.rings.map((ring, i) => {
+            // Right-hand rule: exterior counter-clockwise, holes clockwise
+            const ccw = signedArea(ring) > 0;
+            const oriented = ccw === (i === 0) ? ring : [...ring].reverse();
+            return [...oriented, oriented[0]].map(coordinate);
+          }),
+        };
+      }
+      return { type: "Feature", geometry, properties };
+    }),
+  };
+}
+
+// =============================================================================
+// KML
+// =============================================================================
+
+function xmlDocument(content: string, rootName: string): XmlElement {
+  const root = parseXml(content);
+  if (root.name !== rootName) throw new GeoInterchangeError(`Expected a <${rootName}> document`);
+  return root;
+}
+
+function kmlCoordinates(text: string): GeoPoint[] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple) => {
+      const [x, y, z] = tuple.split(",").map(Number);
+      const point: GeoPoint = toWgs84(x, y, WGS84);
+      if (Number.isFinite(z)) point.elevation = z;
+      return point;
+    });
+}
+
+function kmlGeometries(element: XmlElement): GeoGeometry[] {
+  const geometries: GeoGeometry[] = [];
+  for (const node of element.children) {
+    switch (node.name) {
+      case "Point": {
+        const [point] = kmlCoordinates(childText(node, "coordinates") ?? "");
+        if (!point) throw new GeoInterchangeError("KML Point without coordinates");
+        geometries.push({ type: "Point", point });
+        break;
+      }
+      case "LineString":
+        geometries.push(lineOf(kmlCoordinates(childText(node, "coordinates") ?? "")));
+        break;
+      case "LinearRing":
+        geometries.push({ type: "Polygon", rings: [openRing(kmlCoordinates(childText(node, "coordinates") ?? ""))] });
+        break;
+      case "Polygon": {
+        const outer = descendants(child(node, "outerBoundaryIs") ?? node, "coordinates")[0];
+        if (!outer) throw new GeoInterchangeError("KML Polygon without an outer boundary");
+        const holes = children(node, "innerBoundaryIs").flatMap((b) => descendants(b, "coordinates"));
+        geometries.push({
+          type: "Polygon",
+          rings: [outer, ...holes].map((c) => openRing(kmlCoordinates(c.text))),
+        });
+        break;
+      }
+      case "Track": {
+        // gx:Track: parallel <when> and <gx:coord> lists, space separated
+        const whens = children(node, "when").map((w) => validTime(w.text));
+        const points = children(node, "coord").map((c, i) => {
+          const [x, y, z] = c.text.trim().split(/\s+/).map(Number);
+          const point: GeoPoint = toWgs84(x, y, WGS84);
+          if (Number.isFinite(z)) point.elevation = z;
+          if (whens[i]) point.time = whens[i];
+          return point;
+        });
+        geometries.push(lineOf(points));
+        break;
+      }
+      case "MultiGeometry":
+      case "MultiTrack":
+        geometries.push(...kmlGeometries(node));
+        break;
+    }
+  }
+  return geometries;
+}
+
+function kmlExtendedData(placemark: XmlElement): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  const extended = child(placemark, "ExtendedData");
+  if (!extended) return properties;
+  for (const data of descendants(extended, "Data")) {
+    if (data.attributes.name) properties[data.attributes.name] = parseScalar(childText(data, "value") ?? "");
+  }
+  for (const data of descendants(extended, "SimpleData")) {
+    if (data.attributes.name) properties[data.attributes.name] = parseScalar(data.text.trim());
+  }
+  return properties;
+}
+
+// Extended data is all text; restore numbers and booleans so round trips keep types
+function parseScalar(value: string): unknown {
+  if (value === "true" || value === "false") return value === "true";
+  if (value !== "" && /^-?\d+(\.\d+)?(e[-+]?\d+)?$/i.test(value)) return Number(value);
+  return value;
+}
+
+export function parseKML(content: string, options: GeoParseOptions = {}): GeoFeature[] {
+  wgs84Only("KML", options);
+  const root = xmlDocument(content, "kml");
+  const out = collector(options);
+
+  for (const placemark of descendants(root, "Placemark")) {
+    const timeStamp = child(placemark, "TimeStamp");
+    const timeSpan = child(placemark, "TimeSpan");
+    const time = validTime(
+      (timeStamp && childText(timeStamp, "when")) ?? (timeSpan && childText(timeSpan, "begin"))
+    );
+    for (const geometry of kmlGeometries(placemark)) {
+      out.add({
+        name: childText(placemark, "name"),
+        description: childText(placemark, "description"),
+        time,
+        geometry,
+        properties: kmlExtendedData(placemark),
+      });
+    }
+  }
+  return out.features;
+}
+
+export function toKML(features: GeoFeature[], options: GeoWriteOptions = {}): string {
+  const coordinates = (points: GeoPoint[]) =>
+    points
+      .map((p) => [round(p.lng), round(p.lat), ...(p.elevation !== undefined ? [p.elevation] : [])].join(","))
+      .join(" ");
+
+  const placemarks = features.map((feature) => {
+    const g = feature.geometry;
+    const lines: string[] = ["<Placemark>"];
+    if (feature.name) lines.push(`<name>${escapeXml(feature.name)}</name>`);
+    if (feature.description) lines.push(`<description>${escapeXml(feature.description)}</description>`);
+    if (feature.time) lines.push(`<TimeStamp><when>${feature.time}</when></TimeStamp>`);
+
+    const entries = Object.entries(feature.properties).filter(([, v]) => v !== undefined && v !== null);
+    if (entries.length > 0) {
+      lines.push("<ExtendedData>");
+      for (const [key, value] of entries) {
+        const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+        lines.push(`<Data name="${escapeXml(key)}"><value>${escapeXml(text)}</value></Data>`);
+      }
+      lines.push("</ExtendedData>");
+    }
+
+    if (g.type === "Point") {
+      lines.push(`<Point><coordinates>${coordinates([g.point])}</coordinates></Point>`);
+    } else if (g.type === "LineString" && g.points.every((p) => p.time)) {
+      // Timed routes keep their timestamps as a gx:Track
+      lines.push("<gx:Track>");
+      for (const p of g.points) lines.push(`<when>${p.time}</when>`);
+      for (const p of g.points) {
+        lines.push(`<gx:coord>${round(p.lng)} ${round(p.lat)}${p.elevation !== undefined ? ` ${p.elevation}` : ""}</gx:coord>`);
+      }
+      lines.push("</gx:Track>");
+    } else if (g.type === "LineString") {
+      lines.push(`<LineString><coordinates>${coordinates(g.points)}</coordinates></LineString>`);
+    } else {
+      const ring = (points: LatLng[]) => `<LinearRing><coordinates>${coordinates([...points, points[0]])}</coordinates></LinearRing>`;
+      lines.push("<Polygon>");
+      lines.push(`<outerBoundaryIs>${ring(g.rings[0])}</outerBoundaryIs>`);
+      for (const hole of g.rings.slice(1)) lines.push(`<innerBoundaryIs>${ring(hole)}</innerBoundaryIs>`);
+      lines.push("</Polygon>");
+    }
+    lines.push("</Placemark>");
+    return lines.join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    "<Document>",
+    ...(options.name ? [`<name>${escapeXml(options.name)}</name>`] : []),
+    ...(options.description ? [`<description>${escapeXml(options.description)}</description>`] : []),
+    ...placemarks,
+    "</Document>",
+    "</kml>",
+    "",
+  ].join("\n");
+}
+
+// =============================================================================
+// GPX
+// =============================================================================
+
+function gpxPoint(element: XmlElement): GeoPoint {
+  const point: GeoPoint = toWgs84(Number(element.attributes.lon), Number(element.attributes.lat), WGS84);
+  const elevation = Number(childText(element, "ele"));
+  if (childText(element, "ele") !== undefined && Number.isFinite(elevation)) point.elevation = elevation;
+  const time = validTime(childText(element, "time"));
+  if (time) point.time = time;
+  return point;
+}
+
+export function parseGPX(content: string, options: GeoParseOptions = {}): GeoFeature[] {
+  wgs84Only("GPX", options);
+  const root = xmlDocument(content, "gpx");
+  const out = collector(options);
+  const describe = (element: XmlElement) => ({
+    name: childText(element, "name"),
+    description: childText(element, "desc"),
+    properties: childText(element, "type") ? { type: childText(element, "type") } : {},
+  });
+
+  for (const wpt of children(root, "wpt")) {
+    const point = gpxPoint(wpt);
+    out.add({ ...describe(wpt), time: point.time, geometry: { type: "Point", point } });
+  }
+  for (const rte of children(root, "rte")) {
+    out.add({ ...describe(rte), geometry: lineOf(children(rte, "rtept").map(gpxPoint)) });
+  }
+  for (const trk of children(root, "trk")) {
+    const { properties, ...rest } = describe(trk);
+    for (const segment of children(trk, "trkseg")) {
+      const points = children(segment, "trkpt").map(gpxPoint);
+      // GPX has no polygons; closed tracks typed "polygon" are how we write them
+      const geometry: GeoGeometry =
+        properties.type === "polygon" ? { type: "Polygon", rings: [openRing(points)] } : lineOf(points);
+      out.add({ ...rest, time: points[0]?.time, geometry, properties: geometry.type === "Polygon" ? {} : properties });
+    }
+  }
+  return out.features;
+}
+
+export function toGPX(features: GeoFeature[], options: GeoWriteOptions = {}): string {
+  const point = (tag: string, p: GeoPoint) => {
+    const inner = [
+      p.elevation !== undefined ? `<ele>${p.elevation}</ele>` : "",
+      p.time ? `<time>${p.time}</time>` : "",
+    ].join("");
+    return `<${tag} lat="${round(p.lat)}" lon="${round(p.lng)}">${inner}</${tag}>`;
+  };
+  const describe = (feature: GeoFeature) =>
+    [
+      feature.name ? `<name>${escapeXml(feature.name)}</name>` : "",
+      feature.description ? `<desc>${escapeXml(feature.description)}</desc>` : "",
+    ].join("");
+
+  // GPX requires waypoints, then routes, then tracks
+  const waypoints: string[] = [];
+  const tracks: string[] = [];
+  for (const feature of features) {
+    const g = feature.geometry;
+    if (g.type === "Point") {
+      const p = { ...g.point, time: g.point.time ?? feature.time };
+      const inner = [
+        p.elevation !== undefined ? `<ele>${p.elevation}</ele>` : "",
+        p.time ? `<time>${p.time}</time>` : "",
+        describe(feature),
+      ].join("");
+      waypoints.push(`<wpt lat="${round(p.lat)}" lon="${round(p.lng)}">${inner}</wpt>`);
+    } else if (g.type === "LineString") {
+      tracks.push(`<trk>${describe(feature)}<trkseg>${g.points.map((p) => point("trkpt", p)).join("")}</trkseg></trk>`);
+    } else {
+      const ring = [...g.rings[0], g.rings[0][0]];
+      tracks.push(
+        `<trk>${describe(feature)}<type>polygon</type><trkseg>${ring.map((p) => point("trkpt", p)).join("")}</trkseg></trk>`
+      );
+    }
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="LocateConnect" xmlns="http://www.topografix.com/GPX/1/1">',
+    options.name || options.description
+      ? `<metadata>${options.name ? `<name>${escapeXml(options.name)}</name>` : ""}${
+          options.description ? `<desc>${escapeXml(options.description)}</desc>` : ""
+        }</metadata>`
+      : "",
+    ...waypoints,
+    ...tracks,
+    "</gpx>",
+    "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
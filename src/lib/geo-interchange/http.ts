@@ -0,0 +1,94 @@
+/**
+ * Geo Interchange over HTTP
+ * Uploads arrive either as multipart form data (a `file` field plus option
+ * fields) or as the raw file body with options in the query string.
+ * Downloads are sent as attachments with each format's registered type.
+ */
+
+import { NextResponse } from "next/server";
+import { GeoInterchangeError } from "./errors";
+import {
+  GEO_CONTENT_TYPES,
+  detectGeoFormat,
+  parseGeoData,
+  serializeGeoData,
+  type GeoFeature,
+  type GeoFormat,
+  type GeoParseOptions,
+  type GeoWriteOptions,
+} from "./formats";
+
+export const MAX_GEO_UPLOAD_BYTES = 10 * 1024 * 1024; // 10MB
+
+export interface GeoUpload {
+  content: string;
+  fileName?: string;
+  contentType?: string;
+  // Form fields and query parameters, for the route's own schema
+  fields: Record<string, string>;
+}
+
+export async function readGeoUpload(request: Request): Promise<GeoUpload> {
+  const { searchParams } = new URL(request.url);
+  const fields = Object.fromEntries([...searchParams].filter(([, v]) => v !== ""));
+  const contentType = request.headers.get("content-type") ?? "";
+
+  if (contentType.startsWith("multipart/form-data")) {
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!file || typeof file === "string") throw new GeoInterchangeError("No file provided");
+    if (file.size > MAX_GEO_UPLOAD_BYTES) throw new GeoInterchangeError("File size exceeds 10MB limit");
+
+    for (const [key, value] of formData) {
+      if (key !== "file" && typeof value === "string" && value !== "") fields[key] = value;
+    }
+    return { content: await file.text(), fileName: file.name, contentType: file.type, fields };
+  }
+
+  const content = await request.text();
+  if (content.length > MAX_GEO_UPLOAD_BYTES) throw new GeoInterchangeError("File size exceeds 10MB limit");
+  if (content.trim() === "") throw new GeoInterchangeError("No file provided");
+  return { content, contentType, fields };
+}
+
+/**
+ * Parse an upload, using the explicit format when given and otherwise the
+ * file name, content type and contents in that order
+ */
+export function parseGeoUpload(
+  upload: GeoUpload,
+  options: GeoParseOptions & { format?: GeoFormat } = {}
+): { format: GeoFormat; features: GeoFeature[] } {
+  const format =
+    options.format ??
+    (upload.fileName ? tryDetect(upload.content, upload.fileName) : undefined) ??
+    detectGeoFormat(upload.content, upload.contentType);
+  const features = parseGeoData(upload.content, format, options);
+  if (features.length === 0) throw new GeoInterchangeError("File contains no features");
+  return { format, features };
+}
+
+function tryDetect(content: string, hint: string): GeoFormat | undefined {
+  try {
+    return detectGeoFormat(content, hint);
+  } catch {
+    return undefined;
+  }
+}
+
+export function geoFileResponse(
+  features: GeoFeature[],
+  format: GeoFormat,
+  baseName: string,
+  options: GeoWriteOptions = {}
+): NextResponse {
+  const extension = format === "geojson" ? "geojson" : format;
+  const fileName = `${baseName.replace(/[^\w.-]+/g, "_")}.${extension}`;
+  return new NextResponse(serializeGeoData(features, format, options), {
+    status: 200,
+    headers: {
+      "Content-Type": `${GEO_CONTENT_TYPES[format]}; charset=utf-8`,
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+    },
+  });
+}
@@ -0,0 +1,62 @@
+/**
+ * Geo Interchange Module Index
+ * GeoJSON, KML and GPX import and export for geofences, search sectors,
+ * vehicle sighting routes and case map layers
+ */
+
+export { GeoInterchangeError } from "./errors";
+export { XmlParseError } from "./xml";
+export {
+  CoordinateReferenceError,
+  parseCrs,
+  toWgs84,
+  WGS84,
+  type CoordinateReference,
+  type LatLng,
+} from "./crs";
+export {
+  GEO_CONTENT_TYPES,
+  MAX_IMPORT_FEATURES,
+  MAX_IMPORT_POINTS,
+  detectGeoFormat,
+  parseGeoData,
+  parseGeoJSON,
+  parseGPX,
+  parseKML,
+  serializeGeoData,
+  toGeoJSON,
+  toGPX,
+  toKML,
+  type GeoFeature,
+  type GeoFormat,
+  type GeoGeometry,
+  type GeoParseOptions,
+  type GeoPoint,
+  type GeoWriteOptions,
+} from "./formats";
+export {
+  DEFAULT_GEOFENCE_IMPORT_OPTIONS,
+  caseMapToFeatures,
+  circlePolygon,
+  featureToGeofence,
+  featuresToCaseMapLayers,
+  featuresToSectors,
+  featuresToSightings,
+  geofenceToFeature,
+  sectorToFeature,
+  sightingsToFeatures,
+  type CaseMapLayer,
+  type CaseMapLayers,
+  type GeofenceFeatureSource,
+  type GeofenceImportOptions,
+  type ImportedCaseMapLayers,
+  type ImportedGeofence,
+  type ImportedSighting,
+} from "./mappers";
+export {
+  MAX_GEO_UPLOAD_BYTES,
+  geoFileResponse,
+  parseGeoUpload,
+  readGeoUpload,
+  type GeoUpload,
+} from "./http";
@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import { parseGeoJSON, parseKML, toGeoJSON, toKML, type GeoFeature } from './formats';
+import {
+  caseMapToFeatures,
+  circlePolygon,
+  featureToGeofence,
+  featuresToCaseMapLayers,
+  featuresToSectors,
+  featuresToSightings,
+  geofenceToFeature,
+  sectorToFeature,
+  sightingsToFeatures,
+} from './mappers';
+import type { SearchSector, VehicleSighting } from '@/types/law-enforcement.types';
+
+function distanceMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const R = 6371000;
+  const dLat = ((b.lat - a.lat) * Math.PI) / 180;
+  const dLng = ((b.lng - a.lng) * Math.PI) / 180;
+  const x =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((a.lat * Math.PI) / 180) * Math.cos((b.lat * Math.PI) / 180) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(x));
+}
+
+describe('geofences', () => {
+  it('approximates circles on export and restores them exactly on import', () => {
+    const center = { lat: 53.5461, lng: -113.4938 };
+    const feature = geofenceToFeature({
+      id: 'gf-1',
+      name: 'School zone',
+      geometry: { type: 'circle', center, radiusMeters: 750 },
+      alertType: 'entry',
+    });
+
+    expect(feature.geometry.type).toBe('Polygon');
+    for (const p of circlePolygon(center, 750)) expect(distanceMeters(center, p)).toBeCloseTo(750, 0);
+
+    // Through KML, where every property becomes text
+    const [roundTripped] = parseKML(toKML([feature]));
+    expect(featureToGeofence(roundTripped)).toEqual({
+      name: 'School zone',
+      type: 'circle',
+      geometry: { type: 'circle', center, radiusMeters: 750 },
+      alertType: 'entry',
+      expiresAt: undefined,
+    });
+  });
+
+  it('keeps the buffer on route geofences', () => {
+    const points = [
+      { lat: 53.5, lng: -113.5 },
+      { lat: 53.6, lng: -113.4 },
+    ];
+    const feature = geofenceToFeature({ name: 'Hwy 16', geometry: { type: 'route', points, bufferMeters: 250 } });
+    const [parsed] = parseGeoJSON(JSON.stringify(toGeoJSON([feature])));
+
+    expect(featureToGeofence(parsed).geometry).toEqual({ type: 'route', points, bufferMeters: 250 });
+  });
+
+  it('gives bare points and lines from other tools the default radius and buffer', () => {
+    const point: GeoFeature = { geometry: { type: 'Point', point: { lat: 1, lng: 2 } }, properties: {} };
+    const line: GeoFeature = {
+      geometry: { type: 'LineString', points: [{ lat: 1, lng: 2 }, { lat: 1.1, lng: 2.1 }] },
+      properties: {},
+    };
+
+    expect(featureToGeofence(point, { defaultRadiusMeters: 300, defaultBufferMeters: 50 }).geometry).toMatchObject({
+      type: 'circle',
+      radiusMeters: 300,
+    });
+    expect(featureToGeofence(line, { defaultRadiusMeters: 300, defaultBufferMeters: 50 }).geometry).toMatchObject({
+      type: 'route',
+      bufferMeters: 50,
+    });
+  });
+});
+
+describe('search sectors', () => {
+  const sector = (name: string, priority: number): SearchSector => ({
+    id: name,
+    name,
+    geometry: [
+      { lat: 53.5, lng: -113.5 },
+      { lat: 53.5, lng: -113.49 },
+      { lat: 53.49, lng: -113.49 },
+    ],
+    priority,
+    poa: 0.2,
+    status: 'completed',
+    findings: [],
+  });
+
+  it('imports sectors in their exported priority order as unassigned', () => {
+    const exported = [sector('Sector B1', 2), sector('Sector A1', 1)].map(sectorToFeature);
+    const sectors = featuresToSectors(parseGeoJSON(JSON.stringify(toGeoJSON(exported))));
+
+    expect(sectors.map((s) => [s.name, s.priority])).toEqual([
+      ['Sector A1', 1],
+      ['Sector B1', 2],
+    ]);
+    expect(sectors.every((s) => s.status === 'unassigned' && s.poa === 0.2)).toBe(true);
+    expect(sectors[0].id).not.toBe('Sector A1');
+  });
+
+  it('requires at least one polygon', () => {
+    const point: GeoFeature = { geometry: { type: 'Point', point: { lat: 1, lng: 2 } }, properties: {} };
+    expect(() => featuresToSectors([point])).toThrow(/no polygons/);
+  });
+});
+
+describe('vehicle sightings', () => {
+  const sighting = (id: string, timestamp: string, lat: number): VehicleSighting => ({
+    id,
+    vehicleId: 'veh-1',
+    source: 'lpr',
+    location: { lat, lng: -113.5 },
+    timestamp,
+    confidence: 92,
+    verified: true,
+  });
+
+  it('exports sightings with the route between them in time order', () => {
+    const features = sightingsToFeatures([
+      sighting('s2', '2026-01-17T11:00:00.000Z', 53.6),
+      sighting('s1', '2026-01-17T10:00:00.000Z', 53.5),
+    ]);
+
+    expect(features.map((f) => f.geometry.type)).toEqual(['Point', 'Point', 'LineString']);
+    expect(features[0].properties.sightingId).toBe('s1');
+    const line = features[2].geometry;
+    expect(line.type === 'LineString' && line.points.map((p) => p.lat)).toEqual([53.5, 53.6]);
+  });
+
+  it('imports timed points and track vertices and counts untimed ones as skipped', () => {
+    const { sightings, skipped } = featuresToSightings([
+      {
+        time: '2026-01-17T10:00:00.000Z',
+        geometry: { type: 'Point', point: { lat: 53.5, lng: -113.5 } },
+        properties: { confidence: '80' },
+      },
+      {
+        geometry: {
+          type: 'LineString',
+          points: [
+            { lat: 53.51, lng: -113.5, time: '2026-01-17T10:05:00.000Z' },
+            { lat: 53.52, lng: -113.5 },
+          ],
+        },
+        properties: {},
+      },
+    ]);
+
+    expect(sightings.map((s) => s.timestamp)).toEqual(['2026-01-17T10:00:00.000Z', '2026-01-17T10:05:00.000Z']);
+    expect(sightings[0].confidence).toBe(80);
+    expect(skipped).toBe(1);
+  });
+});
+
+describe('case map layers', () => {
+  it('exports the selected layers and imports points and polygons back', () => {
+    const features = caseMapToFeatures(
+      {
+        lastSeenLocation: { lat: 53.5461, lng: -113.4938 },
+        sightings: [
+          {
+            id: 'sight-1',
+            coordinates: { lat: 53.5561, lng: -113.5038 },
+            reportedAt: '2026-01-17T09:00:00.000Z',
+            description: 'Near LRT station',
+            confidence: 'high',
+            status: 'verified',
+          },
+        ],
+        searchAreas: [
+          {
+            id: 'area-1',
+            name: 'Primary Search Zone',
+            type: 'primary',
+            priority: 'critical',
+            status: 'in_progress',
+            coordinates: [
+              { lat: 53.5661, lng: -113.5238 },
+              { lat: 53.5661, lng: -113.4638 },
+              { lat: 53.5261, lng: -113.4638 },
+            ],
+          },
+        ],
+        resources: [],
+      },
+      ['sightings', 'searchAreas', 'lastSeen']
+    );
+    expect(features.map((f) => f.properties.layer)).toEqual(['lastSeen', 'sightings', 'searchAreas']);
+
+    const layers = featuresToCaseMapLayers(parseKML(toKML(features)));
+    expect(layers.skipped).toBe(1);
+    expect(layers.sightings).toEqual([
+      {
+        coordinates: { lat: 53.5561, lng: -113.5038 },
+        reportedAt: '2026-01-17T09:00:00.000Z',
+        description: 'Near LRT station',
+      },
+    ]);
+    expect(layers.searchAreas[0]).toMatchObject({ name: 'Primary Search Zone', type: 'primary', priority: 'critical' });
+  });
+});
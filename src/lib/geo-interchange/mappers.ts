@@ -0,0 +1,417 @@
+/**
+ * Geo Interchange Mappers
+ * Converts between the interchange feature model and the app's own shapes:
+ * geofences, search sectors, vehicle sightings and case map layers.
+ * Properties written on export are read back on import, so a file exported
+ * here and edited in Google Earth or QGIS comes back as the same objects.
+ */
+
+import type { GeofenceGeometry, SearchSector, VehicleSighting } from "@/types/law-enforcement.types";
+import type { LatLng } from "./crs";
+import { GeoInterchangeError } from "./errors";
+import type { GeoFeature, GeoPoint } from "./formats";
+
+export interface GeofenceImportOptions {
+  // For bare points and lines that carry no radius or buffer of their own
+  defaultRadiusMeters: number;
+  defaultBufferMeters: number;
+}
+
+export const DEFAULT_GEOFENCE_IMPORT_OPTIONS: GeofenceImportOptions = {
+  defaultRadiusMeters: 500,
+  defaultBufferMeters: 100,
+};
+
+const CIRCLE_VERTICES = 64;
+const EARTH_RADIUS_METERS = 6371000;
+
+function numberProperty(feature: GeoFeature, key: string): number | undefined {
+  const value = Number(feature.properties[key]);
+  return feature.properties[key] !== undefined && feature.properties[key] !== "" && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+function stringProperty(feature: GeoFeature, key: string): string | undefined {
+  const value = feature.properties[key];
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+}
+
+/**
+ * Polygon approximating a circle, for formats with no circle type
+ */
+export function circlePolygon(center: LatLng, radiusMeters: number, vertices = CIRCLE_VERTICES): LatLng[] {
+  const lat = (center.lat * Math.PI) / 180;
+  const lng = (center.lng * Math.PI) / 180;
+  const angular = radiusMeters / EARTH_RADIUS_METERS;
+
+  return Array.from({ length: vertices }, (_, i) => {
+    const bearing = (2 * Math.PI * i) / vertices;
+    const pLat = Math.asin(Math.sin(lat) * Math.cos(angular) + Math.cos(lat) * Math.sin(angular) * Math.cos(bearing));
+    const pLng =
+      lng +
+      Math.atan2(
+        Math.sin(bearing) * Math.sin(angular) * Math.cos(lat),
+        Math.cos(angular) - Math.sin(lat) * Math.sin(pLat)
+      );
+    return { lat: (pLat * 180) / Math.PI, lng: (pLng * 180) / Math.PI };
+  });
+}
+
+// =============================================================================
+// GEOFENCES
+// =============================================================================
+
+export interface GeofenceFeatureSource {
+  id?: string;
+  name: string;
+  geometry: GeofenceGeometry;
+  alertType?: string;
+  isActive?: boolean;
+  expiresAt?: string;
+}
+
+export interface ImportedGeofence {
+  name?: string;
+  type: GeofenceGeometry["type"];
+  geometry: GeofenceGeometry;
+  alertType?: "entry" | "exit" | "both";
+  expiresAt?: string;
+}
+
+export function geofenceToFeature(geofence: GeofenceFeatureSource): GeoFeature {
+  const g = geofence.geometry;
+  const properties: Record<string, unknown> = {
+    geofenceId: geofence.id,
+    geofenceType: g.type,
+    alertType: geofence.alertType,
+    isActive: geofence.isActive,
+    expiresAt: geofence.expiresAt,
+  };
+
+  if (g.type === "circle") {
+    return {
+      name: geofence.name,
+      // Circles travel as polygons; the centre and radius restore them exactly
+      geometry: { type: "Polygon", rings: [circlePolygon(g.center, g.radiusMeters)] },
+      properties: { ...properties, radiusMeters: g.radiusMeters, centerLat: g.center.lat, centerLng: g.center.lng },
+    };
+  }
+  if (g.type === "route") {
+    return {
+      name: geofence.name,
+      geometry: { type: "LineString", points: g.points.map((p) => ({ lat: p.lat, lng: p.lng })) },
+      properties: { ...properties, bufferMeters: g.bufferMeters },
+    };
+  }
+  return {
+    name: geofence.name,
+    geometry: { type: "Polygon", rings: [g.points.map((p) => ({ lat: p.lat, lng: p.lng }))] },
+    properties,
+  };
+}
+
+export function featureToGeofence(
+  feature: GeoFeature,
+  options: GeofenceImportOptions = DEFAULT_GEOFENCE_IMPORT_OPTIONS
+): ImportedGeofence {
+  const g = feature.geometry;
+  const alertType = stringProperty(feature, "alertType");
+  const base: Pick<ImportedGeofence, "name" | "alertType" | "expiresAt"> = {
+    name: feature.name,
+    alertType: alertType === "entry" || alertType === "exit" || alertType === "both" ? alertType : undefined,
+    expiresAt: stringProperty(feature, "expiresAt"),
+  };
+
+  const radiusMeters = numberProperty(feature, "radiusMeters");
+  const centerLat = numberProperty(feature, "centerLat");
+  const centerLng = numberProperty(feature, "centerLng");
+  if (stringProperty(feature, "geofenceType") === "circle" && radiusMeters && centerLat !== undefined && centerLng !== undefined) {
+    return {
+      ...base,
+      type: "circle",
+      geometry: { type: "circle", center: { lat: centerLat, lng: centerLng }, radiusMeters },
+    };
+  }
+
+  if (g.type === "Point") {
+    return {
+      ...base,
+      type: "circle",
+      geometry: {
+        type: "circle",
+        center: { lat: g.point.lat, lng: g.point.lng },
+        radiusMeters: radiusMeters ?? options.defaultRadiusMeters,
+      },
+    };
+  }
+  if (g.type === "LineString") {
+    return {
+      ...base,
+      type: "route",
+      geometry: {
+        type: "route",
+        points: g.points.map((p) => ({ lat: p.lat, lng: p.lng })),
+        bufferMeters: numberProperty(feature, "bufferMeters") ?? options.defaultBufferMeters,
+      },
+    };
+  }
+  // Geofences have no holes; only the outer boundary is used
+  return {
+    ...base,
+    type: "polygon",
+    geometry: { type: "polygon", points: g.rings[0].map((p) => ({ lat: p.lat, lng: p.lng })) },
+  };
+}
+
+// =============================================================================
+// SEARCH SECTORS
+// =============================================================================
+
+export function sectorToFeature(sector: SearchSector): GeoFeature {
+  return {
+    name: sector.name,
+    geometry: { type: "Polygon", rings: [sector.geometry.map((p) => ({ lat: p.lat, lng: p.lng }))] },
+    properties: {
+      sectorId: sector.id,
+      priority: sector.priority,
+      status: sector.status,
+      areaKm2: sector.areaKm2,
+      poa: sector.poa,
+      coverage: sector.coverage,
+      pod: sector.pod,
+      assignedTeam: sector.assignedTeam,
+    },
+  };
+}
+
+/**
+ * New, unassigned sectors from the polygons in a file. Priorities in the
+ * file are kept; sectors without one follow in file order.
+ */
+export function featuresToSectors(features: GeoFeature[]): SearchSector[] {
+  const polygons = features.filter((f) => f.geometry.type === "Polygon");
+  if (polygons.length === 0) throw new GeoInterchangeError("File contains no polygons to use as sectors");
+
+  return polygons
+    .map((feature, index) => ({ feature, index, priority: numberProperty(feature, "priority") }))
+    .sort((a, b) => (a.priority ?? Infinity) - (b.priority ?? Infinity) || a.index - b.index)
+    .map(({ feature, index }, order): SearchSector => {
+      const ring = (feature.geometry as Extract<GeoFeature["geometry"], { type: "Polygon" }>).rings[0];
+      const poa = numberProperty(feature, "poa");
+      return {
+        id: crypto.randomUUID(),
+        name: feature.name ?? `Sector ${index + 1}`,
+        geometry: ring.map((p) => ({ lat: p.lat, lng: p.lng })),
+        priority: order + 1,
+        poa: poa !== undefined && poa >= 0 && poa <= 1 ? poa : undefined,
+        status: "unassigned",
+        findings: [],
+      };
+    });
+}
+
+// =============================================================================
+// VEHICLE SIGHTINGS
+// =============================================================================
+
+export interface ImportedSighting {
+  location: { lat: number; lng: number; address?: string };
+  timestamp: string;
+  confidence?: number;
+}
+
+/**
+ * One point per sighting, plus the route between them in time order
+ */
+export function sightingsToFeatures(sightings: VehicleSighting[], routeName?: string): GeoFeature[] {
+  const ordered = [...sightings].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  const features: GeoFeature[] = ordered.map((s) => ({
+    name: s.location.address ?? `${s.source.toUpperCase()} sighting`,
+    time: s.timestamp,
+    geometry: { type: "Point", point: { lat: s.location.lat, lng: s.location.lng, time: s.timestamp } },
+    properties: {
+      sightingId: s.id,
+      source: s.source,
+      confidence: s.confidence,
+      verified: s.verified,
+      address: s.location.address,
+    },
+  }));
+
+  if (ordered.length >= 2) {
+    features.push({
+      name: routeName ?? "Sighting route",
+      geometry: {
+        type: "LineString",
+        points: ordered.map((s): GeoPoint => ({ lat: s.location.lat, lng: s.location.lng, time: s.timestamp })),
+      },
+      properties: { sightings: ordered.length },
+    });
+  }
+  return features;
+}
+
+/**
+ * Sightings from timed points and timed track vertices; anything without a
+ * time cannot be placed on the timeline and is counted as skipped
+ */
+export function featuresToSightings(features: GeoFeature[]): { sightings: ImportedSighting[]; skipped: number } {
+  const sightings: ImportedSighting[] = [];
+  let skipped = 0;
+
+  for (const feature of features) {
+    const g = feature.geometry;
+    if (g.type === "Point") {
+      const timestamp = g.point.time ?? feature.time;
+      if (!timestamp) {
+        skipped++;
+        continue;
+      }
+      const confidence = numberProperty(feature, "confidence");
+      sightings.push({
+        location: { lat: g.point.lat, lng: g.point.lng, address: stringProperty(feature, "address") },
+        timestamp,
+        confidence: confidence !== undefined && confidence >= 0 && confidence <= 100 ? confidence : undefined,
+      });
+    } else if (g.type === "LineString") {
+      for (const p of g.points) {
+        if (p.time) sightings.push({ location: { lat: p.lat, lng: p.lng }, timestamp: p.time });
+        else skipped++;
+      }
+    } else {
+      skipped++;
+    }
+  }
+  return { sightings, skipped };
+}
+
+// =============================================================================
+// CASE MAP LAYERS
+// =============================================================================
+
+export type CaseMapLayer = "lastSeen" | "sightings" | "searchAreas" | "resources";
+
+export interface CaseMapLayers {
+  lastSeenLocation: LatLng | null;
+  lastSeenAddress?: string;
+  sightings: Array<{
+    id: string;
+    coordinates: LatLng;
+    reportedAt: string;
+    description?: string;
+    confidence: string;
+    status: string;
+  }>;
+  searchAreas: Array<{
+    id: string;
+    name: string;
+    type: string;
+    priority: string;
+    status: string;
+    coordinates: LatLng[];
+    coverage?: number;
+  }>;
+  resources: Array<{
+    id: string;
+    type: string;
+    name: string;
+    coordinates: LatLng;
+    address?: string;
+    phone?: string;
+  }>;
+}
+
+/**
+ * Every case map layer as features, tagged with the layer they came from
+ */
+export function caseMapToFeatures(map: CaseMapLayers, layers?: CaseMapLayer[]): GeoFeature[] {
+  const include = (layer: CaseMapLayer) => !layers || layers.includes(layer);
+  const features: GeoFeature[] = [];
+
+  if (include("lastSeen") && map.lastSeenLocation) {
+    features.push({
+      name: "Last seen",
+      description: map.lastSeenAddress,
+      geometry: { type: "Point", point: { ...map.lastSeenLocation } },
+      properties: { layer: "lastSeen" },
+    });
+  }
+  if (include("sightings")) {
+    for (const s of map.sightings) {
+      features.push({
+        name: "Sighting",
+        description: s.description,
+        time: s.reportedAt,
+        geometry: { type: "Point", point: { ...s.coordinates } },
+        properties: { layer: "sightings", sightingId: s.id, confidence: s.confidence, status: s.status },
+      });
+    }
+  }
+  if (include("searchAreas")) {
+    for (const a of map.searchAreas) {
+      if (a.coordinates.length < 3) continue;
+      features.push({
+        name: a.name,
+        geometry: { type: "Polygon", rings: [a.coordinates.map((p) => ({ lat: p.lat, lng: p.lng }))] },
+        properties: {
+          layer: "searchAreas",
+          searchAreaId: a.id,
+          type: a.type,
+          priority: a.priority,
+          status: a.status,
+          coverage: a.coverage,
+        },
+      });
+    }
+  }
+  if (include("resources")) {
+    for (const r of map.resources) {
+      features.push({
+        name: r.name,
+        description: r.address,
+        geometry: { type: "Point", point: { ...r.coordinates } },
+        properties: { layer: "resources", resourceId: r.id, type: r.type, phone: r.phone },
+      });
+    }
+  }
+  return features;
+}
+
+export interface ImportedCaseMapLayers {
+  sightings: Array<{ coordinates: LatLng; reportedAt?: string; description?: string }>;
+  searchAreas: Array<{ name: string; coordinates: LatLng[]; type?: string; priority?: string }>;
+  // Lines, and points exported from the last-seen or resource layers
+  skipped: number;
+}
+
+/**
+ * Points become sightings and polygons become search areas
+ */
+export function featuresToCaseMapLayers(features: GeoFeature[]): ImportedCaseMapLayers {
+  const result: ImportedCaseMapLayers = { sightings: [], searchAreas: [], skipped: 0 };
+
+  for (const feature of features) {
+    const g = feature.geometry;
+    const layer = stringProperty(feature, "layer");
+    if (g.type === "Point" && (!layer || layer === "sightings")) {
+      result.sightings.push({
+        coordinates: { lat: g.point.lat, lng: g.point.lng },
+        reportedAt: feature.time ?? g.point.time,
+        description: feature.description ?? feature.name,
+      });
+    } else if (g.type === "Polygon" && (!layer || layer === "searchAreas")) {
+      result.searchAreas.push({
+        name: feature.name ?? `Imported area ${result.searchAreas.length + 1}`,
+        coordinates: g.rings[0].map((p) => ({ lat: p.lat, lng: p.lng })),
+        type: stringProperty(feature, "type"),
+        priority: stringProperty(feature, "priority"),
+      });
+    } else {
+      result.skipped++;
+    }
+  }
+  return result;
+}
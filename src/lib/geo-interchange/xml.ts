@@ -0,0 +1,171 @@
+/**
+ * Minimal XML reader and writer for KML and GPX
+ * Builds an element tree from well-formed XML. Document type declarations
+ * are refused outright, so entity expansion attacks and external entities
+ * never reach the parser.
+ */
+
+import { GeoInterchangeError } from "./errors";
+
+export interface XmlElement {
+  // Local name with any namespace prefix removed
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+export class XmlParseError extends GeoInterchangeError {
+  constructor(message: string) {
+    super(message);
+    this.name = "XmlParseError";
+  }
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+// Characters XML allows, per the Char production of XML 1.0
+function isXmlChar(code: number): boolean {
+  return (
+    code === 0x9 ||
+    code === 0xa ||
+    code === 0xd ||
+    (code >= 0x20 && code <= 0xd7ff) ||
+    (code >= 0xe000 && code <= 0xfffd) ||
+    (code >= 0x10000 && code <= 0x10ffff)
+  );
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      if (!isXmlChar(code)) throw new XmlParseError(`Invalid character reference ${match}`);
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+// Index of the ">" closing the tag opened before `from`, skipping any inside
+// quoted attribute values; -1 when the tag never closes
+function tagEnd(content: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < content.length; i++) {
+    const c = content[i];
+    if (quote) {
+      if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === ">") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(":");
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+export function parseXml(content: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [], text: "" };
+  const stack: XmlElement[] = [root];
+  let i = 0;
+
+  while (i < content.length) {
+    const lt = content.indexOf("<", i);
+    const textEnd = lt === -1 ? content.length : lt;
+    if (textEnd > i) stack[stack.length - 1].text += decodeEntities(content.slice(i, textEnd));
+    if (lt === -1) break;
+
+    if (content.startsWith("<!--", lt)) {
+      const end = content.indexOf("-->", lt + 4);
+      if (end === -1) throw new XmlParseError("Unterminated comment");
+      i = end + 3;
+    } else if (content.startsWith("<![CDATA[", lt)) {
+      const end = content.indexOf("]]>", lt + 9);
+      if (end === -1) throw new XmlParseError("Unterminated CDATA section");
+      stack[stack.length - 1].text += content.slice(lt + 9, end);
+      i = end + 3;
+    } else if (content.startsWith("<!", lt)) {
+      throw new XmlParseError("Document type declarations are not accepted");
+    } else if (content.startsWith("<?", lt)) {
+      const end = content.indexOf("?>", lt + 2);
+      if (end === -1) throw new XmlParseError("Unterminated processing instruction");
+      i = end + 2;
+    } else if (content.startsWith("</", lt)) {
+      const end = tagEnd(content, lt + 2);
+      if (end === -1) throw new XmlParseError("Unterminated closing tag");
+      const name = localName(content.slice(lt + 2, end).trim());
+      const open = stack.pop();
+      if (!open || open === root || open.name !== name) {
+        throw new XmlParseError(`Unexpected closing tag </${name}>`);
+      }
+      i = end + 1;
+    } else {
+      const end = tagEnd(content, lt + 1);
+      if (end === -1) throw new XmlParseError("Unterminated tag");
+      const selfClosing = content[end - 1] === "/";
+      const body = content.slice(lt + 1, selfClosing ? end - 1 : end);
+      const nameMatch = body.match(/^[^\s/>]+/);
+      if (!nameMatch) throw new XmlParseError("Tag without a name");
+
+      const element: XmlElement = { name: localName(nameMatch[0]), attributes: {}, children: [], text: "" };
+      const attributePattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+      for (const match of body.slice(nameMatch[0].length).matchAll(attributePattern)) {
+        element.attributes[localName(match[1])] = decodeEntities(match[3] ?? match[4]);
+      }
+
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) stack.push(element);
+      i = end + 1;
+    }
+  }
+
+  if (stack.length !== 1) throw new XmlParseError(`Unclosed element <${stack[stack.length - 1].name}>`);
+  if (root.children.length !== 1) throw new XmlParseError("Expected exactly one root element");
+  return root.children[0];
+}
+
+export function child(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((c) => c.name === name);
+}
+
+export function children(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((c) => c.name === name);
+}
+
+// Every descendant with the name, in document order. Walks with its own stack
+// so deeply nested documents cannot overflow the call stack.
+export function descendants(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  const pending = [...element.children].reverse();
+  while (pending.length > 0) {
+    const node = pending.pop()!;
+    if (node.name === name) found.push(node);
+    for (let i = node.children.length - 1; i >= 0; i--) pending.push(node.children[i]);
+  }
+  return found;
+}
+
+export function childText(element: XmlElement, name: string): string | undefined {
+  const text = child(element, name)?.text.trim();
+  return text ? text : undefined;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
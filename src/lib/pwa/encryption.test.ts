@@ -0,0 +1,81 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import {
+  generateDataKey,
+  isSecureStorageUnlocked,
+  openRecord,
+  packValue,
+  sealRecord,
+  SecureStorageLockedError,
+  setDataKey,
+  unpackValue,
+  unwrapDataKey,
+  wrapDataKey,
+} from './encryption';
+
+const sessionSecret = new TextEncoder().encode('session-key-material');
+
+afterEach(() => setDataKey(null));
+
+describe('packValue', () => {
+  it('round-trips JSON with blobs at any depth', async () => {
+    const value = {
+      tipContent: 'Seen near the bus depot',
+      media: [
+        { type: 'image', blob: new Blob(['first'], { type: 'image/jpeg' }), filename: 'a.jpg' },
+        { type: 'audio', blob: new Blob(['second clip'], { type: 'audio/webm' }), filename: 'b.webm' },
+      ],
+    };
+
+    const packed = await packValue(value);
+    const restored = unpackValue<typeof value>(packed.buffer);
+
+    expect(restored.tipContent).toBe(value.tipContent);
+    expect(restored.media[1].blob).toBeInstanceOf(Blob);
+    expect(restored.media[1].blob.type).toBe('audio/webm');
+    expect(await restored.media[0].blob.text()).toBe('first');
+    expect(await restored.media[1].blob.text()).toBe('second clip');
+  });
+});
+
+describe('sealRecord', () => {
+  it('refuses to read or write while locked', async () => {
+    expect(isSecureStorageUnlocked()).toBe(false);
+    await expect(sealRecord({ id: 'case-1', data: {} }, ['id'])).rejects.toBeInstanceOf(SecureStorageLockedError);
+  });
+
+  it('keeps only the listed fields readable', async () => {
+    setDataKey(await generateDataKey());
+    const note = { id: 4, caseId: 'case-1', createdAt: 100, transcript: 'Subject wore a red jacket' };
+
+    const sealed = await sealRecord(note, ['id', 'caseId', 'createdAt']);
+    expect(Object.keys(sealed).sort()).toEqual(['caseId', 'createdAt', 'id', 'sealed']);
+    expect(new TextDecoder().decode(sealed.sealed.data)).not.toContain('red jacket');
+
+    expect(await openRecord<typeof note>(sealed)).toEqual(note);
+  });
+
+  it('cannot be opened with another key', async () => {
+    setDataKey(await generateDataKey());
+    const sealed = await sealRecord({ id: 'case-1', data: { name: 'Jane' } }, ['id']);
+
+    setDataKey(await generateDataKey());
+    await expect(openRecord(sealed)).rejects.toThrow();
+  });
+});
+
+describe('wrapDataKey', () => {
+  it('unwraps only with the secret it was wrapped with', async () => {
+    const key = await generateDataKey();
+    const wrapped = await wrapDataKey(key, sessionSecret);
+
+    setDataKey(key);
+    const sealed = await sealRecord({ id: 1, body: 'tip' }, ['id']);
+
+    const unwrapped = await unwrapDataKey(wrapped, sessionSecret);
+    expect(unwrapped.extractable).toBe(false);
+    setDataKey(unwrapped);
+    expect(await openRecord(sealed)).toEqual({ id: 1, body: 'tip' });
+
+    await expect(unwrapDataKey(wrapped, new TextEncoder().encode('other-user'))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Encryption for sensitive records kept in IndexedDB
+ * Records are sealed with an AES-GCM data key that only lives in memory
+ * while storage is unlocked; the key is stored wrapped by keys derived from
+ * the officer's session or WebAuthn credential (see secure-storage.ts)
+ * LC-FEAT-031: Mobile App Companion
+ */
+
+const WRAPPING_INFO = new TextEncoder().encode('locateconnect-offline-data-key');
+const BLOB_TAG = '__blob';
+
+export interface SealedPayload {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+// Fields left in plaintext so stores can still be keyed, indexed and purged while locked
+export type SealedRecord<T, K extends keyof T> = Pick<T, K> & { sealed: SealedPayload };
+
+export interface WrappedKey {
+  wrappedKey: ArrayBuffer;
+  iv: Uint8Array;
+  salt: Uint8Array;
+}
+
+export class SecureStorageLockedError extends Error {
+  constructor(message = 'Offline data is locked; sign in or unlock with biometrics') {
+    super(message);
+    this.name = 'SecureStorageLockedError';
+  }
+}
+
+let dataKey: CryptoKey | null = null;
+
+export function setDataKey(key: CryptoKey | null): void {
+  dataKey = key;
+}
+
+export function isSecureStorageUnlocked(): boolean {
+  return dataKey !== null;
+}
+
+function requireDataKey(): CryptoKey {
+  if (!dataKey) throw new SecureStorageLockedError();
+  return dataKey;
+}
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+// ============================================
+// Data keys
+// ============================================
+
+/**
+ * Create a new data key. It is extractable only so it can be wrapped;
+ * the copy kept in memory is always unwrapped as non-extractable.
+ */
+export function generateDataKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+async function deriveWrappingKey(secret: BufferSource, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: WRAPPING_INFO },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+/**
+ * Wrap a data key with a key derived from session key material or a WebAuthn PRF output
+ */
+export async function wrapDataKey(key: CryptoKey, secret: BufferSource): Promise<WrappedKey> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const wrappingKey = await deriveWrappingKey(secret, salt);
+  const wrappedKey = await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: 'AES-GCM', iv });
+  return { wrappedKey, iv, salt };
+}
+
+/**
+ * Unwrap a data key; fails if the secret is not the one it was wrapped with
+ */
+export async function unwrapDataKey(
+  wrapped: WrappedKey,
+  secret: BufferSource,
+  extractable = false
+): Promise<CryptoKey> {
+  const wrappingKey = await deriveWrappingKey(secret, new Uint8Array(wrapped.salt));
+  return crypto.subtle.unwrapKey(
+    'raw',
+    wrapped.wrappedKey,
+    wrappingKey,
+    { name: 'AES-GCM', iv: new Uint8Array(wrapped.iv) },
+    { name: 'AES-GCM', length: 256 },
+    extractable,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// ============================================
+// Serialization
+// ============================================
+
+/**
+ * Serialize a value to bytes. Blobs (photos, audio) are appended after the
+ * JSON and replaced by their offset, size and type.
+ */
+export async function packValue(value: unknown): Promise<Uint8Array<ArrayBuffer>> {
+  const blobs: Blob[] = [];
+  let offset = 0;
+  const json = JSON.stringify(value ?? null, (_key, v: unknown) => {
+    if (v instanceof Blob) {
+      blobs.push(v);
+      const ref = { [BLOB_TAG]: offset, size: v.size, type: v.type };
+      offset += v.size;
+      return ref;
+    }
+    return v;
+  });
+
+  const jsonBytes = new TextEncoder().encode(json);
+  const parts = await Promise.all(blobs.map((blob) => blob.arrayBuffer()));
+  const packed = new Uint8Array(4 + jsonBytes.byteLength + offset);
+  new DataView(packed.buffer).setUint32(0, jsonBytes.byteLength);
+  packed.set(jsonBytes, 4);
+
+  let position = 4 + jsonBytes.byteLength;
+  for (const part of parts) {
+    packed.set(new Uint8Array(part), position);
+    position += part.byteLength;
+  }
+  return packed;
+}
+
+export function unpackValue<T = unknown>(packed: ArrayBuffer): T {
+  const view = new DataView(packed);
+  const jsonLength = view.getUint32(0);
+  const blobStart = 4 + jsonLength;
+  const json = new TextDecoder().decode(new Uint8Array(packed, 4, jsonLength));
+
+  return JSON.parse(json, (_key, v: unknown) => {
+    if (v && typeof v === 'object' && BLOB_TAG in v) {
+      const ref = v as { [BLOB_TAG]: number; size: number; type: string };
+      const start = blobStart + ref[BLOB_TAG];
+      return new Blob([packed.slice(start, start + ref.size)], { type: ref.type });
+    }
+    return v;
+  }) as T;
+}
+
+// ============================================
+// Records
+// ============================================
+
+/**
+ * Encrypt everything in a record except the listed plaintext fields
+ */
+export async function sealRecord<T extends object, K extends keyof T>(
+  record: T,
+  plainFields: readonly K[]
+): Promise<SealedRecord<T, K>> {
+  const key = requireDataKey();
+  const plain: Partial<T> = {};
+  const secret: Partial<T> = {};
+  for (const field of Object.keys(record) as Array<keyof T>) {
+    if ((plainFields as readonly (keyof T)[]).includes(field)) {
+      plain[field] = record[field];
+    } else {
+      secret[field] = record[field];
+    }
+  }
+
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, await packValue(secret));
+  return { ...(plain as Pick<T, K>), sealed: { iv, data } };
+}
+
+/**
+ * Decrypt a sealed record back into its full shape
+ */
+export async function openRecord<T>(record: { sealed: SealedPayload }): Promise<T> {
+  const key = requireDataKey();
+  const { sealed, ...plain } = record;
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: new Uint8Array(sealed.iv) }, key, sealed.data);
+  return { ...unpackValue<object>(data), ...plain } as T;
+}
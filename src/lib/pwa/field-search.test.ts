@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { ONLINE_TILE_TEMPLATE, planTileDownload, resolveSectorConflict, tileUrl, tilesForBounds } from './field-search';
+
+// A search area roughly 2 km across in Edmonton's river valley
+const area = [
+  { lat: 53.54, lng: -113.52 },
+  { lat: 53.55, lng: -113.49 },
+];
+
+describe('map tiles', () => {
+  it('covers the bounding box with a margin of tiles', () => {
+    // Edmonton at zoom 12: column 756, rows 1323-1324
+    const tiles = tilesForBounds(area, 12, 0);
+    expect(tiles.every((t) => t.z === 12)).toBe(true);
+    expect(new Set(tiles.map((t) => t.x))).toEqual(new Set([756]));
+    expect(tiles.map((t) => t.y).sort()).toEqual([1323, 1324]);
+
+    expect(tilesForBounds(area, 12)).toHaveLength(12);
+    expect(tilesForBounds([], 12)).toEqual([]);
+  });
+
+  it('drops the most detailed zoom levels to stay within budget', () => {
+    const full = planTileDownload(area, { minZoom: 12, maxZoom: 17, maxTiles: 100_000 });
+    expect(full.maxZoom).toBe(17);
+    expect(full.truncated).toBe(false);
+
+    const limited = planTileDownload(area, { minZoom: 12, maxZoom: 17, maxTiles: 100 });
+    expect(limited.tiles.length).toBeLessThanOrEqual(100);
+    expect(limited.maxZoom).toBeLessThan(17);
+    expect(limited.truncated).toBe(true);
+    expect(Math.max(...limited.tiles.map((t) => t.z))).toBe(limited.maxZoom);
+
+    // The least detailed level is always kept
+    expect(planTileDownload(area, { minZoom: 12, maxZoom: 17, maxTiles: 1 }).maxZoom).toBe(12);
+  });
+
+  it('expands URLs with the subdomain Leaflet would choose', () => {
+    expect(tileUrl(ONLINE_TILE_TEMPLATE, { x: 756, y: 1323, z: 12 })).toBe(
+      'https://a.tile.openstreetmap.org/12/756/1323.png'
+    );
+    expect(tileUrl(ONLINE_TILE_TEMPLATE, { x: 1, y: 1, z: 3 })).toBe('https://c.tile.openstreetmap.org/3/1/1.png');
+  });
+});
+
+describe('resolveSectorConflict', () => {
+  it('treats a server that already has the local status as applied', () => {
+    expect(resolveSectorConflict({ status: 'in_progress' }, { status: 'in_progress' })).toEqual({ action: 'applied' });
+  });
+
+  it('accepts completion on the server', () => {
+    expect(resolveSectorConflict({ status: 'in_progress', team: 'A' }, { status: 'completed', assignedTeam: 'A' })).toEqual({
+      action: 'accept-server',
+    });
+  });
+
+  it('replays progress made offline on top of the server status', () => {
+    expect(resolveSectorConflict({ status: 'completed', team: 'A' }, { status: 'in_progress', assignedTeam: 'A' })).toEqual({
+      action: 'retry',
+      expectedStatus: 'in_progress',
+    });
+  });
+
+  it('asks a person when the sector was given to another team or would move backwards', () => {
+    expect(resolveSectorConflict({ status: 'completed', team: 'A' }, { status: 'assigned', assignedTeam: 'B' })).toEqual({
+      action: 'conflict',
+    });
+    expect(resolveSectorConflict({ status: 'assigned', team: 'A' }, { status: 'in_progress', assignedTeam: 'A' })).toEqual({
+      action: 'conflict',
+    });
+  });
+});
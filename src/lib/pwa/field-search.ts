@@ -0,0 +1,742 @@
+/**
+ * Offline field search mode
+ * Pre-downloads a search party's sectors and map tiles, records findings,
+ * photos and GPS tracks while offline, and reconciles them through the sync
+ * queue when connectivity returns
+ */
+
+import type { FieldSearchPack, SearchSector } from '@/types/law-enforcement.types';
+import {
+  STORES,
+  addToStore,
+  deleteFromStore,
+  getByIndex,
+  getFromStore,
+  getPendingSyncItems,
+  incrementSyncRetry,
+  queueForSync,
+  updateInStore,
+  type FieldFinding,
+  type FieldSearchPackRecord,
+  type FieldSectorConflict,
+  type FieldTrack,
+  type SyncQueueItem,
+} from './indexeddb';
+import { registerBackgroundSync } from './service-worker';
+
+// Must match TILE_CACHE in public/sw.js, which serves these tiles offline
+export const FIELD_TILE_CACHE = 'locateconnect-tiles-v1';
+// Tile server field packs pre-download from. The OpenStreetMap tile policy
+// forbids bulk downloads, so this must be a server that allows them; while
+// it is unset, field packs are downloaded without map tiles.
+export const OFFLINE_TILE_TEMPLATE = process.env.NEXT_PUBLIC_OFFLINE_TILE_URL || null;
+// Shown while online when no offline tile server is configured
+export const ONLINE_TILE_TEMPLATE = 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+const DEFAULT_MIN_ZOOM = 12;
+const DEFAULT_MAX_ZOOM = 17;
+const DEFAULT_MAX_TILES = 1500;
+const TILE_DOWNLOAD_CONCURRENCY = 4;
+
+// A track is closed and synced in chunks so one upload never grows unbounded
+export const MAX_TRACK_POINTS = 500;
+const TRACK_JOIN_WINDOW_MS = 2 * 60 * 1000;
+
+// Identifies which local record a queued request belongs to
+const OPERATION_HEADER = 'X-Field-Operation';
+
+export interface TileCoordinate {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface TileDownloadPlan {
+  tiles: TileCoordinate[];
+  minZoom: number;
+  maxZoom: number;
+  // Zoom levels dropped to stay within the tile budget
+  truncated: boolean;
+}
+
+export interface FieldPackDownloadOptions {
+  volunteerId?: string;
+  minZoom?: number;
+  maxZoom?: number;
+  maxTiles?: number;
+  onProgress?: (progress: { done: number; total: number; failed: number }) => void;
+}
+
+export interface FieldSyncResult {
+  synced: number;
+  pending: number;
+  rejected: number;
+  conflicts: FieldSectorConflict[];
+  offline: boolean;
+}
+
+export type SectorConflictResolution =
+  | { action: 'applied' }
+  | { action: 'retry'; expectedStatus: SearchSector['status'] }
+  | { action: 'accept-server' }
+  | { action: 'conflict' };
+
+// =============================================================================
+// Map Tiles
+// =============================================================================
+
+function lngToTileX(lng: number, z: number): number {
+  const n = 2 ** z;
+  return Math.min(n - 1, Math.max(0, Math.floor(((lng + 180) / 360) * n)));
+}
+
+function latToTileY(lat: number, z: number): number {
+  const n = 2 ** z;
+  const clamped = Math.max(-85.0511, Math.min(85.0511, lat));
+  const rad = (clamped * Math.PI) / 180;
+  const y = Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * n);
+  return Math.min(n - 1, Math.max(0, y));
+}
+
+/**
+ * Tiles covering the bounding box of the given points at one zoom level,
+ * with a margin of `padding` tiles on every side
+ */
+export function tilesForBounds(
+  points: Array<{ lat: number; lng: number }>,
+  z: number,
+  padding = 1
+): TileCoordinate[] {
+  if (points.length === 0) return [];
+
+  const lats = points.map((p) => p.lat);
+  const lngs = points.map((p) => p.lng);
+  const max = 2 ** z - 1;
+  const minX = Math.max(0, lngToTileX(Math.min(...lngs), z) - padding);
+  const maxX = Math.min(max, lngToTileX(Math.max(...lngs), z) + padding);
+  // Tile rows count down from the north
+  const minY = Math.max(0, latToTileY(Math.max(...lats), z) - padding);
+  const maxY = Math.min(max, latToTileY(Math.min(...lats), z) + padding);
+
+  const tiles: TileCoordinate[] = [];
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      tiles.push({ x, y, z });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Choose the tiles to download for an area. Each zoom level roughly
+ * quadruples the count, so the most detailed levels are dropped until the
+ * plan fits the budget.
+ */
+export function planTileDownload(
+  points: Array<{ lat: number; lng: number }>,
+  options: { minZoom?: number; maxZoom?: number; maxTiles?: number } = {}
+): TileDownloadPlan {
+  const minZoom = options.minZoom ?? DEFAULT_MIN_ZOOM;
+  const requestedMax = Math.max(minZoom, options.maxZoom ?? DEFAULT_MAX_ZOOM);
+  const maxTiles = options.maxTiles ?? DEFAULT_MAX_TILES;
+
+  const byZoom: TileCoordinate[][] = [];
+  for (let z = minZoom; z <= requestedMax; z++) {
+    byZoom.push(tilesForBounds(points, z));
+  }
+
+  let maxZoom = requestedMax;
+  let total = byZoom.reduce((sum, tiles) => sum + tiles.length, 0);
+  while (total > maxTiles && maxZoom > minZoom) {
+    total -= byZoom.pop()!.length;
+    maxZoom--;
+  }
+
+  return { tiles: byZoom.flat(), minZoom, maxZoom, truncated: maxZoom < requestedMax };
+}
+
+/**
+ * Expand a tile URL template the way Leaflet does, so cached tiles are
+ * found under the exact URL the map requests
+ */
+export function tileUrl(template: string, tile: TileCoordinate, subdomains = 'abc'): string {
+  const s = subdomains[Math.abs(tile.x + tile.y) % subdomains.length];
+  return template
+    .replace('{s}', s)
+    .replace('{z}', String(tile.z))
+    .replace('{x}', String(tile.x))
+    .replace('{y}', String(tile.y));
+}
+
+async function cacheTiles(
+  urls: string[],
+  onProgress?: FieldPackDownloadOptions['onProgress']
+): Promise<{ cached: number; failed: number }> {
+  const cache = await caches.open(FIELD_TILE_CACHE);
+  const queue = [...urls];
+  let done = 0;
+  let failed = 0;
+
+  const worker = async () => {
+    for (let url = queue.shift(); url; url = queue.shift()) {
+      try {
+        if (!(await cache.match(url))) {
+          const response = await fetch(url, { mode: 'cors' });
+          if (response.ok) {
+            await cache.put(url, response);
+          } else {
+            failed++;
+          }
+        }
+      } catch {
+        failed++;
+      }
+      done++;
+      onProgress?.({ done, total: urls.length, failed });
+    }
+  };
+
+  await Promise.all(Array.from({ length: TILE_DOWNLOAD_CONCURRENCY }, worker));
+  return { cached: urls.length - failed, failed };
+}
+
+// =============================================================================
+// Field Pack
+// =============================================================================
+
+function partyUrl(partyId: string, path: string): string {
+  return `/api/law-enforcement/search-parties/${encodeURIComponent(partyId)}/${path}`;
+}
+
+// Offline status changes stay visible until the server has accepted them
+function withPendingStatus(record: FieldSearchPackRecord, sectors: SearchSector[]): SearchSector[] {
+  return sectors.map((sector) => {
+    const pending = record.pendingSectorStatus[sector.id];
+    return pending ? { ...sector, status: pending.status } : sector;
+  });
+}
+
+/**
+ * Download the search party's field pack and the map tiles covering its
+ * search area, ready for use without a connection
+ */
+export async function downloadFieldPack(
+  partyId: string,
+  options: FieldPackDownloadOptions = {}
+): Promise<FieldSearchPackRecord> {
+  const query = options.volunteerId ? `?volunteerId=${encodeURIComponent(options.volunteerId)}` : '';
+  const response = await fetch(partyUrl(partyId, `field-pack${query}`));
+  if (!response.ok) {
+    throw new Error(`Failed to download field pack: ${response.status}`);
+  }
+  const pack: FieldSearchPack = await response.json();
+
+  const points = [...pack.searchArea, ...pack.sectors.flatMap((s) => s.geometry)];
+  const template = OFFLINE_TILE_TEMPLATE;
+  const plan = template
+    ? planTileDownload(points, options)
+    : { tiles: [], minZoom: options.minZoom ?? DEFAULT_MIN_ZOOM, maxZoom: options.maxZoom ?? DEFAULT_MAX_ZOOM };
+  const { failed } = template
+    ? await cacheTiles(
+        plan.tiles.map((tile) => tileUrl(template, tile)),
+        options.onProgress
+      )
+    : { failed: 0 };
+
+  const existing = await getFromStore(STORES.FIELD_SEARCH_PACKS, partyId);
+  const record: FieldSearchPackRecord = {
+    searchPartyId: partyId,
+    pack,
+    pendingSectorStatus: existing?.pendingSectorStatus ?? {},
+    conflicts: existing?.conflicts ?? [],
+    tiles: {
+      template: template ?? ONLINE_TILE_TEMPLATE,
+      minZoom: plan.minZoom,
+      maxZoom: plan.maxZoom,
+      count: plan.tiles.length,
+      failed,
+    },
+    downloadedAt: Date.now(),
+    refreshedAt: Date.now(),
+  };
+  record.pack = { ...pack, sectors: withPendingStatus(record, pack.sectors) };
+
+  await updateInStore(STORES.FIELD_SEARCH_PACKS, record);
+  return record;
+}
+
+/**
+ * Get a downloaded field pack
+ */
+export async function getFieldPack(partyId: string): Promise<FieldSearchPackRecord | undefined> {
+  return getFromStore(STORES.FIELD_SEARCH_PACKS, partyId);
+}
+
+/**
+ * Change a sector's status locally; it is sent when the party next syncs
+ */
+export async function setSectorStatusOffline(
+  partyId: string,
+  sectorId: string,
+  status: SearchSector['status']
+): Promise<FieldSearchPackRecord> {
+  const record = await getFromStore(STORES.FIELD_SEARCH_PACKS, partyId);
+  const sector = record?.pack.sectors.find((s) => s.id === sectorId);
+  if (!record || !sector) {
+    throw new Error('Sector is not in the downloaded field pack');
+  }
+
+  // The base stays the last status seen from the server across repeated edits
+  const baseStatus = record.pendingSectorStatus[sectorId]?.baseStatus ?? sector.status;
+  if (status === baseStatus) {
+    delete record.pendingSectorStatus[sectorId];
+  } else {
+    record.pendingSectorStatus[sectorId] = { status, baseStatus, changedAt: Date.now(), queued: false };
+  }
+  record.conflicts = record.conflicts.filter((c) => c.sectorId !== sectorId);
+  sector.status = status;
+
+  await updateInStore(STORES.FIELD_SEARCH_PACKS, record);
+  return record;
+}
+
+// =============================================================================
+// Findings and Tracks
+// =============================================================================
+
+/**
+ * Record a finding, with any photos, for later sync
+ */
+export async function logFieldFinding(
+  finding: Omit<FieldFinding, 'id' | 'clientId' | 'createdAt' | 'syncState' | 'syncError'>
+): Promise<FieldFinding> {
+  const entry: FieldFinding = {
+    ...finding,
+    clientId: crypto.randomUUID(),
+    createdAt: Date.now(),
+    syncState: 'pending',
+  };
+  entry.id = (await addToStore(STORES.FIELD_FINDINGS, entry)) as number;
+  return entry;
+}
+
+/**
+ * Append a GPS fix to the volunteer's open track, starting a new track when
+ * there is none or the latest one is full or already queued for sync
+ */
+export async function recordTrackPoint(
+  partyId: string,
+  volunteerId: string,
+  point: FieldTrack['points'][number],
+  sectorId?: string
+): Promise<FieldTrack> {
+  const tracks = await getByIndex(STORES.FIELD_TRACKS, 'searchPartyId', partyId);
+  const latest = tracks
+    .filter((t) => t.volunteerId === volunteerId && t.sectorId === sectorId)
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+
+  if (latest && !latest.closed && latest.points.length < MAX_TRACK_POINTS) {
+    latest.points.push(point);
+    latest.updatedAt = Date.now();
+    latest.closed = latest.points.length >= MAX_TRACK_POINTS;
+    await updateInStore(STORES.FIELD_TRACKS, latest);
+    return latest;
+  }
+
+  // Continue from the last fix so consecutive chunks join up, unless tracking was paused
+  const previous = latest && Date.now() - latest.updatedAt <= TRACK_JOIN_WINDOW_MS ? latest : undefined;
+  const track: FieldTrack = {
+    clientId: crypto.randomUUID(),
+    searchPartyId: partyId,
+    volunteerId,
+    sectorId,
+    points: previous ? [previous.points[previous.points.length - 1], point] : [point],
+    closed: false,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    syncState: 'pending',
+  };
+  track.id = (await addToStore(STORES.FIELD_TRACKS, track)) as number;
+  return track;
+}
+
+/**
+ * Close the volunteer's open tracks, e.g. when they stop tracking or change sector
+ */
+export async function closeFieldTracks(partyId: string, volunteerId: string): Promise<void> {
+  const tracks = await getByIndex(STORES.FIELD_TRACKS, 'searchPartyId', partyId);
+  for (const track of tracks) {
+    if (!track.closed && track.volunteerId === volunteerId) {
+      await updateInStore(STORES.FIELD_TRACKS, { ...track, closed: true, updatedAt: Date.now() });
+    }
+  }
+}
+
+/**
+ * Findings and tracks recorded for a party, newest first
+ */
+export async function getFieldRecords(
+  partyId: string
+): Promise<{ findings: FieldFinding[]; tracks: FieldTrack[] }> {
+  const [findings, tracks] = await Promise.all([
+    getByIndex(STORES.FIELD_FINDINGS, 'searchPartyId', partyId),
+    getByIndex(STORES.FIELD_TRACKS, 'searchPartyId', partyId),
+  ]);
+  return {
+    findings: findings.sort((a, b) => b.createdAt - a.createdAt),
+    tracks: tracks.sort((a, b) => b.createdAt - a.createdAt),
+  };
+}
+
+// =============================================================================
+// Reconciliation
+// =============================================================================
+
+const SECTOR_PROGRESS: Record<SearchSector['status'], number> = {
+  unassigned: 0,
+  assigned: 1,
+  in_progress: 2,
+  completed: 3,
+};
+
+/**
+ * Decide what to do when the server rejects an offline sector change
+ * because the sector moved on in the meantime.
+ *
+ * Completion on the server is final and reassignment to another team needs
+ * a person to decide; otherwise a change that moves the sector further
+ * along than the server has it is replayed on top of the server's status.
+ */
+export function resolveSectorConflict(
+  local: { status: SearchSector['status']; team?: string },
+  server: Pick<SearchSector, 'status' | 'assignedTeam'>
+): SectorConflictResolution {
+  if (server.status === local.status) {
+    return { action: 'applied' };
+  }
+  if (server.status === 'completed') {
+    return { action: 'accept-server' };
+  }
+  if (server.assignedTeam && local.team && server.assignedTeam !== local.team) {
+    return { action: 'conflict' };
+  }
+  if (SECTOR_PROGRESS[local.status] > SECTOR_PROGRESS[server.status]) {
+    return { action: 'retry', expectedStatus: server.status };
+  }
+  // Moving a sector backwards over someone else's progress
+  return { action: 'conflict' };
+}
+
+async function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function operationHeaders(operation: string): Record<string, string> {
+  return { 'Content-Type': 'application/json', [OPERATION_HEADER]: operation };
+}
+
+/**
+ * Put every unsent local change for the party on the sync queue. Records
+ * already queued are queued again if their queue item has gone (sent by
+ * the service worker, or dropped after too many retries); the server
+ * stores each clientId once, so a resend is harmless.
+ */
+async function enqueueFieldChanges(partyId: string, queued: Set<string>): Promise<void> {
+  const { findings, tracks } = await getFieldRecords(partyId);
+
+  for (const finding of findings) {
+    const operation = `finding:${finding.clientId}`;
+    if (finding.syncState === 'synced' || finding.syncState === 'rejected' || queued.has(operation)) continue;
+
+    const photos = await Promise.all(finding.photos.map(blobToDataUrl));
+    await queueForSync(
+      partyUrl(partyId, 'findings'),
+      'POST',
+      operationHeaders(operation),
+      JSON.stringify({
+        clientId: finding.clientId,
+        volunteerId: finding.volunteerId,
+        sectorId: finding.sectorId,
+        type: finding.type,
+        description: finding.description,
+        location: finding.location,
+        photos,
+        followUpRequired: finding.followUpRequired,
+        timestamp: new Date(finding.createdAt).toISOString(),
+      })
+    );
+    await updateInStore(STORES.FIELD_FINDINGS, { ...finding, syncState: 'queued' });
+  }
+
+  for (const track of tracks) {
+    const operation = `track:${track.clientId}`;
+    if (track.syncState === 'synced' || track.syncState === 'rejected' || queued.has(operation)) continue;
+    // The server needs two points; a lone fix waits for the next one
+    if (track.points.length < 2) continue;
+
+    await queueForSync(
+      partyUrl(partyId, 'tracks'),
+      'POST',
+      operationHeaders(operation),
+      JSON.stringify({
+        clientId: track.clientId,
+        volunteerId: track.volunteerId,
+        sectorId: track.sectorId,
+        points: track.points,
+      })
+    );
+    // The queued body is final, so later fixes go to a new track
+    await updateInStore(STORES.FIELD_TRACKS, { ...track, closed: true, syncState: 'queued' });
+  }
+
+  const record = await getFromStore(STORES.FIELD_SEARCH_PACKS, partyId);
+  if (!record) return;
+
+  let changed = false;
+  for (const [sectorId, pending] of Object.entries(record.pendingSectorStatus)) {
+    const operation = `sector:${sectorId}`;
+    if (queued.has(operation) || record.conflicts.some((c) => c.sectorId === sectorId)) continue;
+
+    await queueForSync(
+      partyUrl(partyId, `sectors/${encodeURIComponent(sectorId)}`),
+      'PATCH',
+      operationHeaders(operation),
+      JSON.stringify({
+        status: pending.status,
+        expectedStatus: pending.baseStatus,
+        assignedTeam: record.pack.teamAssignment,
+      })
+    );
+    pending.queued = true;
+    changed = true;
+  }
+  if (changed) {
+    await updateInStore(STORES.FIELD_SEARCH_PACKS, record);
+  }
+}
+
+async function markRecord(
+  operation: string,
+  partyId: string,
+  syncState: 'synced' | 'rejected',
+  syncError?: string
+): Promise<void> {
+  const [kind, clientId] = operation.split(':');
+
+  if (kind === 'finding') {
+    const findings = await getByIndex(STORES.FIELD_FINDINGS, 'searchPartyId', partyId);
+    const finding = findings.find((f) => f.clientId === clientId);
+    if (finding) {
+      // Photos are on the server once the finding is stored
+      const photos = syncState === 'synced' ? [] : finding.photos;
+      await updateInStore(STORES.FIELD_FINDINGS, { ...finding, photos, syncState, syncError });
+    }
+  } else if (kind === 'track') {
+    const tracks = await getByIndex(STORES.FIELD_TRACKS, 'searchPartyId', partyId);
+    const track = tracks.find((t) => t.clientId === clientId);
+    if (track) {
+      await updateInStore(STORES.FIELD_TRACKS, { ...track, syncState, syncError });
+    }
+  }
+}
+
+async function applyServerSector(
+  partyId: string,
+  sectorId: string,
+  server: SearchSector,
+  conflict?: FieldSectorConflict
+): Promise<void> {
+  const record = await getFromStore(STORES.FIELD_SEARCH_PACKS, partyId);
+  if (!record) return;
+
+  if (conflict) {
+    // Keep the local change on screen until someone chooses
+    record.conflicts = [...record.conflicts.filter((c) => c.sectorId !== sectorId), conflict];
+    record.pendingSectorStatus[sectorId] = {
+      ...record.pendingSectorStatus[sectorId],
+      baseStatus: server.status,
+      queued: false,
+    };
+  } else {
+    delete record.pendingSectorStatus[sectorId];
+  }
+  record.pack.sectors = withPendingStatus(
+    record,
+    record.pack.sectors.map((s) => (s.id === sectorId ? server : s))
+  );
+  await updateInStore(STORES.FIELD_SEARCH_PACKS, record);
+}
+
+/**
+ * Replay one queued sector change after a 409. Returns true when the item
+ * is finished with, false when it should stay queued.
+ */
+async function reconcileSectorConflict(
+  item: SyncQueueItem & { id: number },
+  partyId: string,
+  sectorId: string,
+  server: SearchSector
+): Promise<boolean> {
+  const body = JSON.parse(item.body) as { status: SearchSector['status']; assignedTeam?: string };
+  const resolution = resolveSectorConflict({ status: body.status, team: body.assignedTeam }, server);
+
+  if (resolution.action === 'retry') {
+    const retried = await fetch(item.url, {
+      method: item.method,
+      headers: item.headers,
+      body: JSON.stringify({ ...body, expectedStatus: resolution.expectedStatus }),
+    });
+    if (retried.ok) {
+      await applyServerSector(partyId, sectorId, await retried.json());
+      return true;
+    }
+    if (retried.status !== 409) return false;
+    // Moved on again between the two requests; leave it to a person
+    server = ((await retried.json()) as { sector: SearchSector }).sector;
+  }
+
+  if (resolution.action === 'applied' || resolution.action === 'accept-server') {
+    await applyServerSector(partyId, sectorId, server);
+  } else {
+    await applyServerSector(partyId, sectorId, server, {
+      sectorId,
+      sectorName: server.name,
+      localStatus: body.status,
+      serverStatus: server.status,
+      serverTeam: server.assignedTeam,
+      detectedAt: Date.now(),
+    });
+  }
+  return true;
+}
+
+async function refreshFieldPack(partyId: string): Promise<void> {
+  const record = await getFromStore(STORES.FIELD_SEARCH_PACKS, partyId);
+  if (!record) return;
+
+  const query = record.pack.volunteerId ? `?volunteerId=${encodeURIComponent(record.pack.volunteerId)}` : '';
+  const response = await fetch(partyUrl(partyId, `field-pack${query}`));
+  if (!response.ok) return;
+
+  const pack: FieldSearchPack = await response.json();
+  // Read again: the pack may have changed while the request was out
+  const latest = (await getFromStore(STORES.FIELD_SEARCH_PACKS, partyId)) ?? record;
+  latest.pack = { ...pack, sectors: withPendingStatus(latest, pack.sectors) };
+  latest.refreshedAt = Date.now();
+  await updateInStore(STORES.FIELD_SEARCH_PACKS, latest);
+}
+
+/**
+ * Send everything recorded offline for a party, resolve sector status
+ * conflicts, and refresh the pack from the server
+ */
+export async function reconcileFieldSearch(partyId: string): Promise<FieldSyncResult> {
+  const operationOf = (item: SyncQueueItem) => item.headers[OPERATION_HEADER];
+  const prefix = partyUrl(partyId, '');
+
+  const queuedOps = new Set(
+    (await getPendingSyncItems()).filter((i) => i.url.startsWith(prefix)).map(operationOf)
+  );
+  await enqueueFieldChanges(partyId, queuedOps);
+
+  const items = (await getPendingSyncItems())
+    .filter((i): i is SyncQueueItem & { id: number } => i.id !== undefined && i.url.startsWith(prefix))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  let synced = 0;
+  let rejected = 0;
+  let offline = typeof navigator !== 'undefined' && !navigator.onLine;
+
+  for (const item of items) {
+    if (offline) break;
+    const operation = operationOf(item) ?? '';
+
+    let response: Response;
+    try {
+      response = await fetch(item.url, { method: item.method, headers: item.headers, body: item.body });
+    } catch {
+      await incrementSyncRetry(item.id);
+      offline = true;
+      break;
+    }
+
+    // The service worker answers 202 when it has queued the request itself
+    if (response.status === 202) {
+      offline = true;
+      break;
+    }
+
+    if (response.ok) {
+      await deleteFromStore(STORES.SYNC_QUEUE, item.id);
+      if (operation.startsWith('sector:')) {
+        await applyServerSector(partyId, operation.slice('sector:'.length), await response.json());
+      } else {
+        await markRecord(operation, partyId, 'synced');
+      }
+      synced++;
+    } else if (response.status === 409 && operation.startsWith('sector:')) {
+      const { sector } = (await response.json()) as { sector: SearchSector };
+      if (await reconcileSectorConflict(item, partyId, operation.slice('sector:'.length), sector)) {
+        await deleteFromStore(STORES.SYNC_QUEUE, item.id);
+        synced++;
+      }
+    } else if (response.status >= 400 && response.status < 500) {
+      // Retrying will not change the answer
+      const { error } = (await response.json().catch(() => ({}))) as { error?: string };
+      await deleteFromStore(STORES.SYNC_QUEUE, item.id);
+      await markRecord(operation, partyId, 'rejected', error || `Rejected with ${response.status}`);
+      rejected++;
+    } else {
+      await incrementSyncRetry(item.id);
+    }
+  }
+
+  if (!offline) {
+    await refreshFieldPack(partyId).catch(() => undefined);
+  }
+
+  const pending = (await getPendingSyncItems()).filter((i) => i.url.startsWith(prefix)).length;
+  if (pending > 0) {
+    await registerBackgroundSync('sync-pending-requests');
+  }
+
+  const record = await getFromStore(STORES.FIELD_SEARCH_PACKS, partyId);
+  return { synced, pending, rejected, conflicts: record?.conflicts ?? [], offline };
+}
+
+/**
+ * Settle a sector conflict: keep the server's status, or send the local
+ * status again over it on the next sync
+ */
+export async function resolveFieldConflict(
+  partyId: string,
+  sectorId: string,
+  keep: 'server' | 'local'
+): Promise<FieldSearchPackRecord | undefined> {
+  const record = await getFromStore(STORES.FIELD_SEARCH_PACKS, partyId);
+  const conflict = record?.conflicts.find((c) => c.sectorId === sectorId);
+  if (!record || !conflict) return record;
+
+  record.conflicts = record.conflicts.filter((c) => c.sectorId !== sectorId);
+  if (keep === 'server') {
+    delete record.pendingSectorStatus[sectorId];
+    record.pack.sectors = record.pack.sectors.map((s) =>
+      s.id === sectorId ? { ...s, status: conflict.serverStatus } : s
+    );
+  } else {
+    record.pendingSectorStatus[sectorId] = {
+      status: conflict.localStatus,
+      baseStatus: conflict.serverStatus,
+      changedAt: Date.now(),
+      queued: false,
+    };
+  }
+
+  await updateInStore(STORES.FIELD_SEARCH_PACKS, record);
+  return record;
+}
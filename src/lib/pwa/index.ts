@@ -6,3 +6,7 @@
 export * from './indexeddb';
 export * from './service-worker';
 export * from './push-notifications';
+export * from './field-search';
+export * from './sync-engine';
+export * from './encryption';
+export * from './secure-storage';
@@ -3,8 +3,12 @@
  * LC-FEAT-031: Mobile App Companion
  */
 
+import type { VersionVector } from '@/lib/sync';
+import type { FieldSearchPack, SearchSector } from '@/types/law-enforcement.types';
+import { openRecord, sealRecord, type SealedRecord, type WrappedKey } from './encryption';
+
 const DB_NAME = 'locateconnect-offline';
-const DB_VERSION = 2;
+const DB_VERSION = 5;
 
 // Store names
 export const STORES = {
@@ -16,19 +20,65 @@ export const STORES = {
   USER_LOCATION: 'user-location',
   VOICE_NOTES: 'voice-notes',
   DRAFT_FORMS: 'draft-forms',
+  FIELD_SEARCH_PACKS: 'field-search-packs',
+  FIELD_FINDINGS: 'field-findings',
+  FIELD_TRACKS: 'field-tracks',
+  SYNC_OPERATIONS: 'sync-operations',
+  SYNC_DEAD_LETTERS: 'sync-dead-letters',
+  ENTITY_VERSIONS: 'entity-versions',
+  SECURE_KEYS: 'secure-keys',
 } as const;
 
 type StoreName = (typeof STORES)[keyof typeof STORES];
 
+export type RetentionCategory = 'cases' | 'tips' | 'voiceNotes' | 'evidence' | 'fieldData' | 'fieldSearch' | 'location';
+
+export interface RetentionPolicy {
+  maxAgeHours: number;
+  // Each store's timestamp field the age is measured from
+  stores: Array<{ store: StoreName; field: string }>;
+}
+
+// Longest a record may stay on a device, synced or not
+export const OFFLINE_RETENTION: Record<RetentionCategory, RetentionPolicy> = {
+  cases: { maxAgeHours: 72, stores: [{ store: STORES.CASES, field: 'cachedAt' }] },
+  tips: { maxAgeHours: 168, stores: [{ store: STORES.TIPS, field: 'createdAt' }] },
+  voiceNotes: { maxAgeHours: 168, stores: [{ store: STORES.VOICE_NOTES, field: 'createdAt' }] },
+  evidence: { maxAgeHours: 168, stores: [{ store: STORES.EVIDENCE, field: 'createdAt' }] },
+  fieldData: {
+    maxAgeHours: 336,
+    stores: [
+      { store: STORES.FIELD_DATA, field: 'createdAt' },
+      { store: STORES.DRAFT_FORMS, field: 'lastSavedAt' },
+    ],
+  },
+  fieldSearch: {
+    maxAgeHours: 336,
+    stores: [
+      { store: STORES.FIELD_SEARCH_PACKS, field: 'downloadedAt' },
+      { store: STORES.FIELD_FINDINGS, field: 'createdAt' },
+      { store: STORES.FIELD_TRACKS, field: 'updatedAt' },
+    ],
+  },
+  location: { maxAgeHours: 24, stores: [{ store: STORES.USER_LOCATION, field: 'timestamp' }] },
+};
+
 interface DBSchema {
-  'cached-cases': CachedCase;
-  'offline-tips': OfflineTip;
+  'cached-cases': StoredCase;
+  'offline-tips': StoredTip;
   'evidence-uploads': EvidenceUpload;
   'field-data': FieldDataEntry;
   'sync-queue': SyncQueueItem;
   'user-location': UserLocation;
-  'voice-notes': VoiceNote;
+  'voice-notes': StoredVoiceNote;
   'draft-forms': DraftForm;
+  'field-search-packs': FieldSearchPackRecord;
+  'field-findings': FieldFinding;
+  'field-tracks': FieldTrack;
+  'sync-operations': SyncOperation;
+  'sync-dead-letters': SyncDeadLetter;
+  'entity-versions': EntityVersion;
+  'secure-keys': SecureKeyRecord;
 }
 
 export interface CachedCase {
@@ -129,6 +179,131 @@ export interface DraftForm {
   lastSavedAt: number;
 }
 
+// Booleans cannot be index keys, so field search records track sync as a string
+export type FieldSyncState = 'pending' | 'queued' | 'synced' | 'rejected';
+
+export interface FieldSectorConflict {
+  sectorId: string;
+  sectorName: string;
+  localStatus: SearchSector['status'];
+  serverStatus: SearchSector['status'];
+  serverTeam?: string;
+  detectedAt: number;
+}
+
+export interface FieldSearchPackRecord {
+  searchPartyId: string;
+  pack: FieldSearchPack;
+  // Sector status changes made offline, keyed by sector id, with the status they replaced
+  pendingSectorStatus: Record<
+    string,
+    { status: SearchSector['status']; baseStatus: SearchSector['status']; changedAt: number; queued: boolean }
+  >;
+  conflicts: FieldSectorConflict[];
+  tiles: { template: string; minZoom: number; maxZoom: number; count: number; failed: number };
+  downloadedAt: number;
+  refreshedAt: number;
+}
+
+export interface FieldFinding {
+  id?: number;
+  clientId: string;
+  searchPartyId: string;
+  volunteerId?: string;
+  sectorId?: string;
+  type: 'person_sighting' | 'evidence' | 'poi' | 'other';
+  description: string;
+  location: { lat: number; lng: number; accuracy?: number };
+  photos: Blob[];
+  followUpRequired?: boolean;
+  createdAt: number;
+  syncState: FieldSyncState;
+  syncError?: string;
+}
+
+export interface FieldTrack {
+  id?: number;
+  clientId: string;
+  searchPartyId: string;
+  volunteerId: string;
+  sectorId?: string;
+  points: Array<{ lat: number; lng: number; timestamp: string; accuracy?: number }>;
+  // Closed tracks take no more points; the next fix starts a new track
+  closed: boolean;
+  createdAt: number;
+  updatedAt: number;
+  syncState: FieldSyncState;
+  syncError?: string;
+}
+
+export type SyncOperationBody =
+  | { kind: 'none' }
+  | { kind: 'json'; value: unknown }
+  | { kind: 'form'; fields: Array<{ name: string; value: string | Blob; filename?: string }> };
+
+export interface SyncOperation {
+  id: string;
+  // Operations on the same entity are sent in the order they were made
+  entityType: string;
+  entityId: string;
+  entityKey: string;
+  label: string;
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: SyncOperationBody;
+  // Edits to existing entities carry versions; creations do not
+  baseVersion?: VersionVector;
+  version?: VersionVector;
+  // Operations that must complete first; their results can be referenced in url and body
+  dependsOn: string[];
+  status: 'pending' | 'conflict' | 'completed';
+  sequence: number;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  lastError?: string;
+  result?: unknown;
+  conflict?: {
+    serverVersion: VersionVector;
+    current: Record<string, unknown> | null;
+    detectedAt: number;
+  };
+}
+
+export interface SyncDeadLetter {
+  id: string;
+  operation: SyncOperation;
+  reason: string;
+  responseStatus?: number;
+  failedAt: number;
+}
+
+// The latest version of an entity this device knows about
+export interface EntityVersion {
+  key: string;
+  vector: VersionVector;
+  updatedAt: number;
+}
+
+// Cases, tips and voice notes are encrypted at rest; only these fields stay readable
+const CASE_PLAIN_FIELDS = ['id', 'cachedAt', 'updatedAt', 'expiresAt'] as const;
+const TIP_PLAIN_FIELDS = ['id', 'caseId', 'createdAt', 'synced'] as const;
+const VOICE_NOTE_PLAIN_FIELDS = ['id', 'caseId', 'createdAt', 'synced'] as const;
+
+export type StoredCase = SealedRecord<CachedCase, (typeof CASE_PLAIN_FIELDS)[number]>;
+export type StoredTip = SealedRecord<OfflineTip, (typeof TIP_PLAIN_FIELDS)[number]>;
+export type StoredVoiceNote = SealedRecord<VoiceNote, (typeof VOICE_NOTE_PLAIN_FIELDS)[number]>;
+
+// The data key wrapped for one way of unlocking it
+export interface SecureKeyRecord extends WrappedKey {
+  method: 'session' | 'webauthn';
+  userId: string;
+  credentialId?: string;
+  prfSalt?: Uint8Array;
+  createdAt: number;
+}
+
 let dbInstance: IDBDatabase | null = null;
 
 /**
@@ -155,6 +330,15 @@ export function openDatabase(): Promise<IDBDatabase> {
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
 
+      // Records written before encryption at rest cannot be opened; drop them
+      if (event.oldVersion > 0 && event.oldVersion < 5 && request.transaction) {
+        for (const name of [STORES.CASES, STORES.TIPS, STORES.VOICE_NOTES]) {
+          if (db.objectStoreNames.contains(name)) {
+            request.transaction.objectStore(name).clear();
+          }
+        }
+      }
+
       // Create object stores if they don't exist
       if (!db.objectStoreNames.contains(STORES.CASES)) {
         const casesStore = db.createObjectStore(STORES.CASES, { keyPath: 'id' });
@@ -224,6 +408,47 @@ export function openDatabase(): Promise<IDBDatabase> {
         draftStore.createIndex('formType', 'formType', { unique: false });
         draftStore.createIndex('caseId', 'caseId', { unique: false });
       }
+
+      if (!db.objectStoreNames.contains(STORES.FIELD_SEARCH_PACKS)) {
+        db.createObjectStore(STORES.FIELD_SEARCH_PACKS, { keyPath: 'searchPartyId' });
+      }
+
+      if (!db.objectStoreNames.contains(STORES.FIELD_FINDINGS)) {
+        const findingsStore = db.createObjectStore(STORES.FIELD_FINDINGS, {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+        findingsStore.createIndex('searchPartyId', 'searchPartyId', { unique: false });
+        findingsStore.createIndex('syncState', 'syncState', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(STORES.FIELD_TRACKS)) {
+        const tracksStore = db.createObjectStore(STORES.FIELD_TRACKS, {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+        tracksStore.createIndex('searchPartyId', 'searchPartyId', { unique: false });
+        tracksStore.createIndex('syncState', 'syncState', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(STORES.SYNC_OPERATIONS)) {
+        const operationsStore = db.createObjectStore(STORES.SYNC_OPERATIONS, { keyPath: 'id' });
+        operationsStore.createIndex('status', 'status', { unique: false });
+        operationsStore.createIndex('entityKey', 'entityKey', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(STORES.SYNC_DEAD_LETTERS)) {
+        const deadLetterStore = db.createObjectStore(STORES.SYNC_DEAD_LETTERS, { keyPath: 'id' });
+        deadLetterStore.createIndex('failedAt', 'failedAt', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(STORES.ENTITY_VERSIONS)) {
+        db.createObjectStore(STORES.ENTITY_VERSIONS, { keyPath: 'key' });
+      }
+
+      if (!db.objectStoreNames.contains(STORES.SECURE_KEYS)) {
+        db.createObjectStore(STORES.SECURE_KEYS, { keyPath: 'method' });
+      }
     };
   });
 }
@@ -395,15 +620,16 @@ export async function cacheCase(
   ttlHours: number = 24
 ): Promise<void> {
   const now = Date.now();
+  const hours = Math.min(ttlHours, OFFLINE_RETENTION.cases.maxAgeHours);
   const cachedCase: CachedCase = {
     id: caseId,
     data: caseData,
     cachedAt: now,
     updatedAt: now,
-    expiresAt: now + ttlHours * 60 * 60 * 1000,
+    expiresAt: now + hours * 60 * 60 * 1000,
   };
 
-  await updateInStore(STORES.CASES, cachedCase);
+  await updateInStore(STORES.CASES, await sealRecord(cachedCase, CASE_PLAIN_FIELDS));
 }
 
 /**
@@ -414,13 +640,15 @@ export async function getCachedCase(
 ): Promise<CachedCase | undefined> {
   const cachedCase = await getFromStore(STORES.CASES, caseId);
 
-  if (cachedCase && cachedCase.expiresAt < Date.now()) {
+  if (!cachedCase) return undefined;
+
+  if (cachedCase.expiresAt < Date.now()) {
     // Cache expired, remove it
     await deleteFromStore(STORES.CASES, caseId);
     return undefined;
   }
 
-  return cachedCase;
+  return openRecord<CachedCase>(cachedCase);
 }
 
 /**
@@ -457,14 +685,15 @@ export async function saveOfflineTip(
     synced: false,
   };
 
-  return addToStore(STORES.TIPS, offlineTip);
+  return addToStore(STORES.TIPS, await sealRecord(offlineTip, TIP_PLAIN_FIELDS));
 }
 
 /**
  * Get all pending tips for a case
  */
 export async function getPendingTips(caseId: string): Promise<OfflineTip[]> {
-  return getByIndex(STORES.TIPS, 'caseId', caseId);
+  const tips = await getByIndex(STORES.TIPS, 'caseId', caseId);
+  return Promise.all(tips.map((tip) => openRecord<OfflineTip>(tip)));
 }
 
 // ============================================
@@ -548,7 +777,7 @@ export async function saveVoiceNote(
     synced: false,
   };
 
-  return addToStore(STORES.VOICE_NOTES, voiceNote);
+  return addToStore(STORES.VOICE_NOTES, await sealRecord(voiceNote, VOICE_NOTE_PLAIN_FIELDS));
 }
 
 /**
@@ -558,11 +787,12 @@ export async function updateVoiceNoteTranscript(
   id: number,
   transcript: string
 ): Promise<void> {
-  const note = await getFromStore(STORES.VOICE_NOTES, id);
-  if (note) {
+  const stored = await getFromStore(STORES.VOICE_NOTES, id);
+  if (stored) {
+    const note = await openRecord<VoiceNote>(stored);
     note.transcript = transcript;
     note.transcriptionStatus = 'completed';
-    await updateInStore(STORES.VOICE_NOTES, note);
+    await updateInStore(STORES.VOICE_NOTES, await sealRecord(note, VOICE_NOTE_PLAIN_FIELDS));
   }
 }
 
@@ -709,6 +939,55 @@ export async function incrementSyncRetry(id: number): Promise<boolean> {
   return false;
 }
 
+// ============================================
+// Retention utilities
+// ============================================
+
+/**
+ * Delete records older than a cutoff, reading only the plaintext timestamp
+ * so it works while encrypted stores are locked
+ */
+async function purgeStore(storeName: StoreName, field: string, cutoff: number): Promise<number> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    const request = tx.objectStore(storeName).openCursor();
+    let removed = 0;
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const timestamp = (cursor.value as Record<string, unknown>)[field];
+      if (typeof timestamp === 'number' && timestamp < cutoff) {
+        cursor.delete();
+        removed++;
+      }
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve(removed);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Enforce the offline retention window of every data category
+ */
+export async function purgeExpiredRecords(now: number = Date.now()): Promise<Record<RetentionCategory, number>> {
+  const removed = {} as Record<RetentionCategory, number>;
+
+  for (const [category, policy] of Object.entries(OFFLINE_RETENTION) as Array<[RetentionCategory, RetentionPolicy]>) {
+    const cutoff = now - policy.maxAgeHours * 60 * 60 * 1000;
+    removed[category] = 0;
+    for (const { store, field } of policy.stores) {
+      removed[category] += await purgeStore(store, field, cutoff);
+    }
+  }
+
+  return removed;
+}
+
 // ============================================
 // Storage utilities
 // ============================================
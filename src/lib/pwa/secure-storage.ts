@@ -0,0 +1,257 @@
+/**
+ * Locking, unlocking and wiping of encrypted offline data
+ * The data key is wrapped once with key material the server derives for the
+ * signed-in user and this device, and optionally again with a WebAuthn PRF
+ * output so a field officer can unlock it with biometrics while offline.
+ * LC-FEAT-031: Mobile App Companion
+ */
+
+import {
+  STORES,
+  OFFLINE_RETENTION,
+  clearStore,
+  getFromStore,
+  purgeExpiredRecords,
+  updateInStore,
+  type RetentionCategory,
+  type SecureKeyRecord,
+} from './indexeddb';
+import {
+  SecureStorageLockedError,
+  generateDataKey,
+  setDataKey,
+  unwrapDataKey,
+  wrapDataKey,
+} from './encryption';
+import { getDeviceId } from './sync-engine';
+import { isServiceWorkerSupported, wipeDeviceViaSW } from './service-worker';
+
+// Service worker caches that hold case API responses and pages
+const CASE_RESPONSE_CACHES = ['locateconnect-dynamic-v1', 'locateconnect-offline-v1'];
+const CASE_RESPONSE_PATHS = ['/api/', '/cases/'];
+
+export class SecureStorageRevokedError extends Error {
+  constructor(message = 'This device is no longer allowed to keep offline data') {
+    super(message);
+    this.name = 'SecureStorageRevokedError';
+  }
+}
+
+export class WebAuthnUnlockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebAuthnUnlockError';
+  }
+}
+
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function fetchSessionKey(): Promise<{ userId: string; secret: Uint8Array<ArrayBuffer> }> {
+  const response = await fetch(`/api/auth/offline-key?deviceId=${encodeURIComponent(getDeviceId())}`, {
+    cache: 'no-store',
+  });
+
+  if (response.status === 403) {
+    // Report the wipe if one was queued for this device, then make sure nothing is left
+    if (!(await checkForRemoteWipe().catch(() => false))) {
+      await wipeOfflineData();
+    }
+    throw new SecureStorageRevokedError();
+  }
+  if (!response.ok) {
+    throw new SecureStorageLockedError(`Offline key unavailable (${response.status})`);
+  }
+
+  const { userId, keyMaterial } = (await response.json()) as { userId: string; keyMaterial: string };
+  return { userId, secret: base64UrlToBytes(keyMaterial) };
+}
+
+/**
+ * Ask the authenticator for its PRF output for a salt. Nothing is verified by
+ * the server: only the right credential produces the secret that unwraps the key.
+ */
+async function evaluatePrf(
+  salt: Uint8Array<ArrayBuffer>,
+  credentialId?: string
+): Promise<{ credentialId: string; secret: BufferSource }> {
+  const assertion = (await navigator.credentials.get({
+    publicKey: {
+      challenge: crypto.getRandomValues(new Uint8Array(32)),
+      rpId: window.location.hostname,
+      allowCredentials: credentialId ? [{ id: base64UrlToBytes(credentialId), type: 'public-key' }] : [],
+      userVerification: 'required',
+      timeout: 60000,
+      extensions: { prf: { eval: { first: salt } } },
+    },
+  })) as PublicKeyCredential | null;
+
+  if (!assertion) {
+    throw new WebAuthnUnlockError('Biometric check was cancelled');
+  }
+
+  const secret = assertion.getClientExtensionResults().prf?.results?.first;
+  if (!secret) {
+    throw new WebAuthnUnlockError("This device's authenticator cannot protect offline data");
+  }
+
+  return { credentialId: assertion.id, secret };
+}
+
+/**
+ * Unlock offline data with key material from the signed-in session, setting
+ * up encryption on first use. Data left by another user, or wrapped with key
+ * material the server no longer issues, is wiped rather than kept unreadable.
+ */
+export async function unlockWithSession(): Promise<void> {
+  const session = await fetchSessionKey();
+  const record = await getFromStore(STORES.SECURE_KEYS, 'session');
+
+  if (record?.userId === session.userId) {
+    try {
+      setDataKey(await unwrapDataKey(record, session.secret));
+      return;
+    } catch {
+      // The server secret changed; the old data can never be read again
+    }
+  }
+
+  if (record || (await getFromStore(STORES.SECURE_KEYS, 'webauthn'))) {
+    await wipeOfflineData();
+  }
+
+  const stored: SecureKeyRecord = {
+    method: 'session',
+    userId: session.userId,
+    ...(await wrapDataKey(await generateDataKey(), session.secret)),
+    createdAt: Date.now(),
+  };
+  await updateInStore(STORES.SECURE_KEYS, stored);
+  setDataKey(await unwrapDataKey(stored, session.secret));
+}
+
+/**
+ * Let a registered WebAuthn credential unlock offline data without a network
+ * connection. Needs the session, so it can only be set up while online.
+ */
+export async function enrollWebAuthnUnlock(): Promise<void> {
+  const session = await fetchSessionKey();
+  const record = await getFromStore(STORES.SECURE_KEYS, 'session');
+  if (record?.userId !== session.userId) {
+    throw new SecureStorageLockedError('Unlock offline data before setting up biometric unlock');
+  }
+
+  const key = await unwrapDataKey(record, session.secret, true);
+  const prfSalt = crypto.getRandomValues(new Uint8Array(32));
+  const { credentialId, secret } = await evaluatePrf(prfSalt);
+
+  await updateInStore(STORES.SECURE_KEYS, {
+    method: 'webauthn',
+    userId: session.userId,
+    credentialId,
+    prfSalt,
+    ...(await wrapDataKey(key, secret)),
+    createdAt: Date.now(),
+  });
+}
+
+/**
+ * Unlock offline data with the enrolled WebAuthn credential
+ */
+export async function unlockWithWebAuthn(): Promise<void> {
+  const record = await getFromStore(STORES.SECURE_KEYS, 'webauthn');
+  if (!record?.prfSalt || !record.credentialId) {
+    throw new WebAuthnUnlockError('Biometric unlock is not set up on this device');
+  }
+
+  const { secret } = await evaluatePrf(new Uint8Array(record.prfSalt), record.credentialId);
+  setDataKey(await unwrapDataKey(record, secret));
+}
+
+export async function isWebAuthnUnlockEnrolled(): Promise<boolean> {
+  return (await getFromStore(STORES.SECURE_KEYS, 'webauthn')) !== undefined;
+}
+
+/**
+ * Forget the data key until the next unlock
+ */
+export function lockSecureStorage(): void {
+  setDataKey(null);
+}
+
+/**
+ * Remove every offline record, wrapped key and cached response from this
+ * device. Used on logout and when the server revokes the device.
+ */
+export async function wipeOfflineData(): Promise<{ storesCleared: number; cachesCleared: number }> {
+  setDataKey(null);
+  const stores = Object.values(STORES);
+  await Promise.all(stores.map((store) => clearStore(store)));
+
+  let cachesCleared = 0;
+  if ('caches' in self) {
+    const names = await caches.keys();
+    await Promise.all(names.map((name) => caches.delete(name)));
+    cachesCleared = names.length;
+  }
+
+  return { storesCleared: stores.length, cachesCleared };
+}
+
+/**
+ * Ask the server whether an admin queued a wipe of this device. If so, wipe
+ * it, have the service worker clear its caches and tell other open tabs,
+ * and report back. Returns whether the device was wiped.
+ */
+export async function checkForRemoteWipe(): Promise<boolean> {
+  const response = await fetch('/api/auth/webauthn/devices/check-in', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ deviceId: getDeviceId() }),
+  });
+  if (!response.ok) return false;
+
+  const { wipe } = (await response.json()) as { wipe: { id: string } | null };
+  if (!wipe) return false;
+
+  const result = await wipeOfflineData();
+  if (isServiceWorkerSupported()) {
+    await wipeDeviceViaSW(wipe.id).catch(() => undefined);
+  }
+  await fetch(`/api/auth/webauthn/devices/wipe-commands/${wipe.id}/complete`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ result }),
+  });
+  return true;
+}
+
+/**
+ * Enforce the offline retention windows on IndexedDB and on case responses
+ * the service worker cached
+ */
+export async function enforceOfflineRetention(now: number = Date.now()): Promise<Record<RetentionCategory, number>> {
+  const removed = await purgeExpiredRecords(now);
+
+  if ('caches' in self) {
+    const cutoff = now - OFFLINE_RETENTION.cases.maxAgeHours * 60 * 60 * 1000;
+    for (const name of CASE_RESPONSE_CACHES) {
+      if (!(await caches.has(name))) continue;
+      const cache = await caches.open(name);
+      for (const request of await cache.keys()) {
+        if (!CASE_RESPONSE_PATHS.some((path) => new URL(request.url).pathname.startsWith(path))) continue;
+        const response = await cache.match(request);
+        const date = response?.headers.get('Date');
+        if (!date || Date.parse(date) < cutoff) {
+          await cache.delete(request);
+          removed.cases++;
+        }
+      }
+    }
+  }
+
+  return removed;
+}
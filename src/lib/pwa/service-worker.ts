@@ -174,6 +174,28 @@ export async function clearServiceWorkerCaches(): Promise<void> {
   await sendMessageToSW({ type: 'CLEAR_CACHE' });
 }
 
+/**
+ * Have the service worker clear its caches after a remote wipe and tell
+ * every open tab that offline data is gone
+ */
+export async function wipeDeviceViaSW(commandId: string): Promise<void> {
+  await sendMessageToSW({
+    type: 'WIPE_DEVICE',
+    data: { commandId },
+  });
+}
+
+/**
+ * Listen for a remote wipe carried out from another tab
+ */
+export function onDeviceWiped(callback: (commandId: string) => void): () => void {
+  return onServiceWorkerMessage((event) => {
+    if (event.data?.type === 'DEVICE_WIPED') {
+      callback(event.data.commandId);
+    }
+  });
+}
+
 /**
  * Queue a tip for offline sync via service worker
  */
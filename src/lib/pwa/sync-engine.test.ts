@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { computeBackoff, resolveResultRefs, resultRef, selectReadyOperations, SyncDependencyError } from './sync-engine';
+import type { SyncOperation } from './indexeddb';
+
+const NOW = 1_000_000;
+
+function op(id: string, overrides: Partial<SyncOperation> = {}): SyncOperation {
+  return {
+    id,
+    entityType: 'lead',
+    entityId: 'lead-1',
+    entityKey: 'lead:lead-1',
+    label: id,
+    url: '/api/leads/lead-1',
+    method: 'PUT',
+    headers: {},
+    body: { kind: 'none' },
+    dependsOn: [],
+    status: 'pending',
+    sequence: Number(id.replace(/\D/g, '')) || 0,
+    attempts: 0,
+    nextAttemptAt: NOW,
+    createdAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('computeBackoff', () => {
+  it('doubles from two seconds and caps at fifteen minutes', () => {
+    const noJitter = () => 1;
+    expect(computeBackoff(1, noJitter)).toBe(2000);
+    expect(computeBackoff(2, noJitter)).toBe(4000);
+    expect(computeBackoff(5, noJitter)).toBe(32000);
+    expect(computeBackoff(30, noJitter)).toBe(15 * 60 * 1000);
+  });
+
+  it('randomises the second half of the delay', () => {
+    expect(computeBackoff(3, () => 0)).toBe(4000);
+    expect(computeBackoff(3, () => 0.5)).toBe(6000);
+  });
+});
+
+describe('selectReadyOperations', () => {
+  it('sends one operation per entity, in order', () => {
+    const ready = selectReadyOperations(
+      [op('op2'), op('op1'), op('op3', { entityId: 'lead-2', entityKey: 'lead:lead-2' })],
+      NOW
+    );
+    expect(ready.map((o) => o.id)).toEqual(['op1', 'op3']);
+  });
+
+  it('holds later edits behind a conflict or a backoff on the same entity', () => {
+    expect(selectReadyOperations([op('op1', { status: 'conflict' }), op('op2')], NOW)).toEqual([]);
+    expect(selectReadyOperations([op('op1', { nextAttemptAt: NOW + 1 }), op('op2')], NOW)).toEqual([]);
+  });
+
+  it('waits for dependencies to complete', () => {
+    const upload = op('op1', { entityType: 'case_evidence', entityKey: 'case_evidence:case-1', method: 'POST' });
+    const attach = op('op2', { entityKey: 'lead_attachment:lead-1', dependsOn: ['op1'] });
+
+    expect(selectReadyOperations([upload, attach], NOW).map((o) => o.id)).toEqual(['op1']);
+    expect(selectReadyOperations([{ ...upload, status: 'completed' }, attach], NOW).map((o) => o.id)).toEqual([
+      'op2',
+    ]);
+  });
+});
+
+describe('resolveResultRefs', () => {
+  const uploadId = '0f8fad5b-d9cb-469f-a165-70867728950e';
+  const results = { [uploadId]: { item: { id: 'evidence-9', fileSize: 2048 } } };
+
+  it('substitutes values from dependency responses', () => {
+    expect(
+      resolveResultRefs(
+        {
+          evidenceItemId: resultRef(uploadId, 'item.id'),
+          size: resultRef(uploadId, 'item.fileSize'),
+          note: `Evidence ${resultRef(uploadId, 'item.id')} attached`,
+        },
+        results
+      )
+    ).toEqual({ evidenceItemId: 'evidence-9', size: 2048, note: 'Evidence evidence-9 attached' });
+  });
+
+  it('refuses references to missing operations or fields', () => {
+    expect(() => resolveResultRefs(resultRef(uploadId, 'item.missing'), results)).toThrow(SyncDependencyError);
+    expect(() => resolveResultRefs(resultRef('1b4e28ba-2fa1-11d2-883f-0016d3cca427', 'id'), results)).toThrow(
+      /has not completed/
+    );
+  });
+});
@@ -0,0 +1,540 @@
+/**
+ * Offline sync engine
+ * Sends operations recorded offline in the order they were made, holding
+ * back operations until those they depend on have completed, retrying
+ * transient failures with exponential backoff and moving operations that
+ * cannot succeed to a dead-letter store. Edits carry version vectors so the
+ * server can refuse one made concurrently with another device's edit; the
+ * conflict is then kept for a person to resolve.
+ */
+
+import {
+  SYNC_BASE_VERSION_HEADER,
+  SYNC_OPERATION_HEADER,
+  SYNC_VERSION_HEADER,
+  incrementVersion,
+  mergeVersionVectors,
+  parseVersionVector,
+  type SyncConflictBody,
+  type VersionVector,
+} from '@/lib/sync';
+import {
+  STORES,
+  addToStore,
+  deleteFromStore,
+  getAllFromStore,
+  getFromStore,
+  updateInStore,
+  type SyncDeadLetter,
+  type SyncOperation,
+  type SyncOperationBody,
+} from './indexeddb';
+
+const DEVICE_ID_KEY = 'locateconnect-sync-device-id';
+
+export const MAX_SYNC_ATTEMPTS = 8;
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 15 * 60 * 1000;
+
+// Matches {{op:<operation id>.<path>}} references to a dependency's response
+const RESULT_REF_PATTERN = /\{\{op:([0-9a-f-]+)((?:\.[\w-]+)*)\}\}/gi;
+
+export interface EnqueueOperationInput {
+  entityType: string;
+  entityId: string;
+  url: string;
+  method: string;
+  // Human-readable description shown in the conflict and dead-letter lists
+  label: string;
+  json?: unknown;
+  form?: Array<{ name: string; value: string | Blob; filename?: string }>;
+  headers?: Record<string, string>;
+  dependsOn?: string[];
+  // Defaults to true for PUT, PATCH and DELETE, which change an existing entity
+  versioned?: boolean;
+}
+
+export interface SyncRunResult {
+  sent: number;
+  conflicts: number;
+  deadLettered: number;
+  pending: number;
+  offline: boolean;
+  // When the earliest operation waiting on backoff is due
+  nextAttemptAt?: number;
+}
+
+export type ConflictResolution =
+  | { keep: 'local' }
+  | { keep: 'server' }
+  | { keep: 'merged'; json: unknown };
+
+export class SyncDependencyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncDependencyError';
+  }
+}
+
+// =============================================================================
+// Scheduling
+// =============================================================================
+
+/**
+ * Delay before retry number `attempt`: doubling from two seconds up to
+ * fifteen minutes, with half of it randomised so devices that lost the
+ * connection together do not all retry at once
+ */
+export function computeBackoff(attempt: number, random: () => number = Math.random): number {
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempt - 1));
+  return Math.round(delay / 2 + (random() * delay) / 2);
+}
+
+/**
+ * The operations that can be sent now, at most one per entity. An entity's
+ * later operations wait while an earlier one is in conflict, waiting on a
+ * dependency or backing off, so its edits always arrive in order.
+ */
+export function selectReadyOperations(operations: SyncOperation[], now: number): SyncOperation[] {
+  const completed = new Set(operations.filter((op) => op.status === 'completed').map((op) => op.id));
+  const held = new Set<string>();
+  const ready: SyncOperation[] = [];
+
+  for (const op of [...operations].sort((a, b) => a.sequence - b.sequence)) {
+    if (op.status === 'completed') continue;
+    if (held.has(op.entityKey)) continue;
+    held.add(op.entityKey);
+
+    if (op.status === 'pending' && op.nextAttemptAt <= now && op.dependsOn.every((id) => completed.has(id))) {
+      ready.push(op);
+    }
+  }
+  return ready;
+}
+
+/**
+ * Reference a field of another operation's response, e.g. the id of
+ * evidence uploaded earlier in the same sync
+ */
+export function resultRef(operationId: string, path: string): string {
+  return `{{op:${operationId}.${path}}}`;
+}
+
+function readPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const key of path.split('.').filter(Boolean)) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Replace result references with values from completed operations. A string
+ * that is a single reference takes the referenced value's type.
+ */
+export function resolveResultRefs<T>(value: T, results: Record<string, unknown>): T {
+  const lookup = (id: string, path: string) => {
+    if (!(id in results)) {
+      throw new SyncDependencyError(`Operation ${id} has not completed`);
+    }
+    const resolved = readPath(results[id], path);
+    if (resolved === undefined) {
+      throw new SyncDependencyError(`Operation ${id} response has no ${path.slice(1)}`);
+    }
+    return resolved;
+  };
+
+  const resolve = (input: unknown): unknown => {
+    if (typeof input === 'string') {
+      const whole = new RegExp(`^${RESULT_REF_PATTERN.source}$`, 'i').exec(input);
+      if (whole) return lookup(whole[1], whole[2]);
+      return input.replace(RESULT_REF_PATTERN, (_, id: string, path: string) => String(lookup(id, path)));
+    }
+    if (Array.isArray(input)) return input.map(resolve);
+    if (input && typeof input === 'object' && !(input instanceof Blob)) {
+      return Object.fromEntries(Object.entries(input).map(([key, v]) => [key, resolve(v)]));
+    }
+    return input;
+  };
+
+  return resolve(value) as T;
+}
+
+// =============================================================================
+// Queue
+// =============================================================================
+
+/**
+ * Stable id for this device in version vectors
+ */
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+function entityKey(entityType: string, entityId: string): string {
+  return `${entityType}:${entityId}`;
+}
+
+async function getKnownVersion(key: string): Promise<VersionVector> {
+  return (await getFromStore(STORES.ENTITY_VERSIONS, key))?.vector ?? {};
+}
+
+async function learnVersion(key: string, ...vectors: VersionVector[]): Promise<void> {
+  const known = await getKnownVersion(key);
+  await updateInStore(STORES.ENTITY_VERSIONS, {
+    key,
+    vector: mergeVersionVectors(known, ...vectors),
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Remember the version of an entity fetched from the server (the version
+ * header of its response), so offline edits to it are based on what the
+ * officer was shown
+ */
+export async function rememberEntityVersion(
+  entityType: string,
+  entityId: string,
+  version: VersionVector | string | null
+): Promise<void> {
+  const vector = typeof version === 'string' ? parseVersionVector(version) : version;
+  if (vector) {
+    await learnVersion(entityKey(entityType, entityId), vector);
+  }
+}
+
+/**
+ * Record an operation to send when the device is online
+ */
+export async function enqueueOperation(input: EnqueueOperationInput): Promise<SyncOperation> {
+  const key = entityKey(input.entityType, input.entityId);
+  const operations = await getAllFromStore(STORES.SYNC_OPERATIONS);
+  const sequence = operations.reduce((max, op) => Math.max(max, op.sequence), 0) + 1;
+
+  const body: SyncOperationBody = input.form
+    ? { kind: 'form', fields: input.form }
+    : input.json !== undefined
+      ? { kind: 'json', value: input.json }
+      : { kind: 'none' };
+
+  const operation: SyncOperation = {
+    id: crypto.randomUUID(),
+    entityType: input.entityType,
+    entityId: input.entityId,
+    entityKey: key,
+    label: input.label,
+    url: input.url,
+    method: input.method.toUpperCase(),
+    headers: input.headers ?? {},
+    body,
+    dependsOn: input.dependsOn ?? [],
+    status: 'pending',
+    sequence,
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    createdAt: Date.now(),
+  };
+
+  const versioned = input.versioned ?? ['PUT', 'PATCH', 'DELETE'].includes(operation.method);
+  if (versioned) {
+    // Each local edit builds on the last, queued or not
+    operation.baseVersion = await getKnownVersion(key);
+    operation.version = incrementVersion(operation.baseVersion, getDeviceId());
+    await learnVersion(key, operation.version);
+  }
+
+  await addToStore(STORES.SYNC_OPERATIONS, operation);
+  return operation;
+}
+
+async function deadLetter(operation: SyncOperation, reason: string, responseStatus?: number): Promise<number> {
+  const letter: SyncDeadLetter = { id: operation.id, operation, reason, responseStatus, failedAt: Date.now() };
+  await updateInStore(STORES.SYNC_DEAD_LETTERS, letter);
+  await deleteFromStore(STORES.SYNC_OPERATIONS, operation.id);
+
+  // Nothing that depends on it can succeed either
+  let count = 1;
+  const operations = await getAllFromStore(STORES.SYNC_OPERATIONS);
+  for (const dependent of operations.filter((op) => op.dependsOn.includes(operation.id))) {
+    count += await deadLetter(dependent, `Depends on "${operation.label}", which failed: ${reason}`);
+  }
+  return count;
+}
+
+// Completed operations are kept only while something, including a
+// dead-lettered operation that may be retried, still needs their result
+async function pruneCompleted(): Promise<void> {
+  const [operations, letters] = await Promise.all([
+    getAllFromStore(STORES.SYNC_OPERATIONS),
+    getAllFromStore(STORES.SYNC_DEAD_LETTERS),
+  ]);
+  const needed = new Set([
+    ...operations.filter((op) => op.status !== 'completed').flatMap((op) => op.dependsOn),
+    ...letters.flatMap((letter) => letter.operation.dependsOn),
+  ]);
+  for (const op of operations) {
+    if (op.status === 'completed' && !needed.has(op.id)) {
+      await deleteFromStore(STORES.SYNC_OPERATIONS, op.id);
+    }
+  }
+}
+
+// Operations whose dependency was discarded can never be sent
+async function deadLetterOrphans(): Promise<number> {
+  const [operations, letters] = await Promise.all([
+    getAllFromStore(STORES.SYNC_OPERATIONS),
+    getAllFromStore(STORES.SYNC_DEAD_LETTERS),
+  ]);
+  const known = new Set([...operations.map((op) => op.id), ...letters.map((letter) => letter.id)]);
+
+  let count = 0;
+  for (const op of operations) {
+    if (op.status !== 'completed' && op.dependsOn.some((id) => !known.has(id))) {
+      count += await deadLetter(op, 'An operation it depends on was discarded');
+    }
+  }
+  return count;
+}
+
+function buildRequest(operation: SyncOperation, results: Record<string, unknown>): RequestInit & { url: string } {
+  const headers: Record<string, string> = { ...operation.headers, [SYNC_OPERATION_HEADER]: operation.id };
+  if (operation.baseVersion && operation.version) {
+    headers[SYNC_BASE_VERSION_HEADER] = JSON.stringify(operation.baseVersion);
+    headers[SYNC_VERSION_HEADER] = JSON.stringify(operation.version);
+  }
+
+  let body: BodyInit | undefined;
+  if (operation.body.kind === 'json') {
+    headers['Content-Type'] = 'application/json';
+    body = JSON.stringify(resolveResultRefs(operation.body.value, results));
+  } else if (operation.body.kind === 'form') {
+    const form = new FormData();
+    for (const field of operation.body.fields) {
+      if (typeof field.value === 'string') {
+        form.append(field.name, String(resolveResultRefs(field.value, results)));
+      } else {
+        form.append(field.name, field.value, field.filename);
+      }
+    }
+    body = form;
+  }
+
+  return { url: resolveResultRefs(operation.url, results), method: operation.method, headers, body };
+}
+
+function isRetryable(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+async function readJson(response: Response): Promise<unknown> {
+  try {
+    return await response.json();
+  } catch {
+    return null;
+  }
+}
+
+let activeRun: Promise<SyncRunResult> | null = null;
+
+/**
+ * Send every operation that is ready, one at a time. Concurrent calls share
+ * the run already in progress.
+ */
+export function runSync(): Promise<SyncRunResult> {
+  if (!activeRun) {
+    activeRun = syncOperations().finally(() => {
+      activeRun = null;
+    });
+  }
+  return activeRun;
+}
+
+async function syncOperations(): Promise<SyncRunResult> {
+  const result: SyncRunResult = { sent: 0, conflicts: 0, deadLettered: 0, pending: 0, offline: false };
+
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    result.offline = true;
+  }
+  result.deadLettered += await deadLetterOrphans();
+
+  while (!result.offline) {
+    const operations = await getAllFromStore(STORES.SYNC_OPERATIONS);
+    const [operation] = selectReadyOperations(operations, Date.now());
+    if (!operation) break;
+
+    const results = Object.fromEntries(
+      operations.filter((op) => op.status === 'completed').map((op) => [op.id, op.result])
+    );
+
+    let request: ReturnType<typeof buildRequest>;
+    try {
+      request = buildRequest(operation, results);
+    } catch (error) {
+      result.deadLettered += await deadLetter(operation, (error as Error).message);
+      continue;
+    }
+
+    let response: Response;
+    try {
+      const { url, ...init } = request;
+      response = await fetch(url, init);
+    } catch (error) {
+      // No connection: try again later without using up an attempt
+      await updateInStore(STORES.SYNC_OPERATIONS, {
+        ...operation,
+        lastError: (error as Error).message,
+        nextAttemptAt: Date.now() + computeBackoff(1),
+      });
+      result.offline = true;
+      break;
+    }
+
+    const body = await readJson(response);
+
+    if (response.ok) {
+      await updateInStore(STORES.SYNC_OPERATIONS, {
+        ...operation,
+        status: 'completed',
+        result: body,
+        lastError: undefined,
+      });
+      if (operation.version) {
+        const serverVersion = parseVersionVector(response.headers.get(SYNC_VERSION_HEADER) ?? '');
+        await learnVersion(operation.entityKey, operation.version, serverVersion ?? {});
+      }
+      result.sent++;
+      continue;
+    }
+
+    const conflict = (body as SyncConflictBody | null)?.conflict;
+    if (response.status === 409 && conflict) {
+      await updateInStore(STORES.SYNC_OPERATIONS, {
+        ...operation,
+        status: 'conflict',
+        conflict: { serverVersion: conflict.serverVersion, current: conflict.current, detectedAt: Date.now() },
+      });
+      result.conflicts++;
+      continue;
+    }
+
+    const message = (body as { error?: string } | null)?.error ?? `Request failed with ${response.status}`;
+    const attempts = operation.attempts + 1;
+    if (!isRetryable(response.status) || attempts >= MAX_SYNC_ATTEMPTS) {
+      result.deadLettered += await deadLetter(operation, message, response.status);
+      continue;
+    }
+
+    await updateInStore(STORES.SYNC_OPERATIONS, {
+      ...operation,
+      attempts,
+      lastError: message,
+      nextAttemptAt: Date.now() + computeBackoff(attempts),
+    });
+  }
+
+  await pruneCompleted();
+
+  const remaining = (await getAllFromStore(STORES.SYNC_OPERATIONS)).filter((op) => op.status !== 'completed');
+  result.pending = remaining.length;
+  const waiting = remaining.filter((op) => op.status === 'pending').map((op) => op.nextAttemptAt);
+  if (waiting.length > 0) {
+    result.nextAttemptAt = Math.min(...waiting);
+  }
+  return result;
+}
+
+// =============================================================================
+// Conflicts and Dead Letters
+// =============================================================================
+
+export async function getSyncConflicts(): Promise<SyncOperation[]> {
+  const operations = await getAllFromStore(STORES.SYNC_OPERATIONS);
+  return operations.filter((op) => op.status === 'conflict').sort((a, b) => a.sequence - b.sequence);
+}
+
+export async function getPendingOperations(): Promise<SyncOperation[]> {
+  const operations = await getAllFromStore(STORES.SYNC_OPERATIONS);
+  return operations.filter((op) => op.status === 'pending').sort((a, b) => a.sequence - b.sequence);
+}
+
+/**
+ * Settle a conflict. Keeping the local or a merged edit resends it on top
+ * of the server's version; keeping the server's version drops the local
+ * edit. Later queued edits to the same entity are moved on top of the
+ * server's version too, since they were made after this one.
+ */
+export async function resolveSyncConflict(operationId: string, resolution: ConflictResolution): Promise<void> {
+  const operation = await getFromStore(STORES.SYNC_OPERATIONS, operationId);
+  if (!operation || operation.status !== 'conflict' || !operation.conflict) return;
+
+  const { serverVersion } = operation.conflict;
+  await learnVersion(operation.entityKey, serverVersion);
+
+  const later = (await getAllFromStore(STORES.SYNC_OPERATIONS)).filter(
+    (op) => op.entityKey === operation.entityKey && op.sequence > operation.sequence && op.version
+  );
+  for (const op of later) {
+    await updateInStore(STORES.SYNC_OPERATIONS, {
+      ...op,
+      baseVersion: mergeVersionVectors(op.baseVersion ?? {}, serverVersion),
+      version: mergeVersionVectors(op.version ?? {}, serverVersion),
+    });
+  }
+
+  if (resolution.keep === 'server') {
+    await deadLetter(operation, 'Discarded in favour of the server version', 409);
+    return;
+  }
+
+  const baseVersion = mergeVersionVectors(operation.baseVersion ?? {}, serverVersion);
+  const version = incrementVersion(mergeVersionVectors(operation.version ?? {}, serverVersion), getDeviceId());
+  await learnVersion(operation.entityKey, version);
+  await updateInStore(STORES.SYNC_OPERATIONS, {
+    ...operation,
+    body: resolution.keep === 'merged' ? { kind: 'json', value: resolution.json } : operation.body,
+    baseVersion,
+    version,
+    status: 'pending',
+    conflict: undefined,
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+  });
+}
+
+export async function getDeadLetters(): Promise<SyncDeadLetter[]> {
+  const letters = await getAllFromStore(STORES.SYNC_DEAD_LETTERS);
+  return letters.sort((a, b) => b.failedAt - a.failedAt);
+}
+
+/**
+ * Put a dead-lettered operation back on the queue with its attempts reset,
+ * along with any dead-lettered operations it depends on
+ */
+export async function retryDeadLetter(id: string): Promise<void> {
+  const letter = await getFromStore(STORES.SYNC_DEAD_LETTERS, id);
+  if (!letter) return;
+
+  for (const dependencyId of letter.operation.dependsOn) {
+    await retryDeadLetter(dependencyId);
+  }
+
+  await updateInStore(STORES.SYNC_OPERATIONS, {
+    ...letter.operation,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    lastError: undefined,
+  });
+  await deleteFromStore(STORES.SYNC_DEAD_LETTERS, id);
+}
+
+export async function discardDeadLetter(id: string): Promise<void> {
+  await deleteFromStore(STORES.SYNC_DEAD_LETTERS, id);
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import type { AmberAlertArea } from '@/types';
+import {
+  addToReachEstimate,
+  alertAreaFor,
+  areaSizeKm2,
+  distanceToArea,
+  emptyReachEstimate,
+  expansionKm,
+  filterRecipientsByArea,
+  isRecipientInArea,
+  locateRow,
+  type AreaTarget,
+} from './alert-area';
+
+const edmonton = { lat: 53.5461, lng: -113.4938 };
+const calgary = { lat: 51.0447, lng: -114.0719 };
+const redDeer = { lat: 52.2681, lng: -113.8112 };
+const saskatoon = { lat: 52.1332, lng: -106.67 };
+
+const radius: AmberAlertArea = { type: 'radius', center: edmonton, radius_km: 50 };
+// Highway 2 between Edmonton and Calgary
+const corridor: AmberAlertArea = { type: 'corridor', points: [edmonton, redDeer, calgary], buffer_km: 10, highways: ['Hwy 2'] };
+const square: AmberAlertArea = {
+  type: 'polygon',
+  points: [
+    { lat: 53, lng: -114 },
+    { lat: 53, lng: -113 },
+    { lat: 54, lng: -113 },
+    { lat: 54, lng: -114 },
+  ],
+};
+
+describe('alertAreaFor', () => {
+  it('prefers the drawn area and falls back to a radius around the target point', () => {
+    expect(alertAreaFor({ target_area: corridor, target_coordinates: '(-113.4938,53.5461)', target_radius_km: 20 })).toBe(
+      corridor
+    );
+    expect(alertAreaFor({ target_coordinates: '(-113.4938,53.5461)', target_radius_km: 20 })).toEqual({
+      type: 'radius',
+      center: edmonton,
+      radius_km: 20,
+    });
+    expect(alertAreaFor({ target_coordinates: '(-113.4938,53.5461)' })).toBeNull();
+  });
+});
+
+describe('expansionKm', () => {
+  const schedule = { step_km: 10, every_minutes: 60, max_km: 25 };
+  const issued = '2026-01-20T15:00:00.000Z';
+
+  it('widens one step per elapsed interval up to the cap', () => {
+    expect(expansionKm(schedule, issued, new Date('2026-01-20T15:59:00.000Z'))).toBe(0);
+    expect(expansionKm(schedule, issued, new Date('2026-01-20T17:00:00.000Z'))).toBe(20);
+    expect(expansionKm(schedule, issued, new Date('2026-01-21T15:00:00.000Z'))).toBe(25);
+  });
+
+  it('does not widen without a schedule', () => {
+    expect(expansionKm(null, issued)).toBe(0);
+  });
+});
+
+describe('distanceToArea', () => {
+  it('is zero inside each kind of area', () => {
+    expect(distanceToArea(edmonton, radius)).toBe(0);
+    expect(distanceToArea(redDeer, corridor)).toBe(0);
+    expect(distanceToArea({ lat: 53.5, lng: -113.5 }, square)).toBe(0);
+  });
+
+  it('measures from the edge outside the area', () => {
+    // Red Deer is roughly 145 km from Edmonton
+    expect(distanceToArea(redDeer, radius)).toBeGreaterThan(90);
+    expect(distanceToArea(redDeer, radius)).toBeLessThan(100);
+    expect(distanceToArea(saskatoon, corridor)).toBeGreaterThan(400);
+    expect(distanceToArea({ lat: 52.5, lng: -113.5 }, square)).toBeCloseTo(55.6, 0);
+  });
+});
+
+describe('isRecipientInArea', () => {
+  const target: AreaTarget = { area: radius, marginKm: 0, provinces: ['AB'] };
+
+  it('matches located recipients on distance, allowing for their own reach', () => {
+    expect(isRecipientInArea({ location: redDeer }, target)).toBe(false);
+    expect(isRecipientInArea({ location: redDeer }, { ...target, marginKm: 100 })).toBe(true);
+    expect(isRecipientInArea({ location: redDeer, reachKm: 120 }, target)).toBe(true);
+  });
+
+  it('matches recipients without a location by province', () => {
+    expect(isRecipientInArea({ provinces: ['AB'] }, target)).toBe(true);
+    expect(isRecipientInArea({ provinces: ['SK'] }, target)).toBe(false);
+    expect(isRecipientInArea({ location: saskatoon, provinces: ['SK'] }, { area: null, marginKm: 0, provinces: ['SK'] })).toBe(
+      true
+    );
+  });
+});
+
+describe('filterRecipientsByArea', () => {
+  const rows = [
+    { id: 'edmonton', latitude: edmonton.lat, longitude: edmonton.lng, province: 'AB' },
+    { id: 'red-deer', latitude: redDeer.lat, longitude: redDeer.lng, province: 'AB' },
+    { id: 'unlocated', latitude: null, longitude: null, province: 'AB' },
+    { id: 'saskatoon', latitude: saskatoon.lat, longitude: saskatoon.lng, province: 'SK' },
+  ];
+
+  it('keeps recipients inside the area', () => {
+    const target: AreaTarget = { area: radius, marginKm: 0, provinces: ['AB'] };
+    expect(filterRecipientsByArea(rows, locateRow, target).map((r) => r.id)).toEqual(['edmonton', 'unlocated']);
+  });
+
+  it('adds only newly covered recipients when the area widens', () => {
+    const reached: AreaTarget = { area: radius, marginKm: 0, provinces: ['AB'] };
+    const widened: AreaTarget = { ...reached, marginKm: 120 };
+    expect(filterRecipientsByArea(rows, locateRow, widened, reached).map((r) => r.id)).toEqual(['red-deer']);
+  });
+
+  it('reaches located recipients outside the provinces when an area replaces them', () => {
+    const reached: AreaTarget = { area: null, marginKm: 0, provinces: ['AB'] };
+    const drawn: AreaTarget = { area: { type: 'radius', center: saskatoon, radius_km: 20 }, marginKm: 0, provinces: ['AB'] };
+    expect(filterRecipientsByArea(rows, locateRow, drawn, reached).map((r) => r.id)).toEqual(['saskatoon']);
+  });
+});
+
+describe('reach estimate', () => {
+  it('sizes the area and counts recipients per channel', () => {
+    const target: AreaTarget = { area: radius, marginKm: 10, provinces: ['AB'] };
+    let estimate = emptyReachEstimate(target);
+    estimate = addToReachEstimate(
+      estimate,
+      'sms',
+      [{ location: edmonton }, { location: saskatoon }, { provinces: ['AB'] }],
+      target
+    );
+    estimate = addToReachEstimate(estimate, 'media_outlet', [{ location: redDeer, reachKm: 100 }], target);
+
+    expect(estimate.area_km2).toBe(Math.round(Math.PI * 60 ** 2));
+    expect(estimate.by_channel).toEqual({ sms: 2, media_outlet: 1 });
+    expect(estimate.total).toBe(3);
+    expect(estimate.matched_by_province).toBe(1);
+  });
+
+  it('sizes corridors and polygons including the margin', () => {
+    expect(areaSizeKm2(square)).toBeGreaterThan(7000);
+    expect(areaSizeKm2(square, 10)).toBeGreaterThan(areaSizeKm2(square));
+    // ~280 km of highway, 10 km either side
+    expect(areaSizeKm2(corridor)).toBeGreaterThan(5500);
+    expect(areaSizeKm2(corridor)).toBeLessThan(6500);
+  });
+});
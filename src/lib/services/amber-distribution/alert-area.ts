@@ -0,0 +1,198 @@
+/**
+ * AMBER Alert Areas
+ * Geometry for the area an alert targets: a radius around the last sighting,
+ * a polygon, or a corridor along the highways a vehicle may be on. Areas can
+ * widen on a schedule as the alert ages; the widening is applied as a margin
+ * around the base shape. Recipients with a location are matched against the
+ * area, recipients without one by province.
+ */
+
+import {
+  haversineDistance,
+  isPointInPolygon,
+  pointToSegmentDistance,
+  type LatLng,
+} from '@/lib/services/geofence-spatial-index';
+import { polygonArea, projection } from '@/lib/services/search-planning';
+import type {
+  AmberAlert,
+  AmberAlertArea,
+  AmberAreaExpansion,
+  AmberDistributionChannel,
+  AmberReachEstimate,
+} from '@/types';
+import { parsePoint } from './cap-message';
+
+export interface AreaRecipient {
+  location?: LatLng | null;
+  // How far the recipient itself reaches, e.g. a station's coverage radius
+  reachKm?: number | null;
+  // Provinces the recipient is in or covers
+  provinces?: string[];
+}
+
+export interface AreaTarget {
+  area: AmberAlertArea | null;
+  marginKm: number;
+  provinces: string[];
+}
+
+/**
+ * The alert's area: the one drawn by the officer, otherwise a radius around
+ * the target coordinates
+ */
+export function alertAreaFor(
+  alert: Pick<AmberAlert, 'target_area' | 'target_coordinates' | 'target_radius_km'>
+): AmberAlertArea | null {
+  if (alert.target_area) return alert.target_area;
+
+  const center = parsePoint(alert.target_coordinates);
+  if (!center || !alert.target_radius_km) return null;
+  return { type: 'radius', center, radius_km: alert.target_radius_km };
+}
+
+/**
+ * How far the area has widened by `now`
+ */
+export function expansionKm(
+  expansion: AmberAreaExpansion | null | undefined,
+  issuedAt: string,
+  now: Date = new Date()
+): number {
+  if (!expansion || expansion.step_km <= 0 || expansion.every_minutes <= 0) return 0;
+
+  const elapsedMinutes = (now.getTime() - new Date(issuedAt).getTime()) / 60000;
+  const steps = Math.max(0, Math.floor(elapsedMinutes / expansion.every_minutes));
+  return Math.min(expansion.max_km, steps * expansion.step_km);
+}
+
+/**
+ * Distance in km from a point to the area; 0 inside it
+ */
+export function distanceToArea(point: LatLng, area: AmberAlertArea): number {
+  if (area.type === 'radius') {
+    return Math.max(0, haversineDistance(point, area.center) - area.radius_km);
+  }
+
+  const { points } = area;
+  if (points.length === 0) return Infinity;
+  if (area.type === 'polygon' && points.length >= 3 && isPointInPolygon(point, points)) {
+    return 0;
+  }
+
+  let nearest = points.length === 1 ? haversineDistance(point, points[0]) : Infinity;
+  // Polygons close back to their first vertex; corridors do not
+  const segmentCount = area.type === 'polygon' ? points.length : points.length - 1;
+  for (let i = 0; i < segmentCount; i++) {
+    nearest = Math.min(nearest, pointToSegmentDistance(point, points[i], points[(i + 1) % points.length]));
+  }
+
+  return area.type === 'corridor' ? Math.max(0, nearest - area.buffer_km) : nearest;
+}
+
+export function isRecipientInArea(recipient: AreaRecipient, target: AreaTarget): boolean {
+  if (target.area && recipient.location) {
+    return distanceToArea(recipient.location, target.area) <= target.marginKm + (recipient.reachKm ?? 0);
+  }
+  if (target.provinces.length === 0) return true;
+  return (recipient.provinces ?? []).some((province) => target.provinces.includes(province));
+}
+
+/**
+ * Recipients the target covers. With `alreadyReached`, recipients that
+ * target covered are left out, so a widened area only adds new people;
+ * recipients matched by province were reached the first time.
+ */
+export function filterRecipientsByArea<T>(
+  recipients: T[],
+  locate: (recipient: T) => AreaRecipient,
+  target: AreaTarget,
+  alreadyReached?: AreaTarget
+): T[] {
+  return recipients.filter((recipient) => {
+    const where = locate(recipient);
+    if (!isRecipientInArea(where, target)) return false;
+    if (!alreadyReached) return true;
+    if (!where.location) return false;
+    return !isRecipientInArea(where, alreadyReached);
+  });
+}
+
+/**
+ * Approximate size of the area in km², including the widening margin
+ */
+export function areaSizeKm2(area: AmberAlertArea, marginKm = 0): number {
+  if (area.type === 'radius') {
+    return Math.PI * (area.radius_km + marginKm) ** 2;
+  }
+
+  const { points } = area;
+  if (points.length === 0) return 0;
+  const plane = projection(points[0]);
+  const projected = points.map((p) => plane.toPlane(p));
+
+  let length = 0;
+  const segmentCount = area.type === 'polygon' ? projected.length : projected.length - 1;
+  for (let i = 0; i < segmentCount; i++) {
+    const a = projected[i];
+    const b = projected[(i + 1) % projected.length];
+    length += Math.hypot(b.x - a.x, b.y - a.y);
+  }
+
+  if (area.type === 'corridor') {
+    const half = area.buffer_km + marginKm;
+    return 2 * half * length + Math.PI * half ** 2;
+  }
+  // Polygon grown by the margin: area + perimeter × margin + rounded corners
+  return polygonArea(projected) + length * marginKm + Math.PI * marginKm ** 2;
+}
+
+export function emptyReachEstimate(target: AreaTarget): AmberReachEstimate {
+  return {
+    area_km2: target.area ? Math.round(areaSizeKm2(target.area, target.marginKm)) : null,
+    margin_km: target.marginKm,
+    total: 0,
+    by_channel: {},
+    matched_by_province: 0,
+  };
+}
+
+/**
+ * Add the recipients a channel would reach to an estimate
+ */
+export function addToReachEstimate(
+  estimate: AmberReachEstimate,
+  channel: AmberDistributionChannel,
+  recipients: AreaRecipient[],
+  target: AreaTarget
+): AmberReachEstimate {
+  const reached = recipients.filter((recipient) => isRecipientInArea(recipient, target));
+  const byProvince = target.area ? reached.filter((recipient) => !recipient.location).length : 0;
+
+  return {
+    ...estimate,
+    total: estimate.total + reached.length,
+    by_channel: { ...estimate.by_channel, [channel]: (estimate.by_channel[channel] ?? 0) + reached.length },
+    matched_by_province: estimate.matched_by_province + byProvince,
+  };
+}
+
+/**
+ * Read a recipient's whereabouts from a partner, media contact or
+ * subscriber row
+ */
+export function locateRow(row: {
+  latitude?: number | null;
+  longitude?: number | null;
+  province?: string | null;
+  coverage_area?: string[] | null;
+  coverage_radius_km?: number | string | null;
+}): AreaRecipient {
+  const located = typeof row.latitude === 'number' && typeof row.longitude === 'number';
+  return {
+    location: located ? { lat: row.latitude as number, lng: row.longitude as number } : null,
+    // NUMERIC columns come back as strings
+    reachKm: row.coverage_radius_km != null ? Number(row.coverage_radius_km) : null,
+    provinces: row.coverage_area ?? (row.province ? [row.province] : []),
+  };
+}
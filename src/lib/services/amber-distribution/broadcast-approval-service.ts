@@ -0,0 +1,464 @@
+/**
+ * Broadcast Approval Service
+ * Queues each CAP message for WEA, EAS and highway signs for a second
+ * person's approval. Approval releases the message to the CAP feed and marks
+ * the queued broadcast distributions sent; requests left undecided past
+ * their window expire. Every step is written to the distribution log.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  BROADCAST_CHANNELS,
+  BroadcastApprovalError,
+  DEFAULT_BROADCAST_POLICIES,
+  approvalDeadline,
+  assertBroadcastReviewer,
+  diffBroadcastContent,
+  extractBroadcastContent,
+  isBroadcastChannel,
+  reviewErrorFromDatabase,
+  type BroadcastApprovalStatus,
+  type BroadcastChange,
+  type BroadcastChannel,
+  type BroadcastChannelPolicy,
+} from './broadcast-approval';
+
+export interface BroadcastApproval {
+  id: string;
+  amberAlertId: string;
+  capMessageId: string;
+  channels: BroadcastChannel[];
+  status: BroadcastApprovalStatus;
+  requestedBy: string | null;
+  requestedAt: string;
+  expiresAt: string;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  reviewNotes: string | null;
+  changes: BroadcastChange[];
+  // Joined for the approver queue
+  alertNumber: string | null;
+  childName: string | null;
+  capIdentifier: string | null;
+  msgType: string | null;
+  messageAuthor: string | null;
+}
+
+const APPROVAL_SELECT = `
+  *,
+  amber_alert:amber_alerts(alert_number, child_name),
+  cap_message:amber_cap_messages(identifier, msg_type, created_by)
+`;
+
+function joined<T>(value: unknown): T | null {
+  return ((Array.isArray(value) ? value[0] : value) as T) ?? null;
+}
+
+function mapApproval(row: Record<string, unknown>): BroadcastApproval {
+  const alert = joined<{ alert_number: string | null; child_name: string | null }>(row.amber_alert);
+  const message = joined<{ identifier: string; msg_type: string; created_by: string | null }>(row.cap_message);
+  return {
+    id: row.id as string,
+    amberAlertId: row.amber_alert_id as string,
+    capMessageId: row.cap_message_id as string,
+    channels: (row.channels as BroadcastChannel[]) || [],
+    status: row.status as BroadcastApprovalStatus,
+    requestedBy: (row.requested_by as string) || null,
+    requestedAt: row.requested_at as string,
+    expiresAt: row.expires_at as string,
+    reviewedBy: (row.reviewed_by as string) || null,
+    reviewedAt: (row.reviewed_at as string) || null,
+    reviewNotes: (row.review_notes as string) || null,
+    changes: (row.broadcast_diff as BroadcastChange[]) || [],
+    alertNumber: alert?.alert_number ?? null,
+    childName: alert?.child_name ?? null,
+    capIdentifier: message?.identifier ?? null,
+    msgType: message?.msg_type ?? null,
+    messageAuthor: message?.created_by ?? null,
+  };
+}
+
+export class BroadcastApprovalService {
+  // Routes pass the caller's client; the job worker passes a service-role one
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Approver roles and windows per channel, from distribution_channel_config
+   */
+  async getPolicies(): Promise<Record<BroadcastChannel, BroadcastChannelPolicy>> {
+    const policies = { ...DEFAULT_BROADCAST_POLICIES };
+
+    const { data } = await this.supabase
+      .from('distribution_channel_config')
+      .select('channel, approver_roles, approval_window_minutes')
+      .in('channel', BROADCAST_CHANNELS);
+
+    for (const row of data || []) {
+      const channel = row.channel as BroadcastChannel;
+      policies[channel] = {
+        approverRoles: (row.approver_roles as string[] | null) ?? policies[channel].approverRoles,
+        approvalWindowMinutes: (row.approval_window_minutes as number | null) ?? policies[channel].approvalWindowMinutes,
+      };
+    }
+
+    return policies;
+  }
+
+  async getApproval(approvalId: string): Promise<BroadcastApproval | null> {
+
+    const { data, error } = await this.supabase
+      .from('amber_broadcast_approvals')
+      .select(APPROVAL_SELECT)
+      .eq('id', approvalId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch broadcast approval: ${error.message}`);
+    }
+
+    return data ? mapApproval(data) : null;
+  }
+
+  /**
+   * The approver queue, oldest first. Requests past their window are
+   * expired before the queue is read.
+   */
+  async listApprovals(filters: { status?: BroadcastApprovalStatus; alertId?: string } = {}): Promise<BroadcastApproval[]> {
+    await this.expireStaleApprovals();
+
+    let query = this.supabase
+      .from('amber_broadcast_approvals')
+      .select(APPROVAL_SELECT)
+      .order('requested_at', { ascending: filters.status === 'pending' })
+      .limit(100);
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters.alertId) {
+      query = query.eq('amber_alert_id', filters.alertId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch broadcast approvals: ${error.message}`);
+    }
+
+    return (data || []).map(mapApproval);
+  }
+
+  /**
+   * Ask for approval to broadcast the alert's latest CAP message on the
+   * given channels. An open request for the same message gains the channels;
+   * requests for older messages are superseded. Returns null when nothing
+   * needs approving: cancels go out without it.
+   */
+  async requestApproval(
+    alertId: string,
+    channels: BroadcastChannel[],
+    requestedBy: string | null
+  ): Promise<BroadcastApproval | null> {
+    const wanted = channels.filter(isBroadcastChannel);
+    if (wanted.length === 0) return null;
+
+    const { data: alert } = await this.supabase
+      .from('amber_alerts')
+      .select('id, requesting_officer_id')
+      .eq('id', alertId)
+      .maybeSingle();
+
+    if (!alert) {
+      throw new BroadcastApprovalError('alert_not_found', 'AMBER Alert not found');
+    }
+
+    const { data: message } = await this.supabase
+      .from('amber_cap_messages')
+      .select('id, identifier, msg_type, xml, released_at')
+      .eq('amber_alert_id', alertId)
+      .order('sent_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!message) {
+      throw new BroadcastApprovalError('no_cap_message', 'No CAP message has been generated for this alert');
+    }
+    if (message.msg_type === 'Cancel') {
+      return null;
+    }
+
+    await this.expireStaleApprovals();
+    const { data: existing } = await this.supabase
+      .from('amber_broadcast_approvals')
+      .select(APPROVAL_SELECT)
+      .eq('cap_message_id', message.id)
+      .in('status', ['pending', 'approved']);
+
+    const approved = (existing || []).map(mapApproval).filter((a) => a.status === 'approved');
+    const covered = new Set(approved.flatMap((a) => a.channels));
+    const missing = wanted.filter((channel) => !covered.has(channel));
+    if (missing.length === 0) {
+      return approved[approved.length - 1];
+    }
+
+    const pending = (existing || []).map(mapApproval).find((a) => a.status === 'pending');
+    if (pending) {
+      const merged = Array.from(new Set([...pending.channels, ...missing]));
+      if (merged.length === pending.channels.length) return pending;
+
+      const policies = await this.getPolicies();
+      const deadline = approvalDeadline(merged, policies, new Date(pending.requestedAt));
+      const { data, error } = await this.supabase
+        .from('amber_broadcast_approvals')
+        .update({ channels: merged, expires_at: deadline.toISOString() })
+        .eq('id', pending.id)
+        .eq('status', 'pending')
+        .select(APPROVAL_SELECT)
+        .single();
+
+      if (error || !data) {
+        throw new Error(`Failed to update broadcast approval: ${error?.message}`);
+      }
+      return mapApproval(data);
+    }
+
+    await this.supersedePending(alertId, 'A newer CAP message replaced this request');
+
+    // Diff against what is on air now: the last message released to the feed
+    const { data: onAir } = await this.supabase
+      .from('amber_cap_messages')
+      .select('xml')
+      .eq('amber_alert_id', alertId)
+      .not('released_at', 'is', null)
+      .order('sent_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const changes = diffBroadcastContent(
+      onAir ? extractBroadcastContent(onAir.xml as string) : null,
+      extractBroadcastContent(message.xml as string)
+    );
+
+    const policies = await this.getPolicies();
+    const requestedAt = new Date();
+    const requester = requestedBy ?? (alert.requesting_officer_id as string | null);
+
+    const { data, error } = await this.supabase
+      .from('amber_broadcast_approvals')
+      .insert({
+        amber_alert_id: alertId,
+        cap_message_id: message.id,
+        channels: missing,
+        requested_by: requester,
+        requested_at: requestedAt.toISOString(),
+        expires_at: approvalDeadline(missing, policies, requestedAt).toISOString(),
+        broadcast_diff: changes,
+      })
+      .select(APPROVAL_SELECT)
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to create broadcast approval: ${error?.message}`);
+    }
+
+    const approval = mapApproval(data);
+    await this.logEvent(approval, 'broadcast_approval_requested', requester, {
+      message: `Approval requested to broadcast CAP ${approval.msgType} ${approval.capIdentifier} on ${missing.join(', ')}`,
+    });
+    return approval;
+  }
+
+  /**
+   * Record the second person's decision. Approval releases the message to
+   * the CAP feed and the queued broadcast distributions with it.
+   */
+  async reviewApproval(
+    approvalId: string,
+    decision: 'approve' | 'reject',
+    reviewer: { id: string; role: string },
+    notes?: string
+  ): Promise<BroadcastApproval> {
+    const approval = await this.getApproval(approvalId);
+
+    if (!approval) {
+      throw new BroadcastApprovalError('approval_not_found', 'Broadcast approval not found');
+    }
+
+    const policies = await this.getPolicies();
+    try {
+      assertBroadcastReviewer(approval, reviewer, policies);
+    } catch (err) {
+      if (err instanceof BroadcastApprovalError && err.code === 'expired') {
+        await this.expireStaleApprovals();
+      }
+      throw err;
+    }
+
+    // The database repeats these checks under a row lock and releases the
+    // message, so a reviewer cannot approve their own request by writing the
+    // row directly
+    const { error } = await this.supabase.rpc('review_broadcast_approval', {
+      p_approval_id: approvalId,
+      p_decision: decision,
+      p_notes: notes ?? null,
+    });
+
+    if (error) {
+      throw reviewErrorFromDatabase(error.message) ?? new Error(`Failed to review broadcast approval: ${error.message}`);
+    }
+
+    const reviewed = await this.getApproval(approvalId);
+    if (!reviewed) {
+      throw new BroadcastApprovalError('approval_not_found', 'Broadcast approval not found');
+    }
+
+    await this.logEvent(reviewed, decision === 'approve' ? 'broadcast_approved' : 'broadcast_rejected', reviewer.id, {
+      message: `${decision === 'approve' ? 'Approved' : 'Rejected'} broadcast of CAP ${reviewed.msgType} ${reviewed.capIdentifier} on ${reviewed.channels.join(', ')}${reviewed.reviewNotes ? `: ${reviewed.reviewNotes}` : ''}`,
+    });
+
+    if (decision === 'approve') {
+      await this.release(reviewed, reviewer.id);
+    } else {
+      await this.supabase
+        .from('amber_distributions')
+        .update({ status_message: `Broadcast rejected: ${reviewed.reviewNotes ?? 'no reason given'}` })
+        .eq('amber_alert_id', reviewed.amberAlertId)
+        .in('channel', reviewed.channels)
+        .eq('status', 'queued');
+    }
+
+    return reviewed;
+  }
+
+  /**
+   * CAP identifier a broadcast channel may carry now: the alert's latest
+   * message, if an approval for the channel released it
+   */
+  async getReleasedIdentifier(alertId: string, channel: BroadcastChannel): Promise<string | null> {
+
+    const { data: message } = await this.supabase
+      .from('amber_cap_messages')
+      .select('id, identifier, released_at')
+      .eq('amber_alert_id', alertId)
+      .order('sent_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!message?.released_at) return null;
+
+    const { data: approvals } = await this.supabase
+      .from('amber_broadcast_approvals')
+      .select('channels')
+      .eq('cap_message_id', message.id)
+      .eq('status', 'approved');
+
+    const released = (approvals || []).some((a) => (a.channels as string[]).includes(channel));
+    return released ? (message.identifier as string) : null;
+  }
+
+  /**
+   * Close open requests for an alert, e.g. when a newer message or a cancel
+   * replaces the one they were raised for
+   */
+  async supersedePending(alertId: string, reason: string): Promise<number> {
+
+    const { data, error } = await this.supabase
+      .from('amber_broadcast_approvals')
+      .update({ status: 'superseded', review_notes: reason })
+      .eq('amber_alert_id', alertId)
+      .eq('status', 'pending')
+      .select(APPROVAL_SELECT);
+
+    if (error) {
+      throw new Error(`Failed to supersede broadcast approvals: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      await this.logEvent(mapApproval(row), 'broadcast_approval_superseded', null, { message: reason });
+    }
+    return data?.length || 0;
+  }
+
+  private async expireStaleApprovals(): Promise<void> {
+
+    const { data } = await this.supabase
+      .from('amber_broadcast_approvals')
+      .update({ status: 'expired' })
+      .eq('status', 'pending')
+      .lte('expires_at', new Date().toISOString())
+      .select(APPROVAL_SELECT);
+
+    for (const row of data || []) {
+      const approval = mapApproval(row);
+      await this.logEvent(approval, 'broadcast_approval_expired', null, {
+        message: `Approval window closed without a decision on ${approval.channels.join(', ')}`,
+      });
+    }
+  }
+
+  /**
+   * Mark the queued broadcast distributions sent once review_broadcast_approval
+   * has released the message. Throws rather than logging a release that did
+   * not happen.
+   */
+  private async release(approval: BroadcastApproval, reviewerId: string): Promise<void> {
+
+    const { data: message, error: messageError } = await this.supabase
+      .from('amber_cap_messages')
+      .select('released_at')
+      .eq('id', approval.capMessageId)
+      .single();
+
+    if (messageError || !message?.released_at) {
+      throw new Error(
+        `CAP ${approval.capIdentifier} was not released: ${messageError?.message || 'message still held'}`
+      );
+    }
+
+    const { data: distributions, error } = await this.supabase
+      .from('amber_distributions')
+      .update({
+        status: 'sent',
+        sent_at: message.released_at,
+        external_id: approval.capIdentifier,
+        status_message: 'Released to the CAP feed after two-person approval',
+      })
+      .eq('amber_alert_id', approval.amberAlertId)
+      .in('channel', approval.channels)
+      .in('status', ['pending', 'queued'])
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to mark broadcast distributions sent: ${error.message}`);
+    }
+
+    await this.logEvent(approval, 'broadcast_released', reviewerId, {
+      message: `CAP ${approval.msgType} ${approval.capIdentifier} released to the feed; ${distributions?.length || 0} distribution(s) sent`,
+      newStatus: 'sent',
+    });
+  }
+
+  private async logEvent(
+    approval: BroadcastApproval,
+    eventType: string,
+    actorId: string | null,
+    details: { message: string; newStatus?: 'sent' }
+  ): Promise<void> {
+
+    await this.supabase.from('amber_distribution_log').insert({
+      amber_alert_id: approval.amberAlertId,
+      event_type: eventType,
+      new_status: details.newStatus,
+      message: details.message,
+      metadata: {
+        approval_id: approval.id,
+        cap_message_id: approval.capMessageId,
+        cap_identifier: approval.capIdentifier,
+        channels: approval.channels,
+        status: approval.status,
+      },
+      actor_id: actorId,
+      actor_type: actorId ? 'user' : 'system',
+    });
+  }
+}
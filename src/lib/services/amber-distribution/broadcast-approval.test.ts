@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import type { AmberAlert } from '@/types';
+import { buildCapMessage } from './cap-message';
+import {
+  BroadcastApprovalError,
+  DEFAULT_BROADCAST_POLICIES,
+  approvalDeadline,
+  assertBroadcastReviewer,
+  diffBroadcastContent,
+  extractBroadcastContent,
+  isBroadcastChannel,
+  reviewErrorFromDatabase,
+} from './broadcast-approval';
+
+const alert: AmberAlert = {
+  id: 'b3f1c2d4-0000-4000-8000-000000000001',
+  case_id: 'case-1',
+  alert_number: 'AMBER-2026-AB-001',
+  alert_status: 'active',
+  child_name: 'Maya Thompson',
+  child_age: 7,
+  child_description: 'Brown hair, pink jacket',
+  abduction_date: '2026-01-20',
+  abduction_location: 'Whyte Ave & 104 St',
+  abduction_city: 'Edmonton',
+  abduction_province: 'AB',
+  vehicle_involved: false,
+  target_provinces: ['AB'],
+  distribution_channels: ['wea', 'eas'],
+  requesting_officer_name: 'Cst. Lee',
+  requesting_officer_phone: '780-555-0100',
+  requesting_officer_agency: 'Edmonton Police Service',
+  issued_at: '2026-01-20T15:00:00.000Z',
+  created_at: '2026-01-20T15:00:00.000Z',
+  updated_at: '2026-01-20T15:00:00.000Z',
+};
+
+const now = new Date('2026-01-20T15:10:00.000Z');
+const pending = {
+  status: 'pending' as const,
+  expiresAt: '2026-01-20T15:30:00.000Z',
+  requestedBy: 'officer-1',
+  messageAuthor: 'officer-1',
+  channels: ['wea' as const, 'highway_signs' as const],
+};
+
+function reviewError(fn: () => void): string | undefined {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof BroadcastApprovalError) return err.code;
+    throw err;
+  }
+  return undefined;
+}
+
+describe('assertBroadcastReviewer', () => {
+  it('accepts a second person holding a permitted role', () => {
+    expect(
+      reviewError(() => assertBroadcastReviewer(pending, { id: 'admin-1', role: 'admin' }, DEFAULT_BROADCAST_POLICIES, now))
+    ).toBeUndefined();
+  });
+
+  it('rejects the requester and the message author', () => {
+    expect(
+      reviewError(() => assertBroadcastReviewer(pending, { id: 'officer-1', role: 'admin' }, DEFAULT_BROADCAST_POLICIES, now))
+    ).toBe('self_approval');
+    expect(
+      reviewError(() =>
+        assertBroadcastReviewer(
+          { ...pending, requestedBy: 'officer-2' },
+          { id: 'officer-1', role: 'admin' },
+          DEFAULT_BROADCAST_POLICIES,
+          now
+        )
+      )
+    ).toBe('self_approval');
+  });
+
+  it('requires a role allowed to release every requested channel', () => {
+    const reviewer = { id: 'officer-9', role: 'law_enforcement' };
+    expect(reviewError(() => assertBroadcastReviewer(pending, reviewer, DEFAULT_BROADCAST_POLICIES, now))).toBe(
+      'role_not_permitted'
+    );
+    expect(
+      reviewError(() =>
+        assertBroadcastReviewer({ ...pending, channels: ['highway_signs'] }, reviewer, DEFAULT_BROADCAST_POLICIES, now)
+      )
+    ).toBeUndefined();
+  });
+
+  it('rejects requests that are closed or past their window', () => {
+    const reviewer = { id: 'admin-1', role: 'admin' };
+    expect(
+      reviewError(() =>
+        assertBroadcastReviewer({ ...pending, status: 'approved' }, reviewer, DEFAULT_BROADCAST_POLICIES, now)
+      )
+    ).toBe('invalid_status');
+    expect(
+      reviewError(() =>
+        assertBroadcastReviewer(pending, reviewer, DEFAULT_BROADCAST_POLICIES, new Date('2026-01-20T15:30:00.000Z'))
+      )
+    ).toBe('expired');
+  });
+});
+
+describe('reviewErrorFromDatabase', () => {
+  it('maps review_broadcast_approval errors to workflow codes', () => {
+    const error = reviewErrorFromDatabase(
+      'self_approval: A broadcast must be approved by someone other than the person who requested it'
+    );
+    expect(error).toBeInstanceOf(BroadcastApprovalError);
+    expect(error).toMatchObject({
+      code: 'self_approval',
+      message: 'A broadcast must be approved by someone other than the person who requested it',
+    });
+  });
+
+  it('leaves other database errors alone', () => {
+    expect(reviewErrorFromDatabase('permission denied for function review_broadcast_approval')).toBeNull();
+    expect(reviewErrorFromDatabase('no_cap_message: not raised by the review')).toBeNull();
+  });
+});
+
+describe('approvalDeadline', () => {
+  it('uses the shortest window among the channels', () => {
+    const from = new Date('2026-01-20T15:00:00.000Z');
+    expect(approvalDeadline(['highway_signs'], DEFAULT_BROADCAST_POLICIES, from).toISOString()).toBe(
+      '2026-01-20T16:00:00.000Z'
+    );
+    expect(approvalDeadline(['highway_signs', 'eas'], DEFAULT_BROADCAST_POLICIES, from).toISOString()).toBe(
+      '2026-01-20T15:30:00.000Z'
+    );
+  });
+});
+
+describe('isBroadcastChannel', () => {
+  it('recognises only the CAP-carried channels', () => {
+    expect(isBroadcastChannel('wea')).toBe(true);
+    expect(isBroadcastChannel('social_media')).toBe(false);
+  });
+});
+
+describe('broadcast diff', () => {
+  const first = buildCapMessage(alert, {
+    identifier: 'urn:uuid:first',
+    sender: 'amber@locateconnect.ca',
+    sent: new Date('2026-01-20T15:05:00.000Z'),
+    msgType: 'Alert',
+  });
+
+  it('extracts the on-air text for each language', () => {
+    const content = extractBroadcastContent(first);
+    expect(content.msgType).toBe('Alert');
+    expect(content.identifier).toBe('urn:uuid:first');
+    expect(Object.keys(content.info)).toEqual(['en-CA', 'fr-CA']);
+    expect(content.info['en-CA'].headline).toContain('AMBER');
+    expect(content.info['en-CA'].wirelessText).toBeTruthy();
+    expect(content.info['en-CA'].areas).toContain('Alberta');
+  });
+
+  it('lists every field as new when nothing has been broadcast', () => {
+    const changes = diffBroadcastContent(null, extractBroadcastContent(first));
+    expect(changes.length).toBeGreaterThan(0);
+    expect(changes.every((change) => change.before === null)).toBe(true);
+  });
+
+  it('lists only the fields an update changes', () => {
+    const update = buildCapMessage(
+      { ...alert, child_description: 'Brown hair, blue raincoat' },
+      {
+        identifier: 'urn:uuid:second',
+        sender: 'amber@locateconnect.ca',
+        sent: new Date('2026-01-20T16:05:00.000Z'),
+        msgType: 'Update',
+        references: [{ sender: 'amber@locateconnect.ca', identifier: 'urn:uuid:first', sent: '2026-01-20T15:05:00-00:00' }],
+      }
+    );
+    const changes = diffBroadcastContent(extractBroadcastContent(first), extractBroadcastContent(update));
+    const fields = new Set(changes.map((change) => change.field));
+
+    expect(fields.has('headline')).toBe(false);
+    expect(fields.has('areas')).toBe(false);
+    expect(changes.find((change) => change.language === 'en-CA' && change.field === 'description')?.after).toContain(
+      'blue raincoat'
+    );
+  });
+});
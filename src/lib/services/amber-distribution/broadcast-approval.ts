@@ -0,0 +1,232 @@
+/**
+ * Broadcast Approval Rules
+ * WEA, EAS and highway sign distributions reach the public through the CAP
+ * feed, so releasing one means releasing a CAP message. These are the rules
+ * for the two-person check on that release and the diff the approver sees.
+ */
+
+import { child, children, childText, parseXml } from '@/lib/geo-interchange/xml';
+import type { AmberDistributionChannel } from '@/types';
+
+export type BroadcastChannel = Extract<AmberDistributionChannel, 'wea' | 'eas' | 'highway_signs'>;
+
+export const BROADCAST_CHANNELS: BroadcastChannel[] = ['wea', 'eas', 'highway_signs'];
+
+export type BroadcastApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'superseded';
+
+export interface BroadcastChannelPolicy {
+  approverRoles: string[];
+  // How long a request may wait for a decision
+  approvalWindowMinutes: number;
+}
+
+// Used when distribution_channel_config has no row for a channel
+export const DEFAULT_BROADCAST_POLICIES: Record<BroadcastChannel, BroadcastChannelPolicy> = {
+  wea: { approverRoles: ['admin', 'developer'], approvalWindowMinutes: 30 },
+  eas: { approverRoles: ['admin', 'developer'], approvalWindowMinutes: 30 },
+  highway_signs: { approverRoles: ['law_enforcement', 'admin', 'developer'], approvalWindowMinutes: 60 },
+};
+
+export type BroadcastApprovalErrorCode =
+  | 'approval_not_found'
+  | 'alert_not_found'
+  | 'no_cap_message'
+  | 'invalid_status'
+  | 'expired'
+  | 'self_approval'
+  | 'role_not_permitted';
+
+/**
+ * Error thrown when a broadcast approval breaks a workflow rule
+ */
+export class BroadcastApprovalError extends Error {
+  readonly code: BroadcastApprovalErrorCode;
+
+  constructor(code: BroadcastApprovalErrorCode, message: string) {
+    super(message);
+    this.name = 'BroadcastApprovalError';
+    this.code = code;
+  }
+}
+
+// HTTP status the API routes return for each workflow error
+export const BROADCAST_APPROVAL_ERROR_STATUS: Record<BroadcastApprovalErrorCode, number> = {
+  approval_not_found: 404,
+  alert_not_found: 404,
+  no_cap_message: 409,
+  invalid_status: 400,
+  expired: 410,
+  self_approval: 403,
+  role_not_permitted: 403,
+};
+
+const REVIEW_ERROR_CODES: BroadcastApprovalErrorCode[] = [
+  'approval_not_found',
+  'invalid_status',
+  'expired',
+  'self_approval',
+  'role_not_permitted',
+];
+
+/**
+ * Map an error raised by review_broadcast_approval, whose messages start
+ * with the workflow error code, e.g. "self_approval: ..."
+ */
+export function reviewErrorFromDatabase(message: string): BroadcastApprovalError | null {
+  const separator = message.indexOf(':');
+  const code = message.slice(0, separator) as BroadcastApprovalErrorCode;
+
+  if (separator < 0 || !REVIEW_ERROR_CODES.includes(code)) {
+    return null;
+  }
+  return new BroadcastApprovalError(code, message.slice(separator + 1).trim());
+}
+
+export function isBroadcastChannel(channel: string): channel is BroadcastChannel {
+  return (BROADCAST_CHANNELS as string[]).includes(channel);
+}
+
+/**
+ * A request must be decided within the shortest window of its channels
+ */
+export function approvalDeadline(
+  channels: BroadcastChannel[],
+  policies: Record<BroadcastChannel, BroadcastChannelPolicy>,
+  from: Date
+): Date {
+  const minutes = Math.min(...channels.map((channel) => policies[channel].approvalWindowMinutes));
+  return new Date(from.getTime() + minutes * 60 * 1000);
+}
+
+/**
+ * Throw unless the reviewer may decide the request. The second person must
+ * not be the one who asked for the broadcast or wrote the message, and must
+ * hold a role allowed to release every requested channel.
+ */
+export function assertBroadcastReviewer(
+  approval: {
+    status: BroadcastApprovalStatus;
+    expiresAt: string;
+    requestedBy: string | null;
+    messageAuthor: string | null;
+    channels: BroadcastChannel[];
+  },
+  reviewer: { id: string; role: string },
+  policies: Record<BroadcastChannel, BroadcastChannelPolicy>,
+  now: Date = new Date()
+): void {
+  if (approval.status !== 'pending') {
+    throw new BroadcastApprovalError(
+      'invalid_status',
+      `Only pending requests can be reviewed (current status: ${approval.status})`
+    );
+  }
+  if (new Date(approval.expiresAt) <= now) {
+    throw new BroadcastApprovalError('expired', 'The approval window has closed; request a new approval');
+  }
+  if (reviewer.id === approval.requestedBy || reviewer.id === approval.messageAuthor) {
+    throw new BroadcastApprovalError(
+      'self_approval',
+      'A broadcast must be approved by someone other than the person who requested it'
+    );
+  }
+
+  const blocked = approval.channels.filter((channel) => !policies[channel].approverRoles.includes(reviewer.role));
+  if (blocked.length > 0) {
+    throw new BroadcastApprovalError(
+      'role_not_permitted',
+      `Your role cannot release: ${blocked.join(', ')}`
+    );
+  }
+}
+
+// =============================================================================
+// Broadcast diff
+// =============================================================================
+
+export interface BroadcastInfo {
+  headline: string | null;
+  description: string | null;
+  instruction: string | null;
+  wirelessText: string | null;
+  areas: string | null;
+  expires: string | null;
+}
+
+export interface BroadcastContent {
+  msgType: string;
+  identifier: string;
+  // Keyed by CAP language, e.g. en-CA
+  info: Record<string, BroadcastInfo>;
+}
+
+export interface BroadcastChange {
+  language: string;
+  field: keyof BroadcastInfo;
+  before: string | null;
+  after: string | null;
+}
+
+const BROADCAST_FIELDS: Array<keyof BroadcastInfo> = [
+  'headline',
+  'description',
+  'instruction',
+  'wirelessText',
+  'areas',
+  'expires',
+];
+
+/**
+ * Pull out of a CAP message the parts that appear on air
+ */
+export function extractBroadcastContent(xml: string): BroadcastContent {
+  const alert = parseXml(xml);
+  const info: Record<string, BroadcastInfo> = {};
+
+  for (const block of children(alert, 'info')) {
+    const wireless = children(block, 'parameter').find(
+      (parameter) => childText(parameter, 'valueName') === 'layer:SOREM:2.0:WirelessText'
+    );
+    info[childText(block, 'language') ?? 'en-US'] = {
+      headline: childText(block, 'headline') ?? null,
+      description: childText(block, 'description') ?? null,
+      instruction: childText(block, 'instruction') ?? null,
+      wirelessText: wireless ? (childText(wireless, 'value') ?? null) : null,
+      areas:
+        children(block, 'area')
+          .map((area) => childText(area, 'areaDesc'))
+          .filter(Boolean)
+          .join('; ') || null,
+      expires: childText(block, 'expires') ?? null,
+    };
+  }
+
+  return {
+    msgType: childText(alert, 'msgType') ?? '',
+    identifier: child(alert, 'identifier')?.text.trim() ?? '',
+    info,
+  };
+}
+
+/**
+ * Field-by-field changes from the last message that went on air. With no
+ * previous broadcast, every field is new.
+ */
+export function diffBroadcastContent(previous: BroadcastContent | null, next: BroadcastContent): BroadcastChange[] {
+  const changes: BroadcastChange[] = [];
+  const languages = new Set([...Object.keys(next.info), ...Object.keys(previous?.info ?? {})]);
+
+  for (const language of languages) {
+    const before = previous?.info[language];
+    const after = next.info[language];
+    for (const field of BROADCAST_FIELDS) {
+      const was = before?.[field] ?? null;
+      const now = after?.[field] ?? null;
+      if (was !== now) {
+        changes.push({ language, field, before: was, after: now });
+      }
+    }
+  }
+
+  return changes;
+}
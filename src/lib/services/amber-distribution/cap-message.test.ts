@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import { createHash, createVerify, generateKeyPairSync } from 'crypto';
+import { child, children, childText, descendants, parseXml } from '@/lib/geo-interchange/xml';
+import type { AmberAlert } from '@/types';
+import {
+  CapMessageError,
+  buildCapFeed,
+  buildCapMessage,
+  capMsgTypeFor,
+  formatCapDateTime,
+  parsePoint,
+  signCapMessage,
+} from './cap-message';
+
+const alert: AmberAlert = {
+  id: 'b3f1c2d4-0000-4000-8000-000000000001',
+  case_id: 'case-1',
+  alert_number: 'AMBER-2026-AB-001',
+  alert_status: 'active',
+  child_name: 'Maya Thompson',
+  child_age: 7,
+  child_description: 'Brown hair, pink jacket & rain boots',
+  child_photo_url: 'https://cdn.example.org/photos/maya.png',
+  abduction_date: '2026-01-20',
+  abduction_time: '14:30',
+  abduction_location: 'Whyte Ave & 104 St',
+  abduction_city: 'Edmonton',
+  abduction_province: 'AB',
+  suspect_description: 'Adult male, grey hoodie',
+  vehicle_involved: true,
+  vehicle_make: 'Honda',
+  vehicle_model: 'Civic',
+  vehicle_color: 'Silver',
+  vehicle_license_plate: 'CBX 1234',
+  vehicle_license_province: 'AB',
+  target_provinces: ['AB', 'SK'],
+  target_radius_km: 50,
+  distribution_channels: ['wea', 'eas'],
+  requesting_officer_name: 'Cst. Lee',
+  requesting_officer_phone: '780-555-0100',
+  requesting_officer_agency: 'Edmonton Police Service',
+  issued_at: '2026-01-20T15:00:00.000Z',
+  created_at: '2026-01-20T15:00:00.000Z',
+  updated_at: '2026-01-20T15:00:00.000Z',
+};
+
+const sent = new Date('2026-01-20T15:05:12.345Z');
+const base = {
+  identifier: 'urn:uuid:11111111-2222-4333-8444-555555555555',
+  sender: 'amber@locateconnect.ca',
+  sent,
+  alertUrl: 'https://locateconnect.ca/amber-alerts/b3f1c2d4',
+  coordinates: { lat: 53.5461, lng: -113.4938 },
+};
+
+describe('buildCapMessage', () => {
+  it('renders a CAP-CP alert with English and French info blocks', () => {
+    const xml = buildCapMessage(alert, { ...base, msgType: 'Alert' });
+    const root = parseXml(xml);
+
+    expect(root.name).toBe('alert');
+    expect(root.attributes.xmlns).toBe('urn:oasis:names:tc:emergency:cap:1.2');
+    expect(childText(root, 'sent')).toBe('2026-01-20T15:05:12-00:00');
+    expect(childText(root, 'msgType')).toBe('Alert');
+    expect(childText(root, 'code')).toBe('profile:CAP-CP:0.4');
+    expect(childText(root, 'incidents')).toBe('AMBER-2026-AB-001');
+    expect(child(root, 'references')).toBeUndefined();
+
+    const infos = children(root, 'info');
+    expect(infos.map((info) => childText(info, 'language'))).toEqual(['en-CA', 'fr-CA']);
+    expect(childText(infos[0], 'headline')).toContain('Maya Thompson');
+    expect(childText(infos[0], 'description')).toContain('pink jacket & rain boots');
+    expect(childText(infos[0], 'description')).toContain('licence plate CBX 1234 (Alberta)');
+    expect(childText(infos[1], 'description')).toContain("plaque d'immatriculation CBX 1234 (Alberta)");
+    expect(childText(infos[1], 'event')).toBe('alerte AMBER');
+    expect(childText(child(infos[0], 'eventCode')!, 'value')).toBe('amber');
+    expect(childText(child(infos[0], 'resource')!, 'mimeType')).toBe('image/png');
+  });
+
+  it('adds a closed polygon and circle around the centre and geocodes each province', () => {
+    const xml = buildCapMessage(alert, { ...base, msgType: 'Alert' });
+    const info = children(parseXml(xml), 'info')[1];
+    const areas = children(info, 'area');
+
+    expect(areas.map((area) => childText(area, 'areaDesc'))).toEqual([
+      'Dans un rayon de 50 km de Edmonton',
+      'Alberta',
+      'Saskatchewan',
+    ]);
+
+    const points = childText(areas[0], 'polygon')!.split(' ');
+    expect(points.length).toBe(33);
+    expect(points[0]).toBe(points[points.length - 1]);
+    expect(childText(areas[0], 'circle')).toBe('53.5461,-113.4938 50');
+
+    const geocodes = descendants(info, 'geocode').map((geocode) => childText(geocode, 'value'));
+    expect(geocodes).toEqual(['48', '47']);
+  });
+
+  it('cancels with references to every earlier message', () => {
+    const references = [
+      { sender: base.sender, identifier: 'urn:uuid:first', sent: '2026-01-20T15:00:00-00:00' },
+      { sender: base.sender, identifier: 'urn:uuid:second', sent: '2026-01-20T16:00:00-00:00' },
+    ];
+    const xml = buildCapMessage(
+      { ...alert, alert_status: 'resolved' },
+      { ...base, msgType: 'Cancel', references }
+    );
+    const root = parseXml(xml);
+
+    expect(childText(root, 'msgType')).toBe('Cancel');
+    expect(childText(root, 'references')).toBe(
+      'amber@locateconnect.ca,urn:uuid:first,2026-01-20T15:00:00-00:00 amber@locateconnect.ca,urn:uuid:second,2026-01-20T16:00:00-00:00'
+    );
+    const info = children(root, 'info')[0];
+    expect(childText(info, 'responseType')).toBe('AllClear');
+    expect(childText(info, 'headline')).toContain('has been located');
+    expect(child(info, 'resource')).toBeUndefined();
+  });
+
+  it('refuses updates without references and identifiers with spaces', () => {
+    expect(() => buildCapMessage(alert, { ...base, msgType: 'Update' })).toThrow(CapMessageError);
+    expect(() => buildCapMessage(alert, { ...base, identifier: 'two words', msgType: 'Alert' })).toThrow(
+      CapMessageError
+    );
+  });
+});
+
+describe('CAP helpers', () => {
+  it('chooses the message type from the alert status', () => {
+    expect(capMsgTypeFor('active', false)).toBe('Alert');
+    expect(capMsgTypeFor('active', true)).toBe('Update');
+    expect(capMsgTypeFor('cancelled', true)).toBe('Cancel');
+  });
+
+  it('formats dates and reads Postgres points', () => {
+    expect(formatCapDateTime(new Date('2026-03-01T08:00:00Z'))).toBe('2026-03-01T08:00:00-00:00');
+    expect(parsePoint('(-113.4938,53.5461)')).toEqual({ lat: 53.5461, lng: -113.4938 });
+    expect(parsePoint('not a point')).toBeNull();
+  });
+});
+
+describe('buildCapFeed', () => {
+  it('lists each message with a link to its signed CAP document', () => {
+    const feed = parseXml(
+      buildCapFeed(
+        [
+          {
+            identifier: base.identifier,
+            msgType: 'Update',
+            alertNumber: 'AMBER-2026-AB-001',
+            sent,
+            href: 'https://locateconnect.ca/api/amber-alerts/feed/abc?format=cap&v=1',
+          },
+        ],
+        { selfUrl: 'https://locateconnect.ca/api/amber-alerts/feed', updated: sent }
+      )
+    );
+
+    const entry = child(feed, 'entry')!;
+    expect(childText(entry, 'id')).toBe(base.identifier);
+    expect(childText(entry, 'title')).toBe('Update: AMBER Alert AMBER-2026-AB-001');
+    expect(child(entry, 'link')!.attributes).toMatchObject({
+      type: 'application/cap+xml',
+      href: 'https://locateconnect.ca/api/amber-alerts/feed/abc?format=cap&v=1',
+    });
+  });
+});
+
+describe('signCapMessage', () => {
+  it('adds an enveloped signature that verifies against the message digest', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const message = buildCapMessage(alert, { ...base, msgType: 'Alert' });
+    const signed = signCapMessage(message, {
+      privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    });
+
+    const signature = signed.slice(signed.indexOf('<Signature'), signed.indexOf('</Signature>') + 12);
+    expect(signed.replace(signature, '')).toBe(message);
+
+    const digest = signature.match(/<DigestValue>([^<]+)<\/DigestValue>/)![1];
+    expect(digest).toBe(createHash('sha256').update(message).digest('base64'));
+
+    const signedInfo = signature
+      .slice(signature.indexOf('<SignedInfo>'), signature.indexOf('</SignedInfo>') + 13)
+      .replace('<SignedInfo>', '<SignedInfo xmlns="http://www.w3.org/2000/09/xmldsig#">');
+    const value = signature.match(/<SignatureValue>([^<]+)<\/SignatureValue>/)![1];
+    expect(createVerify('RSA-SHA256').update(signedInfo).verify(publicKey, value, 'base64')).toBe(true);
+  });
+
+  it('only signs messages it built', () => {
+    expect(() => signCapMessage('<alert>tampered</alert>', { privateKey: 'unused' })).toThrow(CapMessageError);
+  });
+});
@@ -0,0 +1,506 @@
+/**
+ * CAP 1.2 Message Generation
+ * Renders an AMBER alert as a Common Alerting Protocol 1.2 message following
+ * the Canadian CAP-CP profile, with an English and a French info block, so
+ * the NAAD aggregator, broadcasters, wireless carriers and highway sign
+ * operators can consume it. Messages are signed with an enveloped XML
+ * signature when served.
+ */
+
+import { createHash, createSign } from 'crypto';
+import { circlePolygon, type LatLng } from '@/lib/geo-interchange';
+import { escapeXml } from '@/lib/geo-interchange/xml';
+import type { AmberAlert, AmberAlertStatus } from '@/types';
+
+export const CAP_NAMESPACE = 'urn:oasis:names:tc:emergency:cap:1.2';
+export const CAP_CP_PROFILE = 'profile:CAP-CP:0.4';
+export const CAP_CONTENT_TYPE = 'application/cap+xml';
+
+const CAP_CP_EVENT = 'profile:CAP-CP:Event:0.4';
+const CAP_CP_LOCATION = 'profile:CAP-CP:Location:0.3';
+const XMLDSIG_NAMESPACE = 'http://www.w3.org/2000/09/xmldsig#';
+const EXC_C14N = 'http://www.w3.org/2001/10/xml-exc-c14n#';
+
+// Messages without an explicit expiry stay current for a day
+const DEFAULT_EXPIRY_HOURS = 24;
+const MAX_HEADLINE_LENGTH = 160;
+const MAX_WIRELESS_TEXT_LENGTH = 600;
+const POLYGON_VERTICES = 32;
+
+export type CapMsgType = 'Alert' | 'Update' | 'Cancel';
+export type CapLanguage = 'en-CA' | 'fr-CA';
+
+export interface CapReference {
+  sender: string;
+  identifier: string;
+  // Already in CAP date-time form
+  sent: string;
+}
+
+export interface CapMessageOptions {
+  identifier: string;
+  sender: string;
+  sent: Date;
+  msgType: CapMsgType;
+  // Every earlier message about the same alert, oldest first
+  references?: CapReference[];
+  alertUrl?: string;
+  // Centre of the alert area, used with target_radius_km
+  coordinates?: LatLng | null;
+}
+
+export interface CapSigningKey {
+  // PEM-encoded RSA private key
+  privateKey: string;
+  // PEM-encoded X.509 certificate included so receivers can verify the signature
+  certificate?: string;
+}
+
+export interface CapFeedEntry {
+  identifier: string;
+  msgType: CapMsgType;
+  alertNumber: string;
+  sent: Date;
+  // Where the signed message can be fetched
+  href: string;
+}
+
+export class CapMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CapMessageError';
+  }
+}
+
+// Statistics Canada SGC codes, used as CAP-CP location geocodes
+const PROVINCES: Record<string, { sgc: string; en: string; fr: string }> = {
+  NL: { sgc: '10', en: 'Newfoundland and Labrador', fr: 'Terre-Neuve-et-Labrador' },
+  PE: { sgc: '11', en: 'Prince Edward Island', fr: 'Île-du-Prince-Édouard' },
+  NS: { sgc: '12', en: 'Nova Scotia', fr: 'Nouvelle-Écosse' },
+  NB: { sgc: '13', en: 'New Brunswick', fr: 'Nouveau-Brunswick' },
+  QC: { sgc: '24', en: 'Quebec', fr: 'Québec' },
+  ON: { sgc: '35', en: 'Ontario', fr: 'Ontario' },
+  MB: { sgc: '46', en: 'Manitoba', fr: 'Manitoba' },
+  SK: { sgc: '47', en: 'Saskatchewan', fr: 'Saskatchewan' },
+  AB: { sgc: '48', en: 'Alberta', fr: 'Alberta' },
+  BC: { sgc: '59', en: 'British Columbia', fr: 'Colombie-Britannique' },
+  YT: { sgc: '60', en: 'Yukon', fr: 'Yukon' },
+  NT: { sgc: '61', en: 'Northwest Territories', fr: 'Territoires du Nord-Ouest' },
+  NU: { sgc: '62', en: 'Nunavut', fr: 'Nunavut' },
+};
+
+function findProvince(value: string): { sgc: string; en: string; fr: string } | undefined {
+  const key = value.trim();
+  return (
+    PROVINCES[key.toUpperCase()] ??
+    Object.values(PROVINCES).find((p) => p.en.toLowerCase() === key.toLowerCase() || p.fr.toLowerCase() === key.toLowerCase())
+  );
+}
+
+function provinceName(value: string, language: CapLanguage): string {
+  const province = findProvince(value);
+  if (!province) return value;
+  return language === 'en-CA' ? province.en : province.fr;
+}
+
+// =============================================================================
+// Formatting helpers
+// =============================================================================
+
+/**
+ * CAP date-times carry an explicit offset and no fractional seconds
+ */
+export function formatCapDateTime(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, '-00:00');
+}
+
+/**
+ * Read a Postgres point, written by PostgREST as "(lng,lat)"
+ */
+export function parsePoint(value: string | null | undefined): LatLng | null {
+  const match = value?.match(/^\(\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*\)$/);
+  if (!match) return null;
+  const lng = Number(match[1]);
+  const lat = Number(match[2]);
+  return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : null;
+}
+
+/**
+ * Alert and Update while the alert is active; once it is cancelled or the
+ * child is found, every receiver is told to stop with a Cancel
+ */
+export function capMsgTypeFor(status: AmberAlertStatus, hasPreviousMessages: boolean): CapMsgType {
+  if (status !== 'active') return 'Cancel';
+  return hasPreviousMessages ? 'Update' : 'Alert';
+}
+
+export function capExpiry(alert: AmberAlert, sent: Date, msgType: CapMsgType): Date {
+  const expires = alert.expires_at ? new Date(alert.expires_at) : null;
+  if (msgType !== 'Cancel' && expires && expires > sent) return expires;
+  return new Date(sent.getTime() + DEFAULT_EXPIRY_HOURS * 60 * 60 * 1000);
+}
+
+function formatCoordinate(value: number): string {
+  return value.toFixed(4);
+}
+
+// Identifiers, senders and incidents may not contain spaces, commas or markup
+function assertCapToken(label: string, value: string): void {
+  if (!value || /[\s,<&]/.test(value)) {
+    throw new CapMessageError(`CAP ${label} "${value}" must not be empty or contain spaces, commas, < or &`);
+  }
+}
+
+/**
+ * Escape text so the serialized form is already exclusive-canonical, which
+ * lets the signature digest the message exactly as written
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r/g, '&#xD;');
+}
+
+type CapNode = [name: string, value: string | CapNode[] | null | undefined];
+
+function renderNode([name, value]: CapNode, depth: number): string | null {
+  const pad = '  '.repeat(depth);
+  if (typeof value === 'string') {
+    return value.trim() ? `${pad}<${name}>${escapeText(value.trim())}</${name}>` : null;
+  }
+  if (!value) return null;
+  const children = value.map((child) => renderNode(child, depth + 1)).filter((line): line is string => line !== null);
+  return children.length > 0 ? `${pad}<${name}>\n${children.join('\n')}\n${pad}</${name}>` : null;
+}
+
+function sentence(...parts: Array<string | null | undefined | false>): string {
+  return parts.filter(Boolean).join(' ');
+}
+
+// =============================================================================
+// Info blocks
+// =============================================================================
+
+function vehicleText(alert: AmberAlert, language: CapLanguage): string | null {
+  if (!alert.vehicle_involved) return null;
+  const vehicle = [alert.vehicle_color, alert.vehicle_year, alert.vehicle_make, alert.vehicle_model]
+    .filter(Boolean)
+    .join(' ');
+  const plate = alert.vehicle_license_plate
+    ? `${alert.vehicle_license_plate}${alert.vehicle_license_province ? ` (${provinceName(alert.vehicle_license_province, language)})` : ''}`
+    : null;
+
+  if (language === 'en-CA') {
+    return `Vehicle: ${vehicle || 'unknown'}${plate ? `, licence plate ${plate}` : ''}.`;
+  }
+  return `Véhicule : ${vehicle || 'inconnu'}${plate ? `, plaque d'immatriculation ${plate}` : ''}.`;
+}
+
+function suspectText(alert: AmberAlert, language: CapLanguage): string | null {
+  if (!alert.suspect_name && !alert.suspect_description) return null;
+  const details = [alert.suspect_name, alert.suspect_description].filter(Boolean).join(', ');
+  return language === 'en-CA' ? `Suspect: ${details}.` : `Suspect : ${details}.`;
+}
+
+function activeText(alert: AmberAlert, language: CapLanguage) {
+  const province = provinceName(alert.abduction_province, language);
+  const child = alert.child_description?.trim().replace(/\.?$/, '.');
+
+  if (language === 'en-CA') {
+    return {
+      event: 'AMBER alert',
+      headline: `AMBER Alert: ${alert.child_name}, last seen in ${alert.abduction_city}, ${province}`,
+      description: sentence(
+        `${alert.child_name}${alert.child_age ? `, ${alert.child_age} years old,` : ''} was last seen at ${alert.abduction_location}, ${alert.abduction_city}, ${province} on ${alert.abduction_date}${alert.abduction_time ? ` at ${alert.abduction_time}` : ''}.`,
+        child,
+        suspectText(alert, language),
+        vehicleText(alert, language)
+      ),
+      instruction: `If you see the child, suspect or vehicle, call 911 immediately. Do not approach. Information: ${alert.requesting_officer_phone}.`,
+      wireless: sentence(
+        `AMBER Alert: ${alert.child_name}${alert.child_age ? `, ${alert.child_age}` : ''}, last seen in ${alert.abduction_city}, ${province}.`,
+        alert.vehicle_involved && alert.vehicle_license_plate ? `Plate ${alert.vehicle_license_plate}.` : null,
+        'Call 911.'
+      ),
+    };
+  }
+
+  return {
+    event: 'alerte AMBER',
+    headline: `Alerte AMBER : ${alert.child_name}, vu pour la dernière fois à ${alert.abduction_city} (${province})`,
+    description: sentence(
+      `${alert.child_name}${alert.child_age ? `, ${alert.child_age} ans,` : ''} a été vu pour la dernière fois à ${alert.abduction_location}, ${alert.abduction_city} (${province}) le ${alert.abduction_date}${alert.abduction_time ? ` à ${alert.abduction_time}` : ''}.`,
+      child,
+      suspectText(alert, language),
+      vehicleText(alert, language)
+    ),
+    instruction: `Si vous voyez l'enfant, le suspect ou le véhicule, composez immédiatement le 911. N'intervenez pas. Renseignements : ${alert.requesting_officer_phone}.`,
+    wireless: sentence(
+      `Alerte AMBER : ${alert.child_name}${alert.child_age ? `, ${alert.child_age} ans` : ''}, vu pour la dernière fois à ${alert.abduction_city} (${province}).`,
+      alert.vehicle_involved && alert.vehicle_license_plate ? `Plaque ${alert.vehicle_license_plate}.` : null,
+      'Composez le 911.'
+    ),
+  };
+}
+
+function endedText(alert: AmberAlert, language: CapLanguage) {
+  const found = alert.alert_status === 'resolved';
+  const reason = alert.cancelled_reason?.trim();
+
+  if (language === 'en-CA') {
+    return {
+      event: 'AMBER alert',
+      headline: found ? `AMBER Alert ended: ${alert.child_name} has been located` : `AMBER Alert cancelled: ${alert.child_name}`,
+      description: sentence(
+        found
+          ? `The AMBER Alert for ${alert.child_name} has ended. The child has been located.`
+          : `The AMBER Alert for ${alert.child_name} has been cancelled.`,
+        !found && reason ? `Reason: ${reason.replace(/\.?$/, '.')}` : null
+      ),
+      instruction: 'No further action is required. Thank you for your help.',
+      wireless: found ? `AMBER Alert ended: ${alert.child_name} has been located.` : `AMBER Alert cancelled: ${alert.child_name}.`,
+    };
+  }
+
+  return {
+    event: 'alerte AMBER',
+    headline: found ? `Fin de l'alerte AMBER : ${alert.child_name} a été retrouvé` : `Alerte AMBER annulée : ${alert.child_name}`,
+    description: sentence(
+      found
+        ? `L'alerte AMBER concernant ${alert.child_name} est terminée. L'enfant a été retrouvé.`
+        : `L'alerte AMBER concernant ${alert.child_name} a été annulée.`,
+      !found && reason ? `Motif : ${reason.replace(/\.?$/, '.')}` : null
+    ),
+    instruction: "Aucune autre mesure n'est requise. Merci de votre aide.",
+    wireless: found ? `Fin de l'alerte AMBER : ${alert.child_name} a été retrouvé.` : `Alerte AMBER annulée : ${alert.child_name}.`,
+  };
+}
+
+function photoMimeType(url: string): string {
+  const extension = new URL(url, 'https://locateconnect.ca').pathname.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'png':
+      return 'image/png';
+    case 'gif':
+      return 'image/gif';
+    case 'webp':
+      return 'image/webp';
+    default:
+      return 'image/jpeg';
+  }
+}
+
+function parameter(valueName: string, value: string): CapNode {
+  return ['parameter', [['valueName', valueName], ['value', value]]];
+}
+
+/**
+ * One area per target province, geocoded with its SGC code, plus a polygon
+ * and circle around the alert centre when a radius was set
+ */
+function buildCapAreas(alert: AmberAlert, language: CapLanguage, coordinates?: LatLng | null): CapNode[] {
+  const areas: CapNode[] = [];
+
+  if (coordinates && alert.target_radius_km && alert.target_radius_km > 0) {
+    const ring = circlePolygon(coordinates, alert.target_radius_km * 1000, POLYGON_VERTICES);
+    const polygon = [...ring, ring[0]]
+      .map((point) => `${formatCoordinate(point.lat)},${formatCoordinate(point.lng)}`)
+      .join(' ');
+    areas.push([
+      'area',
+      [
+        [
+          'areaDesc',
+          language === 'en-CA'
+            ? `Within ${alert.target_radius_km} km of ${alert.abduction_city}`
+            : `Dans un rayon de ${alert.target_radius_km} km de ${alert.abduction_city}`,
+        ],
+        ['polygon', polygon],
+        ['circle', `${formatCoordinate(coordinates.lat)},${formatCoordinate(coordinates.lng)} ${alert.target_radius_km}`],
+      ],
+    ]);
+  }
+
+  const provinces = alert.target_provinces?.length ? alert.target_provinces : [alert.abduction_province];
+  for (const value of new Set(provinces)) {
+    const province = findProvince(value);
+    areas.push([
+      'area',
+      [
+        ['areaDesc', provinceName(value, language)],
+        province ? ['geocode', [['valueName', CAP_CP_LOCATION], ['value', province.sgc]]] : ['geocode', null],
+      ],
+    ]);
+  }
+
+  return areas;
+}
+
+function buildInfo(alert: AmberAlert, language: CapLanguage, options: CapMessageOptions): CapNode {
+  const ended = options.msgType === 'Cancel';
+  const text = ended ? endedText(alert, language) : activeText(alert, language);
+
+  return [
+    'info',
+    [
+      ['language', language],
+      ['category', 'Rescue'],
+      ['event', text.event],
+      ['responseType', ended ? 'AllClear' : 'Monitor'],
+      ['urgency', ended ? 'Past' : 'Immediate'],
+      ['severity', ended ? 'Minor' : 'Severe'],
+      ['certainty', 'Observed'],
+      ['eventCode', [['valueName', CAP_CP_EVENT], ['value', 'amber']]],
+      ['effective', formatCapDateTime(options.sent)],
+      ['expires', formatCapDateTime(capExpiry(alert, options.sent, options.msgType))],
+      ['senderName', alert.requesting_officer_agency],
+      ['headline', text.headline.slice(0, MAX_HEADLINE_LENGTH)],
+      ['description', text.description],
+      ['instruction', text.instruction],
+      ['web', options.alertUrl],
+      ['contact', alert.requesting_officer_phone],
+      parameter('layer:SOREM:1.0:Broadcast_Immediately', ended ? 'No' : 'Yes'),
+      parameter('layer:SOREM:2.0:WirelessImmediate', ended ? 'No' : 'Yes'),
+      parameter('layer:SOREM:2.0:WirelessText', text.wireless.slice(0, MAX_WIRELESS_TEXT_LENGTH)),
+      !ended && alert.child_photo_url
+        ? [
+            'resource',
+            [
+              ['resourceDesc', language === 'en-CA' ? 'Photo of the child' : "Photo de l'enfant"],
+              ['mimeType', photoMimeType(alert.child_photo_url)],
+              ['uri', alert.child_photo_url],
+            ],
+          ]
+        : ['resource', null],
+      ...buildCapAreas(alert, language, options.coordinates),
+    ],
+  ];
+}
+
+// =============================================================================
+// Message
+// =============================================================================
+
+/**
+ * Render an AMBER alert as a CAP 1.2 alert element. The result has no XML
+ * declaration so it can be signed and embedded as is.
+ */
+export function buildCapMessage(alert: AmberAlert, options: CapMessageOptions): string {
+  assertCapToken('identifier', options.identifier);
+  assertCapToken('sender', options.sender);
+  if (options.msgType !== 'Alert' && !options.references?.length) {
+    throw new CapMessageError(`A CAP ${options.msgType} must reference the messages it replaces`);
+  }
+  const incident = alert.alert_number?.replace(/[\s,<&]/g, '');
+
+  const nodes: CapNode[] = [
+    ['identifier', options.identifier],
+    ['sender', options.sender],
+    ['sent', formatCapDateTime(options.sent)],
+    ['status', 'Actual'],
+    ['msgType', options.msgType],
+    ['source', alert.requesting_officer_agency],
+    ['scope', 'Public'],
+    ['code', CAP_CP_PROFILE],
+    ['note', options.msgType === 'Cancel' ? alert.cancelled_reason : undefined],
+    [
+      'references',
+      options.references?.map((ref) => `${ref.sender},${ref.identifier},${ref.sent}`).join(' '),
+    ],
+    ['incidents', incident],
+    buildInfo(alert, 'en-CA', options),
+    buildInfo(alert, 'fr-CA', options),
+  ];
+
+  const body = nodes.map((node) => renderNode(node, 1)).filter((line): line is string => line !== null);
+  return `<alert xmlns="${CAP_NAMESPACE}">\n${body.join('\n')}\n</alert>`;
+}
+
+// =============================================================================
+// Signing
+// =============================================================================
+
+function pemBody(pem: string): string {
+  return pem
+    .replace(/-----(BEGIN|END)[^-]+-----/g, '')
+    .replace(/\s+/g, '');
+}
+
+function signedInfo(digest: string): string {
+  return (
+    `<SignedInfo>` +
+    `<CanonicalizationMethod Algorithm="${EXC_C14N}"></CanonicalizationMethod>` +
+    `<SignatureMethod Algorithm="http://www.w3.org/2001/04/xmldsig-more#rsa-sha256"></SignatureMethod>` +
+    `<Reference URI="">` +
+    `<Transforms>` +
+    `<Transform Algorithm="${XMLDSIG_NAMESPACE}enveloped-signature"></Transform>` +
+    `<Transform Algorithm="${EXC_C14N}"></Transform>` +
+    `</Transforms>` +
+    `<DigestMethod Algorithm="http://www.w3.org/2001/04/xmlenc#sha256"></DigestMethod>` +
+    `<DigestValue>${digest}</DigestValue>` +
+    `</Reference>` +
+    `</SignedInfo>`
+  );
+}
+
+/**
+ * Add an enveloped RSA-SHA256 XML signature to a message from
+ * buildCapMessage, as NAAD expects of alerts it ingests. The message is
+ * written in canonical form, so its text is digested directly.
+ */
+export function signCapMessage(message: string, key: CapSigningKey): string {
+  const closing = '</alert>';
+  if (!message.startsWith(`<alert xmlns="${CAP_NAMESPACE}">`) || !message.endsWith(closing)) {
+    throw new CapMessageError('Only messages from buildCapMessage can be signed');
+  }
+
+  const digest = createHash('sha256').update(message, 'utf8').digest('base64');
+  const info = signedInfo(digest);
+  // Canonicalized on its own, SignedInfo carries the namespace it inherits from Signature
+  const canonicalInfo = info.replace('<SignedInfo>', `<SignedInfo xmlns="${XMLDSIG_NAMESPACE}">`);
+  const signatureValue = createSign('RSA-SHA256').update(canonicalInfo, 'utf8').sign(key.privateKey, 'base64');
+
+  const keyInfo = key.certificate
+    ? `<KeyInfo><X509Data><X509Certificate>${pemBody(key.certificate)}</X509Certificate></X509Data></KeyInfo>`
+    : '';
+  const signature =
+    `<Signature xmlns="${XMLDSIG_NAMESPACE}">${info}<SignatureValue>${signatureValue}</SignatureValue>${keyInfo}</Signature>`;
+
+  return `${message.slice(0, -closing.length)}${signature}${closing}`;
+}
+
+export function toCapDocument(message: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${message}`;
+}
+
+// =============================================================================
+// Feed
+// =============================================================================
+
+/**
+ * Atom index of the current CAP messages, one entry per alert, in the form
+ * NAAD and broadcaster aggregators poll
+ */
+export function buildCapFeed(entries: CapFeedEntry[], options: { selfUrl: string; updated: Date }): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(options.selfUrl)}</id>`,
+    '  <title>LocateConnect AMBER Alerts (CAP-CP)</title>',
+    `  <updated>${options.updated.toISOString()}</updated>`,
+    `  <link rel="self" href="${escapeXml(options.selfUrl)}"/>`,
+    ...entries.flatMap((entry) => [
+      '  <entry>',
+      `    <id>${escapeXml(entry.identifier)}</id>`,
+      `    <title>${escapeXml(`${entry.msgType}: AMBER Alert ${entry.alertNumber}`)}</title>`,
+      `    <updated>${entry.sent.toISOString()}</updated>`,
+      `    <link rel="alternate" type="${CAP_CONTENT_TYPE}" href="${escapeXml(entry.href)}"/>`,
+      '  </entry>',
+    ]),
+    '</feed>',
+  ];
+  return lines.join('\n');
+}
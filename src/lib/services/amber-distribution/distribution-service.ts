@@ -3,31 +3,130 @@
  * Handles dispatching alerts to various channels
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase/server';
 import { emailService } from '@/lib/services/email-service';
 import { smsService } from '@/lib/services/sms-service';
 import { pushService } from '@/lib/services/push-service';
 import { socialService } from '@/lib/services/social-service';
+import { jobQueue } from '@/lib/services/job-queue/job-queue';
+import {
+  buildCapMessage,
+  capExpiry,
+  capMsgTypeFor,
+  formatCapDateTime,
+  parsePoint,
+} from './cap-message';
+import {
+  addToReachEstimate,
+  alertAreaFor,
+  emptyReachEstimate,
+  expansionKm,
+  filterRecipientsByArea,
+  locateRow,
+  type AreaRecipient,
+  type AreaTarget,
+} from './alert-area';
+import { BROADCAST_CHANNELS, isBroadcastChannel, type BroadcastChannel } from './broadcast-approval';
+import { BroadcastApprovalService } from './broadcast-approval-service';
+import {
+  SOCIAL_FOLLOW_UP,
+  WEBHOOK_FOLLOW_UP_EVENT,
+  followUpDetails,
+  followUpHeadline,
+  formatFollowUpMessage,
+  formatFollowUpSms,
+  needsFollowUp,
+  summarizeChannelDelivery,
+} from './follow-up';
 import type {
   AmberAlert,
+  AmberAlertArea,
+  AmberAlertChange,
+  AmberAreaExpansion,
+  AmberCapMessage,
   AmberDistribution,
   AmberDistributionChannel,
   AmberDistributionInsert,
   AmberDistributionSummary,
+  AmberFollowUpAction,
+  AmberFollowUpKind,
+  AmberFollowUpResult,
+  AmberReachEstimate,
   DistributeAmberAlertRequest,
   DistributeAmberAlertResponse,
+  Job,
 } from '@/types';
 
+// =============================================================================
+// Alert Area
+// =============================================================================
+
+type AreaChannelConfig = {
+  provinces?: string[];
+  area?: AmberAlertArea | null;
+  margin_km?: number;
+  // Set on distributions created when the area widened
+  reached_area?: AmberAlertArea | null;
+  reached_margin_km?: number;
+};
+
+// Channels whose recipients are chosen by location
+const AREA_CHANNELS: AmberDistributionChannel[] = ['partner_alert', 'media_outlet', 'email', 'sms', 'push_notification'];
+
+function areaChannelConfig(target: AreaTarget, alreadyReached?: AreaTarget): AreaChannelConfig {
+  return {
+    provinces: target.provinces,
+    area: target.area,
+    margin_km: target.marginKm,
+    ...(alreadyReached && {
+      reached_area: alreadyReached.area,
+      reached_margin_km: alreadyReached.marginKm,
+    }),
+  };
+}
+
+/**
+ * Area a bulk distribution was created for. Distributions from before alert
+ * areas carry only provinces.
+ */
+function targetsFromConfig(config: AreaChannelConfig): { target: AreaTarget; alreadyReached?: AreaTarget } {
+  const provinces = config.provinces || [];
+  return {
+    target: { area: config.area ?? null, marginKm: config.margin_km ?? 0, provinces },
+    alreadyReached: config.reached_margin_km !== undefined
+      ? { area: config.reached_area ?? null, marginKm: config.reached_margin_km, provinces }
+      : undefined,
+  };
+}
+
+// =============================================================================
+// Follow-ups
+// =============================================================================
+
+type FollowUpOutcome = {
+  status: 'sent' | 'skipped' | 'failed';
+  action?: AmberFollowUpAction;
+  external_id?: string;
+  status_message?: string;
+};
+
 // =============================================================================
 // Distribution Service
 // =============================================================================
 
 export class AmberDistributionService {
-  private supabase: Awaited<ReturnType<typeof createClient>> | null = null;
+  private supabase: SupabaseClient | null = null;
+
+  /**
+   * Requests use the caller's session. The job worker runs without one and
+   * passes a service-role client factory.
+   */
+  constructor(private createSupabase?: () => SupabaseClient) {}
 
   private async getSupabase() {
     if (!this.supabase) {
-      this.supabase = await createClient();
+      this.supabase = this.createSupabase ? this.createSupabase() : await createClient();
     }
     return this.supabase;
   }
@@ -54,6 +153,7 @@ export class AmberDistributionService {
     // Get channels to distribute to (use request channels or alert's default)
     const channels = request.channels || (alert as AmberAlert).distribution_channels;
     const targetProvinces = request.target_provinces || (alert as AmberAlert).target_provinces;
+    const target = this.areaTarget(alert as AmberAlert, targetProvinces);
 
     const distributionsCreated: AmberDistribution[] = [];
 
@@ -62,13 +162,19 @@ export class AmberDistributionService {
       const distributions = await this.createChannelDistributions(
         alert as AmberAlert,
         channel,
-        targetProvinces,
+        target,
         request.partner_ids,
         request.media_ids
       );
       distributionsCreated.push(...distributions);
     }
 
+    // Later widening only reaches recipients outside what was covered now
+    await supabase
+      .from('amber_alerts')
+      .update({ area_margin_km: target.marginKm })
+      .eq('id', request.amber_alert_id);
+
     // Log the distribution event
     await this.logDistributionEvent(
       request.amber_alert_id,
@@ -93,19 +199,24 @@ export class AmberDistributionService {
   private async createChannelDistributions(
     alert: AmberAlert,
     channel: AmberDistributionChannel,
-    targetProvinces: string[],
+    target: AreaTarget,
     partnerIds?: string[],
-    mediaIds?: string[]
+    mediaIds?: string[],
+    alreadyReached?: AreaTarget
   ): Promise<AmberDistribution[]> {
     const supabase = await this.getSupabase();
     const distributions: AmberDistributionInsert[] = [];
+    const targetProvinces = target.provinces;
+    // Bulk channels resolve their recipients when sent, against this area
+    const areaConfig = areaChannelConfig(target, alreadyReached);
 
     switch (channel) {
       case 'partner_alert':
         const partnerDistributions = await this.getPartnerDistributions(
           alert,
-          targetProvinces,
-          partnerIds
+          target,
+          partnerIds,
+          alreadyReached
         );
         distributions.push(...partnerDistributions);
         break;
@@ -113,8 +224,9 @@ export class AmberDistributionService {
       case 'media_outlet':
         const mediaDistributions = await this.getMediaDistributions(
           alert,
-          targetProvinces,
-          mediaIds
+          target,
+          mediaIds,
+          alreadyReached
         );
         distributions.push(...mediaDistributions);
         break;
@@ -125,7 +237,7 @@ export class AmberDistributionService {
           amber_alert_id: alert.id,
           channel: 'email',
           target_name: 'Email Subscribers',
-          channel_config: { provinces: targetProvinces },
+          channel_config: areaConfig,
         });
         break;
 
@@ -135,7 +247,7 @@ export class AmberDistributionService {
           amber_alert_id: alert.id,
           channel: 'push_notification',
           target_name: 'Mobile App Users',
-          channel_config: { provinces: targetProvinces },
+          channel_config: areaConfig,
         });
         break;
 
@@ -149,7 +261,7 @@ export class AmberDistributionService {
           amber_alert_id: alert.id,
           channel: 'sms',
           target_name: 'SMS Subscribers',
-          channel_config: { provinces: targetProvinces },
+          channel_config: areaConfig,
         });
         break;
 
@@ -184,6 +296,7 @@ export class AmberDistributionService {
         return [];
       }
 
+      await this.queueDistributions(data as AmberDistribution[]);
       return data as AmberDistribution[];
     }
 
@@ -195,20 +308,21 @@ export class AmberDistributionService {
    */
   private async getPartnerDistributions(
     alert: AmberAlert,
-    targetProvinces: string[],
-    specificPartnerIds?: string[]
+    target: AreaTarget,
+    specificPartnerIds?: string[],
+    alreadyReached?: AreaTarget
   ): Promise<AmberDistributionInsert[]> {
     const supabase = await this.getSupabase();
 
     let query = supabase
       .from('partner_organizations')
-      .select('id, name, contact_email, province')
+      .select('id, name, contact_email, province, latitude, longitude')
       .eq('status', 'active');
 
     if (specificPartnerIds && specificPartnerIds.length > 0) {
       query = query.in('id', specificPartnerIds);
-    } else if (targetProvinces.length > 0) {
-      query = query.in('province', targetProvinces);
+    } else if (!target.area && target.provinces.length > 0) {
+      query = query.in('province', target.provinces);
     }
 
     const { data: partners, error } = await query;
@@ -217,7 +331,12 @@ export class AmberDistributionService {
       return [];
     }
 
-    return partners.map((partner) => ({
+    // Partners picked by hand are notified wherever they are
+    const inArea = specificPartnerIds?.length
+      ? partners
+      : filterRecipientsByArea(partners, locateRow, target, alreadyReached);
+
+    return inArea.map((partner) => ({
       amber_alert_id: alert.id,
       channel: 'partner_alert' as AmberDistributionChannel,
       target_id: partner.id,
@@ -231,14 +350,15 @@ export class AmberDistributionService {
    */
   private async getMediaDistributions(
     alert: AmberAlert,
-    targetProvinces: string[],
-    specificMediaIds?: string[]
+    target: AreaTarget,
+    specificMediaIds?: string[],
+    alreadyReached?: AreaTarget
   ): Promise<AmberDistributionInsert[]> {
     const supabase = await this.getSupabase();
 
     let query = supabase
       .from('media_contacts')
-      .select('id, organization_name, contact_email, coverage_area')
+      .select('id, organization_name, contact_email, coverage_area, latitude, longitude, coverage_radius_km')
       .eq('is_active', true)
       .eq('accepts_amber_alerts', true);
 
@@ -252,12 +372,10 @@ export class AmberDistributionService {
       return [];
     }
 
-    // Filter by coverage area if provinces specified
-    const filteredMedia = targetProvinces.length > 0
-      ? media.filter((m) =>
-          m.coverage_area?.some((area: string) => targetProvinces.includes(area))
-        )
-      : media;
+    // Outlets are in range when their coverage overlaps the area
+    const filteredMedia = specificMediaIds?.length
+      ? media
+      : filterRecipientsByArea(media, locateRow, target, alreadyReached);
 
     return filteredMedia.map((outlet) => ({
       amber_alert_id: alert.id,
@@ -325,18 +443,41 @@ export class AmberDistributionService {
   }
 
   /**
-   * Process pending distributions (called by background worker)
+   * Queue one job per distribution. The job worker sends it, retrying with
+   * backoff; a distribution that keeps failing is dead-lettered for replay.
    */
-  async processPendingDistributions(limit: number = 50): Promise<number> {
+  private async queueDistributions(distributions: AmberDistribution[]): Promise<void> {
+    for (const distribution of distributions) {
+      try {
+        await jobQueue.enqueue(
+          'amber.distribution',
+          { distribution_id: distribution.id, amber_alert_id: distribution.amber_alert_id },
+          {
+            idempotencyKey: `amber.distribution:${distribution.id}`,
+            maxAttempts: distribution.max_retries + 1,
+          }
+        );
+      } catch (err) {
+        // Left pending; queuePendingDistributions picks it up
+        console.error(`Error queueing distribution ${distribution.id}:`, err);
+      }
+    }
+  }
+
+  /**
+   * Queue distributions still pending a few minutes after they were created,
+   * e.g. when queueing failed or they predate the job queue. Distributions
+   * that already have a job keep it.
+   */
+  async queuePendingDistributions(limit: number = 50): Promise<number> {
     const supabase = await this.getSupabase();
+    const staleBefore = new Date(Date.now() - 5 * 60 * 1000);
 
-    // Get pending distributions
     const { data: pending, error } = await supabase
       .from('amber_distributions')
-      .select('*, amber_alert:amber_alerts(*)')
-      .in('status', ['pending', 'failed'])
-      .or('next_retry_at.is.null,next_retry_at.lte.now()')
-      .lt('retry_count', 3)
+      .select('*')
+      .eq('status', 'pending')
+      .lt('created_at', staleBefore.toISOString())
       .order('created_at', { ascending: true })
       .limit(limit);
 
@@ -344,18 +485,42 @@ export class AmberDistributionService {
       return 0;
     }
 
-    let processed = 0;
+    await this.queueDistributions(pending as AmberDistribution[]);
+    return pending.length;
+  }
 
-    for (const distribution of pending) {
-      try {
-        await this.processDistribution(distribution as AmberDistribution & { amber_alert: AmberAlert });
-        processed++;
-      } catch (err) {
-        console.error(`Error processing distribution ${distribution.id}:`, err);
-      }
+  /**
+   * Send one distribution (run by the amber.distribution job). Throws when
+   * sending fails so the job retries.
+   */
+  async processDistributionById(distributionId: string): Promise<{ status: string }> {
+    const supabase = await this.getSupabase();
+
+    const { data: distribution, error } = await supabase
+      .from('amber_distributions')
+      .select('*, amber_alert:amber_alerts(*)')
+      .eq('id', distributionId)
+      .single();
+
+    if (error || !distribution) {
+      throw new Error(`Distribution ${distributionId} not found`);
     }
 
-    return processed;
+    // Cancelled, already sent, or a broadcast awaiting approval. A row left
+    // 'sending' was interrupted and is sent again.
+    if (!['pending', 'failed', 'sending'].includes(distribution.status)) {
+      return { status: distribution.status };
+    }
+
+    await this.processDistribution(distribution as AmberDistribution & { amber_alert: AmberAlert });
+
+    const { data: processed } = await supabase
+      .from('amber_distributions')
+      .select('status')
+      .eq('id', distributionId)
+      .single();
+
+    return { status: processed?.status ?? 'sent' };
   }
 
   /**
@@ -398,16 +563,38 @@ export class AmberDistributionService {
           break;
         case 'wea':
         case 'eas':
-        case 'highway_signs':
-          // These require manual approval, mark as queued
+        case 'highway_signs': {
+          // Carried by the CAP feed once a second person approves the message
+          const channel = distribution.channel as BroadcastChannel;
+          const broadcastApprovals = new BroadcastApprovalService(supabase);
+          const released = await broadcastApprovals.getReleasedIdentifier(distribution.amber_alert_id, channel);
+          if (released) {
+            await supabase
+              .from('amber_distributions')
+              .update({
+                status: 'sent',
+                sent_at: new Date().toISOString(),
+                external_id: released,
+                status_message: 'Released to the CAP feed after two-person approval',
+              })
+              .eq('id', distribution.id);
+            return;
+          }
+
+          const capIdentifier = await this.getLatestCapIdentifier(distribution.amber_alert_id);
+          if (capIdentifier) {
+            await broadcastApprovals.requestApproval(distribution.amber_alert_id, [channel], null);
+          }
           await supabase
             .from('amber_distributions')
             .update({
               status: 'queued',
-              status_message: 'Awaiting manual approval',
+              status_message: capIdentifier ? 'Awaiting two-person approval' : 'Awaiting CAP message',
+              external_id: capIdentifier,
             })
             .eq('id', distribution.id);
           return;
+        }
       }
 
       // Mark as sent
@@ -419,21 +606,18 @@ export class AmberDistributionService {
         })
         .eq('id', distribution.id);
     } catch (err) {
-      // Mark as failed
-      const retryCount = distribution.retry_count + 1;
-      const nextRetry = new Date();
-      nextRetry.setMinutes(nextRetry.getMinutes() + Math.pow(2, retryCount));
-
+      // Mark as failed; the job queue schedules the retry
       await supabase
         .from('amber_distributions')
         .update({
           status: 'failed',
           status_message: err instanceof Error ? err.message : 'Unknown error',
           failed_at: new Date().toISOString(),
-          retry_count: retryCount,
-          next_retry_at: retryCount < distribution.max_retries ? nextRetry.toISOString() : null,
+          retry_count: distribution.retry_count + 1,
         })
         .eq('id', distribution.id);
+
+      throw err;
     }
   }
 
@@ -474,26 +658,13 @@ export class AmberDistributionService {
   private async sendEmailDistribution(
     distribution: AmberDistribution & { amber_alert: AmberAlert }
   ): Promise<void> {
-    const supabase = await this.getSupabase();
     const alert = distribution.amber_alert;
-    const provinces = (distribution.channel_config as { provinces?: string[] })?.provinces || [];
 
     console.log(`[EMAIL] Sending AMBER Alert ${alert.alert_number} to email subscribers`);
 
-    // Get email subscribers for the target provinces
-    let query = supabase
-      .from('amber_email_subscribers')
-      .select('email')
-      .eq('is_active', true)
-      .eq('email_verified', true);
+    const subscribers = await this.getEmailSubscribers(distribution);
 
-    if (provinces.length > 0) {
-      query = query.in('province', provinces);
-    }
-
-    const { data: subscribers, error } = await query;
-
-    if (error || !subscribers?.length) {
+    if (!subscribers.length) {
       console.log(`[EMAIL] No email subscribers found for AMBER Alert ${alert.alert_number}`);
       return;
     }
@@ -507,7 +678,7 @@ export class AmberDistributionService {
       : undefined;
 
     const result = await emailService.sendAmberAlert({
-      recipients: subscribers.map(s => s.email),
+      recipients: subscribers,
       alertNumber: alert.alert_number,
       childName: alert.child_name,
       childAge: alert.child_age,
@@ -528,6 +699,30 @@ export class AmberDistributionService {
     console.log(`[EMAIL] Sent AMBER Alert to ${result.sent} subscribers`);
   }
 
+  /**
+   * Email subscribers a distribution covers
+   */
+  private async getEmailSubscribers(distribution: AmberDistribution): Promise<string[]> {
+    const supabase = await this.getSupabase();
+    const { target, alreadyReached } = targetsFromConfig(distribution.channel_config as AreaChannelConfig);
+
+    // Get email subscribers in the alert area
+    let query = supabase
+      .from('amber_email_subscribers')
+      .select('email, province, latitude, longitude')
+      .eq('is_active', true)
+      .eq('email_verified', true);
+
+    if (!target.area && target.provinces.length > 0) {
+      query = query.in('province', target.provinces);
+    }
+
+    const { data: rows, error } = await query;
+    if (error || !rows) return [];
+
+    return filterRecipientsByArea(rows, locateRow, target, alreadyReached).map((s) => s.email);
+  }
+
   /**
    * Send push notification
    */
@@ -535,7 +730,8 @@ export class AmberDistributionService {
     distribution: AmberDistribution & { amber_alert: AmberAlert }
   ): Promise<void> {
     const alert = distribution.amber_alert;
-    const provinces = (distribution.channel_config as { provinces?: string[] })?.provinces || [];
+    const { target, alreadyReached } = targetsFromConfig(distribution.channel_config as AreaChannelConfig);
+    const provinces = target.provinces;
 
     console.log(`[PUSH] Sending AMBER Alert ${alert.alert_number} via push notification`);
 
@@ -543,6 +739,9 @@ export class AmberDistributionService {
     const alertUrl = `${appUrl}/amber-alerts/${alert.id}`;
 
     const result = await pushService.sendAmberAlert({
+      inArea: target.area
+        ? (subscriber) => filterRecipientsByArea([subscriber], locateRow, target, alreadyReached).length > 0
+        : undefined,
       provinces: provinces.length > 0 ? provinces : alert.target_provinces,
       alertNumber: alert.alert_number,
       childName: alert.child_name,
@@ -612,6 +811,16 @@ export class AmberDistributionService {
       throw new Error(`Social media post failed: ${result.error}`);
     }
 
+    // Kept so updates can reply to the post and a cancellation can remove it
+    const supabase = await this.getSupabase();
+    await supabase
+      .from('amber_distributions')
+      .update({
+        external_id: result.postId,
+        external_response: { post_url: result.postUrl },
+      })
+      .eq('id', distribution.id);
+
     console.log(`[SOCIAL] Posted AMBER Alert to ${distribution.target_name}, post ID: ${result.postId}`);
   }
 
@@ -755,26 +964,13 @@ This AMBER Alert was distributed via LocateConnect.
   private async sendSmsDistribution(
     distribution: AmberDistribution & { amber_alert: AmberAlert }
   ): Promise<void> {
-    const supabase = await this.getSupabase();
     const alert = distribution.amber_alert;
-    const provinces = (distribution.channel_config as { provinces?: string[] })?.provinces || [];
 
     console.log(`[SMS] Sending AMBER Alert ${alert.alert_number} via SMS`);
 
-    // Get SMS subscribers for the target provinces
-    let query = supabase
-      .from('amber_sms_subscribers')
-      .select('phone_number')
-      .eq('is_active', true)
-      .eq('phone_verified', true);
+    const subscribers = await this.getSmsSubscribers(distribution);
 
-    if (provinces.length > 0) {
-      query = query.in('province', provinces);
-    }
-
-    const { data: subscribers, error } = await query;
-
-    if (error || !subscribers?.length) {
+    if (!subscribers.length) {
       console.log(`[SMS] No SMS subscribers found for AMBER Alert ${alert.alert_number}`);
       return;
     }
@@ -783,7 +979,7 @@ This AMBER Alert was distributed via LocateConnect.
     const alertUrl = `${appUrl}/amber-alerts/${alert.id}`;
 
     const result = await smsService.sendAmberAlert({
-      recipients: subscribers.map(s => s.phone_number),
+      recipients: subscribers,
       alertNumber: alert.alert_number,
       childName: alert.child_name,
       abductionCity: alert.abduction_city,
@@ -799,15 +995,95 @@ This AMBER Alert was distributed via LocateConnect.
     }
   }
 
+  /**
+   * SMS subscribers a distribution covers
+   */
+  private async getSmsSubscribers(distribution: AmberDistribution): Promise<string[]> {
+    const supabase = await this.getSupabase();
+    const { target, alreadyReached } = targetsFromConfig(distribution.channel_config as AreaChannelConfig);
+
+    // Get SMS subscribers in the alert area
+    let query = supabase
+      .from('amber_sms_subscribers')
+      .select('phone_number, province, latitude, longitude')
+      .eq('is_active', true)
+      .eq('phone_verified', true);
+
+    if (!target.area && target.provinces.length > 0) {
+      query = query.in('province', target.provinces);
+    }
+
+    const { data: rows, error } = await query;
+    if (error || !rows) return [];
+
+    return filterRecipientsByArea(rows, locateRow, target, alreadyReached).map((s) => s.phone_number);
+  }
+
   /**
    * Send webhook to partner API
    */
   private async sendWebhook(
     distribution: AmberDistribution & { amber_alert: AmberAlert }
   ): Promise<void> {
-    const supabase = await this.getSupabase();
     const alert = distribution.amber_alert;
 
+    console.log(`[WEBHOOK] Sending AMBER Alert ${alert.alert_number} to ${distribution.target_name}`);
+
+    await this.deliverWebhook(distribution, 'amber_alert', {
+      event: 'amber_alert',
+      timestamp: new Date().toISOString(),
+      alert_number: alert.alert_number,
+      alert: this.webhookAlert(alert),
+    });
+
+    console.log(`[WEBHOOK] Successfully sent AMBER Alert to ${distribution.target_name}`);
+  }
+
+  /**
+   * Alert fields included in webhook payloads
+   */
+  private webhookAlert(alert: AmberAlert): Record<string, unknown> {
+    return {
+      id: alert.id,
+      case_id: alert.case_id,
+      alert_number: alert.alert_number,
+      alert_status: alert.alert_status,
+      child_name: alert.child_name,
+      child_age: alert.child_age,
+      child_gender: alert.child_gender,
+      child_description: alert.child_description,
+      child_photo_url: alert.child_photo_url,
+      abduction_date: alert.abduction_date,
+      abduction_time: alert.abduction_time,
+      abduction_location: alert.abduction_location,
+      abduction_city: alert.abduction_city,
+      abduction_province: alert.abduction_province,
+      target_provinces: alert.target_provinces,
+      vehicle_involved: alert.vehicle_involved,
+      vehicle_make: alert.vehicle_make,
+      vehicle_model: alert.vehicle_model,
+      vehicle_color: alert.vehicle_color,
+      vehicle_year: alert.vehicle_year,
+      vehicle_license_plate: alert.vehicle_license_plate,
+      suspect_name: alert.suspect_name,
+      suspect_description: alert.suspect_description,
+      requesting_officer_name: alert.requesting_officer_name,
+      requesting_officer_phone: alert.requesting_officer_phone,
+      issued_at: alert.issued_at,
+    };
+  }
+
+  /**
+   * Sign and POST a webhook event to the distribution's partner, logging the
+   * delivery
+   */
+  private async deliverWebhook(
+    distribution: AmberDistribution & { amber_alert: AmberAlert },
+    event: string,
+    payload: Record<string, unknown>
+  ): Promise<void> {
+    const supabase = await this.getSupabase();
+
     if (!distribution.target_id) {
       throw new Error('Partner ID not specified');
     }
@@ -838,43 +1114,6 @@ This AMBER Alert was distributed via LocateConnect.
       .limit(1)
       .single();
 
-    console.log(`[WEBHOOK] Sending AMBER Alert ${alert.alert_number} to ${distribution.target_name}`);
-
-    // Build the webhook payload
-    const payload = {
-      event: 'amber_alert',
-      timestamp: new Date().toISOString(),
-      alert_number: alert.alert_number,
-      alert: {
-        id: alert.id,
-        case_id: alert.case_id,
-        alert_number: alert.alert_number,
-        alert_status: alert.alert_status,
-        child_name: alert.child_name,
-        child_age: alert.child_age,
-        child_gender: alert.child_gender,
-        child_description: alert.child_description,
-        child_photo_url: alert.child_photo_url,
-        abduction_date: alert.abduction_date,
-        abduction_time: alert.abduction_time,
-        abduction_location: alert.abduction_location,
-        abduction_city: alert.abduction_city,
-        abduction_province: alert.abduction_province,
-        target_provinces: alert.target_provinces,
-        vehicle_involved: alert.vehicle_involved,
-        vehicle_make: alert.vehicle_make,
-        vehicle_model: alert.vehicle_model,
-        vehicle_color: alert.vehicle_color,
-        vehicle_year: alert.vehicle_year,
-        vehicle_license_plate: alert.vehicle_license_plate,
-        suspect_name: alert.suspect_name,
-        suspect_description: alert.suspect_description,
-        requesting_officer_name: alert.requesting_officer_name,
-        requesting_officer_phone: alert.requesting_officer_phone,
-        issued_at: alert.issued_at,
-      },
-    };
-
     // Create signature for verification (HMAC-SHA256)
     const payloadString = JSON.stringify(payload);
     let signature = '';
@@ -901,9 +1140,9 @@ This AMBER Alert was distributed via LocateConnect.
     // Make the webhook call
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
-      'X-Webhook-Event': 'amber_alert',
+      'X-Webhook-Event': event,
       'X-Webhook-Timestamp': new Date().toISOString(),
-      'X-Alert-Number': alert.alert_number,
+      'X-Alert-Number': distribution.amber_alert.alert_number,
     };
 
     if (signature) {
@@ -927,12 +1166,10 @@ This AMBER Alert was distributed via LocateConnect.
         throw new Error(`Webhook returned ${response.status}: ${errorText.substring(0, 200)}`);
       }
 
-      console.log(`[WEBHOOK] Successfully sent AMBER Alert to ${distribution.target_name}`);
-
       // Log the webhook delivery
       await supabase.from('webhook_deliveries').insert({
         partner_id: distribution.target_id,
-        event_type: 'amber_alert',
+        event_type: event,
         payload: payload,
         status: 'delivered',
         response_code: response.status,
@@ -942,7 +1179,7 @@ This AMBER Alert was distributed via LocateConnect.
       // Log the failed delivery
       await supabase.from('webhook_deliveries').insert({
         partner_id: distribution.target_id,
-        event_type: 'amber_alert',
+        event_type: event,
         payload: payload,
         status: 'failed',
         error_message: err instanceof Error ? err.message : 'Unknown error',
@@ -970,6 +1207,717 @@ This AMBER Alert was distributed via LocateConnect.
     return parts.filter(Boolean).join('. ');
   }
 
+  /**
+   * Generate the CAP message for the alert's current status: an Alert when
+   * issued, then an Update or Cancel referencing every earlier message.
+   * Called whenever the alert's status changes. Alerts and updates wait for
+   * two-person approval before entering the feed; a cancel goes out at once
+   * if anything it cancels was broadcast. Returns null when the alert was
+   * already cancelled.
+   */
+  async publishCapMessage(alertId: string, actorId?: string): Promise<AmberCapMessage | null> {
+    const supabase = await this.getSupabase();
+
+    const { data: alert, error: alertError } = await supabase
+      .from('amber_alerts')
+      .select('*')
+      .eq('id', alertId)
+      .single();
+
+    if (alertError || !alert) {
+      throw new Error('AMBER Alert not found');
+    }
+
+    const { data: previous, error: previousError } = await supabase
+      .from('amber_cap_messages')
+      .select('identifier, sender, sent_at, msg_type, released_at')
+      .eq('amber_alert_id', alertId)
+      .order('sent_at', { ascending: true });
+
+    if (previousError) {
+      throw new Error(`Failed to load CAP messages: ${previousError.message}`);
+    }
+
+    const earlier = previous || [];
+    if (earlier.at(-1)?.msg_type === 'Cancel') {
+      return null;
+    }
+
+    const amberAlert = alert as AmberAlert;
+    const sent = new Date();
+    const sender = process.env.CAP_SENDER || 'amber@locateconnect.ca';
+    const identifier = `urn:uuid:${crypto.randomUUID()}`;
+    const msgType = capMsgTypeFor(amberAlert.alert_status, earlier.length > 0);
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://locateconnect.ca';
+
+    const xml = buildCapMessage(amberAlert, {
+      identifier,
+      sender,
+      sent,
+      msgType,
+      references: earlier.map((m) => ({
+        sender: m.sender,
+        identifier: m.identifier,
+        sent: formatCapDateTime(new Date(m.sent_at)),
+      })),
+      alertUrl: `${appUrl}/amber-alerts/${amberAlert.id}`,
+      coordinates: parsePoint(amberAlert.target_coordinates),
+    });
+
+    // A Cancel for an alert already on air is released as it is stored, so
+    // receivers stop broadcasting without waiting for a second person
+    const releaseNow = msgType === 'Cancel' && earlier.some((m) => m.released_at);
+
+    const { data: message, error } = await supabase
+      .from('amber_cap_messages')
+      .insert({
+        amber_alert_id: alertId,
+        identifier,
+        sender,
+        sent_at: sent.toISOString(),
+        msg_type: msgType,
+        alert_status: amberAlert.alert_status,
+        expires_at: capExpiry(amberAlert, sent, msgType).toISOString(),
+        xml,
+        created_by: actorId,
+        released_at: releaseNow ? sent.toISOString() : null,
+        released_by: releaseNow ? actorId : null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to store CAP message: ${error.message}`);
+    }
+
+    await supabase
+      .from('amber_distributions')
+      .update({ external_id: identifier })
+      .eq('amber_alert_id', alertId)
+      .in('channel', BROADCAST_CHANNELS);
+
+    await this.logDistributionEvent(
+      alertId,
+      'cap_message_published',
+      `CAP ${msgType} ${identifier} generated`
+    );
+
+    const broadcastApprovals = new BroadcastApprovalService(supabase);
+    if (msgType === 'Cancel') {
+      await broadcastApprovals.supersedePending(alertId, 'Alert cancelled');
+      if (releaseNow) {
+        await this.logDistributionEvent(alertId, 'broadcast_released', `CAP Cancel ${identifier} released to feed`);
+      }
+    } else {
+      const channels = amberAlert.distribution_channels.filter(isBroadcastChannel);
+      if (channels.length > 0) {
+        await broadcastApprovals.requestApproval(alertId, channels, actorId ?? null);
+      }
+    }
+
+    return message as AmberCapMessage;
+  }
+
+  /**
+   * Identifier of the alert's most recent CAP message
+   */
+  private async getLatestCapIdentifier(alertId: string): Promise<string | null> {
+    const supabase = await this.getSupabase();
+
+    const { data } = await supabase
+      .from('amber_cap_messages')
+      .select('identifier')
+      .eq('amber_alert_id', alertId)
+      .order('sent_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    return data?.identifier ?? null;
+  }
+
+  /**
+   * Area the alert targets right now, widened by its expansion schedule
+   */
+  private areaTarget(alert: AmberAlert, provinces: string[], now: Date = new Date()): AreaTarget {
+    return {
+      area: alertAreaFor(alert),
+      marginKm: expansionKm(alert.area_expansion, alert.issued_at, now),
+      provinces,
+    };
+  }
+
+  /**
+   * How many recipients each location-aware channel would reach for an
+   * area, so officers can size it before sending
+   */
+  async estimateReach(input: {
+    area: AmberAlertArea | null;
+    expansion?: AmberAreaExpansion | null;
+    issuedAt?: string;
+    provinces: string[];
+    channels: AmberDistributionChannel[];
+  }): Promise<AmberReachEstimate> {
+    const supabase = await this.getSupabase();
+    const target: AreaTarget = {
+      area: input.area,
+      marginKm: input.issuedAt ? expansionKm(input.expansion, input.issuedAt) : 0,
+      provinces: input.provinces,
+    };
+    let estimate = emptyReachEstimate(target);
+
+    const sources: Partial<Record<AmberDistributionChannel, () => PromiseLike<AreaRecipient[]>>> = {
+      partner_alert: () =>
+        supabase
+          .from('partner_organizations')
+          .select('province, latitude, longitude')
+          .eq('status', 'active')
+          .then(({ data }) => (data || []).map(locateRow)),
+      media_outlet: () =>
+        supabase
+          .from('media_contacts')
+          .select('coverage_area, latitude, longitude, coverage_radius_km')
+          .eq('is_active', true)
+          .eq('accepts_amber_alerts', true)
+          .then(({ data }) => (data || []).map(locateRow)),
+      email: () =>
+        supabase
+          .from('amber_email_subscribers')
+          .select('province, latitude, longitude')
+          .eq('is_active', true)
+          .eq('email_verified', true)
+          .then(({ data }) => (data || []).map(locateRow)),
+      sms: () =>
+        supabase
+          .from('amber_sms_subscribers')
+          .select('province, latitude, longitude')
+          .eq('is_active', true)
+          .eq('phone_verified', true)
+          .then(({ data }) => (data || []).map(locateRow)),
+      push_notification: () =>
+        supabase
+          .from('push_subscriptions')
+          .select('latitude, longitude, profiles!inner(province)')
+          .then(({ data }) =>
+            (data || []).map((row) =>
+              locateRow({
+                latitude: row.latitude,
+                longitude: row.longitude,
+                province: (row.profiles as unknown as { province?: string | null })?.province,
+              })
+            )
+          ),
+    };
+
+    for (const channel of input.channels) {
+      const load = sources[channel];
+      if (load) {
+        estimate = addToReachEstimate(estimate, channel, await load(), target);
+      }
+    }
+
+    return estimate;
+  }
+
+  /**
+   * Apply the alert's expansion schedule: when the area has grown since
+   * distributions were last created, reach the recipients it now covers.
+   * Called by the background worker. Returns the distributions created.
+   */
+  async widenAlertArea(alertId: string): Promise<number> {
+    const alert = await this.getActiveAlert(alertId);
+    if (!alert) return 0;
+
+    const target = this.areaTarget(alert, alert.target_provinces);
+    const reachedMarginKm = Number(alert.area_margin_km ?? 0);
+    if (!target.area || target.marginKm <= reachedMarginKm) return 0;
+
+    return this.extendDistribution(alert, target, { ...target, marginKm: reachedMarginKm });
+  }
+
+  /**
+   * Widen every active alert that has an expansion schedule
+   */
+  async widenActiveAlertAreas(): Promise<{ alerts: number; created: number }> {
+    const supabase = await this.getSupabase();
+
+    const { data: alerts } = await supabase
+      .from('amber_alerts')
+      .select('id')
+      .eq('alert_status', 'active')
+      .not('area_expansion', 'is', null);
+
+    let created = 0;
+    for (const alert of alerts || []) {
+      try {
+        created += await this.widenAlertArea(alert.id);
+      } catch (err) {
+        console.error(`Error widening area for AMBER Alert ${alert.id}:`, err);
+      }
+    }
+
+    return { alerts: alerts?.length || 0, created };
+  }
+
+  /**
+   * Replace the alert's area or expansion schedule. Recipients the new area
+   * covers that the old one did not are sent the alert.
+   */
+  async updateAlertArea(
+    alertId: string,
+    area: AmberAlertArea | null,
+    expansion: AmberAreaExpansion | null,
+    actorId: string
+  ): Promise<number> {
+    const supabase = await this.getSupabase();
+    const alert = await this.getActiveAlert(alertId);
+    if (!alert) {
+      throw new Error('Only active AMBER Alerts can change area');
+    }
+
+    const reached: AreaTarget = {
+      area: alertAreaFor(alert),
+      marginKm: Number(alert.area_margin_km ?? 0),
+      provinces: alert.target_provinces,
+    };
+
+    const { error } = await supabase
+      .from('amber_alerts')
+      .update({ target_area: area, area_expansion: expansion })
+      .eq('id', alertId);
+
+    if (error) {
+      throw new Error(`Failed to update alert area: ${error.message}`);
+    }
+
+    await this.logDistributionEvent(alertId, 'area_changed', `Alert area set to ${area ? area.type : 'provinces only'}`, undefined, {
+      actorId,
+      metadata: { previous_area: alert.target_area ?? null, area, expansion },
+    });
+
+    const updated = { ...alert, target_area: area, area_expansion: expansion };
+    return this.extendDistribution(updated, this.areaTarget(updated, alert.target_provinces), reached, actorId);
+  }
+
+  private async getActiveAlert(alertId: string): Promise<AmberAlert | null> {
+    const supabase = await this.getSupabase();
+
+    const { data } = await supabase
+      .from('amber_alerts')
+      .select('*')
+      .eq('id', alertId)
+      .eq('alert_status', 'active')
+      .maybeSingle();
+
+    return (data as AmberAlert) ?? null;
+  }
+
+  /**
+   * Create distributions for recipients in `target` but outside `reached`,
+   * on the location-aware channels the alert has already gone out on
+   */
+  private async extendDistribution(
+    alert: AmberAlert,
+    target: AreaTarget,
+    reached: AreaTarget,
+    actorId?: string
+  ): Promise<number> {
+    const supabase = await this.getSupabase();
+
+    const { data: existing } = await supabase
+      .from('amber_distributions')
+      .select('channel')
+      .eq('amber_alert_id', alert.id);
+
+    const distributed = new Set((existing || []).map((d) => d.channel as AmberDistributionChannel));
+    if (distributed.size === 0) return 0;
+
+    let created = 0;
+    for (const channel of AREA_CHANNELS) {
+      if (!distributed.has(channel)) continue;
+      const distributions = await this.createChannelDistributions(
+        alert,
+        channel,
+        target,
+        undefined,
+        undefined,
+        reached
+      );
+      created += distributions.length;
+    }
+
+    await supabase
+      .from('amber_alerts')
+      .update({ area_margin_km: target.marginKm })
+      .eq('id', alert.id);
+
+    await this.logDistributionEvent(
+      alert.id,
+      'area_widened',
+      `Alert area widened to ${target.marginKm} km beyond its base area; ${created} distribution(s) added`,
+      undefined,
+      { actorId, metadata: { area: target.area, margin_km: target.marginKm, previous_margin_km: reached.marginKm } }
+    );
+
+    return created;
+  }
+
+  /**
+   * Queue sendFollowUps on the job worker. A cancellation is queued once per
+   * alert however many times it is requested. The follow-up key travels in
+   * the payload so a replayed dead letter still finds what was sent.
+   */
+  async queueFollowUps(
+    alertId: string,
+    kind: AmberFollowUpKind,
+    options: { changes?: AmberAlertChange[]; actorId?: string } = {}
+  ): Promise<Job> {
+    const { job } = await jobQueue.enqueue(
+      'amber.follow_ups',
+      {
+        amber_alert_id: alertId,
+        kind,
+        changes: options.changes ?? [],
+        actor_id: options.actorId ?? null,
+        follow_up_key: kind === 'cancel' ? 'cancel' : crypto.randomUUID(),
+      },
+      kind === 'cancel' ? { idempotencyKey: `amber.follow_ups:${alertId}:cancel` } : {}
+    );
+
+    return job;
+  }
+
+  /**
+   * Tell every channel that already carried the alert that its details
+   * changed or that it ended. Call once the alert row holds the new details
+   * or status. Each follow-up is recorded once per distribution, kind and
+   * key: a channel already told under the same key is not told again.
+   * A channel that fails is queued as its own job so the queue retries it
+   * and dead-letters it when it keeps failing. With distributionId only
+   * that channel is told, and a failure throws.
+   */
+  async sendFollowUps(
+    alertId: string,
+    kind: AmberFollowUpKind,
+    options: { changes?: AmberAlertChange[]; actorId?: string; key?: string; distributionId?: string } = {}
+  ): Promise<AmberFollowUpResult> {
+    const supabase = await this.getSupabase();
+    const changes = options.changes ?? [];
+    const key = options.key ?? crypto.randomUUID();
+
+    const { data: alert, error: alertError } = await supabase
+      .from('amber_alerts')
+      .select('*')
+      .eq('id', alertId)
+      .single();
+
+    if (alertError || !alert) {
+      throw new Error('AMBER alert not found');
+    }
+
+    let query = supabase
+      .from('amber_distributions')
+      .select('*')
+      .eq('amber_alert_id', alertId)
+      .in('status', ['sent', 'delivered']);
+    if (options.distributionId) {
+      query = query.eq('id', options.distributionId);
+    }
+    const { data: distributions, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch distributions: ${error.message}`);
+    }
+
+    const { data: recorded, error: recordedError } = await supabase
+      .from('amber_distribution_follow_ups')
+      .select('id, distribution_id, status')
+      .eq('amber_alert_id', alertId)
+      .eq('kind', kind)
+      .eq('follow_up_key', key);
+
+    if (recordedError) {
+      throw new Error(`Failed to fetch follow-ups: ${recordedError.message}`);
+    }
+
+    const previous = new Map(
+      (recorded || []).map((row) => [row.distribution_id as string, row as { id: string; status: string }])
+    );
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://locateconnect.ca';
+    const alertUrl = `${appUrl}/amber-alerts/${alertId}`;
+    const result: AmberFollowUpResult = { sent: 0, failed: 0, skipped: 0 };
+    const failures: string[] = [];
+
+    for (const distribution of (distributions || []).filter(needsFollowUp)) {
+      const message = distribution.channel === 'sms'
+        ? formatFollowUpSms(alert, kind, changes, alertUrl)
+        : formatFollowUpMessage(alert, kind, changes, alertUrl);
+
+      // Sent or skipped by an earlier attempt under this key
+      let followUp: { id: string; status: string } | null = previous.get(distribution.id) ?? null;
+      if (followUp && followUp.status !== 'pending' && followUp.status !== 'failed') {
+        continue;
+      }
+
+      if (!followUp) {
+        const { data: inserted, error: insertError } = await supabase
+          .from('amber_distribution_follow_ups')
+          .insert({
+            amber_alert_id: alertId,
+            distribution_id: distribution.id,
+            channel: distribution.channel,
+            kind,
+            follow_up_key: key,
+            message,
+            changes,
+            created_by: options.actorId,
+          })
+          .select('id, status')
+          .single();
+
+        // Another worker recorded it first and is sending it
+        if (insertError?.code === '23505') {
+          continue;
+        }
+        if (insertError || !inserted) {
+          console.error(`Failed to record ${kind} follow-up for distribution ${distribution.id}:`, insertError);
+          result.failed++;
+          failures.push(distribution.id);
+          continue;
+        }
+        followUp = inserted;
+      }
+
+      let outcome: FollowUpOutcome;
+      try {
+        outcome = await this.sendFollowUp(
+          { ...(distribution as AmberDistribution), amber_alert: alert as AmberAlert },
+          kind,
+          message,
+          changes,
+          alertUrl
+        );
+      } catch (err) {
+        outcome = { status: 'failed', status_message: err instanceof Error ? err.message : 'Unknown error' };
+      }
+
+      const { error: updateError } = await supabase
+        .from('amber_distribution_follow_ups')
+        .update({
+          ...outcome,
+          sent_at: outcome.status === 'sent' ? new Date().toISOString() : null,
+        })
+        .eq('id', followUp.id);
+
+      if (updateError) {
+        console.error(`Failed to record ${kind} follow-up outcome for distribution ${distribution.id}:`, updateError);
+      }
+
+      result[outcome.status]++;
+      if (outcome.status === 'failed') {
+        failures.push(distribution.id);
+      }
+    }
+
+    await this.logDistributionEvent(
+      alertId,
+      kind === 'update' ? 'update_propagated' : 'cancellation_propagated',
+      `${kind === 'update' ? 'Update' : 'Cancellation'} sent to channels: ${result.sent} sent, ${result.failed} failed, ${result.skipped} skipped`,
+      options.distributionId,
+      {
+        actorId: options.actorId,
+        metadata: { ...result, follow_up_key: key, changed_fields: changes.map((change) => change.field) },
+      }
+    );
+
+    if (options.distributionId) {
+      if (failures.length > 0) {
+        throw new Error(`${kind} follow-up failed for distribution ${options.distributionId}`);
+      }
+      return result;
+    }
+
+    for (const distributionId of failures) {
+      await jobQueue.enqueue(
+        'amber.follow_ups',
+        {
+          amber_alert_id: alertId,
+          kind,
+          changes,
+          actor_id: options.actorId ?? null,
+          follow_up_key: key,
+          distribution_id: distributionId,
+        },
+        { idempotencyKey: `amber.follow_ups:${key}:${distributionId}` }
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Send one follow-up on the channel the distribution used. Throws when the
+   * channel rejects it.
+   */
+  private async sendFollowUp(
+    distribution: AmberDistribution & { amber_alert: AmberAlert },
+    kind: AmberFollowUpKind,
+    message: string,
+    changes: AmberAlertChange[],
+    alertUrl: string
+  ): Promise<FollowUpOutcome> {
+    const supabase = await this.getSupabase();
+    const alert = distribution.amber_alert;
+    const headline = followUpHeadline(alert, kind);
+
+    switch (distribution.channel) {
+      case 'partner_alert': {
+        if (!distribution.target_id) {
+          throw new Error('Partner ID not specified');
+        }
+
+        const { error } = await supabase.from('partner_alerts').insert({
+          partner_id: distribution.target_id,
+          case_id: alert.case_id,
+          alert_type: 'amber_alert',
+          title: headline,
+          message,
+          priority: kind === 'update' ? 'critical' : 'high',
+          delivery_method: 'in_app',
+          delivery_status: 'sent',
+        });
+
+        if (error) {
+          throw new Error(`Failed to create partner alert: ${error.message}`);
+        }
+        return { status: 'sent', action: 'partner_notified' };
+      }
+
+      case 'email': {
+        const recipients = await this.getEmailSubscribers(distribution);
+        if (!recipients.length) {
+          return { status: 'skipped', status_message: 'No email subscribers to notify' };
+        }
+
+        const result = await emailService.sendAmberAlertFollowUp({
+          recipients,
+          alertNumber: alert.alert_number,
+          kind,
+          headline,
+          details: followUpDetails(alert, kind, changes, alertUrl),
+          alertUrl,
+        });
+
+        if (result.sent === 0 && result.failed > 0) {
+          throw new Error(`Email follow-up failed: ${result.errors?.join(', ')}`);
+        }
+        return { status: 'sent', action: 'message_sent', status_message: `${result.sent} sent, ${result.failed} failed` };
+      }
+
+      case 'sms': {
+        const recipients = await this.getSmsSubscribers(distribution);
+        if (!recipients.length) {
+          return { status: 'skipped', status_message: 'No SMS subscribers to notify' };
+        }
+
+        const result = await smsService.sendBulk({ recipients, message });
+
+        if (result.sent === 0 && result.failed > 0) {
+          throw new Error(`SMS follow-up failed: ${result.errors?.join(', ')}`);
+        }
+        return { status: 'sent', action: 'message_sent', status_message: `${result.sent} sent, ${result.failed} failed` };
+      }
+
+      case 'push_notification': {
+        const { target, alreadyReached } = targetsFromConfig(distribution.channel_config as AreaChannelConfig);
+        const result = await pushService.sendAmberAlertFollowUp({
+          inArea: target.area
+            ? (subscriber) => filterRecipientsByArea([subscriber], locateRow, target, alreadyReached).length > 0
+            : undefined,
+          provinces: target.provinces.length > 0 ? target.provinces : alert.target_provinces,
+          alertNumber: alert.alert_number,
+          kind,
+          title: headline,
+          body: kind === 'update' && changes.length > 0
+            ? `Updated: ${changes.map((change) => change.label.toLowerCase()).join(', ')}. Tap for details.`
+            : followUpDetails(alert, kind, changes, alertUrl)[0],
+          alertUrl,
+        });
+
+        if (result.sent === 0 && result.failed > 0) {
+          throw new Error(`Push follow-up failed: ${result.errors?.join(', ')}`);
+        }
+        return { status: 'sent', action: 'message_sent', status_message: `${result.sent} sent, ${result.failed} failed` };
+      }
+
+      case 'social_media': {
+        if (!distribution.target_id) {
+          throw new Error('Social media account ID not specified');
+        }
+        if (!distribution.external_id) {
+          return { status: 'skipped', status_message: 'The original post ID was not recorded' };
+        }
+
+        const post = { accountId: distribution.target_id, postId: distribution.external_id };
+        let deleteError: string | undefined;
+
+        if (SOCIAL_FOLLOW_UP[kind] === 'delete') {
+          const deleted = await socialService.deletePost(post);
+          if (deleted.success) {
+            return { status: 'sent', action: 'post_deleted', external_id: distribution.external_id };
+          }
+          // Some platforms keep posts up; a reply still tells people it is over
+          deleteError = deleted.error;
+        }
+
+        const reply = await socialService.reply({ ...post, message });
+        if (!reply.success) {
+          throw new Error(`Social media reply failed: ${reply.error}`);
+        }
+        return {
+          status: 'sent',
+          action: 'post_replied',
+          external_id: reply.postId,
+          status_message: deleteError ? `Could not delete the post (${deleteError}); replied instead` : undefined,
+        };
+      }
+
+      case 'media_outlet': {
+        if (!distribution.target_contact) {
+          throw new Error('Media contact email not specified');
+        }
+
+        const result = await emailService.send({
+          to: distribution.target_contact,
+          subject: `[PRESS] ${headline} - Alert #${alert.alert_number}`,
+          text: `${message}\n\n---\nThis AMBER Alert was distributed via LocateConnect.`,
+          priority: 'high',
+          tags: ['amber-alert', 'media', `amber-${kind}`, alert.alert_number],
+        });
+
+        if (!result.success) {
+          throw new Error(`Media follow-up failed: ${result.error}`);
+        }
+        return { status: 'sent', action: 'message_sent' };
+      }
+
+      case 'api_webhook': {
+        const event = WEBHOOK_FOLLOW_UP_EVENT[kind];
+        await this.deliverWebhook(distribution, event, {
+          event,
+          timestamp: new Date().toISOString(),
+          alert_number: alert.alert_number,
+          alert: this.webhookAlert(alert),
+          changes,
+          ...(kind === 'cancel' && { reason: alert.cancelled_reason ?? null }),
+        });
+        return { status: 'sent', action: 'webhook_sent' };
+      }
+
+      default:
+        return { status: 'skipped', status_message: `No follow-up for ${distribution.channel}` };
+    }
+  }
+
   /**
    * Get distribution summary for an alert
    */
@@ -981,6 +1929,11 @@ This AMBER Alert was distributed via LocateConnect.
       .select('status, channel')
       .eq('amber_alert_id', alertId);
 
+    const { data: followUps } = await supabase
+      .from('amber_distribution_follow_ups')
+      .select('channel, kind, status, created_at')
+      .eq('amber_alert_id', alertId);
+
     if (error || !data) {
       return {
         total: 0,
@@ -991,6 +1944,7 @@ This AMBER Alert was distributed via LocateConnect.
         delivered: 0,
         failed: 0,
         by_channel: {} as Record<AmberDistributionChannel, number>,
+        channels: {},
       };
     }
 
@@ -1003,6 +1957,7 @@ This AMBER Alert was distributed via LocateConnect.
       delivered: data.filter((d) => d.status === 'delivered').length,
       failed: data.filter((d) => d.status === 'failed').length,
       by_channel: {} as Record<AmberDistributionChannel, number>,
+      channels: summarizeChannelDelivery(data, followUps || []),
     };
 
     // Count by channel
@@ -1021,7 +1976,8 @@ This AMBER Alert was distributed via LocateConnect.
     alertId: string,
     eventType: string,
     message: string,
-    distributionId?: string
+    distributionId?: string,
+    details: { actorId?: string; metadata?: Record<string, unknown> } = {}
   ): Promise<void> {
     const supabase = await this.getSupabase();
 
@@ -1030,12 +1986,16 @@ This AMBER Alert was distributed via LocateConnect.
       distribution_id: distributionId,
       event_type: eventType,
       message,
-      actor_type: 'system',
+      metadata: details.metadata,
+      actor_id: details.actorId,
+      actor_type: details.actorId ? 'user' : 'system',
     });
   }
 
   /**
-   * Cancel all pending distributions for an alert
+   * Cancel all distributions for an alert that have not gone out, including
+   * failed ones still waiting for a retry. Those already delivered are told
+   * through sendFollowUps.
    */
   async cancelDistributions(alertId: string, reason: string): Promise<number> {
     const supabase = await this.getSupabase();
@@ -1046,7 +2006,7 @@ This AMBER Alert was distributed via LocateConnect.
         status: 'cancelled',
         status_message: reason,
       })
-      .in('status', ['pending', 'queued'])
+      .in('status', ['pending', 'queued', 'failed'])
       .eq('amber_alert_id', alertId)
       .select();
 
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import type { AmberAlert } from '@/types';
+import {
+  describeAlertChanges,
+  followUpHeadline,
+  formatFollowUpMessage,
+  formatFollowUpSms,
+  needsFollowUp,
+  summarizeChannelDelivery,
+} from './follow-up';
+
+const alert: AmberAlert = {
+  id: 'b3f1c2d4-0000-4000-8000-000000000001',
+  case_id: 'case-1',
+  alert_number: 'AMBER-2026-AB-001',
+  alert_status: 'active',
+  child_name: 'Maya Thompson',
+  child_age: 7,
+  child_description: 'Brown hair, pink jacket',
+  abduction_date: '2026-01-20',
+  abduction_location: 'Whyte Ave & 104 St',
+  abduction_city: 'Edmonton',
+  abduction_province: 'AB',
+  vehicle_involved: true,
+  vehicle_color: 'Grey',
+  vehicle_license_plate: 'CKX 1234',
+  target_provinces: ['AB'],
+  distribution_channels: ['sms', 'social_media'],
+  requesting_officer_name: 'Cst. Lee',
+  requesting_officer_phone: '780-555-0100',
+  requesting_officer_agency: 'Edmonton Police Service',
+  issued_at: '2026-01-20T15:00:00.000Z',
+  created_at: '2026-01-20T15:00:00.000Z',
+  updated_at: '2026-01-20T15:00:00.000Z',
+};
+
+const alertUrl = 'https://locateconnect.ca/amber-alerts/b3f1c2d4';
+
+describe('needsFollowUp', () => {
+  it('follows up deliveries that reached someone', () => {
+    expect(needsFollowUp({ channel: 'sms', status: 'sent' })).toBe(true);
+    expect(needsFollowUp({ channel: 'api_webhook', status: 'delivered' })).toBe(true);
+  });
+
+  it('skips deliveries that never went out', () => {
+    expect(needsFollowUp({ channel: 'email', status: 'cancelled' })).toBe(false);
+    expect(needsFollowUp({ channel: 'email', status: 'failed' })).toBe(false);
+  });
+
+  it('leaves broadcast channels to the CAP feed', () => {
+    expect(needsFollowUp({ channel: 'wea', status: 'sent' })).toBe(false);
+    expect(needsFollowUp({ channel: 'highway_signs', status: 'sent' })).toBe(false);
+  });
+});
+
+describe('describeAlertChanges', () => {
+  it('lists only amended fields whose value changed', () => {
+    const changes = describeAlertChanges(alert, {
+      vehicle_license_plate: 'CKX 1284',
+      vehicle_color: 'Grey',
+      child_description: null,
+    });
+
+    expect(changes).toEqual([
+      { field: 'child_description', label: 'Description', before: 'Brown hair, pink jacket', after: null },
+      { field: 'vehicle_license_plate', label: 'Licence plate', before: 'CKX 1234', after: 'CKX 1284' },
+    ]);
+  });
+
+  it('treats empty text and missing values alike', () => {
+    expect(describeAlertChanges({ suspect_name: undefined }, { suspect_name: '' })).toEqual([]);
+  });
+});
+
+describe('follow-up text', () => {
+  const changes = describeAlertChanges(alert, { vehicle_license_plate: 'CKX 1284' });
+
+  it('lists what changed in an update', () => {
+    const message = formatFollowUpMessage(alert, 'update', changes, alertUrl);
+    expect(message.split('\n')[0]).toBe('AMBER ALERT UPDATE: Maya Thompson');
+    expect(message).toContain('- Licence plate: CKX 1284');
+    expect(message).toContain(alertUrl);
+  });
+
+  it('says the child was found when the alert is resolved', () => {
+    expect(followUpHeadline({ ...alert, alert_status: 'resolved' }, 'cancel')).toBe(
+      'AMBER ALERT ENDED: Maya Thompson has been located'
+    );
+    const message = formatFollowUpMessage(
+      { ...alert, alert_status: 'resolved', cancelled_reason: 'Duplicate' },
+      'cancel',
+      [],
+      alertUrl
+    );
+    expect(message).toContain('The child has been located.');
+    expect(message).not.toContain('Reason');
+  });
+
+  it('gives the reason for a cancellation', () => {
+    const message = formatFollowUpMessage(
+      { ...alert, alert_status: 'cancelled', cancelled_reason: 'Criteria no longer met' },
+      'cancel',
+      [],
+      alertUrl
+    );
+    expect(message.split('\n')[0]).toBe('AMBER ALERT CANCELLED: Maya Thompson');
+    expect(message).toContain('Reason: Criteria no longer met');
+  });
+
+  it('keeps SMS updates short', () => {
+    const many = describeAlertChanges(alert, {
+      child_age: 8,
+      vehicle_color: 'Silver',
+      vehicle_license_plate: 'CKX 1284',
+      suspect_name: 'J. Doe',
+      requesting_officer_phone: '780-555-0199',
+    });
+
+    const sms = formatFollowUpSms(alert, 'update', many, alertUrl);
+    expect(sms).toBe(
+      `AMBER ALERT UPDATE: Maya Thompson. Age: 8; Suspect: J. Doe; Vehicle colour: Silver; 2 more. Info? Call 780-555-0100. ${alertUrl}`
+    );
+    expect(formatFollowUpSms({ ...alert, alert_status: 'cancelled' }, 'cancel', [], alertUrl)).toBe(
+      'AMBER ALERT CANCELLED: Maya Thompson. No further action needed. Thank you.'
+    );
+  });
+});
+
+describe('summarizeChannelDelivery', () => {
+  it('counts distributions and follow-ups per channel', () => {
+    const channels = summarizeChannelDelivery(
+      [
+        { channel: 'sms', status: 'sent' },
+        { channel: 'sms', status: 'sent' },
+        { channel: 'social_media', status: 'failed' },
+      ],
+      [
+        { channel: 'sms', kind: 'update', status: 'sent', created_at: '2026-01-20T16:00:00.000Z' },
+        { channel: 'sms', kind: 'cancel', status: 'failed', created_at: '2026-01-20T17:00:00.000Z' },
+      ]
+    );
+
+    expect(channels.sms).toEqual({
+      total: 2,
+      by_status: { sent: 2 },
+      follow_ups: {
+        update: { pending: 0, sent: 1, failed: 0, skipped: 0 },
+        cancel: { pending: 0, sent: 0, failed: 1, skipped: 0 },
+      },
+      last_follow_up_at: '2026-01-20T17:00:00.000Z',
+    });
+    expect(channels.social_media?.by_status).toEqual({ failed: 1 });
+    expect(channels.social_media?.last_follow_up_at).toBeUndefined();
+    expect(channels.email).toBeUndefined();
+  });
+});
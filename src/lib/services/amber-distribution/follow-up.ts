@@ -0,0 +1,221 @@
+/**
+ * AMBER Alert Follow-ups
+ * Once an alert has gone out, every channel that carried it must hear when
+ * its details change or when it ends. These are the rules for which
+ * deliveries get a follow-up, what each follow-up says and how delivery is
+ * summarized per channel. Broadcast channels are followed up by the CAP
+ * Update or Cancel message instead.
+ */
+
+import type {
+  AmberAlert,
+  AmberAlertChange,
+  AmberChannelDeliveryStatus,
+  AmberDistributionChannel,
+  AmberDistributionStatus,
+  AmberFollowUpCounts,
+  AmberFollowUpKind,
+  AmberFollowUpStatus,
+} from '@/types';
+import { isBroadcastChannel } from './broadcast-approval';
+
+// Distributions that reached someone and so need to be told
+const DELIVERED_STATUSES: AmberDistributionStatus[] = ['sent', 'delivered'];
+
+// A cancelled post is taken down so it stops being shared; an update is
+// added below the original so people who shared it see the change
+export const SOCIAL_FOLLOW_UP: Record<AmberFollowUpKind, 'reply' | 'delete'> = {
+  update: 'reply',
+  cancel: 'delete',
+};
+
+export const WEBHOOK_FOLLOW_UP_EVENT: Record<AmberFollowUpKind, string> = {
+  update: 'amber_alert.updated',
+  cancel: 'amber_alert.cancelled',
+};
+
+// Details an officer may amend once the alert is out, with their labels
+export const AMENDABLE_ALERT_FIELDS = {
+  child_age: 'Age',
+  child_gender: 'Gender',
+  child_description: 'Description',
+  child_photo_url: 'Photo',
+  abduction_location: 'Last seen',
+  abduction_circumstances: 'Circumstances',
+  suspect_name: 'Suspect',
+  suspect_description: 'Suspect description',
+  suspect_photo_url: 'Suspect photo',
+  suspect_relationship: 'Suspect relationship',
+  vehicle_involved: 'Vehicle involved',
+  vehicle_make: 'Vehicle make',
+  vehicle_model: 'Vehicle model',
+  vehicle_year: 'Vehicle year',
+  vehicle_color: 'Vehicle colour',
+  vehicle_license_plate: 'Licence plate',
+  vehicle_license_province: 'Plate province',
+  requesting_officer_phone: 'Contact phone',
+  expires_at: 'Expires',
+} as const satisfies Partial<Record<keyof AmberAlert, string>>;
+
+export type AmendableAlertField = keyof typeof AMENDABLE_ALERT_FIELDS;
+
+// Most changes an SMS lists before summarizing the rest
+const SMS_CHANGE_LIMIT = 3;
+
+export function needsFollowUp(distribution: { channel: AmberDistributionChannel; status: AmberDistributionStatus }): boolean {
+  return !isBroadcastChannel(distribution.channel) && DELIVERED_STATUSES.includes(distribution.status);
+}
+
+function displayValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+/**
+ * Amendable fields that differ between the alert and the amended values.
+ * Fields absent from `amended` are unchanged.
+ */
+export function describeAlertChanges(
+  alert: Partial<Record<AmendableAlertField, unknown>>,
+  amended: Partial<Record<AmendableAlertField, unknown>>
+): AmberAlertChange[] {
+  const changes: AmberAlertChange[] = [];
+
+  for (const [field, label] of Object.entries(AMENDABLE_ALERT_FIELDS) as Array<[AmendableAlertField, string]>) {
+    if (!(field in amended)) continue;
+    const before = displayValue(alert[field]);
+    const after = displayValue(amended[field]);
+    if (before !== after) {
+      changes.push({ field, label, before, after });
+    }
+  }
+
+  return changes;
+}
+
+function changeLine(change: AmberAlertChange): string {
+  return `${change.label}: ${change.after ?? 'removed'}`;
+}
+
+export function followUpHeadline(alert: Pick<AmberAlert, 'child_name' | 'alert_status'>, kind: AmberFollowUpKind): string {
+  if (kind === 'update') return `AMBER ALERT UPDATE: ${alert.child_name}`;
+  return alert.alert_status === 'resolved'
+    ? `AMBER ALERT ENDED: ${alert.child_name} has been located`
+    : `AMBER ALERT CANCELLED: ${alert.child_name}`;
+}
+
+/**
+ * Body of a follow-up, below its headline
+ */
+export function followUpDetails(
+  alert: Pick<AmberAlert, 'child_name' | 'alert_status' | 'cancelled_reason' | 'requesting_officer_phone'>,
+  kind: AmberFollowUpKind,
+  changes: AmberAlertChange[],
+  alertUrl: string
+): string[] {
+  if (kind === 'update') {
+    return [
+      ...(changes.length > 0
+        ? ['Updated details:', ...changes.map((change) => `- ${changeLine(change)}`)]
+        : ['The alert details have been updated.']),
+      '',
+      `If you have any information, please contact: ${alert.requesting_officer_phone}`,
+      `More details: ${alertUrl}`,
+    ];
+  }
+
+  const resolved = alert.alert_status === 'resolved';
+  const reason = alert.cancelled_reason?.trim();
+  return [
+    resolved
+      ? `The AMBER Alert for ${alert.child_name} has ended. The child has been located.`
+      : `The AMBER Alert for ${alert.child_name} has been cancelled.`,
+    ...(!resolved && reason ? [`Reason: ${reason}`] : []),
+    'No further action is required. Thank you for your help.',
+  ];
+}
+
+/**
+ * Full follow-up text for social media, partners and media
+ */
+export function formatFollowUpMessage(
+  alert: Pick<AmberAlert, 'child_name' | 'alert_status' | 'alert_number' | 'cancelled_reason' | 'requesting_officer_phone'>,
+  kind: AmberFollowUpKind,
+  changes: AmberAlertChange[],
+  alertUrl: string
+): string {
+  return [
+    followUpHeadline(alert, kind),
+    `Alert #${alert.alert_number}`,
+    '',
+    ...followUpDetails(alert, kind, changes, alertUrl),
+  ].join('\n');
+}
+
+/**
+ * Short follow-up text for SMS
+ */
+export function formatFollowUpSms(
+  alert: Pick<AmberAlert, 'child_name' | 'alert_status' | 'requesting_officer_phone'>,
+  kind: AmberFollowUpKind,
+  changes: AmberAlertChange[],
+  alertUrl: string
+): string {
+  if (kind === 'cancel') {
+    return `${followUpHeadline(alert, kind)}. No further action needed. Thank you.`;
+  }
+
+  const listed = changes.slice(0, SMS_CHANGE_LIMIT).map(changeLine);
+  if (changes.length > SMS_CHANGE_LIMIT) {
+    listed.push(`${changes.length - SMS_CHANGE_LIMIT} more`);
+  }
+  const details = listed.length > 0 ? ` ${listed.join('; ')}.` : '';
+
+  return `${followUpHeadline(alert, kind)}.${details} Info? Call ${alert.requesting_officer_phone}. ${alertUrl}`;
+}
+
+function emptyFollowUpCounts(): AmberFollowUpCounts {
+  return { pending: 0, sent: 0, failed: 0, skipped: 0 };
+}
+
+/**
+ * Delivery status per channel: the original distributions by status and
+ * the follow-ups sent for them
+ */
+export function summarizeChannelDelivery(
+  distributions: Array<{ channel: AmberDistributionChannel; status: AmberDistributionStatus }>,
+  followUps: Array<{
+    channel: AmberDistributionChannel;
+    kind: AmberFollowUpKind;
+    status: AmberFollowUpStatus;
+    created_at: string;
+  }>
+): Partial<Record<AmberDistributionChannel, AmberChannelDeliveryStatus>> {
+  const channels: Partial<Record<AmberDistributionChannel, AmberChannelDeliveryStatus>> = {};
+
+  const channelStatus = (channel: AmberDistributionChannel): AmberChannelDeliveryStatus => {
+    channels[channel] ??= {
+      total: 0,
+      by_status: {},
+      follow_ups: { update: emptyFollowUpCounts(), cancel: emptyFollowUpCounts() },
+    };
+    return channels[channel];
+  };
+
+  for (const distribution of distributions) {
+    const status = channelStatus(distribution.channel);
+    status.total++;
+    status.by_status[distribution.status] = (status.by_status[distribution.status] ?? 0) + 1;
+  }
+
+  for (const followUp of followUps) {
+    const status = channelStatus(followUp.channel);
+    status.follow_ups[followUp.kind][followUp.status]++;
+    if (!status.last_follow_up_at || followUp.created_at > status.last_follow_up_at) {
+      status.last_follow_up_at = followUp.created_at;
+    }
+  }
+
+  return channels;
+}
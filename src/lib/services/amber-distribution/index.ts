@@ -3,3 +3,8 @@
  */
 
 export * from './distribution-service';
+export * from './cap-message';
+export * from './broadcast-approval';
+export * from './broadcast-approval-service';
+export * from './alert-area';
+export * from './follow-up';
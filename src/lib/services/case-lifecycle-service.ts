@@ -0,0 +1,429 @@
+/**
+ * Case Lifecycle Service
+ * Runs lifecycle transitions through the state machine: guards, reason
+ * codes, the status update itself and the side effects that follow.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  evaluateCaseLifecycleTransition,
+  type CaseLifecycleSideEffect,
+  type CaseLifecycleStatus,
+} from "@/lib/case-lifecycle";
+import { dispositionService } from "@/lib/services/disposition-service";
+import { invalidateGeofenceIndex } from "@/lib/services/geofencing-service";
+import { AmberDistributionService } from "@/lib/services/amber-distribution";
+import { createBulkNotifications } from "@/lib/services/notifications";
+
+export interface TransitionCaseLifecycleInput {
+  status: CaseLifecycleStatus;
+  reasonCode?: string;
+  notes?: string;
+  // Approved case_reopen_requests row, required to leave "closed"
+  reopenRequestId?: string;
+}
+
+export interface SideEffectResult {
+  effect: CaseLifecycleSideEffect;
+  status: "completed" | "skipped" | "failed";
+  detail: string;
+}
+
+export interface CaseLifecycleHistoryEntry {
+  id: string;
+  caseId: string;
+  fromStatus: CaseLifecycleStatus | null;
+  toStatus: CaseLifecycleStatus;
+  reasonCode: string;
+  notes: string | null;
+  changedBy: string | null;
+  changedByName: string | null;
+  changedAt: string;
+  sideEffects: SideEffectResult[];
+}
+
+export interface CaseLifecycleTransitionResult {
+  caseId: string;
+  caseNumber: string;
+  fromStatus: CaseLifecycleStatus;
+  lifecycleStatus: CaseLifecycleStatus;
+  historyId: string | null;
+  sideEffects: SideEffectResult[];
+}
+
+/**
+ * Error thrown when a transition is rejected by the state machine
+ */
+export class CaseLifecycleTransitionError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(errors.join("; "));
+    this.name = "CaseLifecycleTransitionError";
+    this.errors = errors;
+  }
+}
+
+interface SideEffectContext {
+  caseId: string;
+  caseNumber: string;
+  fromStatus: CaseLifecycleStatus;
+  toStatus: CaseLifecycleStatus;
+  reasonCode: string;
+  userId: string;
+}
+
+/**
+ * Transitions and their side effects run as the request's user: construct
+ * one per request with the route's client
+ */
+export class CaseLifecycleService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Move a case to a new lifecycle status
+   */
+  async transition(
+    caseId: string,
+    input: TransitionCaseLifecycleInput,
+    userId: string
+  ): Promise<CaseLifecycleTransitionResult> {
+    const { data: existing, error: existingError } = await this.supabase
+      .from("cases")
+      .select("id, case_number, lifecycle_status, disposition, current_episode_number")
+      .eq("id", caseId)
+      .single();
+
+    if (existingError || !existing) {
+      throw new Error("Failed to fetch case");
+    }
+
+    const fromStatus = existing.lifecycle_status as CaseLifecycleStatus;
+    if (fromStatus === input.status) {
+      return {
+        caseId: existing.id as string,
+        caseNumber: existing.case_number as string,
+        fromStatus,
+        lifecycleStatus: fromStatus,
+        historyId: null,
+        sideEffects: [],
+      };
+    }
+
+    const disposition = await this.getEpisodeDisposition(
+      caseId,
+      existing.current_episode_number as number
+    );
+    const hasApprovedReopenRequest = input.reopenRequestId
+      ? await this.isReopenRequestApproved(caseId, input.reopenRequestId)
+      : false;
+
+    const evaluation = evaluateCaseLifecycleTransition(
+      {
+        from: fromStatus,
+        to: input.status,
+        reasonCode: input.reasonCode,
+        notes: input.notes,
+      },
+      {
+        hasDisposition: Boolean(disposition || existing.disposition),
+        hasApprovedReopenRequest,
+      }
+    );
+
+    if (!evaluation.allowed) {
+      throw new CaseLifecycleTransitionError(evaluation.errors);
+    }
+
+    const changedAt = new Date().toISOString();
+
+    const { data, error } = await this.supabase
+      .from("cases")
+      .update({
+        lifecycle_status: input.status,
+        lifecycle_reason_code: input.reasonCode,
+        lifecycle_reason_notes: input.notes?.trim() || null,
+        lifecycle_changed_by: userId,
+        lifecycle_changed_at: changedAt,
+        ...(hasApprovedReopenRequest && { lifecycle_reopen_request_id: input.reopenRequestId }),
+      })
+      .eq("id", caseId)
+      .select("id, case_number, lifecycle_status, lifecycle_history_id")
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.message || "Failed to update case");
+    }
+
+    // The record_case_lifecycle_history trigger stamps the id of the history
+    // row it wrote for this update
+    const historyId = (data.lifecycle_history_id as string | null) ?? null;
+
+    const sideEffects: SideEffectResult[] = [];
+    for (const effect of evaluation.sideEffects) {
+      sideEffects.push(
+        await this.runSideEffect(effect, {
+          caseId,
+          caseNumber: data.case_number as string,
+          fromStatus,
+          toStatus: input.status,
+          reasonCode: input.reasonCode as string,
+          userId,
+        })
+      );
+    }
+
+    if (historyId && sideEffects.length > 0) {
+      const { error: effectsError } = await this.supabase
+        .from("case_lifecycle_side_effects")
+        .insert(
+          sideEffects.map((result) => ({
+            history_id: historyId,
+            effect: result.effect,
+            status: result.status,
+            detail: result.detail,
+          }))
+        );
+
+      if (effectsError) {
+        console.error("[CaseLifecycleService] Failed to record side effects:", effectsError);
+      }
+    }
+
+    console.log(
+      `[CaseLifecycleService] Case ${data.case_number}: ${fromStatus} -> ${input.status} (${input.reasonCode})`
+    );
+
+    return {
+      caseId: data.id as string,
+      caseNumber: data.case_number as string,
+      fromStatus,
+      lifecycleStatus: data.lifecycle_status as CaseLifecycleStatus,
+      historyId,
+      sideEffects,
+    };
+  }
+
+  /**
+   * Lifecycle history for a case, newest first
+   */
+  async getHistory(caseId: string): Promise<CaseLifecycleHistoryEntry[]> {
+    const { data, error } = await this.supabase
+      .from("case_lifecycle_history")
+      .select(`
+        id,
+        case_id,
+        from_status,
+        to_status,
+        reason_code,
+        notes,
+        changed_by,
+        changed_at,
+        actor:profiles!changed_by(full_name),
+        case_lifecycle_side_effects(effect, status, detail)
+      `)
+      .eq("case_id", caseId)
+      .order("changed_at", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch lifecycle history: ${error.message}`);
+    }
+
+    return (data || []).map((row) => {
+      const actor = row.actor as unknown as { full_name: string } | null;
+      return {
+        id: row.id as string,
+        caseId: row.case_id as string,
+        fromStatus: (row.from_status as CaseLifecycleStatus) || null,
+        toStatus: row.to_status as CaseLifecycleStatus,
+        reasonCode: row.reason_code as string,
+        notes: (row.notes as string) || null,
+        changedBy: (row.changed_by as string) || null,
+        changedByName: actor?.full_name || null,
+        changedAt: row.changed_at as string,
+        sideEffects: (row.case_lifecycle_side_effects as SideEffectResult[]) || [],
+      };
+    });
+  }
+
+  /**
+   * In-memory disposition records are per case, so after a reopen only one
+   * recorded during the current episode counts
+   */
+  private async getEpisodeDisposition(caseId: string, episodeNumber: number) {
+    const disposition = await dispositionService.getDisposition(caseId);
+    if (!disposition || !episodeNumber || episodeNumber <= 1) {
+      return disposition;
+    }
+
+    const { data: episode } = await this.supabase
+      .from("case_episodes")
+      .select("opened_at")
+      .eq("case_id", caseId)
+      .eq("episode_number", episodeNumber)
+      .maybeSingle();
+
+    if (!episode) return disposition;
+    return new Date(disposition.closedAt) >= new Date(episode.opened_at as string)
+      ? disposition
+      : null;
+  }
+
+  private async isReopenRequestApproved(caseId: string, requestId: string) {
+    const { data } = await this.supabase
+      .from("case_reopen_requests")
+      .select("status")
+      .eq("id", requestId)
+      .eq("case_id", caseId)
+      .maybeSingle();
+
+    return data?.status === "approved";
+  }
+
+  /**
+   * Run a single side effect; failures are recorded rather than thrown so
+   * the status change (already committed) is never rolled back halfway.
+   */
+  private async runSideEffect(
+    effect: CaseLifecycleSideEffect,
+    context: SideEffectContext
+  ): Promise<SideEffectResult> {
+    try {
+      switch (effect) {
+        case "cancel_amber_distributions":
+          return await this.cancelAmberDistributions(context);
+        case "deactivate_geofences":
+          return await this.deactivateGeofences(context.caseId);
+        case "notify_family_liaison":
+          return await this.notifyFamilyLiaison(context);
+      }
+    } catch (error) {
+      console.error(`[CaseLifecycleService] Side effect ${effect} failed:`, error);
+      return {
+        effect,
+        status: "failed",
+        detail: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  private async cancelAmberDistributions(context: SideEffectContext): Promise<SideEffectResult> {
+    const reason = `Case lifecycle moved to ${context.toStatus}`;
+    const amberDistribution = new AmberDistributionService(() => this.supabase);
+
+    const { data: alerts, error } = await this.supabase
+      .from("amber_alerts")
+      .select("id")
+      .eq("case_id", context.caseId)
+      .eq("alert_status", "active");
+
+    if (error) {
+      throw new Error(`Failed to fetch AMBER alerts: ${error.message}`);
+    }
+    if (!alerts || alerts.length === 0) {
+      return { effect: "cancel_amber_distributions", status: "skipped", detail: "No active AMBER alerts" };
+    }
+
+    let cancelled = 0;
+    for (const alert of alerts) {
+      cancelled += await amberDistribution.cancelDistributions(alert.id as string, reason);
+    }
+
+    const { error: updateError } = await this.supabase
+      .from("amber_alerts")
+      .update({
+        alert_status: "cancelled",
+        cancelled_at: new Date().toISOString(),
+        cancelled_by: context.userId,
+        cancelled_reason: reason,
+      })
+      .in(
+        "id",
+        alerts.map((a) => a.id)
+      );
+
+    if (updateError) {
+      throw new Error(`Failed to cancel AMBER alerts: ${updateError.message}`);
+    }
+
+    for (const alert of alerts) {
+      try {
+        await amberDistribution.publishCapMessage(alert.id as string, context.userId);
+      } catch (err) {
+        console.error(`[CaseLifecycleService] CAP cancel for AMBER alert ${alert.id} failed:`, err);
+      }
+      try {
+        await amberDistribution.queueFollowUps(alert.id as string, "cancel", { actorId: context.userId });
+      } catch (err) {
+        console.error(`[CaseLifecycleService] Queueing cancellation follow-ups for AMBER alert ${alert.id} failed:`, err);
+      }
+    }
+
+    await this.supabase
+      .from("cases")
+      .update({ is_amber_alert: false })
+      .eq("id", context.caseId);
+
+    return {
+      effect: "cancel_amber_distributions",
+      status: "completed",
+      detail: `${alerts.length} alert(s) cancelled, ${cancelled} distribution(s) cancelled`,
+    };
+  }
+
+  private async deactivateGeofences(caseId: string): Promise<SideEffectResult> {
+    const { data, error } = await this.supabase
+      .from("geofences")
+      .update({ status: "expired" })
+      .eq("case_id", caseId)
+      .in("status", ["active", "paused", "triggered"])
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to deactivate geofences: ${error.message}`);
+    }
+
+    invalidateGeofenceIndex();
+
+    const total = data?.length || 0;
+    return {
+      effect: "deactivate_geofences",
+      status: total > 0 ? "completed" : "skipped",
+      detail: total > 0 ? `${total} geofence(s) deactivated` : "No active geofences",
+    };
+  }
+
+  private async notifyFamilyLiaison(context: SideEffectContext): Promise<SideEffectResult> {
+    const { data: liaisons, error } = await this.supabase
+      .from("family_liaisons")
+      .select("user_id")
+      .eq("case_id", context.caseId)
+      .eq("is_active", true);
+
+    if (error) {
+      throw new Error(`Failed to fetch family liaisons: ${error.message}`);
+    }
+    if (!liaisons || liaisons.length === 0) {
+      return { effect: "notify_family_liaison", status: "skipped", detail: "No active family liaison" };
+    }
+
+    const result = await createBulkNotifications({
+      userIds: liaisons.map((l) => l.user_id as string),
+      type: "case_status_update",
+      title: `Case ${context.caseNumber} is now ${context.toStatus}`,
+      message: `The case moved from ${context.fromStatus} to ${context.toStatus} (${context.reasonCode.replace(/_/g, " ")}). Please follow up with the family.`,
+      priority: context.toStatus === "closed" ? "high" : "normal",
+      caseId: context.caseId,
+      caseNumber: context.caseNumber,
+      actionUrl: `/cases/${context.caseId}`,
+      actionLabel: "View Case",
+      metadata: { lifecycleFrom: context.fromStatus, lifecycleTo: context.toStatus },
+    });
+
+    return {
+      effect: "notify_family_liaison",
+      status: result.failed > 0 && result.created === 0 ? "failed" : "completed",
+      detail: `${result.created} liaison(s) notified${result.failed ? `, ${result.failed} failed` : ""}`,
+    };
+  }
+}
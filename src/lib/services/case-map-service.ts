@@ -0,0 +1,105 @@
+/**
+ * Case Map Service
+ * Loads the layers shown on a case's search map (last seen location,
+ * sightings and search areas) and writes imported layers back
+ */
+
+import type { createClient } from "@/lib/supabase/server";
+import type { CaseMapLayers, ImportedCaseMapLayers } from "@/lib/geo-interchange";
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+export async function loadCaseMapLayers(supabase: SupabaseClient, caseId: string): Promise<CaseMapLayers> {
+  // Fetch case details for last known location
+  const { data: caseData } = await supabase
+    .from("cases")
+    .select("id, last_seen_lat, last_seen_lng, last_seen_location")
+    .eq("id", caseId)
+    .single();
+
+  // Fetch sightings for the case
+  const { data: sightingsData } = await supabase
+    .from("sightings")
+    .select("*")
+    .eq("case_id", caseId)
+    .order("reported_at", { ascending: false });
+
+  // Fetch search areas if table exists
+  const { data: searchAreasData } = await supabase
+    .from("search_areas")
+    .select("*")
+    .eq("case_id", caseId)
+    .order("priority", { ascending: true });
+
+  // Transform data for the map
+  const lastSeenLocation = caseData?.last_seen_lat && caseData?.last_seen_lng
+    ? { lat: caseData.last_seen_lat, lng: caseData.last_seen_lng }
+    : null;
+
+  const sightings = (sightingsData || []).map((s) => ({
+    id: s.id,
+    coordinates: { lat: s.latitude, lng: s.longitude },
+    reportedAt: s.reported_at,
+    description: s.description,
+    confidence: s.confidence || "unverified",
+    status: s.status || "pending",
+  }));
+
+  const searchAreas = (searchAreasData || []).map((a) => ({
+    id: a.id,
+    name: a.name,
+    type: a.type || "primary",
+    priority: a.priority || "medium",
+    status: a.status || "planned",
+    coordinates: a.coordinates || [],
+    coverage: a.coverage,
+  }));
+
+  return {
+    lastSeenLocation,
+    lastSeenAddress: caseData?.last_seen_location,
+    sightings,
+    searchAreas,
+    resources: [],
+  };
+}
+
+/**
+ * Save imported sightings (pending review) and planned search areas
+ */
+export async function importCaseMapLayers(
+  supabase: SupabaseClient,
+  caseId: string,
+  layers: ImportedCaseMapLayers
+): Promise<{ sightings: number; searchAreas: number }> {
+  if (layers.sightings.length > 0) {
+    const { error } = await supabase.from("sightings").insert(
+      layers.sightings.map((s) => ({
+        case_id: caseId,
+        latitude: s.coordinates.lat,
+        longitude: s.coordinates.lng,
+        reported_at: s.reportedAt ?? new Date().toISOString(),
+        description: s.description,
+        confidence: "unverified",
+        status: "pending",
+      }))
+    );
+    if (error) throw error;
+  }
+
+  if (layers.searchAreas.length > 0) {
+    const { error } = await supabase.from("search_areas").insert(
+      layers.searchAreas.map((a) => ({
+        case_id: caseId,
+        name: a.name,
+        type: a.type ?? "primary",
+        priority: a.priority ?? "medium",
+        status: "planned",
+        coordinates: a.coordinates,
+      }))
+    );
+    if (error) throw error;
+  }
+
+  return { sightings: layers.sightings.length, searchAreas: layers.searchAreas.length };
+}
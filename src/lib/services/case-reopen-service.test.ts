@@ -0,0 +1,278 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CaseReopenError, CaseReopenService } from './case-reopen-service';
+
+const { transition } = vi.hoisted(() => ({ transition: vi.fn() }));
+
+// The lifecycle move has its own rules and side effects; here it only has to
+// be called, and fail when a test needs an attempt to stop part way
+vi.mock('@/lib/services/case-lifecycle-service', () => ({
+  CaseLifecycleService: class {
+    transition = transition;
+  },
+}));
+
+vi.mock('@/lib/services/geofencing-service', () => ({
+  invalidateGeofenceIndex: vi.fn(),
+}));
+
+type Row = Record<string, unknown>;
+
+// Column defaults the database fills in on insert
+const DEFAULTS: Record<string, Row> = {
+  case_reopen_requests: { status: 'pending', requested_at: '2026-01-20T12:00:00.000Z' },
+  case_episodes: { opened_at: '2026-01-20T12:00:00.000Z' },
+};
+
+/**
+ * Stand-in for the reopen tables, enough for filtered reads, conditional
+ * updates, inserts and upserts. failOnce makes the next write to a table fail.
+ */
+function fakeSupabase(seed: Record<string, Row[]>) {
+  const tables: Record<string, Row[]> = {
+    cases: [],
+    case_episodes: [],
+    case_reopen_requests: [],
+    case_episode_carryovers: [],
+    case_evidence_items: [],
+    leads: [],
+    geofences: [],
+    ...seed,
+  };
+  const failing = new Set<string>();
+  let nextId = 1;
+
+  const from = (table: string) => {
+    const filters: ((row: Row) => boolean)[] = [];
+    const matching = () => tables[table].filter((row) => filters.every((filter) => filter(row)));
+    let run: () => { data: Row[]; error: { message: string } | null } = () => ({ data: matching(), error: null });
+
+    const write = (apply: () => Row[]) => () => {
+      if (failing.delete(table)) {
+        return { data: [], error: { message: `${table} unavailable` } };
+      }
+      return { data: apply(), error: null };
+    };
+
+    const builder = {
+      select: () => builder,
+      order: () => builder,
+      eq(column: string, value: unknown) {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      in(column: string, values: unknown[]) {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      insert(values: Row) {
+        run = write(() => {
+          const row = { id: `${table}-${nextId++}`, ...DEFAULTS[table], ...values };
+          tables[table].push(row);
+          return [row];
+        });
+        return builder;
+      },
+      update(values: Row) {
+        run = write(() => {
+          const rows = matching();
+          rows.forEach((row) => Object.assign(row, values));
+          return rows;
+        });
+        return builder;
+      },
+      upsert: async (rows: Row[]) => {
+        const { error } = write(() => {
+          for (const row of rows) {
+            const exists = tables[table].some(
+              (stored) =>
+                stored.episode_id === row.episode_id &&
+                stored.item_type === row.item_type &&
+                stored.item_id === row.item_id
+            );
+            if (!exists) tables[table].push({ ...row });
+          }
+          return rows;
+        })();
+        return { error };
+      },
+      single: async () => {
+        const { data, error } = run();
+        return data[0] ? { data: data[0], error: null } : { data: null, error: error ?? { message: 'No rows' } };
+      },
+      maybeSingle: async () => {
+        const { data, error } = run();
+        return { data: data[0] ?? null, error };
+      },
+      then: (resolve: (value: unknown) => unknown) => resolve(run()),
+    };
+    return builder;
+  };
+
+  return {
+    client: { from } as unknown as SupabaseClient,
+    tables,
+    failOnce: (table: string) => failing.add(table),
+  };
+}
+
+const CASE_ID = 'case-1';
+
+function closedCase() {
+  return fakeSupabase({
+    cases: [{ id: CASE_ID, lifecycle_status: 'closed', current_episode_number: 1, disposition: 'found_safe' }],
+    case_episodes: [{ id: 'episode-1', case_id: CASE_ID, episode_number: 1 }],
+    leads: [{ id: 'lead-1', case_id: CASE_ID, status: 'archived' }],
+    case_evidence_items: [{ id: 'evidence-other', case_id: 'case-2' }],
+  });
+}
+
+const reopenInput = {
+  reasonCode: 'new_evidence',
+  justification: '  New sighting reported by a witness  ',
+  carryForward: { evidenceIds: [], leadIds: ['lead-1'], geofenceIds: [] },
+};
+
+describe('CaseReopenService', () => {
+  beforeEach(() => {
+    transition.mockReset();
+    transition.mockImplementation(async (caseId: string) => ({
+      caseId,
+      caseNumber: 'MC-1',
+      fromStatus: 'closed',
+      lifecycleStatus: 'open',
+      historyId: 'history-1',
+      sideEffects: [],
+    }));
+  });
+
+  describe('createRequest', () => {
+    it('raises a pending request against the closed episode', async () => {
+      const { client } = closedCase();
+
+      const request = await new CaseReopenService(client).createRequest(CASE_ID, reopenInput, 'investigator-1');
+
+      expect(request).toMatchObject({
+        caseId: CASE_ID,
+        closedEpisodeId: 'episode-1',
+        status: 'pending',
+        requestedBy: 'investigator-1',
+        justification: 'New sighting reported by a witness',
+        carryForward: reopenInput.carryForward,
+      });
+    });
+
+    it('refuses cases that are not closed', async () => {
+      const { client, tables } = closedCase();
+      tables.cases[0].lifecycle_status = 'cold';
+
+      await expect(
+        new CaseReopenService(client).createRequest(CASE_ID, reopenInput, 'investigator-1')
+      ).rejects.toMatchObject({ code: 'not_closed' });
+    });
+
+    it('allows one open request per case', async () => {
+      const { client } = closedCase();
+      const service = new CaseReopenService(client);
+      await service.createRequest(CASE_ID, reopenInput, 'investigator-1');
+
+      await expect(service.createRequest(CASE_ID, reopenInput, 'investigator-2')).rejects.toMatchObject({
+        code: 'request_open',
+      });
+    });
+
+    it('refuses to carry forward items from another case', async () => {
+      const { client } = closedCase();
+
+      await expect(
+        new CaseReopenService(client).createRequest(
+          CASE_ID,
+          { ...reopenInput, carryForward: { ...reopenInput.carryForward, evidenceIds: ['evidence-other'] } },
+          'investigator-1'
+        )
+      ).rejects.toMatchObject({ code: 'invalid_carry_forward' });
+    });
+  });
+
+  describe('reviewRequest', () => {
+    async function pendingRequest() {
+      const fake = closedCase();
+      const service = new CaseReopenService(fake.client);
+      const request = await service.createRequest(CASE_ID, reopenInput, 'investigator-1');
+      return { ...fake, service, request };
+    }
+
+    it('reopens the case into a new episode on approval', async () => {
+      const { service, request, tables } = await pendingRequest();
+
+      const result = await service.reviewRequest(request.id, 'approve', 'supervisor-1', 'Go ahead');
+
+      expect(transition).toHaveBeenCalledWith(
+        CASE_ID,
+        expect.objectContaining({ status: 'open', reopenRequestId: request.id }),
+        'supervisor-1'
+      );
+      expect(result.request).toMatchObject({ status: 'executed', reviewedBy: 'supervisor-1', reviewNotes: 'Go ahead' });
+      expect(result.episode).toMatchObject({ episodeNumber: 2, previousEpisodeId: 'episode-1', reopenRequestId: request.id });
+      expect(result.request.newEpisodeId).toBe(result.episode?.id);
+
+      // The disposition stays with the closed episode
+      expect(tables.cases[0]).toMatchObject({ current_episode_number: 2, disposition: null });
+      expect(tables.case_episode_carryovers).toEqual([
+        { item_type: 'lead', item_id: 'lead-1', episode_id: result.episode?.id, from_episode_id: 'episode-1' },
+      ]);
+      expect(tables.leads[0].status).toBe('investigating');
+    });
+
+    it('records a rejection without touching the case', async () => {
+      const { service, request, tables } = await pendingRequest();
+
+      const result = await service.reviewRequest(request.id, 'reject', 'supervisor-1', 'Not enough new information');
+
+      expect(result).toMatchObject({ request: { status: 'rejected' }, episode: null, lifecycle: null });
+      expect(transition).not.toHaveBeenCalled();
+      expect(tables.case_episodes).toHaveLength(1);
+      expect(tables.cases[0].current_episode_number).toBe(1);
+    });
+
+    it('does not let the requester review their own request', async () => {
+      const { service, request } = await pendingRequest();
+
+      for (const decision of ['approve', 'reject'] as const) {
+        const review = service.reviewRequest(request.id, decision, 'investigator-1');
+        await expect(review).rejects.toBeInstanceOf(CaseReopenError);
+        await expect(review).rejects.toMatchObject({ code: 'self_approval' });
+      }
+    });
+
+    it('finishes a reopen that failed part way when approved again', async () => {
+      const { service, request, tables, failOnce } = await pendingRequest();
+
+      transition.mockRejectedValueOnce(new Error('database unavailable'));
+      await expect(service.reviewRequest(request.id, 'approve', 'supervisor-1')).rejects.toThrow('database unavailable');
+      expect(tables.case_reopen_requests[0].status).toBe('approved');
+
+      // The second attempt starts the episode, then stops before carrying items over
+      failOnce('case_episode_carryovers');
+      await expect(service.reviewRequest(request.id, 'approve', 'supervisor-1')).rejects.toThrow(
+        'Failed to record carried-forward items'
+      );
+
+      const result = await service.reviewRequest(request.id, 'approve', 'supervisor-1');
+
+      expect(result.request.status).toBe('executed');
+      expect(tables.case_episodes.filter((episode) => episode.reopen_request_id === request.id)).toHaveLength(1);
+      expect(tables.case_episode_carryovers).toHaveLength(1);
+      expect(tables.cases[0].current_episode_number).toBe(2);
+    });
+
+    it('refuses to review a request that was already executed', async () => {
+      const { service, request } = await pendingRequest();
+      await service.reviewRequest(request.id, 'approve', 'supervisor-1');
+
+      await expect(service.reviewRequest(request.id, 'approve', 'supervisor-2')).rejects.toMatchObject({
+        code: 'invalid_status',
+      });
+    });
+  });
+});
@@ -0,0 +1,532 @@
+/**
+ * Case Reopen Service
+ * Supervised reopen path for closed cases. A reopen request is raised by one
+ * investigator and approved by a different supervisor; approval starts a new
+ * case episode linked to the closed one and carries selected items forward.
+ * Each reopen step can be repeated safely, so a reopen that fails part way
+ * leaves its request approved and approving it again finishes the job.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  CaseLifecycleService,
+  type CaseLifecycleTransitionResult,
+} from "@/lib/services/case-lifecycle-service";
+import { invalidateGeofenceIndex } from "@/lib/services/geofencing-service";
+
+export type CaseReopenRequestStatus = "pending" | "approved" | "rejected" | "executed";
+
+export type CarryForwardItemType = "evidence" | "lead" | "geofence";
+
+export interface CarryForwardSelection {
+  evidenceIds: string[];
+  leadIds: string[];
+  geofenceIds: string[];
+}
+
+export interface CaseReopenRequest {
+  id: string;
+  caseId: string;
+  closedEpisodeId: string;
+  reasonCode: string;
+  justification: string;
+  carryForward: CarryForwardSelection;
+  status: CaseReopenRequestStatus;
+  requestedBy: string;
+  requestedAt: string;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  reviewNotes: string | null;
+  executedAt: string | null;
+  newEpisodeId: string | null;
+}
+
+export interface CaseEpisodeCarryover {
+  itemType: CarryForwardItemType;
+  itemId: string;
+  fromEpisodeId: string;
+}
+
+export interface CaseEpisode {
+  id: string;
+  caseId: string;
+  episodeNumber: number;
+  previousEpisodeId: string | null;
+  reopenRequestId: string | null;
+  openedAt: string;
+  closedAt: string | null;
+  closingReasonCode: string | null;
+  disposition: string | null;
+  carryovers: CaseEpisodeCarryover[];
+}
+
+export interface CaseReopenResult {
+  request: CaseReopenRequest;
+  episode: CaseEpisode | null;
+  lifecycle: CaseLifecycleTransitionResult | null;
+}
+
+export type CaseReopenErrorCode =
+  | "case_not_found"
+  | "request_not_found"
+  | "not_closed"
+  | "request_open"
+  | "invalid_carry_forward"
+  | "invalid_status"
+  | "self_approval";
+
+/**
+ * Error thrown when a reopen request breaks a workflow rule
+ */
+export class CaseReopenError extends Error {
+  readonly code: CaseReopenErrorCode;
+
+  constructor(code: CaseReopenErrorCode, message: string) {
+    super(message);
+    this.name = "CaseReopenError";
+    this.code = code;
+  }
+}
+
+// HTTP status the API routes return for each workflow error
+export const CASE_REOPEN_ERROR_STATUS: Record<CaseReopenErrorCode, number> = {
+  case_not_found: 404,
+  request_not_found: 404,
+  not_closed: 400,
+  request_open: 409,
+  invalid_carry_forward: 400,
+  invalid_status: 400,
+  self_approval: 403,
+};
+
+const EMPTY_SELECTION: CarryForwardSelection = {
+  evidenceIds: [],
+  leadIds: [],
+  geofenceIds: [],
+};
+
+function mapRequest(row: Record<string, unknown>): CaseReopenRequest {
+  return {
+    id: row.id as string,
+    caseId: row.case_id as string,
+    closedEpisodeId: row.closed_episode_id as string,
+    reasonCode: row.reason_code as string,
+    justification: row.justification as string,
+    carryForward: {
+      ...EMPTY_SELECTION,
+      ...((row.carry_forward as Partial<CarryForwardSelection>) || {}),
+    },
+    status: row.status as CaseReopenRequestStatus,
+    requestedBy: row.requested_by as string,
+    requestedAt: row.requested_at as string,
+    reviewedBy: (row.reviewed_by as string) || null,
+    reviewedAt: (row.reviewed_at as string) || null,
+    reviewNotes: (row.review_notes as string) || null,
+    executedAt: (row.executed_at as string) || null,
+    newEpisodeId: (row.new_episode_id as string) || null,
+  };
+}
+
+function mapEpisode(row: Record<string, unknown>): CaseEpisode {
+  const carryovers = (row.case_episode_carryovers as Record<string, unknown>[] | null) || [];
+  return {
+    id: row.id as string,
+    caseId: row.case_id as string,
+    episodeNumber: row.episode_number as number,
+    previousEpisodeId: (row.previous_episode_id as string) || null,
+    reopenRequestId: (row.reopen_request_id as string) || null,
+    openedAt: row.opened_at as string,
+    closedAt: (row.closed_at as string) || null,
+    closingReasonCode: (row.closing_reason_code as string) || null,
+    disposition: (row.disposition as string) || null,
+    carryovers: carryovers.map((c) => ({
+      itemType: c.item_type as CarryForwardItemType,
+      itemId: c.item_id as string,
+      fromEpisodeId: c.from_episode_id as string,
+    })),
+  };
+}
+
+const EPISODE_SELECT = `
+  *,
+  case_episode_carryovers!case_episode_carryovers_episode_id_fkey(item_type, item_id, from_episode_id)
+`;
+
+/**
+ * Requests, reviews and the reopen itself run as the request's user:
+ * construct one per request with the route's client
+ */
+export class CaseReopenService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Episodes for a case, oldest first
+   */
+  async listEpisodes(caseId: string): Promise<CaseEpisode[]> {
+    const { data, error } = await this.supabase
+      .from("case_episodes")
+      .select(EPISODE_SELECT)
+      .eq("case_id", caseId)
+      .order("episode_number", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch case episodes: ${error.message}`);
+    }
+
+    return (data || []).map(mapEpisode);
+  }
+
+  /**
+   * Reopen requests for a case, newest first
+   */
+  async listRequests(caseId: string): Promise<CaseReopenRequest[]> {
+    const { data, error } = await this.supabase
+      .from("case_reopen_requests")
+      .select("*")
+      .eq("case_id", caseId)
+      .order("requested_at", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch reopen requests: ${error.message}`);
+    }
+
+    return (data || []).map(mapRequest);
+  }
+
+  async getRequest(requestId: string): Promise<CaseReopenRequest | null> {
+    const { data, error } = await this.supabase
+      .from("case_reopen_requests")
+      .select("*")
+      .eq("id", requestId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch reopen request: ${error.message}`);
+    }
+
+    return data ? mapRequest(data) : null;
+  }
+
+  /**
+   * Raise a reopen request for a closed case
+   */
+  async createRequest(
+    caseId: string,
+    input: {
+      reasonCode: string;
+      justification: string;
+      carryForward: CarryForwardSelection;
+    },
+    userId: string
+  ): Promise<CaseReopenRequest> {
+    const { data: caseRow } = await this.supabase
+      .from("cases")
+      .select("id, lifecycle_status, current_episode_number")
+      .eq("id", caseId)
+      .maybeSingle();
+
+    if (!caseRow) {
+      throw new CaseReopenError("case_not_found", "Case not found");
+    }
+    if (caseRow.lifecycle_status !== "closed") {
+      throw new CaseReopenError(
+        "not_closed",
+        `Only closed cases can be reopened (current status: ${caseRow.lifecycle_status})`
+      );
+    }
+
+    const { data: openRequest } = await this.supabase
+      .from("case_reopen_requests")
+      .select("id")
+      .eq("case_id", caseId)
+      .in("status", ["pending", "approved"])
+      .maybeSingle();
+
+    if (openRequest) {
+      throw new CaseReopenError("request_open", "A reopen request is already awaiting review");
+    }
+
+    await this.assertItemsBelongToCase(caseId, input.carryForward);
+
+    const { data: episode, error: episodeError } = await this.supabase
+      .from("case_episodes")
+      .select("id")
+      .eq("case_id", caseId)
+      .eq("episode_number", caseRow.current_episode_number)
+      .single();
+
+    if (episodeError || !episode) {
+      throw new Error("Failed to resolve the closed episode");
+    }
+
+    const { data, error } = await this.supabase
+      .from("case_reopen_requests")
+      .insert({
+        case_id: caseId,
+        closed_episode_id: episode.id,
+        reason_code: input.reasonCode,
+        justification: input.justification.trim(),
+        carry_forward: input.carryForward,
+        requested_by: userId,
+      })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to create reopen request: ${error?.message}`);
+    }
+
+    return mapRequest(data);
+  }
+
+  /**
+   * Record a supervisor decision. Approval reopens the case immediately;
+   * approving a request that is already approved finishes a reopen that
+   * stopped part way.
+   */
+  async reviewRequest(
+    requestId: string,
+    decision: "approve" | "reject",
+    reviewerId: string,
+    notes?: string
+  ): Promise<CaseReopenResult> {
+    const request = await this.getRequest(requestId);
+
+    if (!request) {
+      throw new CaseReopenError("request_not_found", "Reopen request not found");
+    }
+    if (request.requestedBy === reviewerId) {
+      throw new CaseReopenError(
+        "self_approval",
+        "A reopen request must be reviewed by someone other than the requester"
+      );
+    }
+    if (request.status === "approved" && decision === "approve") {
+      return this.executeReopen(request, reviewerId);
+    }
+    if (request.status !== "pending") {
+      throw new CaseReopenError(
+        "invalid_status",
+        `Only pending requests can be reviewed (current status: ${request.status})`
+      );
+    }
+
+    const { data, error } = await this.supabase
+      .from("case_reopen_requests")
+      .update({
+        status: decision === "approve" ? "approved" : "rejected",
+        reviewed_by: reviewerId,
+        reviewed_at: new Date().toISOString(),
+        review_notes: notes?.trim() || null,
+      })
+      .eq("id", requestId)
+      .eq("status", "pending")
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to record review: ${error?.message}`);
+    }
+
+    if (decision === "reject") {
+      return { request: mapRequest(data), episode: null, lifecycle: null };
+    }
+
+    return this.executeReopen(mapRequest(data), reviewerId);
+  }
+
+  /**
+   * Move the case back to open, start the next episode and carry items over.
+   * Steps already done by an earlier attempt are skipped.
+   */
+  private async executeReopen(
+    request: CaseReopenRequest,
+    reviewerId: string
+  ): Promise<CaseReopenResult> {
+    const { data: closedEpisode, error: closedError } = await this.supabase
+      .from("case_episodes")
+      .select("id, episode_number")
+      .eq("id", request.closedEpisodeId)
+      .single();
+
+    if (closedError || !closedEpisode) {
+      throw new Error("Failed to fetch the closed episode");
+    }
+
+    // Returns without a change when an earlier attempt already reopened the case
+    const lifecycle = await new CaseLifecycleService(this.supabase).transition(
+      request.caseId,
+      {
+        status: "open",
+        reasonCode: request.reasonCode,
+        notes: request.justification,
+        reopenRequestId: request.id,
+      },
+      reviewerId
+    );
+
+    const episodeNumber = (closedEpisode.episode_number as number) + 1;
+    const episodeId = await this.startEpisode(request, closedEpisode.id as string, episodeNumber);
+
+    // The prior disposition stays on the closed episode
+    const { error: caseError } = await this.supabase
+      .from("cases")
+      .update({ current_episode_number: episodeNumber, disposition: null })
+      .eq("id", request.caseId);
+
+    if (caseError) {
+      throw new Error(`Failed to move the case to its new episode: ${caseError.message}`);
+    }
+
+    await this.carryForward(request, episodeId, closedEpisode.id as string);
+
+    const { data: executed, error: executedError } = await this.supabase
+      .from("case_reopen_requests")
+      .update({
+        status: "executed",
+        executed_at: new Date().toISOString(),
+        new_episode_id: episodeId,
+      })
+      .eq("id", request.id)
+      .eq("status", "approved")
+      .select("*")
+      .maybeSingle();
+
+    if (executedError) {
+      throw new Error(`Failed to mark reopen request executed: ${executedError.message}`);
+    }
+
+    // Another attempt finished first
+    const finished = executed ? mapRequest(executed) : await this.getRequest(request.id);
+    if (!finished) {
+      throw new Error("Failed to mark reopen request executed");
+    }
+
+    const { data: episode } = await this.supabase
+      .from("case_episodes")
+      .select(EPISODE_SELECT)
+      .eq("id", episodeId)
+      .single();
+
+    return {
+      request: finished,
+      episode: episode ? mapEpisode(episode) : null,
+      lifecycle,
+    };
+  }
+
+  /**
+   * The episode a reopen request started, creating it the first time
+   */
+  private async startEpisode(
+    request: CaseReopenRequest,
+    closedEpisodeId: string,
+    episodeNumber: number
+  ): Promise<string> {
+    const findEpisode = async () => {
+      const { data } = await this.supabase
+        .from("case_episodes")
+        .select("id")
+        .eq("case_id", request.caseId)
+        .eq("reopen_request_id", request.id)
+        .maybeSingle();
+      return (data?.id as string | undefined) ?? null;
+    };
+
+    const existing = await findEpisode();
+    if (existing) return existing;
+
+    const { data: episodeRow, error: episodeError } = await this.supabase
+      .from("case_episodes")
+      .insert({
+        case_id: request.caseId,
+        episode_number: episodeNumber,
+        previous_episode_id: closedEpisodeId,
+        reopen_request_id: request.id,
+      })
+      .select("id")
+      .single();
+
+    if (episodeRow) return episodeRow.id as string;
+
+    // A concurrent attempt inserted it first
+    const raced = episodeError?.code === "23505" ? await findEpisode() : null;
+    if (!raced) {
+      throw new Error(`Failed to start new episode: ${episodeError?.message}`);
+    }
+    return raced;
+  }
+
+  private async carryForward(
+    request: CaseReopenRequest,
+    episodeId: string,
+    fromEpisodeId: string
+  ) {
+    const { evidenceIds, leadIds, geofenceIds } = request.carryForward;
+
+    const rows = [
+      ...evidenceIds.map((id) => ({ item_type: "evidence", item_id: id })),
+      ...leadIds.map((id) => ({ item_type: "lead", item_id: id })),
+      ...geofenceIds.map((id) => ({ item_type: "geofence", item_id: id })),
+    ].map((row) => ({ ...row, episode_id: episodeId, from_episode_id: fromEpisodeId }));
+
+    if (rows.length === 0) return;
+
+    const { error } = await this.supabase
+      .from("case_episode_carryovers")
+      .upsert(rows, { onConflict: "episode_id,item_type,item_id", ignoreDuplicates: true });
+    if (error) {
+      throw new Error(`Failed to record carried-forward items: ${error.message}`);
+    }
+
+    // Closing expired these; carried geofences watch again
+    if (geofenceIds.length > 0) {
+      await this.supabase
+        .from("geofences")
+        .update({ status: "active" })
+        .in("id", geofenceIds)
+        .eq("case_id", request.caseId);
+      invalidateGeofenceIndex();
+    }
+
+    if (leadIds.length > 0) {
+      await this.supabase
+        .from("leads")
+        .update({ status: "investigating", updated_at: new Date().toISOString() })
+        .in("id", leadIds)
+        .eq("case_id", request.caseId)
+        .eq("status", "archived");
+    }
+  }
+
+  private async assertItemsBelongToCase(caseId: string, selection: CarryForwardSelection) {
+    const checks: [string, string[], string][] = [
+      ["case_evidence_items", selection.evidenceIds, "evidence"],
+      ["leads", selection.leadIds, "lead"],
+      ["geofences", selection.geofenceIds, "geofence"],
+    ];
+
+    for (const [table, ids, label] of checks) {
+      if (ids.length === 0) continue;
+
+      const { data, error } = await this.supabase
+        .from(table)
+        .select("id")
+        .eq("case_id", caseId)
+        .in("id", ids);
+
+      if (error) {
+        throw new Error(`Failed to verify ${label} items: ${error.message}`);
+      }
+
+      const found = new Set((data || []).map((row) => row.id as string));
+      const missing = ids.filter((id) => !found.has(id));
+      if (missing.length > 0) {
+        throw new CaseReopenError(
+          "invalid_carry_forward",
+          `${missing.length} ${label} item(s) do not belong to this case`
+        );
+      }
+    }
+  }
+}
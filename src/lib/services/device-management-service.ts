@@ -0,0 +1,492 @@
+/**
+ * Device Management Service
+ * Registered field devices are the WebAuthn credentials officers enrolled,
+ * tied to the device id their offline storage uses. Admins can revoke a
+ * device's credentials and queue a wipe; the device picks the wipe up the
+ * next time it checks in, clears its offline data and reports back. A
+ * revoked device stays revoked until an admin reinstates it. Each step is
+ * written to the audit log.
+ */
+
+import type { createClient } from '@/lib/supabase/server';
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+export type WipeCommandStatus = 'pending' | 'delivered' | 'completed' | 'cancelled';
+
+export interface DeviceWipeCommand {
+  id: string;
+  userId: string;
+  deviceId: string;
+  credentialId: string | null;
+  reason: string;
+  status: WipeCommandStatus;
+  requestedBy: string | null;
+  requestedAt: string;
+  deliveredAt: string | null;
+  completedAt: string | null;
+  result: Record<string, unknown> | null;
+}
+
+export interface RegisteredDevice {
+  id: string;
+  userId: string;
+  credentialId: string;
+  deviceId: string | null;
+  deviceName: string | null;
+  deviceType: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  revokedBy: string | null;
+  revocationReason: string | null;
+  // Set while the device itself is revoked; new credentials cannot be registered from it
+  deviceRevokedAt: string | null;
+  // A wipe the device has not yet reported as done
+  pendingWipe: DeviceWipeCommand | null;
+}
+
+export interface DeviceRevocation {
+  device: RegisteredDevice;
+  // Sessions ended across all of the user's devices, not only the revoked one
+  sessionsEnded: number;
+}
+
+export class DeviceNotFoundError extends Error {
+  constructor(message = 'Device not found') {
+    super(message);
+    this.name = 'DeviceNotFoundError';
+  }
+}
+
+export class DeviceWipeUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeviceWipeUnavailableError';
+  }
+}
+
+const CREDENTIAL_COLUMNS =
+  'id, user_id, credential_id, device_id, device_name, device_type, created_at, last_used_at, revoked_at, revoked_by, revocation_reason';
+const OPEN_WIPE_STATUSES: WipeCommandStatus[] = ['pending', 'delivered'];
+
+function mapWipeCommand(row: Record<string, unknown>): DeviceWipeCommand {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    deviceId: row.device_id as string,
+    credentialId: (row.credential_id as string) ?? null,
+    reason: row.reason as string,
+    status: row.status as WipeCommandStatus,
+    requestedBy: (row.requested_by as string) ?? null,
+    requestedAt: row.requested_at as string,
+    deliveredAt: (row.delivered_at as string) ?? null,
+    completedAt: (row.completed_at as string) ?? null,
+    result: (row.result as Record<string, unknown>) ?? null,
+  };
+}
+
+function mapDevice(
+  row: Record<string, unknown>,
+  openWipes: DeviceWipeCommand[],
+  revokedDevices: Map<string, string>
+): RegisteredDevice {
+  const deviceId = (row.device_id as string) ?? null;
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    credentialId: row.credential_id as string,
+    deviceId,
+    deviceName: (row.device_name as string) ?? null,
+    deviceType: (row.device_type as string) ?? null,
+    createdAt: row.created_at as string,
+    lastUsedAt: (row.last_used_at as string) ?? null,
+    revokedAt: (row.revoked_at as string) ?? null,
+    revokedBy: (row.revoked_by as string) ?? null,
+    revocationReason: (row.revocation_reason as string) ?? null,
+    deviceRevokedAt: (deviceId && revokedDevices.get(deviceId)) || null,
+    pendingWipe: (deviceId && openWipes.find((command) => command.deviceId === deviceId)) || null,
+  };
+}
+
+async function logDeviceAudit(
+  supabase: SupabaseClient,
+  entry: {
+    actorId: string;
+    action: 'update' | 'data_erasure';
+    description: string;
+    resourceType: 'webauthn_credentials' | 'device_wipe_commands' | 'field_devices' | 'auth_sessions';
+    // Field device changes are logged against the credential the admin acted on
+    resourceId: string;
+    oldValues?: Record<string, unknown>;
+    newValues?: Record<string, unknown>;
+  }
+): Promise<void> {
+  const { error } = await supabase.from('comprehensive_audit_logs').insert({
+    user_id: entry.actorId,
+    action: entry.action,
+    action_description: entry.description,
+    resource_type: entry.resourceType,
+    resource_id: entry.resourceId,
+    old_values: entry.oldValues ?? null,
+    new_values: entry.newValues ?? null,
+    is_sensitive_data: true,
+    compliance_relevant: true,
+  });
+
+  if (error) {
+    console.error('Error writing device audit log:', error);
+  }
+}
+
+async function getOpenWipes(supabase: SupabaseClient, userId: string): Promise<DeviceWipeCommand[]> {
+  const { data, error } = await supabase
+    .from('device_wipe_commands')
+    .select('*')
+    .eq('user_id', userId)
+    .in('status', OPEN_WIPE_STATUSES)
+    .order('requested_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map((row) => mapWipeCommand(row as Record<string, unknown>));
+}
+
+// Revocation time of each of the user's revoked devices, by device id
+async function getRevokedDevices(supabase: SupabaseClient, userId: string): Promise<Map<string, string>> {
+  const { data, error } = await supabase
+    .from('field_devices')
+    .select('device_id, revoked_at')
+    .eq('user_id', userId)
+    .not('revoked_at', 'is', null);
+
+  if (error) throw error;
+  return new Map((data || []).map((row) => [row.device_id as string, row.revoked_at as string]));
+}
+
+/**
+ * List a user's registered devices, newest first
+ */
+export async function listUserDevices(supabase: SupabaseClient, userId: string): Promise<RegisteredDevice[]> {
+  const { data, error } = await supabase
+    .from('webauthn_credentials')
+    .select(CREDENTIAL_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  const [openWipes, revokedDevices] = await Promise.all([
+    getOpenWipes(supabase, userId),
+    getRevokedDevices(supabase, userId),
+  ]);
+  return (data || []).map((row) => mapDevice(row as Record<string, unknown>, openWipes, revokedDevices));
+}
+
+/**
+ * Revoke every credential registered from the same device, block the device
+ * itself, sign the user out everywhere and, unless told not to, queue a wipe
+ * of its offline data. Revoking again is harmless.
+ */
+export async function revokeDevice(
+  supabase: SupabaseClient,
+  input: { id: string; actorId: string; reason: string; wipe: boolean }
+): Promise<DeviceRevocation> {
+  const { data: credential } = await supabase
+    .from('webauthn_credentials')
+    .select(CREDENTIAL_COLUMNS)
+    .eq('id', input.id)
+    .maybeSingle();
+
+  if (!credential) {
+    throw new DeviceNotFoundError();
+  }
+
+  const userId = credential.user_id as string;
+  const deviceId = (credential.device_id as string) ?? null;
+
+  if (input.wipe && !deviceId) {
+    throw new DeviceWipeUnavailableError(
+      'This device was registered before remote wipe was available; revoke it without a wipe'
+    );
+  }
+
+  let siblingsQuery = supabase
+    .from('webauthn_credentials')
+    .select('id, credential_id, revoked_at')
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+  siblingsQuery = deviceId ? siblingsQuery.eq('device_id', deviceId) : siblingsQuery.eq('id', input.id);
+  const { data: active, error: activeError } = await siblingsQuery;
+  if (activeError) throw activeError;
+
+  const revokedAt = new Date().toISOString();
+  for (const row of active || []) {
+    const { error } = await supabase
+      .from('webauthn_credentials')
+      .update({ revoked_at: revokedAt, revoked_by: input.actorId, revocation_reason: input.reason })
+      .eq('id', row.id)
+      .is('revoked_at', null);
+    if (error) throw error;
+
+    await logDeviceAudit(supabase, {
+      actorId: input.actorId,
+      action: 'update',
+      description: `Revoked WebAuthn credential on ${credential.device_name || 'unknown device'}: ${input.reason}`,
+      resourceType: 'webauthn_credentials',
+      resourceId: row.id as string,
+      oldValues: { revoked_at: null },
+      newValues: { revoked_at: revokedAt, revoked_by: input.actorId, revocation_reason: input.reason, user_id: userId },
+    });
+  }
+
+  if (deviceId) {
+    const { data: existing } = await supabase
+      .from('field_devices')
+      .select('revoked_at')
+      .eq('user_id', userId)
+      .eq('device_id', deviceId)
+      .maybeSingle();
+
+    if (!existing?.revoked_at) {
+      // Revoking replaces the device's key nonce, so its old offline key is never issued again
+      const { error } = await supabase.from('field_devices').upsert(
+        {
+          user_id: userId,
+          device_id: deviceId,
+          revoked_at: revokedAt,
+          revoked_by: input.actorId,
+          revocation_reason: input.reason,
+          reinstated_at: null,
+          reinstated_by: null,
+        },
+        { onConflict: 'user_id,device_id' }
+      );
+      if (error) throw error;
+
+      await logDeviceAudit(supabase, {
+        actorId: input.actorId,
+        action: 'update',
+        description: `Revoked device ${credential.device_name || 'unknown device'}: ${input.reason}`,
+        resourceType: 'field_devices',
+        resourceId: input.id,
+        oldValues: { revoked_at: null },
+        newValues: { device_id: deviceId, revoked_at: revokedAt, revoked_by: input.actorId, user_id: userId },
+      });
+    }
+  }
+
+  const sessionsEnded = await endUserSessions(supabase, userId, input.actorId);
+
+  if (input.wipe && deviceId) {
+    const openWipes = await getOpenWipes(supabase, userId);
+    if (!openWipes.some((command) => command.deviceId === deviceId)) {
+      const { data: command, error } = await supabase
+        .from('device_wipe_commands')
+        .insert({
+          user_id: userId,
+          device_id: deviceId,
+          credential_id: input.id,
+          reason: input.reason,
+          requested_by: input.actorId,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+
+      await logDeviceAudit(supabase, {
+        actorId: input.actorId,
+        action: 'data_erasure',
+        description: `Requested remote wipe of ${credential.device_name || 'unknown device'}: ${input.reason}`,
+        resourceType: 'device_wipe_commands',
+        resourceId: command.id as string,
+        newValues: { user_id: userId, device_id: deviceId, status: 'pending' },
+      });
+    }
+  }
+
+  const devices = await listUserDevices(supabase, userId);
+  const device = devices.find((d) => d.id === input.id);
+  if (!device) throw new DeviceNotFoundError();
+  return { device, sessionsEnded };
+}
+
+/**
+ * Lift a device's revocation so its owner can register it again. The
+ * revoked credentials stay revoked and the key nonce replaced at revocation
+ * is not restored, so the device starts over with fresh offline storage.
+ */
+export async function reinstateDevice(
+  supabase: SupabaseClient,
+  input: { id: string; actorId: string }
+): Promise<RegisteredDevice> {
+  const { data: credential } = await supabase
+    .from('webauthn_credentials')
+    .select(CREDENTIAL_COLUMNS)
+    .eq('id', input.id)
+    .maybeSingle();
+
+  if (!credential?.device_id) {
+    throw new DeviceNotFoundError();
+  }
+
+  const userId = credential.user_id as string;
+  const reinstatedAt = new Date().toISOString();
+  const { data: reinstated, error } = await supabase
+    .from('field_devices')
+    .update({ revoked_at: null, reinstated_at: reinstatedAt, reinstated_by: input.actorId })
+    .eq('user_id', userId)
+    .eq('device_id', credential.device_id)
+    .not('revoked_at', 'is', null)
+    .select('device_id');
+  if (error) throw error;
+
+  if ((reinstated || []).length > 0) {
+    await logDeviceAudit(supabase, {
+      actorId: input.actorId,
+      action: 'update',
+      description: `Reinstated device ${credential.device_name || 'unknown device'}`,
+      resourceType: 'field_devices',
+      resourceId: input.id,
+      newValues: { device_id: credential.device_id, revoked_at: null, reinstated_at: reinstatedAt, reinstated_by: input.actorId, user_id: userId },
+    });
+  }
+
+  const devices = await listUserDevices(supabase, userId);
+  const device = devices.find((d) => d.id === input.id);
+  if (!device) throw new DeviceNotFoundError();
+  return device;
+}
+
+/**
+ * End every session the user holds so a revoked device cannot keep using
+ * one. Sessions are not tied to a device, so this signs the user out on all
+ * of their devices. Access tokens already issued run out on their own
+ * shortly after.
+ */
+async function endUserSessions(supabase: SupabaseClient, userId: string, actorId: string): Promise<number> {
+  const { data: ended, error } = await supabase.rpc('end_user_sessions', { p_user_id: userId });
+  if (error) throw error;
+
+  await logDeviceAudit(supabase, {
+    actorId,
+    action: 'update',
+    description: `Signed user out of ${ended ?? 0} session(s) after device revocation`,
+    resourceType: 'auth_sessions',
+    resourceId: userId,
+    newValues: { sessions_ended: ended ?? 0 },
+  });
+  return (ended as number | null) ?? 0;
+}
+
+/**
+ * Called by a device when it connects. Returns the wipe it must carry out,
+ * marking it delivered the first time it is handed over.
+ */
+export async function checkInDevice(
+  supabase: SupabaseClient,
+  userId: string,
+  deviceId: string
+): Promise<DeviceWipeCommand | null> {
+  const command = (await getOpenWipes(supabase, userId)).find((c) => c.deviceId === deviceId);
+  if (!command) return null;
+
+  if (command.status === 'pending') {
+    const deliveredAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('device_wipe_commands')
+      .update({ status: 'delivered', delivered_at: deliveredAt })
+      .eq('id', command.id)
+      .eq('status', 'pending');
+    if (error) throw error;
+
+    await logDeviceAudit(supabase, {
+      actorId: userId,
+      action: 'update',
+      description: 'Remote wipe command delivered to device',
+      resourceType: 'device_wipe_commands',
+      resourceId: command.id,
+      oldValues: { status: 'pending' },
+      newValues: { status: 'delivered', device_id: deviceId },
+    });
+    return { ...command, status: 'delivered', deliveredAt };
+  }
+
+  return command;
+}
+
+/**
+ * Record the device's report that it wiped its offline data. Only a command
+ * the device picked up at check-in can be completed.
+ */
+export async function completeWipeCommand(
+  supabase: SupabaseClient,
+  userId: string,
+  commandId: string,
+  result?: Record<string, unknown>
+): Promise<DeviceWipeCommand> {
+  const { data: row } = await supabase
+    .from('device_wipe_commands')
+    .select('*')
+    .eq('id', commandId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!row) {
+    throw new DeviceNotFoundError('Wipe command not found');
+  }
+
+  const command = mapWipeCommand(row as Record<string, unknown>);
+  if (command.status === 'completed') return command;
+
+  const completedAt = new Date().toISOString();
+  const { data: updated, error } = await supabase
+    .from('device_wipe_commands')
+    .update({ status: 'completed', completed_at: completedAt, result: result ?? null })
+    .eq('id', commandId)
+    .eq('status', 'delivered')
+    .select('id');
+  if (error) throw error;
+
+  if ((updated || []).length === 0) {
+    throw new DeviceWipeUnavailableError(`A ${command.status} wipe command cannot be completed`);
+  }
+
+  await logDeviceAudit(supabase, {
+    actorId: userId,
+    action: 'data_erasure',
+    description: 'Device reported remote wipe complete',
+    resourceType: 'device_wipe_commands',
+    resourceId: commandId,
+    oldValues: { status: command.status },
+    newValues: { status: 'completed', device_id: command.deviceId, result: result ?? null },
+  });
+
+  return { ...command, status: 'completed', completedAt, result: result ?? null };
+}
+
+/**
+ * A device may not unlock offline data while a wipe is outstanding, or while
+ * it is revoked. Only an admin reinstating the device lifts a revocation.
+ */
+export async function isDeviceBlocked(supabase: SupabaseClient, userId: string, deviceId: string): Promise<boolean> {
+  const { data: device, error } = await supabase
+    .from('field_devices')
+    .select('revoked_at')
+    .eq('user_id', userId)
+    .eq('device_id', deviceId)
+    .maybeSingle();
+  if (error) throw error;
+  if (device?.revoked_at) return true;
+
+  return (await getOpenWipes(supabase, userId)).some((command) => command.deviceId === deviceId);
+}
+
+/**
+ * Server nonce mixed into the signed-in user's offline storage key for a
+ * device, registering the device on first use. Null while it is revoked.
+ */
+export async function getDeviceKeyNonce(supabase: SupabaseClient, deviceId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('field_device_key_nonce', { p_device_id: deviceId });
+  if (error) throw error;
+  return (data as string | null) ?? null;
+}
@@ -560,6 +560,63 @@ This AMBER Alert was sent via LocateConnect.
     });
   }
 
+  /**
+   * Send an update or cancellation for an AMBER Alert already emailed
+   */
+  async sendAmberAlertFollowUp(options: {
+    recipients: string[];
+    alertNumber: string;
+    kind: 'update' | 'cancel';
+    headline: string;
+    details: string[];
+    alertUrl: string;
+  }): Promise<BulkEmailResult> {
+    const { recipients, alertNumber, kind, headline, details, alertUrl } = options;
+    const color = kind === 'update' ? '#f59e0b' : '#10b981';
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${headline}</title>
+      </head>
+      <body style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #f5f5f5;">
+        <div style="background-color: ${color}; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0;">
+          <h1 style="margin: 0; font-size: 22px;">${headline}</h1>
+          <p style="margin: 10px 0 0; font-size: 14px;">Alert #${alertNumber}</p>
+        </div>
+
+        <div style="background-color: white; padding: 20px; border-radius: 0 0 8px 8px;">
+          <p style="color: #1a1a1a; line-height: 1.5;">${details.join('<br>')}</p>
+
+          <div style="text-align: center; margin-top: 20px;">
+            <a href="${alertUrl}" style="display: inline-block; background-color: ${color}; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold;">
+              View Alert
+            </a>
+          </div>
+
+          <hr style="border: none; border-top: 1px solid #e5e5e5; margin: 30px 0;">
+
+          <p style="color: #666; font-size: 12px; text-align: center;">
+            This AMBER Alert update was sent via LocateConnect.
+            <a href="${process.env.NEXT_PUBLIC_APP_URL || 'https://locateconnect.ca'}/unsubscribe" style="color: ${color};">Unsubscribe</a>
+          </p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendBulk({
+      recipients: recipients.map(email => ({ email })),
+      subject: `${kind === 'update' ? '⚠️' : '✅'} ${headline}`,
+      html,
+      text: [headline, `Alert #${alertNumber}`, '', ...details, '', '---', 'This AMBER Alert update was sent via LocateConnect.'].join('\n'),
+      tags: ['amber-alert', `amber-${kind}`, alertNumber],
+    });
+  }
+
   /**
    * Simple template interpolation
    */
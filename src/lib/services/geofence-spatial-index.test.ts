@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GeofenceSpatialIndex,
+  detectGeofenceTransitions,
+  geofenceBounds,
+  isPointInGeofence,
+  type TransitionGeofence,
+} from './geofence-spatial-index';
+
+const EDMONTON = { lat: 53.5461, lng: -113.4938 };
+
+function circle(id: string, lat: number, lng: number, radiusMeters: number, alertType: TransitionGeofence['alertType'] = 'both'): TransitionGeofence {
+  return { id, alertType, geometry: { type: 'circle', center: { lat, lng }, radiusMeters } };
+}
+
+describe('geofence spatial index', () => {
+  describe('geometry', () => {
+    it('should pad circle bounds more in longitude at high latitude', () => {
+      const bounds = geofenceBounds({ type: 'circle', center: EDMONTON, radiusMeters: 1000 });
+      const latSpan = bounds.maxLat - bounds.minLat;
+      const lngSpan = bounds.maxLng - bounds.minLng;
+      expect(lngSpan).toBeGreaterThan(latSpan * 1.6);
+    });
+
+    it('should test circles, polygons and route corridors', () => {
+      expect(isPointInGeofence({ lat: 53.55, lng: -113.4938 }, { type: 'circle', center: EDMONTON, radiusMeters: 500 })).toBe(true);
+      expect(isPointInGeofence({ lat: 53.56, lng: -113.4938 }, { type: 'circle', center: EDMONTON, radiusMeters: 500 })).toBe(false);
+
+      const square = [
+        { lat: 53.55, lng: -113.51 },
+        { lat: 53.555, lng: -113.51 },
+        { lat: 53.555, lng: -113.5 },
+        { lat: 53.55, lng: -113.5 },
+      ];
+      expect(isPointInGeofence({ lat: 53.552, lng: -113.505 }, { type: 'polygon', points: square })).toBe(true);
+      expect(isPointInGeofence({ lat: 53.56, lng: -113.505 }, { type: 'polygon', points: square })).toBe(false);
+
+      // East-west road; 0.003 deg of longitude is ~200 m at this latitude
+      const road = { type: 'route' as const, points: [{ lat: 53.5, lng: -113.6 }, { lat: 53.5, lng: -113.4 }], bufferMeters: 150 };
+      expect(isPointInGeofence({ lat: 53.501, lng: -113.5 }, road)).toBe(true);
+      expect(isPointInGeofence({ lat: 53.5, lng: -113.397 }, road)).toBe(false);
+    });
+  });
+
+  describe('GeofenceSpatialIndex', () => {
+    it('should return the same fences as a linear scan', () => {
+      const fences: TransitionGeofence[] = [];
+      for (let i = 0; i < 2000; i++) {
+        // Deterministic spread over roughly 2 x 4 degrees
+        const lat = 52 + ((i * 7919) % 2000) / 1000;
+        const lng = -115 + ((i * 104729) % 4000) / 1000;
+        fences.push(circle(`f${i}`, lat, lng, 500 + (i % 7) * 1500));
+      }
+      const index = new GeofenceSpatialIndex<TransitionGeofence>();
+      index.load(fences);
+
+      for (let i = 0; i < 200; i++) {
+        const point = { lat: 52 + ((i * 37) % 200) / 100, lng: -115 + ((i * 53) % 400) / 100 };
+        const expected = fences.filter((f) => isPointInGeofence(point, f.geometry)).map((f) => f.id).sort();
+        expect(index.containing(point).map((f) => f.id).sort()).toEqual(expected);
+        expect(index.candidates(point).length).toBeLessThan(fences.length / 10);
+      }
+    });
+
+    it('should reflect upserts and removals', () => {
+      const index = new GeofenceSpatialIndex<TransitionGeofence>();
+      index.load([circle('a', EDMONTON.lat, EDMONTON.lng, 1000)]);
+      expect(index.containing(EDMONTON).map((f) => f.id)).toEqual(['a']);
+
+      index.upsert(circle('b', EDMONTON.lat, EDMONTON.lng, 200));
+      index.remove('a');
+      expect(index.containing(EDMONTON).map((f) => f.id)).toEqual(['b']);
+      expect(index.size).toBe(1);
+    });
+  });
+
+  describe('detectGeofenceTransitions', () => {
+    const outside = { lat: 53.6, lng: EDMONTON.lng };
+
+    it('should only establish state on a first fix', () => {
+      const index = new GeofenceSpatialIndex<TransitionGeofence>();
+      index.load([circle('a', EDMONTON.lat, EDMONTON.lng, 1000)]);
+
+      expect(detectGeofenceTransitions(index, EDMONTON, null)).toEqual({ inside: ['a'], transitions: [] });
+    });
+
+    it('should report entries and exits allowed by each fence', () => {
+      const index = new GeofenceSpatialIndex<TransitionGeofence>();
+      index.load([
+        circle('both', EDMONTON.lat, EDMONTON.lng, 1000),
+        circle('entry-only', EDMONTON.lat, EDMONTON.lng, 1000, 'entry'),
+        circle('exit-only', EDMONTON.lat, EDMONTON.lng, 1000, 'exit'),
+      ]);
+
+      const entered = detectGeofenceTransitions(index, EDMONTON, []);
+      expect(entered.transitions.map((t) => `${t.type}:${t.geofence.id}`).sort()).toEqual([
+        'entry:both',
+        'entry:entry-only',
+      ]);
+
+      const exited = detectGeofenceTransitions(index, outside, entered.inside);
+      expect(exited.inside).toEqual([]);
+      expect(exited.transitions.map((t) => `${t.type}:${t.geofence.id}`).sort()).toEqual([
+        'exit:both',
+        'exit:exit-only',
+      ]);
+    });
+
+    it('should ignore expired fences and fences no longer indexed', () => {
+      const index = new GeofenceSpatialIndex<TransitionGeofence>();
+      index.load([
+        { ...circle('expired', EDMONTON.lat, EDMONTON.lng, 1000), expiresAt: '2026-01-01T00:00:00Z' },
+        circle('removed', EDMONTON.lat, EDMONTON.lng, 1000),
+      ]);
+      index.remove('removed');
+
+      const at = new Date('2026-02-01T00:00:00Z');
+      expect(detectGeofenceTransitions(index, EDMONTON, [], at).transitions).toEqual([]);
+      expect(detectGeofenceTransitions(index, outside, ['expired', 'removed'], at).transitions).toEqual([]);
+    });
+  });
+});
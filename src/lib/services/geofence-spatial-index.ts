@@ -0,0 +1,404 @@
+/**
+ * Geofence Spatial Index
+ * Packed R-tree over geofence bounding boxes, so a location update only runs
+ * exact containment tests against the handful of fences whose boxes contain
+ * the point. The tree is bulk-loaded with Sort-Tile-Recursive packing and
+ * rebuilt lazily after inserts or removals; rebuilding a few thousand fences
+ * takes milliseconds and fences change far less often than devices move.
+ */
+
+import type { GeofenceGeometry } from "@/types/law-enforcement.types";
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface GeofenceBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+export interface IndexedGeofence {
+  id: string;
+  geometry: GeofenceGeometry;
+}
+
+const METERS_PER_DEGREE_LAT = 111_320;
+const EARTH_RADIUS_KM = 6371;
+
+// =============================================================================
+// GEOMETRY
+// =============================================================================
+
+/**
+ * Distance between two points in km
+ */
+export function haversineDistance(a: LatLng, b: LatLng): number {
+  const dLat = ((b.lat - a.lat) * Math.PI) / 180;
+  const dLon = ((b.lng - a.lng) * Math.PI) / 180;
+  const lat1 = (a.lat * Math.PI) / 180;
+  const lat2 = (b.lat * Math.PI) / 180;
+
+  const x =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.sin(dLon / 2) * Math.sin(dLon / 2) * Math.cos(lat1) * Math.cos(lat2);
+  const c = 2 * Math.atan2(Math.sqrt(x), Math.sqrt(1 - x));
+
+  return EARTH_RADIUS_KM * c;
+}
+
+function metersToLngDegrees(meters: number, atLat: number): number {
+  // Clamp so fences near the poles still get a finite box
+  const cos = Math.max(Math.cos((atLat * Math.PI) / 180), 0.01);
+  return meters / (METERS_PER_DEGREE_LAT * cos);
+}
+
+/**
+ * Bounding box of a geofence, padded by the circle radius or route buffer
+ * plus any extra margin (e.g. a loitering band outside the boundary)
+ */
+export function geofenceBounds(geometry: GeofenceGeometry, extraMeters = 0): GeofenceBounds {
+  const points = geometry.type === "circle" ? [geometry.center] : geometry.points;
+  const padMeters =
+    extraMeters +
+    (geometry.type === "circle"
+      ? geometry.radiusMeters
+      : geometry.type === "route"
+        ? geometry.bufferMeters
+        : 0);
+
+  const lats = points.map((p) => p.lat);
+  const lngs = points.map((p) => p.lng);
+  const latPad = padMeters / METERS_PER_DEGREE_LAT;
+  const minLat = Math.min(...lats) - latPad;
+  const maxLat = Math.max(...lats) + latPad;
+  const lngPad = metersToLngDegrees(padMeters, Math.max(Math.abs(minLat), Math.abs(maxLat)));
+
+  return {
+    minLat,
+    maxLat,
+    minLng: Math.min(...lngs) - lngPad,
+    maxLng: Math.max(...lngs) + lngPad,
+  };
+}
+
+/**
+ * Check if point is inside polygon using ray casting
+ */
+export function isPointInPolygon(point: LatLng, polygon: LatLng[]): boolean {
+  let inside = false;
+  const n = polygon.length;
+
+  for (let i = 0, j = n - 1; i < n; j = i++) {
+    const xi = polygon[i].lng;
+    const yi = polygon[i].lat;
+    const xj = polygon[j].lng;
+    const yj = polygon[j].lat;
+
+    if (
+      yi > point.lat !== yj > point.lat &&
+      point.lng < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi
+    ) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Distance in km from a point to a line segment. Longitudes are scaled by
+ * the cosine of the point's latitude so the projection is not skewed away
+ * from the equator.
+ */
+export function pointToSegmentDistance(point: LatLng, start: LatLng, end: LatLng): number {
+  const scale = Math.cos((point.lat * Math.PI) / 180);
+  const A = point.lat - start.lat;
+  const B = (point.lng - start.lng) * scale;
+  const C = end.lat - start.lat;
+  const D = (end.lng - start.lng) * scale;
+
+  const lenSq = C * C + D * D;
+  const param = lenSq === 0 ? 0 : Math.min(1, Math.max(0, (A * C + B * D) / lenSq));
+
+  return haversineDistance(point, {
+    lat: start.lat + param * (end.lat - start.lat),
+    lng: start.lng + param * (end.lng - start.lng),
+  });
+}
+
+/**
+ * Exact containment test for a geofence geometry
+ */
+export function isPointInGeofence(point: LatLng, geometry: GeofenceGeometry): boolean {
+  if (geometry.type === "circle") {
+    return haversineDistance(point, geometry.center) * 1000 <= geometry.radiusMeters;
+  }
+
+  if (geometry.type === "polygon") {
+    return isPointInPolygon(point, geometry.points);
+  }
+
+  if (geometry.type === "route") {
+    if (geometry.points.length === 1) {
+      return haversineDistance(point, geometry.points[0]) * 1000 <= geometry.bufferMeters;
+    }
+    for (let i = 0; i < geometry.points.length - 1; i++) {
+      const distance = pointToSegmentDistance(point, geometry.points[i], geometry.points[i + 1]);
+      if (distance * 1000 <= geometry.bufferMeters) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Distance in meters from a point to the fence boundary, whichever side of
+ * it the point is on
+ */
+export function distanceToGeofenceBoundary(point: LatLng, geometry: GeofenceGeometry): number {
+  if (geometry.type === "circle") {
+    return Math.abs(haversineDistance(point, geometry.center) * 1000 - geometry.radiusMeters);
+  }
+
+  const { points } = geometry;
+  if (geometry.type === "route" && points.length === 1) {
+    return Math.abs(haversineDistance(point, points[0]) * 1000 - geometry.bufferMeters);
+  }
+
+  // Polygons close back to their first vertex; routes do not
+  const segmentCount = geometry.type === "polygon" ? points.length : points.length - 1;
+  let nearest = Infinity;
+  for (let i = 0; i < segmentCount; i++) {
+    const distance = pointToSegmentDistance(point, points[i], points[(i + 1) % points.length]) * 1000;
+    nearest = Math.min(nearest, distance);
+  }
+
+  return geometry.type === "route" ? Math.abs(nearest - geometry.bufferMeters) : nearest;
+}
+
+// =============================================================================
+// R-TREE
+// =============================================================================
+
+interface TreeNode<T> {
+  bounds: GeofenceBounds;
+  children?: TreeNode<T>[];
+  item?: T;
+}
+
+function boxContains(bounds: GeofenceBounds, point: LatLng): boolean {
+  return (
+    point.lat >= bounds.minLat &&
+    point.lat <= bounds.maxLat &&
+    point.lng >= bounds.minLng &&
+    point.lng <= bounds.maxLng
+  );
+}
+
+function unionBounds<T>(nodes: TreeNode<T>[]): GeofenceBounds {
+  return nodes.reduce(
+    (acc, node) => ({
+      minLat: Math.min(acc.minLat, node.bounds.minLat),
+      maxLat: Math.max(acc.maxLat, node.bounds.maxLat),
+      minLng: Math.min(acc.minLng, node.bounds.minLng),
+      maxLng: Math.max(acc.maxLng, node.bounds.maxLng),
+    }),
+    { minLat: Infinity, maxLat: -Infinity, minLng: Infinity, maxLng: -Infinity }
+  );
+}
+
+function centerLng(bounds: GeofenceBounds): number {
+  return (bounds.minLng + bounds.maxLng) / 2;
+}
+
+function centerLat(bounds: GeofenceBounds): number {
+  return (bounds.minLat + bounds.maxLat) / 2;
+}
+
+export class GeofenceSpatialIndex<T extends IndexedGeofence> {
+  private entries: Map<string, { item: T; bounds: GeofenceBounds }> = new Map();
+  private root: TreeNode<T> | null = null;
+  private dirty = false;
+
+  /**
+   * @param padMeters extra margin around an item's box, so candidates also
+   * include fences the point is near but outside
+   */
+  constructor(
+    private readonly padMeters: (item: T) => number = () => 0,
+    private readonly nodeCapacity = 16
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Replace the indexed fences
+   */
+  load(items: T[]): void {
+    this.entries.clear();
+    for (const item of items) {
+      this.entries.set(item.id, { item, bounds: geofenceBounds(item.geometry, this.padMeters(item)) });
+    }
+    this.dirty = true;
+  }
+
+  /**
+   * Add or replace a fence
+   */
+  upsert(item: T): void {
+    this.entries.set(item.id, { item, bounds: geofenceBounds(item.geometry, this.padMeters(item)) });
+    this.dirty = true;
+  }
+
+  remove(id: string): boolean {
+    const removed = this.entries.delete(id);
+    if (removed) this.dirty = true;
+    return removed;
+  }
+
+  get(id: string): T | undefined {
+    return this.entries.get(id)?.item;
+  }
+
+  values(): T[] {
+    return Array.from(this.entries.values(), (entry) => entry.item);
+  }
+
+  /**
+   * Fences whose bounding box contains the point
+   */
+  candidates(point: LatLng): T[] {
+    const root = this.getRoot();
+    if (!root) return [];
+
+    const results: T[] = [];
+    const stack: TreeNode<T>[] = [root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (!boxContains(node.bounds, point)) continue;
+      if (node.item) {
+        results.push(node.item);
+      } else if (node.children) {
+        stack.push(...node.children);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Fences that contain the point
+   */
+  containing(point: LatLng): T[] {
+    return this.candidates(point).filter((item) => isPointInGeofence(point, item.geometry));
+  }
+
+  private getRoot(): TreeNode<T> | null {
+    if (this.dirty) {
+      this.root = this.build();
+      this.dirty = false;
+    }
+    return this.root;
+  }
+
+  private build(): TreeNode<T> | null {
+    if (this.entries.size === 0) return null;
+
+    let level: TreeNode<T>[] = Array.from(this.entries.values(), ({ item, bounds }) => ({
+      bounds,
+      item,
+    }));
+
+    while (level.length > 1) {
+      level = this.packLevel(level);
+    }
+    return level[0];
+  }
+
+  /**
+   * Sort-Tile-Recursive: slice by longitude, then group each slice by
+   * latitude into nodes of nodeCapacity children
+   */
+  private packLevel(nodes: TreeNode<T>[]): TreeNode<T>[] {
+    const capacity = this.nodeCapacity;
+    const nodeCount = Math.ceil(nodes.length / capacity);
+    const sliceCount = Math.ceil(Math.sqrt(nodeCount));
+    const sliceSize = sliceCount * capacity;
+
+    const sorted = [...nodes].sort((a, b) => centerLng(a.bounds) - centerLng(b.bounds));
+    const parents: TreeNode<T>[] = [];
+
+    for (let i = 0; i < sorted.length; i += sliceSize) {
+      const slice = sorted
+        .slice(i, i + sliceSize)
+        .sort((a, b) => centerLat(a.bounds) - centerLat(b.bounds));
+      for (let j = 0; j < slice.length; j += capacity) {
+        const children = slice.slice(j, j + capacity);
+        parents.push({ bounds: unionBounds(children), children });
+      }
+    }
+
+    return parents;
+  }
+}
+
+// =============================================================================
+// TRANSITIONS
+// =============================================================================
+
+export interface TransitionGeofence extends IndexedGeofence {
+  alertType: "entry" | "exit" | "both";
+  expiresAt?: string;
+}
+
+export interface GeofenceTransition<T> {
+  geofence: T;
+  type: "entry" | "exit";
+}
+
+/**
+ * Compare the fences containing a device now with the fences it was inside
+ * at its previous fix. A device's first fix only establishes state. Fences
+ * that have expired, or have left the index since the previous fix, never
+ * produce an exit.
+ */
+export function detectGeofenceTransitions<T extends TransitionGeofence>(
+  index: GeofenceSpatialIndex<T>,
+  point: LatLng,
+  previousInside: string[] | null,
+  at: Date = new Date()
+): { inside: string[]; transitions: GeofenceTransition<T>[] } {
+  const isLive = (g: T) => !g.expiresAt || new Date(g.expiresAt) > at;
+  const inside = index.containing(point).filter(isLive);
+  const insideIds = new Set(inside.map((g) => g.id));
+
+  if (!previousInside) {
+    return { inside: [...insideIds], transitions: [] };
+  }
+
+  const wasInside = new Set(previousInside);
+  const transitions: GeofenceTransition<T>[] = [];
+
+  for (const geofence of inside) {
+    if (!wasInside.has(geofence.id) && geofence.alertType !== "exit") {
+      transitions.push({ geofence, type: "entry" });
+    }
+  }
+
+  for (const id of wasInside) {
+    if (insideIds.has(id)) continue;
+    const geofence = index.get(id);
+    if (geofence && isLive(geofence) && geofence.alertType !== "entry") {
+      transitions.push({ geofence, type: "exit" });
+    }
+  }
+
+  return { inside: [...insideIds], transitions };
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { GeofenceSpatialIndex } from './geofence-spatial-index';
+import {
+  evaluateDeviceFix,
+  speedBetweenFixes,
+  type DeviceFix,
+  type DeviceTrackState,
+  type TriggerGeofence,
+} from './geofence-triggers';
+import type { GeofenceTriggerConfig } from '@/types/law-enforcement.types';
+
+const CENTER = { lat: 53.5461, lng: -113.4938 };
+const START = new Date('2026-03-01T12:00:00Z').getTime();
+// Roughly 111 m of latitude
+const LAT_100M = 100 / 111_320;
+
+function fence(triggerConfig: GeofenceTriggerConfig, alertType: TriggerGeofence['alertType'] = 'both'): TriggerGeofence {
+  return {
+    id: 'fence',
+    alertType,
+    geometry: { type: 'circle', center: CENTER, radiusMeters: 500 },
+    triggerConfig,
+  };
+}
+
+function indexFor(geofence: TriggerGeofence) {
+  const index = new GeofenceSpatialIndex<TriggerGeofence>((g) => g.triggerConfig?.loiter?.bandMeters ?? 0);
+  index.load([geofence]);
+  return index;
+}
+
+function fix(minutes: number, metersNorth = 0): DeviceFix {
+  return {
+    lat: CENTER.lat + (metersNorth / 100) * LAT_100M,
+    lng: CENTER.lng,
+    timestamp: new Date(START + minutes * 60_000).toISOString(),
+  };
+}
+
+/**
+ * Feed fixes in order and collect the trigger types each one produced
+ */
+function run(geofence: TriggerGeofence, fixes: DeviceFix[], initial: DeviceTrackState | null = null) {
+  const index = indexFor(geofence);
+  let state = initial;
+  const fired: string[][] = [];
+  for (const f of fixes) {
+    const result = evaluateDeviceFix(index, state, f);
+    state = result.state;
+    fired.push(result.triggers.map((t) => t.type));
+  }
+  return { fired, state: state! };
+}
+
+describe('geofence triggers', () => {
+  it('should alert once on dwell after the configured time inside', () => {
+    const { fired } = run(fence({ dwell: { minutes: 30 } }), [
+      fix(0, 2000),
+      fix(5),
+      fix(20),
+      fix(36),
+      fix(50),
+    ]);
+    expect(fired).toEqual([[], ['entry'], [], ['dwell'], []]);
+  });
+
+  it('should restart the dwell clock after leaving and re-entering', () => {
+    const { fired } = run(fence({ dwell: { minutes: 30 } }, 'entry'), [
+      fix(0),
+      fix(25, 2000),
+      fix(26),
+      fix(50),
+      fix(57),
+    ]);
+    expect(fired).toEqual([[], [], ['entry'], [], ['dwell']]);
+  });
+
+  it('should detect loitering on either side of the boundary', () => {
+    const config = { loiter: { bandMeters: 80, minutes: 10 } };
+    // 540 m north is outside the 500 m circle but within the band
+    const { fired, state } = run(fence(config, 'entry'), [
+      fix(0, 540),
+      fix(4, 470),
+      fix(8, 530),
+      fix(12, 480),
+      fix(20, 520),
+    ]);
+    // Crossing back in at minute 12 is also an entry
+    expect(fired).toEqual([[], ['entry'], [], ['entry', 'loiter'], []]);
+    expect(state.fenceState.fence.nearBoundarySince).toBe(fix(0).timestamp);
+  });
+
+  it('should reset loitering when the device moves away from the boundary', () => {
+    const { fired } = run(fence({ loiter: { bandMeters: 80, minutes: 10 } }, 'entry'), [
+      fix(0, 540),
+      fix(6, 1500),
+      fix(12, 540),
+      fix(20, 540),
+      fix(23, 540),
+    ]);
+    expect(fired).toEqual([[], [], [], [], ['loiter']]);
+  });
+
+  it('should alert when a device inside stops moving', () => {
+    const { fired } = run(fence({ noMovement: { radiusMeters: 30, minutes: 20 } }), [
+      fix(0, 100),
+      fix(10, 110),
+      fix(15, 300),
+      fix(30, 310),
+      fix(36, 305),
+    ]);
+    // Moving 200 m at minute 15 restarts the stationary clock
+    expect(fired).toEqual([[], [], [], [], ['no_movement']]);
+  });
+
+  it('should alert on a speed anomaly once per episode', () => {
+    const { fired } = run(fence({ speed: { maxKph: 40 } }), [
+      fix(0, -400),
+      fix(1, -200),
+      fix(1.25, 300),
+      fix(1.5, 400),
+      fix(3, 450),
+      fix(3.2, -300),
+    ]);
+    // 500 m in 15 s is 120 km/h; 100 m in 15 s is still 24 km/h
+    expect(fired).toEqual([[], [], ['speed'], [], [], ['speed']]);
+  });
+
+  it('should discount fix accuracy and ignore fixes too close together', () => {
+    const a = { ...fix(0), accuracy: 150 };
+    const b = { ...fix(0.5, 300), accuracy: 150 };
+    expect(speedBetweenFixes(a, b)).toBe(0);
+    expect(speedBetweenFixes(fix(0), fix(0.1, 300))).toBeNull();
+  });
+
+  it('should only keep state for fences the device is inside or near', () => {
+    const { state } = run(fence({ dwell: { minutes: 30 }, loiter: { bandMeters: 50, minutes: 5 } }), [
+      fix(0),
+      fix(10, 3000),
+    ]);
+    expect(state.insideGeofenceIds).toEqual([]);
+    expect(state.fenceState).toEqual({});
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Geofence Triggers
+ * Evaluates one device fix against indexed geofences: entry and exit plus
+ * the behaviour triggers a fence can opt into (dwell, loitering near the
+ * boundary, no movement and speed). Timers live in per-fence state carried
+ * from fix to fix, and each behaviour alerts once until its condition ends.
+ */
+
+import {
+  detectGeofenceTransitions,
+  distanceToGeofenceBoundary,
+  haversineDistance,
+  type GeofenceSpatialIndex,
+  type LatLng,
+  type TransitionGeofence,
+} from "@/lib/services/geofence-spatial-index";
+import type { GeofenceAlertType, GeofenceTriggerConfig } from "@/types/law-enforcement.types";
+
+export interface TriggerGeofence extends TransitionGeofence {
+  triggerConfig?: GeofenceTriggerConfig;
+}
+
+export interface DeviceFix extends LatLng {
+  accuracy?: number;
+  timestamp: string;
+}
+
+// Timers for one device against one fence
+export interface DeviceFenceState {
+  enteredAt?: string;
+  dwellAlerted?: boolean;
+  nearBoundarySince?: string;
+  loiterAlerted?: boolean;
+  still?: { lat: number; lng: number; since: string };
+  stillAlerted?: boolean;
+  speeding?: boolean;
+}
+
+export interface DeviceTrackState extends DeviceFix {
+  insideGeofenceIds: string[];
+  // Only fences the device is inside or loitering near keep state
+  fenceState: Record<string, DeviceFenceState>;
+}
+
+export interface GeofenceTrigger<T> {
+  geofence: T;
+  type: GeofenceAlertType;
+  details?: Record<string, number>;
+}
+
+// Fixes closer together than this give meaningless speeds from GPS jitter
+export const MIN_SPEED_INTERVAL_SECONDS = 10;
+
+function minutesBetween(fromIso: string, to: Date): number {
+  return (to.getTime() - new Date(fromIso).getTime()) / 60_000;
+}
+
+function compact(state: DeviceFenceState): DeviceFenceState | null {
+  const entries = Object.entries(state).filter(([, value]) => value !== undefined && value !== false);
+  return entries.length > 0 ? (Object.fromEntries(entries) as DeviceFenceState) : null;
+}
+
+/**
+ * Speed between two fixes in km/h. The distance is reduced by both fixes'
+ * accuracy so an imprecise fix does not read as a sprint. Null when the
+ * fixes are too close in time to judge.
+ */
+export function speedBetweenFixes(previous: DeviceFix, fix: DeviceFix): number | null {
+  const seconds = (new Date(fix.timestamp).getTime() - new Date(previous.timestamp).getTime()) / 1000;
+  if (seconds < MIN_SPEED_INTERVAL_SECONDS) return null;
+
+  const meters = Math.max(
+    0,
+    haversineDistance(previous, fix) * 1000 - (previous.accuracy ?? 0) - (fix.accuracy ?? 0)
+  );
+  return meters / 1000 / (seconds / 3600);
+}
+
+/**
+ * Evaluate a fix for one device. Pass null for the device's first fix: it
+ * only starts the clocks.
+ */
+export function evaluateDeviceFix<T extends TriggerGeofence>(
+  index: GeofenceSpatialIndex<T>,
+  previous: DeviceTrackState | null,
+  fix: DeviceFix
+): { state: DeviceTrackState; triggers: GeofenceTrigger<T>[] } {
+  const at = new Date(fix.timestamp);
+  const { inside, transitions } = detectGeofenceTransitions(
+    index,
+    fix,
+    previous ? previous.insideGeofenceIds : null,
+    at
+  );
+
+  const triggers: GeofenceTrigger<T>[] = transitions.map((t) => ({ geofence: t.geofence, type: t.type }));
+  const insideIds = new Set(inside);
+  const speedKph = previous ? speedBetweenFixes(previous, fix) : null;
+  const fenceState: Record<string, DeviceFenceState> = {};
+
+  for (const geofence of index.candidates(fix)) {
+    if (geofence.expiresAt && new Date(geofence.expiresAt) <= at) continue;
+
+    const config = geofence.triggerConfig ?? {};
+    const prior = previous?.fenceState[geofence.id] ?? {};
+    const state: DeviceFenceState = {};
+
+    if (insideIds.has(geofence.id)) {
+      state.enteredAt = prior.enteredAt ?? fix.timestamp;
+
+      if (config.dwell) {
+        const dwellMinutes = minutesBetween(state.enteredAt, at);
+        state.dwellAlerted = prior.dwellAlerted;
+        if (!state.dwellAlerted && dwellMinutes >= config.dwell.minutes) {
+          triggers.push({ geofence, type: "dwell", details: { dwellMinutes: Math.round(dwellMinutes) } });
+          state.dwellAlerted = true;
+        }
+      }
+
+      if (config.noMovement) {
+        const stayed =
+          prior.still && haversineDistance(fix, prior.still) * 1000 <= config.noMovement.radiusMeters;
+        state.still = stayed ? prior.still : { lat: fix.lat, lng: fix.lng, since: fix.timestamp };
+        state.stillAlerted = stayed ? prior.stillAlerted : false;
+
+        const stationaryMinutes = minutesBetween(state.still!.since, at);
+        if (!state.stillAlerted && stationaryMinutes >= config.noMovement.minutes) {
+          triggers.push({
+            geofence,
+            type: "no_movement",
+            details: { stationaryMinutes: Math.round(stationaryMinutes) },
+          });
+          state.stillAlerted = true;
+        }
+      }
+
+      if (config.speed && speedKph !== null) {
+        state.speeding = speedKph > config.speed.maxKph;
+        if (state.speeding && !prior.speeding) {
+          triggers.push({
+            geofence,
+            type: "speed",
+            details: { speedKph: Math.round(speedKph * 10) / 10, maxKph: config.speed.maxKph },
+          });
+        }
+      } else {
+        state.speeding = prior.speeding;
+      }
+    }
+
+    if (config.loiter) {
+      const boundaryDistanceMeters = distanceToGeofenceBoundary(fix, geofence.geometry);
+      if (boundaryDistanceMeters <= config.loiter.bandMeters) {
+        state.nearBoundarySince = prior.nearBoundarySince ?? fix.timestamp;
+        state.loiterAlerted = prior.loiterAlerted;
+
+        const loiterMinutes = minutesBetween(state.nearBoundarySince, at);
+        if (!state.loiterAlerted && loiterMinutes >= config.loiter.minutes) {
+          triggers.push({
+            geofence,
+            type: "loiter",
+            details: {
+              loiterMinutes: Math.round(loiterMinutes),
+              boundaryDistanceMeters: Math.round(boundaryDistanceMeters),
+            },
+          });
+          state.loiterAlerted = true;
+        }
+      }
+    }
+
+    const kept = compact(state);
+    if (kept) fenceState[geofence.id] = kept;
+  }
+
+  return {
+    state: {
+      lat: fix.lat,
+      lng: fix.lng,
+      accuracy: fix.accuracy,
+      timestamp: fix.timestamp,
+      insideGeofenceIds: inside,
+      fenceState,
+    },
+    triggers,
+  };
+}
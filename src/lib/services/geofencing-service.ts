@@ -1,13 +1,26 @@
 /**
  * Geofencing Service
- * Manages geofences and alerts for case locations
+ * Manages geofences and alerts for case locations. Fences, alerts and the
+ * last known position of each device are persisted; active fences are held
+ * in a spatial index so each location update only tests candidate fences.
  */
 
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createServiceClient } from "@/lib/supabase/service";
+import { GeofenceSpatialIndex } from "@/lib/services/geofence-spatial-index";
+import {
+  evaluateDeviceFix,
+  type DeviceFenceState,
+  type DeviceTrackState,
+  type GeofenceTrigger,
+} from "@/lib/services/geofence-triggers";
 import type {
   Geofence,
+  GeofenceAlertType,
   GeofenceGeometry,
   GeofenceAlert,
   GeofenceNotification,
+  GeofenceTriggerConfig,
 } from "@/types/law-enforcement.types";
 
 export interface CreateGeofenceInput {
@@ -18,6 +31,7 @@ export interface CreateGeofenceInput {
   alertType: "entry" | "exit" | "both";
   expiresAt?: string;
   notifications: GeofenceNotification[];
+  triggerConfig?: GeofenceTriggerConfig;
 }
 
 export interface LocationUpdate {
@@ -26,12 +40,151 @@ export interface LocationUpdate {
   lng: number;
   accuracy?: number;
   timestamp: string;
+  source?: string;
 }
 
-class GeofencingService {
-  private geofences: Map<string, Geofence> = new Map();
-  private alerts: Map<string, GeofenceAlert> = new Map();
-  private deviceLocations: Map<string, LocationUpdate> = new Map();
+export interface LocationBatchResult {
+  processed: number;
+  // Fixes no newer than the device's last accepted fix
+  stale: number;
+  devices: number;
+  alerts: GeofenceAlert[];
+}
+
+interface DevicePosition extends DeviceTrackState {
+  deviceId: string;
+}
+
+type PendingAlert = GeofenceTrigger<Geofence> & { update: LocationUpdate };
+
+// Other instances' fence edits become visible within this window
+const INDEX_TTL_MS = 60_000;
+const PAGE_SIZE = 1000;
+const IN_FILTER_CHUNK = 500;
+const WATCHING_STATUSES = ["active", "triggered"];
+
+// =============================================================================
+// Row mapping
+// =============================================================================
+
+// Rows share the shape used by /api/geofences: corridors instead of routes,
+// radius/bufferWidth instead of radiusMeters/bufferMeters, enter/exit triggers
+function geometryFromDb(type: string, geometry: Record<string, unknown>): GeofenceGeometry {
+  const points = (geometry.points as Array<{ lat: number; lng: number }>) || [];
+
+  if (type === "circle") {
+    return {
+      type: "circle",
+      center: geometry.center as { lat: number; lng: number },
+      radiusMeters: Number(geometry.radius ?? geometry.radiusMeters ?? 0),
+    };
+  }
+  if (type === "corridor") {
+    return {
+      type: "route",
+      points,
+      bufferMeters: Number(geometry.bufferWidth ?? geometry.bufferMeters ?? 0),
+    };
+  }
+  return { type: "polygon", points };
+}
+
+function geometryToDb(geometry: GeofenceGeometry): Record<string, unknown> {
+  if (geometry.type === "circle") {
+    return { type: "circle", center: geometry.center, radius: geometry.radiusMeters };
+  }
+  if (geometry.type === "route") {
+    return { type: "corridor", points: geometry.points, bufferWidth: geometry.bufferMeters };
+  }
+  return { type: "polygon", points: geometry.points };
+}
+
+const TRIGGER_TO_DB = { entry: "enter", exit: "exit", both: "both" } as const;
+
+function mapGeofence(row: Record<string, unknown>): Geofence {
+  const geometry = geometryFromDb(row.type as string, (row.geometry as Record<string, unknown>) || {});
+  const trigger = row.trigger as string;
+
+  return {
+    id: row.id as string,
+    caseId: row.case_id as string,
+    name: row.name as string,
+    type: geometry.type,
+    geometry,
+    alertType: trigger === "enter" ? "entry" : trigger === "exit" ? "exit" : "both",
+    isActive: WATCHING_STATUSES.includes(row.status as string),
+    createdBy: row.created_by as string,
+    createdAt: row.created_at as string,
+    expiresAt: (row.expires_at as string) || undefined,
+    notifications: (row.notifications as GeofenceNotification[]) || [],
+    triggerConfig: (row.trigger_config as GeofenceTriggerConfig) || {},
+  };
+}
+
+function mapAlert(row: Record<string, unknown>): GeofenceAlert {
+  const location = row.location as { lat: number; lng: number; accuracy?: number };
+  return {
+    id: row.id as string,
+    geofenceId: row.geofence_id as string,
+    caseId: row.case_id as string,
+    alertType: row.trigger_type === "enter" ? "entry" : (row.trigger_type as GeofenceAlertType),
+    triggeredAt: row.triggered_at as string,
+    location: {
+      lat: location.lat,
+      lng: location.lng,
+      accuracy: (row.accuracy as number) ?? location.accuracy,
+    },
+    deviceId: (row.device_id as string) || undefined,
+    details: (row.details as Record<string, number>) || undefined,
+    acknowledged: Boolean(row.acknowledged),
+    acknowledgedBy: (row.acknowledged_by as string) || undefined,
+    acknowledgedAt: (row.acknowledged_at as string) || undefined,
+  };
+}
+
+function mapPosition(row: Record<string, unknown>): DevicePosition {
+  return {
+    deviceId: row.device_id as string,
+    lat: row.lat as number,
+    lng: row.lng as number,
+    accuracy: (row.accuracy as number) ?? undefined,
+    timestamp: row.recorded_at as string,
+    insideGeofenceIds: (row.inside_geofence_ids as string[]) || [],
+    fenceState: (row.fence_state as Record<string, DeviceFenceState>) || {},
+  };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Every watching fence, shared by all requests in the process. It is loaded
+// with the service role so its contents do not depend on who asked first.
+const sharedIndex = {
+  // Loitering bands reach outside the fence, so boxes are padded by them
+  fences: new GeofenceSpatialIndex<Geofence>((geofence) => geofence.triggerConfig?.loiter?.bandMeters ?? 0),
+  loadedAt: 0,
+  loading: null as Promise<void> | null,
+};
+
+/**
+ * Drop the cached index so the next update reloads fences. Call after
+ * changing geofence rows without going through GeofencingService.
+ */
+export function invalidateGeofenceIndex(): void {
+  sharedIndex.loadedAt = 0;
+}
+
+/**
+ * Geofence reads and writes run as the request's user: construct one per
+ * request with the route's client
+ */
+export class GeofencingService {
+  constructor(private supabase: SupabaseClient) {}
 
   /**
    * Create a new geofence
@@ -40,25 +193,33 @@ class GeofencingService {
     input: CreateGeofenceInput,
     userId: string
   ): Promise<Geofence> {
-    const now = new Date().toISOString();
-    const id = crypto.randomUUID();
-
-    const geofence: Geofence = {
-      id,
-      caseId: input.caseId,
-      name: input.name,
-      type: input.type,
-      geometry: input.geometry,
-      alertType: input.alertType,
-      isActive: true,
-      createdBy: userId,
-      createdAt: now,
-      expiresAt: input.expiresAt,
-      notifications: input.notifications,
-    };
+    const geometry = geometryToDb(input.geometry);
+
+    const { data, error } = await this.supabase
+      .from("geofences")
+      .insert({
+        case_id: input.caseId,
+        name: input.name,
+        type: geometry.type,
+        geometry,
+        trigger: TRIGGER_TO_DB[input.alertType],
+        status: "active",
+        expires_at: input.expiresAt ?? null,
+        notifications: input.notifications,
+        notify_channels: [...new Set(input.notifications.map((n) => n.type))],
+        trigger_config: input.triggerConfig ?? {},
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create geofence: ${error.message}`);
+    }
 
-    this.geofences.set(id, geofence);
-    console.log(`[GeofencingService] Created geofence ${id} for case ${input.caseId}`);
+    const geofence = mapGeofence(data);
+    sharedIndex.fences.upsert(geofence);
+    console.log(`[GeofencingService] Created geofence ${geofence.id} for case ${input.caseId}`);
     return geofence;
   }
 
@@ -66,16 +227,29 @@ class GeofencingService {
    * Get geofence by ID
    */
   async getGeofence(geofenceId: string): Promise<Geofence | null> {
-    return this.geofences.get(geofenceId) || null;
+    const { data } = await this.supabase
+      .from("geofences")
+      .select("*")
+      .eq("id", geofenceId)
+      .maybeSingle();
+
+    return data ? mapGeofence(data) : null;
   }
 
   /**
    * List geofences for a case
    */
   async listGeofences(caseId: string): Promise<Geofence[]> {
-    return Array.from(this.geofences.values()).filter(
-      (g) => g.caseId === caseId
-    );
+    const { data, error } = await this.supabase
+      .from("geofences")
+      .select("*")
+      .eq("case_id", caseId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list geofences: ${error.message}`);
+    }
+    return (data || []).map(mapGeofence);
   }
 
   /**
@@ -83,13 +257,40 @@ class GeofencingService {
    */
   async updateGeofence(
     geofenceId: string,
-    updates: Partial<Pick<Geofence, "name" | "isActive" | "alertType" | "notifications" | "expiresAt">>
+    updates: Partial<
+      Pick<Geofence, "name" | "isActive" | "alertType" | "notifications" | "expiresAt" | "triggerConfig">
+    >
   ): Promise<Geofence | null> {
-    const geofence = this.geofences.get(geofenceId);
-    if (!geofence) return null;
+    const row: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+    if (updates.name !== undefined) row.name = updates.name;
+    if (updates.isActive !== undefined) row.status = updates.isActive ? "active" : "paused";
+    if (updates.alertType !== undefined) row.trigger = TRIGGER_TO_DB[updates.alertType];
+    if (updates.expiresAt !== undefined) row.expires_at = updates.expiresAt;
+    if (updates.triggerConfig !== undefined) row.trigger_config = updates.triggerConfig;
+    if (updates.notifications !== undefined) {
+      row.notifications = updates.notifications;
+      row.notify_channels = [...new Set(updates.notifications.map((n) => n.type))];
+    }
+
+    const { data, error } = await this.supabase
+      .from("geofences")
+      .update(row)
+      .eq("id", geofenceId)
+      .select()
+      .maybeSingle();
 
-    Object.assign(geofence, updates);
-    this.geofences.set(geofenceId, geofence);
+    if (error) {
+      throw new Error(`Failed to update geofence: ${error.message}`);
+    }
+    if (!data) return null;
+
+    const geofence = mapGeofence(data);
+    if (geofence.isActive) {
+      sharedIndex.fences.upsert(geofence);
+    } else {
+      sharedIndex.fences.remove(geofence.id);
+    }
     return geofence;
   }
 
@@ -97,215 +298,212 @@ class GeofencingService {
    * Delete geofence
    */
   async deleteGeofence(geofenceId: string): Promise<boolean> {
-    return this.geofences.delete(geofenceId);
+    const { data, error } = await this.supabase
+      .from("geofences")
+      .delete()
+      .eq("id", geofenceId)
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to delete geofence: ${error.message}`);
+    }
+
+    sharedIndex.fences.remove(geofenceId);
+    return (data?.length || 0) > 0;
   }
 
   /**
    * Process location update and check geofences
    */
   async processLocationUpdate(update: LocationUpdate): Promise<GeofenceAlert[]> {
-    const previousLocation = this.deviceLocations.get(update.deviceId);
-    this.deviceLocations.set(update.deviceId, update);
-
-    const triggeredAlerts: GeofenceAlert[] = [];
-    const activeGeofences = Array.from(this.geofences.values()).filter(
-      (g) => g.isActive && (!g.expiresAt || new Date(g.expiresAt) > new Date())
-    );
-
-    for (const geofence of activeGeofences) {
-      const isInside = this.isPointInGeofence(update, geofence);
-      const wasInside = previousLocation
-        ? this.isPointInGeofence(previousLocation, geofence)
-        : null;
+    const result = await this.processLocationBatch([update]);
+    return result.alerts;
+  }
 
-      let alertType: "entry" | "exit" | null = null;
+  /**
+   * Process a batch of location updates from one or more devices. Updates
+   * are applied in timestamp order; a fix that is not newer than the
+   * device's last accepted fix is counted as stale and ignored, so retried
+   * or out-of-order uploads cannot replay alerts or rewind dwell timers.
+   * Batches for the same device may overlap: the stored position only moves
+   * forward and each fix raises a given alert once.
+   */
+  async processLocationBatch(updates: LocationUpdate[]): Promise<LocationBatchResult> {
+    await this.ensureIndex();
 
-      // Detect entry
-      if (isInside && wasInside === false) {
-        if (geofence.alertType === "entry" || geofence.alertType === "both") {
-          alertType = "entry";
-        }
+    const ordered = [...updates].sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+    const deviceIds = [...new Set(ordered.map((u) => u.deviceId))];
+    const positions = await this.loadDevicePositions(deviceIds);
+    const changed = new Set<string>();
+
+    const pending: PendingAlert[] = [];
+    let stale = 0;
+
+    for (const update of ordered) {
+      const previous = positions.get(update.deviceId) ?? null;
+      if (previous && new Date(update.timestamp) <= new Date(previous.timestamp)) {
+        stale++;
+        continue;
       }
 
-      // Detect exit
-      if (!isInside && wasInside === true) {
-        if (geofence.alertType === "exit" || geofence.alertType === "both") {
-          alertType = "exit";
-        }
+      const { state, triggers } = evaluateDeviceFix(sharedIndex.fences, previous, update);
+      positions.set(update.deviceId, { ...state, deviceId: update.deviceId });
+      changed.add(update.deviceId);
+
+      for (const trigger of triggers) {
+        pending.push({ ...trigger, update });
       }
+    }
 
-      if (alertType) {
-        const alert = await this.createAlert(geofence, update, alertType);
-        triggeredAlerts.push(alert);
+    // Alerts first: a failed position save means a retry may repeat an
+    // alert, which beats losing one
+    const alerts = await this.createAlerts(pending);
+    await this.saveDevicePositions([...changed].map((id) => positions.get(id)!));
 
-        // Send notifications
-        await this.sendNotifications(geofence, alert);
-      }
+    for (const alert of alerts) {
+      const geofence = sharedIndex.fences.get(alert.geofenceId);
+      if (!geofence) continue;
+      console.log(
+        `[GeofencingService] Alert triggered: ${alert.alertType} for geofence ${geofence.name}`
+      );
+      await this.sendNotifications(geofence, alert);
     }
 
-    return triggeredAlerts;
+    return {
+      processed: ordered.length - stale,
+      stale,
+      devices: deviceIds.length,
+      alerts,
+    };
   }
 
   /**
-   * Check if a point is inside a geofence
+   * Load watching fences into the spatial index, at most once per TTL
    */
-  private isPointInGeofence(
-    point: { lat: number; lng: number },
-    geofence: Geofence
-  ): boolean {
-    const geometry = geofence.geometry;
-
-    if (geometry.type === "circle") {
-      const distance = this.haversineDistance(point, geometry.center);
-      return distance * 1000 <= geometry.radiusMeters;
-    }
-
-    if (geometry.type === "polygon") {
-      return this.isPointInPolygon(point, geometry.points);
-    }
+  private async ensureIndex(): Promise<void> {
+    if (Date.now() - sharedIndex.loadedAt < INDEX_TTL_MS) return;
 
-    if (geometry.type === "route") {
-      return this.isPointNearRoute(
-        point,
-        geometry.points,
-        geometry.bufferMeters
-      );
+    if (!sharedIndex.loading) {
+      sharedIndex.loading = this.loadIndex().finally(() => {
+        sharedIndex.loading = null;
+      });
     }
-
-    return false;
+    await sharedIndex.loading;
   }
 
-  /**
-   * Check if point is inside polygon using ray casting
-   */
-  private isPointInPolygon(
-    point: { lat: number; lng: number },
-    polygon: Array<{ lat: number; lng: number }>
-  ): boolean {
-    let inside = false;
-    const n = polygon.length;
-
-    for (let i = 0, j = n - 1; i < n; j = i++) {
-      const xi = polygon[i].lng;
-      const yi = polygon[i].lat;
-      const xj = polygon[j].lng;
-      const yj = polygon[j].lat;
-
-      if (
-        yi > point.lat !== yj > point.lat &&
-        point.lng < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi
-      ) {
-        inside = !inside;
+  private async loadIndex(): Promise<void> {
+    const supabase = createServiceClient();
+    const now = new Date().toISOString();
+    const geofences: Geofence[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("geofences")
+        .select("*")
+        .in("status", WATCHING_STATUSES)
+        .or(`expires_at.is.null,expires_at.gt.${now}`)
+        .order("id")
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load geofences: ${error.message}`);
       }
+      geofences.push(...(data || []).map(mapGeofence));
+      if (!data || data.length < PAGE_SIZE) break;
     }
 
-    return inside;
+    sharedIndex.fences.load(geofences);
+    sharedIndex.loadedAt = Date.now();
   }
 
-  /**
-   * Check if point is near a route
-   */
-  private isPointNearRoute(
-    point: { lat: number; lng: number },
-    route: Array<{ lat: number; lng: number }>,
-    bufferMeters: number
-  ): boolean {
-    for (let i = 0; i < route.length - 1; i++) {
-      const distance = this.pointToLineDistance(point, route[i], route[i + 1]);
-      if (distance * 1000 <= bufferMeters) {
-        return true;
+  private async loadDevicePositions(deviceIds: string[]): Promise<Map<string, DevicePosition>> {
+    const positions = new Map<string, DevicePosition>();
+
+    for (const ids of chunk(deviceIds, IN_FILTER_CHUNK)) {
+      const { data, error } = await this.supabase
+        .from("geofence_device_positions")
+        .select("*")
+        .in("device_id", ids);
+
+      if (error) {
+        throw new Error(`Failed to load device positions: ${error.message}`);
+      }
+      for (const row of data || []) {
+        positions.set(row.device_id, mapPosition(row));
       }
     }
-    return false;
+    return positions;
   }
 
   /**
-   * Calculate distance from point to line segment
+   * Save positions through save_geofence_device_positions, which keeps a
+   * newer fix written by an overlapping batch
    */
-  private pointToLineDistance(
-    point: { lat: number; lng: number },
-    lineStart: { lat: number; lng: number },
-    lineEnd: { lat: number; lng: number }
-  ): number {
-    // Simplified perpendicular distance calculation
-    const A = point.lat - lineStart.lat;
-    const B = point.lng - lineStart.lng;
-    const C = lineEnd.lat - lineStart.lat;
-    const D = lineEnd.lng - lineStart.lng;
-
-    const dot = A * C + B * D;
-    const lenSq = C * C + D * D;
-    let param = -1;
-
-    if (lenSq !== 0) {
-      param = dot / lenSq;
+  private async saveDevicePositions(positions: DevicePosition[]): Promise<void> {
+    if (positions.length === 0) return;
+    let superseded = 0;
+
+    for (const batch of chunk(positions, IN_FILTER_CHUNK)) {
+      const { data, error } = await this.supabase.rpc("save_geofence_device_positions", {
+        p_positions: batch.map((p) => ({
+          device_id: p.deviceId,
+          lat: p.lat,
+          lng: p.lng,
+          accuracy: p.accuracy ?? null,
+          recorded_at: p.timestamp,
+          inside_geofence_ids: p.insideGeofenceIds,
+          fence_state: p.fenceState,
+        })),
+      });
+      if (error) {
+        throw new Error(`Failed to save device positions: ${error.message}`);
+      }
+      superseded += batch.length - ((data as string[] | null) || []).length;
     }
 
-    let xx: number, yy: number;
-
-    if (param < 0) {
-      xx = lineStart.lat;
-      yy = lineStart.lng;
-    } else if (param > 1) {
-      xx = lineEnd.lat;
-      yy = lineEnd.lng;
-    } else {
-      xx = lineStart.lat + param * C;
-      yy = lineStart.lng + param * D;
+    if (superseded > 0) {
+      console.log(`[GeofencingService] Kept newer positions for ${superseded} device(s) from an overlapping batch`);
     }
-
-    return this.haversineDistance(point, { lat: xx, lng: yy });
-  }
-
-  /**
-   * Calculate distance between two points in km
-   */
-  private haversineDistance(
-    a: { lat: number; lng: number },
-    b: { lat: number; lng: number }
-  ): number {
-    const R = 6371;
-    const dLat = ((b.lat - a.lat) * Math.PI) / 180;
-    const dLon = ((b.lng - a.lng) * Math.PI) / 180;
-    const lat1 = (a.lat * Math.PI) / 180;
-    const lat2 = (b.lat * Math.PI) / 180;
-
-    const x =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.sin(dLon / 2) * Math.sin(dLon / 2) * Math.cos(lat1) * Math.cos(lat2);
-    const c = 2 * Math.atan2(Math.sqrt(x), Math.sqrt(1 - x));
-
-    return R * c;
   }
 
   /**
-   * Create an alert
+   * Create alerts. An alert another batch already raised for the same fix
+   * is skipped, so only new alerts come back to be notified.
    */
-  private async createAlert(
-    geofence: Geofence,
-    location: LocationUpdate,
-    alertType: "entry" | "exit"
-  ): Promise<GeofenceAlert> {
-    const alert: GeofenceAlert = {
-      id: crypto.randomUUID(),
-      geofenceId: geofence.id,
-      caseId: geofence.caseId,
-      alertType,
-      triggeredAt: new Date().toISOString(),
-      location: {
-        lat: location.lat,
-        lng: location.lng,
-        accuracy: location.accuracy,
-      },
-      deviceId: location.deviceId,
-      acknowledged: false,
-    };
-
-    this.alerts.set(alert.id, alert);
-    console.log(
-      `[GeofencingService] Alert triggered: ${alertType} for geofence ${geofence.name}`
-    );
-    return alert;
+  private async createAlerts(
+    pending: PendingAlert[]
+  ): Promise<GeofenceAlert[]> {
+    if (pending.length === 0) return [];
+    const alerts: GeofenceAlert[] = [];
+
+    for (const batch of chunk(pending, IN_FILTER_CHUNK)) {
+      const { data, error } = await this.supabase
+        .from("geofence_alerts")
+        .upsert(
+          batch.map(({ geofence, update, type, details }) => ({
+            geofence_id: geofence.id,
+            case_id: geofence.caseId,
+            trigger_type: type === "entry" ? "enter" : type,
+            details: details ?? null,
+            triggered_at: update.timestamp,
+            location: { lat: update.lat, lng: update.lng },
+            accuracy: update.accuracy ?? null,
+            source: update.source || "Location Update",
+            device_id: update.deviceId,
+            acknowledged: false,
+          })),
+          { onConflict: "geofence_id,device_id,trigger_type,triggered_at", ignoreDuplicates: true }
+        )
+        .select();
+
+      if (error) {
+        throw new Error(`Failed to create geofence alerts: ${error.message}`);
+      }
+      alerts.push(...(data || []).map(mapAlert));
+    }
+    return alerts;
   }
 
   /**
@@ -319,7 +517,7 @@ class GeofencingService {
       if (!notification.enabled) continue;
 
       console.log(
-        `[GeofencingService] Sending ${notification.type} notification to ${notification.target}`
+        `[GeofencingService] Sending ${notification.type} notification to ${notification.target} for alert ${alert.id}`
       );
 
       // Would integrate with notification services
@@ -347,33 +545,41 @@ class GeofencingService {
     caseId: string,
     acknowledged?: boolean
   ): Promise<GeofenceAlert[]> {
-    let alerts = Array.from(this.alerts.values()).filter(
-      (a) => a.caseId === caseId
-    );
+    let query = this.supabase
+      .from("geofence_alerts")
+      .select("*")
+      .eq("case_id", caseId)
+      .order("triggered_at", { ascending: false });
 
     if (acknowledged !== undefined) {
-      alerts = alerts.filter((a) => a.acknowledged === acknowledged);
+      query = query.eq("acknowledged", acknowledged);
     }
 
-    return alerts.sort(
-      (a, b) =>
-        new Date(b.triggeredAt).getTime() - new Date(a.triggeredAt).getTime()
-    );
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to fetch geofence alerts: ${error.message}`);
+    }
+    return (data || []).map(mapAlert);
   }
 
   /**
    * Acknowledge an alert
    */
   async acknowledgeAlert(alertId: string, userId: string): Promise<boolean> {
-    const alert = this.alerts.get(alertId);
-    if (!alert) return false;
-
-    alert.acknowledged = true;
-    alert.acknowledgedBy = userId;
-    alert.acknowledgedAt = new Date().toISOString();
-
-    this.alerts.set(alertId, alert);
-    return true;
+    const { data, error } = await this.supabase
+      .from("geofence_alerts")
+      .update({
+        acknowledged: true,
+        acknowledged_by: userId,
+        acknowledged_at: new Date().toISOString(),
+      })
+      .eq("id", alertId)
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to acknowledge alert: ${error.message}`);
+    }
+    return (data?.length || 0) > 0;
   }
 
   /**
@@ -421,5 +627,3 @@ class GeofencingService {
     );
   }
 }
-
-export const geofencingService = new GeofencingService();
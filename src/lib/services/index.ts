@@ -7,3 +7,5 @@ export * from "./weather-service";
 // export * from "./tip-verification-engine";
 // Note: notifications.ts is server-only and should be imported directly in API routes
 // export * from "./notifications";
+// Note: priority-profile-service.ts is server-only and should be imported directly in API routes
+// export * from "./priority-profile-service";
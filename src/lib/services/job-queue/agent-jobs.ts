@@ -0,0 +1,87 @@
+/**
+ * Agent Jobs
+ * Scheduled agent runs go through the job queue so a run that fails is
+ * retried and, if it keeps failing, dead-lettered instead of lost
+ */
+
+import {
+  agentRegistry,
+  createHospitalRegistryAgent,
+  createNewsCrawlerAgent,
+  createPriorityEscalationAgent,
+  createPublicRecordsCrawlerAgent,
+  createSocialMediaAgent,
+  type BaseAgent,
+} from '@/lib/agents';
+import type { Job } from '@/types';
+import type { AgentResult } from '@/types/agent.types';
+import { jobQueue } from './job-queue';
+import { scheduleSlot } from './job-types';
+
+// Keyed by the cron route that schedules each agent
+const AGENT_FACTORIES = {
+  'social-media': createSocialMediaAgent,
+  'news-crawler': createNewsCrawlerAgent,
+  'public-records': createPublicRecordsCrawlerAgent,
+  'hospital-registry': createHospitalRegistryAgent,
+  'priority-escalation': createPriorityEscalationAgent,
+} satisfies Record<string, (id: string) => BaseAgent>;
+
+export type AgentJobName = keyof typeof AGENT_FACTORIES;
+
+/**
+ * Queue one run of an agent per schedule slot. A cron call that repeats
+ * within the slot gets the job already queued.
+ */
+export async function queueAgentRun(agent: AgentJobName, intervalMinutes: number, now: Date = new Date()) {
+  return jobQueue.enqueue(
+    'agent.run',
+    { agent },
+    { idempotencyKey: `agent.run:${agent}:${scheduleSlot(now, intervalMinutes)}` }
+  );
+}
+
+/**
+ * Run the agent named in an agent.run job. Throws when the run fails so the
+ * job is retried.
+ */
+export async function runAgentJob(job: Job): Promise<Record<string, unknown>> {
+  const name = job.payload.agent as AgentJobName;
+  const factory = AGENT_FACTORIES[name];
+
+  if (!factory) {
+    throw new Error(`Unknown agent: ${String(job.payload.agent)}`);
+  }
+
+  const agentId = `cron-${name}`;
+  let agent = agentRegistry.get(agentId);
+
+  if (!agent) {
+    agent = factory(agentId);
+    agentRegistry.register(agent);
+  }
+
+  const result: AgentResult = await agent.run();
+
+  console.log(`[JobQueue] ${name} agent completed:`, {
+    runId: result.runId,
+    duration: result.duration,
+    itemsProcessed: result.itemsProcessed,
+    leadsGenerated: result.leadsGenerated,
+    errors: result.errors.length,
+  });
+
+  if (!result.success) {
+    throw new Error(result.errors[0]?.message || `${name} agent run failed`);
+  }
+
+  return {
+    runId: result.runId,
+    duration: result.duration,
+    itemsProcessed: result.itemsProcessed,
+    leadsGenerated: result.leadsGenerated,
+    alertsTriggered: result.alertsTriggered,
+    errors: result.errors.length,
+    metrics: result.metrics,
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Job Handlers
+ * What the worker runs for each job type. Imported only by the worker
+ * route: the services here enqueue jobs themselves, so the queue must not
+ * import them back.
+ */
+
+import { AmberDistributionService } from '@/lib/services/amber-distribution';
+import { sendNotificationDigest } from '@/lib/services/notifications';
+import { TipClusterService } from '@/lib/services/tip-cluster-service';
+import { createServiceClient } from '@/lib/supabase/service';
+import type { AmberAlertChange, AmberFollowUpKind } from '@/types';
+import type { JobHandlers } from './job-queue';
+import { runAgentJob } from './agent-jobs';
+
+// Cron requests carry no session, so the worker reads and writes as the
+// service role rather than anon
+const amberDistributionService = new AmberDistributionService(createServiceClient);
+
+export const jobHandlers: JobHandlers = {
+  'amber.distribution': async (job) => {
+    return amberDistributionService.processDistributionById(job.payload.distribution_id as string);
+  },
+
+  'amber.follow_ups': async (job) => {
+    const result = await amberDistributionService.sendFollowUps(
+      job.payload.amber_alert_id as string,
+      job.payload.kind as AmberFollowUpKind,
+      {
+        changes: (job.payload.changes as AmberAlertChange[] | undefined) ?? [],
+        actorId: (job.payload.actor_id as string | null) ?? undefined,
+        key: (job.payload.follow_up_key as string | undefined) ?? job.id,
+        distributionId: job.payload.distribution_id as string | undefined,
+      }
+    );
+    return { ...result };
+  },
+
+  'notification.digest': async (job) => {
+    const result = await sendNotificationDigest(job.payload.user_id as string, createServiceClient());
+    return { ...result };
+  },
+
+  'tips.cluster_backfill': async (job) => {
+    return new TipClusterService(createServiceClient()).backfill(job.payload.case_id as string);
+  },
+
+  'agent.run': runAgentJob,
+};
@@ -0,0 +1,13 @@
+/**
+ * Job Queue
+ */
+
+export * from './job-types';
+export * from './job-store';
+export * from './memory-job-store';
+export * from './supabase-job-store';
+export * from './job-queue';
+export * from './agent-jobs';
+// Note: handlers.ts imports the services that enqueue jobs and should be
+// imported directly by the worker route
+// export * from './handlers';
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Job } from '@/types';
+import { JobQueue } from './job-queue';
+import { MemoryJobStore } from './memory-job-store';
+import { JobQueueError, afterFailure, retryDelaySeconds, scheduleSlot } from './job-types';
+
+let now: Date;
+let store: MemoryJobStore;
+let queue: JobQueue;
+
+const clock = () => now;
+const advance = (seconds: number) => {
+  now = new Date(now.getTime() + seconds * 1000);
+};
+
+beforeEach(() => {
+  now = new Date('2026-01-20T15:00:00.000Z');
+  store = new MemoryJobStore(clock);
+  queue = new JobQueue(store, clock);
+});
+
+describe('retry rules', () => {
+  it('doubles the wait after each failed attempt up to the cap', () => {
+    expect(retryDelaySeconds(1, 60)).toBe(60);
+    expect(retryDelaySeconds(2, 60)).toBe(120);
+    expect(retryDelaySeconds(3, 60)).toBe(240);
+    expect(retryDelaySeconds(10, 60)).toBe(3600);
+  });
+
+  it('dead-letters once every attempt is used', () => {
+    const job = { job_type: 'amber.distribution' as const, attempts: 2, max_attempts: 4, errors: [] };
+
+    const retry = afterFailure(job, 'SMS gateway timeout', now);
+    expect(retry).toEqual({
+      action: 'retry',
+      runAt: new Date('2026-01-20T15:02:00.000Z'),
+      errors: [{ attempt: 2, message: 'SMS gateway timeout', at: now.toISOString() }],
+    });
+
+    expect(afterFailure({ ...job, attempts: 4 }, 'SMS gateway timeout', now).action).toBe('dead_letter');
+  });
+
+  it('gives recurring work one idempotency slot per interval', () => {
+    expect(scheduleSlot(new Date('2026-01-20T15:29:59.000Z'), 30)).toBe('2026-01-20T15:00:00.000Z');
+    expect(scheduleSlot(new Date('2026-01-20T15:30:00.000Z'), 30)).toBe('2026-01-20T15:30:00.000Z');
+  });
+});
+
+describe('JobQueue', () => {
+  it('runs higher priority jobs first', async () => {
+    await queue.enqueue('agent.run', { agent: 'news-crawler' });
+    await queue.enqueue('notification.digest', { user_id: 'u1' });
+    await queue.enqueue('amber.distribution', { distribution_id: 'd1' });
+
+    const order: string[] = [];
+    const record = async (job: Job) => {
+      order.push(job.job_type);
+    };
+
+    const result = await queue.work({
+      workerId: 'w1',
+      handlers: { 'agent.run': record, 'notification.digest': record, 'amber.distribution': record },
+    });
+
+    expect(order).toEqual(['amber.distribution', 'notification.digest', 'agent.run']);
+    expect(result).toEqual({ claimed: 3, completed: 3, retried: 0, dead_lettered: 0 });
+  });
+
+  it('returns the existing job for a repeated idempotency key', async () => {
+    const first = await queue.enqueue('notification.digest', { user_id: 'u1' }, { idempotencyKey: 'digest:u1' });
+    const second = await queue.enqueue('notification.digest', { user_id: 'u1' }, { idempotencyKey: 'digest:u1' });
+
+    expect(first.created).toBe(true);
+    expect(second).toEqual({ job: first.job, created: false });
+  });
+
+  it('leaves jobs alone until they are due', async () => {
+    await queue.enqueue('notification.digest', { user_id: 'u1' }, { runAt: new Date('2026-01-20T16:00:00.000Z') });
+
+    expect(await store.claim('w1', 10)).toEqual([]);
+    advance(3600);
+    expect(await store.claim('w1', 10)).toHaveLength(1);
+  });
+
+  it('lets another worker take a job whose lease expired', async () => {
+    await queue.enqueue('amber.distribution', { distribution_id: 'd1' }, { visibilityTimeoutSeconds: 120 });
+
+    const [held] = await store.claim('w1', 1);
+    advance(60);
+    expect(await store.claim('w2', 1)).toEqual([]);
+
+    advance(61);
+    const [taken] = await store.claim('w2', 1);
+    expect(taken).toMatchObject({ id: held.id, locked_by: 'w2', attempts: 2 });
+
+    // The first worker finishing late does not overwrite the second
+    expect(await store.complete(held.id, 'w1', null)).toBe(false);
+    expect(await store.extendLease(held.id, 'w1', 120)).toBe(false);
+  });
+
+  it('retries a failing job with backoff, then dead-letters it', async () => {
+    await queue.enqueue('notification.digest', { user_id: 'u1' }, { maxAttempts: 2 });
+    const failing = async () => {
+      throw new Error('SMTP unavailable');
+    };
+
+    expect(await queue.work({ workerId: 'w1', handlers: { 'notification.digest': failing } })).toEqual({
+      claimed: 1,
+      completed: 0,
+      retried: 1,
+      dead_lettered: 0,
+    });
+
+    // Not due again until the backoff passes
+    expect((await queue.work({ workerId: 'w1', handlers: { 'notification.digest': failing } })).claimed).toBe(0);
+    advance(300);
+
+    expect((await queue.work({ workerId: 'w1', handlers: { 'notification.digest': failing } })).dead_lettered).toBe(1);
+
+    const [deadLetter] = await queue.listDeadLetters();
+    expect(deadLetter).toMatchObject({ job_type: 'notification.digest', payload: { user_id: 'u1' }, attempts: 2 });
+    expect(deadLetter.errors.map((e) => e.message)).toEqual(['SMTP unavailable', 'SMTP unavailable']);
+  });
+
+  it('dead-letters a job whose worker died on the final attempt', async () => {
+    await queue.enqueue('agent.run', { agent: 'news-crawler' }, { maxAttempts: 1, visibilityTimeoutSeconds: 60 });
+    await store.claim('crashed', 1);
+    advance(61);
+
+    let ran = false;
+    const result = await queue.work({
+      workerId: 'w2',
+      handlers: {
+        'agent.run': async () => {
+          ran = true;
+        },
+      },
+    });
+
+    expect(ran).toBe(false);
+    expect(result.dead_lettered).toBe(1);
+  });
+
+  it('replays a dead-lettered job once with fresh attempts', async () => {
+    await queue.enqueue('amber.follow_ups', { amber_alert_id: 'a1', kind: 'cancel' }, { maxAttempts: 1 });
+    await queue.work({ workerId: 'w1', handlers: {} });
+
+    const [deadLetter] = await queue.listDeadLetters();
+    expect(deadLetter.errors[0].message).toBe('No handler registered for amber.follow_ups jobs');
+
+    const replayed = await queue.replayDeadLetter(deadLetter.id, 'admin-1');
+    expect(replayed).toMatchObject({
+      job_type: 'amber.follow_ups',
+      payload: { amber_alert_id: 'a1', kind: 'cancel' },
+      status: 'queued',
+      attempts: 0,
+      replay_of: deadLetter.id,
+    });
+
+    expect(await queue.listDeadLetters()).toEqual([]);
+    expect((await queue.listDeadLetters({ includeReplayed: true }))[0]).toMatchObject({
+      replayed_by: 'admin-1',
+      replay_job_id: replayed.id,
+    });
+
+    await expect(queue.replayDeadLetter(deadLetter.id, 'admin-1')).rejects.toThrow(JobQueueError);
+    await expect(queue.replayDeadLetter('missing', 'admin-1')).rejects.toMatchObject({ code: 'dead_letter_not_found' });
+  });
+
+  it('stops claiming when the budget is spent', async () => {
+    await queue.enqueue('agent.run', { agent: 'news-crawler' });
+    await queue.enqueue('agent.run', { agent: 'public-records' });
+
+    const slow = async () => {
+      advance(40);
+    };
+
+    const result = await queue.work({ workerId: 'w1', handlers: { 'agent.run': slow }, budgetMs: 30_000 });
+    expect(result.claimed).toBe(1);
+    expect((await queue.stats())[0]).toMatchObject({ queue: 'agents', queued: 1, completed: 1 });
+  });
+});
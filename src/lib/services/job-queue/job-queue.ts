@@ -0,0 +1,173 @@
+/**
+ * Job Queue Service
+ * Queues background work and runs it on leased workers. A worker keeps its
+ * lease alive while a job runs; if the worker dies the lease runs out and
+ * another worker picks the job up. Failed jobs retry with backoff, then go
+ * to the dead-letter table until an admin replays them.
+ */
+
+import type {
+  EnqueueJobOptions,
+  EnqueueJobResult,
+  Job,
+  JobDeadLetter,
+  JobQueueStats,
+  JobType,
+  JobWorkerResult,
+} from '@/types';
+import type { DeadLetterListFilter, JobListFilter, JobStore } from './job-store';
+import { MemoryJobStore } from './memory-job-store';
+import { SupabaseJobStore } from './supabase-job-store';
+import { JobQueueError, afterFailure, isExhausted, resolveJobOptions } from './job-types';
+
+export type JobHandler = (job: Job) => Promise<Record<string, unknown> | void>;
+
+export type JobHandlers = Partial<Record<JobType, JobHandler>>;
+
+export interface WorkOptions {
+  workerId: string;
+  handlers: JobHandlers;
+  // Only claim from these queues; all queues when omitted
+  queues?: string[];
+  // Stop claiming once this much time has passed
+  budgetMs?: number;
+  maxJobs?: number;
+}
+
+type JobOutcome = 'completed' | 'retried' | 'dead_lettered' | 'lost';
+
+export class JobQueue {
+  constructor(
+    private store: JobStore,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Queue a job. With an idempotency key, a job already queued under the
+   * same key is returned instead of a second one.
+   */
+  async enqueue(
+    type: JobType,
+    payload: Record<string, unknown>,
+    options: EnqueueJobOptions = {}
+  ): Promise<EnqueueJobResult> {
+    return this.store.enqueue(type, payload, resolveJobOptions(type, options, this.now()));
+  }
+
+  /**
+   * Claim and run jobs one at a time until none are due, the budget is
+   * spent or maxJobs have run
+   */
+  async work(options: WorkOptions): Promise<JobWorkerResult> {
+    const { workerId, handlers, queues, budgetMs = 50_000, maxJobs = Infinity } = options;
+    const deadline = this.now().getTime() + budgetMs;
+    const result: JobWorkerResult = { claimed: 0, completed: 0, retried: 0, dead_lettered: 0 };
+
+    while (result.claimed < maxJobs && this.now().getTime() < deadline) {
+      const [job] = await this.store.claim(workerId, 1, queues);
+      if (!job) break;
+
+      result.claimed++;
+      const outcome = await this.runJob(job, workerId, handlers);
+      if (outcome !== 'lost') {
+        result[outcome]++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Queue a dead-lettered job again with fresh attempts
+   */
+  async replayDeadLetter(deadLetterId: string, actorId: string | null): Promise<Job> {
+    const deadLetter = await this.store.getDeadLetter(deadLetterId);
+
+    if (!deadLetter) {
+      throw new JobQueueError('dead_letter_not_found', 'Dead-lettered job not found');
+    }
+    if (deadLetter.replayed_at) {
+      throw new JobQueueError('already_replayed', 'This job has already been replayed');
+    }
+
+    const { job } = await this.store.enqueue(
+      deadLetter.job_type,
+      deadLetter.payload,
+      resolveJobOptions(
+        deadLetter.job_type,
+        { queue: deadLetter.queue, priority: deadLetter.priority, idempotencyKey: `replay:${deadLetter.id}` },
+        this.now()
+      ),
+      deadLetter.id
+    );
+
+    await this.store.markReplayed(deadLetter.id, actorId, job.id);
+    return job;
+  }
+
+  async listJobs(filter?: JobListFilter): Promise<Job[]> {
+    return this.store.listJobs(filter);
+  }
+
+  async listDeadLetters(filter?: DeadLetterListFilter): Promise<JobDeadLetter[]> {
+    return this.store.listDeadLetters(filter);
+  }
+
+  async stats(): Promise<JobQueueStats[]> {
+    return this.store.stats();
+  }
+
+  private async runJob(job: Job, workerId: string, handlers: JobHandlers): Promise<JobOutcome> {
+    // The last worker died holding the lease on the final attempt
+    if (isExhausted(job)) {
+      return this.fail(job, workerId, 'Lease expired before the final attempt finished');
+    }
+
+    const handler = handlers[job.job_type];
+    if (!handler) {
+      return this.fail(job, workerId, `No handler registered for ${job.job_type} jobs`);
+    }
+
+    // Keep the lease while the handler runs
+    const heartbeat = setInterval(() => {
+      this.store.extendLease(job.id, workerId, job.visibility_timeout_seconds).catch((err) => {
+        console.error(`[JobQueue] Failed to extend lease for job ${job.id}:`, err);
+      });
+    }, (job.visibility_timeout_seconds * 1000) / 2);
+
+    try {
+      const output = await handler(job);
+      clearInterval(heartbeat);
+
+      const completed = await this.store.complete(job.id, workerId, output ?? null);
+      return completed ? 'completed' : 'lost';
+    } catch (err) {
+      clearInterval(heartbeat);
+      console.error(`[JobQueue] ${job.job_type} job ${job.id} failed (attempt ${job.attempts}):`, err);
+
+      return this.fail(job, workerId, err instanceof Error ? err.message : 'Unknown error');
+    }
+  }
+
+  private async fail(job: Job, workerId: string, message: string): Promise<JobOutcome> {
+    const outcome = afterFailure(job, message, this.now());
+
+    if (outcome.action === 'retry') {
+      const retried = await this.store.retry(job.id, workerId, outcome.runAt, outcome.errors);
+      return retried ? 'retried' : 'lost';
+    }
+
+    const deadLetterId = await this.store.deadLetter(job.id, workerId, outcome.errors);
+    return deadLetterId ? 'dead_lettered' : 'lost';
+  }
+}
+
+/**
+ * Postgres in every deployed environment. JOB_QUEUE_STORE=memory runs the
+ * queue inside the dev server with no database.
+ */
+function createJobStore(): JobStore {
+  return process.env.JOB_QUEUE_STORE === 'memory' ? new MemoryJobStore() : new SupabaseJobStore();
+}
+
+export const jobQueue = new JobQueue(createJobStore());
@@ -0,0 +1,56 @@
+/**
+ * Job Store
+ * Storage the job queue runs on: Postgres through Supabase in production,
+ * or memory for local runs and tests
+ */
+
+import type {
+  EnqueueJobResult,
+  Job,
+  JobAttemptError,
+  JobDeadLetter,
+  JobQueueStats,
+  JobStatus,
+  JobType,
+} from '@/types';
+import type { ResolvedJobOptions } from './job-types';
+
+export interface JobListFilter {
+  queue?: string;
+  status?: JobStatus;
+  limit?: number;
+}
+
+export interface DeadLetterListFilter {
+  includeReplayed?: boolean;
+  limit?: number;
+}
+
+export interface JobStore {
+  /**
+   * Insert a job, or return the existing one when its idempotency key is taken
+   */
+  enqueue(
+    type: JobType,
+    payload: Record<string, unknown>,
+    options: ResolvedJobOptions,
+    replayOf?: string
+  ): Promise<EnqueueJobResult>;
+  /**
+   * Lease up to `limit` due jobs, highest priority first. Jobs whose lease
+   * expired are claimable again; each claim counts as an attempt.
+   */
+  claim(workerId: string, limit: number, queues?: string[]): Promise<Job[]>;
+  // False once the job is no longer held by this worker
+  extendLease(jobId: string, workerId: string, seconds: number): Promise<boolean>;
+  complete(jobId: string, workerId: string, result: Record<string, unknown> | null): Promise<boolean>;
+  retry(jobId: string, workerId: string, runAt: Date, errors: JobAttemptError[]): Promise<boolean>;
+  // Returns the dead-letter id, or null if the worker lost the job
+  deadLetter(jobId: string, workerId: string, errors: JobAttemptError[]): Promise<string | null>;
+
+  listJobs(filter?: JobListFilter): Promise<Job[]>;
+  listDeadLetters(filter?: DeadLetterListFilter): Promise<JobDeadLetter[]>;
+  getDeadLetter(id: string): Promise<JobDeadLetter | null>;
+  markReplayed(id: string, actorId: string | null, replayJobId: string): Promise<void>;
+  stats(): Promise<JobQueueStats[]>;
+}
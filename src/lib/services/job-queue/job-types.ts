@@ -0,0 +1,149 @@
+/**
+ * Job Queue Rules
+ * Defaults for each job type and the retry rules the worker applies when a
+ * job fails. Kept free of storage so they can be tested directly.
+ */
+
+import type { EnqueueJobOptions, Job, JobAttemptError, JobType } from '@/types';
+
+export interface JobTypeDefaults {
+  queue: string;
+  // Lower runs first
+  priority: number;
+  maxAttempts: number;
+  visibilityTimeoutSeconds: number;
+  // First retry waits this long, doubling after each failed attempt
+  backoffSeconds: number;
+}
+
+export const JOB_TYPES: Record<JobType, JobTypeDefaults> = {
+  // A missing child alert goes ahead of everything else
+  'amber.distribution': {
+    queue: 'amber',
+    priority: 0,
+    maxAttempts: 4,
+    visibilityTimeoutSeconds: 120,
+    backoffSeconds: 60,
+  },
+  'amber.follow_ups': {
+    queue: 'amber',
+    priority: 0,
+    maxAttempts: 3,
+    visibilityTimeoutSeconds: 300,
+    backoffSeconds: 60,
+  },
+  'notification.digest': {
+    queue: 'notifications',
+    priority: 50,
+    maxAttempts: 3,
+    visibilityTimeoutSeconds: 120,
+    backoffSeconds: 300,
+  },
+  'tips.cluster_backfill': {
+    queue: 'tips',
+    priority: 60,
+    maxAttempts: 3,
+    visibilityTimeoutSeconds: 600,
+    backoffSeconds: 120,
+  },
+  'agent.run': {
+    queue: 'agents',
+    priority: 80,
+    maxAttempts: 2,
+    visibilityTimeoutSeconds: 600,
+    backoffSeconds: 300,
+  },
+};
+
+// Longest wait between attempts, however many have failed
+export const MAX_RETRY_DELAY_SECONDS = 60 * 60;
+
+export class JobQueueError extends Error {
+  readonly code: JobQueueErrorCode;
+
+  constructor(code: JobQueueErrorCode, message: string) {
+    super(message);
+    this.name = 'JobQueueError';
+    this.code = code;
+  }
+}
+
+export type JobQueueErrorCode = 'dead_letter_not_found' | 'already_replayed' | 'enqueue_failed';
+
+// HTTP status the API routes return for each queue error
+export const JOB_QUEUE_ERROR_STATUS: Record<JobQueueErrorCode, number> = {
+  dead_letter_not_found: 404,
+  already_replayed: 409,
+  enqueue_failed: 500,
+};
+
+export type ResolvedJobOptions = Required<Omit<EnqueueJobOptions, 'idempotencyKey'>> & {
+  idempotencyKey: string | null;
+};
+
+/**
+ * Fill in the type's defaults for anything the caller left out
+ */
+export function resolveJobOptions(type: JobType, options: EnqueueJobOptions = {}, now: Date = new Date()): ResolvedJobOptions {
+  const defaults = JOB_TYPES[type];
+
+  return {
+    queue: options.queue ?? defaults.queue,
+    priority: options.priority ?? defaults.priority,
+    runAt: options.runAt ?? now,
+    maxAttempts: Math.max(1, options.maxAttempts ?? defaults.maxAttempts),
+    visibilityTimeoutSeconds: options.visibilityTimeoutSeconds ?? defaults.visibilityTimeoutSeconds,
+    idempotencyKey: options.idempotencyKey ?? null,
+  };
+}
+
+/**
+ * Wait before the next attempt once `attempt` attempts have failed
+ */
+export function retryDelaySeconds(
+  attempt: number,
+  backoffSeconds: number,
+  maxSeconds: number = MAX_RETRY_DELAY_SECONDS
+): number {
+  return Math.min(maxSeconds, backoffSeconds * Math.pow(2, Math.max(0, attempt - 1)));
+}
+
+export type FailureOutcome =
+  | { action: 'retry'; runAt: Date; errors: JobAttemptError[] }
+  | { action: 'dead_letter'; errors: JobAttemptError[] };
+
+/**
+ * What to do with a job whose latest attempt failed: run it again after a
+ * backoff, or dead-letter it once its attempts are used up
+ */
+export function afterFailure(
+  job: Pick<Job, 'job_type' | 'attempts' | 'max_attempts' | 'errors'>,
+  message: string,
+  now: Date = new Date()
+): FailureOutcome {
+  const errors = [...job.errors, { attempt: job.attempts, message, at: now.toISOString() }];
+
+  if (job.attempts >= job.max_attempts) {
+    return { action: 'dead_letter', errors };
+  }
+
+  const delay = retryDelaySeconds(job.attempts, JOB_TYPES[job.job_type]?.backoffSeconds ?? 60);
+  return { action: 'retry', runAt: new Date(now.getTime() + delay * 1000), errors };
+}
+
+/**
+ * A claimed job that already used every attempt. Its last worker died
+ * holding the lease, so running it again would exceed max_attempts
+ */
+export function isExhausted(job: Pick<Job, 'attempts' | 'max_attempts'>): boolean {
+  return job.attempts > job.max_attempts;
+}
+
+/**
+ * Start of the schedule slot `now` falls in, for idempotency keys on
+ * recurring work. Two cron calls inside one slot queue a single job.
+ */
+export function scheduleSlot(now: Date, intervalMinutes: number): string {
+  const intervalMs = intervalMinutes * 60 * 1000;
+  return new Date(Math.floor(now.getTime() / intervalMs) * intervalMs).toISOString();
+}
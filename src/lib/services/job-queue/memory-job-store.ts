@@ -0,0 +1,226 @@
+/**
+ * In-memory Job Store
+ * Same leasing and retry behaviour as the Postgres store without a
+ * database. Used by tests and when JOB_QUEUE_STORE=memory for local runs;
+ * jobs are lost when the process exits.
+ */
+
+import type {
+  EnqueueJobResult,
+  Job,
+  JobAttemptError,
+  JobDeadLetter,
+  JobQueueStats,
+  JobType,
+} from '@/types';
+import type { DeadLetterListFilter, JobListFilter, JobStore } from './job-store';
+import type { ResolvedJobOptions } from './job-types';
+
+export class MemoryJobStore implements JobStore {
+  private jobs = new Map<string, Job>();
+  private deadLetters = new Map<string, JobDeadLetter>();
+
+  constructor(private now: () => Date = () => new Date()) {}
+
+  async enqueue(
+    type: JobType,
+    payload: Record<string, unknown>,
+    options: ResolvedJobOptions,
+    replayOf?: string
+  ): Promise<EnqueueJobResult> {
+    if (options.idempotencyKey) {
+      const existing = [...this.jobs.values()].find((job) => job.idempotency_key === options.idempotencyKey);
+      if (existing) {
+        return { job: { ...existing }, created: false };
+      }
+    }
+
+    const now = this.now().toISOString();
+    const job: Job = {
+      id: crypto.randomUUID(),
+      queue: options.queue,
+      job_type: type,
+      payload,
+      priority: options.priority,
+      status: 'queued',
+      attempts: 0,
+      max_attempts: options.maxAttempts,
+      run_at: options.runAt.toISOString(),
+      visibility_timeout_seconds: options.visibilityTimeoutSeconds,
+      locked_by: null,
+      lease_expires_at: null,
+      idempotency_key: options.idempotencyKey,
+      last_error: null,
+      errors: [],
+      result: null,
+      replay_of: replayOf ?? null,
+      created_at: now,
+      started_at: null,
+      completed_at: null,
+      updated_at: now,
+    };
+
+    this.jobs.set(job.id, job);
+    return { job: { ...job }, created: true };
+  }
+
+  async claim(workerId: string, limit: number, queues?: string[]): Promise<Job[]> {
+    const now = this.now();
+
+    const claimable = [...this.jobs.values()]
+      .filter((job) =>
+        (job.status === 'queued' && new Date(job.run_at) <= now) ||
+        (job.status === 'running' && job.lease_expires_at !== null && new Date(job.lease_expires_at) <= now)
+      )
+      .filter((job) => !queues || queues.includes(job.queue))
+      .sort((a, b) => a.priority - b.priority || a.run_at.localeCompare(b.run_at))
+      .slice(0, limit);
+
+    return claimable.map((job) => {
+      Object.assign(job, {
+        status: 'running',
+        locked_by: workerId,
+        lease_expires_at: new Date(now.getTime() + job.visibility_timeout_seconds * 1000).toISOString(),
+        attempts: job.attempts + 1,
+        started_at: now.toISOString(),
+        updated_at: now.toISOString(),
+      });
+      return { ...job };
+    });
+  }
+
+  async extendLease(jobId: string, workerId: string, seconds: number): Promise<boolean> {
+    const job = this.heldBy(jobId, workerId);
+    if (!job) return false;
+
+    const now = this.now();
+    job.lease_expires_at = new Date(now.getTime() + seconds * 1000).toISOString();
+    job.updated_at = now.toISOString();
+    return true;
+  }
+
+  async complete(jobId: string, workerId: string, result: Record<string, unknown> | null): Promise<boolean> {
+    const job = this.heldBy(jobId, workerId);
+    if (!job) return false;
+
+    const now = this.now().toISOString();
+    Object.assign(job, {
+      status: 'completed',
+      result,
+      locked_by: null,
+      lease_expires_at: null,
+      completed_at: now,
+      updated_at: now,
+    });
+    return true;
+  }
+
+  async retry(jobId: string, workerId: string, runAt: Date, errors: JobAttemptError[]): Promise<boolean> {
+    const job = this.heldBy(jobId, workerId);
+    if (!job) return false;
+
+    Object.assign(job, {
+      status: 'queued',
+      run_at: runAt.toISOString(),
+      errors,
+      last_error: errors[errors.length - 1]?.message ?? null,
+      locked_by: null,
+      lease_expires_at: null,
+      updated_at: this.now().toISOString(),
+    });
+    return true;
+  }
+
+  async deadLetter(jobId: string, workerId: string, errors: JobAttemptError[]): Promise<string | null> {
+    const job = this.heldBy(jobId, workerId);
+    if (!job) return null;
+
+    const now = this.now().toISOString();
+    Object.assign(job, {
+      status: 'dead',
+      errors,
+      last_error: errors[errors.length - 1]?.message ?? null,
+      locked_by: null,
+      lease_expires_at: null,
+      completed_at: now,
+      updated_at: now,
+    });
+
+    const deadLetter: JobDeadLetter = {
+      id: crypto.randomUUID(),
+      job_id: job.id,
+      queue: job.queue,
+      job_type: job.job_type,
+      payload: job.payload,
+      priority: job.priority,
+      attempts: job.attempts,
+      errors,
+      dead_at: now,
+      replayed_at: null,
+      replayed_by: null,
+      replay_job_id: null,
+    };
+    this.deadLetters.set(deadLetter.id, deadLetter);
+    return deadLetter.id;
+  }
+
+  async listJobs(filter: JobListFilter = {}): Promise<Job[]> {
+    return [...this.jobs.values()]
+      .filter((job) => !filter.queue || job.queue === filter.queue)
+      .filter((job) => !filter.status || job.status === filter.status)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, filter.limit ?? 50)
+      .map((job) => ({ ...job }));
+  }
+
+  async listDeadLetters(filter: DeadLetterListFilter = {}): Promise<JobDeadLetter[]> {
+    return [...this.deadLetters.values()]
+      .filter((deadLetter) => filter.includeReplayed || !deadLetter.replayed_at)
+      .sort((a, b) => b.dead_at.localeCompare(a.dead_at))
+      .slice(0, filter.limit ?? 50)
+      .map((deadLetter) => ({ ...deadLetter }));
+  }
+
+  async getDeadLetter(id: string): Promise<JobDeadLetter | null> {
+    const deadLetter = this.deadLetters.get(id);
+    return deadLetter ? { ...deadLetter } : null;
+  }
+
+  async markReplayed(id: string, actorId: string | null, replayJobId: string): Promise<void> {
+    const deadLetter = this.deadLetters.get(id);
+    if (!deadLetter) return;
+
+    Object.assign(deadLetter, {
+      replayed_at: this.now().toISOString(),
+      replayed_by: actorId,
+      replay_job_id: replayJobId,
+    });
+  }
+
+  async stats(): Promise<JobQueueStats[]> {
+    const byQueue = new Map<string, JobQueueStats>();
+
+    for (const job of this.jobs.values()) {
+      const stats = byQueue.get(job.queue) ?? {
+        queue: job.queue,
+        queued: 0,
+        running: 0,
+        completed: 0,
+        dead: 0,
+        oldest_queued_at: null,
+      };
+      stats[job.status]++;
+      if (job.status === 'queued' && (!stats.oldest_queued_at || job.run_at < stats.oldest_queued_at)) {
+        stats.oldest_queued_at = job.run_at;
+      }
+      byQueue.set(job.queue, stats);
+    }
+
+    return [...byQueue.values()].sort((a, b) => a.queue.localeCompare(b.queue));
+  }
+
+  private heldBy(jobId: string, workerId: string): Job | null {
+    const job = this.jobs.get(jobId);
+    return job && job.status === 'running' && job.locked_by === workerId ? job : null;
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Job } from '@/types';
+import { JobQueue } from './job-queue';
+import { SupabaseJobStore } from './supabase-job-store';
+
+type Call = { op: string; args: Record<string, unknown> };
+
+const baseJob: Job = {
+  id: 'job-1',
+  queue: 'amber',
+  job_type: 'amber.distribution',
+  payload: { distribution_id: 'd1' },
+  priority: 0,
+  status: 'queued',
+  attempts: 0,
+  max_attempts: 2,
+  run_at: '2026-01-20T15:00:00.000Z',
+  visibility_timeout_seconds: 120,
+  locked_by: null,
+  lease_expires_at: null,
+  idempotency_key: 'amber.distribution:d1',
+  last_error: null,
+  errors: [],
+  result: null,
+  replay_of: null,
+  created_at: '2026-01-20T15:00:00.000Z',
+  started_at: null,
+  completed_at: null,
+  updated_at: '2026-01-20T15:00:00.000Z',
+};
+
+/**
+ * Stand-in for the jobs table and its functions, enough for the worker
+ * path: claim_jobs, dead_letter_job and guarded updates
+ */
+function fakeSupabase(jobs: Job[]) {
+  const calls: Call[] = [];
+
+  const client = {
+    rpc: async (fn: string, args: Record<string, unknown>) => {
+      calls.push({ op: fn, args });
+
+      if (fn === 'claim_jobs') {
+        const claimed = jobs
+          .filter((job) => job.status === 'queued')
+          .slice(0, args.p_limit as number)
+          .map((job) => Object.assign(job, {
+            status: 'running',
+            locked_by: args.p_worker_id,
+            attempts: job.attempts + 1,
+          }));
+        return { data: claimed.map((job) => ({ ...job })), error: null };
+      }
+
+      if (fn === 'dead_letter_job') {
+        const job = jobs.find((j) => j.id === args.p_job_id && j.locked_by === args.p_worker_id);
+        if (!job) return { data: null, error: null };
+        Object.assign(job, { status: 'dead', locked_by: null, errors: args.p_errors });
+        return { data: 'dead-letter-1', error: null };
+      }
+
+      return { data: true, error: null };
+    },
+
+    from: (table: string) => ({
+      update: (values: Partial<Job>) => {
+        const filters: Record<string, unknown> = {};
+        const builder = {
+          eq(column: string, value: unknown) {
+            filters[column] = value;
+            return builder;
+          },
+          async select() {
+            calls.push({ op: `update ${table}`, args: { values, filters } });
+            const matched = jobs.filter((job) =>
+              Object.entries(filters).every(([column, value]) => job[column as keyof Job] === value)
+            );
+            matched.forEach((job) => Object.assign(job, values));
+            return { data: matched.map((job) => ({ id: job.id })), error: null };
+          },
+        };
+        return builder;
+      },
+    }),
+  };
+
+  return { client: client as unknown as SupabaseClient, calls };
+}
+
+describe('SupabaseJobStore worker path', () => {
+  it('claims through claim_jobs and completes only while holding the lease', async () => {
+    const jobs = [{ ...baseJob }];
+    const { client, calls } = fakeSupabase(jobs);
+    const queue = new JobQueue(new SupabaseJobStore(() => client));
+
+    const result = await queue.work({
+      workerId: 'w1',
+      handlers: { 'amber.distribution': async () => ({ status: 'sent' }) },
+    });
+
+    expect(result).toEqual({ claimed: 1, completed: 1, retried: 0, dead_lettered: 0 });
+    expect(calls[0]).toEqual({ op: 'claim_jobs', args: { p_worker_id: 'w1', p_limit: 1, p_queues: null } });
+    expect(calls[1].op).toBe('update jobs');
+    expect(calls[1].args.filters).toEqual({ id: 'job-1', locked_by: 'w1', status: 'running' });
+    expect(jobs[0]).toMatchObject({ status: 'completed', result: { status: 'sent' }, locked_by: null });
+  });
+
+  it('requeues a failed attempt, then dead-letters the last one', async () => {
+    const jobs = [{ ...baseJob }];
+    const { client, calls } = fakeSupabase(jobs);
+    const queue = new JobQueue(new SupabaseJobStore(() => client));
+    const failing = async () => {
+      throw new Error('SMS gateway timeout');
+    };
+
+    expect((await queue.work({ workerId: 'w1', handlers: { 'amber.distribution': failing }, maxJobs: 1 })).retried).toBe(1);
+    expect(jobs[0]).toMatchObject({ status: 'queued', last_error: 'SMS gateway timeout', locked_by: null });
+
+    expect((await queue.work({ workerId: 'w1', handlers: { 'amber.distribution': failing } })).dead_lettered).toBe(1);
+    const deadLetter = calls.find((call) => call.op === 'dead_letter_job');
+    expect(deadLetter?.args).toMatchObject({ p_job_id: 'job-1', p_worker_id: 'w1' });
+    expect((deadLetter?.args.p_errors as unknown[]).length).toBe(2);
+  });
+
+  it('does not count a job another worker took over', async () => {
+    const jobs = [{ ...baseJob }];
+    const { client } = fakeSupabase(jobs);
+    const queue = new JobQueue(new SupabaseJobStore(() => client));
+
+    const result = await queue.work({
+      workerId: 'w1',
+      handlers: {
+        'amber.distribution': async () => {
+          // Lease expired mid-run and w2 claimed the job
+          jobs[0].locked_by = 'w2';
+        },
+      },
+    });
+
+    expect(result).toEqual({ claimed: 1, completed: 0, retried: 0, dead_lettered: 0 });
+    expect(jobs[0].status).toBe('running');
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Postgres Job Store
+ * Jobs live in the jobs table. Claiming, lease extension and dead-lettering
+ * go through database functions so two workers never hold the same job.
+ * The worker runs from cron with no user session, so the store always uses
+ * the service role; API routes check the caller before touching the queue.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createServiceClient } from '@/lib/supabase/service';
+import type {
+  EnqueueJobResult,
+  Job,
+  JobAttemptError,
+  JobDeadLetter,
+  JobQueueStats,
+  JobStatus,
+  JobType,
+} from '@/types';
+import type { DeadLetterListFilter, JobListFilter, JobStore } from './job-store';
+import { JOB_TYPES, JobQueueError, type ResolvedJobOptions } from './job-types';
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'completed', 'dead'];
+
+export class SupabaseJobStore implements JobStore {
+  private supabase: SupabaseClient | null = null;
+
+  constructor(private createSupabase: () => SupabaseClient = createServiceClient) {}
+
+  private async getSupabase() {
+    if (!this.supabase) {
+      this.supabase = this.createSupabase();
+    }
+    return this.supabase;
+  }
+
+  async enqueue(
+    type: JobType,
+    payload: Record<string, unknown>,
+    options: ResolvedJobOptions,
+    replayOf?: string
+  ): Promise<EnqueueJobResult> {
+    const supabase = await this.getSupabase();
+
+    const { data, error } = await supabase
+      .from('jobs')
+      .insert({
+        queue: options.queue,
+        job_type: type,
+        payload,
+        priority: options.priority,
+        max_attempts: options.maxAttempts,
+        run_at: options.runAt.toISOString(),
+        visibility_timeout_seconds: options.visibilityTimeoutSeconds,
+        idempotency_key: options.idempotencyKey,
+        replay_of: replayOf ?? null,
+      })
+      .select()
+      .single();
+
+    if (!error && data) {
+      return { job: data as Job, created: true };
+    }
+
+    // Already queued under this key
+    if (error?.code === UNIQUE_VIOLATION && options.idempotencyKey) {
+      const { data: existing } = await supabase
+        .from('jobs')
+        .select('*')
+        .eq('idempotency_key', options.idempotencyKey)
+        .single();
+
+      if (existing) {
+        return { job: existing as Job, created: false };
+      }
+    }
+
+    throw new JobQueueError('enqueue_failed', `Failed to queue ${type} job: ${error?.message || 'no row returned'}`);
+  }
+
+  async claim(workerId: string, limit: number, queues?: string[]): Promise<Job[]> {
+    const supabase = await this.getSupabase();
+
+    const { data, error } = await supabase.rpc('claim_jobs', {
+      p_worker_id: workerId,
+      p_limit: limit,
+      p_queues: queues && queues.length > 0 ? queues : null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim jobs: ${error.message}`);
+    }
+
+    return (data || []) as Job[];
+  }
+
+  async extendLease(jobId: string, workerId: string, seconds: number): Promise<boolean> {
+    const supabase = await this.getSupabase();
+
+    const { data, error } = await supabase.rpc('extend_job_lease', {
+      p_job_id: jobId,
+      p_worker_id: workerId,
+      p_seconds: seconds,
+    });
+
+    return !error && data === true;
+  }
+
+  async complete(jobId: string, workerId: string, result: Record<string, unknown> | null): Promise<boolean> {
+    const now = new Date().toISOString();
+    return this.updateHeld(jobId, workerId, {
+      status: 'completed',
+      result,
+      locked_by: null,
+      lease_expires_at: null,
+      completed_at: now,
+      updated_at: now,
+    });
+  }
+
+  async retry(jobId: string, workerId: string, runAt: Date, errors: JobAttemptError[]): Promise<boolean> {
+    return this.updateHeld(jobId, workerId, {
+      status: 'queued',
+      run_at: runAt.toISOString(),
+      errors,
+      last_error: errors[errors.length - 1]?.message ?? null,
+      locked_by: null,
+      lease_expires_at: null,
+      updated_at: new Date().toISOString(),
+    });
+  }
+
+  async deadLetter(jobId: string, workerId: string, errors: JobAttemptError[]): Promise<string | null> {
+    const supabase = await this.getSupabase();
+
+    const { data, error } = await supabase.rpc('dead_letter_job', {
+      p_job_id: jobId,
+      p_worker_id: workerId,
+      p_errors: errors,
+    });
+
+    if (error) {
+      throw new Error(`Failed to dead-letter job ${jobId}: ${error.message}`);
+    }
+
+    return (data as string | null) ?? null;
+  }
+
+  async listJobs(filter: JobListFilter = {}): Promise<Job[]> {
+    const supabase = await this.getSupabase();
+
+    let query = supabase
+      .from('jobs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(filter.limit ?? 50);
+
+    if (filter.queue) {
+      query = query.eq('queue', filter.queue);
+    }
+    if (filter.status) {
+      query = query.eq('status', filter.status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list jobs: ${error.message}`);
+    }
+
+    return (data || []) as Job[];
+  }
+
+  async listDeadLetters(filter: DeadLetterListFilter = {}): Promise<JobDeadLetter[]> {
+    const supabase = await this.getSupabase();
+
+    let query = supabase
+      .from('job_dead_letters')
+      .select('*')
+      .order('dead_at', { ascending: false })
+      .limit(filter.limit ?? 50);
+
+    if (!filter.includeReplayed) {
+      query = query.is('replayed_at', null);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list dead letters: ${error.message}`);
+    }
+
+    return (data || []) as JobDeadLetter[];
+  }
+
+  async getDeadLetter(id: string): Promise<JobDeadLetter | null> {
+    const supabase = await this.getSupabase();
+
+    const { data } = await supabase
+      .from('job_dead_letters')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    return (data as JobDeadLetter | null) ?? null;
+  }
+
+  async markReplayed(id: string, actorId: string | null, replayJobId: string): Promise<void> {
+    const supabase = await this.getSupabase();
+
+    await supabase
+      .from('job_dead_letters')
+      .update({
+        replayed_at: new Date().toISOString(),
+        replayed_by: actorId,
+        replay_job_id: replayJobId,
+      })
+      .eq('id', id);
+  }
+
+  async stats(): Promise<JobQueueStats[]> {
+    const supabase = await this.getSupabase();
+    const queues = [...new Set(Object.values(JOB_TYPES).map((defaults) => defaults.queue))].sort();
+
+    return Promise.all(
+      queues.map(async (queue) => {
+        const stats: JobQueueStats = { queue, queued: 0, running: 0, completed: 0, dead: 0, oldest_queued_at: null };
+
+        await Promise.all(
+          JOB_STATUSES.map(async (status) => {
+            const { count } = await supabase
+              .from('jobs')
+              .select('id', { count: 'exact', head: true })
+              .eq('queue', queue)
+              .eq('status', status);
+            stats[status] = count || 0;
+          })
+        );
+
+        const { data: oldest } = await supabase
+          .from('jobs')
+          .select('run_at')
+          .eq('queue', queue)
+          .eq('status', 'queued')
+          .order('run_at', { ascending: true })
+          .limit(1)
+          .maybeSingle();
+        stats.oldest_queued_at = oldest?.run_at ?? null;
+
+        return stats;
+      })
+    );
+  }
+
+  /**
+   * Update a job only while this worker still holds its lease
+   */
+  private async updateHeld(jobId: string, workerId: string, update: Record<string, unknown>): Promise<boolean> {
+    const supabase = await this.getSupabase();
+
+    const { data, error } = await supabase
+      .from('jobs')
+      .update(update)
+      .eq('id', jobId)
+      .eq('locked_by', workerId)
+      .eq('status', 'running')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to update job ${jobId}: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+}
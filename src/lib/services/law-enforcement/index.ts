@@ -21,9 +21,11 @@ export {
 
 // Geofencing
 export {
-  geofencingService,
+  GeofencingService,
+  invalidateGeofenceIndex,
   type CreateGeofenceInput,
   type LocationUpdate,
+  type LocationBatchResult,
 } from "../geofencing-service";
 
 // Vehicle Tracking
@@ -32,6 +34,8 @@ export {
   type CreateVehicleInput,
   type ReportSightingInput,
   type CreateAlertInput,
+  type LPRRead,
+  type LPRProcessingResult,
 } from "../vehicle-tracking-service";
 
 // Campaign Management
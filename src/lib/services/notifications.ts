@@ -3,6 +3,7 @@
  * Centralized service for creating and managing notifications
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase/server';
 import type { Notification, NotificationPreferences, NotificationType } from '@/types/notification.types';
 
@@ -339,6 +340,127 @@ export async function getUnreadCount(userId: string): Promise<number> {
   }
 }
 
+export interface NotificationDigestResult {
+  sent: boolean;
+  notificationCount: number;
+}
+
+/**
+ * Send one user their daily digest of unread notifications from the last
+ * 24 hours. Throws so the job queue retries a digest that failed part way.
+ * The job worker has no session and passes a service-role client.
+ */
+export async function sendNotificationDigest(
+  userId: string,
+  client?: SupabaseClient
+): Promise<NotificationDigestResult> {
+  const supabase = client ?? (await createClient());
+
+  const { data: user, error: userError } = await supabase
+    .from('profiles')
+    .select('id, email, full_name, email_digest_enabled')
+    .eq('id', userId)
+    .single();
+
+  if (userError || !user) {
+    throw new Error(`Failed to fetch user: ${userError?.message || 'not found'}`);
+  }
+
+  // Digests turned off after the job was queued
+  if (!user.email_digest_enabled) {
+    return { sent: false, notificationCount: 0 };
+  }
+
+  const yesterday = new Date();
+  yesterday.setDate(yesterday.getDate() - 1);
+
+  const { data: notifications, error: notifError } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('read', false)
+    .gte('created_at', yesterday.toISOString())
+    .order('created_at', { ascending: false });
+
+  if (notifError) {
+    throw new Error(notifError.message);
+  }
+
+  if (!notifications || notifications.length === 0) {
+    return { sent: false, notificationCount: 0 };
+  }
+
+  // Get user's assigned cases summary
+  const { data: assignedCases, error: casesError } = await supabase
+    .from('cases')
+    .select('id, case_number, priority_level, status, first_name, last_name')
+    .eq('assigned_officer_id', user.id)
+    .eq('status', 'active');
+
+  if (casesError) {
+    console.error('Error fetching cases:', casesError);
+  }
+
+  // Group notifications by type
+  const groupedNotifications: Record<string, typeof notifications> = {};
+  for (const notif of notifications) {
+    const type = notif.type || 'general';
+    if (!groupedNotifications[type]) {
+      groupedNotifications[type] = [];
+    }
+    groupedNotifications[type].push(notif);
+  }
+
+  const digestContent = {
+    user_id: user.id,
+    email: user.email,
+    full_name: user.full_name,
+    total_notifications: notifications.length,
+    notifications_by_type: Object.entries(groupedNotifications).map(([type, notifs]) => ({
+      type,
+      count: notifs.length,
+      items: notifs.slice(0, 5).map(n => ({
+        title: n.title,
+        message: n.message,
+        created_at: n.created_at,
+      })),
+    })),
+    assigned_cases: {
+      total: assignedCases?.length || 0,
+      by_priority: {
+        critical: assignedCases?.filter(c => c.priority_level === 0).length || 0,
+        high: assignedCases?.filter(c => c.priority_level === 1).length || 0,
+        medium: assignedCases?.filter(c => c.priority_level === 2).length || 0,
+        low: assignedCases?.filter(c => c.priority_level <= 4 && c.priority_level >= 3).length || 0,
+      },
+    },
+    generated_at: new Date().toISOString(),
+  };
+
+  const { error: queueError } = await supabase.from('email_queue').insert({
+    to_email: user.email,
+    to_name: user.full_name,
+    template: 'daily_digest',
+    subject: `LocateConnect Daily Digest - ${notifications.length} notification(s)`,
+    data: digestContent,
+    status: 'pending',
+    scheduled_for: new Date().toISOString(),
+  });
+
+  if (queueError) {
+    throw new Error(`Failed to queue digest email: ${queueError.message}`);
+  }
+
+  await supabase.from('notification_digests').insert({
+    user_id: user.id,
+    notification_count: notifications.length,
+    digest_content: digestContent,
+    sent_at: new Date().toISOString(),
+  });
+
+  return { sent: true, notificationCount: notifications.length };
+}
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -498,5 +620,6 @@ export default {
   dismissNotification,
   dismissAllNotifications,
   getUnreadCount,
+  sendNotificationDigest,
   NotificationTemplates,
 };
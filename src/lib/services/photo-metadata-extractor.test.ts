@@ -0,0 +1,432 @@
+import { describe, it, expect } from 'vitest';
+import { deflateSync } from 'zlib';
+import { extractPhotoMetadata, detectPhotoFormat, parseExifDate } from './photo-metadata-extractor';
+import { verifyTip, type VerificationEngineContext } from './tip-verification-engine';
+import type { PhotoMetadata } from '@/types/tip-verification.types';
+
+// =============================================================================
+// SYNTHETIC IMAGE BUILDERS
+// =============================================================================
+
+type TiffEntry =
+  | { tag: number; type: 2; value: string }
+  | { tag: number; type: 3 | 4; value: number[] }
+  | { tag: number; type: 5; value: number[] };
+
+interface TiffSpec {
+  ifd0: TiffEntry[];
+  exif?: TiffEntry[];
+  gps?: TiffEntry[];
+  thumbnail?: Uint8Array;
+}
+
+// Each IFD gets a fixed 512-byte region to keep offsets simple
+const IFD0_AT = 8;
+const EXIF_AT = 512;
+const GPS_AT = 1024;
+const IFD1_AT = 1536;
+const THUMBNAIL_AT = 2048;
+
+function writeIfd(data: DataView, bytes: Uint8Array, at: number, entries: TiffEntry[], next: number) {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  data.setUint16(at, sorted.length);
+  let dataAt = at + 2 + sorted.length * 12 + 4;
+
+  sorted.forEach((entry, i) => {
+    const entryAt = at + 2 + i * 12;
+    data.setUint16(entryAt, entry.tag);
+    data.setUint16(entryAt + 2, entry.type);
+
+    let raw: Uint8Array;
+    if (entry.type === 2) {
+      raw = new TextEncoder().encode(`${entry.value}\0`);
+    } else if (entry.type === 5) {
+      raw = new Uint8Array(entry.value.length * 8);
+      const rational = new DataView(raw.buffer);
+      entry.value.forEach((v, j) => {
+        rational.setUint32(j * 8, Math.round(v * 1000));
+        rational.setUint32(j * 8 + 4, 1000);
+      });
+    } else {
+      const size = entry.type === 3 ? 2 : 4;
+      raw = new Uint8Array(entry.value.length * size);
+      const ints = new DataView(raw.buffer);
+      entry.value.forEach((v, j) => (size === 2 ? ints.setUint16(j * 2, v) : ints.setUint32(j * 4, v)));
+    }
+
+    const count = entry.type === 2 ? raw.length : entry.value.length;
+    data.setUint32(entryAt + 4, count);
+    if (raw.length <= 4) {
+      bytes.set(raw, entryAt + 8);
+    } else {
+      data.setUint32(entryAt + 8, dataAt);
+      bytes.set(raw, dataAt);
+      dataAt += raw.length;
+    }
+  });
+
+  data.setUint32(at + 2 + sorted.length * 12, next);
+}
+
+function buildTiff(spec: TiffSpec): Uint8Array {
+  const bytes = new Uint8Array(THUMBNAIL_AT + (spec.thumbnail?.length ?? 0));
+  const data = new DataView(bytes.buffer);
+  bytes.set([0x4d, 0x4d, 0x00, 0x2a]); // "MM", 42
+  data.setUint32(4, IFD0_AT);
+
+  const ifd0 = [...spec.ifd0];
+  if (spec.exif) ifd0.push({ tag: 0x8769, type: 4, value: [EXIF_AT] });
+  if (spec.gps) ifd0.push({ tag: 0x8825, type: 4, value: [GPS_AT] });
+  writeIfd(data, bytes, IFD0_AT, ifd0, spec.thumbnail ? IFD1_AT : 0);
+
+  if (spec.exif) writeIfd(data, bytes, EXIF_AT, spec.exif, 0);
+  if (spec.gps) writeIfd(data, bytes, GPS_AT, spec.gps, 0);
+  if (spec.thumbnail) {
+    writeIfd(
+      data,
+      bytes,
+      IFD1_AT,
+      [
+        { tag: 0x0201, type: 4, value: [THUMBNAIL_AT] },
+        { tag: 0x0202, type: 4, value: [spec.thumbnail.length] },
+      ],
+      0
+    );
+    bytes.set(spec.thumbnail, THUMBNAIL_AT);
+  }
+
+  return bytes;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function text(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+function u16(value: number): Uint8Array {
+  return new Uint8Array([value >> 8, value & 0xff]);
+}
+
+function u32(value: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value);
+  return out;
+}
+
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  return concat(new Uint8Array([0xff, marker]), u16(payload.length + 2), payload);
+}
+
+function jpegSof(width: number, height: number): Uint8Array {
+  return jpegSegment(0xc0, concat(new Uint8Array([8]), u16(height), u16(width), new Uint8Array([1, 1, 0x11, 0])));
+}
+
+function buildJpeg(options: { tiff?: Uint8Array; xmp?: string; width: number; height: number }): Uint8Array {
+  const parts: Uint8Array[] = [new Uint8Array([0xff, 0xd8])];
+  if (options.tiff) parts.push(jpegSegment(0xe1, concat(text('Exif\0\0'), options.tiff)));
+  if (options.xmp) parts.push(jpegSegment(0xe1, concat(text('http://ns.adobe.com/xap/1.0/\0'), text(options.xmp))));
+  parts.push(jpegSof(options.width, options.height));
+  parts.push(new Uint8Array([0xff, 0xda, 0x00, 0x02, 0xff, 0xd9]));
+  return concat(...parts);
+}
+
+function thumbnailJpeg(width: number, height: number): Uint8Array {
+  return concat(new Uint8Array([0xff, 0xd8]), jpegSof(width, height), new Uint8Array([0xff, 0xd9]));
+}
+
+function pngChunk(type: string, payload: Uint8Array): Uint8Array {
+  return concat(u32(payload.length), text(type), payload, u32(0));
+}
+
+function isoBox(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const body = concat(...payload);
+  return concat(u32(body.length + 8), text(type), body);
+}
+
+function fullBox(type: string, version: number, ...payload: Uint8Array[]): Uint8Array {
+  return isoBox(type, new Uint8Array([version, 0, 0, 0]), ...payload);
+}
+
+function buildHeic(tiff: Uint8Array, width: number, height: number): Uint8Array {
+  const ftyp = isoBox('ftyp', text('heic'), u32(0), text('mif1'), text('heic'));
+  const exifItem = concat(u32(6), text('Exif\0\0'), tiff);
+
+  const buildMeta = (itemOffset: number) =>
+    fullBox(
+      'meta',
+      0,
+      fullBox('iinf', 0, u16(1), fullBox('infe', 2, u16(1), u16(0), text('Exif'), text('\0'))),
+      fullBox(
+        'iloc',
+        0,
+        new Uint8Array([0x44, 0x00]),
+        u16(1),
+        u16(1),
+        u16(0),
+        u16(1),
+        u32(itemOffset),
+        u32(exifItem.length)
+      ),
+      isoBox('iprp', isoBox('ipco', fullBox('ispe', 0, u32(width), u32(height))))
+    );
+
+  const itemOffset = ftyp.length + buildMeta(0).length + 8;
+  return concat(ftyp, buildMeta(itemOffset), isoBox('mdat', exifItem));
+}
+
+const CAMERA_IFD0: TiffEntry[] = [
+  { tag: 0x010f, type: 2, value: 'Apple' },
+  { tag: 0x0110, type: 2, value: 'iPhone 15' },
+  { tag: 0x0131, type: 2, value: '17.4' },
+  { tag: 0x0132, type: 2, value: '2026:01:18 15:42:10' },
+];
+
+const CAMERA_EXIF: TiffEntry[] = [
+  { tag: 0x9003, type: 2, value: '2026:01:18 15:42:10' },
+  { tag: 0x9011, type: 2, value: '-05:00' },
+  { tag: 0xa002, type: 4, value: [4032] },
+  { tag: 0xa003, type: 4, value: [3024] },
+];
+
+// 45°30'6.12"N 73°34'2.28"W (Montreal)
+const CAMERA_GPS: TiffEntry[] = [
+  { tag: 0x0001, type: 2, value: 'N' },
+  { tag: 0x0002, type: 5, value: [45, 30, 6.12] },
+  { tag: 0x0003, type: 2, value: 'W' },
+  { tag: 0x0004, type: 5, value: [73, 34, 2.28] },
+  { tag: 0x0007, type: 5, value: [20, 42, 9] },
+  { tag: 0x001d, type: 2, value: '2026:01:18' },
+];
+
+// =============================================================================
+// EXTRACTION
+// =============================================================================
+
+describe('photo metadata extractor', () => {
+  it('should detect JPEG, PNG and HEIC containers from their bytes', () => {
+    const tiff = buildTiff({ ifd0: CAMERA_IFD0 });
+    expect(detectPhotoFormat(buildJpeg({ tiff, width: 10, height: 10 }))).toBe('jpeg');
+    expect(detectPhotoFormat(concat(new Uint8Array([0x89]), text('PNG\r\n\x1a\n')))).toBe('png');
+    expect(detectPhotoFormat(buildHeic(tiff, 10, 10))).toBe('heic');
+    expect(detectPhotoFormat(text('GIF89a'))).toBeNull();
+  });
+
+  it('should read camera, GPS and capture time from JPEG EXIF', () => {
+    const tiff = buildTiff({ ifd0: CAMERA_IFD0, exif: CAMERA_EXIF, gps: CAMERA_GPS });
+    const { format, metadata, exif } = extractPhotoMetadata(buildJpeg({ tiff, width: 4032, height: 3024 }));
+
+    expect(format).toBe('jpeg');
+    expect(metadata.hasExif).toBe(true);
+    expect(metadata.device).toBe('Apple iPhone 15');
+    expect(metadata.hasGps).toBe(true);
+    expect(metadata.latitude).toBeCloseTo(45.5017, 4);
+    expect(metadata.longitude).toBeCloseTo(-73.5673, 4);
+    // GPS time is UTC and wins over the camera clock
+    expect(metadata.timestamp).toBe('2026-01-18T20:42:09.000Z');
+    expect(metadata.timestampSource).toBe('gps');
+    expect(metadata.timestampHasZone).toBe(true);
+    expect(metadata.editMarkers).toEqual([]);
+    expect(exif).toMatchObject({ Make: 'Apple', GPSLatitudeRef: 'N' });
+  });
+
+  it('should fall back to the camera clock and record when the zone is unknown', () => {
+    const exifWithoutZone = CAMERA_EXIF.filter((entry) => entry.tag !== 0x9011);
+    const tiff = buildTiff({ ifd0: CAMERA_IFD0, exif: exifWithoutZone });
+    const { metadata } = extractPhotoMetadata(buildJpeg({ tiff, width: 4032, height: 3024 }));
+
+    expect(metadata.hasGps).toBe(false);
+    expect(metadata.timestamp).toBe('2026-01-18T15:42:10.000Z');
+    expect(metadata.timestampSource).toBe('exif_original');
+    expect(metadata.timestampHasZone).toBe(false);
+  });
+
+  it('should flag editing software in EXIF and XMP history', () => {
+    const ifd0 = CAMERA_IFD0.map((entry): TiffEntry =>
+      entry.tag === 0x0131 ? { tag: entry.tag, type: 2, value: 'Adobe Photoshop 25.0 (Macintosh)' } : entry
+    );
+    const xmp = `<x:xmpmeta><rdf:RDF><rdf:Description xmp:CreatorTool="iPhone 15">
+      <xmpMM:History><rdf:Seq><rdf:li stEvt:action="saved" stEvt:softwareAgent="Snapseed 2.0"/></rdf:Seq></xmpMM:History>
+      </rdf:Description></rdf:RDF></x:xmpmeta>`;
+    const tiff = buildTiff({ ifd0, exif: CAMERA_EXIF });
+    const { metadata } = extractPhotoMetadata(buildJpeg({ tiff, xmp, width: 4032, height: 3024 }));
+
+    expect(metadata.hasXmp).toBe(true);
+    expect(metadata.editMarkers).toEqual(
+      expect.arrayContaining(['software:Adobe Photoshop 25.0 (Macintosh)', 'history:Snapseed 2.0'])
+    );
+  });
+
+  it('should flag a thumbnail whose aspect ratio no longer matches the image', () => {
+    const cropped = buildTiff({ ifd0: CAMERA_IFD0, thumbnail: thumbnailJpeg(160, 120) });
+    const result = extractPhotoMetadata(buildJpeg({ tiff: cropped, width: 2000, height: 2000 }));
+    expect(result.metadata.thumbnailMismatch).toBe(true);
+    expect(result.metadata.editMarkers).toContain('thumbnail_mismatch');
+
+    const original = buildTiff({ ifd0: CAMERA_IFD0, thumbnail: thumbnailJpeg(160, 120) });
+    const untouched = extractPhotoMetadata(buildJpeg({ tiff: original, width: 4032, height: 3024 }));
+    expect(untouched.metadata.thumbnailMismatch).toBe(false);
+  });
+
+  it('should flag stale EXIF pixel dimensions and late modify dates', () => {
+    const ifd0 = CAMERA_IFD0.map((entry): TiffEntry =>
+      entry.tag === 0x0132 ? { tag: entry.tag, type: 2, value: '2026:01:19 09:00:00' } : entry
+    );
+    const tiff = buildTiff({ ifd0, exif: CAMERA_EXIF });
+    const { metadata } = extractPhotoMetadata(buildJpeg({ tiff, width: 1200, height: 900 }));
+
+    expect(metadata.editMarkers).toEqual(
+      expect.arrayContaining(['exif_dimensions_mismatch', 'modified_after_capture'])
+    );
+  });
+
+  it('should read eXIf and compressed XMP chunks from PNG', () => {
+    const tiff = buildTiff({ ifd0: CAMERA_IFD0, exif: CAMERA_EXIF });
+    const xmp = '<x:xmpmeta><rdf:Description xmp:CreatorTool="Canva"/></x:xmpmeta>';
+    const png = concat(
+      new Uint8Array([0x89]),
+      text('PNG\r\n\x1a\n'),
+      pngChunk('IHDR', concat(u32(4032), u32(3024), new Uint8Array([8, 6, 0, 0, 0]))),
+      pngChunk('eXIf', tiff),
+      pngChunk('iTXt', concat(text('XML:com.adobe.xmp\0'), new Uint8Array([1, 0]), text('\0\0'), deflateSync(text(xmp)))),
+      pngChunk('IEND', new Uint8Array())
+    );
+
+    const { format, metadata } = extractPhotoMetadata(png);
+    expect(format).toBe('png');
+    expect(metadata.dimensions).toEqual({ width: 4032, height: 3024 });
+    expect(metadata.device).toBe('Apple iPhone 15');
+    expect(metadata.editMarkers).toContain('software:Canva');
+  });
+
+  it('should read the Exif item from a HEIC file', () => {
+    const tiff = buildTiff({ ifd0: CAMERA_IFD0, exif: CAMERA_EXIF, gps: CAMERA_GPS });
+    const { format, metadata } = extractPhotoMetadata(buildHeic(tiff, 4032, 3024));
+
+    expect(format).toBe('heic');
+    expect(metadata.dimensions).toEqual({ width: 4032, height: 3024 });
+    expect(metadata.hasGps).toBe(true);
+    expect(metadata.timestampSource).toBe('gps');
+  });
+
+  it('should not throw on truncated or corrupt metadata', () => {
+    const tiff = buildTiff({ ifd0: CAMERA_IFD0, exif: CAMERA_EXIF });
+    const jpeg = buildJpeg({ tiff, width: 4032, height: 3024 });
+
+    expect(() => extractPhotoMetadata(jpeg.subarray(0, 300))).not.toThrow();
+    const corrupt = jpeg.slice();
+    corrupt.set(text('XX'), 10); // clobber the TIFF byte order
+    expect(extractPhotoMetadata(corrupt).metadata.hasExif).toBe(false);
+    expect(extractPhotoMetadata(text('not an image')).format).toBeNull();
+  });
+
+  it('should reject zeroed EXIF dates', () => {
+    expect(parseExifDate('0000:00:00 00:00:00')).toBeUndefined();
+    expect(parseExifDate('2026:01:18 15:42:10', '+02:00')).toBe('2026-01-18T13:42:10.000Z');
+  });
+});
+
+// =============================================================================
+// SCORING
+// =============================================================================
+
+describe('photo scoring with extracted metadata', () => {
+  const sightingDate = '2026-01-18T20:30:00.000Z';
+
+  function contextWith(metadata: PhotoMetadata): VerificationEngineContext {
+    return {
+      tip: {
+        tipId: 'tip-1',
+        caseId: 'case-1',
+        content: 'I saw a young girl wearing a red jacket near the bus station on Main Street around 3pm.',
+        isAnonymous: false,
+        latitude: 45.5017,
+        longitude: -73.5673,
+        sightingDate,
+        attachments: [
+          {
+            id: 'att-1',
+            tipId: 'tip-1',
+            fileName: 'IMG_0001.HEIC',
+            fileType: 'image/heic',
+            url: 'tips/tip-1/att-1/IMG_0001.HEIC',
+            extractedMetadata: metadata,
+            facesDetected: 0,
+            verified: false,
+            uploadedAt: sightingDate,
+            createdAt: sightingDate,
+          },
+        ],
+      },
+      caseData: {
+        id: 'case-1',
+        priorityLevel: 'p2_medium',
+        lastSeenLatitude: 45.5088,
+        lastSeenLongitude: -73.5878,
+        lastSeenDate: '2026-01-18T12:00:00.000Z',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        status: 'active',
+      },
+      existingLeads: [],
+      existingTips: [],
+      scamPatterns: [],
+      verificationRules: [],
+    };
+  }
+
+  const genuine: PhotoMetadata = {
+    hasExif: true,
+    hasGps: true,
+    latitude: 45.502,
+    longitude: -73.567,
+    timestamp: '2026-01-18T20:42:09.000Z',
+    timestampSource: 'gps',
+    timestampHasZone: true,
+    format: 'heic',
+    editMarkers: [],
+  };
+
+  it('should accept a photo whose capture time and GPS match the sighting', async () => {
+    const result = await verifyTip(contextWith(genuine));
+    expect(result.verification.hoaxIndicators).not.toContain('impossible_timeline');
+    expect(result.verification.hoaxIndicators).not.toContain('conflicting_location');
+    expect(result.verification.photoIsOriginal).toBe(true);
+  });
+
+  it('should raise hoax indicators when capture time or GPS contradict the sighting', async () => {
+    const result = await verifyTip(
+      contextWith({
+        ...genuine,
+        latitude: 43.6532,
+        longitude: -79.3832,
+        timestamp: '2026-01-15T10:00:00.000Z',
+      })
+    );
+    expect(result.verification.hoaxIndicators).toContain('impossible_timeline');
+    expect(result.verification.hoaxIndicators).toContain('conflicting_location');
+  });
+
+  it('should allow for an unknown camera time zone', async () => {
+    const result = await verifyTip(
+      contextWith({ ...genuine, timestamp: '2026-01-18T15:42:10.000Z', timestampHasZone: false })
+    );
+    expect(result.verification.hoaxIndicators).not.toContain('impossible_timeline');
+  });
+
+  it('should treat edited photos as suspicious', async () => {
+    const result = await verifyTip(
+      contextWith({ ...genuine, editMarkers: ['thumbnail_mismatch'], thumbnailMismatch: true })
+    );
+    expect(result.verification.hoaxIndicators).toContain('suspicious_metadata');
+    expect(result.verification.photoIsOriginal).toBe(false);
+  });
+});
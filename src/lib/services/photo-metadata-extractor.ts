@@ -0,0 +1,884 @@
+/**
+ * Photo Metadata Extractor
+ * Reads EXIF and XMP straight from uploaded JPEG, PNG and HEIC bytes so photo
+ * scoring no longer depends on whatever metadata the client chose to send.
+ */
+
+import { inflateSync } from 'zlib';
+import type { PhotoMetadata } from '@/types/tip-verification.types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type PhotoContainerFormat = 'jpeg' | 'png' | 'heic';
+
+export interface PhotoMetadataExtraction {
+  format: PhotoContainerFormat | null;
+  metadata: PhotoMetadata;
+  // Named EXIF tags for the tip_attachments.exif_data column
+  exif: Record<string, unknown> | null;
+  xmp: Record<string, string> | null;
+}
+
+interface Dimensions {
+  width: number;
+  height: number;
+}
+
+interface ContainerSegments {
+  tiff?: Uint8Array;
+  xmp?: string;
+  dimensions?: Dimensions;
+}
+
+type IfdValue = string | number | number[];
+
+interface TiffReadResult {
+  ifd0: Map<number, IfdValue>;
+  exif: Map<number, IfdValue>;
+  gps: Map<number, IfdValue>;
+  ifd1: Map<number, IfdValue>;
+  thumbnail?: Uint8Array;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const EDITING_SOFTWARE_PATTERN =
+  /photoshop|lightroom|gimp|snapseed|pixelmator|affinity|picsart|facetune|faceapp|canva|paint\.net|photopea|acdsee|luminar|fotor|polarr|vsco|meitu|airbrush|remini/i;
+
+// Thumbnails are only a few pixels across, so allow some rounding slack
+const THUMBNAIL_ASPECT_TOLERANCE = 0.08;
+
+// Capture and modify stamps written by the same save differ by at most seconds
+const MODIFIED_AFTER_CAPTURE_MS = 60 * 1000;
+
+const MAX_IFD_ENTRIES = 512;
+
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  7: 1, // UNDEFINED
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+};
+
+const TAG = {
+  imageWidth: 0x0100,
+  imageHeight: 0x0101,
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  software: 0x0131,
+  dateTime: 0x0132,
+  thumbnailOffset: 0x0201,
+  thumbnailLength: 0x0202,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  dateTimeOriginal: 0x9003,
+  dateTimeDigitized: 0x9004,
+  offsetTime: 0x9010,
+  offsetTimeOriginal: 0x9011,
+  offsetTimeDigitized: 0x9012,
+  pixelXDimension: 0xa002,
+  pixelYDimension: 0xa003,
+  lensModel: 0xa434,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+  gpsAltitude: 0x0006,
+  gpsTimeStamp: 0x0007,
+  gpsDateStamp: 0x001d,
+} as const;
+
+const EXIF_TAG_NAMES: Record<number, string> = {
+  [TAG.imageWidth]: 'ImageWidth',
+  [TAG.imageHeight]: 'ImageHeight',
+  [TAG.make]: 'Make',
+  [TAG.model]: 'Model',
+  [TAG.orientation]: 'Orientation',
+  [TAG.software]: 'Software',
+  [TAG.dateTime]: 'ModifyDate',
+  [TAG.dateTimeOriginal]: 'DateTimeOriginal',
+  [TAG.dateTimeDigitized]: 'CreateDate',
+  [TAG.offsetTime]: 'OffsetTime',
+  [TAG.offsetTimeOriginal]: 'OffsetTimeOriginal',
+  [TAG.offsetTimeDigitized]: 'OffsetTimeDigitized',
+  [TAG.pixelXDimension]: 'PixelXDimension',
+  [TAG.pixelYDimension]: 'PixelYDimension',
+  [TAG.lensModel]: 'LensModel',
+};
+
+const GPS_TAG_NAMES: Record<number, string> = {
+  [TAG.gpsLatitudeRef]: 'GPSLatitudeRef',
+  [TAG.gpsLatitude]: 'GPSLatitude',
+  [TAG.gpsLongitudeRef]: 'GPSLongitudeRef',
+  [TAG.gpsLongitude]: 'GPSLongitude',
+  [TAG.gpsAltitude]: 'GPSAltitude',
+  [TAG.gpsTimeStamp]: 'GPSTimeStamp',
+  [TAG.gpsDateStamp]: 'GPSDateStamp',
+};
+
+const XMP_FIELDS = [
+  'xmp:CreatorTool',
+  'xmp:CreateDate',
+  'xmp:ModifyDate',
+  'photoshop:DateCreated',
+  'exif:DateTimeOriginal',
+  'exif:GPSLatitude',
+  'exif:GPSLongitude',
+  'tiff:Make',
+  'tiff:Model',
+] as const;
+
+const HEIC_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1']);
+
+// =============================================================================
+// BYTE HELPERS
+// =============================================================================
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  let out = '';
+  for (let i = start; i < start + length && i < bytes.length; i++) {
+    out += String.fromCharCode(bytes[i]);
+  }
+  return out;
+}
+
+function utf8(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+function startsWith(bytes: Uint8Array, start: number, signature: string): boolean {
+  return ascii(bytes, start, signature.length) === signature;
+}
+
+function view(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function readUint(data: DataView, offset: number, size: number): number {
+  switch (size) {
+    case 0:
+      return 0;
+    case 2:
+      return data.getUint16(offset);
+    case 4:
+      return data.getUint32(offset);
+    case 8:
+      return Number(data.getBigUint64(offset));
+    default:
+      throw new RangeError(`Unsupported integer size ${size}`);
+  }
+}
+
+// =============================================================================
+// CONTAINER FORMATS
+// =============================================================================
+
+export function detectPhotoFormat(bytes: Uint8Array): PhotoContainerFormat | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (bytes.length >= 8 && startsWith(bytes, 1, 'PNG') && bytes[0] === 0x89) {
+    return 'png';
+  }
+  if (bytes.length >= 12 && startsWith(bytes, 4, 'ftyp')) {
+    const data = view(bytes);
+    const boxSize = Math.min(data.getUint32(0), bytes.length);
+    for (let offset = 8; offset + 4 <= boxSize; offset += 4) {
+      // Skip the minor version field
+      if (offset === 12) continue;
+      if (HEIC_BRANDS.has(ascii(bytes, offset, 4))) return 'heic';
+    }
+  }
+  return null;
+}
+
+/**
+ * Dimensions from a JPEG start-of-frame marker
+ */
+function readJpegDimensions(bytes: Uint8Array): Dimensions | undefined {
+  return readJpegSegments(bytes).dimensions;
+}
+
+function readJpegSegments(bytes: Uint8Array): ContainerSegments {
+  const data = view(bytes);
+  const segments: ContainerSegments = {};
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break;
+    const marker = bytes[offset + 1];
+
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    // Start of scan or end of image: no metadata follows
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = data.getUint16(offset + 2);
+    const start = offset + 4;
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) break;
+
+    if (marker === 0xe1) {
+      if (startsWith(bytes, start, 'Exif\0\0') && !segments.tiff) {
+        segments.tiff = bytes.subarray(start + 6, end);
+      } else if (startsWith(bytes, start, 'http://ns.adobe.com/xap/1.0/\0') && !segments.xmp) {
+        segments.xmp = utf8(bytes.subarray(start + 29, end));
+      }
+    } else if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc &&
+      !segments.dimensions &&
+      length >= 7
+    ) {
+      segments.dimensions = {
+        height: data.getUint16(start + 1),
+        width: data.getUint16(start + 3),
+      };
+    }
+
+    offset = end;
+  }
+
+  return segments;
+}
+
+function readPngSegments(bytes: Uint8Array): ContainerSegments {
+  const data = view(bytes);
+  const segments: ContainerSegments = {};
+  let offset = 8;
+
+  while (offset + 8 <= bytes.length) {
+    const length = data.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const start = offset + 8;
+    const end = start + length;
+    if (end > bytes.length) break;
+
+    if (type === 'IHDR' && length >= 8) {
+      segments.dimensions = { width: data.getUint32(start), height: data.getUint32(start + 4) };
+    } else if (type === 'eXIf' && !segments.tiff) {
+      segments.tiff = bytes.subarray(start, end);
+    } else if (type === 'iTXt' && !segments.xmp) {
+      segments.xmp = readPngXmp(bytes.subarray(start, end));
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    // Chunk data is followed by a 4-byte CRC
+    offset = end + 4;
+  }
+
+  return segments;
+}
+
+/**
+ * iTXt layout: keyword\0 flag method language\0 translated\0 text
+ */
+function readPngXmp(chunk: Uint8Array): string | undefined {
+  const keywordEnd = chunk.indexOf(0);
+  if (keywordEnd < 0 || ascii(chunk, 0, keywordEnd) !== 'XML:com.adobe.xmp') return undefined;
+
+  const compressed = chunk[keywordEnd + 1] === 1;
+  const languageEnd = chunk.indexOf(0, keywordEnd + 3);
+  if (languageEnd < 0) return undefined;
+  const translatedEnd = chunk.indexOf(0, languageEnd + 1);
+  if (translatedEnd < 0) return undefined;
+
+  const text = chunk.subarray(translatedEnd + 1);
+  return utf8(compressed ? inflateSync(text) : text);
+}
+
+interface IsoBox {
+  type: string;
+  start: number;
+  end: number;
+}
+
+function readIsoBoxes(bytes: Uint8Array, start: number, end: number): IsoBox[] {
+  const data = view(bytes);
+  const boxes: IsoBox[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = data.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    let header = 8;
+    if (size === 1) {
+      size = readUint(data, offset + 8, 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+
+    boxes.push({ type, start: offset + header, end: offset + size });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+/**
+ * HEIC keeps EXIF and XMP as items inside the meta box: iinf names the
+ * items and iloc says where their bytes live in the file
+ */
+function readHeicSegments(bytes: Uint8Array): ContainerSegments {
+  const data = view(bytes);
+  const segments: ContainerSegments = {};
+
+  const meta = readIsoBoxes(bytes, 0, bytes.length).find((box) => box.type === 'meta');
+  if (!meta) return segments;
+
+  // meta is a full box: skip version and flags
+  const children = readIsoBoxes(bytes, meta.start + 4, meta.end);
+  const itemTypes = new Map<number, string>();
+  const itemLocations = new Map<number, { offset: number; length: number }>();
+
+  const iinf = children.find((box) => box.type === 'iinf');
+  if (iinf) {
+    const version = bytes[iinf.start];
+    const entriesStart = iinf.start + 4 + (version === 0 ? 2 : 4);
+    for (const infe of readIsoBoxes(bytes, entriesStart, iinf.end)) {
+      if (infe.type !== 'infe') continue;
+      const infeVersion = bytes[infe.start];
+      if (infeVersion < 2) continue;
+      const idSize = infeVersion === 2 ? 2 : 4;
+      const itemId = readUint(data, infe.start + 4, idSize);
+      let itemType = ascii(bytes, infe.start + 4 + idSize + 2, 4);
+      if (itemType === 'mime') {
+        // item_name\0 content_type\0
+        const nameEnd = bytes.indexOf(0, infe.start + 4 + idSize + 6);
+        const typeEnd = bytes.indexOf(0, nameEnd + 1);
+        if (nameEnd >= 0 && typeEnd > nameEnd) {
+          itemType = `mime:${ascii(bytes, nameEnd + 1, typeEnd - nameEnd - 1)}`;
+        }
+      }
+      itemTypes.set(itemId, itemType);
+    }
+  }
+
+  const iloc = children.find((box) => box.type === 'iloc');
+  if (iloc) {
+    const version = bytes[iloc.start];
+    let offset = iloc.start + 4;
+    const offsetSize = bytes[offset] >> 4;
+    const lengthSize = bytes[offset] & 0x0f;
+    const baseOffsetSize = bytes[offset + 1] >> 4;
+    const indexSize = version === 1 || version === 2 ? bytes[offset + 1] & 0x0f : 0;
+    offset += 2;
+
+    const itemCount = readUint(data, offset, version < 2 ? 2 : 4);
+    offset += version < 2 ? 2 : 4;
+
+    for (let i = 0; i < itemCount && offset < iloc.end; i++) {
+      const itemId = readUint(data, offset, version < 2 ? 2 : 4);
+      offset += version < 2 ? 2 : 4;
+      // construction_method; only file offsets (method 0) are supported
+      const constructionMethod = version === 1 || version === 2 ? data.getUint16(offset) & 0x0f : 0;
+      if (version === 1 || version === 2) offset += 2;
+      offset += 2; // data_reference_index
+      const baseOffset = readUint(data, offset, baseOffsetSize);
+      offset += baseOffsetSize;
+      const extentCount = data.getUint16(offset);
+      offset += 2;
+
+      for (let e = 0; e < extentCount; e++) {
+        offset += indexSize;
+        const extentOffset = readUint(data, offset, offsetSize);
+        offset += offsetSize;
+        const extentLength = readUint(data, offset, lengthSize);
+        offset += lengthSize;
+        if (e === 0 && constructionMethod === 0) {
+          itemLocations.set(itemId, { offset: baseOffset + extentOffset, length: extentLength });
+        }
+      }
+    }
+  }
+
+  for (const [itemId, itemType] of itemTypes) {
+    const location = itemLocations.get(itemId);
+    if (!location || location.offset + location.length > bytes.length) continue;
+    const item = bytes.subarray(location.offset, location.offset + location.length);
+
+    if (itemType === 'Exif' && !segments.tiff && item.length > 4) {
+      // Item starts with the offset of the TIFF header from the end of this field
+      const headerOffset = 4 + view(item).getUint32(0);
+      if (headerOffset < item.length) segments.tiff = item.subarray(headerOffset);
+    } else if (itemType === 'mime:application/rdf+xml' && !segments.xmp) {
+      segments.xmp = utf8(item);
+    }
+  }
+
+  // Image spatial extents; the largest is the primary image, not a thumbnail
+  const ipco = children
+    .filter((box) => box.type === 'iprp')
+    .flatMap((iprp) => readIsoBoxes(bytes, iprp.start, iprp.end))
+    .find((box) => box.type === 'ipco');
+  if (ipco) {
+    for (const property of readIsoBoxes(bytes, ipco.start, ipco.end)) {
+      if (property.type !== 'ispe' || property.end - property.start < 12) continue;
+      const width = data.getUint32(property.start + 4);
+      const height = data.getUint32(property.start + 8);
+      if (!segments.dimensions || width * height > segments.dimensions.width * segments.dimensions.height) {
+        segments.dimensions = { width, height };
+      }
+    }
+  }
+
+  return segments;
+}
+
+// =============================================================================
+// TIFF / EXIF
+// =============================================================================
+
+function readTiff(tiff: Uint8Array): TiffReadResult {
+  const data = view(tiff);
+  const byteOrder = ascii(tiff, 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    throw new Error('Invalid TIFF byte order');
+  }
+  const little = byteOrder === 'II';
+  if (data.getUint16(2, little) !== 42) {
+    throw new Error('Invalid TIFF header');
+  }
+
+  const visited = new Set<number>();
+
+  const readValue = (type: number, count: number, valueOffset: number): IfdValue | undefined => {
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      switch (type) {
+        case 1:
+        case 7:
+          values.push(data.getUint8(valueOffset + i));
+          break;
+        case 3:
+          values.push(data.getUint16(valueOffset + i * 2, little));
+          break;
+        case 4:
+          values.push(data.getUint32(valueOffset + i * 4, little));
+          break;
+        case 9:
+          values.push(data.getInt32(valueOffset + i * 4, little));
+          break;
+        case 5: {
+          const denominator = data.getUint32(valueOffset + i * 8 + 4, little);
+          values.push(denominator ? data.getUint32(valueOffset + i * 8, little) / denominator : 0);
+          break;
+        }
+        case 10: {
+          const denominator = data.getInt32(valueOffset + i * 8 + 4, little);
+          values.push(denominator ? data.getInt32(valueOffset + i * 8, little) / denominator : 0);
+          break;
+        }
+        default:
+          return undefined;
+      }
+    }
+    return values.length === 1 ? values[0] : values;
+  };
+
+  const readIfd = (offset: number): { entries: Map<number, IfdValue>; next: number } => {
+    const entries = new Map<number, IfdValue>();
+    if (!offset || visited.has(offset) || offset + 2 > tiff.length) {
+      return { entries, next: 0 };
+    }
+    visited.add(offset);
+
+    const count = Math.min(data.getUint16(offset, little), MAX_IFD_ENTRIES);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > tiff.length) break;
+
+      const tag = data.getUint16(entry, little);
+      const type = data.getUint16(entry + 2, little);
+      const valueCount = data.getUint32(entry + 4, little);
+      const size = TIFF_TYPE_SIZES[type];
+      if (!size) continue;
+
+      const byteLength = size * valueCount;
+      const valueOffset = byteLength <= 4 ? entry + 8 : data.getUint32(entry + 8, little);
+      if (valueOffset + byteLength > tiff.length) continue;
+
+      if (type === 2) {
+        entries.set(tag, ascii(tiff, valueOffset, valueCount).replace(/\0[\s\S]*$/, '').trim());
+      } else if (type === 7 && valueCount > 4) {
+        // Maker notes and similar blobs are not needed for scoring
+        continue;
+      } else {
+        const value = readValue(type, valueCount, valueOffset);
+        if (value !== undefined) entries.set(tag, value);
+      }
+    }
+
+    const nextOffset = offset + 2 + count * 12;
+    const next = nextOffset + 4 <= tiff.length ? data.getUint32(nextOffset, little) : 0;
+    return { entries, next };
+  };
+
+  const ifd0 = readIfd(data.getUint32(4, little));
+  const exifOffset = ifd0.entries.get(TAG.exifIfd);
+  const gpsOffset = ifd0.entries.get(TAG.gpsIfd);
+  const exif = typeof exifOffset === 'number' ? readIfd(exifOffset).entries : new Map<number, IfdValue>();
+  const gps = typeof gpsOffset === 'number' ? readIfd(gpsOffset).entries : new Map<number, IfdValue>();
+  const ifd1 = readIfd(ifd0.next).entries;
+
+  let thumbnail: Uint8Array | undefined;
+  const thumbnailOffset = ifd1.get(TAG.thumbnailOffset);
+  const thumbnailLength = ifd1.get(TAG.thumbnailLength);
+  if (
+    typeof thumbnailOffset === 'number' &&
+    typeof thumbnailLength === 'number' &&
+    thumbnailLength > 0 &&
+    thumbnailOffset + thumbnailLength <= tiff.length
+  ) {
+    thumbnail = tiff.subarray(thumbnailOffset, thumbnailOffset + thumbnailLength);
+  }
+
+  return { ifd0: ifd0.entries, exif, gps, ifd1, thumbnail };
+}
+
+function asString(value: IfdValue | undefined): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function asNumber(value: IfdValue | undefined): number | undefined {
+  if (typeof value === 'number') return value;
+  if (Array.isArray(value) && value.length > 0) return value[0];
+  return undefined;
+}
+
+/**
+ * EXIF dates are "YYYY:MM:DD HH:MM:SS" with the zone in a separate tag.
+ * Without a zone the wall-clock time is returned as if it were UTC.
+ */
+export function parseExifDate(value: string | undefined, offset?: string): string | undefined {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour, minute, second] = match;
+  if (year === '0000' || month === '00' || day === '00') return undefined;
+
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : 'Z';
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function gpsTimestamp(gps: Map<number, IfdValue>): string | undefined {
+  const dateStamp = asString(gps.get(TAG.gpsDateStamp));
+  const timeStamp = gps.get(TAG.gpsTimeStamp);
+  if (!dateStamp || !Array.isArray(timeStamp) || timeStamp.length < 3) return undefined;
+
+  const [hours, minutes, seconds] = timeStamp;
+  const pad = (n: number) => String(Math.floor(n)).padStart(2, '0');
+  return parseExifDate(`${dateStamp} ${pad(hours)}:${pad(minutes)}:${pad(seconds)}`, '+00:00');
+}
+
+function gpsCoordinate(value: IfdValue | undefined, ref: string | undefined): number | undefined {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const [degrees, minutes, seconds] = value;
+  const decimal = degrees + minutes / 60 + seconds / 3600;
+  return ref === 'S' || ref === 'W' ? -decimal : decimal;
+}
+
+/**
+ * XMP writes coordinates as "DDD,MM.mmmmR" or "DDD,MM,SSR"
+ */
+function xmpCoordinate(value: string | undefined): number | undefined {
+  const match = value?.match(/^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/);
+  if (!match) return undefined;
+  const decimal = Number(match[1]) + Number(match[2]) / 60 + Number(match[3] ?? 0) / 3600;
+  return match[4] === 'S' || match[4] === 'W' ? -decimal : decimal;
+}
+
+function validCoordinates(lat: number | undefined, lng: number | undefined): boolean {
+  if (lat === undefined || lng === undefined) return false;
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return false;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return false;
+  // Null Island is what a phone writes when it had no fix
+  return !(lat === 0 && lng === 0);
+}
+
+function parseXmpDate(value: string | undefined): { iso: string; hasZone: boolean } | undefined {
+  if (!value) return undefined;
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(value);
+  const date = new Date(hasZone ? value : `${value}Z`);
+  if (Number.isNaN(date.getTime())) return undefined;
+  return { iso: date.toISOString(), hasZone };
+}
+
+// =============================================================================
+// XMP
+// =============================================================================
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function readXmp(xml: string): { fields: Record<string, string>; historyAgents: string[] } {
+  const fields: Record<string, string> = {};
+
+  for (const name of XMP_FIELDS) {
+    const escaped = escapeRegExp(name);
+    const match =
+      xml.match(new RegExp(`${escaped}="([^"]*)"`)) ??
+      xml.match(new RegExp(`<${escaped}>([^<]*)</${escaped}>`));
+    if (match?.[1]) fields[name] = match[1].trim();
+  }
+
+  const historyAgents = new Set<string>();
+  const agentPattern = /stEvt:softwareAgent(?:="([^"]*)"|>([^<]*)<)/g;
+  for (const match of xml.matchAll(agentPattern)) {
+    const agent = (match[1] ?? match[2] ?? '').trim();
+    if (agent) historyAgents.add(agent);
+  }
+
+  return { fields, historyAgents: Array.from(historyAgents) };
+}
+
+// =============================================================================
+// THUMBNAIL CHECK
+// =============================================================================
+
+/**
+ * The embedded EXIF thumbnail is written by the camera and many editors
+ * leave it untouched, so a crop shows up as a different aspect ratio
+ */
+function thumbnailMatchesImage(thumbnail: Dimensions, image: Dimensions): boolean {
+  if (!thumbnail.width || !thumbnail.height || !image.width || !image.height) return true;
+
+  const thumbnailRatio = thumbnail.width / thumbnail.height;
+  const imageRatio = image.width / image.height;
+  const differs = (a: number, b: number) => Math.abs(a - b) / b > THUMBNAIL_ASPECT_TOLERANCE;
+
+  // Some writers rotate the thumbnail but not the main image
+  return !differs(thumbnailRatio, imageRatio) || !differs(thumbnailRatio, 1 / imageRatio);
+}
+
+// =============================================================================
+// EXTRACTION
+// =============================================================================
+
+function readContainer(bytes: Uint8Array, format: PhotoContainerFormat): ContainerSegments {
+  switch (format) {
+    case 'jpeg':
+      return readJpegSegments(bytes);
+    case 'png':
+      return readPngSegments(bytes);
+    case 'heic':
+      return readHeicSegments(bytes);
+  }
+}
+
+function namedTags(
+  ifd: Map<number, IfdValue>,
+  names: Record<number, string>,
+  target: Record<string, unknown>
+): void {
+  for (const [tag, value] of ifd) {
+    const name = names[tag];
+    if (name) target[name] = value;
+  }
+}
+
+/**
+ * Extract capture time, GPS, camera, editing markers and thumbnail
+ * consistency from image bytes. Malformed metadata never throws; whatever
+ * could be read before the damage is returned.
+ */
+export function extractPhotoMetadata(
+  input: Uint8Array | ArrayBuffer,
+  options: { fileName?: string; fileSize?: number } = {}
+): PhotoMetadataExtraction {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const format = detectPhotoFormat(bytes);
+  const metadata: PhotoMetadata = {
+    hasExif: false,
+    hasGps: false,
+    hasXmp: false,
+    originalFilename: options.fileName,
+    fileSize: options.fileSize ?? bytes.length,
+    format: format ?? undefined,
+    editMarkers: [],
+  };
+
+  if (!format) {
+    return { format, metadata, exif: null, xmp: null };
+  }
+
+  let segments: ContainerSegments = {};
+  try {
+    segments = readContainer(bytes, format);
+  } catch {
+    // Truncated container; keep what was read
+  }
+
+  metadata.dimensions = segments.dimensions;
+  const editMarkers = new Set<string>();
+  let exif: Record<string, unknown> | null = null;
+  let captureTime: { iso: string; hasZone: boolean; source: PhotoMetadata['timestampSource'] } | undefined;
+  // Camera-clock capture time, comparable with the camera-clock modify time
+  let cameraCapturedAt: string | undefined;
+  let modifiedAt: string | undefined;
+
+  if (segments.tiff) {
+    try {
+      const tiff = readTiff(segments.tiff);
+      metadata.hasExif = true;
+      exif = {};
+      namedTags(tiff.ifd0, EXIF_TAG_NAMES, exif);
+      namedTags(tiff.exif, EXIF_TAG_NAMES, exif);
+      namedTags(tiff.gps, GPS_TAG_NAMES, exif);
+
+      const make = asString(tiff.ifd0.get(TAG.make));
+      const model = asString(tiff.ifd0.get(TAG.model));
+      metadata.cameraMake = make;
+      metadata.cameraModel = model;
+      if (make || model) {
+        metadata.device = model?.startsWith(make ?? '') ? model : [make, model].filter(Boolean).join(' ');
+      }
+
+      const software = asString(tiff.ifd0.get(TAG.software));
+      metadata.software = software;
+      if (software && EDITING_SOFTWARE_PATTERN.test(software)) {
+        editMarkers.add(`software:${software}`);
+      }
+
+      const lat = gpsCoordinate(tiff.gps.get(TAG.gpsLatitude), asString(tiff.gps.get(TAG.gpsLatitudeRef)));
+      const lng = gpsCoordinate(tiff.gps.get(TAG.gpsLongitude), asString(tiff.gps.get(TAG.gpsLongitudeRef)));
+      if (validCoordinates(lat, lng)) {
+        metadata.hasGps = true;
+        metadata.latitude = lat;
+        metadata.longitude = lng;
+      }
+
+      // GPS time is UTC from the satellite fix, so it beats the camera clock
+      const offsetOriginal = asString(tiff.exif.get(TAG.offsetTimeOriginal)) ?? asString(tiff.exif.get(TAG.offsetTime));
+      const gpsTime = gpsTimestamp(tiff.gps);
+      const original = parseExifDate(asString(tiff.exif.get(TAG.dateTimeOriginal)), offsetOriginal);
+      const digitized = parseExifDate(
+        asString(tiff.exif.get(TAG.dateTimeDigitized)),
+        asString(tiff.exif.get(TAG.offsetTimeDigitized)) ?? offsetOriginal
+      );
+      if (gpsTime) {
+        captureTime = { iso: gpsTime, hasZone: true, source: 'gps' };
+      } else if (original) {
+        captureTime = { iso: original, hasZone: Boolean(offsetOriginal), source: 'exif_original' };
+      } else if (digitized) {
+        captureTime = { iso: digitized, hasZone: Boolean(offsetOriginal), source: 'exif_digitized' };
+      }
+
+      cameraCapturedAt = original ?? digitized;
+      modifiedAt = parseExifDate(
+        asString(tiff.ifd0.get(TAG.dateTime)),
+        asString(tiff.exif.get(TAG.offsetTime)) ?? offsetOriginal
+      );
+
+      // Stale pixel dimensions mean the image was re-encoded after capture
+      const pixelX = asNumber(tiff.exif.get(TAG.pixelXDimension));
+      const pixelY = asNumber(tiff.exif.get(TAG.pixelYDimension));
+      if (metadata.dimensions && pixelX && pixelY) {
+        const { width, height } = metadata.dimensions;
+        const sameSize = (width === pixelX && height === pixelY) || (width === pixelY && height === pixelX);
+        if (!sameSize) editMarkers.add('exif_dimensions_mismatch');
+      } else if (!metadata.dimensions && pixelX && pixelY) {
+        metadata.dimensions = { width: pixelX, height: pixelY };
+      }
+
+      if (tiff.thumbnail) {
+        const thumbnailDimensions = readJpegDimensions(tiff.thumbnail);
+        if (thumbnailDimensions && metadata.dimensions) {
+          metadata.thumbnailMismatch = !thumbnailMatchesImage(thumbnailDimensions, metadata.dimensions);
+          if (metadata.thumbnailMismatch) editMarkers.add('thumbnail_mismatch');
+        }
+      }
+    } catch {
+      // Corrupt EXIF block; fall back to XMP
+    }
+  }
+
+  let xmp: Record<string, string> | null = null;
+  if (segments.xmp) {
+    const parsed = readXmp(segments.xmp);
+    metadata.hasXmp = true;
+    xmp = parsed.fields;
+
+    const creatorTool = parsed.fields['xmp:CreatorTool'];
+    if (creatorTool && EDITING_SOFTWARE_PATTERN.test(creatorTool)) {
+      editMarkers.add(`software:${creatorTool}`);
+    }
+    for (const agent of parsed.historyAgents) {
+      if (EDITING_SOFTWARE_PATTERN.test(agent)) editMarkers.add(`history:${agent}`);
+    }
+    metadata.software ??= creatorTool;
+
+    if (!metadata.hasGps) {
+      const lat = xmpCoordinate(parsed.fields['exif:GPSLatitude']);
+      const lng = xmpCoordinate(parsed.fields['exif:GPSLongitude']);
+      if (validCoordinates(lat, lng)) {
+        metadata.hasGps = true;
+        metadata.latitude = lat;
+        metadata.longitude = lng;
+      }
+    }
+
+    if (!captureTime) {
+      const xmpDate =
+        parseXmpDate(parsed.fields['exif:DateTimeOriginal']) ??
+        parseXmpDate(parsed.fields['photoshop:DateCreated']) ??
+        parseXmpDate(parsed.fields['xmp:CreateDate']);
+      if (xmpDate) captureTime = { ...xmpDate, source: 'xmp' };
+    }
+    if (!modifiedAt) {
+      cameraCapturedAt = parseXmpDate(parsed.fields['xmp:CreateDate'])?.iso ?? cameraCapturedAt;
+      modifiedAt = parseXmpDate(parsed.fields['xmp:ModifyDate'])?.iso;
+    }
+
+    if (!metadata.device) {
+      const make = parsed.fields['tiff:Make'];
+      const model = parsed.fields['tiff:Model'];
+      metadata.cameraMake = make;
+      metadata.cameraModel = model;
+      if (make || model) metadata.device = [make, model].filter(Boolean).join(' ');
+    }
+  }
+
+  if (captureTime) {
+    metadata.timestamp = captureTime.iso;
+    metadata.timestampSource = captureTime.source;
+    metadata.timestampHasZone = captureTime.hasZone;
+  }
+
+  if (modifiedAt) {
+    metadata.modifiedAt = modifiedAt;
+    if (
+      cameraCapturedAt &&
+      new Date(modifiedAt).getTime() - new Date(cameraCapturedAt).getTime() > MODIFIED_AFTER_CAPTURE_MS
+    ) {
+      editMarkers.add('modified_after_capture');
+    }
+  }
+
+  metadata.editMarkers = Array.from(editMarkers);
+  return { format, metadata, exif, xmp };
+}
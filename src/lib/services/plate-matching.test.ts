@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  autoMatchCandidate,
+  compilePlatePattern,
+  corroborateVehicle,
+  plateEditDistance,
+  plateSimilarity,
+  rankPlateCandidates,
+  searchPartialPlate,
+  DEFAULT_PLATE_MATCH_THRESHOLDS,
+  type PlateRecord,
+} from './plate-matching';
+
+interface TestVehicle extends PlateRecord {
+  id: string;
+}
+
+const vehicles: TestVehicle[] = [
+  { id: 'target', licensePlate: 'GXB1207', state: 'AB', make: 'Honda', model: 'Civic LX', color: 'Grey' },
+  { id: 'lookalike', licensePlate: 'GXB1287', state: 'AB', make: 'Ford', model: 'F-150', color: 'Red' },
+  { id: 'other', licensePlate: 'CKT4419', state: 'BC', make: 'Toyota', model: 'Camry', color: 'White' },
+  { id: 'short', licensePlate: 'GX7', state: 'AB' },
+];
+
+describe('plate matching', () => {
+  describe('plateEditDistance', () => {
+    it('should make OCR confusions cheaper than other substitutions', () => {
+      expect(plateEditDistance('GXB1207', 'GX81207')).toBeCloseTo(0.2);
+      expect(plateEditDistance('GXB1207', 'GXB12O7')).toBeCloseTo(0.1);
+      expect(plateEditDistance('GXB1207', 'GXB1297')).toBe(1);
+    });
+
+    it('should charge less for dropped characters than wrong ones', () => {
+      expect(plateEditDistance('GXB1207', 'GXB207')).toBeCloseTo(0.6);
+      expect(plateEditDistance('GXB1207', 'GXB12077')).toBeCloseTo(0.8);
+      expect(plateEditDistance('GXB1207', 'GXB2107')).toBeCloseTo(0.7);
+    });
+
+    it('should ignore case, spaces and dashes', () => {
+      expect(plateSimilarity('GXB1207', 'gxb-12 07')).toBe(1);
+    });
+  });
+
+  describe('rankPlateCandidates', () => {
+    it('should rank the confusable read above a genuinely different plate', () => {
+      const candidates = rankPlateCandidates({ plate: 'GX8I2O7' }, vehicles);
+      expect(candidates.map((c) => c.vehicle.id)).toEqual(['target', 'lookalike']);
+      expect(candidates[0].score).toBeGreaterThanOrEqual(DEFAULT_PLATE_MATCH_THRESHOLDS.autoMatchScore);
+      expect(candidates[1].score).toBeLessThan(DEFAULT_PLATE_MATCH_THRESHOLDS.autoMatchScore);
+    });
+
+    it('should let make and colour separate plates that read the same', () => {
+      const read = { plate: 'GXB12_7', make: 'Ford', color: 'red' };
+      const [first, second] = rankPlateCandidates(read, vehicles, { ...DEFAULT_PLATE_MATCH_THRESHOLDS, minScore: 0 });
+      expect(first.vehicle.id).toBe('lookalike');
+      expect(first.corroboration.matched).toEqual(['make', 'color']);
+      expect(second.corroboration.contradicted).toEqual(['make', 'color']);
+      expect(second.reasons.at(-1)).toMatch(/Contradicted by make, color/);
+      expect(first.plateScore).toBe(second.plateScore);
+      expect(rankPlateCandidates(read, vehicles).map((c) => c.vehicle.id)).toEqual(['lookalike']);
+    });
+
+    it('should apply configurable thresholds', () => {
+      const strict = { ...DEFAULT_PLATE_MATCH_THRESHOLDS, minScore: 0.95 };
+      expect(rankPlateCandidates({ plate: 'GXB1297' }, vehicles, strict)).toEqual([]);
+      expect(
+        rankPlateCandidates({ plate: 'GXB1297' }, vehicles, { ...DEFAULT_PLATE_MATCH_THRESHOLDS, maxCandidates: 1 })
+      ).toHaveLength(1);
+    });
+  });
+
+  describe('autoMatchCandidate', () => {
+    const twins: TestVehicle[] = [
+      { id: 'letter', licensePlate: 'ABC1O3' },
+      { id: 'digit', licensePlate: 'ABC103' },
+    ];
+
+    it('should send a read to review when the runner-up is about as close', () => {
+      const candidates = rankPlateCandidates({ plate: 'ABC1O3' }, twins);
+      expect(candidates.map((c) => c.score)).toEqual([1, 0.983]);
+      expect(autoMatchCandidate(candidates, 95)).toBeNull();
+      expect(autoMatchCandidate(candidates, 95, { ...DEFAULT_PLATE_MATCH_THRESHOLDS, minAutoMatchMargin: 0 })).toBe(
+        candidates[0]
+      );
+    });
+
+    it('should attach a read that clearly beats every other vehicle', () => {
+      const candidates = rankPlateCandidates({ plate: 'GX8I2O7' }, vehicles);
+      expect(autoMatchCandidate(candidates, 95)?.vehicle.id).toBe('target');
+      expect(autoMatchCandidate(candidates, 40)).toBeNull();
+    });
+  });
+
+  describe('partial plates', () => {
+    it('should match wildcard strings and structured witness descriptions', () => {
+      expect(compilePlatePattern('GX*7').test('GXB1207')).toBe(true);
+      expect(compilePlatePattern('GX*7').test('GX7')).toBe(true);
+      expect(compilePlatePattern('GX?12?7').test('GXB1207')).toBe(true);
+      expect(compilePlatePattern('GX?12?7').test('GXB127')).toBe(false);
+
+      const pattern = compilePlatePattern({ startsWith: 'gx', endsWith: '7', length: 7 });
+      expect(pattern.test('GXB1287')).toBe(true);
+      expect(pattern.test('GX7')).toBe(false);
+      expect(pattern.description).toBe('starts with GX, ends with 7, 7 characters');
+    });
+
+    it('should rank literal matches above look-alike matches', () => {
+      // The Ford is contradicted by the witness's make; the unknown make says nothing
+      const candidates = searchPartialPlate({ startsWith: 'GX', endsWith: '7' }, vehicles, { make: 'Honda' });
+      expect(candidates.map((c) => c.vehicle.id)).toEqual(['target', 'short', 'lookalike']);
+
+      const lookalike = searchPartialPlate('6XB*', vehicles);
+      expect(lookalike.map((c) => c.plateScore)).toEqual([0.8, 0.8]);
+      expect(lookalike[0].reasons[0]).toMatch(/look-alike/);
+    });
+
+    it('should not match everything for an empty pattern', () => {
+      expect(searchPartialPlate('*', vehicles)).toEqual([]);
+      expect(searchPartialPlate({}, vehicles)).toEqual([]);
+    });
+  });
+
+  describe('corroborateVehicle', () => {
+    it('should treat aliases as matches and similar colours as neutral', () => {
+      const record = { licensePlate: 'X', make: 'Chevrolet', model: 'Malibu LT', color: 'Silver', state: 'AB' };
+      expect(corroborateVehicle(record, { make: 'chevy', model: 'malibu', color: 'grey' })).toMatchObject({
+        matched: ['make', 'model'],
+        contradicted: [],
+      });
+      expect(corroborateVehicle(record, { state: 'BC' }).contradicted).toEqual(['state']);
+    });
+  });
+});
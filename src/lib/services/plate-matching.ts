@@ -0,0 +1,454 @@
+/**
+ * Plate Matching
+ * Fuzzy licence plate matching for LPR reads and witness reports. Plates are
+ * compared with a weighted edit distance where characters that OCR and
+ * people commonly confuse (O/0, B/8, I/1...) are cheap to swap and dropped
+ * characters cost less than wrong ones. Partial plates from witnesses are
+ * matched as wildcard patterns. Candidates are ranked against vehicle
+ * records, with make, model, colour and jurisdiction corroborating or
+ * contradicting the plate.
+ */
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const PLATE_MATCH_CONFIG = {
+  // [a, b, cost] pairs; any other substitution costs 1
+  confusions: [
+    ["O", "0", 0.1],
+    ["D", "0", 0.3],
+    ["D", "O", 0.3],
+    ["Q", "O", 0.3],
+    ["Q", "0", 0.3],
+    ["I", "1", 0.1],
+    ["L", "1", 0.4],
+    ["I", "L", 0.4],
+    ["B", "8", 0.2],
+    ["S", "5", 0.2],
+    ["Z", "2", 0.2],
+    ["G", "6", 0.3],
+    ["C", "G", 0.4],
+    ["A", "4", 0.4],
+    ["T", "7", 0.4],
+    ["E", "F", 0.4],
+    ["P", "R", 0.4],
+    ["U", "V", 0.4],
+    ["M", "N", 0.4],
+    ["K", "X", 0.4],
+  ] as const satisfies readonly (readonly [string, string, number])[],
+  // A character on the record that the read missed
+  dropCost: 0.6,
+  // A character in the read that is not on the record
+  insertCost: 0.8,
+  transposeCost: 0.7,
+  // Score for a witness pattern that only matches through confusable characters
+  confusablePatternScore: 0.8,
+  corroboration: {
+    make: { match: 0.04, mismatch: -0.12 },
+    model: { match: 0.03, mismatch: -0.08 },
+    color: { match: 0.03, mismatch: -0.06 },
+    state: { match: 0.02, mismatch: -0.1 },
+  },
+};
+
+export interface PlateMatchThresholds {
+  // Candidates scoring below this are dropped
+  minScore: number;
+  // A read is attached to its top candidate automatically at or above this
+  autoMatchScore: number;
+  // ...and only when the runner-up scores at least this much lower
+  minAutoMatchMargin: number;
+  // LPR reads below this camera confidence always go to review
+  minReadConfidence: number;
+  maxCandidates: number;
+}
+
+export const DEFAULT_PLATE_MATCH_THRESHOLDS: PlateMatchThresholds = {
+  minScore: 0.75,
+  autoMatchScore: 0.9,
+  minAutoMatchMargin: 0.05,
+  minReadConfidence: 60,
+  maxCandidates: 5,
+};
+
+const SUBSTITUTION_COSTS = new Map<string, number>();
+for (const [a, b, cost] of PLATE_MATCH_CONFIG.confusions) {
+  SUBSTITUTION_COSTS.set(a + b, cost);
+  SUBSTITUTION_COSTS.set(b + a, cost);
+}
+
+const MAKE_ALIASES: Record<string, string> = {
+  chevy: "chevrolet",
+  vw: "volkswagen",
+  merc: "mercedes",
+  "mercedes-benz": "mercedes",
+  benz: "mercedes",
+};
+
+const COLOR_ALIASES: Record<string, string> = {
+  gray: "grey",
+  charcoal: "grey",
+  maroon: "red",
+  burgundy: "red",
+  navy: "blue",
+  tan: "beige",
+};
+
+// Colours witnesses and cameras mix up; neither confirms nor contradicts
+const COMPATIBLE_COLORS = [
+  ["grey", "silver"],
+  ["white", "silver"],
+  ["beige", "gold"],
+  ["black", "blue"],
+];
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PlateRecord {
+  licensePlate: string;
+  state?: string;
+  make?: string;
+  model?: string;
+  color?: string;
+}
+
+// What was read or reported about the vehicle besides the plate
+export interface VehicleDescription {
+  state?: string;
+  make?: string;
+  model?: string;
+  color?: string;
+}
+
+export interface PlateObservation extends VehicleDescription {
+  plate: string;
+}
+
+export type CorroborationField = keyof VehicleDescription;
+
+export interface CorroborationResult {
+  adjustment: number;
+  matched: CorroborationField[];
+  contradicted: CorroborationField[];
+}
+
+export interface PlateCandidate<T extends PlateRecord> {
+  vehicle: T;
+  plateScore: number;
+  score: number;
+  corroboration: CorroborationResult;
+  reasons: string[];
+}
+
+export interface PlatePattern {
+  startsWith?: string;
+  endsWith?: string;
+  contains?: string;
+  length?: number;
+}
+
+// =============================================================================
+// PLATE DISTANCE
+// =============================================================================
+
+export function normalizePlate(plate: string): string {
+  return plate.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+export function substitutionCost(a: string, b: string): number {
+  if (a === b) return 0;
+  return SUBSTITUTION_COSTS.get(a + b) ?? 1;
+}
+
+/**
+ * Weighted edit distance from a record's plate to a read of it, allowing
+ * adjacent transpositions
+ */
+export function plateEditDistance(record: string, read: string): number {
+  const a = normalizePlate(record);
+  const b = normalizePlate(read);
+  const { dropCost, insertCost, transposeCost } = PLATE_MATCH_CONFIG;
+
+  const d: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = 1; i <= a.length; i++) d[i][0] = i * dropCost;
+  for (let j = 1; j <= b.length; j++) d[0][j] = j * insertCost;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(
+        d[i - 1][j] + dropCost,
+        d[i][j - 1] + insertCost,
+        d[i - 1][j - 1] + substitutionCost(a[i - 1], b[j - 1])
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + transposeCost);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * Similarity between 0 and 1 of a read to a record's plate
+ */
+export function plateSimilarity(record: string, read: string): number {
+  const length = Math.max(normalizePlate(record).length, normalizePlate(read).length);
+  if (length === 0) return 0;
+  return Math.max(0, 1 - plateEditDistance(record, read) / length);
+}
+
+// =============================================================================
+// PARTIAL PLATES
+// =============================================================================
+
+function confusableClass(char: string): string {
+  const chars = new Set([char]);
+  for (const [a, b] of PLATE_MATCH_CONFIG.confusions) {
+    if (a === char) chars.add(b);
+    if (b === char) chars.add(a);
+  }
+  return chars.size === 1 ? char : `[${[...chars].join("")}]`;
+}
+
+function patternSource(text: string, confusable: boolean): string {
+  return [...text.toUpperCase().replace(/[\s-]/g, "")]
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      if (!/[A-Z0-9]/.test(char)) return "";
+      return confusable ? confusableClass(char) : char;
+    })
+    .join("");
+}
+
+/**
+ * Compile a witness's partial plate. Strings use * for any run of
+ * characters and ? for exactly one ("GX*7", "GX?12?"); structured patterns
+ * say what the plate starts with, ends with or contains.
+ */
+export function compilePlatePattern(
+  query: string | PlatePattern,
+  confusable = false
+): { test(plate: string): boolean; description: string } {
+  let source: string;
+  let length: number | undefined;
+  let description: string;
+
+  if (typeof query === "string") {
+    source = patternSource(query, confusable);
+    description = query.toUpperCase();
+  } else {
+    const parts = [
+      query.startsWith ? patternSource(query.startsWith, confusable) : "",
+      ".*",
+      query.contains ? `${patternSource(query.contains, confusable)}.*` : "",
+      query.endsWith ? patternSource(query.endsWith, confusable) : "",
+    ];
+    source = parts.join("");
+    length = query.length;
+    description = [
+      query.startsWith && `starts with ${query.startsWith.toUpperCase()}`,
+      query.contains && `contains ${query.contains.toUpperCase()}`,
+      query.endsWith && `ends with ${query.endsWith.toUpperCase()}`,
+      query.length && `${query.length} characters`,
+    ]
+      .filter(Boolean)
+      .join(", ");
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  return {
+    description,
+    test: (plate: string) => {
+      const normalized = normalizePlate(plate);
+      return (length === undefined || normalized.length === length) && regex.test(normalized);
+    },
+  };
+}
+
+export function isEmptyPlatePattern(query: string | PlatePattern): boolean {
+  if (typeof query === "string") return normalizePlate(query).length === 0;
+  return !query.startsWith?.trim() && !query.endsWith?.trim() && !query.contains?.trim();
+}
+
+// =============================================================================
+// CORROBORATION
+// =============================================================================
+
+function normalizeWord(value: string, aliases: Record<string, string>): string {
+  const word = value.trim().toLowerCase();
+  return aliases[word] ?? word;
+}
+
+function compareField(field: CorroborationField, record: string, observed: string): boolean | null {
+  if (field === "make") {
+    return normalizeWord(record, MAKE_ALIASES) === normalizeWord(observed, MAKE_ALIASES);
+  }
+  if (field === "model") {
+    // "Civic" corroborates "Civic LX"
+    const a = record.trim().toLowerCase();
+    const b = observed.trim().toLowerCase();
+    return a.startsWith(b) || b.startsWith(a);
+  }
+  if (field === "color") {
+    const a = normalizeWord(record, COLOR_ALIASES);
+    const b = normalizeWord(observed, COLOR_ALIASES);
+    if (a === b) return true;
+    const compatible = COMPATIBLE_COLORS.some((pair) => pair.includes(a) && pair.includes(b));
+    return compatible ? null : false;
+  }
+  return record.trim().toUpperCase() === observed.trim().toUpperCase();
+}
+
+/**
+ * How far the reported description supports or contradicts a record.
+ * Fields missing on either side say nothing.
+ */
+export function corroborateVehicle(record: PlateRecord, observed: VehicleDescription): CorroborationResult {
+  const result: CorroborationResult = { adjustment: 0, matched: [], contradicted: [] };
+
+  for (const field of ["state", "make", "model", "color"] as const) {
+    const recordValue = record[field];
+    const observedValue = observed[field];
+    if (!recordValue || !observedValue) continue;
+
+    const outcome = compareField(field, recordValue, observedValue);
+    if (outcome === true) {
+      result.matched.push(field);
+      result.adjustment += PLATE_MATCH_CONFIG.corroboration[field].match;
+    } else if (outcome === false) {
+      result.contradicted.push(field);
+      result.adjustment += PLATE_MATCH_CONFIG.corroboration[field].mismatch;
+    }
+  }
+
+  return result;
+}
+
+// =============================================================================
+// RANKING
+// =============================================================================
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function buildCandidate<T extends PlateRecord>(
+  vehicle: T,
+  plateScore: number,
+  plateReason: string,
+  observed: VehicleDescription
+): PlateCandidate<T> {
+  const corroboration = corroborateVehicle(vehicle, observed);
+  const reasons = [plateReason];
+  if (corroboration.matched.length > 0) {
+    reasons.push(`Corroborated by ${corroboration.matched.join(", ")}`);
+  }
+  if (corroboration.contradicted.length > 0) {
+    reasons.push(`Contradicted by ${corroboration.contradicted.join(", ")}`);
+  }
+
+  return {
+    vehicle,
+    plateScore: round3(plateScore),
+    score: round3(Math.min(1, Math.max(0, plateScore + corroboration.adjustment))),
+    corroboration,
+    reasons,
+  };
+}
+
+function rank<T extends PlateRecord>(
+  candidates: PlateCandidate<T>[],
+  thresholds: PlateMatchThresholds
+): PlateCandidate<T>[] {
+  return candidates
+    .filter((c) => c.score >= thresholds.minScore)
+    .sort((a, b) => b.score - a.score || b.plateScore - a.plateScore)
+    .slice(0, thresholds.maxCandidates);
+}
+
+/**
+ * Rank vehicle records against a full plate read
+ */
+export function rankPlateCandidates<T extends PlateRecord>(
+  observation: PlateObservation,
+  vehicles: T[],
+  thresholds: PlateMatchThresholds = DEFAULT_PLATE_MATCH_THRESHOLDS
+): PlateCandidate<T>[] {
+  const read = normalizePlate(observation.plate);
+  if (!read) return [];
+
+  const candidates = vehicles
+    // More than two characters apart can never reach a useful score
+    .filter((v) => Math.abs(normalizePlate(v.licensePlate).length - read.length) <= 2)
+    .map((vehicle) => {
+      const plate = normalizePlate(vehicle.licensePlate);
+      const similarity = plateSimilarity(plate, read);
+      const reason =
+        plate === read
+          ? "Exact plate match"
+          : `Plate ${read} is ${Math.round(similarity * 100)}% similar to ${plate}`;
+      return buildCandidate(vehicle, similarity, reason, observation);
+    });
+
+  return rank(candidates, thresholds);
+}
+
+/**
+ * Rank vehicle records against a witness's partial plate. Plates that only
+ * match when confusable characters are swapped score lower than literal
+ * matches.
+ */
+export function searchPartialPlate<T extends PlateRecord>(
+  query: string | PlatePattern,
+  vehicles: T[],
+  observed: VehicleDescription = {},
+  thresholds: PlateMatchThresholds = DEFAULT_PLATE_MATCH_THRESHOLDS
+): PlateCandidate<T>[] {
+  if (isEmptyPlatePattern(query)) return [];
+
+  const strict = compilePlatePattern(query);
+  const loose = compilePlatePattern(query, true);
+
+  const candidates: PlateCandidate<T>[] = [];
+  for (const vehicle of vehicles) {
+    if (strict.test(vehicle.licensePlate)) {
+      candidates.push(buildCandidate(vehicle, 1, `Plate matches ${strict.description}`, observed));
+    } else if (loose.test(vehicle.licensePlate)) {
+      candidates.push(
+        buildCandidate(
+          vehicle,
+          PLATE_MATCH_CONFIG.confusablePatternScore,
+          `Plate matches ${loose.description} allowing look-alike characters`,
+          observed
+        )
+      );
+    }
+  }
+
+  return rank(candidates, thresholds);
+}
+
+/**
+ * The candidate a read can be attached to without review: it must clear the
+ * auto-match score, the camera must be confident enough, and no other
+ * vehicle may come close. Returns null when a person should decide.
+ */
+export function autoMatchCandidate<T extends PlateRecord>(
+  candidates: PlateCandidate<T>[],
+  readConfidence: number,
+  thresholds: PlateMatchThresholds = DEFAULT_PLATE_MATCH_THRESHOLDS
+): PlateCandidate<T> | null {
+  const [best, runnerUp] = candidates;
+  if (!best || best.score < thresholds.autoMatchScore || readConfidence < thresholds.minReadConfidence) {
+    return null;
+  }
+  if (runnerUp && round3(best.score - runnerUp.score) < thresholds.minAutoMatchMargin) {
+    return null;
+  }
+  return best;
+}
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { assessPriority, getPriorityDisplay } from './priority-engine';
+import { QC_SPVM_V1 } from '@/types';
+import { priorityWeightConfigSchema } from '@/lib/validations/priority-profile';
 
 describe('Priority Engine', () => {
   describe('assessPriority', () => {
@@ -613,6 +615,63 @@ describe('Priority Engine', () => {
       });
     });
 
+    describe('Versioned profiles', () => {
+      const baseInput = {
+        age: 8,
+        hoursMissing: 0,
+        hasMedicalCondition: false,
+        requiresDailyMedication: false,
+        hasMentalHealthCondition: false,
+        suicidalRisk: false,
+        suspectedAbduction: false,
+        domesticViolenceHistory: false,
+        outOfCharacter: false,
+        hasFinancialResources: true,
+        adverseWeather: false,
+      };
+
+      it('should report version 1 for built-in profiles', () => {
+        const result = assessPriority(baseInput);
+
+        expect(result.profileVersion).toBe(1);
+        expect(result.explanation.some(e => e.includes('weights v1'))).toBe(true);
+      });
+
+      it('should accept a resolved profile with custom weights', () => {
+        const result = assessPriority(baseInput, {
+          ...QC_SPVM_V1,
+          version: 3,
+          priorityWeights: { ...QC_SPVM_V1.priorityWeights, ageUnder12: 45 },
+        });
+
+        expect(result.score).toBe(45);
+        expect(result.jurisdiction).toBe('qc_spvm_v1');
+        expect(result.profileVersion).toBe(3);
+      });
+
+      it('should accept built-in weights as a valid weight set', () => {
+        expect(priorityWeightConfigSchema.safeParse(QC_SPVM_V1.priorityWeights).success).toBe(true);
+      });
+
+      it('should reject thresholds that do not decrease', () => {
+        const result = priorityWeightConfigSchema.safeParse({
+          ...QC_SPVM_V1.priorityWeights,
+          thresholds: { priority0: 60, priority1: 60, priority2: 40, priority3: 20 },
+        });
+
+        expect(result.success).toBe(false);
+      });
+
+      it('should reject negative weights', () => {
+        const result = priorityWeightConfigSchema.safeParse({
+          ...QC_SPVM_V1.priorityWeights,
+          suicidalRisk: -5,
+        });
+
+        expect(result.success).toBe(false);
+      });
+    });
+
     describe('Explanation generation', () => {
       it('should include priority level in explanation', () => {
         const result = assessPriority({
@@ -2,15 +2,16 @@ import type { MissingPerson, PriorityLevel, PriorityFactor } from "@/types";
 import type { JurisdictionProfile, PriorityWeightConfig } from "@/types";
 import { QC_SPVM_V1, GENERIC_PROFILE } from "@/types";
 
-interface PriorityAssessment {
+export interface PriorityAssessment {
   level: PriorityLevel;
   score: number;
   factors: PriorityFactor[];
   explanation: string[];
   jurisdiction: string;
+  profileVersion: number;
 }
 
-interface AssessmentInput {
+export interface AssessmentInput {
   age: number;
   hoursMissing?: number;
   hourssMissing?: number;
@@ -26,15 +27,28 @@ interface AssessmentInput {
   weatherRiskPoints?: number;
 }
 
+/**
+ * Built-in profiles used when no stored weight set is available
+ */
+export const BUILTIN_JURISDICTION_PROFILES: Record<string, JurisdictionProfile> = {
+  qc_spvm_v1: QC_SPVM_V1,
+  generic: GENERIC_PROFILE,
+};
+
 /**
  * Priority Assessment Engine
- * Calculates priority level based on jurisdiction-specific weights
+ * Calculates priority level based on jurisdiction-specific weights.
+ * Accepts either a built-in profile id or a resolved profile (e.g. a
+ * versioned weight set loaded from the database).
  */
 export function assessPriority(
   input: AssessmentInput,
-  jurisdictionId: string = "qc_spvm_v1"
+  jurisdiction: string | JurisdictionProfile = "qc_spvm_v1"
 ): PriorityAssessment {
-  const profile = getJurisdictionProfile(jurisdictionId);
+  const profile =
+    typeof jurisdiction === "string"
+      ? getJurisdictionProfile(jurisdiction)
+      : jurisdiction;
   const weights = profile.priorityWeights;
   const hoursMissing = input.hoursMissing ?? input.hourssMissing ?? 0;
 
@@ -218,7 +232,12 @@ export function assessPriority(
   const level = calculatePriorityLevel(totalScore, weights.thresholds);
 
   // Generate explanation
-  const explanation = generateExplanation(factors, level, profile.name);
+  const explanation = generateExplanation(
+    factors,
+    level,
+    profile.name,
+    profile.version ?? 1
+  );
 
   return {
     level,
@@ -226,6 +245,7 @@ export function assessPriority(
     factors,
     explanation,
     jurisdiction: profile.id,
+    profileVersion: profile.version ?? 1,
   };
 }
 
@@ -243,7 +263,8 @@ function calculatePriorityLevel(
 function generateExplanation(
   factors: PriorityFactor[],
   level: PriorityLevel,
-  jurisdictionName: string
+  jurisdictionName: string,
+  profileVersion: number
 ): string[] {
   const priorityLabels = {
     0: "CRITICAL - Immediate response required",
@@ -255,7 +276,7 @@ function generateExplanation(
 
   const explanation = [
     `Priority Level: ${level} - ${priorityLabels[level]}`,
-    `Assessment based on: ${jurisdictionName} protocol`,
+    `Assessment based on: ${jurisdictionName} protocol (weights v${profileVersion})`,
     "",
     "Contributing factors:",
     ...factors.map((f) => `• ${f.description} (+${f.weight} points)`),
@@ -264,13 +285,8 @@ function generateExplanation(
   return explanation;
 }
 
-function getJurisdictionProfile(id: string): JurisdictionProfile {
-  const profiles: Record<string, JurisdictionProfile> = {
-    qc_spvm_v1: QC_SPVM_V1,
-    generic: GENERIC_PROFILE,
-  };
-
-  return profiles[id] || GENERIC_PROFILE;
+export function getJurisdictionProfile(id: string): JurisdictionProfile {
+  return BUILTIN_JURISDICTION_PROFILES[id] || GENERIC_PROFILE;
 }
 
 /**
@@ -0,0 +1,457 @@
+/**
+ * Priority Profile Service
+ * Stores versioned jurisdiction weight sets and records which version
+ * produced every priority assessment so past decisions can be replayed.
+ */
+
+import { createHash } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  assessPriority,
+  getJurisdictionProfile,
+  BUILTIN_JURISDICTION_PROFILES,
+  type AssessmentInput,
+  type PriorityAssessment,
+} from "@/lib/services/priority-engine";
+import type {
+  JurisdictionProfile,
+  PriorityAssessmentRecord,
+  PriorityWeightConfig,
+  PriorityWeightProfileVersion,
+} from "@/types";
+import type { CreatePriorityProfileVersionData } from "@/lib/validations/priority-profile";
+import {
+  deriveAssessmentInputFromCase,
+  type HistoricalIntake,
+} from "@/lib/services/priority-simulator";
+
+// Case ids per .in() filter, keeping the request URL well under proxy limits
+const IN_FILTER_CHUNK = 200;
+const PAGE_SIZE = 1000;
+
+export interface AssessmentReplay {
+  record: PriorityAssessmentRecord;
+  replayed: PriorityAssessment;
+  checksumMatches: boolean;
+  scoreMatches: boolean;
+  levelMatches: boolean;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Canonical JSON (sorted keys) so equal weight sets always hash the same
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function computeWeightsChecksum(weights: PriorityWeightConfig): string {
+  return createHash("sha256").update(canonicalJson(weights)).digest("hex");
+}
+
+/**
+ * Build an engine profile from a stored version, keeping the non-weight
+ * configuration (integrations, legal, contacts) of the matching built-in.
+ */
+export function toJurisdictionProfile(
+  version: PriorityWeightProfileVersion
+): JurisdictionProfile {
+  const base = getJurisdictionProfile(version.profileKey);
+  return {
+    ...base,
+    id: version.profileKey,
+    name: version.name,
+    version: version.version,
+    priorityWeights: version.weights,
+  };
+}
+
+function mapProfileRow(row: Record<string, unknown>): PriorityWeightProfileVersion {
+  return {
+    id: row.id as string,
+    profileKey: row.profile_key as string,
+    version: row.version as number,
+    name: row.name as string,
+    jurisdictionId: (row.jurisdiction_id as string) || null,
+    weights: row.weights as PriorityWeightConfig,
+    status: row.status as PriorityWeightProfileVersion["status"],
+    checksum: row.checksum as string,
+    changeNotes: row.change_notes as string,
+    createdBy: (row.created_by as string) || null,
+    createdAt: row.created_at as string,
+    activatedBy: (row.activated_by as string) || null,
+    activatedAt: (row.activated_at as string) || null,
+    retiredAt: (row.retired_at as string) || null,
+  };
+}
+
+function mapAssessmentRow(row: Record<string, unknown>): PriorityAssessmentRecord {
+  return {
+    id: row.id as string,
+    caseId: row.case_id as string,
+    profileVersionId: (row.profile_version_id as string) || null,
+    profileKey: row.profile_key as string,
+    profileVersion: row.profile_version as number,
+    profileChecksum: row.profile_checksum as string,
+    input: (row.input as Record<string, unknown>) || {},
+    score: row.score as number,
+    level: row.level as PriorityAssessmentRecord["level"],
+    factors: (row.factors as PriorityAssessmentRecord["factors"]) || [],
+    explanation: (row.explanation as string[]) || [],
+    assessedBy: (row.assessed_by as string) || null,
+    assessedAt: row.assessed_at as string,
+  };
+}
+
+export interface HistoricalIntakeFilters {
+  jurisdictionId?: string;
+  since?: string;
+  limit?: number;
+}
+
+const CASE_PRIORITY_LEVELS = [
+  "p0_critical",
+  "p1_high",
+  "p2_medium",
+  "p3_low",
+  "p4_routine",
+] as const;
+
+/**
+ * Profile versions and assessments are read and written as the request's
+ * user: construct one per request with the route's client
+ */
+export class PriorityProfileService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * List stored profile versions, newest first
+   */
+  async listVersions(profileKey?: string): Promise<PriorityWeightProfileVersion[]> {
+    let query = this.supabase
+      .from("priority_weight_profiles")
+      .select("*")
+      .order("profile_key", { ascending: true })
+      .order("version", { ascending: false });
+
+    if (profileKey) {
+      query = query.eq("profile_key", profileKey);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to fetch priority profiles: ${error.message}`);
+    }
+
+    return (data || []).map(mapProfileRow);
+  }
+
+  async getVersion(id: string): Promise<PriorityWeightProfileVersion | null> {
+    const { data, error } = await this.supabase
+      .from("priority_weight_profiles")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return mapProfileRow(data);
+  }
+
+  async getActiveVersion(profileKey: string): Promise<PriorityWeightProfileVersion | null> {
+    const { data, error } = await this.supabase
+      .from("priority_weight_profiles")
+      .select("*")
+      .eq("profile_key", profileKey)
+      .eq("status", "active")
+      .maybeSingle();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return mapProfileRow(data);
+  }
+
+  /**
+   * Find the profile key whose active version is linked to a jurisdiction
+   */
+  async getProfileKeyForJurisdiction(jurisdictionId: string): Promise<string | null> {
+    const { data } = await this.supabase
+      .from("priority_weight_profiles")
+      .select("profile_key")
+      .eq("jurisdiction_id", jurisdictionId)
+      .eq("status", "active")
+      .limit(1)
+      .maybeSingle();
+
+    return (data?.profile_key as string | undefined) ?? null;
+  }
+
+  /**
+   * Create a new draft version; weights are never edited in place
+   */
+  async createVersion(
+    input: CreatePriorityProfileVersionData,
+    userId: string
+  ): Promise<PriorityWeightProfileVersion> {
+    const { data: latest } = await this.supabase
+      .from("priority_weight_profiles")
+      .select("version")
+      .eq("profile_key", input.profileKey)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data, error } = await this.supabase
+      .from("priority_weight_profiles")
+      .insert({
+        profile_key: input.profileKey,
+        version: ((latest?.version as number | undefined) ?? 0) + 1,
+        name: input.name.trim(),
+        jurisdiction_id: input.jurisdictionId ?? null,
+        weights: input.weights,
+        checksum: computeWeightsChecksum(input.weights),
+        status: "draft",
+        change_notes: input.changeNotes.trim(),
+        created_by: userId,
+      })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to create priority profile: ${error?.message}`);
+    }
+
+    return mapProfileRow(data);
+  }
+
+  /**
+   * Activate a draft version, retiring the version it replaces
+   */
+  async activateVersion(id: string, userId: string): Promise<PriorityWeightProfileVersion> {
+    const target = await this.getVersion(id);
+    if (!target) {
+      throw new Error("Priority profile not found");
+    }
+    if (target.status !== "draft") {
+      throw new Error(`Only draft profiles can be activated (current status: ${target.status})`);
+    }
+
+    // Retiring the active version and activating this one happen in one
+    // transaction, so the key is never left without an active version
+    const { data, error } = await this.supabase
+      .rpc("activate_priority_profile_version", { p_profile_id: id, p_actor: userId })
+      .single<Record<string, unknown>>();
+
+    if (error || !data) {
+      throw new Error(`Failed to activate priority profile: ${error?.message}`);
+    }
+
+    return mapProfileRow(data);
+  }
+
+  /**
+   * Resolve the profile used for new assessments. Falls back to the
+   * built-in profile when no version has been stored for the key.
+   */
+  async resolveProfile(
+    profileKey: string
+  ): Promise<{ profile: JurisdictionProfile; version: PriorityWeightProfileVersion | null }> {
+    const active = await this.getActiveVersion(profileKey);
+    if (active) {
+      return { profile: toJurisdictionProfile(active), version: active };
+    }
+
+    if (profileKey !== "generic" && !BUILTIN_JURISDICTION_PROFILES[profileKey]) {
+      return this.resolveProfile("generic");
+    }
+
+    return { profile: getJurisdictionProfile(profileKey), version: null };
+  }
+
+  /**
+   * Assess a case with the active profile and record the result
+   */
+  async assessCase(
+    caseId: string,
+    input: AssessmentInput,
+    profileKey: string,
+    userId: string
+  ): Promise<PriorityAssessmentRecord> {
+    const { profile, version } = await this.resolveProfile(profileKey);
+    const assessment = assessPriority(input, profile);
+
+    const { data, error } = await this.supabase
+      .from("priority_assessments")
+      .insert({
+        case_id: caseId,
+        profile_version_id: version?.id ?? null,
+        profile_key: profile.id,
+        profile_version: assessment.profileVersion,
+        profile_checksum: computeWeightsChecksum(profile.priorityWeights),
+        input,
+        score: assessment.score,
+        level: assessment.level,
+        factors: assessment.factors,
+        explanation: assessment.explanation,
+        assessed_by: userId,
+      })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to record priority assessment: ${error?.message}`);
+    }
+
+    const { error: caseError } = await this.supabase
+      .from("cases")
+      .update({
+        priority_level: CASE_PRIORITY_LEVELS[assessment.level],
+        priority_score: assessment.score,
+        priority_factors: assessment.factors,
+      })
+      .eq("id", caseId);
+
+    if (caseError) {
+      console.error("[PriorityProfileService] Failed to update case priority:", caseError);
+    }
+
+    return mapAssessmentRow(data);
+  }
+
+  async listAssessments(caseId: string): Promise<PriorityAssessmentRecord[]> {
+    const { data, error } = await this.supabase
+      .from("priority_assessments")
+      .select("*")
+      .eq("case_id", caseId)
+      .order("assessed_at", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch priority assessments: ${error.message}`);
+    }
+
+    return (data || []).map(mapAssessmentRow);
+  }
+
+  /**
+   * Re-run a recorded assessment against the exact weight set that
+   * produced it and report whether the original result is reproduced.
+   */
+  async replayAssessment(assessmentId: string): Promise<AssessmentReplay | null> {
+    const { data, error } = await this.supabase
+      .from("priority_assessments")
+      .select("*")
+      .eq("id", assessmentId)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    const record = mapAssessmentRow(data);
+    const version = record.profileVersionId
+      ? await this.getVersion(record.profileVersionId)
+      : null;
+
+    const profile = version
+      ? toJurisdictionProfile(version)
+      : getJurisdictionProfile(record.profileKey);
+
+    const replayed = assessPriority(record.input as unknown as AssessmentInput, profile);
+
+    return {
+      record,
+      replayed,
+      checksumMatches:
+        computeWeightsChecksum(profile.priorityWeights) === record.profileChecksum,
+      scoreMatches: replayed.score === record.score,
+      levelMatches: replayed.level === record.level,
+    };
+  }
+
+  /**
+   * Load the intake answers for historical cases. Uses the first recorded
+   * assessment input where one exists, otherwise derives it from the case row.
+   */
+  async loadHistoricalIntakes(filters: HistoricalIntakeFilters = {}): Promise<HistoricalIntake[]> {
+    let caseQuery = this.supabase
+      .from("cases")
+      .select(
+        "id, case_number, created_at, date_of_birth, age_at_disappearance, last_seen_date, medical_conditions, medications, is_medication_dependent, mental_health_conditions, is_suicidal_risk, suspected_abduction, suspected_foul_play, intake_metadata"
+      )
+      .order("created_at", { ascending: false })
+      .limit(filters.limit ?? 5000);
+
+    if (filters.jurisdictionId) {
+      caseQuery = caseQuery.eq("jurisdiction_id", filters.jurisdictionId);
+    }
+    if (filters.since) {
+      caseQuery = caseQuery.gte("created_at", filters.since);
+    }
+
+    const { data: cases, error } = await caseQuery;
+    if (error) {
+      throw new Error(`Failed to fetch historical cases: ${error.message}`);
+    }
+    if (!cases || cases.length === 0) {
+      return [];
+    }
+
+    // Earliest assessment per case, read in chunks of cases and pages of rows
+    const firstInputs = new Map<string, AssessmentInput>();
+    for (const caseIds of chunk(cases.map((c) => c.id as string), IN_FILTER_CHUNK)) {
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data: assessments, error: assessmentError } = await this.supabase
+          .from("priority_assessments")
+          .select("case_id, input, assessed_at")
+          .in("case_id", caseIds)
+          .order("assessed_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (assessmentError) {
+          throw new Error(`Failed to fetch historical assessments: ${assessmentError.message}`);
+        }
+
+        for (const row of assessments || []) {
+          if (!firstInputs.has(row.case_id as string)) {
+            firstInputs.set(row.case_id as string, row.input as AssessmentInput);
+          }
+        }
+        if (!assessments || assessments.length < PAGE_SIZE) break;
+      }
+    }
+
+    return cases.map((row) => {
+      const recorded = firstInputs.get(row.id as string);
+      return {
+        caseId: row.id as string,
+        caseNumber: (row.case_number as string) || null,
+        input: recorded ?? deriveAssessmentInputFromCase(row),
+        source: recorded ? "assessment" : "case_record",
+      };
+    });
+  }
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  simulatePriorityChange,
+  buildCandidateProfile,
+  deriveAssessmentInputFromCase,
+  type HistoricalIntake,
+} from './priority-simulator';
+import { QC_SPVM_V1 } from '@/types';
+
+const baseInput = {
+  age: 30,
+  hoursMissing: 0,
+  hasMedicalCondition: false,
+  requiresDailyMedication: false,
+  hasMentalHealthCondition: false,
+  suicidalRisk: false,
+  suspectedAbduction: false,
+  domesticViolenceHistory: false,
+  outOfCharacter: false,
+  hasFinancialResources: true,
+  adverseWeather: false,
+};
+
+function intake(caseId: string, overrides: Partial<typeof baseInput> = {}): HistoricalIntake {
+  return {
+    caseId,
+    caseNumber: `LC-${caseId}`,
+    input: { ...baseInput, ...overrides },
+    source: 'assessment',
+  };
+}
+
+describe('Priority Simulator', () => {
+  describe('simulatePriorityChange', () => {
+    it('should report no movement when weights are unchanged', () => {
+      const report = simulatePriorityChange(
+        [intake('1', { age: 8 }), intake('2', { suicidalRisk: true })],
+        QC_SPVM_V1,
+        buildCandidateProfile(QC_SPVM_V1, QC_SPVM_V1.priorityWeights)
+      );
+
+      expect(report.totalCases).toBe(2);
+      expect(report.movedCases).toBe(0);
+      expect(report.factorImpact).toHaveLength(0);
+      expect(report.passed).toBe(true);
+    });
+
+    it('should count level changes and attribute them to factors', () => {
+      // Child under 12 scores 30 (P3); raising the weight to 45 crosses the P2 threshold of 40
+      const candidate = buildCandidateProfile(QC_SPVM_V1, {
+        ...QC_SPVM_V1.priorityWeights,
+        ageUnder12: 45,
+      });
+
+      const report = simulatePriorityChange(
+        [intake('1', { age: 8 }), intake('2', { age: 40 })],
+        QC_SPVM_V1,
+        candidate
+      );
+
+      expect(report.movedCases).toBe(1);
+      expect(report.upgraded).toBe(1);
+      expect(report.levelMatrix[3][2]).toBe(1);
+      expect(report.levelMatrix[4][4]).toBe(1);
+      expect(report.changes[0].responsibleFactors).toEqual([
+        { factor: 'age_under_12', delta: 15 },
+      ]);
+      expect(report.factorImpact[0]).toMatchObject({
+        factor: 'age_under_12',
+        casesAffected: 1,
+        casesMoved: 1,
+        totalDelta: 15,
+      });
+    });
+
+    it('should build score distributions and means for both profiles', () => {
+      const candidate = buildCandidateProfile(QC_SPVM_V1, {
+        ...QC_SPVM_V1.priorityWeights,
+        ageUnder12: 50,
+      });
+
+      const report = simulatePriorityChange([intake('1', { age: 8 })], QC_SPVM_V1, candidate);
+
+      expect(report.meanScore).toEqual({ baseline: 30, candidate: 50 });
+      expect(report.scoreDistribution).toEqual([
+        { range: '20-39', baseline: 1, candidate: 0 },
+        { range: '40-59', baseline: 0, candidate: 1 },
+      ]);
+    });
+
+    it('should fail the moved-ratio check when too many cases change', () => {
+      const candidate = buildCandidateProfile(QC_SPVM_V1, {
+        ...QC_SPVM_V1.priorityWeights,
+        thresholds: { priority0: 90, priority1: 70, priority2: 50, priority3: 35 },
+      });
+
+      const report = simulatePriorityChange(
+        [intake('1', { age: 8 }), intake('2', { age: 8 })],
+        QC_SPVM_V1,
+        candidate,
+        { maxMovedRatio: 0.5 }
+      );
+
+      expect(report.movedCases).toBe(2);
+      expect(report.downgraded).toBe(2);
+      expect(report.passed).toBe(false);
+      expect(report.regressions[0]).toContain('2 of 2 cases');
+    });
+
+    it('should fail when a protected level is downgraded', () => {
+      const candidate = buildCandidateProfile(QC_SPVM_V1, {
+        ...QC_SPVM_V1.priorityWeights,
+        suspectedAbduction: 20,
+      });
+
+      const report = simulatePriorityChange(
+        [intake('1', { age: 8, suspectedAbduction: true, outOfCharacter: true })],
+        QC_SPVM_V1,
+        candidate,
+        { forbidDowngradeAtOrAbove: 0 }
+      );
+
+      expect(report.changes[0].baselineLevel).toBe(0);
+      expect(report.passed).toBe(false);
+    });
+  });
+
+  describe('deriveAssessmentInputFromCase', () => {
+    it('should derive age and hours missing from case dates', () => {
+      const input = deriveAssessmentInputFromCase({
+        date_of_birth: '2015-06-01',
+        last_seen_date: '2026-01-10T00:00:00Z',
+        created_at: '2026-01-11T12:00:00Z',
+        medications: ['insulin'],
+        suspected_foul_play: true,
+      });
+
+      expect(input.age).toBe(10);
+      expect(input.hoursMissing).toBe(36);
+      expect(input.requiresDailyMedication).toBe(true);
+      expect(input.suspectedAbduction).toBe(true);
+      expect(input.hasFinancialResources).toBe(true);
+    });
+
+    it('should read out-of-character flag from intake metadata', () => {
+      const input = deriveAssessmentInputFromCase({
+        age_at_disappearance: 70,
+        last_seen_date: '2026-01-10T00:00:00Z',
+        created_at: '2026-01-10T00:00:00Z',
+        intake_metadata: { circumstances: { outOfCharacter: true } },
+      });
+
+      expect(input.age).toBe(70);
+      expect(input.outOfCharacter).toBe(true);
+    });
+  });
+});
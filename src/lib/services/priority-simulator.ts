@@ -0,0 +1,277 @@
+/**
+ * Priority What-If Simulator
+ * Replays historical intakes against a candidate weight set and reports
+ * how many cases would move between priority levels and why.
+ */
+
+import type { JurisdictionProfile, PriorityLevel, PriorityWeightConfig } from "@/types";
+import {
+  assessPriority,
+  type AssessmentInput,
+} from "@/lib/services/priority-engine";
+
+export interface HistoricalIntake {
+  caseId: string;
+  caseNumber: string | null;
+  input: AssessmentInput;
+  source: "assessment" | "case_record";
+}
+
+export interface SimulationChecks {
+  // Fail when more than this share (0-1) of cases change level
+  maxMovedRatio?: number;
+  // Fail when any case at or above this level is downgraded
+  forbidDowngradeAtOrAbove?: PriorityLevel;
+}
+
+export interface SimulatedCaseChange {
+  caseId: string;
+  caseNumber: string | null;
+  baselineLevel: PriorityLevel;
+  candidateLevel: PriorityLevel;
+  baselineScore: number;
+  candidateScore: number;
+  responsibleFactors: { factor: string; delta: number }[];
+}
+
+export interface FactorImpact {
+  factor: string;
+  casesAffected: number;
+  casesMoved: number;
+  totalDelta: number;
+}
+
+export interface ScoreBucket {
+  range: string;
+  baseline: number;
+  candidate: number;
+}
+
+export interface SimulationReport {
+  baselineProfile: { id: string; version: number };
+  candidateProfile: { id: string; version: number };
+  totalCases: number;
+  movedCases: number;
+  upgraded: number;
+  downgraded: number;
+  // levelMatrix[from][to] = number of cases
+  levelMatrix: number[][];
+  baselineLevelCounts: number[];
+  candidateLevelCounts: number[];
+  scoreDistribution: ScoreBucket[];
+  meanScore: { baseline: number; candidate: number };
+  factorImpact: FactorImpact[];
+  changes: SimulatedCaseChange[];
+  regressions: string[];
+  passed: boolean;
+}
+
+const LEVELS: PriorityLevel[] = [0, 1, 2, 3, 4];
+const SCORE_BUCKET_SIZE = 20;
+
+function bucketLabel(score: number): string {
+  const start = Math.floor(score / SCORE_BUCKET_SIZE) * SCORE_BUCKET_SIZE;
+  return `${start}-${start + SCORE_BUCKET_SIZE - 1}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Run every intake through both profiles and build a diff report
+ */
+export function simulatePriorityChange(
+  intakes: HistoricalIntake[],
+  baseline: JurisdictionProfile,
+  candidate: JurisdictionProfile,
+  checks: SimulationChecks = {}
+): SimulationReport {
+  const levelMatrix = LEVELS.map(() => LEVELS.map(() => 0));
+  const baselineLevelCounts = LEVELS.map(() => 0);
+  const candidateLevelCounts = LEVELS.map(() => 0);
+  const buckets = new Map<string, { start: number; baseline: number; candidate: number }>();
+  const impact = new Map<string, FactorImpact>();
+  const changes: SimulatedCaseChange[] = [];
+  let baselineTotal = 0;
+  let candidateTotal = 0;
+  let upgraded = 0;
+  let downgraded = 0;
+
+  const addToBucket = (score: number, key: "baseline" | "candidate") => {
+    const label = bucketLabel(score);
+    const bucket = buckets.get(label) || {
+      start: Math.floor(score / SCORE_BUCKET_SIZE) * SCORE_BUCKET_SIZE,
+      baseline: 0,
+      candidate: 0,
+    };
+    bucket[key] += 1;
+    buckets.set(label, bucket);
+  };
+
+  for (const intake of intakes) {
+    const before = assessPriority(intake.input, baseline);
+    const after = assessPriority(intake.input, candidate);
+
+    levelMatrix[before.level][after.level] += 1;
+    baselineLevelCounts[before.level] += 1;
+    candidateLevelCounts[after.level] += 1;
+    baselineTotal += before.score;
+    candidateTotal += after.score;
+    addToBucket(before.score, "baseline");
+    addToBucket(after.score, "candidate");
+
+    // Factor deltas: same factor key in both runs, weight may differ
+    const beforeWeights = new Map(before.factors.map((f) => [f.factor, f.weight]));
+    const afterWeights = new Map(after.factors.map((f) => [f.factor, f.weight]));
+    const factorKeys = new Set([...beforeWeights.keys(), ...afterWeights.keys()]);
+    const moved = before.level !== after.level;
+
+    const responsibleFactors: { factor: string; delta: number }[] = [];
+    for (const factor of factorKeys) {
+      const delta = (afterWeights.get(factor) ?? 0) - (beforeWeights.get(factor) ?? 0);
+      if (delta === 0) continue;
+
+      const entry = impact.get(factor) || {
+        factor,
+        casesAffected: 0,
+        casesMoved: 0,
+        totalDelta: 0,
+      };
+      entry.casesAffected += 1;
+      entry.totalDelta += delta;
+      if (moved) entry.casesMoved += 1;
+      impact.set(factor, entry);
+
+      responsibleFactors.push({ factor, delta });
+    }
+
+    if (moved) {
+      if (after.level < before.level) upgraded += 1;
+      else downgraded += 1;
+
+      changes.push({
+        caseId: intake.caseId,
+        caseNumber: intake.caseNumber,
+        baselineLevel: before.level,
+        candidateLevel: after.level,
+        baselineScore: before.score,
+        candidateScore: after.score,
+        responsibleFactors: responsibleFactors.sort(
+          (a, b) => Math.abs(b.delta) - Math.abs(a.delta)
+        ),
+      });
+    }
+  }
+
+  const totalCases = intakes.length;
+  const regressions: string[] = [];
+
+  if (checks.maxMovedRatio !== undefined && totalCases > 0) {
+    const ratio = changes.length / totalCases;
+    if (ratio > checks.maxMovedRatio) {
+      regressions.push(
+        `${changes.length} of ${totalCases} cases (${round(ratio * 100)}%) changed level; limit is ${round(checks.maxMovedRatio * 100)}%`
+      );
+    }
+  }
+
+  if (checks.forbidDowngradeAtOrAbove !== undefined) {
+    const limit = checks.forbidDowngradeAtOrAbove;
+    const forbidden = changes.filter(
+      (c) => c.baselineLevel <= limit && c.candidateLevel > c.baselineLevel
+    );
+    if (forbidden.length > 0) {
+      regressions.push(
+        `${forbidden.length} case(s) at priority ${limit} or higher would be downgraded`
+      );
+    }
+  }
+
+  return {
+    baselineProfile: { id: baseline.id, version: baseline.version ?? 1 },
+    candidateProfile: { id: candidate.id, version: candidate.version ?? 1 },
+    totalCases,
+    movedCases: changes.length,
+    upgraded,
+    downgraded,
+    levelMatrix,
+    baselineLevelCounts,
+    candidateLevelCounts,
+    scoreDistribution: [...buckets.entries()]
+      .sort((a, b) => a[1].start - b[1].start)
+      .map(([range, b]) => ({ range, baseline: b.baseline, candidate: b.candidate })),
+    meanScore: {
+      baseline: totalCases ? round(baselineTotal / totalCases) : 0,
+      candidate: totalCases ? round(candidateTotal / totalCases) : 0,
+    },
+    factorImpact: [...impact.values()].sort(
+      (a, b) => b.casesMoved - a.casesMoved || Math.abs(b.totalDelta) - Math.abs(a.totalDelta)
+    ),
+    changes,
+    regressions,
+    passed: regressions.length === 0,
+  };
+}
+
+/**
+ * Build a candidate engine profile from a baseline and proposed weights
+ */
+export function buildCandidateProfile(
+  baseline: JurisdictionProfile,
+  weights: PriorityWeightConfig
+): JurisdictionProfile {
+  return {
+    ...baseline,
+    name: `${baseline.name} (candidate)`,
+    version: (baseline.version ?? 1) + 1,
+    priorityWeights: weights,
+  };
+}
+
+function hasEntries(value: unknown): boolean {
+  return Array.isArray(value) && value.length > 0;
+}
+
+/**
+ * Derive engine input from a stored case row for cases that were never
+ * assessed. Fields the intake form does not capture default to the
+ * lowest-risk answer.
+ */
+export function deriveAssessmentInputFromCase(
+  row: Record<string, unknown>,
+  createdAt: Date = new Date((row.created_at as string) || Date.now())
+): AssessmentInput {
+  let age = typeof row.age_at_disappearance === "number" ? row.age_at_disappearance : null;
+  if (age === null && typeof row.date_of_birth === "string") {
+    const dob = new Date(row.date_of_birth);
+    const lastSeen = new Date((row.last_seen_date as string) || createdAt);
+    age = Math.floor((lastSeen.getTime() - dob.getTime()) / (365.25 * 24 * 60 * 60 * 1000));
+  }
+
+  const lastSeen = row.last_seen_date ? new Date(row.last_seen_date as string) : createdAt;
+  const hoursMissing = Math.max(
+    0,
+    Math.floor((createdAt.getTime() - lastSeen.getTime()) / (60 * 60 * 1000))
+  );
+
+  const intakeMetadata = (row.intake_metadata as {
+    circumstances?: { outOfCharacter?: boolean | null };
+  } | null) || null;
+
+  return {
+    age: age ?? 30,
+    hoursMissing,
+    hasMedicalCondition: hasEntries(row.medical_conditions),
+    requiresDailyMedication:
+      row.is_medication_dependent === true || hasEntries(row.medications),
+    hasMentalHealthCondition: hasEntries(row.mental_health_conditions),
+    suicidalRisk: row.is_suicidal_risk === true,
+    suspectedAbduction:
+      row.suspected_abduction === true || row.suspected_foul_play === true,
+    domesticViolenceHistory: false,
+    outOfCharacter: intakeMetadata?.circumstances?.outOfCharacter === true,
+    hasFinancialResources: true,
+    adverseWeather: false,
+  };
+}
@@ -42,6 +42,12 @@ export interface BulkPushResult {
   errors?: string[];
 }
 
+export interface PushSubscriberLocation {
+  latitude: number | null;
+  longitude: number | null;
+  province: string | null;
+}
+
 interface PushSubscription {
   id: string;
   user_id: string;
@@ -270,6 +276,70 @@ class PushServiceImpl {
     return { success: sent > 0, sent, failed, expired };
   }
 
+  /**
+   * Send to AMBER subscribers wherever they are, keeping those the
+   * predicate accepts. Subscriptions without a shared location are matched
+   * on the subscriber's profile province.
+   */
+  async sendToArea(
+    inArea: (subscriber: PushSubscriberLocation) => boolean,
+    notification: PushNotification
+  ): Promise<BulkPushResult> {
+    const supabase = await createClient();
+
+    const { data: subscriptions, error } = await supabase
+      .from('push_subscriptions')
+      .select(`
+        id, user_id, endpoint, keys, latitude, longitude,
+        profiles!inner (
+          province,
+          notification_preferences
+        )
+      `);
+
+    if (error || !subscriptions?.length) {
+      console.log('[PUSH] No subscribers found for alert area');
+      return { success: true, sent: 0, failed: 0, expired: 0 };
+    }
+
+    const eligibleSubscriptions = subscriptions.filter(sub => {
+      const profile = sub.profiles as unknown as {
+        province?: string | null;
+        notification_preferences?: { amber_alerts?: boolean };
+      };
+      return profile?.notification_preferences?.amber_alerts !== false && inArea({
+        latitude: sub.latitude as number | null,
+        longitude: sub.longitude as number | null,
+        province: profile?.province ?? null,
+      });
+    });
+
+    console.log(`[PUSH] Sending to ${eligibleSubscriptions.length} subscribers in alert area`);
+
+    let sent = 0;
+    let failed = 0;
+    let expired = 0;
+
+    for (const sub of eligibleSubscriptions) {
+      const result = await this.sendToSubscription(
+        { id: sub.id, user_id: sub.user_id, endpoint: sub.endpoint, keys: sub.keys as { p256dh: string; auth: string } },
+        notification
+      );
+
+      if (result.success) {
+        sent++;
+      } else {
+        failed++;
+        if (result.error?.includes('expired') || result.error?.includes('410')) {
+          expired++;
+          await supabase.from('push_subscriptions').delete().eq('id', sub.id);
+        }
+      }
+    }
+
+    return { success: sent > 0, sent, failed, expired };
+  }
+
   /**
    * Send AMBER Alert push notification
    */
@@ -282,6 +352,8 @@ class PushServiceImpl {
     abductionProvince: string;
     childPhotoUrl?: string;
     alertUrl: string;
+    // Limit to subscribers in the alert area rather than whole provinces
+    inArea?: (subscriber: PushSubscriberLocation) => boolean;
   }): Promise<BulkPushResult> {
     const notification: PushNotification = {
       title: `🚨 AMBER Alert: ${options.childName}`,
@@ -303,7 +375,41 @@ class PushServiceImpl {
       },
     };
 
-    return this.sendToProvinces(options.provinces, notification);
+    return options.inArea
+      ? this.sendToArea(options.inArea, notification)
+      : this.sendToProvinces(options.provinces, notification);
+  }
+
+  /**
+   * Send an update or cancellation for an AMBER Alert. Shares the alert's
+   * tag, so it replaces the original notification on the device.
+   */
+  async sendAmberAlertFollowUp(options: {
+    provinces: string[];
+    alertNumber: string;
+    kind: 'update' | 'cancel';
+    title: string;
+    body: string;
+    alertUrl: string;
+    inArea?: (subscriber: PushSubscriberLocation) => boolean;
+  }): Promise<BulkPushResult> {
+    const notification: PushNotification = {
+      title: options.title,
+      body: options.body,
+      icon: '/icons/amber-alert.png',
+      badge: '/icons/badge-amber.png',
+      url: options.alertUrl,
+      requireInteraction: options.kind === 'update',
+      tag: `amber-${options.alertNumber}`,
+      data: {
+        type: `amber_alert_${options.kind}`,
+        alertNumber: options.alertNumber,
+      },
+    };
+
+    return options.inArea
+      ? this.sendToArea(options.inArea, notification)
+      : this.sendToProvinces(options.provinces, notification);
   }
 
   /**
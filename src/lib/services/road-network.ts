@@ -0,0 +1,276 @@
+/**
+ * Road Network
+ * In-memory road graph built from a locally loaded GeoJSON extract (e.g. an
+ * OpenStreetMap export of the search area), so sighting paths can be routed
+ * along roads without calling an external routing service. Vertices shared
+ * by LineStrings become junctions; shortest paths are by travel time at the
+ * posted or road-class speed.
+ */
+
+import { haversineDistance, type LatLng } from "@/lib/services/geofence-spatial-index";
+
+export interface RoadFeatureProperties {
+  highway?: string;
+  // Posted limit in km/h; OSM strings such as "60" or "40 mph" are accepted
+  maxspeed?: number | string;
+  oneway?: boolean | string;
+}
+
+export interface RoadFeatureCollection {
+  type: "FeatureCollection";
+  features: Array<{
+    type: "Feature";
+    properties?: RoadFeatureProperties | null;
+    geometry: {
+      type: "LineString" | "MultiLineString";
+      coordinates: number[][] | number[][][];
+    };
+  }>;
+}
+
+export interface RoadPath {
+  points: LatLng[];
+  distanceKm: number;
+  travelMinutes: number;
+}
+
+interface RoadEdge {
+  to: number;
+  distanceKm: number;
+  minutes: number;
+}
+
+// Speeds for roads without a posted limit, by OSM highway class
+export const ROAD_CLASS_SPEED_KPH: Record<string, number> = {
+  motorway: 110,
+  trunk: 90,
+  primary: 70,
+  secondary: 60,
+  tertiary: 50,
+  residential: 40,
+  service: 20,
+  unclassified: 40,
+};
+export const DEFAULT_ROAD_SPEED_KPH = 50;
+
+// Grid cell for nearest-node lookup, roughly 1 km
+const CELL_DEGREES = 0.01;
+
+function parseSpeed(properties: RoadFeatureProperties): number {
+  const { maxspeed, highway } = properties;
+  if (typeof maxspeed === "number" && maxspeed > 0) return maxspeed;
+  if (typeof maxspeed === "string") {
+    const value = parseFloat(maxspeed);
+    if (value > 0) return /mph/i.test(maxspeed) ? value * 1.609 : value;
+  }
+  return (highway && ROAD_CLASS_SPEED_KPH[highway]) || DEFAULT_ROAD_SPEED_KPH;
+}
+
+function isOneway(properties: RoadFeatureProperties): boolean {
+  return properties.oneway === true || properties.oneway === "yes" || properties.oneway === "1";
+}
+
+function cellKey(lat: number, lng: number): string {
+  return `${Math.floor(lat / CELL_DEGREES)}:${Math.floor(lng / CELL_DEGREES)}`;
+}
+
+/**
+ * Binary min-heap of [node, cost] pairs for Dijkstra
+ */
+class MinHeap {
+  private items: Array<[number, number]> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(node: number, cost: number): void {
+    const items = this.items;
+    items.push([node, cost]);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent][1] <= items[i][1]) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): [number, number] | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left][1] < items[smallest][1]) smallest = left;
+        if (right < items.length && items[right][1] < items[smallest][1]) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+export class RoadNetwork {
+  private nodes: LatLng[] = [];
+  private nodeIds = new Map<string, number>();
+  private adjacency: RoadEdge[][] = [];
+  private grid = new Map<string, number[]>();
+  private edges = 0;
+
+  static fromGeoJSON(collection: RoadFeatureCollection): RoadNetwork {
+    const network = new RoadNetwork();
+    for (const feature of collection.features) {
+      const properties = feature.properties ?? {};
+      const lines =
+        feature.geometry.type === "LineString"
+          ? [feature.geometry.coordinates as number[][]]
+          : (feature.geometry.coordinates as number[][][]);
+      for (const line of lines) {
+        network.addRoad(
+          line.map(([lng, lat]) => ({ lat, lng })),
+          parseSpeed(properties),
+          isOneway(properties)
+        );
+      }
+    }
+    return network;
+  }
+
+  get nodeCount(): number {
+    return this.nodes.length;
+  }
+
+  get edgeCount(): number {
+    return this.edges;
+  }
+
+  addRoad(points: LatLng[], speedKph: number, oneway = false): void {
+    for (let i = 1; i < points.length; i++) {
+      const from = this.nodeFor(points[i - 1]);
+      const to = this.nodeFor(points[i]);
+      if (from === to) continue;
+
+      const distanceKm = haversineDistance(this.nodes[from], this.nodes[to]);
+      const minutes = (distanceKm / speedKph) * 60;
+      this.adjacency[from].push({ to, distanceKm, minutes });
+      this.edges++;
+      if (!oneway) {
+        this.adjacency[to].push({ to: from, distanceKm, minutes });
+        this.edges++;
+      }
+    }
+  }
+
+  /**
+   * Closest junction or road vertex within maxMeters, or null when the
+   * point is off the network
+   */
+  nearestNode(point: LatLng, maxMeters: number): number | null {
+    // Cells are narrowest east-west, so size the search ring by longitude
+    const cellMeters = CELL_DEGREES * 111_320 * Math.max(Math.cos((point.lat * Math.PI) / 180), 0.01);
+    const ring = Math.ceil(maxMeters / cellMeters);
+    const baseLat = Math.floor(point.lat / CELL_DEGREES);
+    const baseLng = Math.floor(point.lng / CELL_DEGREES);
+
+    let best: number | null = null;
+    let bestMeters = maxMeters;
+    for (let dLat = -ring; dLat <= ring; dLat++) {
+      for (let dLng = -ring; dLng <= ring; dLng++) {
+        for (const node of this.grid.get(`${baseLat + dLat}:${baseLng + dLng}`) ?? []) {
+          const meters = haversineDistance(point, this.nodes[node]) * 1000;
+          if (meters <= bestMeters) {
+            best = node;
+            bestMeters = meters;
+          }
+        }
+      }
+    }
+    return best;
+  }
+
+  node(id: number): LatLng {
+    return this.nodes[id];
+  }
+
+  /**
+   * Fastest path between two nodes, or null when they are not connected or
+   * every path takes longer than maxMinutes
+   */
+  shortestPath(from: number, to: number, maxMinutes = Infinity): RoadPath | null {
+    const { minutes, previous } = this.search(from, maxMinutes, to);
+    if (!minutes.has(to)) return null;
+
+    const ids = [to];
+    while (ids[0] !== from) ids.unshift(previous.get(ids[0])!);
+
+    let distanceKm = 0;
+    for (let i = 1; i < ids.length; i++) {
+      distanceKm += haversineDistance(this.nodes[ids[i - 1]], this.nodes[ids[i]]);
+    }
+    return { points: ids.map((id) => this.nodes[id]), distanceKm, travelMinutes: minutes.get(to)! };
+  }
+
+  /**
+   * Travel time in minutes to every node reachable within maxMinutes
+   */
+  reachable(from: number, maxMinutes: number): Map<number, number> {
+    return this.search(from, maxMinutes).minutes;
+  }
+
+  private search(
+    from: number,
+    maxMinutes: number,
+    target?: number
+  ): { minutes: Map<number, number>; previous: Map<number, number> } {
+    const minutes = new Map<number, number>([[from, 0]]);
+    const previous = new Map<number, number>();
+    const settled = new Set<number>();
+    const heap = new MinHeap();
+    heap.push(from, 0);
+
+    while (heap.size > 0) {
+      const [node, cost] = heap.pop()!;
+      if (settled.has(node)) continue;
+      settled.add(node);
+      if (node === target) break;
+
+      for (const edge of this.adjacency[node]) {
+        const next = cost + edge.minutes;
+        if (next > maxMinutes) continue;
+        if (next < (minutes.get(edge.to) ?? Infinity)) {
+          minutes.set(edge.to, next);
+          previous.set(edge.to, node);
+          heap.push(edge.to, next);
+        }
+      }
+    }
+
+    return { minutes, previous };
+  }
+
+  private nodeFor(point: LatLng): number {
+    // ~10 cm precision so vertices shared between ways merge into junctions
+    const key = `${point.lat.toFixed(6)},${point.lng.toFixed(6)}`;
+    let id = this.nodeIds.get(key);
+    if (id === undefined) {
+      id = this.nodes.length;
+      this.nodes.push({ lat: point.lat, lng: point.lng });
+      this.adjacency.push([]);
+      this.nodeIds.set(key, id);
+
+      const cell = cellKey(point.lat, point.lng);
+      const bucket = this.grid.get(cell);
+      if (bucket) bucket.push(id);
+      else this.grid.set(cell, [id]);
+    }
+    return id;
+  }
+}
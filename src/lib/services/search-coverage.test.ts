@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { computeSearchCoverage, computeSectorCoverage, searchSegments } from './search-coverage';
+import type { SearchSector, VolunteerTrack, VolunteerTrackPoint } from '@/types/law-enforcement.types';
+
+const ORIGIN = { lat: 53.5, lng: -113.5 };
+const KM_LAT = 1 / 111.32;
+const KM_LNG = KM_LAT / Math.cos((ORIGIN.lat * Math.PI) / 180);
+
+// Point x km east and y km north of the origin
+function at(x: number, y: number) {
+  return { lat: ORIGIN.lat + y * KM_LAT, lng: ORIGIN.lng + x * KM_LNG };
+}
+
+// 200 m x 200 m sector with its south-west corner at (x, 0)
+function sector(id: string, x = 0, extra: Partial<SearchSector> = {}): SearchSector {
+  return {
+    id,
+    name: `Sector ${id}`,
+    geometry: [at(x, 0), at(x + 0.2, 0), at(x + 0.2, 0.2), at(x, 0.2)],
+    priority: 1,
+    status: 'in_progress',
+    findings: [],
+    areaKm2: 0.04,
+    ...extra,
+  };
+}
+
+// Walk east-west lanes `spacing` km apart across the sector at 3 km/h, a fix every 30 s
+function lawnmower(x: number, spacing: number): VolunteerTrackPoint[] {
+  const points: VolunteerTrackPoint[] = [];
+  let time = Date.parse('2026-01-17T10:00:00Z');
+  for (let lane = 0, y = spacing / 2; y < 0.2; lane++, y += spacing) {
+    const xs = [0, 0.025, 0.05, 0.075, 0.1, 0.125, 0.15, 0.175, 0.2];
+    for (const dx of lane % 2 === 0 ? xs : [...xs].reverse()) {
+      points.push({ ...at(x + dx, y), timestamp: new Date(time).toISOString(), accuracy: 5 });
+      time += 30_000;
+    }
+  }
+  return points;
+}
+
+function track(points: VolunteerTrackPoint[], sweepWidthMeters?: number): VolunteerTrack {
+  return {
+    id: crypto.randomUUID(),
+    searchPartyId: 'party',
+    volunteerId: 'vol',
+    points,
+    sweepWidthMeters,
+    uploadedAt: '2026-01-17T12:00:00Z',
+  };
+}
+
+describe('search coverage', () => {
+  it('should ignore inaccurate fixes, long gaps and vehicle speeds', () => {
+    const t0 = Date.parse('2026-01-17T10:00:00Z');
+    const fix = (x: number, seconds: number, accuracy = 5) => ({
+      ...at(x, 0.1),
+      timestamp: new Date(t0 + seconds * 1000).toISOString(),
+      accuracy,
+    });
+
+    const segments = searchSegments([
+      fix(0, 0),
+      fix(0.02, 30),
+      fix(0.04, 60, 200),
+      // 10 minutes later: not assumed searched
+      fix(0.05, 630),
+      fix(0.07, 660),
+      // 1 km in 30 s
+      fix(1.07, 690),
+    ]);
+    expect(segments).toHaveLength(2);
+  });
+
+  it('should report full coverage for lanes spaced at the sweep width', () => {
+    const result = computeSectorCoverage(sector('a'), [track(lawnmower(0, 0.02))], {
+      sweepWidthMeters: 20,
+      targetPod: 0.7,
+      maxAccuracyMeters: 50,
+      maxGapSeconds: 300,
+      maxSearchSpeedKph: 8,
+    });
+
+    expect(result.coverage).toBeGreaterThan(0.95);
+    // One pass: 1 - e^-1
+    expect(result.pod).toBeCloseTo(0.63, 1);
+    expect(result.needsResearch).toBe(true);
+    expect(result.heat.passes.filter((p) => p >= 0).length).toBeGreaterThan(100);
+  });
+
+  it('should leave gaps between lanes wider than the sweep width', () => {
+    const result = computeSectorCoverage(sector('a'), [track(lawnmower(0, 0.04))]);
+    expect(result.coverage).toBeGreaterThan(0.4);
+    expect(result.coverage).toBeLessThan(0.65);
+  });
+
+  it('should compound POD over repeat searches and clear the re-search flag', () => {
+    const tracks = [track(lawnmower(0, 0.02)), track(lawnmower(0, 0.02))];
+    const result = computeSectorCoverage(sector('a'), tracks);
+    // Two passes: 1 - e^-2
+    expect(result.pod).toBeCloseTo(0.86, 1);
+    expect(result.needsResearch).toBe(false);
+  });
+
+  it('should count a wider sweep width as more ground covered', () => {
+    const narrow = computeSectorCoverage(sector('a'), [track(lawnmower(0, 0.04))]);
+    const dogTeam = computeSectorCoverage(sector('a'), [track(lawnmower(0, 0.04), 40)]);
+    expect(dogTeam.coverage).toBeGreaterThan(narrow.coverage);
+  });
+
+  it('should order re-searching by the probability left in each sector', () => {
+    const sectors = [
+      sector('low', 0, { poa: 0.05 }),
+      sector('high', 0.3, { poa: 0.3 }),
+      sector('untouched', 0.6, { poa: 0.4, status: 'unassigned' }),
+    ];
+    const tracks = [track(lawnmower(0, 0.04)), track(lawnmower(0.3, 0.04))];
+
+    const { sectors: results, researchOrder } = computeSearchCoverage(sectors, tracks);
+    expect(researchOrder).toEqual(['high', 'low']);
+
+    const untouched = results.find((r) => r.sectorId === 'untouched')!;
+    expect(untouched.coverage).toBe(0);
+    // Not searched yet, so not a re-search
+    expect(untouched.needsResearch).toBe(false);
+    expect(untouched.remainingPoa).toBe(0.4);
+  });
+});
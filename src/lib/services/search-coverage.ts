@@ -0,0 +1,183 @@
+/**
+ * Search Coverage
+ * Measures how thoroughly each sector was searched from volunteers' GPS
+ * tracks. Each sector is rasterised into cells; a track sweeps every cell
+ * within half the sweep width of its path, and each pass over a cell adds
+ * one unit of coverage. Probability of detection follows the exponential
+ * detection function, so one pass detects 63% and repeated passes
+ * compound: POD = 1 - e^-passes.
+ */
+
+import { containsPoint, projection, type PlanePoint } from "@/lib/services/search-planning";
+import type {
+  SearchSector,
+  SectorCoverage,
+  VolunteerTrack,
+  VolunteerTrackPoint,
+} from "@/types/law-enforcement.types";
+
+export interface CoverageOptions {
+  sweepWidthMeters: number;
+  // Sectors searched to less than this POD are flagged for re-searching
+  targetPod: number;
+  // Fixes less accurate than this are dropped
+  maxAccuracyMeters: number;
+  // Longer gaps between fixes are not assumed to be searched
+  maxGapSeconds: number;
+  // Faster than walking means a ride between areas, not searching
+  maxSearchSpeedKph: number;
+}
+
+export const DEFAULT_COVERAGE_OPTIONS: CoverageOptions = {
+  sweepWidthMeters: 20,
+  targetPod: 0.7,
+  maxAccuracyMeters: 50,
+  maxGapSeconds: 300,
+  maxSearchSpeedKph: 8,
+};
+
+// Cap on raster cells per sector; cells grow beyond half the sweep width to stay under it
+const MAX_CELLS = 4000;
+
+function segmentDistance(p: PlanePoint, a: PlanePoint, b: PlanePoint): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+/**
+ * Consecutive fixes that look like searching on foot: both accurate, close
+ * enough in time and at walking pace
+ */
+export function searchSegments(
+  points: VolunteerTrackPoint[],
+  options: CoverageOptions = DEFAULT_COVERAGE_OPTIONS
+): Array<[VolunteerTrackPoint, VolunteerTrackPoint]> {
+  const fixes = points
+    .filter((p) => (p.accuracy ?? 0) <= options.maxAccuracyMeters)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const segments: Array<[VolunteerTrackPoint, VolunteerTrackPoint]> = [];
+  for (let i = 1; i < fixes.length; i++) {
+    const a = fixes[i - 1];
+    const b = fixes[i];
+    const seconds = (new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()) / 1000;
+    if (seconds <= 0 || seconds > options.maxGapSeconds) continue;
+
+    const { toPlane } = projection(a);
+    const end = toPlane(b);
+    const kph = Math.hypot(end.x, end.y) / (seconds / 3600);
+    if (kph <= options.maxSearchSpeedKph) segments.push([a, b]);
+  }
+  return segments;
+}
+
+/**
+ * Coverage, POD and a pass-count heat grid for one sector
+ */
+export function computeSectorCoverage(
+  sector: SearchSector,
+  tracks: VolunteerTrack[],
+  options: CoverageOptions = DEFAULT_COVERAGE_OPTIONS
+): SectorCoverage {
+  const origin = {
+    lat: sector.geometry.reduce((sum, p) => sum + p.lat, 0) / sector.geometry.length,
+    lng: sector.geometry.reduce((sum, p) => sum + p.lng, 0) / sector.geometry.length,
+  };
+  const { toPlane, toLatLng } = projection(origin);
+  const polygon = sector.geometry.map(toPlane);
+
+  const minX = Math.min(...polygon.map((p) => p.x));
+  const maxX = Math.max(...polygon.map((p) => p.x));
+  const minY = Math.min(...polygon.map((p) => p.y));
+  const maxY = Math.max(...polygon.map((p) => p.y));
+  const cell = Math.max(
+    options.sweepWidthMeters / 2000,
+    Math.sqrt(((maxX - minX) * (maxY - minY)) / MAX_CELLS)
+  );
+  const columns = Math.max(1, Math.ceil((maxX - minX) / cell));
+  const rows = Math.max(1, Math.ceil((maxY - minY) / cell));
+  const centreOf = (index: number): PlanePoint => ({
+    x: minX + ((index % columns) + 0.5) * cell,
+    y: maxY - (Math.floor(index / columns) + 0.5) * cell,
+  });
+
+  // -1 marks cells outside the sector
+  const passes: number[] = Array.from({ length: rows * columns }, (_, i) =>
+    containsPoint(polygon, centreOf(i)) ? 0 : -1
+  );
+
+  for (const track of tracks) {
+    const halfWidthKm = (track.sweepWidthMeters ?? options.sweepWidthMeters) / 2000;
+    const segments = searchSegments(track.points, options).map(([a, b]) => ({ a: toPlane(a), b: toPlane(b) }));
+
+    // A volunteer crossing the same ground twice in one stint is one pass
+    const swept = new Set<number>();
+    for (const { a, b } of segments) {
+      const c0 = Math.max(0, Math.floor((Math.min(a.x, b.x) - halfWidthKm - minX) / cell));
+      const c1 = Math.min(columns - 1, Math.floor((Math.max(a.x, b.x) + halfWidthKm - minX) / cell));
+      const r0 = Math.max(0, Math.floor((maxY - Math.max(a.y, b.y) - halfWidthKm) / cell));
+      const r1 = Math.min(rows - 1, Math.floor((maxY - Math.min(a.y, b.y) + halfWidthKm) / cell));
+      for (let row = r0; row <= r1; row++) {
+        for (let column = c0; column <= c1; column++) {
+          const index = row * columns + column;
+          if (passes[index] >= 0 && segmentDistance(centreOf(index), a, b) <= halfWidthKm) {
+            swept.add(index);
+          }
+        }
+      }
+    }
+    for (const index of swept) passes[index]++;
+  }
+
+  const inside = passes.filter((p) => p >= 0);
+  const coverage = inside.length > 0 ? inside.filter((p) => p > 0).length / inside.length : 0;
+  const pod = inside.length > 0 ? inside.reduce((sum, p) => sum + (1 - Math.exp(-p)), 0) / inside.length : 0;
+  const searched = coverage > 0 || sector.status === "completed";
+
+  const northWest = toLatLng({ x: minX, y: maxY });
+  const southEast = toLatLng({ x: minX + columns * cell, y: maxY - rows * cell });
+
+  return {
+    sectorId: sector.id,
+    sectorName: sector.name,
+    areaKm2: sector.areaKm2 ?? Math.round(inside.length * cell * cell * 1000) / 1000,
+    coverage: Math.round(coverage * 1000) / 1000,
+    pod: Math.round(pod * 1000) / 1000,
+    poa: sector.poa,
+    remainingPoa: sector.poa !== undefined ? Math.round(sector.poa * (1 - pod) * 10000) / 10000 : undefined,
+    needsResearch: searched && pod < options.targetPod,
+    heat: {
+      rows,
+      columns,
+      north: northWest.lat,
+      south: southEast.lat,
+      east: southEast.lng,
+      west: northWest.lng,
+      passes,
+    },
+  };
+}
+
+/**
+ * Coverage for every sector, with the sectors to re-search ordered by the
+ * probability still left in them per km²
+ */
+export function computeSearchCoverage(
+  sectors: SearchSector[],
+  tracks: VolunteerTrack[],
+  options: CoverageOptions = DEFAULT_COVERAGE_OPTIONS
+): { sectors: SectorCoverage[]; researchOrder: string[] } {
+  const results = sectors.map((sector) => computeSectorCoverage(sector, tracks, options));
+
+  const remaining = (c: SectorCoverage) =>
+    c.remainingPoa !== undefined && c.areaKm2 > 0 ? c.remainingPoa / c.areaKm2 : 1 - c.pod;
+  const researchOrder = results
+    .filter((c) => c.needsResearch)
+    .sort((a, b) => remaining(b) - remaining(a))
+    .map((c) => c.sectorId);
+
+  return { sectors: results, researchOrder };
+}
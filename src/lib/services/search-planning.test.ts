@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { distanceRings, planSearchSectors, sectorAreaFor, DEFAULT_TEAM_CAPACITY, MAX_SECTORS } from './search-planning';
+
+const KM_LAT = 1 / 111.32;
+
+// A rectangle of the given size in km, south-west corner at the origin
+function rectangle(widthKm: number, heightKm: number, origin = { lat: 53.5, lng: -113.5 }) {
+  const dLat = heightKm * KM_LAT;
+  const dLng = (widthKm * KM_LAT) / Math.cos((origin.lat * Math.PI) / 180);
+  return [
+    origin,
+    { lat: origin.lat, lng: origin.lng + dLng },
+    { lat: origin.lat + dLat, lng: origin.lng + dLng },
+    { lat: origin.lat + dLat, lng: origin.lng },
+  ];
+}
+
+function square(sizeKm: number) {
+  return rectangle(sizeKm, sizeKm);
+}
+
+function centreOf(geometry: Array<{ lat: number; lng: number }>) {
+  return {
+    lat: geometry.reduce((s, p) => s + p.lat, 0) / geometry.length,
+    lng: geometry.reduce((s, p) => s + p.lng, 0) / geometry.length,
+  };
+}
+
+describe('search planning', () => {
+  it('should size sectors to what one team can clear', () => {
+    // 6 searchers x 20 m x 1.5 km/h x 3 h = 0.54 km²
+    expect(sectorAreaFor(DEFAULT_TEAM_CAPACITY)).toBeCloseTo(0.54);
+
+    const plan = planSearchSectors({
+      polygon: square(2),
+      capacity: { searchersPerTeam: 10, spacingMeters: 25, speedKph: 2, hoursPerAssignment: 2 },
+    });
+    // 1 km² sectors in a 4 km² square
+    expect(plan.sectorAreaKm2).toBeCloseTo(1);
+    expect(plan.sectors).toHaveLength(4);
+    expect(plan.sectors.every((s) => Math.abs(s.areaKm2! - 1) < 0.01)).toBe(true);
+  });
+
+  it('should clip sectors to the search polygon rather than its bounding box', () => {
+    const [sw, se, ne] = square(2);
+    // Right triangle: half the bounding box
+    const plan = planSearchSectors({
+      polygon: [sw, se, ne],
+      capacity: { searchersPerTeam: 10, spacingMeters: 25, speedKph: 2, hoursPerAssignment: 2 },
+    });
+
+    const total = plan.sectors.reduce((sum, s) => sum + s.areaKm2!, 0);
+    expect(total).toBeCloseTo(2, 1);
+    // The cell above the diagonal is dropped entirely
+    expect(plan.sectors).toHaveLength(3);
+  });
+
+  it('should treat the area as uniform without a behaviour category', () => {
+    const plan = planSearchSectors({ polygon: square(3) });
+    expect(plan.category).toBeUndefined();
+    expect(plan.rings).toEqual([]);
+    expect(plan.coveredProbability).toBeCloseTo(1, 2);
+
+    const densities = new Set(plan.sectors.map((s) => s.probabilityDensity));
+    expect(densities.size).toBe(1);
+  });
+
+  it('should rank sectors near the last known point first for a child', () => {
+    const polygon = square(4);
+    const lastKnownPoint = polygon[0];
+    const plan = planSearchSectors({ polygon, category: 'child', lastKnownPoint });
+
+    expect(plan.category).toBe('child');
+    expect(plan.rings.map((r) => r.probability)).toEqual([0.25, 0.5, 0.75, 0.95]);
+    expect(plan.sectors.map((s) => s.priority)).toEqual(plan.sectors.map((_, i) => i + 1));
+
+    const distance = (s: (typeof plan.sectors)[number]) => {
+      const c = centreOf(s.geometry);
+      return Math.hypot(c.lat - lastKnownPoint.lat, (c.lng - lastKnownPoint.lng) * 0.6);
+    };
+    const first = plan.sectors[0];
+    const last = plan.sectors[plan.sectors.length - 1];
+    expect(distance(first)).toBeLessThan(distance(last));
+    expect(first.poa!).toBeGreaterThan(last.poa!);
+
+    // A corner LKP leaves three quarters of every ring outside the area
+    expect(plan.coveredProbability).toBeGreaterThan(0.15);
+    expect(plan.coveredProbability).toBeLessThan(0.35);
+  });
+
+  it('should spread a hiker further than a dementia subject', () => {
+    const polygon = square(5);
+    const lastKnownPoint = centreOf(polygon);
+    const capacity = { searchersPerTeam: 10, spacingMeters: 25, speedKph: 2, hoursPerAssignment: 2 };
+
+    const dementia = planSearchSectors({ polygon, category: 'dementia', lastKnownPoint, capacity });
+    const hiker = planSearchSectors({ polygon, category: 'hiker', lastKnownPoint, capacity });
+
+    // Most dementia subjects are found within the 5 km square; most hikers are not
+    expect(dementia.coveredProbability).toBeGreaterThan(0.85);
+    expect(hiker.coveredProbability).toBeLessThan(0.5);
+    expect(distanceRings('hiker')[3].radiusKm).toBeGreaterThan(distanceRings('dementia')[3].radiusKm);
+  });
+
+  it('should grow sectors rather than exceed the sector limit', () => {
+    const plan = planSearchSectors({ polygon: square(40) });
+    expect(plan.sectors.length).toBeLessThanOrEqual(MAX_SECTORS);
+    expect(plan.sectorAreaKm2).toBeGreaterThan(sectorAreaFor(DEFAULT_TEAM_CAPACITY));
+  });
+
+  it('should name rows past Z with two letters', () => {
+    // 0.3 km sectors in a 12 km strip: 40 rows
+    const plan = planSearchSectors({
+      polygon: rectangle(0.6, 12),
+      capacity: { hoursPerAssignment: 1, spacingMeters: 10 },
+    });
+    const names = new Set(plan.sectors.map((s) => s.name));
+    expect(names.has('Sector A1')).toBe(true);
+    expect(names.has('Sector AA1')).toBe(true);
+  });
+});
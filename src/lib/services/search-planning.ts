@@ -0,0 +1,306 @@
+/**
+ * Search Sector Planning
+ * Cuts a search polygon into sectors one team can clear in an assignment,
+ * clipped to the polygon, and gives each a probability of area (POA) from
+ * the lost person's behaviour category: published distance statistics say
+ * how far from the last known point people of that category are usually
+ * found. Sectors are prioritised by probability density so teams go to the
+ * ground most likely to hold the person first.
+ */
+
+import type {
+  LostPersonCategory,
+  SearchPlanSummary,
+  SearchSector,
+} from "@/types/law-enforcement.types";
+
+type LatLng = { lat: number; lng: number };
+
+export interface TeamCapacity {
+  searchersPerTeam: number;
+  hoursPerAssignment: number;
+  // Ground covered per searcher: walking speed and spacing between searchers
+  speedKph: number;
+  spacingMeters: number;
+}
+
+export interface SearchPlanInput {
+  polygon: LatLng[];
+  category?: LostPersonCategory;
+  lastKnownPoint?: LatLng;
+  capacity?: Partial<TeamCapacity>;
+}
+
+export interface SearchPlan extends SearchPlanSummary {
+  sectors: SearchSector[];
+}
+
+export const DEFAULT_TEAM_CAPACITY: TeamCapacity = {
+  searchersPerTeam: 6,
+  hoursPerAssignment: 3,
+  speedKph: 1.5,
+  spacingMeters: 20,
+};
+
+// Distance from the last known point (km) within which 25/50/75/95% of
+// subjects in each category are found; temperate-terrain figures from
+// published lost person behaviour statistics
+export const LOST_PERSON_DISTANCE_RINGS: Record<LostPersonCategory, [number, number, number, number]> = {
+  child: [0.3, 0.8, 1.9, 3.6],
+  dementia: [0.2, 0.6, 1.5, 3.2],
+  despondent: [0.2, 0.7, 2.0, 5.8],
+  hiker: [1.1, 3.1, 5.8, 11.9],
+};
+
+const RING_PROBABILITIES = [0.25, 0.5, 0.75, 0.95];
+// The last 5% is spread out to twice the 95% radius
+const TAIL_RADIUS_FACTOR = 2;
+// Very large areas get larger sectors rather than an unmanageable number
+export const MAX_SECTORS = 400;
+const SAMPLES_PER_SIDE = 8;
+const KM_PER_DEGREE = 111.32;
+
+// =============================================================================
+// GEOMETRY (local km plane around the area's centre)
+// =============================================================================
+
+export type PlanePoint = { x: number; y: number };
+type Point = PlanePoint;
+
+export interface Projection {
+  toPlane(p: LatLng): Point;
+  toLatLng(p: Point): LatLng;
+}
+
+export function projection(origin: LatLng): Projection {
+  const cos = Math.max(Math.cos((origin.lat * Math.PI) / 180), 0.01);
+  return {
+    toPlane: (p) => ({
+      x: (p.lng - origin.lng) * KM_PER_DEGREE * cos,
+      y: (p.lat - origin.lat) * KM_PER_DEGREE,
+    }),
+    toLatLng: (p) => ({
+      lat: origin.lat + p.y / KM_PER_DEGREE,
+      lng: origin.lng + p.x / (KM_PER_DEGREE * cos),
+    }),
+  };
+}
+
+export function polygonArea(points: Point[]): number {
+  let twice = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    twice += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(twice) / 2;
+}
+
+export function containsPoint(polygon: Point[], p: Point): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Sutherland-Hodgman clip of a polygon to an axis-aligned rectangle. A
+ * concave polygon can leave zero-width bridges along the cell edge; they
+ * add no area, which is all sectors are measured by.
+ */
+function clipToRect(
+  polygon: Point[],
+  minX: number,
+  minY: number,
+  maxX: number,
+  maxY: number
+): Point[] {
+  const atX = (x: number) => (a: Point, b: Point) => ({ x, y: a.y + ((b.y - a.y) * (x - a.x)) / (b.x - a.x) });
+  const atY = (y: number) => (a: Point, b: Point) => ({ x: a.x + ((b.x - a.x) * (y - a.y)) / (b.y - a.y), y });
+  const edges = [
+    { inside: (p: Point) => p.x >= minX, cross: atX(minX) },
+    { inside: (p: Point) => p.x <= maxX, cross: atX(maxX) },
+    { inside: (p: Point) => p.y >= minY, cross: atY(minY) },
+    { inside: (p: Point) => p.y <= maxY, cross: atY(maxY) },
+  ];
+
+  let output = polygon;
+  for (const edge of edges) {
+    const input = output;
+    output = [];
+    for (let i = 0; i < input.length; i++) {
+      const current = input[i];
+      const previous = input[(i + input.length - 1) % input.length];
+      if (edge.inside(current)) {
+        if (!edge.inside(previous)) output.push(edge.cross(previous, current));
+        output.push(current);
+      } else if (edge.inside(previous)) {
+        output.push(edge.cross(previous, current));
+      }
+    }
+    if (output.length === 0) break;
+  }
+  return output;
+}
+
+// =============================================================================
+// PROBABILITY
+// =============================================================================
+
+/**
+ * Cumulative distance rings for a category, ending with the tail ring
+ */
+export function distanceRings(category: LostPersonCategory): Array<{ probability: number; radiusKm: number }> {
+  const radii = LOST_PERSON_DISTANCE_RINGS[category];
+  return [
+    ...radii.map((radiusKm, i) => ({ probability: RING_PROBABILITIES[i], radiusKm })),
+    { probability: 1, radiusKm: radii[3] * TAIL_RADIUS_FACTOR },
+  ];
+}
+
+/**
+ * Probability per km² at a distance from the last known point: each ring's
+ * share of the probability spread evenly over its annulus
+ */
+function densityAt(distanceKm: number, rings: Array<{ probability: number; radiusKm: number }>): number {
+  let innerRadius = 0;
+  let innerProbability = 0;
+  for (const ring of rings) {
+    if (distanceKm <= ring.radiusKm) {
+      const annulus = Math.PI * (ring.radiusKm ** 2 - innerRadius ** 2);
+      return (ring.probability - innerProbability) / annulus;
+    }
+    innerRadius = ring.radiusKm;
+    innerProbability = ring.probability;
+  }
+  return 0;
+}
+
+function sectorName(row: number, column: number): string {
+  let letters = "";
+  for (let n = row; n >= 0; n = Math.floor(n / 26) - 1) {
+    letters = String.fromCharCode(65 + (n % 26)) + letters;
+  }
+  return `Sector ${letters}${column + 1}`;
+}
+
+/**
+ * Area one team clears in an assignment, in km²
+ */
+export function sectorAreaFor(capacity: TeamCapacity): number {
+  return capacity.searchersPerTeam * (capacity.spacingMeters / 1000) * capacity.speedKph * capacity.hoursPerAssignment;
+}
+
+// =============================================================================
+// PLANNING
+// =============================================================================
+
+/**
+ * Plan sectors for a search polygon. Without a category or last known
+ * point every part of the area is treated as equally likely.
+ */
+export function planSearchSectors(input: SearchPlanInput): SearchPlan {
+  const capacity = { ...DEFAULT_TEAM_CAPACITY, ...input.capacity };
+  const origin = {
+    lat: input.polygon.reduce((sum, p) => sum + p.lat, 0) / input.polygon.length,
+    lng: input.polygon.reduce((sum, p) => sum + p.lng, 0) / input.polygon.length,
+  };
+  const { toPlane, toLatLng } = projection(origin);
+  const polygon = input.polygon.map(toPlane);
+  const totalArea = polygonArea(polygon);
+
+  const rings = input.category && input.lastKnownPoint ? distanceRings(input.category) : [];
+  const lkp = input.lastKnownPoint ? toPlane(input.lastKnownPoint) : null;
+  const density = (p: Point) =>
+    rings.length > 0 && lkp ? densityAt(Math.hypot(p.x - lkp.x, p.y - lkp.y), rings) : 1 / totalArea;
+
+  const minX = Math.min(...polygon.map((p) => p.x));
+  const maxX = Math.max(...polygon.map((p) => p.x));
+  const minY = Math.min(...polygon.map((p) => p.y));
+  const maxY = Math.max(...polygon.map((p) => p.y));
+
+  // Square cells of one team's capacity, grown if that makes too many
+  const boxArea = (maxX - minX) * (maxY - minY);
+  let side = Math.sqrt(Math.max(sectorAreaFor(capacity), boxArea / MAX_SECTORS));
+  const gridSize = (cell: number) => ({
+    columns: Math.max(1, Math.ceil((maxX - minX) / cell)),
+    rows: Math.max(1, Math.ceil((maxY - minY) / cell)),
+  });
+  // Partial cells along the edges can still push the count over the limit
+  while (gridSize(side).columns * gridSize(side).rows > MAX_SECTORS) side *= 1.05;
+  const { columns, rows } = gridSize(side);
+  const sectorAreaKm2 = side * side;
+
+  const sectors: SearchSector[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x0 = minX + column * side;
+      const y0 = maxY - (row + 1) * side;
+      const clipped = clipToRect(polygon, x0, y0, x0 + side, y0 + side);
+      const area = clipped.length >= 3 ? polygonArea(clipped) : 0;
+      // Slivers from floating point along a shared edge
+      if (area < sectorAreaKm2 * 1e-4) continue;
+
+      // Mean density over the part of the cell inside the polygon
+      let sum = 0;
+      let count = 0;
+      for (let i = 0; i < SAMPLES_PER_SIDE; i++) {
+        for (let j = 0; j < SAMPLES_PER_SIDE; j++) {
+          const p = {
+            x: x0 + ((i + 0.5) * side) / SAMPLES_PER_SIDE,
+            y: y0 + ((j + 0.5) * side) / SAMPLES_PER_SIDE,
+          };
+          if (containsPoint(clipped, p)) {
+            sum += density(p);
+            count++;
+          }
+        }
+      }
+      if (count === 0) {
+        // Too thin for any sample: use the sector's own centre
+        const centre = {
+          x: clipped.reduce((s, p) => s + p.x, 0) / clipped.length,
+          y: clipped.reduce((s, p) => s + p.y, 0) / clipped.length,
+        };
+        sum = density(centre);
+        count = 1;
+      }
+
+      const probabilityDensity = sum / count;
+      sectors.push({
+        id: crypto.randomUUID(),
+        name: sectorName(row, column),
+        geometry: clipped.map(toLatLng),
+        priority: 0,
+        status: "unassigned",
+        findings: [],
+        areaKm2: Math.round(area * 1000) / 1000,
+        poa: probabilityDensity * area,
+        probabilityDensity,
+      });
+    }
+  }
+
+  const coveredProbability = Math.min(1, sectors.reduce((sum, s) => sum + s.poa!, 0));
+  sectors
+    .sort((a, b) => b.probabilityDensity! - a.probabilityDensity! || b.poa! - a.poa!)
+    .forEach((sector, i) => {
+      sector.priority = i + 1;
+      sector.poa = Math.round(sector.poa! * 10000) / 10000;
+      sector.probabilityDensity = Math.round(sector.probabilityDensity! * 10000) / 10000;
+    });
+
+  return {
+    category: rings.length > 0 ? input.category : undefined,
+    lastKnownPoint: rings.length > 0 ? input.lastKnownPoint : undefined,
+    rings: rings.slice(0, 4),
+    sectorAreaKm2: Math.round(sectorAreaKm2 * 1000) / 1000,
+    coveredProbability: Math.round(coveredProbability * 10000) / 10000,
+    sectors,
+  };
+}
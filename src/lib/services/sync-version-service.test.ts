@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import type { createClient } from '@/lib/supabase/server';
+import { applyVersionedEdit, readSyncRequest, SyncProtocolError } from './sync-version-service';
+
+const OPERATION_ID = '0f8fad5b-d9cb-469f-a165-70867728950e';
+
+function request(headers: Record<string, string>): Request {
+  return new Request('http://localhost/api/leads/lead-1', { method: 'PUT', headers });
+}
+
+describe('readSyncRequest', () => {
+  it('ignores requests not sent by the sync engine', () => {
+    expect(readSyncRequest(request({}))).toBeNull();
+  });
+
+  it('reads the operation id and versions', () => {
+    expect(
+      readSyncRequest(
+        request({
+          'X-Sync-Operation-Id': OPERATION_ID,
+          'X-Sync-Base-Version': '{"server":2}',
+          'X-Sync-Version': '{"server":2,"tablet-a":1}',
+        })
+      )
+    ).toEqual({ operationId: OPERATION_ID, baseVersion: { server: 2 }, version: { server: 2, 'tablet-a': 1 } });
+
+    // Creations carry only the operation id
+    expect(readSyncRequest(request({ 'X-Sync-Operation-Id': OPERATION_ID }))).toEqual({ operationId: OPERATION_ID });
+  });
+
+  it('rejects malformed headers', () => {
+    expect(() => readSyncRequest(request({ 'X-Sync-Operation-Id': 'retry-1' }))).toThrow(SyncProtocolError);
+    expect(() =>
+      readSyncRequest(
+        request({ 'X-Sync-Operation-Id': OPERATION_ID, 'X-Sync-Base-Version': '{"server":2}', 'X-Sync-Version': '{}' })
+      )
+    ).toThrow(/must include/);
+  });
+});
+
+type Row = Record<string, unknown>;
+
+/**
+ * Stand-in for the two sync tables, enough for filtered reads, conditional
+ * updates and inserts
+ */
+function fakeSupabase() {
+  const tables: Record<string, Row[]> = { sync_entity_versions: [], sync_applied_operations: [] };
+
+  const from = (table: string) => {
+    const filters: Row = {};
+    const matching = () =>
+      tables[table].filter((row) => Object.entries(filters).every(([column, value]) => row[column] === value));
+    let run: () => { data: unknown; error: unknown } = () => ({ data: matching(), error: null });
+
+    const builder = {
+      select: () => builder,
+      eq(column: string, value: unknown) {
+        filters[column] = value;
+        return builder;
+      },
+      update(values: Row) {
+        run = () => {
+          const rows = matching();
+          rows.forEach((row) => Object.assign(row, values));
+          return { data: rows, error: null };
+        };
+        return builder;
+      },
+      insert: async (values: Row) => {
+        tables[table].push({ revision: 1, ...values });
+        return { error: null };
+      },
+      maybeSingle: async () => ({ data: matching()[0] ?? null, error: null }),
+      then: (resolve: (value: unknown) => unknown) => resolve(run()),
+    };
+    return builder;
+  };
+
+  return { client: { from } as unknown as Awaited<ReturnType<typeof createClient>>, tables };
+}
+
+describe('applyVersionedEdit', () => {
+  const entity = { entityType: 'lead', entityId: 'lead-1', userId: 'officer-1' };
+  const offlineEdit = () =>
+    request({
+      'X-Sync-Operation-Id': OPERATION_ID,
+      'X-Sync-Base-Version': '{"server":1}',
+      'X-Sync-Version': '{"server":1,"tablet-a":1}',
+    });
+  const loadCurrent = async () => ({ id: 'lead-1' });
+
+  it('gives back the version when the edit fails, so the retry is accepted', async () => {
+    const { client, tables } = fakeSupabase();
+    tables.sync_entity_versions.push({ entity_type: 'lead', entity_id: 'lead-1', version_vector: { server: 1 }, revision: 1 });
+
+    await expect(
+      applyVersionedEdit(client, offlineEdit(), entity, loadCurrent, async () => {
+        throw new Error('database unavailable');
+      })
+    ).rejects.toThrow('database unavailable');
+    expect(tables.sync_entity_versions[0].version_vector).toEqual({ server: 1 });
+
+    const outcome = await applyVersionedEdit(client, offlineEdit(), entity, loadCurrent, async () => ({
+      status: 200,
+      body: { ok: true },
+    }));
+    expect(outcome).toEqual({ status: 200, body: { ok: true }, version: { server: 1, 'tablet-a': 1 } });
+  });
+
+  it('accepts a retry whose version the stored one already includes', async () => {
+    const { client, tables } = fakeSupabase();
+    // The first attempt's claim went through but its response was lost
+    tables.sync_entity_versions.push({
+      entity_type: 'lead',
+      entity_id: 'lead-1',
+      version_vector: { server: 1, 'tablet-a': 1 },
+      revision: 2,
+    });
+
+    const outcome = await applyVersionedEdit(client, offlineEdit(), entity, loadCurrent, async () => ({
+      status: 200,
+      body: { ok: true },
+    }));
+    expect(outcome.status).toBe(200);
+  });
+
+  it('still refuses an edit made without the latest version', async () => {
+    const { client, tables } = fakeSupabase();
+    tables.sync_entity_versions.push({
+      entity_type: 'lead',
+      entity_id: 'lead-1',
+      version_vector: { server: 2 },
+      revision: 2,
+    });
+
+    const outcome = await applyVersionedEdit(client, offlineEdit(), entity, loadCurrent, async () => ({
+      status: 200,
+      body: { ok: true },
+    }));
+    expect(outcome.status).toBe(409);
+  });
+});
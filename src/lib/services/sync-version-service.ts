@@ -0,0 +1,320 @@
+/**
+ * Sync Version Service
+ * Server side of the offline sync protocol. Operations from the sync engine
+ * carry an operation id and version vectors: replays of an applied
+ * operation get the original response, and an edit made without knowledge
+ * of the entity's latest version is refused as a conflict. Edits made
+ * online without sync headers still advance the version, so offline edits
+ * made before them conflict too. A version claimed for an edit that then
+ * fails is given back.
+ */
+
+import type { createClient } from '@/lib/supabase/server';
+import {
+  SYNC_BASE_VERSION_HEADER,
+  SYNC_OPERATION_HEADER,
+  SYNC_VERSION_HEADER,
+  dominates,
+  incrementVersion,
+  mergeVersionVectors,
+  parseVersionVector,
+  type SyncConflictBody,
+  type VersionVector,
+} from '@/lib/sync';
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+// Counter advanced by edits that arrive without a version vector
+const SERVER_DEVICE = 'server';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Attempts at the conditional version write before giving up on a busy entity
+const MAX_CLAIM_ATTEMPTS = 3;
+
+export interface SyncRequest {
+  operationId: string;
+  baseVersion?: VersionVector;
+  version?: VersionVector;
+}
+
+export interface SyncEntity {
+  entityType: string;
+  entityId: string;
+  userId: string;
+}
+
+export interface SyncOutcome<T = unknown> {
+  status: number;
+  body: T;
+  // The entity's version after the edit, for the response's version header
+  version?: VersionVector;
+}
+
+export class SyncProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncProtocolError';
+  }
+}
+
+export class SyncConflictError extends Error {
+  readonly serverVersion: VersionVector;
+
+  constructor(serverVersion: VersionVector) {
+    super('Sync conflict');
+    this.name = 'SyncConflictError';
+    this.serverVersion = serverVersion;
+  }
+}
+
+/**
+ * Read the sync headers from a request; null when it was not sent by the
+ * sync engine
+ */
+export function readSyncRequest(request: Request): SyncRequest | null {
+  const operationId = request.headers.get(SYNC_OPERATION_HEADER);
+  if (!operationId) return null;
+  if (!UUID_PATTERN.test(operationId)) {
+    throw new SyncProtocolError(`${SYNC_OPERATION_HEADER} must be a UUID`);
+  }
+
+  const baseHeader = request.headers.get(SYNC_BASE_VERSION_HEADER);
+  const versionHeader = request.headers.get(SYNC_VERSION_HEADER);
+  if (!baseHeader && !versionHeader) return { operationId };
+
+  const baseVersion = parseVersionVector(baseHeader ?? '{}');
+  const version = parseVersionVector(versionHeader ?? '');
+  if (!baseVersion || !version) {
+    throw new SyncProtocolError('Version headers must be JSON objects of non-negative integer counters');
+  }
+  if (!dominates(version, baseVersion)) {
+    throw new SyncProtocolError(`${SYNC_VERSION_HEADER} must include ${SYNC_BASE_VERSION_HEADER}`);
+  }
+  return { operationId, baseVersion, version };
+}
+
+/**
+ * The entity's current version, for clients to base offline edits on
+ */
+export async function getEntityVersion(
+  supabase: SupabaseClient,
+  entityType: string,
+  entityId: string
+): Promise<VersionVector> {
+  const { data, error } = await supabase
+    .from('sync_entity_versions')
+    .select('version_vector')
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return parseVersionVector(data?.version_vector ?? {}) ?? {};
+}
+
+async function findAppliedOperation(
+  supabase: SupabaseClient,
+  operationId: string
+): Promise<SyncOutcome | null> {
+  const { data, error } = await supabase
+    .from('sync_applied_operations')
+    .select('response_status, response_body')
+    .eq('operation_id', operationId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ? { status: data.response_status as number, body: data.response_body } : null;
+}
+
+interface ClaimedVersion {
+  version: VersionVector;
+  // What was stored before, and the revision the claim wrote
+  previous: VersionVector;
+  revision: number;
+}
+
+/**
+ * Advance the entity's stored version. With a base version the write only
+ * goes ahead if the base includes everything stored, or if the edit's own
+ * version already does: the retry of an edit whose claim went through but
+ * whose apply failed. Without one it is an online edit and bumps the server
+ * counter.
+ */
+async function claimEntityVersion(
+  supabase: SupabaseClient,
+  entity: SyncEntity,
+  sync: SyncRequest | null
+): Promise<ClaimedVersion> {
+  for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+    const { data: row, error } = await supabase
+      .from('sync_entity_versions')
+      .select('version_vector, revision')
+      .eq('entity_type', entity.entityType)
+      .eq('entity_id', entity.entityId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+
+    const stored = parseVersionVector(row?.version_vector ?? {}) ?? {};
+    if (
+      sync?.baseVersion &&
+      !dominates(sync.baseVersion, stored) &&
+      !(sync.version && dominates(sync.version, stored))
+    ) {
+      throw new SyncConflictError(stored);
+    }
+
+    const next =
+      sync?.version ? mergeVersionVectors(stored, sync.version) : incrementVersion(stored, SERVER_DEVICE);
+    const values = { version_vector: next, updated_by: entity.userId, updated_at: new Date().toISOString() };
+
+    if (row) {
+      const revision = (row.revision as number) + 1;
+      const { data: updated, error: updateError } = await supabase
+        .from('sync_entity_versions')
+        .update({ ...values, revision })
+        .eq('entity_type', entity.entityType)
+        .eq('entity_id', entity.entityId)
+        .eq('revision', row.revision)
+        .select('revision');
+      if (updateError) throw new Error(updateError.message);
+      if (updated && updated.length > 0) return { version: next, previous: stored, revision };
+    } else {
+      const { error: insertError } = await supabase
+        .from('sync_entity_versions')
+        .insert({ entity_type: entity.entityType, entity_id: entity.entityId, ...values });
+      if (!insertError) return { version: next, previous: stored, revision: 1 };
+      // Unique violation: another request created the row first
+      if (insertError.code !== '23505') throw new Error(insertError.message);
+    }
+    // Lost the race to another writer; read the new version and check again
+  }
+  throw new Error(`Version of ${entity.entityType} ${entity.entityId} is changing too quickly`);
+}
+
+/**
+ * Put back the version stored before a claim whose edit did not apply.
+ * Skipped if another writer has claimed since: their version already
+ * includes ours, and a retry of this edit is accepted against it.
+ */
+async function releaseEntityVersion(
+  supabase: SupabaseClient,
+  entity: SyncEntity,
+  claim: ClaimedVersion
+): Promise<void> {
+  const { error } = await supabase
+    .from('sync_entity_versions')
+    .update({
+      version_vector: claim.previous,
+      revision: claim.revision + 1,
+      updated_by: entity.userId,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('entity_type', entity.entityType)
+    .eq('entity_id', entity.entityId)
+    .eq('revision', claim.revision);
+
+  if (error) {
+    console.error(`[Sync] Failed to release version of ${entity.entityType} ${entity.entityId}:`, error);
+  }
+}
+
+async function recordAppliedOperation(
+  supabase: SupabaseClient,
+  operationId: string,
+  entity: SyncEntity,
+  outcome: SyncOutcome
+): Promise<void> {
+  const { error } = await supabase.from('sync_applied_operations').insert({
+    operation_id: operationId,
+    entity_type: entity.entityType,
+    entity_id: entity.entityId,
+    response_status: outcome.status,
+    response_body: outcome.body ?? null,
+    applied_by: entity.userId,
+  });
+  // A concurrent replay already recorded it
+  if (error && error.code !== '23505') throw new Error(error.message);
+}
+
+/**
+ * Apply an operation at most once per operation id. Use for creations,
+ * which cannot conflict but must not be duplicated by retries.
+ */
+export async function applyOnce(
+  supabase: SupabaseClient,
+  request: Request,
+  entity: SyncEntity,
+  apply: () => Promise<SyncOutcome>
+): Promise<SyncOutcome> {
+  const sync = readSyncRequest(request);
+  if (!sync) return apply();
+
+  const replay = await findAppliedOperation(supabase, sync.operationId);
+  if (replay) return replay;
+
+  const outcome = await apply();
+  // Server errors are worth retrying, so they are not remembered
+  if (outcome.status < 500) {
+    await recordAppliedOperation(supabase, sync.operationId, entity, outcome);
+  }
+  return outcome;
+}
+
+/**
+ * Apply an edit to an existing entity, refusing it with 409 when it was
+ * made without knowledge of the entity's latest version. `loadCurrent`
+ * supplies the entity as it is now for the conflict response.
+ */
+export async function applyVersionedEdit(
+  supabase: SupabaseClient,
+  request: Request,
+  entity: SyncEntity,
+  loadCurrent: () => Promise<Record<string, unknown> | null>,
+  apply: () => Promise<SyncOutcome>
+): Promise<SyncOutcome> {
+  const sync = readSyncRequest(request);
+
+  const run = async (): Promise<SyncOutcome> => {
+    let claim: ClaimedVersion;
+    try {
+      claim = await claimEntityVersion(supabase, entity, sync);
+    } catch (error) {
+      if (!(error instanceof SyncConflictError)) throw error;
+      const body: SyncConflictBody = {
+        error: 'Sync conflict',
+        conflict: {
+          entityType: entity.entityType,
+          entityId: entity.entityId,
+          serverVersion: error.serverVersion,
+          current: await loadCurrent(),
+        },
+      };
+      return { status: 409, body };
+    }
+
+    let outcome: SyncOutcome;
+    try {
+      outcome = await apply();
+    } catch (error) {
+      await releaseEntityVersion(supabase, entity, claim);
+      throw error;
+    }
+    // Nothing changed, so the version must not move either
+    if (outcome.status >= 400) {
+      await releaseEntityVersion(supabase, entity, claim);
+      return outcome;
+    }
+    return { ...outcome, version: claim.version };
+  };
+
+  if (!sync) return run();
+
+  const replay = await findAppliedOperation(supabase, sync.operationId);
+  if (replay) return replay;
+
+  const outcome = await run();
+  // Conflicts are settled by a new operation; server errors are retried
+  if (outcome.status !== 409 && outcome.status < 500) {
+    await recordAppliedOperation(supabase, sync.operationId, entity, outcome);
+  }
+  return outcome;
+}
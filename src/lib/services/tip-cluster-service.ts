@@ -0,0 +1,465 @@
+/**
+ * Tip Cluster Service
+ * Persists the per-case MinHash cluster index and applies reviewer merges
+ * and splits. New tips are placed automatically; existing clusters only
+ * change through a reviewer, and every change is recorded as an event.
+ * Tips that predate clustering are indexed by a background job in batches.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { jobQueue } from '@/lib/services/job-queue/job-queue';
+import { scheduleSlot } from '@/lib/services/job-queue/job-types';
+import {
+  TipClusterIndex,
+  TipClusterError,
+  type TipClusterAssignment,
+  type TipClusterErrorCode,
+  type TipClusterInput,
+  type TipClusterMember,
+} from '@/lib/services/tip-clustering';
+import {
+  mapTipClusterFromDb,
+  mapTipClusterEventFromDb,
+  type TipCluster,
+  type TipClusterEvent,
+  type TipClusterEventType,
+  type TipClusterRef,
+} from '@/types/tip-verification.types';
+
+export interface TipClusterTip {
+  tipId: string;
+  content: string;
+  location?: string;
+  latitude?: number;
+  longitude?: number;
+  occurredAt?: string;
+  matchScore?: number;
+  assignedBy: 'auto' | 'reviewer';
+}
+
+export interface TipClusterDetail extends TipCluster {
+  tips: TipClusterTip[];
+  events: TipClusterEvent[];
+}
+
+// Rows per insert when backfilling a case
+const BACKFILL_BATCH_SIZE = 500;
+
+// A case still missing tips is queued for backfill at most this often
+const BACKFILL_INTERVAL_MINUTES = 10;
+
+// HTTP status the API routes return for each cluster error
+export const TIP_CLUSTER_ERROR_STATUS: Record<TipClusterErrorCode, number> = {
+  cluster_not_found: 404,
+  tip_not_in_cluster: 400,
+  invalid_split: 400,
+};
+
+function mapMember(row: Record<string, unknown>): TipClusterMember {
+  return {
+    tipId: row.tip_id as string,
+    clusterId: row.cluster_id as string,
+    signature: ((row.signature as (number | string)[]) || []).map(Number),
+    latitude: (row.latitude as number | null) ?? undefined,
+    longitude: (row.longitude as number | null) ?? undefined,
+    occurredAt: (row.occurred_at as string | null) ?? undefined,
+  };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Routes construct one per request with the caller's client; the backfill
+ * worker passes a service client
+ */
+export class TipClusterService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Rebuild the case index from stored signatures
+   */
+  async loadIndex(caseId: string): Promise<TipClusterIndex> {
+    const { data, error } = await this.supabase
+      .from('tip_cluster_members')
+      .select('tip_id, cluster_id, signature, latitude, longitude, occurred_at')
+      .eq('case_id', caseId);
+
+    if (error) throw new Error(error.message);
+    return TipClusterIndex.fromMembers((data || []).map(mapMember));
+  }
+
+  /**
+   * Place a tip in the case index and persist the result. Pass the index
+   * already loaded for verification to avoid reading it twice.
+   */
+  async assignTip(
+    caseId: string,
+    input: TipClusterInput,
+    index?: TipClusterIndex
+  ): Promise<TipClusterAssignment> {
+    const clusterIndex = index ?? (await this.loadIndex(caseId));
+    const alreadyIndexed = clusterIndex.getMember(input.tipId);
+    const assignment = clusterIndex.assign(input);
+
+    if (alreadyIndexed) return assignment;
+
+    if (assignment.isNewCluster) {
+      const { error } = await this.supabase
+        .from('tip_clusters')
+        .insert({ id: assignment.clusterId, case_id: caseId });
+      if (error) throw new Error(error.message);
+    }
+
+    const { member } = assignment;
+    const { error: memberError } = await this.supabase.from('tip_cluster_members').insert({
+      tip_id: member.tipId,
+      cluster_id: member.clusterId,
+      case_id: caseId,
+      signature: member.signature,
+      latitude: member.latitude ?? null,
+      longitude: member.longitude ?? null,
+      occurred_at: member.occurredAt ?? null,
+      match_score: assignment.score ?? null,
+      matched_tip_id: assignment.matchedTipId ?? null,
+    });
+    if (memberError) throw new Error(memberError.message);
+
+    await this.refreshSummary(clusterIndex, assignment.clusterId);
+    await this.recordEvent(caseId, assignment.clusterId, assignment.isNewCluster ? 'created' : 'tip_added', {
+      tipIds: [input.tipId],
+      relatedClusterIds: [],
+    });
+
+    return assignment;
+  }
+
+  /**
+   * Queue indexing of a case's tips that predate clustering. Repeated calls
+   * within the backfill interval share one job.
+   */
+  async queueBackfill(caseId: string, now: Date = new Date()): Promise<void> {
+    await jobQueue.enqueue(
+      'tips.cluster_backfill',
+      { case_id: caseId },
+      { idempotencyKey: `tips.cluster_backfill:${caseId}:${scheduleSlot(now, BACKFILL_INTERVAL_MINUTES)}` }
+    );
+  }
+
+  /**
+   * Index every tip on the case that is not yet in a cluster, oldest first
+   * so they are placed in the order they arrived. Clusters, members and
+   * events are written in batches; tips indexed meanwhile are left alone.
+   */
+  async backfill(caseId: string): Promise<{ indexed: number; clusters: number }> {
+
+    const { data: tips, error: tipsError } = await this.supabase
+      .from('tips')
+      .select('id, content, latitude, longitude, sighting_date, created_at')
+      .eq('case_id', caseId);
+    if (tipsError) throw new Error(tipsError.message);
+
+    const index = await this.loadIndex(caseId);
+    const missing: TipClusterInput[] = (tips || [])
+      .filter((tip) => !index.getMember(tip.id))
+      .map((tip) => ({
+        tipId: tip.id,
+        content: tip.content,
+        latitude: tip.latitude ?? undefined,
+        longitude: tip.longitude ?? undefined,
+        occurredAt: tip.sighting_date ?? tip.created_at,
+      }))
+      .sort((a, b) => new Date(a.occurredAt ?? 0).getTime() - new Date(b.occurredAt ?? 0).getTime());
+
+    if (missing.length === 0) return { indexed: 0, clusters: 0 };
+
+    const created = new Set<string>();
+    const addedTips = new Map<string, string[]>();
+    const members = missing.map((tip) => {
+      const assignment = index.assign(tip);
+      if (assignment.isNewCluster) created.add(assignment.clusterId);
+      addedTips.set(assignment.clusterId, [...(addedTips.get(assignment.clusterId) || []), tip.tipId]);
+
+      const { member } = assignment;
+      return {
+        tip_id: member.tipId,
+        cluster_id: member.clusterId,
+        case_id: caseId,
+        signature: member.signature,
+        latitude: member.latitude ?? null,
+        longitude: member.longitude ?? null,
+        occurred_at: member.occurredAt ?? null,
+        match_score: assignment.score ?? null,
+        matched_tip_id: assignment.matchedTipId ?? null,
+      };
+    });
+
+    // Clusters first: members reference them
+    const clusterRows = [...addedTips.keys()].map((clusterId) => ({
+      id: clusterId,
+      case_id: caseId,
+      ...this.summaryColumns(index, clusterId),
+    }));
+    for (const batch of chunk(clusterRows, BACKFILL_BATCH_SIZE)) {
+      const { error } = await this.supabase.from('tip_clusters').upsert(batch, { onConflict: 'id' });
+      if (error) throw new Error(error.message);
+    }
+
+    for (const batch of chunk(members, BACKFILL_BATCH_SIZE)) {
+      const { error } = await this.supabase
+        .from('tip_cluster_members')
+        .upsert(batch, { onConflict: 'tip_id', ignoreDuplicates: true });
+      if (error) throw new Error(error.message);
+    }
+
+    const events = [...addedTips].map(([clusterId, tipIds]) => ({
+      case_id: caseId,
+      cluster_id: clusterId,
+      event_type: created.has(clusterId) ? 'created' : 'tip_added',
+      tip_ids: tipIds,
+      related_cluster_ids: [],
+    }));
+    for (const batch of chunk(events, BACKFILL_BATCH_SIZE)) {
+      const { error } = await this.supabase.from('tip_cluster_events').insert(batch);
+      if (error) {
+        console.error('[TipClusters] Failed to record backfill events:', error);
+      }
+    }
+
+    return { indexed: missing.length, clusters: addedTips.size };
+  }
+
+  /**
+   * Active clusters for a case, largest first
+   */
+  async listClusters(caseId: string, minSize = 1): Promise<TipCluster[]> {
+    const { data, error } = await this.supabase
+      .from('tip_clusters')
+      .select('*')
+      .eq('case_id', caseId)
+      .eq('status', 'active')
+      .gte('member_count', minSize)
+      .order('member_count', { ascending: false })
+      .order('last_occurred_at', { ascending: false, nullsFirst: false });
+
+    if (error) throw new Error(error.message);
+    return (data || []).map(mapTipClusterFromDb);
+  }
+
+  async getCluster(clusterId: string): Promise<TipClusterDetail | null> {
+    const { data: cluster, error } = await this.supabase
+      .from('tip_clusters')
+      .select('*')
+      .eq('id', clusterId)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!cluster) return null;
+
+    const [{ data: members }, { data: events }] = await Promise.all([
+      this.supabase
+        .from('tip_cluster_members')
+        .select('tip_id, latitude, longitude, occurred_at, match_score, assigned_by, tips(content, location)')
+        .eq('cluster_id', clusterId)
+        .order('occurred_at', { ascending: true, nullsFirst: false }),
+      this.supabase
+        .from('tip_cluster_events')
+        .select('*')
+        .eq('cluster_id', clusterId)
+        .order('created_at', { ascending: false }),
+    ]);
+
+    return {
+      ...mapTipClusterFromDb(cluster),
+      tips: (members || []).map((m) => {
+        const tip = (Array.isArray(m.tips) ? m.tips[0] : m.tips) as
+          | { content: string; location: string | null }
+          | null;
+        return {
+          tipId: m.tip_id,
+          content: tip?.content ?? '',
+          location: tip?.location ?? undefined,
+          latitude: m.latitude ?? undefined,
+          longitude: m.longitude ?? undefined,
+          occurredAt: m.occurred_at ?? undefined,
+          matchScore: m.match_score ?? undefined,
+          assignedBy: m.assigned_by,
+        };
+      }),
+      events: (events || []).map(mapTipClusterEventFromDb),
+    };
+  }
+
+  /**
+   * Cluster membership for a set of tips, keyed by tip id
+   */
+  async getRefsForTips(tipIds: string[]): Promise<Map<string, TipClusterRef>> {
+    const refs = new Map<string, TipClusterRef>();
+    if (tipIds.length === 0) return refs;
+
+    const { data, error } = await this.supabase
+      .from('tip_cluster_members')
+      .select('tip_id, cluster_id, match_score, assigned_by, tip_clusters(member_count)')
+      .in('tip_id', tipIds);
+
+    if (error) throw new Error(error.message);
+
+    for (const row of data || []) {
+      const cluster = (Array.isArray(row.tip_clusters) ? row.tip_clusters[0] : row.tip_clusters) as
+        | { member_count: number }
+        | null;
+      refs.set(row.tip_id, {
+        clusterId: row.cluster_id,
+        memberCount: cluster?.member_count ?? 1,
+        matchScore: row.match_score ?? undefined,
+        assignedBy: row.assigned_by,
+      });
+    }
+    return refs;
+  }
+
+  /**
+   * Fold the source clusters into the target
+   */
+  async mergeClusters(
+    targetClusterId: string,
+    sourceClusterIds: string[],
+    actorId: string,
+    notes?: string
+  ): Promise<TipCluster> {
+    const caseId = await this.getCaseId(targetClusterId);
+    const index = await this.loadIndex(caseId);
+    const sources = sourceClusterIds.filter((id) => id !== targetClusterId);
+    const movedTipIds = index.merge(targetClusterId, sources);
+
+    if (movedTipIds.length > 0) {
+      const { error } = await this.supabase
+        .from('tip_cluster_members')
+        .update({ cluster_id: targetClusterId, assigned_by: 'reviewer', assigned_at: new Date().toISOString() })
+        .in('tip_id', movedTipIds);
+      if (error) throw new Error(error.message);
+    }
+
+    const { error: sourceError } = await this.supabase
+      .from('tip_clusters')
+      .update({ status: 'merged', merged_into: targetClusterId, member_count: 0, updated_at: new Date().toISOString() })
+      .in('id', sources);
+    if (sourceError) throw new Error(sourceError.message);
+
+    const cluster = await this.refreshSummary(index, targetClusterId);
+    await this.recordEvent(caseId, targetClusterId, 'merged', {
+      tipIds: movedTipIds,
+      relatedClusterIds: sources,
+      actorId,
+      notes,
+    });
+
+    return cluster;
+  }
+
+  /**
+   * Move the given tips out into a new cluster
+   */
+  async splitCluster(
+    clusterId: string,
+    tipIds: string[],
+    actorId: string,
+    notes?: string
+  ): Promise<{ source: TipCluster; created: TipCluster }> {
+    const caseId = await this.getCaseId(clusterId);
+    const index = await this.loadIndex(caseId);
+    const newClusterId = index.split(clusterId, tipIds);
+
+    const { error: insertError } = await this.supabase
+      .from('tip_clusters')
+      .insert({ id: newClusterId, case_id: caseId });
+    if (insertError) throw new Error(insertError.message);
+
+    const { error } = await this.supabase
+      .from('tip_cluster_members')
+      .update({ cluster_id: newClusterId, assigned_by: 'reviewer', assigned_at: new Date().toISOString() })
+      .in('tip_id', tipIds);
+    if (error) throw new Error(error.message);
+
+    const source = await this.refreshSummary(index, clusterId);
+    const created = await this.refreshSummary(index, newClusterId);
+
+    await this.recordEvent(caseId, clusterId, 'split', {
+      tipIds,
+      relatedClusterIds: [newClusterId],
+      actorId,
+      notes,
+    });
+    await this.recordEvent(caseId, newClusterId, 'split', {
+      tipIds,
+      relatedClusterIds: [clusterId],
+      actorId,
+      notes,
+    });
+
+    return { source, created };
+  }
+
+  private async getCaseId(clusterId: string): Promise<string> {
+    const { data } = await this.supabase
+      .from('tip_clusters')
+      .select('case_id, status')
+      .eq('id', clusterId)
+      .maybeSingle();
+
+    if (!data || data.status !== 'active') {
+      throw new TipClusterError('cluster_not_found', `Unknown cluster ${clusterId}`);
+    }
+    return data.case_id;
+  }
+
+  private summaryColumns(index: TipClusterIndex, clusterId: string) {
+    const summary = index.summarize(clusterId);
+    return {
+      member_count: summary.memberCount,
+      centroid_latitude: summary.centroidLatitude ?? null,
+      centroid_longitude: summary.centroidLongitude ?? null,
+      first_occurred_at: summary.firstOccurredAt ?? null,
+      last_occurred_at: summary.lastOccurredAt ?? null,
+      updated_at: new Date().toISOString(),
+    };
+  }
+
+  private async refreshSummary(index: TipClusterIndex, clusterId: string): Promise<TipCluster> {
+    const { data, error } = await this.supabase
+      .from('tip_clusters')
+      .update(this.summaryColumns(index, clusterId))
+      .eq('id', clusterId)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+    return mapTipClusterFromDb(data);
+  }
+
+  private async recordEvent(
+    caseId: string,
+    clusterId: string,
+    eventType: TipClusterEventType,
+    details: { tipIds: string[]; relatedClusterIds: string[]; actorId?: string; notes?: string }
+  ): Promise<void> {
+    const { error } = await this.supabase.from('tip_cluster_events').insert({
+      case_id: caseId,
+      cluster_id: clusterId,
+      event_type: eventType,
+      tip_ids: details.tipIds,
+      related_cluster_ids: details.relatedClusterIds,
+      actor_id: details.actorId ?? null,
+      notes: details.notes ?? null,
+    });
+
+    if (error) {
+      console.error('[TipClusters] Failed to record event:', error);
+    }
+  }
+}
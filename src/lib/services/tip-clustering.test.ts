@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TipClusterIndex,
+  TipClusterError,
+  computeMinHashSignature,
+  estimateSimilarity,
+  geoTimeProximity,
+  lshBandKeys,
+} from './tip-clustering';
+
+function sequentialIds(prefix = 'cluster') {
+  let next = 0;
+  return () => `${prefix}-${++next}`;
+}
+
+describe('tip clustering', () => {
+  describe('MinHash signatures', () => {
+    it('should give identical texts identical signatures', () => {
+      const text = 'Girl in a red jacket at the bus station on Main Street';
+      expect(computeMinHashSignature(text)).toEqual(computeMinHashSignature(text));
+      expect(estimateSimilarity(computeMinHashSignature(text), computeMinHashSignature(text))).toBe(1);
+    });
+
+    it('should score paraphrases well above unrelated tips', () => {
+      const original = computeMinHashSignature('I saw a girl wearing a red jacket near the bus station on Main Street');
+      const paraphrase = computeMinHashSignature('Spotted the girl in a red jacket by the Main Street bus station');
+      const unrelated = computeMinHashSignature('White pickup truck speeding north on the highway past the gas station');
+
+      const paraphraseScore = estimateSimilarity(original, paraphrase);
+      expect(paraphraseScore).toBeGreaterThan(0.3);
+      expect(paraphraseScore).toBeGreaterThan(estimateSimilarity(original, unrelated) + 0.2);
+    });
+
+    it('should not bucket empty texts together', () => {
+      expect(lshBandKeys(computeMinHashSignature(''))).toEqual([]);
+      expect(estimateSimilarity(computeMinHashSignature(''), computeMinHashSignature('...'))).toBe(0);
+    });
+  });
+
+  describe('geoTimeProximity', () => {
+    it('should be 1 for the same place and time and 0 outside the window', () => {
+      const at = { latitude: 45.5, longitude: -73.56, occurredAt: '2026-01-18T15:00:00Z' };
+      expect(geoTimeProximity(at, at)).toBe(1);
+      expect(geoTimeProximity(at, { ...at, occurredAt: '2026-01-18T19:00:00Z' })).toBe(0);
+      expect(geoTimeProximity(at, { ...at, latitude: 45.6 })).toBe(0);
+      expect(geoTimeProximity(at, { occurredAt: at.occurredAt })).toBe(0);
+    });
+  });
+
+  describe('TipClusterIndex', () => {
+    it('should cluster paraphrased reports and keep unrelated tips apart', () => {
+      const index = new TipClusterIndex(sequentialIds());
+      const first = index.assign({
+        tipId: 'tip-1',
+        content: 'I saw a girl wearing a red jacket near the bus station on Main Street',
+      });
+      const paraphrase = index.assign({
+        tipId: 'tip-2',
+        content: 'Saw the girl wearing a red jacket by the bus station on Main Street today',
+      });
+      const unrelated = index.assign({
+        tipId: 'tip-3',
+        content: 'White pickup truck speeding north on the highway past the gas station',
+      });
+
+      expect(first.isNewCluster).toBe(true);
+      expect(paraphrase.isNewCluster).toBe(false);
+      expect(paraphrase.clusterId).toBe(first.clusterId);
+      expect(paraphrase.matchedTipId).toBe('tip-1');
+      expect(unrelated.clusterId).not.toBe(first.clusterId);
+    });
+
+    it('should use geo-time proximity to group loosely worded reports of one sighting', () => {
+      const place = { latitude: 45.5017, longitude: -73.5673, occurredAt: '2026-01-18T15:00:00Z' };
+      const content = 'Child matching the poster was at the bus station on Main Street';
+      const reworded = 'Kid from the amber alert poster seen waiting at the station bus stop';
+
+      const near = new TipClusterIndex(sequentialIds());
+      const a = near.assign({ tipId: 'tip-1', content, ...place });
+      const b = near.assign({ tipId: 'tip-2', content: reworded, ...place, occurredAt: '2026-01-18T15:20:00Z' });
+      expect(b.clusterId).toBe(a.clusterId);
+
+      const far = new TipClusterIndex(sequentialIds());
+      const c = far.assign({ tipId: 'tip-1', content, ...place });
+      const d = far.assign({ tipId: 'tip-2', content: reworded, latitude: 43.65, longitude: -79.38, occurredAt: '2026-01-20T09:00:00Z' });
+      expect(d.clusterId).not.toBe(c.clusterId);
+    });
+
+    it('should restore from persisted members without rehashing', () => {
+      const index = new TipClusterIndex(sequentialIds());
+      index.assign({ tipId: 'tip-1', content: 'Red sedan with a broken tail light outside the school' });
+      const restored = TipClusterIndex.fromMembers([index.getMember('tip-1')!], sequentialIds('restored'));
+
+      const matches = restored.findMatches({
+        tipId: 'tip-2',
+        content: 'Red sedan with a broken tail light outside the school',
+      });
+      expect(matches[0]).toMatchObject({ tipId: 'tip-1', clusterId: 'cluster-1', textSimilarity: 1 });
+    });
+
+    it('should merge clusters and split tips back out', () => {
+      const index = new TipClusterIndex(sequentialIds());
+      const a = index.assign({ tipId: 'tip-1', content: 'Girl in a red jacket at the bus station' });
+      index.assign({ tipId: 'tip-2', content: 'Girl in a red jacket at the bus station on Main' });
+      const b = index.assign({ tipId: 'tip-3', content: 'Blue van with Ontario plates circling the park' });
+
+      const moved = index.merge(a.clusterId, [b.clusterId]);
+      expect(moved).toEqual(['tip-3']);
+      expect(index.getClusterTipIds(a.clusterId).sort()).toEqual(['tip-1', 'tip-2', 'tip-3']);
+      expect(index.listClusterIds()).toEqual([a.clusterId]);
+
+      const splitId = index.split(a.clusterId, ['tip-3']);
+      expect(index.getClusterId('tip-3')).toBe(splitId);
+      expect(index.summarize(a.clusterId).memberCount).toBe(2);
+    });
+
+    it('should reject splits that are empty, foreign or would empty the cluster', () => {
+      const index = new TipClusterIndex(sequentialIds());
+      const a = index.assign({ tipId: 'tip-1', content: 'Girl in a red jacket at the bus station' });
+      index.assign({ tipId: 'tip-2', content: 'Blue van with Ontario plates circling the park' });
+
+      expect(() => index.split(a.clusterId, [])).toThrow(TipClusterError);
+      expect(() => index.split(a.clusterId, ['tip-2'])).toThrow(/not in cluster/);
+      expect(() => index.split(a.clusterId, ['tip-1'])).toThrow(/empty/);
+      expect(() => index.merge('missing', [a.clusterId])).toThrow(/Unknown cluster/);
+    });
+
+    it('should summarize centroid and time range', () => {
+      const index = new TipClusterIndex(sequentialIds());
+      const content = 'Girl in a red jacket at the bus station on Main Street';
+      const a = index.assign({ tipId: 'tip-1', content, latitude: 45.5, longitude: -73.5, occurredAt: '2026-01-18T15:00:00Z' });
+      index.assign({ tipId: 'tip-2', content, latitude: 45.502, longitude: -73.502, occurredAt: '2026-01-18T14:00:00Z' });
+
+      expect(index.summarize(a.clusterId)).toMatchObject({
+        memberCount: 2,
+        centroidLatitude: expect.closeTo(45.501, 5),
+        centroidLongitude: expect.closeTo(-73.501, 5),
+        firstOccurredAt: '2026-01-18T14:00:00Z',
+        lastOccurredAt: '2026-01-18T15:00:00Z',
+      });
+    });
+  });
+});
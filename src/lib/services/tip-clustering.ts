@@ -0,0 +1,502 @@
+/**
+ * Tip Clustering
+ * MinHash/LSH index that groups related tips into sighting clusters. Text is
+ * reduced to character shingles so paraphrases still overlap, and a geo-time
+ * grid pulls in tips reporting the same place and hour in different words.
+ * Lookups only touch tips sharing a band bucket or grid cell, never the
+ * whole case.
+ */
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const TIP_CLUSTER_CONFIG = {
+  numHashes: 128,
+  // 32 bands of 4 rows: pairs above ~0.42 Jaccard almost always share a bucket
+  bands: 32,
+  shingleSize: 4,
+  // Estimated Jaccard at which a tip is reported as a duplicate
+  duplicateThreshold: 0.8,
+  // Combined score needed to join an existing cluster
+  clusterThreshold: 0.5,
+  proximityWeight: 0.35,
+  proximityRadiusKm: 1,
+  proximityWindowHours: 3,
+  // Grid cell size for geo-time candidates (~1.1 km, 3 hours)
+  gridDegrees: 0.01,
+  gridHours: 3,
+} as const;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'he', 'her', 'his', 'i',
+  'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'she', 'that', 'the', 'their', 'them',
+  'there', 'they', 'this', 'to', 'was', 'we', 'were', 'with', 'who', 'just', 'very',
+]);
+
+// Common paraphrases in sighting reports collapse to one token
+const CANONICAL_TOKENS: Record<string, string> = {
+  saw: 'see', seen: 'see', spotted: 'see', spot: 'see', noticed: 'see', observed: 'see',
+  car: 'vehicle', auto: 'vehicle', truck: 'vehicle', van: 'vehicle', suv: 'vehicle',
+  kid: 'child', girl: 'child', boy: 'child', teen: 'child', teenager: 'child',
+  store: 'shop', market: 'shop', grocery: 'shop',
+  jacket: 'coat', hoodie: 'coat', sweater: 'coat',
+  near: 'by', beside: 'by', outside: 'by', next: 'by',
+};
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TipClusterInput {
+  tipId: string;
+  content: string;
+  latitude?: number;
+  longitude?: number;
+  // Sighting time when given, otherwise when the tip arrived
+  occurredAt?: string;
+}
+
+export interface TipClusterMember {
+  tipId: string;
+  clusterId: string;
+  signature: number[];
+  latitude?: number;
+  longitude?: number;
+  occurredAt?: string;
+}
+
+export interface TipClusterMatch {
+  tipId: string;
+  clusterId: string;
+  textSimilarity: number;
+  proximity: number;
+  score: number;
+}
+
+export interface TipClusterAssignment {
+  tipId: string;
+  clusterId: string;
+  isNewCluster: boolean;
+  // Best match that placed the tip, absent for new clusters
+  matchedTipId?: string;
+  score?: number;
+  member: TipClusterMember;
+}
+
+export interface TipClusterSummary {
+  clusterId: string;
+  tipIds: string[];
+  memberCount: number;
+  centroidLatitude?: number;
+  centroidLongitude?: number;
+  firstOccurredAt?: string;
+  lastOccurredAt?: string;
+}
+
+export type TipClusterErrorCode = 'cluster_not_found' | 'tip_not_in_cluster' | 'invalid_split';
+
+export class TipClusterError extends Error {
+  readonly code: TipClusterErrorCode;
+
+  constructor(code: TipClusterErrorCode, message: string) {
+    super(message);
+    this.name = 'TipClusterError';
+    this.code = code;
+  }
+}
+
+// =============================================================================
+// SHINGLING AND MINHASH
+// =============================================================================
+
+function stem(token: string): string {
+  if (token.length > 5 && token.endsWith('ing')) return token.slice(0, -3);
+  if (token.length > 4 && token.endsWith('ed')) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+export function normalizeTipText(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token.length > 0 && !STOPWORDS.has(token))
+    .map((token) => CANONICAL_TOKENS[token] ?? stem(token));
+}
+
+/**
+ * Character shingles over the normalized token stream. Short texts that do
+ * not fill one shingle still produce a single token shingle.
+ */
+export function shingleTipText(text: string, size: number = TIP_CLUSTER_CONFIG.shingleSize): Set<string> {
+  const joined = normalizeTipText(text).join(' ');
+  const shingles = new Set<string>();
+  if (joined.length === 0) return shingles;
+  if (joined.length <= size) {
+    shingles.add(joined);
+    return shingles;
+  }
+  for (let i = 0; i <= joined.length - size; i++) {
+    shingles.add(joined.slice(i, i + size));
+  }
+  return shingles;
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// murmur3 finalizer; seeding it gives an independent hash per signature row
+function mix(hash: number, seed: number): number {
+  let h = (hash ^ Math.imul(seed, 0x9e3779b1)) >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+export function computeMinHashSignature(
+  text: string,
+  numHashes: number = TIP_CLUSTER_CONFIG.numHashes
+): number[] {
+  const signature = new Array<number>(numHashes).fill(0xffffffff);
+  for (const shingle of shingleTipText(text)) {
+    const base = fnv1a(shingle);
+    for (let i = 0; i < numHashes; i++) {
+      const hashed = mix(base, i + 1);
+      if (hashed < signature[i]) signature[i] = hashed;
+    }
+  }
+  return signature;
+}
+
+/**
+ * Fraction of matching rows: an unbiased estimate of shingle Jaccard
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 0;
+  let matches = 0;
+  for (let i = 0; i < length; i++) {
+    if (a[i] === b[i] && a[i] !== 0xffffffff) matches++;
+  }
+  return matches / length;
+}
+
+export function lshBandKeys(signature: number[], bands: number = TIP_CLUSTER_CONFIG.bands): string[] {
+  const rows = Math.floor(signature.length / bands);
+  const keys: string[] = [];
+  for (let band = 0; band < bands; band++) {
+    const slice = signature.slice(band * rows, (band + 1) * rows);
+    // Empty texts produce all-sentinel bands that would match each other
+    if (slice.every((value) => value === 0xffffffff)) continue;
+    keys.push(`${band}:${fnv1a(slice.join(','))}`);
+  }
+  return keys;
+}
+
+// =============================================================================
+// GEO-TIME PROXIMITY
+// =============================================================================
+
+function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371;
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLon / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function hasPosition(
+  point: Pick<TipClusterMember, 'latitude' | 'longitude' | 'occurredAt'>
+): point is { latitude: number; longitude: number; occurredAt: string } {
+  return point.latitude != null && point.longitude != null && Boolean(point.occurredAt);
+}
+
+/**
+ * 1 for the same place and time, falling linearly to 0 at the radius or
+ * window edge. Tips without coordinates and a time score 0.
+ */
+export function geoTimeProximity(
+  a: Pick<TipClusterMember, 'latitude' | 'longitude' | 'occurredAt'>,
+  b: Pick<TipClusterMember, 'latitude' | 'longitude' | 'occurredAt'>
+): number {
+  if (!hasPosition(a) || !hasPosition(b)) return 0;
+
+  const km = distanceKm(a.latitude, a.longitude, b.latitude, b.longitude);
+  const hours = Math.abs(new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime()) / 3_600_000;
+  if (!Number.isFinite(hours)) return 0;
+
+  const space = Math.max(0, 1 - km / TIP_CLUSTER_CONFIG.proximityRadiusKm);
+  const time = Math.max(0, 1 - hours / TIP_CLUSTER_CONFIG.proximityWindowHours);
+  return space * time;
+}
+
+function gridCell(member: Pick<TipClusterMember, 'latitude' | 'longitude' | 'occurredAt'>): [number, number, number] | null {
+  if (!hasPosition(member)) return null;
+  const time = new Date(member.occurredAt).getTime();
+  if (Number.isNaN(time)) return null;
+  return [
+    Math.floor(member.latitude / TIP_CLUSTER_CONFIG.gridDegrees),
+    Math.floor(member.longitude / TIP_CLUSTER_CONFIG.gridDegrees),
+    Math.floor(time / (TIP_CLUSTER_CONFIG.gridHours * 3_600_000)),
+  ];
+}
+
+function gridKey(cell: [number, number, number]): string {
+  return `g:${cell.join(':')}`;
+}
+
+// =============================================================================
+// INDEX
+// =============================================================================
+
+/**
+ * In-memory index for one case. Persisted members are loaded back with
+ * their stored signatures, so nothing is rehashed on load.
+ */
+export class TipClusterIndex {
+  private members = new Map<string, TipClusterMember>();
+  private clusters = new Map<string, Set<string>>();
+  private bandBuckets = new Map<string, Set<string>>();
+  private gridBuckets = new Map<string, Set<string>>();
+
+  constructor(private createId: () => string = () => crypto.randomUUID()) {}
+
+  static fromMembers(members: TipClusterMember[], createId?: () => string): TipClusterIndex {
+    const index = new TipClusterIndex(createId);
+    for (const member of members) {
+      index.insert(member);
+    }
+    return index;
+  }
+
+  get size(): number {
+    return this.members.size;
+  }
+
+  getMember(tipId: string): TipClusterMember | undefined {
+    return this.members.get(tipId);
+  }
+
+  getClusterId(tipId: string): string | undefined {
+    return this.members.get(tipId)?.clusterId;
+  }
+
+  listClusterIds(): string[] {
+    return Array.from(this.clusters.keys());
+  }
+
+  getClusterTipIds(clusterId: string): string[] {
+    return Array.from(this.clusters.get(clusterId) ?? []);
+  }
+
+  /**
+   * Members sharing at least one LSH bucket or a neighbouring grid cell
+   */
+  findCandidates(probe: Omit<TipClusterMember, 'clusterId' | 'tipId'> & { tipId?: string }): Set<string> {
+    const candidates = new Set<string>();
+
+    for (const key of lshBandKeys(probe.signature)) {
+      for (const tipId of this.bandBuckets.get(key) ?? []) candidates.add(tipId);
+    }
+
+    const cell = gridCell(probe);
+    if (cell) {
+      for (let dLat = -1; dLat <= 1; dLat++) {
+        for (let dLng = -1; dLng <= 1; dLng++) {
+          for (let dTime = -1; dTime <= 1; dTime++) {
+            const key = gridKey([cell[0] + dLat, cell[1] + dLng, cell[2] + dTime]);
+            for (const tipId of this.gridBuckets.get(key) ?? []) candidates.add(tipId);
+          }
+        }
+      }
+    }
+
+    if (probe.tipId) candidates.delete(probe.tipId);
+    return candidates;
+  }
+
+  /**
+   * Score candidates for a tip that may or may not be indexed yet
+   */
+  findMatches(input: TipClusterInput): TipClusterMatch[] {
+    const probe = {
+      tipId: input.tipId,
+      signature: computeMinHashSignature(input.content),
+      latitude: input.latitude,
+      longitude: input.longitude,
+      occurredAt: input.occurredAt,
+    };
+    return this.scoreCandidates(probe);
+  }
+
+  /**
+   * Place a new tip: join the best-scoring cluster above the threshold or
+   * start a new one. Assignment never merges existing clusters; that is a
+   * reviewer decision.
+   */
+  assign(input: TipClusterInput): TipClusterAssignment {
+    const existing = this.members.get(input.tipId);
+    if (existing) {
+      return { tipId: input.tipId, clusterId: existing.clusterId, isNewCluster: false, member: existing };
+    }
+
+    const signature = computeMinHashSignature(input.content);
+    const probe = {
+      tipId: input.tipId,
+      signature,
+      latitude: input.latitude,
+      longitude: input.longitude,
+      occurredAt: input.occurredAt,
+    };
+    const best = this.scoreCandidates(probe).find(
+      (match) => match.score >= TIP_CLUSTER_CONFIG.clusterThreshold
+    );
+
+    const member: TipClusterMember = {
+      ...probe,
+      clusterId: best?.clusterId ?? this.createId(),
+    };
+    this.insert(member);
+
+    return {
+      tipId: input.tipId,
+      clusterId: member.clusterId,
+      isNewCluster: !best,
+      matchedTipId: best?.tipId,
+      score: best?.score,
+      member,
+    };
+  }
+
+  /**
+   * Fold source clusters into the target; returns the moved tip ids
+   */
+  merge(targetClusterId: string, sourceClusterIds: string[]): string[] {
+    const target = this.clusters.get(targetClusterId);
+    if (!target) {
+      throw new TipClusterError('cluster_not_found', `Unknown cluster ${targetClusterId}`);
+    }
+
+    const moved: string[] = [];
+    for (const sourceId of sourceClusterIds) {
+      if (sourceId === targetClusterId) continue;
+      const source = this.clusters.get(sourceId);
+      if (!source) {
+        throw new TipClusterError('cluster_not_found', `Unknown cluster ${sourceId}`);
+      }
+      for (const tipId of source) {
+        this.members.get(tipId)!.clusterId = targetClusterId;
+        target.add(tipId);
+        moved.push(tipId);
+      }
+      this.clusters.delete(sourceId);
+    }
+    return moved;
+  }
+
+  /**
+   * Move the given tips out of their cluster into a new one
+   */
+  split(clusterId: string, tipIds: string[]): string {
+    const cluster = this.clusters.get(clusterId);
+    if (!cluster) {
+      throw new TipClusterError('cluster_not_found', `Unknown cluster ${clusterId}`);
+    }
+    if (tipIds.length === 0) {
+      throw new TipClusterError('invalid_split', 'Select at least one tip to split off');
+    }
+    for (const tipId of tipIds) {
+      if (!cluster.has(tipId)) {
+        throw new TipClusterError('tip_not_in_cluster', `Tip ${tipId} is not in cluster ${clusterId}`);
+      }
+    }
+    if (tipIds.length >= cluster.size) {
+      throw new TipClusterError('invalid_split', 'Splitting every tip out would leave the cluster empty');
+    }
+
+    const newClusterId = this.createId();
+    const moved = new Set<string>();
+    for (const tipId of tipIds) {
+      cluster.delete(tipId);
+      this.members.get(tipId)!.clusterId = newClusterId;
+      moved.add(tipId);
+    }
+    this.clusters.set(newClusterId, moved);
+    return newClusterId;
+  }
+
+  summarize(clusterId: string): TipClusterSummary {
+    const tipIds = this.getClusterTipIds(clusterId);
+    const members = tipIds.map((tipId) => this.members.get(tipId)!);
+    const located = members.filter((m) => m.latitude != null && m.longitude != null);
+    const times = members
+      .map((m) => m.occurredAt)
+      .filter((t): t is string => Boolean(t))
+      .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+
+    return {
+      clusterId,
+      tipIds,
+      memberCount: tipIds.length,
+      centroidLatitude: located.length
+        ? located.reduce((sum, m) => sum + m.latitude!, 0) / located.length
+        : undefined,
+      centroidLongitude: located.length
+        ? located.reduce((sum, m) => sum + m.longitude!, 0) / located.length
+        : undefined,
+      firstOccurredAt: times[0],
+      lastOccurredAt: times[times.length - 1],
+    };
+  }
+
+  private insert(member: TipClusterMember): void {
+    this.members.set(member.tipId, member);
+
+    if (!this.clusters.has(member.clusterId)) {
+      this.clusters.set(member.clusterId, new Set());
+    }
+    this.clusters.get(member.clusterId)!.add(member.tipId);
+
+    for (const key of lshBandKeys(member.signature)) {
+      if (!this.bandBuckets.has(key)) this.bandBuckets.set(key, new Set());
+      this.bandBuckets.get(key)!.add(member.tipId);
+    }
+
+    const cell = gridCell(member);
+    if (cell) {
+      const key = gridKey(cell);
+      if (!this.gridBuckets.has(key)) this.gridBuckets.set(key, new Set());
+      this.gridBuckets.get(key)!.add(member.tipId);
+    }
+  }
+
+  private scoreCandidates(probe: Omit<TipClusterMember, 'clusterId'>): TipClusterMatch[] {
+    const matches: TipClusterMatch[] = [];
+    for (const tipId of this.findCandidates(probe)) {
+      const candidate = this.members.get(tipId)!;
+      const textSimilarity = estimateSimilarity(probe.signature, candidate.signature);
+      const proximity = geoTimeProximity(probe, candidate);
+      matches.push({
+        tipId,
+        clusterId: candidate.clusterId,
+        textSimilarity,
+        proximity,
+        score: Math.min(1, textSimilarity + TIP_CLUSTER_CONFIG.proximityWeight * proximity),
+      });
+    }
+    return matches.sort((a, b) => b.score - a.score);
+  }
+}
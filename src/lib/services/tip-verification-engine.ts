@@ -23,6 +23,14 @@ import type {
   RuleCondition,
   RuleAction,
 } from '@/types/tip-verification.types';
+import {
+  TipVerifierRegistry,
+  runVerifierStages,
+  toStageTimings,
+  type TipVerifierStage,
+  type TipVerifierStageOutput,
+} from './tip-verification-pipeline';
+import { TipClusterIndex, TIP_CLUSTER_CONFIG, computeMinHashSignature } from './tip-clustering';
 
 // =============================================================================
 // CONFIGURATION
@@ -67,6 +75,8 @@ export interface VerificationEngineContext {
   tipsterProfile?: TipsterProfile;
   existingLeads: LeadData[];
   existingTips: ExistingTipData[];
+  // Persisted cluster index for the case; built from existingTips when absent
+  clusterIndex?: TipClusterIndex;
   scamPatterns: ScamPattern[];
   verificationRules: VerificationRule[];
 }
@@ -101,147 +111,278 @@ interface ExistingTipData {
   credibilityScore?: number;
 }
 
-/**
- * Main verification function - orchestrates all verification steps
- */
-export async function verifyTip(
-  context: VerificationEngineContext
-): Promise<TipVerificationResult> {
-  const { tip, caseData, tipsterProfile, existingLeads, existingTips, scamPatterns, verificationRules } = context;
+// =============================================================================
+// BUILT-IN VERIFIER STAGES
+// =============================================================================
 
-  const verificationMethods: VerificationMethod[] = [];
-  const hoaxIndicators: HoaxIndicatorType[] = [];
-  const credibilityFactors: CredibilityFactor[] = [];
-  const autoActions: AutomatedAction[] = [];
-  const warnings: VerificationWarning[] = [];
-  const suggestions: string[] = [];
+const BUILTIN_STAGE_TIMEOUT_MS = 2000;
+
+const tipsterReliabilityStage: TipVerifierStage = {
+  id: 'tipster_reliability',
+  name: 'Tipster reliability',
+  method: 'pattern_matching',
+  weight: VERIFICATION_CONFIG.weights.tipsterReliability,
+  timeoutMs: BUILTIN_STAGE_TIMEOUT_MS,
+  enabled: true,
+  run: ({ tipsterProfile }) => ({
+    score: calculateTipsterReliabilityScore(tipsterProfile),
+    description: getTipsterReliabilityDescription(tipsterProfile),
+    warnings: tipsterProfile?.isBlocked
+      ? [{
+          type: 'blocked_tipster',
+          severity: 'critical',
+          message: 'Tip submitted by a blocked tipster',
+          details: { reason: tipsterProfile.blockedReason },
+        }]
+      : [],
+  }),
+};
 
-  // Check if tipster is blocked
-  if (tipsterProfile?.isBlocked) {
-    warnings.push({
-      type: 'blocked_tipster',
-      severity: 'critical',
-      message: 'Tip submitted by a blocked tipster',
-      details: { reason: tipsterProfile.blockedReason },
-    });
-  }
+const textAnalysisStage: TipVerifierStage<TextAnalysisResult> = {
+  id: 'text_analysis',
+  name: 'Text analysis',
+  method: 'text_sentiment',
+  weight: VERIFICATION_CONFIG.weights.text,
+  timeoutMs: BUILTIN_STAGE_TIMEOUT_MS,
+  enabled: true,
+  run: ({ tip }) => {
+    const analysis = analyzeText(tip.content);
+    return { score: analysis.score, description: analysis.description, details: analysis };
+  },
+};
 
-  // 1. Tipster Reliability Score
-  const tipsterReliabilityScore = calculateTipsterReliabilityScore(tipsterProfile);
-  verificationMethods.push('pattern_matching');
-  credibilityFactors.push({
-    factor: 'tipster_reliability',
-    score: tipsterReliabilityScore,
-    weight: VERIFICATION_CONFIG.weights.tipsterReliability,
-    description: getTipsterReliabilityDescription(tipsterProfile),
-    source: 'pattern_matching',
-  });
+const photoMetadataStage: TipVerifierStage<PhotoAnalysisResult> = {
+  id: 'photo_metadata',
+  name: 'Photo metadata',
+  factor: 'photo_verification',
+  method: 'photo_metadata',
+  weight: VERIFICATION_CONFIG.weights.photo,
+  timeoutMs: BUILTIN_STAGE_TIMEOUT_MS,
+  enabled: true,
+  run: ({ tip }) => {
+    if (!tip.attachments || tip.attachments.length === 0) return null;
+
+    const analysis = analyzePhotoMetadata(tip.attachments, tip.sightingDate, tip.latitude, tip.longitude);
+    return {
+      score: analysis.score,
+      description: analysis.description,
+      hoaxIndicators: analysis.hoaxIndicators,
+      details: analysis,
+    };
+  },
+};
 
-  // 2. Text Analysis
-  const textAnalysis = analyzeText(tip.content);
-  verificationMethods.push('text_sentiment');
-  credibilityFactors.push({
-    factor: 'text_analysis',
-    score: textAnalysis.score,
-    weight: VERIFICATION_CONFIG.weights.text,
-    description: textAnalysis.description,
-    source: 'text_sentiment',
-  });
+const locationStage: TipVerifierStage<LocationAnalysisResult> = {
+  id: 'location',
+  name: 'Location verification',
+  factor: 'location_verification',
+  method: 'geolocation',
+  weight: VERIFICATION_CONFIG.weights.location,
+  timeoutMs: BUILTIN_STAGE_TIMEOUT_MS,
+  enabled: true,
+  run: ({ tip, caseData }) => {
+    const analysis = verifyLocation(tip, caseData);
+    return {
+      score: analysis.score,
+      description: analysis.description,
+      hoaxIndicators: analysis.hoaxIndicators,
+      details: analysis,
+    };
+  },
+};
 
-  // 3. Photo Metadata Analysis
-  let photoScore = 50; // Default neutral score
-  let photoMetadata: PhotoMetadata | undefined;
-  if (tip.attachments && tip.attachments.length > 0) {
-    const photoAnalysis = analyzePhotoMetadata(tip.attachments, tip.sightingDate, tip.latitude, tip.longitude);
-    photoScore = photoAnalysis.score;
-    photoMetadata = photoAnalysis.metadata;
-    verificationMethods.push('photo_metadata');
-    credibilityFactors.push({
-      factor: 'photo_verification',
-      score: photoScore,
-      weight: VERIFICATION_CONFIG.weights.photo,
-      description: photoAnalysis.description,
-      source: 'photo_metadata',
-    });
+const timePlausibilityStage: TipVerifierStage<TimeAnalysisResult> = {
+  id: 'time_plausibility',
+  name: 'Time plausibility',
+  method: 'time_plausibility',
+  weight: VERIFICATION_CONFIG.weights.time,
+  timeoutMs: BUILTIN_STAGE_TIMEOUT_MS,
+  enabled: true,
+  run: ({ tip, caseData }) => {
+    const analysis = checkTimePlausibility(tip, caseData);
+    return {
+      score: analysis.score,
+      description: analysis.description,
+      hoaxIndicators: analysis.hoaxIndicators,
+      details: analysis,
+    };
+  },
+};
 
-    if (photoAnalysis.hoaxIndicators.length > 0) {
-      hoaxIndicators.push(...photoAnalysis.hoaxIndicators);
-    }
-  }
+const crossReferenceStage: TipVerifierStage<CrossRefResult> = {
+  id: 'cross_reference',
+  name: 'Lead cross-reference',
+  method: 'cross_reference',
+  weight: VERIFICATION_CONFIG.weights.crossReference,
+  timeoutMs: BUILTIN_STAGE_TIMEOUT_MS,
+  enabled: true,
+  run: ({ tip, existingLeads }) => {
+    const analysis = crossReferenceLeads(tip, existingLeads);
+    return { score: analysis.score, description: analysis.description, details: analysis };
+  },
+};
 
-  // 4. Location Verification
-  const locationAnalysis = verifyLocation(tip, caseData);
-  verificationMethods.push('geolocation');
-  credibilityFactors.push({
-    factor: 'location_verification',
-    score: locationAnalysis.score,
-    weight: VERIFICATION_CONFIG.weights.location,
-    description: locationAnalysis.description,
-    source: 'geolocation',
-  });
+// Duplicate and spam checks feed penalties rather than weighted factors
+const duplicateStage: TipVerifierStage<DuplicateResult> = {
+  id: 'duplicates',
+  name: 'Duplicate detection',
+  method: 'duplicate_detection',
+  weight: 0,
+  timeoutMs: BUILTIN_STAGE_TIMEOUT_MS,
+  enabled: true,
+  run: ({ tip, existingTips, clusterIndex }) => {
+    const analysis = detectDuplicates(tip, existingTips, clusterIndex);
+    return {
+      warnings: analysis.isDuplicate
+        ? [{
+            type: 'duplicate',
+            severity: 'medium',
+            message: 'This tip appears to be a duplicate of an existing tip',
+            details: { duplicateIds: analysis.duplicateIds },
+          }]
+        : [],
+      details: analysis,
+    };
+  },
+};
 
-  if (locationAnalysis.hoaxIndicators.length > 0) {
-    hoaxIndicators.push(...locationAnalysis.hoaxIndicators);
+const spamStage: TipVerifierStage<SpamAnalysisResult> = {
+  id: 'spam',
+  name: 'Spam and hoax detection',
+  method: 'pattern_matching',
+  weight: 0,
+  timeoutMs: BUILTIN_STAGE_TIMEOUT_MS,
+  enabled: true,
+  run: ({ tip, scamPatterns }) => {
+    const analysis = detectSpamAndHoax(tip, scamPatterns);
+    return {
+      hoaxIndicators: analysis.hoaxIndicators,
+      warnings: analysis.spamScore > 50
+        ? [{
+            type: 'spam',
+            severity: analysis.spamScore > 70 ? 'high' : 'medium',
+            message: 'This tip has characteristics of spam',
+            details: { spamScore: analysis.spamScore },
+          }]
+        : [],
+      details: analysis,
+    };
+  },
+};
+
+const BUILTIN_VERIFIER_STAGES = [
+  tipsterReliabilityStage,
+  textAnalysisStage,
+  photoMetadataStage,
+  locationStage,
+  timePlausibilityStage,
+  crossReferenceStage,
+  duplicateStage,
+  spamStage,
+] as TipVerifierStage[];
+
+// Agency stages added with registerVerifierStage; they run after the built-ins
+const agencyVerifierStages: TipVerifierStage[] = [];
+
+/**
+ * Add an agency-specific stage to every registry created from here on,
+ * including the ones the verification API builds. Call it once at server
+ * start-up; the stage can then be enabled, weighted and timed per
+ * jurisdiction like the built-in ones.
+ */
+export function registerVerifierStage(stage: TipVerifierStage): void {
+  if ([...BUILTIN_VERIFIER_STAGES, ...agencyVerifierStages].some((s) => s.id === stage.id)) {
+    throw new Error(`Verifier stage "${stage.id}" is already registered`);
   }
+  agencyVerifierStages.push(stage);
+}
 
-  // 5. Time Plausibility
-  const timeAnalysis = checkTimePlausibility(tip, caseData);
-  verificationMethods.push('time_plausibility');
-  credibilityFactors.push({
-    factor: 'time_plausibility',
-    score: timeAnalysis.score,
-    weight: VERIFICATION_CONFIG.weights.time,
-    description: timeAnalysis.description,
-    source: 'time_plausibility',
-  });
+export function unregisterVerifierStage(stageId: string): boolean {
+  const index = agencyVerifierStages.findIndex((s) => s.id === stageId);
+  if (index < 0) return false;
+  agencyVerifierStages.splice(index, 1);
+  return true;
+}
 
-  if (timeAnalysis.hoaxIndicators.length > 0) {
-    hoaxIndicators.push(...timeAnalysis.hoaxIndicators);
+/**
+ * Registry with the built-in stages in their default order followed by the
+ * registered agency stages. Callers get a fresh copy they can configure or
+ * extend further.
+ */
+export function createDefaultVerifierRegistry(): TipVerifierRegistry {
+  const registry = new TipVerifierRegistry();
+  for (const stage of [...BUILTIN_VERIFIER_STAGES, ...agencyVerifierStages]) {
+    registry.register(stage);
   }
+  return registry;
+}
 
-  // 6. Cross-Reference with Existing Leads
-  const crossRefAnalysis = crossReferenceLeads(tip, existingLeads);
-  verificationMethods.push('cross_reference');
-  credibilityFactors.push({
-    factor: 'cross_reference',
-    score: crossRefAnalysis.score,
-    weight: VERIFICATION_CONFIG.weights.crossReference,
-    description: crossRefAnalysis.description,
-    source: 'cross_reference',
-  });
+/**
+ * Main verification function - runs the registered verifier stages and
+ * combines their output into a scored, triaged verification record
+ */
+export async function verifyTip(
+  context: VerificationEngineContext,
+  registry: TipVerifierRegistry = createDefaultVerifierRegistry()
+): Promise<TipVerificationResult> {
+  const { tip, caseData, tipsterProfile, verificationRules } = context;
 
-  // 7. Duplicate Detection
-  const duplicateAnalysis = detectDuplicates(tip, existingTips);
-  verificationMethods.push('duplicate_detection');
+  const verificationMethods = new Set<VerificationMethod>();
+  const hoaxIndicators: HoaxIndicatorType[] = [];
+  const credibilityFactors: CredibilityFactor[] = [];
+  const autoActions: AutomatedAction[] = [];
+  const warnings: VerificationWarning[] = [];
+  const suggestions: string[] = [];
 
-  if (duplicateAnalysis.isDuplicate) {
-    warnings.push({
-      type: 'duplicate',
-      severity: 'medium',
-      message: 'This tip appears to be a duplicate of an existing tip',
-      details: { duplicateIds: duplicateAnalysis.duplicateIds },
-    });
+  const stageResults = await runVerifierStages(registry, context);
+
+  for (const { stage, status, output, error } of stageResults) {
+    if (status === 'failed' || status === 'timed_out') {
+      warnings.push({
+        type: 'stage_failure',
+        severity: 'low',
+        message: `Verifier stage "${stage.name}" ${status === 'timed_out' ? 'timed out' : 'failed'}`,
+        details: { stageId: stage.id, error },
+      });
+      continue;
+    }
+    if (!output) continue;
+
+    verificationMethods.add(stage.method);
+    if (output.score !== undefined && stage.weight > 0) {
+      credibilityFactors.push({
+        factor: stage.factor ?? stage.id,
+        score: output.score,
+        weight: stage.weight,
+        description: output.description ?? stage.name,
+        source: stage.method,
+      });
+    }
+    hoaxIndicators.push(...(output.hoaxIndicators ?? []));
+    warnings.push(...(output.warnings ?? []));
   }
 
-  // 8. Spam/Hoax Detection
-  const spamAnalysis = detectSpamAndHoax(tip, scamPatterns);
-  hoaxIndicators.push(...spamAnalysis.hoaxIndicators);
+  const stageOutput = <T>(stageId: string) =>
+    stageResults.find((r) => r.stage.id === stageId)?.output as TipVerifierStageOutput<T> | null | undefined;
 
-  if (spamAnalysis.spamScore > 50) {
-    warnings.push({
-      type: 'spam',
-      severity: spamAnalysis.spamScore > 70 ? 'high' : 'medium',
-      message: 'This tip has characteristics of spam',
-      details: { spamScore: spamAnalysis.spamScore },
-    });
-  }
+  const tipsterReliabilityScore = stageOutput('tipster_reliability')?.score;
+  const textAnalysis = stageOutput<TextAnalysisResult>('text_analysis')?.details;
+  const photoMetadata = stageOutput<PhotoAnalysisResult>('photo_metadata')?.details?.metadata;
+  const photoScore = stageOutput('photo_metadata')?.score ?? 50; // Default neutral score
+  const locationAnalysis = stageOutput<LocationAnalysisResult>('location')?.details;
+  const timeAnalysis = stageOutput<TimeAnalysisResult>('time_plausibility')?.details;
+  const crossRefAnalysis = stageOutput<CrossRefResult>('cross_reference')?.details;
+  const duplicateAnalysis = stageOutput<DuplicateResult>('duplicates')?.details;
+  const spamScore = stageOutput<SpamAnalysisResult>('spam')?.details?.spamScore ?? 0;
+  const isDuplicate = duplicateAnalysis?.isDuplicate ?? false;
+  const matchingLeadIds = crossRefAnalysis?.matchingLeadIds ?? [];
 
   // Calculate overall credibility score
   const credibilityScore = calculateOverallCredibility(
     credibilityFactors,
-    spamAnalysis.spamScore,
+    spamScore,
     hoaxIndicators.length,
-    duplicateAnalysis.isDuplicate
+    isDuplicate
   );
 
   if (credibilityScore < 30) {
@@ -253,73 +394,30 @@ export async function verifyTip(
     });
   }
 
-  // Apply verification rules
-  const ruleResults = applyVerificationRules(
-    verificationRules,
-    {
-      credibilityScore,
-      spamScore: spamAnalysis.spamScore,
-      tipsterProfile,
-      isAnonymous: tip.isAnonymous,
-      casePriority: caseData.priorityLevel,
-      hasPhoto: (tip.attachments?.length ?? 0) > 0,
-      hasLocation: !!(tip.latitude && tip.longitude),
-      hoaxIndicatorCount: hoaxIndicators.length,
-    }
-  );
-
-  // Determine priority bucket
-  let priorityBucket = determinePriorityBucket(
+  // Apply verification rules and settle bucket, status and review priority
+  const {
+    priorityBucket,
+    verificationStatus,
+    requiresHumanReview,
+    reviewPriority,
+    ruleResults,
+  } = triageTip(verificationRules, {
     credibilityScore,
-    caseData.priorityLevel,
-    (tip.attachments?.length ?? 0) > 0,
-    !!(tip.latitude && tip.longitude),
-    tipsterProfile?.reliabilityTier
-  );
-
-  // Apply rule overrides
-  if (ruleResults.priorityOverride) {
-    priorityBucket = ruleResults.priorityOverride;
-  }
-
-  // Determine verification status
-  let verificationStatus: TipVerificationStatus = 'unverified';
-  let requiresHumanReview = true;
-  let reviewPriority = 5;
+    spamScore,
+    tipsterProfile,
+    isAnonymous: tip.isAnonymous,
+    casePriority: caseData.priorityLevel,
+    hasPhoto: (tip.attachments?.length ?? 0) > 0,
+    hasLocation: !!(tip.latitude && tip.longitude),
+    hoaxIndicatorCount: hoaxIndicators.length,
+  });
 
-  if (spamAnalysis.spamScore >= VERIFICATION_CONFIG.spamThreshold) {
-    verificationStatus = 'rejected';
-    priorityBucket = 'spam';
-    requiresHumanReview = ruleResults.forceReview;
+  if (verificationStatus === 'rejected') {
     autoActions.push({
       action: 'auto_reject_spam',
       description: 'Tip automatically rejected due to high spam score',
       executedAt: new Date().toISOString(),
     });
-  } else if (credibilityScore >= VERIFICATION_CONFIG.autoVerifyThreshold && hoaxIndicators.length === 0) {
-    verificationStatus = 'auto_verified';
-    requiresHumanReview = caseData.priorityLevel === 'p0_critical' || ruleResults.forceReview;
-  } else if (credibilityScore >= VERIFICATION_CONFIG.reviewThreshold) {
-    verificationStatus = 'pending_review';
-    requiresHumanReview = true;
-  } else {
-    verificationStatus = 'unverified';
-    requiresHumanReview = ruleResults.forceReview;
-  }
-
-  // Set review priority based on case priority and credibility
-  if (caseData.priorityLevel === 'p0_critical') {
-    reviewPriority = 1;
-  } else if (caseData.priorityLevel === 'p1_high' || credibilityScore >= 70) {
-    reviewPriority = 2;
-  } else if (credibilityScore >= 50) {
-    reviewPriority = 5;
-  } else {
-    reviewPriority = 8;
-  }
-
-  if (ruleResults.reviewPriorityOverride) {
-    reviewPriority = ruleResults.reviewPriorityOverride;
   }
 
   // Generate suggestions
@@ -332,7 +430,7 @@ export async function verifyTip(
   if (tip.content.length < 100) {
     suggestions.push('Request additional details about the sighting');
   }
-  if (credibilityScore >= 60 && crossRefAnalysis.matchingLeadIds.length === 0) {
+  if (credibilityScore >= 60 && matchingLeadIds.length === 0) {
     suggestions.push('Consider creating a new lead from this tip');
   }
 
@@ -345,6 +443,8 @@ export async function verifyTip(
   const slaHours = VERIFICATION_CONFIG.slaHours[priorityBucket === 'spam' ? 'low' : priorityBucket];
   const reviewDeadline = new Date(Date.now() + slaHours * 60 * 60 * 1000).toISOString();
 
+  const stageTimings = toStageTimings(stageResults);
+
   // Build verification record
   const verification: TipVerification = {
     id: '', // Will be set by database
@@ -354,37 +454,37 @@ export async function verifyTip(
     credibilityScore,
     credibilityFactors,
     photoVerificationScore: photoScore,
-    locationVerificationScore: locationAnalysis.score,
-    timePlausibilityScore: timeAnalysis.score,
-    textAnalysisScore: textAnalysis.score,
-    crossReferenceScore: crossRefAnalysis.score,
+    locationVerificationScore: locationAnalysis?.score,
+    timePlausibilityScore: timeAnalysis?.score,
+    textAnalysisScore: textAnalysis?.score,
+    crossReferenceScore: crossRefAnalysis?.score,
     tipsterReliabilityScore,
-    verificationMethods,
+    verificationMethods: Array.from(verificationMethods),
     photoMetadata,
     photoAnalysisNotes: (tip.attachments?.length ?? 0) > 0 ? 'Photo metadata analyzed' : undefined,
-    photoIsOriginal: photoMetadata?.hasExif,
-    photoLocationMatches: photoMetadata?.hasGps ? locationAnalysis.score >= 70 : undefined,
-    photoTimestampMatches: photoMetadata?.timestamp ? timeAnalysis.score >= 70 : undefined,
-    locationVerified: locationAnalysis.score >= 70,
-    locationConfidence: locationAnalysis.score / 100,
+    photoIsOriginal: photoMetadata ? photoMetadata.hasExif && !photoMetadata.editMarkers?.length : undefined,
+    photoLocationMatches: photoMetadata?.hasGps && locationAnalysis ? locationAnalysis.score >= 70 : undefined,
+    photoTimestampMatches: photoMetadata?.timestamp && timeAnalysis ? timeAnalysis.score >= 70 : undefined,
+    locationVerified: locationAnalysis ? locationAnalysis.score >= 70 : undefined,
+    locationConfidence: locationAnalysis ? locationAnalysis.score / 100 : undefined,
     locationSource: tip.latitude && tip.longitude ? 'user-provided' : 'none',
-    distanceFromLastSeenKm: locationAnalysis.distance,
-    timePlausible: timeAnalysis.score >= 50,
-    timePlausibilityNotes: timeAnalysis.description,
-    travelTimeFeasible: timeAnalysis.travelFeasible,
-    sentimentScore: textAnalysis.sentiment,
-    textCoherenceScore: textAnalysis.coherence,
-    detailRichnessScore: textAnalysis.detailRichness,
-    consistencyScore: textAnalysis.consistency,
-    isDuplicate: duplicateAnalysis.isDuplicate,
-    duplicateTipIds: duplicateAnalysis.duplicateIds,
-    similarityScores: duplicateAnalysis.similarityScores,
-    matchesExistingLeads: crossRefAnalysis.matchingLeadIds.length > 0,
-    matchingLeadIds: crossRefAnalysis.matchingLeadIds,
-    matchesKnownLocations: crossRefAnalysis.matchesKnownLocations,
+    distanceFromLastSeenKm: locationAnalysis?.distance,
+    timePlausible: timeAnalysis ? timeAnalysis.score >= 50 : undefined,
+    timePlausibilityNotes: timeAnalysis?.description,
+    travelTimeFeasible: timeAnalysis?.travelFeasible,
+    sentimentScore: textAnalysis?.sentiment,
+    textCoherenceScore: textAnalysis?.coherence,
+    detailRichnessScore: textAnalysis?.detailRichness,
+    consistencyScore: textAnalysis?.consistency,
+    isDuplicate,
+    duplicateTipIds: duplicateAnalysis?.duplicateIds,
+    similarityScores: duplicateAnalysis?.similarityScores,
+    matchesExistingLeads: matchingLeadIds.length > 0,
+    matchingLeadIds,
+    matchesKnownLocations: crossRefAnalysis?.matchesKnownLocations,
     matchesSuspectDescription: false,
     hoaxIndicators,
-    spamScore: spamAnalysis.spamScore,
+    spamScore,
     hoaxDetectionNotes: hoaxIndicators.length > 0 ? `Detected ${hoaxIndicators.length} hoax indicator(s)` : undefined,
     aiSummary: generateAISummary(tip, credibilityScore, priorityBucket),
     aiConfidence: credibilityScore / 100,
@@ -404,6 +504,7 @@ export async function verifyTip(
     reviewedAt: undefined,
     reviewerNotes: undefined,
     reviewerOverrideScore: undefined,
+    stageTimings,
     verifiedAt: verificationStatus === 'auto_verified' ? new Date().toISOString() : undefined,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
@@ -417,6 +518,7 @@ export async function verifyTip(
     autoActions,
     warnings,
     suggestions,
+    stageTimings,
   };
 }
 
@@ -596,9 +698,12 @@ function analyzePhotoMetadata(
   const hoaxIndicators: HoaxIndicatorType[] = [];
   let score = 60; // Base score for providing a photo
 
-  // Analyze first attachment (primary photo)
+  // Analyze first attachment (primary photo). Metadata read from the image
+  // bytes on upload is trusted over the client-supplied columns.
   const primaryAttachment = attachments[0];
-  const metadata: PhotoMetadata = {
+  const extracted = primaryAttachment.extractedMetadata;
+  const readFromImage = Boolean(extracted?.format);
+  const metadata: PhotoMetadata = extracted ?? {
     hasExif: !!primaryAttachment.exifData,
     hasGps: !!(primaryAttachment.gpsLatitude && primaryAttachment.gpsLongitude),
     latitude: primaryAttachment.gpsLatitude,
@@ -631,7 +736,7 @@ function analyzePhotoMetadata(
       } else if (distance < 5) {
         score += 5;
       } else if (distance > 50) {
-        score -= 10;
+        score -= readFromImage ? 20 : 10;
         hoaxIndicators.push('conflicting_location');
       }
     }
@@ -643,10 +748,17 @@ function analyzePhotoMetadata(
     if (claimedDate) {
       const photoDate = new Date(metadata.timestamp);
       const claimed = new Date(claimedDate);
-      const daysDiff = Math.abs(photoDate.getTime() - claimed.getTime()) / (1000 * 60 * 60 * 24);
+      // A camera clock without a zone can be off by up to 14 hours from UTC
+      const zoneSlackMs = metadata.timestampHasZone === false ? 14 * 60 * 60 * 1000 : 0;
+      const diffMs = Math.max(0, Math.abs(photoDate.getTime() - claimed.getTime()) - zoneSlackMs);
+      const daysDiff = diffMs / (1000 * 60 * 60 * 24);
 
       if (daysDiff < 1) {
         score += 10;
+      } else if (readFromImage) {
+        // Capture time from the file contradicts the claimed sighting
+        score -= daysDiff > 7 ? 20 : 10;
+        hoaxIndicators.push('impossible_timeline');
       } else if (daysDiff > 7) {
         score -= 10;
         hoaxIndicators.push('suspicious_metadata');
@@ -654,6 +766,15 @@ function analyzePhotoMetadata(
     }
   }
 
+  // Editing software or an embedded thumbnail that no longer matches
+  if (metadata.thumbnailMismatch) {
+    score -= 20;
+  }
+  if (metadata.editMarkers && metadata.editMarkers.length > 0) {
+    score -= metadata.thumbnailMismatch ? 5 : 15;
+    hoaxIndicators.push('suspicious_metadata');
+  }
+
   // Check for stock photo indicators
   if (primaryAttachment.isStockPhoto) {
     score -= 30;
@@ -698,6 +819,15 @@ function generatePhotoDescription(
   if (hoaxIndicators.includes('ai_generated_content')) {
     return 'WARNING: Photo appears to be AI-generated';
   }
+  if (metadata.thumbnailMismatch) {
+    return 'WARNING: Embedded thumbnail does not match the photo (likely cropped or edited)';
+  }
+  if (hoaxIndicators.includes('impossible_timeline')) {
+    return 'Photo capture time contradicts the claimed sighting time';
+  }
+  if (metadata.editMarkers && metadata.editMarkers.length > 0) {
+    return `Photo metadata shows editing (${metadata.editMarkers.join(', ')})`;
+  }
 
   if (score >= 80) {
     return 'Photo with verified metadata and matching location/time';
@@ -993,16 +1123,33 @@ interface DuplicateResult {
   similarityScores: Record<string, number>;
 }
 
-function detectDuplicates(tip: TipVerificationInput, existingTips: ExistingTipData[]): DuplicateResult {
+/**
+ * MinHash lookup against the case's cluster index. Only tips sharing an LSH
+ * bucket are scored, so cost no longer grows with every tip on the case.
+ */
+function detectDuplicates(
+  tip: TipVerificationInput,
+  existingTips: ExistingTipData[],
+  clusterIndex?: TipClusterIndex
+): DuplicateResult {
+  const index =
+    clusterIndex ??
+    TipClusterIndex.fromMembers(
+      existingTips.map((existing) => ({
+        tipId: existing.id,
+        clusterId: existing.id,
+        signature: computeMinHashSignature(existing.content),
+      }))
+    );
+
   const similarityScores: Record<string, number> = {};
   const duplicateIds: string[] = [];
 
-  for (const existing of existingTips) {
-    const contentSimilarity = calculateTextSimilarity(tip.content, existing.content);
-    similarityScores[existing.id] = contentSimilarity;
+  for (const match of index.findMatches({ tipId: tip.tipId, content: tip.content })) {
+    similarityScores[match.tipId] = match.textSimilarity;
 
-    if (contentSimilarity > 0.8) {
-      duplicateIds.push(existing.id);
+    if (match.textSimilarity > TIP_CLUSTER_CONFIG.duplicateThreshold) {
+      duplicateIds.push(match.tipId);
     }
   }
 
@@ -1099,7 +1246,7 @@ function detectSpamAndHoax(tip: TipVerificationInput, patterns: ScamPattern[]):
 // VERIFICATION RULES APPLICATION
 // =============================================================================
 
-interface RuleContext {
+export interface RuleContext {
   credibilityScore: number;
   spamScore: number;
   tipsterProfile?: TipsterProfile;
@@ -1110,13 +1257,101 @@ interface RuleContext {
   hoaxIndicatorCount: number;
 }
 
-interface RuleResults {
+export interface RuleResults {
   priorityOverride?: TipPriorityBucket;
   reviewPriorityOverride?: number;
   forceReview: boolean;
   actions: AutomatedAction[];
 }
 
+export type RuleFieldType = 'number' | 'boolean' | 'enum';
+export type RuleOperator = NonNullable<RuleCondition['operator']>;
+
+export interface VerificationRuleField {
+  field: string;
+  label: string;
+  type: RuleFieldType;
+  values?: readonly string[];
+  min?: number;
+  max?: number;
+  resolve: (context: RuleContext) => unknown;
+}
+
+// Operators evaluateCondition can actually apply to each field type
+export const RULE_OPERATORS_BY_TYPE: Record<RuleFieldType, RuleOperator[]> = {
+  number: ['=', '!=', '>', '<', '>=', '<='],
+  boolean: ['=', '!='],
+  enum: ['=', '!=', 'in', 'not_in'],
+};
+
+/**
+ * Every field a rule condition can reference. The rule editor offers these
+ * for autocompletion and validates drafts against them.
+ */
+export const VERIFICATION_RULE_FIELDS: readonly VerificationRuleField[] = [
+  {
+    field: 'credibility_score',
+    label: 'Credibility score',
+    type: 'number',
+    min: 0,
+    max: 100,
+    resolve: (context) => context.credibilityScore,
+  },
+  {
+    field: 'spam_score',
+    label: 'Spam score',
+    type: 'number',
+    min: 0,
+    max: 100,
+    resolve: (context) => context.spamScore,
+  },
+  {
+    field: 'is_anonymous',
+    label: 'Anonymous tip',
+    type: 'boolean',
+    resolve: (context) => context.isAnonymous,
+  },
+  {
+    field: 'case_priority',
+    label: 'Case priority',
+    type: 'enum',
+    values: ['p0_critical', 'p1_high', 'p2_medium', 'p3_low', 'p4_routine'],
+    resolve: (context) => context.casePriority,
+  },
+  {
+    field: 'has_photo',
+    label: 'Has photo',
+    type: 'boolean',
+    resolve: (context) => context.hasPhoto,
+  },
+  {
+    field: 'has_location',
+    label: 'Has coordinates',
+    type: 'boolean',
+    resolve: (context) => context.hasLocation,
+  },
+  {
+    field: 'tipster_reliability_tier',
+    label: 'Tipster reliability tier',
+    type: 'enum',
+    values: ['verified_source', 'high', 'moderate', 'low', 'unrated', 'new'],
+    resolve: (context) => context.tipsterProfile?.reliabilityTier,
+  },
+  {
+    field: 'hoax_indicator_count',
+    label: 'Hoax indicator count',
+    type: 'number',
+    min: 0,
+    resolve: (context) => context.hoaxIndicatorCount,
+  },
+];
+
+const RULE_FIELDS_BY_NAME = new Map(VERIFICATION_RULE_FIELDS.map((f) => [f.field, f]));
+
+export function getRuleField(field: string): VerificationRuleField | undefined {
+  return RULE_FIELDS_BY_NAME.get(field);
+}
+
 function applyVerificationRules(rules: VerificationRule[], context: RuleContext): RuleResults {
   const results: RuleResults = {
     forceReview: false,
@@ -1174,26 +1409,7 @@ function evaluateCondition(condition: RuleCondition, context: RuleContext): bool
 }
 
 function getFieldValue(field: string, context: RuleContext): unknown {
-  switch (field) {
-    case 'credibility_score':
-      return context.credibilityScore;
-    case 'spam_score':
-      return context.spamScore;
-    case 'is_anonymous':
-      return context.isAnonymous;
-    case 'case_priority':
-      return context.casePriority;
-    case 'has_photo':
-      return context.hasPhoto;
-    case 'has_location':
-      return context.hasLocation;
-    case 'tipster_reliability_tier':
-      return context.tipsterProfile?.reliabilityTier;
-    case 'hoax_indicator_count':
-      return context.hoaxIndicatorCount;
-    default:
-      return undefined;
-  }
+  return RULE_FIELDS_BY_NAME.get(field)?.resolve(context);
 }
 
 function applyAction(actions: RuleAction, results: RuleResults, rule: VerificationRule): void {
@@ -1265,6 +1481,78 @@ function determinePriorityBucket(
   return 'low';
 }
 
+// =============================================================================
+// TRIAGE
+// =============================================================================
+
+export interface TipTriageOutcome {
+  priorityBucket: TipPriorityBucket;
+  verificationStatus: TipVerificationStatus;
+  requiresHumanReview: boolean;
+  reviewPriority: number;
+  ruleResults: RuleResults;
+}
+
+/**
+ * Settle bucket, status and review priority from the scores and the active
+ * rules. Shared by verifyTip and the rule dry-run so both agree exactly.
+ */
+function triageTip(rules: VerificationRule[], context: RuleContext): TipTriageOutcome {
+  const ruleResults = applyVerificationRules(rules, context);
+  const { credibilityScore, spamScore, casePriority, hoaxIndicatorCount } = context;
+
+  // Determine priority bucket
+  let priorityBucket = determinePriorityBucket(
+    credibilityScore,
+    casePriority,
+    context.hasPhoto,
+    context.hasLocation,
+    context.tipsterProfile?.reliabilityTier
+  );
+
+  // Apply rule overrides
+  if (ruleResults.priorityOverride) {
+    priorityBucket = ruleResults.priorityOverride;
+  }
+
+  // Determine verification status
+  let verificationStatus: TipVerificationStatus = 'unverified';
+  let requiresHumanReview = true;
+  let reviewPriority = 5;
+
+  if (spamScore >= VERIFICATION_CONFIG.spamThreshold) {
+    verificationStatus = 'rejected';
+    priorityBucket = 'spam';
+    requiresHumanReview = ruleResults.forceReview;
+  } else if (credibilityScore >= VERIFICATION_CONFIG.autoVerifyThreshold && hoaxIndicatorCount === 0) {
+    verificationStatus = 'auto_verified';
+    requiresHumanReview = casePriority === 'p0_critical' || ruleResults.forceReview;
+  } else if (credibilityScore >= VERIFICATION_CONFIG.reviewThreshold) {
+    verificationStatus = 'pending_review';
+    requiresHumanReview = true;
+  } else {
+    verificationStatus = 'unverified';
+    requiresHumanReview = ruleResults.forceReview;
+  }
+
+  // Set review priority based on case priority and credibility
+  if (casePriority === 'p0_critical') {
+    reviewPriority = 1;
+  } else if (casePriority === 'p1_high' || credibilityScore >= 70) {
+    reviewPriority = 2;
+  } else if (credibilityScore >= 50) {
+    reviewPriority = 5;
+  } else {
+    reviewPriority = 8;
+  }
+
+  if (ruleResults.reviewPriorityOverride) {
+    reviewPriority = ruleResults.reviewPriorityOverride;
+  }
+
+  return { priorityBucket, verificationStatus, requiresHumanReview, reviewPriority, ruleResults };
+}
+
 // =============================================================================
 // OVERALL CREDIBILITY CALCULATION
 // =============================================================================
@@ -1387,4 +1675,7 @@ export {
   detectSpamAndHoax,
   determinePriorityBucket,
   calculateOverallCredibility,
+  applyVerificationRules,
+  evaluateCondition,
+  triageTip,
 };
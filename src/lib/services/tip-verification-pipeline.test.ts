@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TipVerifierRegistry,
+  runVerifierStages,
+  toStageTimings,
+  type TipVerifierStage,
+} from './tip-verification-pipeline';
+import {
+  verifyTip,
+  createDefaultVerifierRegistry,
+  registerVerifierStage,
+  unregisterVerifierStage,
+  type VerificationEngineContext,
+} from './tip-verification-engine';
+
+function createContext(overrides: Partial<VerificationEngineContext['tip']> = {}): VerificationEngineContext {
+  return {
+    tip: {
+      tipId: 'tip-1',
+      caseId: 'case-1',
+      content: 'I saw a young girl wearing a red jacket near the bus station on Main Street around 3pm.',
+      isAnonymous: false,
+      latitude: 45.5017,
+      longitude: -73.5673,
+      sightingDate: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+      ...overrides,
+    },
+    caseData: {
+      id: 'case-1',
+      priorityLevel: 'p2_medium',
+      lastSeenLatitude: 45.5088,
+      lastSeenLongitude: -73.5878,
+      lastSeenDate: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
+      firstName: 'Jane',
+      lastName: 'Doe',
+      status: 'active',
+    },
+    existingLeads: [],
+    existingTips: [],
+    scamPatterns: [],
+    verificationRules: [],
+  };
+}
+
+function stage(overrides: Partial<TipVerifierStage>): TipVerifierStage {
+  return {
+    id: 'custom',
+    name: 'Custom check',
+    method: 'geolocation',
+    weight: 0.1,
+    timeoutMs: 100,
+    enabled: true,
+    run: () => ({ score: 80 }),
+    ...overrides,
+  };
+}
+
+describe('Tip Verification Pipeline', () => {
+  describe('TipVerifierRegistry', () => {
+    it('should keep registration order and reject duplicate ids', () => {
+      const registry = new TipVerifierRegistry()
+        .register(stage({ id: 'a' }))
+        .register(stage({ id: 'b' }));
+
+      expect(registry.list().map((s) => s.id)).toEqual(['a', 'b']);
+      expect(() => registry.register(stage({ id: 'a' }))).toThrow('already registered');
+    });
+
+    it('should validate overrides and reject unknown stages', () => {
+      const registry = new TipVerifierRegistry().register(stage({ id: 'a' }));
+
+      registry.configure('a', { weight: 0.3, enabled: false });
+      expect(registry.get('a')).toMatchObject({ weight: 0.3, enabled: false, timeoutMs: 100 });
+      expect(() => registry.configure('a', { timeoutMs: 0 })).toThrow('positive');
+      expect(() => registry.configure('missing', { enabled: false })).toThrow('Unknown');
+    });
+
+    it('should let jurisdiction settings win over global ones', () => {
+      const registry = createDefaultVerifierRegistry().applySettings([
+        {
+          id: '2',
+          stageId: 'photo_metadata',
+          jurisdictionId: 'j-1',
+          enabled: true,
+          weight: 0.4,
+          createdAt: '',
+          updatedAt: '',
+        },
+        { id: '1', stageId: 'photo_metadata', enabled: false, createdAt: '', updatedAt: '' },
+        { id: '3', stageId: 'not_registered', enabled: false, createdAt: '', updatedAt: '' },
+      ]);
+
+      expect(registry.get('photo_metadata')).toMatchObject({ enabled: true, weight: 0.4 });
+    });
+  });
+
+  describe('runVerifierStages', () => {
+    it('should record disabled, skipped, failed and timed out stages', async () => {
+      const registry = new TipVerifierRegistry()
+        .register(stage({ id: 'ok' }))
+        .register(stage({ id: 'off', enabled: false }))
+        .register(stage({ id: 'n_a', run: () => null }))
+        .register(stage({ id: 'broken', run: () => { throw new Error('boom'); } }))
+        .register(stage({
+          id: 'slow',
+          timeoutMs: 10,
+          run: () => new Promise((resolve) => setTimeout(() => resolve({ score: 1 }), 200)),
+        }));
+
+      const timings = toStageTimings(await runVerifierStages(registry, createContext()));
+
+      expect(timings.map((t) => [t.stageId, t.status])).toEqual([
+        ['ok', 'completed'],
+        ['off', 'disabled'],
+        ['n_a', 'skipped'],
+        ['broken', 'failed'],
+        ['slow', 'timed_out'],
+      ]);
+      expect(timings[0].score).toBe(80);
+      expect(timings[3].error).toBe('boom');
+    });
+  });
+
+  describe('verifyTip with a configured registry', () => {
+    it('should report timings for every built-in stage', async () => {
+      const result = await verifyTip(createContext());
+
+      expect(result.stageTimings.map((t) => t.stageId)).toEqual([
+        'tipster_reliability',
+        'text_analysis',
+        'photo_metadata',
+        'location',
+        'time_plausibility',
+        'cross_reference',
+        'duplicates',
+        'spam',
+      ]);
+      expect(result.stageTimings.find((t) => t.stageId === 'photo_metadata')?.status).toBe('skipped');
+      expect(result.verification.stageTimings).toEqual(result.stageTimings);
+    });
+
+    it('should drop disabled stages from scoring', async () => {
+      const registry = createDefaultVerifierRegistry().configure('location', { enabled: false });
+      const result = await verifyTip(createContext(), registry);
+
+      expect(result.verification.credibilityFactors.map((f) => f.factor)).not.toContain(
+        'location_verification'
+      );
+      expect(result.verification.locationVerificationScore).toBeUndefined();
+    });
+
+    it('should include agency stages as weighted factors', async () => {
+      const registry = createDefaultVerifierRegistry().register(
+        stage({
+          id: 'local_gazetteer',
+          name: 'Local address gazetteer',
+          weight: 0.2,
+          run: ({ tip }) => ({
+            score: tip.content.includes('Main Street') ? 90 : 30,
+            description: 'Street name found in municipal gazetteer',
+          }),
+        })
+      );
+
+      const result = await verifyTip(createContext(), registry);
+      const factor = result.verification.credibilityFactors.find((f) => f.factor === 'local_gazetteer');
+
+      expect(factor).toMatchObject({ score: 90, weight: 0.2, source: 'geolocation' });
+    });
+
+    it('should add registered agency stages to every new registry', () => {
+      registerVerifierStage(stage({ id: 'records_check', name: 'Agency records check', weight: 0.1 }));
+      try {
+        expect(createDefaultVerifierRegistry().has('records_check')).toBe(true);
+        expect(createDefaultVerifierRegistry().list().at(-1)?.id).toBe('records_check');
+        expect(() => registerVerifierStage(stage({ id: 'location' }))).toThrow(/already registered/);
+      } finally {
+        unregisterVerifierStage('records_check');
+      }
+      expect(createDefaultVerifierRegistry().has('records_check')).toBe(false);
+    });
+
+    it('should warn instead of failing when a stage throws', async () => {
+      const registry = createDefaultVerifierRegistry().register(
+        stage({ id: 'flaky', run: () => { throw new Error('service unavailable'); } })
+      );
+
+      const result = await verifyTip(createContext(), registry);
+
+      expect(result.warnings).toContainEqual(
+        expect.objectContaining({ type: 'stage_failure', details: { stageId: 'flaky', error: 'service unavailable' } })
+      );
+    });
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Tip Verification Pipeline
+ * Stage registry for the tip verification engine. Each check is a pluggable
+ * verifier with its own weight, timeout and enable flag, so agencies can add
+ * local checks or switch built-in ones off without changing the engine.
+ */
+
+import type {
+  HoaxIndicatorType,
+  TipVerifierStageSetting,
+  TipVerifierStageStatus,
+  TipVerifierStageTiming,
+  VerificationMethod,
+  VerificationWarning,
+} from '@/types/tip-verification.types';
+import type { VerificationEngineContext } from './tip-verification-engine';
+
+// =============================================================================
+// STAGE CONTRACT
+// =============================================================================
+
+export interface TipVerifierStageOutput<TDetails = unknown> {
+  // When set, becomes a credibility factor weighted by the stage weight
+  score?: number;
+  description?: string;
+  hoaxIndicators?: HoaxIndicatorType[];
+  warnings?: VerificationWarning[];
+  // Stage-specific results the engine copies into the verification record
+  details?: TDetails;
+}
+
+export interface TipVerifierStage<TDetails = unknown> {
+  id: string;
+  name: string;
+  method: VerificationMethod;
+  // Credibility factor name, defaults to the stage id
+  factor?: string;
+  weight: number;
+  timeoutMs: number;
+  enabled: boolean;
+  /**
+   * Return null when the check does not apply to this tip (e.g. no photos)
+   */
+  run(
+    context: VerificationEngineContext
+  ): TipVerifierStageOutput<TDetails> | null | Promise<TipVerifierStageOutput<TDetails> | null>;
+}
+
+export interface TipVerifierStageResult {
+  stage: TipVerifierStage;
+  status: TipVerifierStageStatus;
+  output: TipVerifierStageOutput | null;
+  durationMs: number;
+  error?: string;
+}
+
+export type TipVerifierStageOverrides = Partial<
+  Pick<TipVerifierStage, 'enabled' | 'weight' | 'timeoutMs'>
+>;
+
+export class TipVerifierStageTimeoutError extends Error {
+  constructor(stageId: string, timeoutMs: number) {
+    super(`Stage ${stageId} exceeded ${timeoutMs}ms`);
+    this.name = 'TipVerifierStageTimeoutError';
+  }
+}
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+export class TipVerifierRegistry {
+  private stages = new Map<string, TipVerifierStage>();
+
+  /**
+   * Add a stage; stages run in registration order
+   */
+  register(stage: TipVerifierStage): this {
+    if (this.stages.has(stage.id)) {
+      throw new Error(`Verifier stage "${stage.id}" is already registered`);
+    }
+    this.stages.set(stage.id, { ...stage });
+    return this;
+  }
+
+  unregister(stageId: string): boolean {
+    return this.stages.delete(stageId);
+  }
+
+  get(stageId: string): TipVerifierStage | undefined {
+    return this.stages.get(stageId);
+  }
+
+  has(stageId: string): boolean {
+    return this.stages.has(stageId);
+  }
+
+  list(): TipVerifierStage[] {
+    return Array.from(this.stages.values());
+  }
+
+  configure(stageId: string, overrides: TipVerifierStageOverrides): this {
+    const stage = this.stages.get(stageId);
+    if (!stage) {
+      throw new Error(`Unknown verifier stage "${stageId}"`);
+    }
+
+    if (overrides.weight !== undefined && overrides.weight < 0) {
+      throw new Error('Stage weight cannot be negative');
+    }
+    if (overrides.timeoutMs !== undefined && overrides.timeoutMs <= 0) {
+      throw new Error('Stage timeout must be positive');
+    }
+
+    this.stages.set(stageId, {
+      ...stage,
+      ...Object.fromEntries(Object.entries(overrides).filter(([, v]) => v !== undefined)),
+    });
+    return this;
+  }
+
+  /**
+   * Apply stored agency settings. Global rows apply first so a
+   * jurisdiction row for the same stage wins. Unknown stage ids are ignored
+   * so a setting for an unregistered custom stage does not break verification.
+   */
+  applySettings(settings: TipVerifierStageSetting[]): this {
+    const ordered = [...settings].sort(
+      (a, b) => Number(Boolean(a.jurisdictionId)) - Number(Boolean(b.jurisdictionId))
+    );
+
+    for (const setting of ordered) {
+      if (!this.stages.has(setting.stageId)) continue;
+      this.configure(setting.stageId, {
+        enabled: setting.enabled,
+        weight: setting.weight,
+        timeoutMs: setting.timeoutMs,
+      });
+    }
+    return this;
+  }
+
+  clone(): TipVerifierRegistry {
+    const copy = new TipVerifierRegistry();
+    for (const stage of this.stages.values()) {
+      copy.register(stage);
+    }
+    return copy;
+  }
+}
+
+// =============================================================================
+// EXECUTION
+// =============================================================================
+
+function withTimeout<T>(work: Promise<T>, stageId: string, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TipVerifierStageTimeoutError(stageId, timeoutMs)), timeoutMs);
+  });
+
+  return Promise.race([work, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function runStage(
+  stage: TipVerifierStage,
+  context: VerificationEngineContext
+): Promise<TipVerifierStageResult> {
+  if (!stage.enabled) {
+    return { stage, status: 'disabled', output: null, durationMs: 0 };
+  }
+
+  const startedAt = performance.now();
+  try {
+    const output = await withTimeout(
+      Promise.resolve().then(() => stage.run(context)),
+      stage.id,
+      stage.timeoutMs
+    );
+    return {
+      stage,
+      status: output ? 'completed' : 'skipped',
+      output,
+      durationMs: Math.round(performance.now() - startedAt),
+    };
+  } catch (error) {
+    return {
+      stage,
+      status: error instanceof TipVerifierStageTimeoutError ? 'timed_out' : 'failed',
+      output: null,
+      durationMs: Math.round(performance.now() - startedAt),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Run every registered stage concurrently. A stage that throws or times out
+ * is recorded and left out of scoring; it never fails the whole verification.
+ */
+export async function runVerifierStages(
+  registry: TipVerifierRegistry,
+  context: VerificationEngineContext
+): Promise<TipVerifierStageResult[]> {
+  return Promise.all(registry.list().map((stage) => runStage(stage, context)));
+}
+
+export function toStageTimings(results: TipVerifierStageResult[]): TipVerifierStageTiming[] {
+  return results.map(({ stage, status, output, durationMs, error }) => ({
+    stageId: stage.id,
+    name: stage.name,
+    status,
+    durationMs,
+    weight: stage.weight,
+    score: output?.score,
+    error,
+  }));
+}
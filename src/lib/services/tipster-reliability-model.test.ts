@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assessTipsterReliability,
+  outcomeDecay,
+  tipsterOutcomeForReview,
+  TIPSTER_RELIABILITY_CONFIG,
+  type TipsterOutcomeInput,
+} from './tipster-reliability-model';
+import type { TipsterOutcomeType } from '@/types/tip-verification.types';
+
+const NOW = new Date('2026-06-01T00:00:00Z');
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * 86_400_000).toISOString();
+}
+
+function outcomes(outcome: TipsterOutcomeType, count: number, ageDays = 1): TipsterOutcomeInput[] {
+  return Array.from({ length: count }, (_, i) => ({
+    tipId: `${outcome}-${ageDays}-${i}`,
+    outcome,
+    reviewedAt: daysAgo(ageDays),
+  }));
+}
+
+describe('tipster reliability model', () => {
+  describe('tipsterOutcomeForReview', () => {
+    it('should map review decisions to tipster outcomes', () => {
+      expect(tipsterOutcomeForReview('verified')).toBe('verified');
+      expect(tipsterOutcomeForReview('rejected')).toBe('hoax');
+      expect(tipsterOutcomeForReview('rejected', { isDuplicate: true })).toBe('duplicate');
+      expect(tipsterOutcomeForReview('rejected', { isDuplicate: true, isSpam: true })).toBe('spam');
+      expect(tipsterOutcomeForReview('rejected', { isSpam: true, rejectionReason: 'hoax' })).toBe('hoax');
+      expect(tipsterOutcomeForReview('escalated')).toBeNull();
+      expect(tipsterOutcomeForReview('needs_more_info')).toBeNull();
+    });
+  });
+
+  describe('assessTipsterReliability', () => {
+    it('should start new tipsters at a neutral score', () => {
+      expect(assessTipsterReliability([], NOW)).toMatchObject({ score: 50, tier: 'new' });
+    });
+
+    it('should keep a tipster unrated until there is enough evidence', () => {
+      const result = assessTipsterReliability(outcomes('verified', 1), NOW);
+      expect(result.tier).toBe('unrated');
+      expect(result.score).toBeGreaterThan(50);
+    });
+
+    it('should promote consistently verified tipsters and require evidence for the top tier', () => {
+      const four = assessTipsterReliability(outcomes('verified', 4), NOW);
+      expect(four.tier).toBe('high');
+
+      const many = assessTipsterReliability(outcomes('verified', 12), NOW);
+      expect(many.score).toBeGreaterThanOrEqual(85);
+      expect(many.tier).toBe('verified_source');
+    });
+
+    it('should weigh hoaxes and spam far more than duplicates', () => {
+      const base = outcomes('verified', 3);
+      const withDuplicates = assessTipsterReliability([...base, ...outcomes('duplicate', 2)], NOW);
+      const withHoaxes = assessTipsterReliability([...base, ...outcomes('hoax', 2)], NOW);
+      const withSpam = assessTipsterReliability([...base, ...outcomes('spam', 2)], NOW);
+
+      expect(withDuplicates.score).toBeGreaterThan(withHoaxes.score);
+      expect(withHoaxes.score).toBeGreaterThan(withSpam.score);
+      expect(withSpam.tier).toBe('low');
+      expect(withSpam.counts).toMatchObject({ verified: 3, spam: 2 });
+    });
+
+    it('should let old hoaxes fade behind recent verified tips', () => {
+      const history = [...outcomes('hoax', 3, 720), ...outcomes('verified', 4, 5)];
+      const fresh = [...outcomes('hoax', 3, 5), ...outcomes('verified', 4, 5)];
+
+      expect(outcomeDecay(daysAgo(TIPSTER_RELIABILITY_CONFIG.halfLifeDays), NOW)).toBeCloseTo(0.5, 5);
+      expect(assessTipsterReliability(history, NOW).score).toBeGreaterThan(
+        assessTipsterReliability(fresh, NOW).score + 20
+      );
+    });
+
+    it('should only demote once the score drops clearly below the tier floor', () => {
+      // Scores 71 from scratch: just above the high floor of 70
+      const atFloor = [...outcomes('verified', 8), ...outcomes('duplicate', 2), ...outcomes('hoax', 1)];
+      const assessed = assessTipsterReliability(atFloor, NOW);
+      const slipped = assessTipsterReliability([...atFloor, ...outcomes('duplicate', 2, 2)], NOW, 'high');
+
+      expect(assessed.tier).toBe('high');
+      expect(slipped.score).toBeLessThan(70);
+      expect(slipped.tier).toBe('high');
+      expect(slipped.reasons.at(-1)).toMatch(/Kept high/);
+
+      const fell = assessTipsterReliability([...atFloor, ...outcomes('hoax', 2, 2)], NOW, 'high');
+      expect(fell.tier).toBe('moderate');
+    });
+
+    it('should explain the score and list contributions newest first', () => {
+      const result = assessTipsterReliability(
+        [...outcomes('verified', 2, 30), ...outcomes('hoax', 1, 1)],
+        NOW
+      );
+      expect(result.reasons[0]).toMatch(/2 verified, 1 hoax/);
+      expect(result.contributions[0]).toMatchObject({ outcome: 'hoax', ageDays: 1 });
+      expect(result.contributions[0].evidence).toBeLessThan(0);
+    });
+  });
+});
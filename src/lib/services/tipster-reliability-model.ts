@@ -0,0 +1,201 @@
+/**
+ * Tipster Reliability Model
+ * Learns a tipster's reliability from reviewer outcomes. Each outcome adds
+ * positive or negative evidence that halves in weight every half-life, and
+ * the score is the mean of a Beta distribution seeded with a neutral prior,
+ * so a single early outcome cannot swing a new tipster to either extreme.
+ * Tiers need both a score and enough recent evidence, and demotions only
+ * happen once the score clears the tier floor by a margin.
+ */
+
+import type {
+  ReviewOutcome,
+  TipsterOutcomeType,
+  TipsterReliabilityTier,
+} from '@/types/tip-verification.types';
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const TIPSTER_RELIABILITY_CONFIG = {
+  halfLifeDays: 180,
+  // Beta(2, 2) prior: 50 with no history
+  prior: { positive: 2, negative: 2 },
+  outcomeWeights: {
+    verified: { positive: 1, negative: 0 },
+    // A duplicate is usually an honest repeat, so it costs little
+    duplicate: { positive: 0, negative: 0.25 },
+    hoax: { positive: 0, negative: 1.5 },
+    spam: { positive: 0, negative: 2 },
+  } satisfies Record<TipsterOutcomeType, { positive: number; negative: number }>,
+  // Decayed evidence needed before a tipster leaves 'unrated'
+  minEvidence: 2,
+  // Checked top down; the first tier whose score and evidence are met wins
+  tiers: [
+    { tier: 'verified_source', minScore: 85, minEvidence: 8 },
+    { tier: 'high', minScore: 70, minEvidence: 3 },
+    { tier: 'moderate', minScore: 50, minEvidence: 0 },
+    { tier: 'low', minScore: 0, minEvidence: 0 },
+  ] as const satisfies readonly { tier: TipsterReliabilityTier; minScore: number; minEvidence: number }[],
+  // Points below a tier's floor before a tipster is demoted out of it
+  demotionMargin: 3,
+};
+
+const TIER_RANK: Record<TipsterReliabilityTier, number> = {
+  new: 0,
+  unrated: 1,
+  low: 2,
+  moderate: 3,
+  high: 4,
+  verified_source: 5,
+};
+
+const OUTCOME_LABELS: Record<TipsterOutcomeType, string> = {
+  verified: 'verified',
+  duplicate: 'duplicate',
+  hoax: 'hoax',
+  spam: 'spam',
+};
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TipsterOutcomeInput {
+  tipId: string;
+  outcome: TipsterOutcomeType;
+  reviewedAt: string;
+}
+
+export interface TipsterOutcomeContribution extends TipsterOutcomeInput {
+  ageDays: number;
+  decay: number;
+  // Signed evidence after decay: positive for verified, negative otherwise
+  evidence: number;
+}
+
+export interface TipsterReliabilityAssessment {
+  score: number;
+  tier: TipsterReliabilityTier;
+  positiveEvidence: number;
+  negativeEvidence: number;
+  contributions: TipsterOutcomeContribution[];
+  counts: Record<TipsterOutcomeType, number>;
+  reasons: string[];
+}
+
+// =============================================================================
+// MODEL
+// =============================================================================
+
+/**
+ * The tipster outcome a review decision implies, or null when the decision
+ * says nothing about the tipster (escalations, requests for more info).
+ * Rejections default to hoax unless the reviewer or the verification marked
+ * the tip as a duplicate or spam.
+ */
+export function tipsterOutcomeForReview(
+  outcome: ReviewOutcome,
+  details: { rejectionReason?: Exclude<TipsterOutcomeType, 'verified'>; isDuplicate?: boolean; isSpam?: boolean } = {}
+): TipsterOutcomeType | null {
+  if (outcome === 'verified') return 'verified';
+  if (outcome !== 'rejected') return null;
+  if (details.rejectionReason) return details.rejectionReason;
+  if (details.isSpam) return 'spam';
+  if (details.isDuplicate) return 'duplicate';
+  return 'hoax';
+}
+
+export function outcomeDecay(reviewedAt: string, now: Date): number {
+  const ageDays = Math.max(0, (now.getTime() - new Date(reviewedAt).getTime()) / 86_400_000);
+  return Math.pow(0.5, ageDays / TIPSTER_RELIABILITY_CONFIG.halfLifeDays);
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function tierRule(tier: TipsterReliabilityTier) {
+  return TIPSTER_RELIABILITY_CONFIG.tiers.find((t) => t.tier === tier);
+}
+
+/**
+ * Score and tier a tipster from their reviewed outcomes. Pass the current
+ * tier so demotions respect the margin; without it the tier is computed
+ * from scratch.
+ */
+export function assessTipsterReliability(
+  outcomes: TipsterOutcomeInput[],
+  now: Date = new Date(),
+  currentTier?: TipsterReliabilityTier
+): TipsterReliabilityAssessment {
+  const config = TIPSTER_RELIABILITY_CONFIG;
+  const counts: Record<TipsterOutcomeType, number> = { verified: 0, duplicate: 0, hoax: 0, spam: 0 };
+  let positiveEvidence = 0;
+  let negativeEvidence = 0;
+
+  const contributions = outcomes
+    .map((o) => {
+      const weights = config.outcomeWeights[o.outcome];
+      const decay = outcomeDecay(o.reviewedAt, now);
+      counts[o.outcome]++;
+      positiveEvidence += weights.positive * decay;
+      negativeEvidence += weights.negative * decay;
+      return {
+        ...o,
+        ageDays: Math.floor((now.getTime() - new Date(o.reviewedAt).getTime()) / 86_400_000),
+        decay,
+        evidence: (weights.positive - weights.negative) * decay,
+      };
+    })
+    .sort((a, b) => new Date(b.reviewedAt).getTime() - new Date(a.reviewedAt).getTime());
+
+  const score = Math.round(
+    (100 * (config.prior.positive + positiveEvidence)) /
+      (config.prior.positive + config.prior.negative + positiveEvidence + negativeEvidence)
+  );
+  const evidence = positiveEvidence + negativeEvidence;
+
+  const reasons: string[] = [];
+  const tally = (Object.keys(counts) as TipsterOutcomeType[])
+    .filter((o) => counts[o] > 0)
+    .map((o) => `${counts[o]} ${OUTCOME_LABELS[o]}`);
+  if (tally.length > 0) {
+    reasons.push(
+      `Reviewed outcomes: ${tally.join(', ')} (+${round1(positiveEvidence)} / -${round1(negativeEvidence)} after ${config.halfLifeDays}-day decay)`
+    );
+  }
+
+  let tier: TipsterReliabilityTier;
+  if (outcomes.length === 0) {
+    tier = 'new';
+    reasons.push('No reviewed tips yet');
+  } else if (evidence < config.minEvidence) {
+    tier = 'unrated';
+    reasons.push(`Only ${round1(evidence)} recent evidence; ${config.minEvidence} needed to rate`);
+  } else {
+    const earned = config.tiers.find((t) => score >= t.minScore && evidence >= t.minEvidence)!;
+    tier = earned.tier;
+    reasons.push(
+      earned.minEvidence > 0
+        ? `Score ${score} meets the ${earned.tier} floor of ${earned.minScore} with ${round1(evidence)} evidence (${earned.minEvidence} needed)`
+        : `Score ${score} meets the ${earned.tier} floor of ${earned.minScore}`
+    );
+
+    const held = currentTier ? tierRule(currentTier) : undefined;
+    if (
+      held &&
+      TIER_RANK[held.tier] > TIER_RANK[tier] &&
+      score >= held.minScore - config.demotionMargin &&
+      evidence >= held.minEvidence
+    ) {
+      tier = held.tier;
+      reasons.push(
+        `Kept ${held.tier}: score is within ${config.demotionMargin} points of its floor of ${held.minScore}`
+      );
+    }
+  }
+
+  return { score, tier, positiveEvidence, negativeEvidence, contributions, counts, reasons };
+}
@@ -0,0 +1,244 @@
+/**
+ * Tipster Reliability Service
+ * Records reviewer outcomes against tipster profiles, re-scores the tipster
+ * with the reliability model and logs every tier change with its reasons.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  assessTipsterReliability,
+  type TipsterReliabilityAssessment,
+} from '@/lib/services/tipster-reliability-model';
+import {
+  mapTipsterOutcomeFromDb,
+  mapTipsterProfileFromDb,
+  mapTipsterTierTransitionFromDb,
+  type TipsterOutcome,
+  type TipsterOutcomeType,
+  type TipsterProfile,
+  type TipsterReliabilityTier,
+  type TipsterTierTransition,
+  type TipsterTierTransitionTrigger,
+} from '@/types/tip-verification.types';
+
+export interface TipsterReliabilityUpdate {
+  profile: TipsterProfile;
+  assessment: TipsterReliabilityAssessment;
+  transition?: TipsterTierTransition;
+}
+
+export interface TipsterReliabilityHistory {
+  profile: TipsterProfile;
+  // Re-assessed now, so it reflects decay since the last review
+  current: TipsterReliabilityAssessment;
+  outcomes: (TipsterOutcome & { tipContent?: string })[];
+  transitions: TipsterTierTransition[];
+}
+
+/**
+ * Outcomes and tier changes are written as the reviewing user: construct
+ * one per request with the route's client
+ */
+export class TipsterReliabilityService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Store the outcome of a reviewed tip and re-score its tipster. A tip has
+   * one outcome; reviewing it again replaces the earlier one. Returns null
+   * for tips without a tipster profile.
+   */
+  async recordReviewOutcome(input: {
+    tipId: string;
+    verificationId?: string;
+    outcome: TipsterOutcomeType;
+    reviewerId: string;
+  }): Promise<TipsterReliabilityUpdate | null> {
+    const { data: tip } = await this.supabase
+      .from('tips')
+      .select('tipster_profile_id')
+      .eq('id', input.tipId)
+      .maybeSingle();
+
+    if (!tip?.tipster_profile_id) return null;
+
+    const { error } = await this.supabase.from('tipster_outcomes').upsert(
+      {
+        tipster_profile_id: tip.tipster_profile_id,
+        tip_id: input.tipId,
+        verification_id: input.verificationId ?? null,
+        outcome: input.outcome,
+        reviewed_by: input.reviewerId,
+        reviewed_at: new Date().toISOString(),
+      },
+      { onConflict: 'tip_id' }
+    );
+    if (error) throw new Error(error.message);
+
+    return this.rescore(tip.tipster_profile_id, {
+      trigger: 'review_outcome',
+      tipId: input.tipId,
+      actorId: input.reviewerId,
+    });
+  }
+
+  /**
+   * Re-assess a tipster from their stored outcomes and persist the result
+   */
+  async rescore(
+    tipsterProfileId: string,
+    cause: { trigger: TipsterTierTransitionTrigger; tipId?: string; actorId?: string }
+  ): Promise<TipsterReliabilityUpdate> {
+    const [profile, outcomes] = await Promise.all([
+      this.getProfile(tipsterProfileId),
+      this.listOutcomes(tipsterProfileId),
+    ]);
+
+    const assessment = assessTipsterReliability(outcomes, new Date(), profile.reliabilityTier);
+
+    const { data, error } = await this.supabase
+      .from('tipster_profiles')
+      .update({
+        reliability_score: assessment.score,
+        reliability_tier: assessment.tier,
+        verified_tips: assessment.counts.verified,
+        false_tips: assessment.counts.hoax,
+        spam_tips: assessment.counts.spam,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', tipsterProfileId)
+      .select()
+      .single();
+    if (error) throw new Error(error.message);
+
+    let transition: TipsterTierTransition | undefined;
+    if (assessment.tier !== profile.reliabilityTier) {
+      transition = await this.recordTransition({
+        tipsterProfileId,
+        fromTier: profile.reliabilityTier,
+        toTier: assessment.tier,
+        fromScore: profile.reliabilityScore,
+        toScore: assessment.score,
+        reasons: assessment.reasons,
+        ...cause,
+      });
+    }
+
+    return { profile: mapTipsterProfileFromDb(data), assessment, transition };
+  }
+
+  /**
+   * Log a tier change made by an admin. The next reviewed outcome re-scores
+   * the tipster from evidence again.
+   */
+  async recordManualTierChange(input: {
+    tipsterProfileId: string;
+    fromTier: TipsterReliabilityTier;
+    toTier: TipsterReliabilityTier;
+    fromScore: number;
+    toScore: number;
+    actorId: string;
+    reason?: string;
+  }): Promise<TipsterTierTransition | undefined> {
+    if (input.fromTier === input.toTier) return undefined;
+    return this.recordTransition({
+      ...input,
+      trigger: 'manual',
+      reasons: [`Set manually by an administrator${input.reason ? `: ${input.reason}` : ''}`],
+    });
+  }
+
+  async getHistory(tipsterProfileId: string): Promise<TipsterReliabilityHistory | null> {
+    const { data: profileRow } = await this.supabase
+      .from('tipster_profiles')
+      .select('*')
+      .eq('id', tipsterProfileId)
+      .maybeSingle();
+
+    if (!profileRow) return null;
+    const profile = mapTipsterProfileFromDb(profileRow);
+
+    const [{ data: outcomeRows, error: outcomeError }, { data: transitionRows, error: transitionError }] =
+      await Promise.all([
+        this.supabase
+          .from('tipster_outcomes')
+          .select('*, tips(content)')
+          .eq('tipster_profile_id', tipsterProfileId)
+          .order('reviewed_at', { ascending: false }),
+        this.supabase
+          .from('tipster_tier_transitions')
+          .select('*')
+          .eq('tipster_profile_id', tipsterProfileId)
+          .order('created_at', { ascending: false }),
+      ]);
+
+    if (outcomeError) throw new Error(outcomeError.message);
+    if (transitionError) throw new Error(transitionError.message);
+
+    const outcomes = (outcomeRows || []).map((row) => {
+      const tip = (Array.isArray(row.tips) ? row.tips[0] : row.tips) as { content: string } | null;
+      return { ...mapTipsterOutcomeFromDb(row), tipContent: tip?.content ?? undefined };
+    });
+
+    return {
+      profile,
+      current: assessTipsterReliability(outcomes, new Date(), profile.reliabilityTier),
+      outcomes,
+      transitions: (transitionRows || []).map(mapTipsterTierTransitionFromDb),
+    };
+  }
+
+  private async getProfile(tipsterProfileId: string): Promise<TipsterProfile> {
+    const { data, error } = await this.supabase
+      .from('tipster_profiles')
+      .select('*')
+      .eq('id', tipsterProfileId)
+      .single();
+
+    if (error) throw new Error(error.message);
+    return mapTipsterProfileFromDb(data);
+  }
+
+  private async listOutcomes(tipsterProfileId: string): Promise<TipsterOutcome[]> {
+    const { data, error } = await this.supabase
+      .from('tipster_outcomes')
+      .select('*')
+      .eq('tipster_profile_id', tipsterProfileId);
+
+    if (error) throw new Error(error.message);
+    return (data || []).map(mapTipsterOutcomeFromDb);
+  }
+
+  private async recordTransition(details: {
+    tipsterProfileId: string;
+    fromTier: TipsterReliabilityTier;
+    toTier: TipsterReliabilityTier;
+    fromScore: number;
+    toScore: number;
+    trigger: TipsterTierTransitionTrigger;
+    reasons: string[];
+    tipId?: string;
+    actorId?: string;
+  }): Promise<TipsterTierTransition | undefined> {
+    const { data, error } = await this.supabase
+      .from('tipster_tier_transitions')
+      .insert({
+        tipster_profile_id: details.tipsterProfileId,
+        from_tier: details.fromTier,
+        to_tier: details.toTier,
+        from_score: details.fromScore,
+        to_score: details.toScore,
+        trigger: details.trigger,
+        tip_id: details.tipId ?? null,
+        reasons: details.reasons,
+        actor_id: details.actorId ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[TipsterReliability] Failed to record tier transition:', error);
+      return undefined;
+    }
+    return mapTipsterTierTransitionFromDb(data);
+  }
+}
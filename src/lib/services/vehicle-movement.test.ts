@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import { RoadNetwork } from './road-network';
+import {
+  bearing,
+  destinationPoint,
+  filterImpossibleSightings,
+  reconstructMovement,
+  type TimedSighting,
+} from './vehicle-movement';
+import { haversineDistance } from './geofence-spatial-index';
+
+function sighting(id: string, lat: number, lng: number, timestamp: string, confidence = 80): TimedSighting {
+  return { id, location: { lat, lng }, timestamp, confidence };
+}
+
+// An L-shaped road: east along 53.50 then north along -113.40
+function lRoad(): RoadNetwork {
+  return RoadNetwork.fromGeoJSON({
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        properties: { highway: 'primary', maxspeed: '60' },
+        geometry: {
+          type: 'LineString',
+          coordinates: [
+            [-113.5, 53.5],
+            [-113.45, 53.5],
+            [-113.4, 53.5],
+          ],
+        },
+      },
+      {
+        type: 'Feature',
+        properties: { highway: 'secondary' },
+        geometry: {
+          type: 'LineString',
+          coordinates: [
+            [-113.4, 53.5],
+            [-113.4, 53.55],
+          ],
+        },
+      },
+    ],
+  });
+}
+
+describe('vehicle movement', () => {
+  describe('geometry', () => {
+    it('should round-trip bearing and destination', () => {
+      const origin = { lat: 53.5, lng: -113.5 };
+      const target = destinationPoint(origin, 45, 10);
+      expect(haversineDistance(origin, target)).toBeCloseTo(10, 3);
+      expect(bearing(origin, target)).toBeCloseTo(45, 0);
+    });
+  });
+
+  describe('filterImpossibleSightings', () => {
+    it('should reject the less confident of two sightings the vehicle could not connect', () => {
+      const { accepted, rejected } = filterImpossibleSightings([
+        sighting('edmonton', 53.54, -113.49, '2026-01-17T10:00:00Z', 95),
+        // Calgary is ~280 km away
+        sighting('calgary', 51.05, -114.07, '2026-01-17T10:20:00Z', 50),
+        sighting('sherwood', 53.52, -113.32, '2026-01-17T10:30:00Z', 90),
+      ]);
+
+      expect(accepted.map((s) => s.id)).toEqual(['edmonton', 'sherwood']);
+      expect(rejected).toHaveLength(1);
+      expect(rejected[0]).toMatchObject({ conflictsWith: 'edmonton' });
+      expect(rejected[0].sighting.id).toBe('calgary');
+      expect(rejected[0].impliedSpeedKph).toBeGreaterThan(800);
+    });
+
+    it('should drop an earlier low-confidence sighting and recheck against the one before', () => {
+      const { accepted, rejected } = filterImpossibleSightings([
+        sighting('a', 53.54, -113.49, '2026-01-17T10:00:00Z', 90),
+        sighting('tip', 53.6, -113.2, '2026-01-17T10:05:00Z', 30),
+        sighting('lpr', 53.55, -113.5, '2026-01-17T10:10:00Z', 95),
+      ]);
+
+      expect(accepted.map((s) => s.id)).toEqual(['a', 'lpr']);
+      expect(rejected.map((r) => r.sighting.id)).toEqual(['tip']);
+    });
+
+    it('should treat simultaneous sightings in different places as impossible', () => {
+      const { rejected } = filterImpossibleSightings([
+        sighting('a', 53.54, -113.49, '2026-01-17T10:00:00Z', 90),
+        sighting('b', 53.6, -113.49, '2026-01-17T10:00:00Z', 60),
+      ]);
+      expect(rejected[0].impliedSpeedKph).toBe(Infinity);
+      expect(rejected[0].reason).toMatch(/same time/);
+    });
+  });
+
+  describe('reconstructMovement', () => {
+    it('should route legs along the road network', () => {
+      const network = lRoad();
+      expect(network.nodeCount).toBe(4);
+
+      const result = reconstructMovement(
+        [
+          sighting('start', 53.5001, -113.5, '2026-01-17T10:00:00Z'),
+          sighting('end', 53.55, -113.4001, '2026-01-17T10:15:00Z'),
+        ],
+        { network, at: '2026-01-17T10:15:00Z' }
+      );
+
+      const [leg] = result.legs;
+      expect(leg.snappedToRoad).toBe(true);
+      // Around the corner rather than the ~8.6 km diagonal
+      expect(leg.distanceKm).toBeGreaterThan(12);
+      expect(leg.path).toHaveLength(6);
+      expect(leg.path[3]).toEqual({ lat: 53.5, lng: -113.4 });
+    });
+
+    it('should fall back to a straight line when a sighting is off the network', () => {
+      const result = reconstructMovement(
+        [
+          sighting('start', 53.5, -113.5, '2026-01-17T10:00:00Z'),
+          sighting('offroad', 53.6, -113.6, '2026-01-17T10:30:00Z'),
+        ],
+        { network: lRoad(), at: '2026-01-17T10:30:00Z' }
+      );
+      expect(result.legs[0].snappedToRoad).toBe(false);
+      expect(result.legs[0].path).toHaveLength(2);
+    });
+
+    it('should estimate observed and inferred stops', () => {
+      const result = reconstructMovement(
+        [
+          sighting('a', 53.5, -113.5, '2026-01-17T10:00:00Z'),
+          // 20 minutes parked within 100 m
+          sighting('b', 53.5005, -113.5005, '2026-01-17T10:20:00Z'),
+          // 5 km in 60 minutes is ~6 minutes of driving
+          sighting('c', 53.545, -113.5, '2026-01-17T11:20:00Z'),
+        ],
+        { at: '2026-01-17T11:20:00Z' }
+      );
+
+      expect(result.stops.map((s) => s.kind)).toEqual(['observed', 'inferred']);
+      expect(result.stops[0]).toMatchObject({ durationMinutes: 20, sightingIds: ['a', 'b'] });
+      expect(result.stops[1].location).toBeUndefined();
+      expect(result.stops[1].durationMinutes).toBeGreaterThan(50);
+    });
+
+    it('should project a widening cone along the last heading', () => {
+      const result = reconstructMovement(
+        [
+          sighting('a', 53.5, -113.5, '2026-01-17T10:00:00Z'),
+          // ~11 km north in 10 minutes
+          sighting('b', 53.6, -113.5, '2026-01-17T10:10:00Z'),
+        ],
+        { at: '2026-01-17T10:40:00Z' }
+      );
+
+      const prediction = result.prediction!;
+      expect(prediction.elapsedMinutes).toBe(30);
+      expect(prediction.headingDegrees).toBeCloseTo(0, 0);
+      expect(prediction.predictedLocation.lat).toBeGreaterThan(53.6);
+
+      const radii = prediction.bands.map((b) => b.radiusKm);
+      expect(radii[0]).toBeLessThan(radii[1]);
+      expect(radii[1]).toBeLessThan(radii[2]);
+      // Never faster than the plausible maximum
+      expect(radii[2]).toBeLessThanOrEqual(80);
+      expect(prediction.bands[2].halfAngleDegrees).toBe(180);
+    });
+
+    it('should cap the cone by how far the roads reach', () => {
+      const sightings = [
+        sighting('a', 53.5, -113.5, '2026-01-17T10:00:00Z'),
+        sighting('b', 53.5, -113.45, '2026-01-17T10:03:00Z'),
+      ];
+      const open = reconstructMovement(sightings, { at: '2026-01-17T11:00:00Z' }).prediction!;
+      const roads = reconstructMovement(sightings, { at: '2026-01-17T11:00:00Z', network: lRoad() }).prediction!;
+
+      expect(open.bands[2].radiusKm).toBeGreaterThan(50);
+      // The whole extract is within ~6 km of the last sighting
+      expect(roads.bands[2].radiusKm).toBeLessThan(7);
+    });
+
+    it('should not project from a sighting too old to be useful', () => {
+      const result = reconstructMovement([sighting('a', 53.5, -113.5, '2026-01-17T10:00:00Z')], {
+        at: '2026-01-18T10:00:00Z',
+      });
+      expect(result.prediction).toBeNull();
+      expect(result.totalDistanceKm).toBe(0);
+    });
+  });
+});
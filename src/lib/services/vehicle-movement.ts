@@ -0,0 +1,450 @@
+/**
+ * Vehicle Movement Reconstruction
+ * Turns a vehicle's sightings into a movement history: sightings the vehicle
+ * could not physically have made are set aside, the remaining legs are
+ * routed along the road network where one is loaded, stops are estimated
+ * from clustered sightings and unexplained time on a leg, and a probability
+ * cone projects where the vehicle could be now.
+ */
+
+import { haversineDistance, type LatLng } from "@/lib/services/geofence-spatial-index";
+import type { RoadNetwork } from "@/lib/services/road-network";
+import type { VehicleSighting } from "@/types/law-enforcement.types";
+
+export type TimedSighting = Pick<VehicleSighting, "id" | "location" | "timestamp" | "confidence">;
+
+export interface MovementOptions {
+  // Fastest plausible average speed between two sightings
+  maxSpeedKph: number;
+  // Camera and report positions are approximate; distances are reduced by this
+  positionToleranceMeters: number;
+  // How far a sighting may be from the road network and still snap to it
+  snapDistanceMeters: number;
+  stopRadiusMeters: number;
+  minStopMinutes: number;
+  // Travel speed assumed off-network and when the history has no moving legs
+  defaultSpeedKph: number;
+  // Beyond this the cone covers too much ground to be useful
+  maxPredictionHours: number;
+}
+
+export const DEFAULT_MOVEMENT_OPTIONS: MovementOptions = {
+  maxSpeedKph: 160,
+  positionToleranceMeters: 200,
+  snapDistanceMeters: 150,
+  stopRadiusMeters: 250,
+  minStopMinutes: 10,
+  defaultSpeedKph: 50,
+  maxPredictionHours: 6,
+};
+
+// Each band contains the vehicle with the given probability: it covers the
+// distance reachable at a multiple of the vehicle's typical speed, within
+// the given angle either side of its last heading
+export const PREDICTION_BANDS = [
+  { probability: 0.5, speedFactor: 0.6, halfAngleDegrees: 25 },
+  { probability: 0.8, speedFactor: 1, halfAngleDegrees: 50 },
+  { probability: 0.95, speedFactor: 1.5, halfAngleDegrees: 180 },
+] as const;
+
+export interface RejectedSighting<T extends TimedSighting = TimedSighting> {
+  sighting: T;
+  conflictsWith: string;
+  impliedSpeedKph: number;
+  reason: string;
+}
+
+export interface MovementLeg {
+  fromId: string;
+  toId: string;
+  path: LatLng[];
+  distanceKm: number;
+  elapsedMinutes: number;
+  // Time the leg needs at road or default speed
+  travelMinutes: number;
+  impliedSpeedKph: number;
+  snappedToRoad: boolean;
+}
+
+export interface MovementStop {
+  // observed: sightings clustered in one place; inferred: a leg took far
+  // longer than the drive, so the vehicle stopped somewhere along it
+  kind: "observed" | "inferred";
+  location?: LatLng;
+  from: string;
+  to: string;
+  durationMinutes: number;
+  sightingIds: string[];
+}
+
+export interface PredictionBand {
+  probability: number;
+  radiusKm: number;
+  // Null heading means the band is a full circle
+  headingDegrees: number | null;
+  halfAngleDegrees: number;
+  polygon: LatLng[];
+}
+
+export interface MovementPrediction {
+  at: string;
+  origin: LatLng;
+  elapsedMinutes: number;
+  speedKph: number;
+  headingDegrees: number | null;
+  predictedLocation: LatLng;
+  bands: PredictionBand[];
+}
+
+export interface MovementReconstruction<T extends TimedSighting = TimedSighting> {
+  accepted: T[];
+  rejected: RejectedSighting<T>[];
+  legs: MovementLeg[];
+  stops: MovementStop[];
+  totalDistanceKm: number;
+  prediction: MovementPrediction | null;
+}
+
+// =============================================================================
+// GEOMETRY
+// =============================================================================
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function minutesBetween(from: string, to: string): number {
+  return (new Date(to).getTime() - new Date(from).getTime()) / 60_000;
+}
+
+/**
+ * Initial bearing from a to b in degrees clockwise from north
+ */
+export function bearing(a: LatLng, b: LatLng): number {
+  const lat1 = toRadians(a.lat);
+  const lat2 = toRadians(b.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Point reached from origin after distanceKm on the given bearing
+ */
+export function destinationPoint(origin: LatLng, bearingDegrees: number, distanceKm: number): LatLng {
+  const angular = distanceKm / 6371;
+  const theta = toRadians(bearingDegrees);
+  const lat1 = toRadians(origin.lat);
+  const lng1 = toRadians(origin.lng);
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta)
+  );
+  const lng2 =
+    lng1 +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+      Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+    );
+
+  return { lat: (lat2 * 180) / Math.PI, lng: (((lng2 * 180) / Math.PI + 540) % 360) - 180 };
+}
+
+function sectorPolygon(
+  origin: LatLng,
+  radiusKm: number,
+  headingDegrees: number | null,
+  halfAngleDegrees: number
+): LatLng[] {
+  const steps = 24;
+  if (headingDegrees === null || halfAngleDegrees >= 180) {
+    return Array.from({ length: steps }, (_, i) => destinationPoint(origin, (360 * i) / steps, radiusKm));
+  }
+
+  const start = headingDegrees - halfAngleDegrees;
+  const arc = Array.from({ length: steps + 1 }, (_, i) =>
+    destinationPoint(origin, start + (2 * halfAngleDegrees * i) / steps, radiusKm)
+  );
+  return [origin, ...arc];
+}
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+// =============================================================================
+// RECONSTRUCTION
+// =============================================================================
+
+/**
+ * Average speed the vehicle would need between two sightings, after
+ * allowing for position error. Simultaneous sightings in different places
+ * are infinitely fast.
+ */
+export function impliedSpeed(
+  a: TimedSighting,
+  b: TimedSighting,
+  options: Pick<MovementOptions, "positionToleranceMeters"> = DEFAULT_MOVEMENT_OPTIONS
+): number {
+  const km = Math.max(0, haversineDistance(a.location, b.location) - options.positionToleranceMeters / 1000);
+  const hours = Math.abs(minutesBetween(a.timestamp, b.timestamp)) / 60;
+  if (km === 0) return 0;
+  return hours === 0 ? Infinity : km / hours;
+}
+
+/**
+ * Walk the sightings in time order and set aside any the vehicle could not
+ * have reached from the previous accepted sighting. When two sightings
+ * conflict the less confident one is rejected, and a rejected earlier
+ * sighting lets the later one be rechecked against what came before it.
+ */
+export function filterImpossibleSightings<T extends TimedSighting>(
+  sightings: T[],
+  options: MovementOptions = DEFAULT_MOVEMENT_OPTIONS
+): { accepted: T[]; rejected: RejectedSighting<T>[] } {
+  const ordered = [...sightings].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  const accepted: T[] = [];
+  const rejected: RejectedSighting<T>[] = [];
+
+  const reject = (sighting: T, other: T, speed: number) => {
+    rejected.push({
+      sighting,
+      conflictsWith: other.id,
+      impliedSpeedKph: Number.isFinite(speed) ? round(speed, 1) : speed,
+      reason: Number.isFinite(speed)
+        ? `Would need ${Math.round(speed)} km/h from sighting ${other.id}`
+        : `Seen elsewhere at the same time as sighting ${other.id}`,
+    });
+  };
+
+  for (const sighting of ordered) {
+    let keep = true;
+    while (accepted.length > 0) {
+      const last = accepted[accepted.length - 1];
+      const speed = impliedSpeed(last, sighting, options);
+      if (speed <= options.maxSpeedKph) break;
+
+      if (last.confidence < sighting.confidence) {
+        accepted.pop();
+        reject(last, sighting, speed);
+      } else {
+        reject(sighting, last, speed);
+        keep = false;
+        break;
+      }
+    }
+    if (keep) accepted.push(sighting);
+  }
+
+  return { accepted, rejected };
+}
+
+function buildLeg(
+  from: TimedSighting,
+  to: TimedSighting,
+  options: MovementOptions,
+  network?: RoadNetwork | null
+): MovementLeg {
+  const elapsedMinutes = minutesBetween(from.timestamp, to.timestamp);
+  const straightKm = haversineDistance(from.location, to.location);
+  const leg: MovementLeg = {
+    fromId: from.id,
+    toId: to.id,
+    path: [from.location, to.location].map(({ lat, lng }) => ({ lat, lng })),
+    distanceKm: round(straightKm, 3),
+    elapsedMinutes: round(elapsedMinutes, 1),
+    travelMinutes: round((straightKm / options.defaultSpeedKph) * 60, 1),
+    impliedSpeedKph: elapsedMinutes > 0 ? round(straightKm / (elapsedMinutes / 60), 1) : 0,
+    snappedToRoad: false,
+  };
+
+  if (!network) return leg;
+  const start = network.nearestNode(from.location, options.snapDistanceMeters);
+  const end = network.nearestNode(to.location, options.snapDistanceMeters);
+  if (start === null || end === null) return leg;
+
+  const road = start === end ? null : network.shortestPath(start, end);
+  // A road path the vehicle could not have driven in the time is not the one it took
+  if (!road || (elapsedMinutes > 0 && road.distanceKm / (elapsedMinutes / 60) > options.maxSpeedKph)) {
+    return leg;
+  }
+
+  return {
+    ...leg,
+    path: [leg.path[0], ...road.points, leg.path[1]],
+    distanceKm: round(road.distanceKm, 3),
+    travelMinutes: round(road.travelMinutes, 1),
+    impliedSpeedKph: elapsedMinutes > 0 ? round(road.distanceKm / (elapsedMinutes / 60), 1) : 0,
+    snappedToRoad: true,
+  };
+}
+
+/**
+ * Observed stops are runs of sightings that stay within the stop radius
+ * for at least the minimum stop time. A leg outside an observed stop whose
+ * elapsed time exceeds its drive time by the minimum stop time is an
+ * inferred stop somewhere along that leg.
+ */
+export function estimateStops(
+  sightings: TimedSighting[],
+  legs: MovementLeg[],
+  options: MovementOptions = DEFAULT_MOVEMENT_OPTIONS
+): MovementStop[] {
+  const stops: MovementStop[] = [];
+  const inObservedStop = new Set<string>();
+
+  let start = 0;
+  while (start < sightings.length) {
+    let end = start;
+    while (
+      end + 1 < sightings.length &&
+      haversineDistance(sightings[start].location, sightings[end + 1].location) * 1000 <= options.stopRadiusMeters
+    ) {
+      end++;
+    }
+
+    const run = sightings.slice(start, end + 1);
+    const durationMinutes = minutesBetween(run[0].timestamp, run[run.length - 1].timestamp);
+    if (run.length > 1 && durationMinutes >= options.minStopMinutes) {
+      stops.push({
+        kind: "observed",
+        location: {
+          lat: run.reduce((sum, s) => sum + s.location.lat, 0) / run.length,
+          lng: run.reduce((sum, s) => sum + s.location.lng, 0) / run.length,
+        },
+        from: run[0].timestamp,
+        to: run[run.length - 1].timestamp,
+        durationMinutes: round(durationMinutes, 1),
+        sightingIds: run.map((s) => s.id),
+      });
+      for (let i = start; i < end; i++) inObservedStop.add(sightings[i].id);
+    }
+    start = end + 1;
+  }
+
+  const byId = new Map(sightings.map((s) => [s.id, s]));
+  for (const leg of legs) {
+    if (inObservedStop.has(leg.fromId)) continue;
+    const idleMinutes = leg.elapsedMinutes - leg.travelMinutes;
+    if (idleMinutes < options.minStopMinutes) continue;
+
+    stops.push({
+      kind: "inferred",
+      from: byId.get(leg.fromId)!.timestamp,
+      to: byId.get(leg.toId)!.timestamp,
+      durationMinutes: round(idleMinutes, 1),
+      sightingIds: [leg.fromId, leg.toId],
+    });
+  }
+
+  return stops.sort((a, b) => new Date(a.from).getTime() - new Date(b.from).getTime());
+}
+
+/**
+ * Project where the vehicle could be at the given time from its last
+ * sighting. Speed is the median of the recent moving legs and heading the
+ * direction of the last one; a vehicle last seen stopped gets full circles.
+ * With a road network loaded, bands are capped by how far the roads
+ * actually reach in the time at posted speeds.
+ */
+export function predictLocation(
+  accepted: TimedSighting[],
+  legs: MovementLeg[],
+  stops: MovementStop[],
+  at: string,
+  options: MovementOptions = DEFAULT_MOVEMENT_OPTIONS,
+  network?: RoadNetwork | null
+): MovementPrediction | null {
+  const last = accepted[accepted.length - 1];
+  if (!last) return null;
+
+  const elapsedMinutes = Math.max(0, minutesBetween(last.timestamp, at));
+  if (elapsedMinutes > options.maxPredictionHours * 60) return null;
+
+  const minMovingKm = options.stopRadiusMeters / 1000;
+  const moving = legs.slice(-3).filter((leg) => leg.distanceKm > minMovingKm && leg.elapsedMinutes > 0);
+  const speeds = moving.map((leg) => leg.impliedSpeedKph).sort((a, b) => a - b);
+  const speedKph = Math.min(
+    speeds.length > 0 ? speeds[Math.floor(speeds.length / 2)] : options.defaultSpeedKph,
+    options.maxSpeedKph
+  );
+
+  const lastLeg = legs[legs.length - 1];
+  const lastStop = stops.find((stop) => stop.kind === "observed" && stop.sightingIds.includes(last.id));
+  const headingDegrees =
+    lastLeg && lastLeg.distanceKm > minMovingKm && !lastStop
+      ? round(bearing(lastLeg.path[lastLeg.path.length - 2], lastLeg.path[lastLeg.path.length - 1]), 1)
+      : null;
+
+  let roadReachKm = Infinity;
+  const start = network?.nearestNode(last.location, options.snapDistanceMeters) ?? null;
+  if (network && start !== null) {
+    roadReachKm = 0;
+    for (const node of network.reachable(start, elapsedMinutes).keys()) {
+      roadReachKm = Math.max(roadReachKm, haversineDistance(last.location, network.node(node)));
+    }
+    // Leaving the mapped area means the extract, not the vehicle, ran out
+    roadReachKm += options.snapDistanceMeters / 1000;
+  }
+
+  const origin = { lat: last.location.lat, lng: last.location.lng };
+  const bands = PREDICTION_BANDS.map((band) => {
+    const radiusKm = round(
+      Math.min(
+        (Math.min(speedKph * band.speedFactor, options.maxSpeedKph) * elapsedMinutes) / 60,
+        roadReachKm
+      ),
+      3
+    );
+    return {
+      probability: band.probability,
+      radiusKm,
+      headingDegrees,
+      halfAngleDegrees: headingDegrees === null ? 180 : band.halfAngleDegrees,
+      polygon: sectorPolygon(origin, radiusKm, headingDegrees, band.halfAngleDegrees),
+    };
+  });
+
+  return {
+    at,
+    origin,
+    elapsedMinutes: round(elapsedMinutes, 1),
+    speedKph: round(speedKph, 1),
+    headingDegrees,
+    predictedLocation:
+      headingDegrees === null ? origin : destinationPoint(origin, headingDegrees, bands[0].radiusKm),
+    bands,
+  };
+}
+
+/**
+ * Reconstruct a vehicle's movement from its sightings and project where it
+ * could be at `at` (defaults to now)
+ */
+export function reconstructMovement<T extends TimedSighting>(
+  sightings: T[],
+  options: Partial<MovementOptions> & { at?: string; network?: RoadNetwork | null } = {}
+): MovementReconstruction<T> {
+  const { at = new Date().toISOString(), network, ...overrides } = options;
+  const resolved: MovementOptions = { ...DEFAULT_MOVEMENT_OPTIONS, ...overrides };
+
+  const { accepted, rejected } = filterImpossibleSightings(sightings, resolved);
+  const legs = accepted.slice(1).map((sighting, i) => buildLeg(accepted[i], sighting, resolved, network));
+  const stops = estimateStops(accepted, legs, resolved);
+
+  return {
+    accepted,
+    rejected,
+    legs,
+    stops,
+    totalDistanceKm: round(
+      legs.reduce((sum, leg) => sum + leg.distanceKm, 0),
+      3
+    ),
+    prediction: predictLocation(accepted, legs, stops, at, resolved, network),
+  };
+}
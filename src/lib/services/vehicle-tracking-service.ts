@@ -3,6 +3,23 @@
  * Manages vehicle records, license plate tracking, and sightings
  */
 
+import {
+  DEFAULT_PLATE_MATCH_THRESHOLDS,
+  autoMatchCandidate,
+  rankPlateCandidates,
+  searchPartialPlate,
+  type PlateCandidate,
+  type PlateMatchThresholds,
+  type PlateObservation,
+  type PlatePattern,
+  type VehicleDescription,
+} from "@/lib/services/plate-matching";
+import { RoadNetwork, type RoadFeatureCollection } from "@/lib/services/road-network";
+import {
+  reconstructMovement,
+  type MovementOptions,
+  type MovementReconstruction,
+} from "@/lib/services/vehicle-movement";
 import type {
   VehicleRecord,
   VehicleSighting,
@@ -36,6 +53,23 @@ export interface ReportSightingInput {
   reportedBy?: string;
 }
 
+export interface LPRRead extends VehicleDescription {
+  plate: string;
+  lat: number;
+  lng: number;
+  timestamp: string;
+  confidence: number;
+  imageUrl?: string;
+}
+
+export interface LPRProcessingResult {
+  matched: number;
+  sightings: VehicleSighting[];
+  // Reads with plausible candidates that did not clear the auto-match bar,
+  // including those where two vehicles match about equally well
+  needsReview: Array<{ read: LPRRead; candidates: PlateCandidate<VehicleRecord>[] }>;
+}
+
 export interface CreateAlertInput {
   vehicleId: string;
   type: "bolo" | "stolen" | "amber" | "custom";
@@ -45,6 +79,7 @@ export interface CreateAlertInput {
 
 class VehicleTrackingService {
   private vehicles: Map<string, VehicleRecord> = new Map();
+  private roadNetwork: RoadNetwork | null = null;
 
   /**
    * Create or update a vehicle record
@@ -107,6 +142,35 @@ class VehicleTrackingService {
     );
   }
 
+  /**
+   * Rank vehicles whose plates could be the given read, allowing for OCR
+   * confusions and dropped characters
+   */
+  async findPlateCandidates(
+    observation: PlateObservation,
+    thresholds: Partial<PlateMatchThresholds> = {}
+  ): Promise<PlateCandidate<VehicleRecord>[]> {
+    return rankPlateCandidates(observation, Array.from(this.vehicles.values()), {
+      ...DEFAULT_PLATE_MATCH_THRESHOLDS,
+      ...thresholds,
+    });
+  }
+
+  /**
+   * Rank vehicles against a witness's partial plate, e.g. "GX*7" or
+   * { startsWith: "GX", endsWith: "7" }
+   */
+  async searchByPartialPlate(
+    query: string | PlatePattern,
+    observed: VehicleDescription = {},
+    thresholds: Partial<PlateMatchThresholds> = {}
+  ): Promise<PlateCandidate<VehicleRecord>[]> {
+    return searchPartialPlate(query, Array.from(this.vehicles.values()), observed, {
+      ...DEFAULT_PLATE_MATCH_THRESHOLDS,
+      ...thresholds,
+    });
+  }
+
   /**
    * List vehicles for a case
    */
@@ -321,44 +385,51 @@ class VehicleTrackingService {
   }
 
   /**
-   * Process LPR (License Plate Recognition) data
+   * Process LPR (License Plate Recognition) data. A read is attached to its
+   * best candidate when the match score and camera confidence both clear
+   * the thresholds; otherwise plausible candidates are returned for review.
    */
   async processLPRData(
-    data: Array<{
-      plate: string;
-      state?: string;
-      lat: number;
-      lng: number;
-      timestamp: string;
-      confidence: number;
-      imageUrl?: string;
-    }>
-  ): Promise<{ matched: number; sightings: VehicleSighting[] }> {
+    data: LPRRead[],
+    thresholds: Partial<PlateMatchThresholds> = {}
+  ): Promise<LPRProcessingResult> {
+    const limits = { ...DEFAULT_PLATE_MATCH_THRESHOLDS, ...thresholds };
     const sightings: VehicleSighting[] = [];
+    const needsReview: LPRProcessingResult["needsReview"] = [];
     let matched = 0;
 
     for (const entry of data) {
-      const vehicle = await this.findByPlate(entry.plate, entry.state);
-
-      if (vehicle) {
+      // The runner-up is needed to tell whether the best match stands out
+      const candidates = await this.findPlateCandidates(entry, {
+        ...limits,
+        maxCandidates: Math.max(limits.maxCandidates, 2),
+      });
+      const best = autoMatchCandidate(candidates, entry.confidence, limits);
+
+      if (best) {
         matched++;
         const sighting = await this.reportSighting({
-          vehicleId: vehicle.id,
+          vehicleId: best.vehicle.id,
           source: "lpr",
           location: {
             lat: entry.lat,
             lng: entry.lng,
           },
           timestamp: entry.timestamp,
-          confidence: entry.confidence,
+          // Camera confidence discounted by how well the plate matched
+          confidence: Math.round(entry.confidence * best.score),
           imageUrl: entry.imageUrl,
         });
         sightings.push(sighting);
+      } else if (candidates.length > 0) {
+        needsReview.push({ read: entry, candidates });
       }
     }
 
-    console.log(`[VehicleService] Processed ${data.length} LPR entries, ${matched} matched`);
-    return { matched, sightings };
+    console.log(
+      `[VehicleService] Processed ${data.length} LPR entries, ${matched} matched, ${needsReview.length} for review`
+    );
+    return { matched, sightings, needsReview };
   }
 
   /**
@@ -393,6 +464,31 @@ class VehicleTrackingService {
     return { sightings, route, totalDistance };
   }
 
+  /**
+   * Replace the road network used to route reconstructed movement
+   */
+  loadRoadNetwork(collection: RoadFeatureCollection): { nodes: number; edges: number } {
+    this.roadNetwork = RoadNetwork.fromGeoJSON(collection);
+    console.log(
+      `[VehicleService] Road network loaded: ${this.roadNetwork.nodeCount} nodes, ${this.roadNetwork.edgeCount} edges`
+    );
+    return { nodes: this.roadNetwork.nodeCount, edges: this.roadNetwork.edgeCount };
+  }
+
+  /**
+   * Reconstruct a vehicle's movement from its sightings, snapped to the
+   * loaded road network, with a projection of where it could be at `at`
+   */
+  async reconstructMovement(
+    vehicleId: string,
+    options: Partial<MovementOptions> & { at?: string } = {}
+  ): Promise<MovementReconstruction<VehicleSighting> | null> {
+    const vehicle = this.vehicles.get(vehicleId);
+    if (!vehicle) return null;
+
+    return reconstructMovement(vehicle.sightings, { ...options, network: this.roadNetwork });
+  }
+
   /**
    * Calculate distance between two points in km
    */
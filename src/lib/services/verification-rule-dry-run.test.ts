@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  dryRunVerificationRule,
+  validateVerificationRule,
+  type HistoricalVerifiedTip,
+} from './verification-rule-dry-run';
+import type { RuleContext } from './tip-verification-engine';
+import type { VerificationRule } from '@/types/tip-verification.types';
+
+function rule(overrides: Partial<VerificationRule> = {}): VerificationRule {
+  return {
+    id: 'rule-1',
+    name: 'Anonymous tips without location',
+    ruleType: 'priority',
+    conditions: { field: 'is_anonymous', operator: '=', value: true },
+    actions: { setPriority: 'low' },
+    scoreWeight: 10,
+    isActive: true,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function tip(tipId: string, context: Partial<RuleContext> = {}): HistoricalVerifiedTip {
+  return {
+    tipId,
+    caseId: 'case-1',
+    verifiedAt: '2026-01-18T12:00:00Z',
+    recordedBucket: 'medium',
+    context: {
+      credibilityScore: 55,
+      spamScore: 10,
+      isAnonymous: false,
+      casePriority: 'p2_medium',
+      hasPhoto: false,
+      hasLocation: true,
+      hoaxIndicatorCount: 0,
+      ...context,
+    },
+  };
+}
+
+describe('verification rule dry run', () => {
+  describe('validateVerificationRule', () => {
+    it('should accept a well-formed rule', () => {
+      expect(
+        validateVerificationRule({
+          conditions: {
+            and: [
+              { field: 'case_priority', operator: 'in', value: ['p0_critical', 'p1_high'] },
+              { field: 'credibility_score', operator: '>=', value: 70 },
+            ],
+          },
+          actions: { setPriority: 'critical', requireReview: true },
+        })
+      ).toEqual([]);
+    });
+
+    it('should report unknown fields, unsupported operators and mistyped values by path', () => {
+      const issues = validateVerificationRule({
+        conditions: {
+          or: [
+            { field: 'content_length', operator: '>', value: 200 },
+            { field: 'has_photo', operator: '>', value: true },
+            { field: 'spam_score', operator: '>=', value: '80' },
+            { field: 'case_priority', operator: 'in', value: ['p9_unknown'] },
+          ],
+        },
+        actions: { setPriority: 'spam' },
+      });
+
+      expect(issues.map((i) => i.path)).toEqual([
+        'conditions.or.0.field',
+        'conditions.or.1.operator',
+        'conditions.or.2.value',
+        'conditions.or.3.value',
+      ]);
+      expect(issues[0].message).toMatch(/Unknown field "content_length"/);
+    });
+
+    it('should reject empty groups and ambiguous conditions', () => {
+      const issues = validateVerificationRule({
+        conditions: { and: [], field: 'has_photo' },
+        actions: {},
+      });
+      expect(issues).toEqual([
+        expect.objectContaining({ path: 'conditions', severity: 'error' }),
+        expect.objectContaining({ path: 'actions', message: 'Rule has no actions' }),
+      ]);
+    });
+
+    it('should warn when no action affects triage', () => {
+      const issues = validateVerificationRule({
+        conditions: { field: 'has_photo', operator: '=', value: true },
+        actions: { scoreModifier: 10 },
+      });
+      expect(issues).toEqual([expect.objectContaining({ path: 'actions', severity: 'warning' })]);
+    });
+  });
+
+  describe('dryRunVerificationRule', () => {
+    it('should report only the tips the draft re-buckets', () => {
+      const report = dryRunVerificationRule(
+        rule({ id: 'draft' }),
+        [],
+        [tip('tip-1', { isAnonymous: true }), tip('tip-2'), tip('tip-3', { isAnonymous: true, spamScore: 90 })]
+      );
+
+      expect(report.totalTips).toBe(3);
+      expect(report.matchedTips).toBe(2);
+      // tip-3 stays in spam: the spam threshold wins over rule overrides
+      expect(report.rebucketedTips).toBe(1);
+      expect(report.changes).toEqual([
+        expect.objectContaining({ tipId: 'tip-1', baselineBucket: 'medium', candidateBucket: 'low' }),
+      ]);
+      expect(report.bucketMatrix.medium.low).toBe(1);
+      expect(report.bucketMatrix.spam.spam).toBe(1);
+    });
+
+    it('should replace the stored version when editing an existing rule', () => {
+      const stored = rule({ id: 'rule-1', actions: { setPriority: 'low' } });
+      const edited = rule({ id: 'rule-1', actions: { setPriority: 'high' } });
+      const report = dryRunVerificationRule(edited, [stored], [tip('tip-1', { isAnonymous: true })]);
+
+      expect(report.changes[0]).toMatchObject({ baselineBucket: 'low', candidateBucket: 'high' });
+    });
+
+    it('should compare against replayed rules and count drift from the recorded bucket separately', () => {
+      const report = dryRunVerificationRule(
+        rule({ id: 'draft', conditions: { field: 'has_photo', operator: '=', value: true } }),
+        [],
+        [{ ...tip('tip-1'), recordedBucket: 'critical' }]
+      );
+
+      expect(report.driftedTips).toBe(1);
+      expect(report.rebucketedTips).toBe(0);
+      expect(report.changes).toEqual([]);
+    });
+
+    it('should surface review-only changes', () => {
+      const report = dryRunVerificationRule(
+        rule({ id: 'draft', actions: { requireReview: true, reviewPriority: 1 } }),
+        [],
+        [tip('tip-1', { isAnonymous: true, credibilityScore: 30 })]
+      );
+
+      expect(report.rebucketedTips).toBe(0);
+      expect(report.reviewChangedTips).toBe(1);
+      expect(report.changes[0]).toMatchObject({
+        baselineRequiresReview: false,
+        candidateRequiresReview: true,
+        baselineReviewPriority: 8,
+        candidateReviewPriority: 1,
+      });
+    });
+  });
+});
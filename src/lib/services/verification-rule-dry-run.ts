@@ -0,0 +1,280 @@
+/**
+ * Verification Rule Dry Run
+ * Checks draft rules against the engine's field catalog and replays them over
+ * recently verified tips, so admins can see which tips a rule would re-bucket
+ * before it goes live.
+ */
+
+import {
+  RULE_OPERATORS_BY_TYPE,
+  VERIFICATION_RULE_FIELDS,
+  evaluateCondition,
+  getRuleField,
+  triageTip,
+  type RuleContext,
+} from './tip-verification-engine';
+import type {
+  RuleAction,
+  RuleCondition,
+  TipPriorityBucket,
+  VerificationRule,
+} from '@/types/tip-verification.types';
+
+const MAX_CONDITION_DEPTH = 5;
+
+// Only these actions change triage; the rest are recorded on the tip but
+// have no effect on bucket or review
+const TRIAGE_ACTIONS: (keyof RuleAction)[] = ['setPriority', 'requireReview', 'reviewPriority'];
+
+export const PRIORITY_BUCKETS: TipPriorityBucket[] = ['critical', 'high', 'medium', 'low', 'spam'];
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+export interface RuleValidationIssue {
+  path: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface RuleFieldDescriptor {
+  field: string;
+  label: string;
+  type: 'number' | 'boolean' | 'enum';
+  operators: string[];
+  values?: readonly string[];
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Serializable view of the field catalog for the rule editor
+ */
+export function describeRuleFields(): RuleFieldDescriptor[] {
+  return VERIFICATION_RULE_FIELDS.map(({ field, label, type, values, min, max }) => ({
+    field,
+    label,
+    type,
+    operators: RULE_OPERATORS_BY_TYPE[type],
+    values,
+    min,
+    max,
+  }));
+}
+
+export function validateVerificationRule(
+  rule: Pick<VerificationRule, 'conditions' | 'actions'>
+): RuleValidationIssue[] {
+  const issues: RuleValidationIssue[] = [];
+  validateCondition(rule.conditions, 'conditions', 1, issues);
+
+  const actionKeys = (Object.keys(rule.actions) as (keyof RuleAction)[]).filter(
+    (key) => rule.actions[key] !== undefined
+  );
+  if (actionKeys.length === 0) {
+    issues.push({ path: 'actions', message: 'Rule has no actions', severity: 'error' });
+  } else if (!actionKeys.some((key) => TRIAGE_ACTIONS.includes(key))) {
+    issues.push({
+      path: 'actions',
+      message: 'None of these actions change triage; only priority, review and review priority are applied',
+      severity: 'warning',
+    });
+  }
+
+  return issues;
+}
+
+function validateCondition(
+  condition: RuleCondition,
+  path: string,
+  depth: number,
+  issues: RuleValidationIssue[]
+): void {
+  const error = (at: string, message: string) => issues.push({ path: at, message, severity: 'error' });
+
+  if (depth > MAX_CONDITION_DEPTH) {
+    error(path, `Conditions cannot nest more than ${MAX_CONDITION_DEPTH} levels deep`);
+    return;
+  }
+
+  const shapes = [condition.and, condition.or, condition.field].filter((v) => v !== undefined);
+  if (shapes.length !== 1) {
+    error(path, 'A condition needs exactly one of a field comparison, "and" or "or"');
+    return;
+  }
+
+  for (const group of ['and', 'or'] as const) {
+    const children = condition[group];
+    if (!children) continue;
+    if (children.length === 0) {
+      error(`${path}.${group}`, `"${group}" needs at least one condition`);
+    }
+    children.forEach((child, i) => validateCondition(child, `${path}.${group}.${i}`, depth + 1, issues));
+    return;
+  }
+
+  const field = getRuleField(condition.field!);
+  if (!field) {
+    error(`${path}.field`, `Unknown field "${condition.field}"`);
+    return;
+  }
+
+  const operators = RULE_OPERATORS_BY_TYPE[field.type];
+  if (!condition.operator || !operators.includes(condition.operator)) {
+    error(`${path}.operator`, `${field.label} supports ${operators.join(', ')}`);
+    return;
+  }
+
+  const { value } = condition;
+  const valuePath = `${path}.value`;
+
+  if (condition.operator === 'in' || condition.operator === 'not_in') {
+    if (!Array.isArray(value) || value.length === 0) {
+      error(valuePath, `"${condition.operator}" needs a non-empty list of values`);
+      return;
+    }
+    const unknown = value.filter((v) => !field.values?.includes(v as string));
+    if (unknown.length > 0) {
+      error(valuePath, `Unknown ${field.label} value(s): ${unknown.join(', ')}`);
+    }
+    return;
+  }
+
+  switch (field.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        error(valuePath, `${field.label} must be compared with a number`);
+      } else if ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) {
+        error(valuePath, `${field.label} ranges from ${field.min ?? '-∞'} to ${field.max ?? '∞'}`);
+      }
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        error(valuePath, `${field.label} must be compared with true or false`);
+      }
+      break;
+    case 'enum':
+      if (!field.values?.includes(value as string)) {
+        error(valuePath, `${field.label} must be one of ${field.values?.join(', ')}`);
+      }
+      break;
+  }
+}
+
+// =============================================================================
+// Dry Run
+// =============================================================================
+
+export interface HistoricalVerifiedTip {
+  tipId: string;
+  caseId: string;
+  caseNumber?: string;
+  verifiedAt: string;
+  context: RuleContext;
+  recordedBucket: TipPriorityBucket;
+}
+
+export interface RuleDryRunChange {
+  tipId: string;
+  caseId: string;
+  caseNumber?: string;
+  verifiedAt: string;
+  baselineBucket: TipPriorityBucket;
+  candidateBucket: TipPriorityBucket;
+  baselineReviewPriority: number;
+  candidateReviewPriority: number;
+  baselineRequiresReview: boolean;
+  candidateRequiresReview: boolean;
+}
+
+export interface RuleDryRunReport {
+  totalTips: number;
+  matchedTips: number;
+  rebucketedTips: number;
+  reviewChangedTips: number;
+  // Tips whose recorded bucket differs from a replay under today's rules,
+  // i.e. history that was triaged under an older rule set
+  driftedTips: number;
+  // bucketMatrix[baseline][candidate] = number of tips
+  bucketMatrix: Record<TipPriorityBucket, Record<TipPriorityBucket, number>>;
+  changes: RuleDryRunChange[];
+}
+
+function emptyMatrix(): RuleDryRunReport['bucketMatrix'] {
+  const matrix = {} as RuleDryRunReport['bucketMatrix'];
+  for (const from of PRIORITY_BUCKETS) {
+    matrix[from] = {} as Record<TipPriorityBucket, number>;
+    for (const to of PRIORITY_BUCKETS) matrix[from][to] = 0;
+  }
+  return matrix;
+}
+
+/**
+ * Replay historical tips with and without the draft rule. The baseline is
+ * today's active rules replayed (not the recorded bucket), so the report
+ * only shows changes the draft itself causes. A draft that edits an existing
+ * rule replaces the live version; otherwise it runs after the active rules,
+ * as a newly created rule would.
+ */
+export function dryRunVerificationRule(
+  draft: VerificationRule,
+  activeRules: VerificationRule[],
+  tips: HistoricalVerifiedTip[]
+): RuleDryRunReport {
+  const baselineRules = activeRules.filter((rule) => rule.isActive);
+  const candidateRules = [
+    ...baselineRules.filter((rule) => rule.id !== draft.id),
+    { ...draft, isActive: true },
+  ];
+
+  const report: RuleDryRunReport = {
+    totalTips: tips.length,
+    matchedTips: 0,
+    rebucketedTips: 0,
+    reviewChangedTips: 0,
+    driftedTips: 0,
+    bucketMatrix: emptyMatrix(),
+    changes: [],
+  };
+
+  for (const tip of tips) {
+    const baseline = triageTip(baselineRules, tip.context);
+    const candidate = triageTip(candidateRules, tip.context);
+
+    if (evaluateCondition(draft.conditions, tip.context)) report.matchedTips++;
+    if (baseline.priorityBucket !== tip.recordedBucket) report.driftedTips++;
+    report.bucketMatrix[baseline.priorityBucket][candidate.priorityBucket]++;
+
+    const rebucketed = baseline.priorityBucket !== candidate.priorityBucket;
+    const reviewChanged =
+      baseline.requiresHumanReview !== candidate.requiresHumanReview ||
+      baseline.reviewPriority !== candidate.reviewPriority;
+
+    if (rebucketed) report.rebucketedTips++;
+    if (reviewChanged) report.reviewChangedTips++;
+    if (!rebucketed && !reviewChanged) continue;
+
+    report.changes.push({
+      tipId: tip.tipId,
+      caseId: tip.caseId,
+      caseNumber: tip.caseNumber,
+      verifiedAt: tip.verifiedAt,
+      baselineBucket: baseline.priorityBucket,
+      candidateBucket: candidate.priorityBucket,
+      baselineReviewPriority: baseline.reviewPriority,
+      candidateReviewPriority: candidate.reviewPriority,
+      baselineRequiresReview: baseline.requiresHumanReview,
+      candidateRequiresReview: candidate.requiresHumanReview,
+    });
+  }
+
+  // Re-bucketed tips first, most urgent destination first
+  report.changes.sort(
+    (a, b) =>
+      Number(b.baselineBucket !== b.candidateBucket) - Number(a.baselineBucket !== a.candidateBucket) ||
+      PRIORITY_BUCKETS.indexOf(a.candidateBucket) - PRIORITY_BUCKETS.indexOf(b.candidateBucket)
+  );
+
+  return report;
+}
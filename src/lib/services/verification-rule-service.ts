@@ -0,0 +1,221 @@
+/**
+ * Verification Rule Service
+ * Stores admin-authored tip verification rules and loads the recently
+ * verified tips a draft rule is dry-run against. Rules are validated against
+ * the engine's field catalog before they are saved or activated.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  validateVerificationRule,
+  type HistoricalVerifiedTip,
+  type RuleValidationIssue,
+} from '@/lib/services/verification-rule-dry-run';
+import {
+  mapRuleActionToDb,
+  mapTipsterProfileFromDb,
+  mapVerificationRuleFromDb,
+  type TipPriorityBucket,
+  type VerificationRule,
+} from '@/types/tip-verification.types';
+import type {
+  UpdateVerificationRuleData,
+  VerificationRuleDraftData,
+} from '@/lib/validations/verification-rule';
+
+export type VerificationRuleErrorCode = 'rule_not_found' | 'invalid_rule';
+
+export class VerificationRuleError extends Error {
+  readonly code: VerificationRuleErrorCode;
+  readonly issues: RuleValidationIssue[];
+
+  constructor(code: VerificationRuleErrorCode, message: string, issues: RuleValidationIssue[] = []) {
+    super(message);
+    this.name = 'VerificationRuleError';
+    this.code = code;
+    this.issues = issues;
+  }
+}
+
+// HTTP status the API routes return for each rule error
+export const VERIFICATION_RULE_ERROR_STATUS: Record<VerificationRuleErrorCode, number> = {
+  rule_not_found: 404,
+  invalid_rule: 400,
+};
+
+function assertValid(rule: Pick<VerificationRule, 'conditions' | 'actions'>): void {
+  const errors = validateVerificationRule(rule).filter((issue) => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new VerificationRuleError('invalid_rule', 'Rule is not valid', errors);
+  }
+}
+
+function single<T>(value: T | T[] | null | undefined): T | undefined {
+  return (Array.isArray(value) ? value[0] : value) ?? undefined;
+}
+
+/**
+ * Rules are read and written as the request's user: construct one per
+ * request with the route's client
+ */
+export class VerificationRuleService {
+  constructor(private supabase: SupabaseClient) {}
+
+  async listRules(): Promise<VerificationRule[]> {
+    const { data, error } = await this.supabase
+      .from('verification_rules')
+      .select('*')
+      .order('rule_type', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return (data || []).map(mapVerificationRuleFromDb);
+  }
+
+  async getRule(ruleId: string): Promise<VerificationRule> {
+    const { data, error } = await this.supabase
+      .from('verification_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) throw new VerificationRuleError('rule_not_found', `Unknown rule ${ruleId}`);
+    return mapVerificationRuleFromDb(data);
+  }
+
+  /**
+   * Save a new rule. Rules start inactive so they can be dry-run first.
+   */
+  async createRule(draft: VerificationRuleDraftData, actorId: string): Promise<VerificationRule> {
+    assertValid(draft);
+
+    const { data, error } = await this.supabase
+      .from('verification_rules')
+      .insert({
+        name: draft.name,
+        description: draft.description ?? null,
+        rule_type: draft.ruleType,
+        conditions: draft.conditions,
+        actions: mapRuleActionToDb(draft.actions),
+        score_weight: draft.scoreWeight,
+        is_active: false,
+        jurisdiction_id: draft.jurisdictionId ?? null,
+        created_by: actorId,
+        updated_by: actorId,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+    return mapVerificationRuleFromDb(data);
+  }
+
+  /**
+   * Edit a rule or toggle it. The resulting rule is re-validated whenever it
+   * will be active, so legacy rules cannot be switched on while broken.
+   */
+  async updateRule(
+    ruleId: string,
+    changes: UpdateVerificationRuleData,
+    actorId: string
+  ): Promise<VerificationRule> {
+    const current = await this.getRule(ruleId);
+    const next = {
+      conditions: changes.conditions ?? current.conditions,
+      actions: changes.actions ?? current.actions,
+    };
+    if (changes.isActive ?? current.isActive) {
+      assertValid(next);
+    }
+
+    const update: Record<string, unknown> = {
+      updated_by: actorId,
+      updated_at: new Date().toISOString(),
+    };
+    if (changes.name !== undefined) update.name = changes.name;
+    if (changes.description !== undefined) update.description = changes.description;
+    if (changes.ruleType !== undefined) update.rule_type = changes.ruleType;
+    if (changes.conditions !== undefined) update.conditions = changes.conditions;
+    if (changes.actions !== undefined) update.actions = mapRuleActionToDb(changes.actions);
+    if (changes.scoreWeight !== undefined) update.score_weight = changes.scoreWeight;
+    if (changes.jurisdictionId !== undefined) update.jurisdiction_id = changes.jurisdictionId;
+    if (changes.isActive !== undefined) update.is_active = changes.isActive;
+
+    const { data, error } = await this.supabase
+      .from('verification_rules')
+      .update(update)
+      .eq('id', ruleId)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+    return mapVerificationRuleFromDb(data);
+  }
+
+  async deleteRule(ruleId: string): Promise<void> {
+    await this.getRule(ruleId);
+
+    const { error } = await this.supabase.from('verification_rules').delete().eq('id', ruleId);
+    if (error) throw new Error(error.message);
+  }
+
+  /**
+   * The most recently verified tips, with the rule inputs rebuilt from the
+   * stored verification so they can be re-triaged
+   */
+  async loadHistoricalTips(limit: number): Promise<HistoricalVerifiedTip[]> {
+    const { data, error } = await this.supabase
+      .from('tip_verifications')
+      .select(`
+        tip_id,
+        priority_bucket,
+        credibility_score,
+        spam_score,
+        hoax_indicators,
+        created_at,
+        tips!inner (
+          case_id,
+          is_anonymous,
+          latitude,
+          longitude,
+          cases (case_number, priority_level),
+          tipster_profiles (*),
+          attachments:tip_attachments(count)
+        )
+      `)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(error.message);
+
+    return (data || []).flatMap((row) => {
+      const tip = single(row.tips as Record<string, unknown> | Record<string, unknown>[]);
+      if (!tip) return [];
+
+      const caseRow = single(tip.cases as Record<string, unknown> | Record<string, unknown>[] | null);
+      const tipster = single(
+        tip.tipster_profiles as Record<string, unknown> | Record<string, unknown>[] | null
+      );
+      const attachments = single(tip.attachments as { count: number }[] | null);
+
+      return [{
+        tipId: row.tip_id,
+        caseId: tip.case_id as string,
+        caseNumber: (caseRow?.case_number as string | null) ?? undefined,
+        verifiedAt: row.created_at,
+        recordedBucket: row.priority_bucket as TipPriorityBucket,
+        context: {
+          credibilityScore: row.credibility_score ?? 0,
+          spamScore: row.spam_score ?? 0,
+          tipsterProfile: tipster ? mapTipsterProfileFromDb(tipster) : undefined,
+          isAnonymous: !!tip.is_anonymous,
+          casePriority: (caseRow?.priority_level as string) ?? 'p3_low',
+          hasPhoto: (attachments?.count ?? 0) > 0,
+          hasLocation: !!(tip.latitude && tip.longitude),
+          hoaxIndicatorCount: (row.hoax_indicators || []).length,
+        },
+      }];
+    });
+  }
+}
@@ -3,13 +3,31 @@
  * Manages volunteer search parties, registrations, and findings
  */
 
+import {
+  computeSearchCoverage,
+  DEFAULT_COVERAGE_OPTIONS,
+  type CoverageOptions,
+} from "@/lib/services/search-coverage";
+import { planSearchSectors, type TeamCapacity } from "@/lib/services/search-planning";
 import type {
+  FieldSearchPack,
+  LostPersonCategory,
+  SearchCoverageReport,
   SearchParty,
+  SearchPlanSummary,
   SearchSector,
   SearchVolunteer,
   SearchFinding,
+  VolunteerTrack,
+  VolunteerTrackPoint,
 } from "@/types/law-enforcement.types";
 
+export interface SearchPlanningInput {
+  category?: LostPersonCategory;
+  lastKnownPoint?: { lat: number; lng: number };
+  capacity?: Partial<TeamCapacity>;
+}
+
 export interface CreateSearchPartyInput {
   caseId: string;
   name: string;
@@ -30,6 +48,18 @@ export interface CreateSearchPartyInput {
   providedEquipment?: string[];
   safetyBriefing: string;
   emergencyContact: string;
+  // Sector sizing and probability of area for grid searches
+  planning?: SearchPlanningInput;
+  sweepWidthMeters?: number;
+}
+
+export interface UploadTrackInput {
+  volunteerId: string;
+  // Defaults to the volunteer's sector assignment
+  sectorId?: string;
+  points: VolunteerTrackPoint[];
+  sweepWidthMeters?: number;
+  clientId?: string;
 }
 
 export interface RegisterVolunteerInput {
@@ -52,10 +82,25 @@ export interface ReportFindingInput {
   };
   photos?: string[];
   followUpRequired?: boolean;
+  // When the finding was made; reports synced from offline arrive late
+  timestamp?: string;
+  clientId?: string;
+}
+
+// The sector moved on the server since the client last saw it
+export class SectorStatusConflictError extends Error {
+  readonly sector: SearchSector;
+
+  constructor(sector: SearchSector) {
+    super("Sector status changed");
+    this.name = "SectorStatusConflictError";
+    this.sector = sector;
+  }
 }
 
 class VolunteerCoordinatorService {
   private searchParties: Map<string, SearchParty> = new Map();
+  private tracks: Map<string, VolunteerTrack[]> = new Map();
 
   /**
    * Create a new search party
@@ -68,11 +113,11 @@ class VolunteerCoordinatorService {
     const now = new Date().toISOString();
     const id = crypto.randomUUID();
 
-    // Generate sectors if grid type
-    const sectors: SearchSector[] =
+    // Plan sectors if grid type
+    const { sectors, plan } =
       input.searchArea.type === "grid"
-        ? this.generateGridSectors(input.searchArea.geometry)
-        : [];
+        ? this.planSectors(input.searchArea.geometry, input.planning)
+        : { sectors: [], plan: undefined };
 
     const searchParty: SearchParty = {
       id,
@@ -82,6 +127,7 @@ class VolunteerCoordinatorService {
       searchArea: {
         ...input.searchArea,
         sectors,
+        plan,
       },
       scheduledStart: input.scheduledStart,
       scheduledEnd: input.scheduledEnd,
@@ -94,6 +140,7 @@ class VolunteerCoordinatorService {
       providedEquipment: input.providedEquipment || [],
       safetyBriefing: input.safetyBriefing,
       emergencyContact: input.emergencyContact,
+      sweepWidthMeters: input.sweepWidthMeters,
       findings: [],
       createdAt: now,
       updatedAt: now,
@@ -273,18 +320,23 @@ class VolunteerCoordinatorService {
     const party = this.searchParties.get(input.searchPartyId);
     if (!party) return null;
 
+    // A retried offline sync: the first report already went through
+    const duplicate = input.clientId && party.findings.find((f) => f.clientId === input.clientId);
+    if (duplicate) return duplicate;
+
     const finding: SearchFinding = {
       id: crypto.randomUUID(),
       searchPartyId: input.searchPartyId,
       sectorId: input.sectorId,
       reportedBy,
-      timestamp: new Date().toISOString(),
+      timestamp: input.timestamp || new Date().toISOString(),
       type: input.type,
       description: input.description,
       location: input.location,
       photos: input.photos || [],
       verified: false,
       followUpRequired: input.followUpRequired ?? input.type !== "other",
+      clientId: input.clientId,
     };
 
     party.findings.push(finding);
@@ -356,6 +408,144 @@ class VolunteerCoordinatorService {
     return true;
   }
 
+  /**
+   * Move a sector to a new status. With expectedStatus the change only
+   * applies if nobody else has moved the sector since the caller last saw
+   * it, as when an offline field app syncs.
+   */
+  async updateSectorStatus(
+    partyId: string,
+    sectorId: string,
+    status: SearchSector["status"],
+    options: { expectedStatus?: SearchSector["status"]; assignedTeam?: string } = {}
+  ): Promise<SearchSector | null> {
+    const party = this.searchParties.get(partyId);
+    if (!party) return null;
+
+    const sector = party.searchArea.sectors?.find((s) => s.id === sectorId);
+    if (!sector) return null;
+
+    if (options.expectedStatus && sector.status !== options.expectedStatus && sector.status !== status) {
+      throw new SectorStatusConflictError(sector);
+    }
+
+    sector.status = status;
+    if (options.assignedTeam !== undefined) sector.assignedTeam = options.assignedTeam;
+    if (status === "completed" && !sector.completedAt) {
+      sector.completedAt = new Date().toISOString();
+    }
+    party.updatedAt = new Date().toISOString();
+
+    this.searchParties.set(partyId, party);
+    return sector;
+  }
+
+  /**
+   * Snapshot of a search party for offline field use
+   */
+  async getFieldPack(partyId: string, volunteerId?: string): Promise<FieldSearchPack | null> {
+    const party = this.searchParties.get(partyId);
+    if (!party) return null;
+
+    const volunteer = volunteerId ? party.volunteers.find((v) => v.id === volunteerId) : undefined;
+
+    return {
+      searchPartyId: party.id,
+      caseId: party.caseId,
+      name: party.name,
+      status: party.status,
+      searchArea: party.searchArea.geometry,
+      sectors: party.searchArea.sectors || [],
+      volunteerId: volunteer?.id,
+      teamAssignment: volunteer?.teamAssignment,
+      sectorAssignment: volunteer?.sectorAssignment,
+      meetingPoint: party.meetingPoint,
+      safetyBriefing: party.safetyBriefing,
+      emergencyContact: party.emergencyContact,
+      sweepWidthMeters: party.sweepWidthMeters,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Store a GPS track uploaded from a volunteer's phone and refresh the
+   * coverage and POD of the party's sectors
+   */
+  async uploadTrack(
+    partyId: string,
+    input: UploadTrackInput
+  ): Promise<VolunteerTrack | null> {
+    const party = this.searchParties.get(partyId);
+    if (!party) return null;
+
+    const volunteer = party.volunteers.find((v) => v.id === input.volunteerId);
+    if (!volunteer) {
+      throw new Error("Volunteer not registered for this search party");
+    }
+
+    const duplicate = input.clientId && this.tracks.get(partyId)?.find((t) => t.clientId === input.clientId);
+    if (duplicate) return duplicate;
+
+    const track: VolunteerTrack = {
+      id: crypto.randomUUID(),
+      searchPartyId: partyId,
+      volunteerId: input.volunteerId,
+      sectorId: input.sectorId ?? volunteer.sectorAssignment,
+      points: input.points,
+      sweepWidthMeters: input.sweepWidthMeters,
+      uploadedAt: new Date().toISOString(),
+      clientId: input.clientId,
+    };
+
+    this.tracks.set(partyId, [...(this.tracks.get(partyId) || []), track]);
+
+    const report = await this.getCoverage(partyId);
+    for (const result of report?.sectors || []) {
+      const sector = party.searchArea.sectors?.find((s) => s.id === result.sectorId);
+      if (sector) {
+        sector.coverage = result.coverage;
+        sector.pod = result.pod;
+      }
+    }
+    this.searchParties.set(partyId, party);
+
+    console.log(
+      `[VolunteerService] Track with ${track.points.length} points uploaded for party ${partyId}`
+    );
+    return track;
+  }
+
+  /**
+   * Coverage and cumulative POD per sector from every uploaded track, and
+   * the sectors that fall short of the target POD in re-search order
+   */
+  async getCoverage(
+    partyId: string,
+    options: Partial<CoverageOptions> = {}
+  ): Promise<SearchCoverageReport | null> {
+    const party = this.searchParties.get(partyId);
+    if (!party) return null;
+
+    const resolved: CoverageOptions = {
+      ...DEFAULT_COVERAGE_OPTIONS,
+      sweepWidthMeters: party.sweepWidthMeters ?? DEFAULT_COVERAGE_OPTIONS.sweepWidthMeters,
+      ...options,
+    };
+    const tracks = this.tracks.get(partyId) || [];
+    const sectors = party.searchArea.sectors || [];
+    const { sectors: coverage, researchOrder } = computeSearchCoverage(sectors, tracks, resolved);
+
+    return {
+      searchPartyId: partyId,
+      sweepWidthMeters: resolved.sweepWidthMeters,
+      targetPod: resolved.targetPod,
+      trackCount: tracks.length,
+      sectors: coverage,
+      researchOrder,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
   /**
    * Get search party statistics
    */
@@ -393,47 +583,82 @@ class VolunteerCoordinatorService {
   }
 
   /**
-   * Generate grid sectors from polygon
+   * Re-plan a party's sectors, e.g. once the subject's category or last
+   * known point is confirmed. Refused once teams are out in sectors.
    */
-  private generateGridSectors(
-    polygon: Array<{ lat: number; lng: number }>
-  ): SearchSector[] {
-    const sectors: SearchSector[] = [];
-
-    // Calculate bounding box
-    const lats = polygon.map((p) => p.lat);
-    const lngs = polygon.map((p) => p.lng);
-    const minLat = Math.min(...lats);
-    const maxLat = Math.max(...lats);
-    const minLng = Math.min(...lngs);
-    const maxLng = Math.max(...lngs);
-
-    // Create 4x4 grid
-    const latStep = (maxLat - minLat) / 4;
-    const lngStep = (maxLng - minLng) / 4;
-
-    let priority = 1;
-    for (let i = 0; i < 4; i++) {
-      for (let j = 0; j < 4; j++) {
-        const sectorGeometry = [
-          { lat: minLat + i * latStep, lng: minLng + j * lngStep },
-          { lat: minLat + (i + 1) * latStep, lng: minLng + j * lngStep },
-          { lat: minLat + (i + 1) * latStep, lng: minLng + (j + 1) * lngStep },
-          { lat: minLat + i * latStep, lng: minLng + (j + 1) * lngStep },
-        ];
-
-        sectors.push({
-          id: crypto.randomUUID(),
-          name: `Sector ${String.fromCharCode(65 + i)}${j + 1}`,
-          geometry: sectorGeometry,
-          priority: priority++,
-          status: "unassigned",
-          findings: [],
-        });
-      }
+  async replanSectors(
+    partyId: string,
+    planning: SearchPlanningInput
+  ): Promise<SearchParty | null> {
+    const party = this.searchParties.get(partyId);
+    if (!party) return null;
+
+    if (party.searchArea.sectors?.some((s) => s.status !== "unassigned")) {
+      throw new Error("Sectors already assigned");
     }
 
-    return sectors;
+    const { sectors, plan } = this.planSectors(party.searchArea.geometry, planning);
+    party.searchArea = { ...party.searchArea, type: "grid", sectors, plan };
+    party.updatedAt = new Date().toISOString();
+
+    this.searchParties.set(partyId, party);
+    return party;
+  }
+
+  /**
+   * Use sectors drawn elsewhere (e.g. imported from GIS). With replace, the
+   * current sectors and plan are dropped; otherwise the new sectors are
+   * deployed after the existing ones.
+   */
+  async importSectors(
+    partyId: string,
+    sectors: SearchSector[],
+    replace = true
+  ): Promise<SearchParty | null> {
+    const party = this.searchParties.get(partyId);
+    if (!party) return null;
+
+    const existing = party.searchArea.sectors || [];
+    if (replace && existing.some((s) => s.status !== "unassigned")) {
+      throw new Error("Sectors already assigned");
+    }
+
+    const offset = replace ? 0 : Math.max(0, ...existing.map((s) => s.priority));
+    const imported = sectors.map((s) => ({ ...s, priority: s.priority + offset }));
+    party.searchArea = {
+      ...party.searchArea,
+      type: "grid",
+      sectors: replace ? imported : [...existing, ...imported],
+      plan: replace ? undefined : party.searchArea.plan,
+    };
+    party.updatedAt = new Date().toISOString();
+
+    this.searchParties.set(partyId, party);
+    return party;
+  }
+
+  /**
+   * Unassigned sectors in deployment order, highest probability first
+   */
+  async getNextSectors(partyId: string, limit = 5): Promise<SearchSector[]> {
+    const party = this.searchParties.get(partyId);
+    if (!party) return [];
+
+    return (party.searchArea.sectors || [])
+      .filter((s) => s.status === "unassigned")
+      .sort((a, b) => a.priority - b.priority)
+      .slice(0, limit);
+  }
+
+  /**
+   * Cut the search polygon into team-sized sectors ranked by probability
+   */
+  private planSectors(
+    polygon: Array<{ lat: number; lng: number }>,
+    planning: SearchPlanningInput = {}
+  ): { sectors: SearchSector[]; plan: SearchPlanSummary } {
+    const { sectors, ...plan } = planSearchSectors({ polygon, ...planning });
+    return { sectors, plan };
   }
 
   /**
@@ -4,3 +4,4 @@ export { createClient as createBrowserClient } from "./client";
 // Note: Server client and middleware should be imported directly:
 // - Server: import { createClient } from "@/lib/supabase/server"
 // - Middleware: import { updateSession } from "@/lib/supabase/middleware"
+// - Service role: import { createServiceClient } from "@/lib/supabase/service"
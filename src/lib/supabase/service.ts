@@ -0,0 +1,14 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Service-role client for server work that runs without a user session,
+ * e.g. the job worker. Bypasses row level security: never hand it to code
+ * that acts on a request's behalf without checking the caller first.
+ */
+export function createServiceClient(): SupabaseClient {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  );
+}
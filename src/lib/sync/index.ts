@@ -0,0 +1,21 @@
+/**
+ * Sync Module Index
+ * Shared by the offline sync engine and the API routes that check
+ * offline edits for conflicts
+ */
+
+export {
+  compareVersionVectors,
+  dominates,
+  incrementVersion,
+  mergeVersionVectors,
+  parseVersionVector,
+  type VersionOrder,
+  type VersionVector,
+} from './version-vector';
+export {
+  SYNC_BASE_VERSION_HEADER,
+  SYNC_OPERATION_HEADER,
+  SYNC_VERSION_HEADER,
+  type SyncConflictBody,
+} from './protocol';
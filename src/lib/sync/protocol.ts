@@ -0,0 +1,25 @@
+/**
+ * Sync Protocol
+ * Headers the offline sync engine sends with each queued operation, and the
+ * body the server answers with when an edit conflicts
+ */
+
+import type { VersionVector } from './version-vector';
+
+// Unique per operation; the server applies an operation once however often it is retried
+export const SYNC_OPERATION_HEADER = 'X-Sync-Operation-Id';
+// The entity version the edit was made on top of
+export const SYNC_BASE_VERSION_HEADER = 'X-Sync-Base-Version';
+// The entity version after the edit
+export const SYNC_VERSION_HEADER = 'X-Sync-Version';
+
+export interface SyncConflictBody {
+  error: 'Sync conflict';
+  conflict: {
+    entityType: string;
+    entityId: string;
+    serverVersion: VersionVector;
+    // The entity as it is on the server now, for the person resolving the conflict
+    current: Record<string, unknown> | null;
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareVersionVectors,
+  dominates,
+  incrementVersion,
+  mergeVersionVectors,
+  parseVersionVector,
+} from './version-vector';
+
+describe('compareVersionVectors', () => {
+  it('orders edits made with knowledge of each other', () => {
+    const first = incrementVersion({}, 'tablet-a');
+    const second = incrementVersion(first, 'tablet-b');
+
+    expect(compareVersionVectors(first, second)).toBe('before');
+    expect(compareVersionVectors(second, first)).toBe('after');
+    expect(compareVersionVectors(second, { ...second })).toBe('equal');
+  });
+
+  it('detects two officers editing the same version offline', () => {
+    const base = { 'tablet-a': 2, server: 1 };
+    const a = incrementVersion(base, 'tablet-a');
+    const b = incrementVersion(base, 'tablet-b');
+
+    expect(compareVersionVectors(a, b)).toBe('concurrent');
+    expect(dominates(a, b)).toBe(false);
+    expect(dominates(mergeVersionVectors(a, b), b)).toBe(true);
+  });
+
+  it('treats missing devices as zero', () => {
+    expect(compareVersionVectors({}, { server: 0 })).toBe('equal');
+    expect(dominates({ server: 1 }, {})).toBe(true);
+  });
+});
+
+describe('parseVersionVector', () => {
+  it('accepts JSON objects of non-negative integer counters', () => {
+    expect(parseVersionVector('{"tablet-a":3,"server":1}')).toEqual({ 'tablet-a': 3, server: 1 });
+    expect(parseVersionVector({})).toEqual({});
+  });
+
+  it('rejects anything else', () => {
+    expect(parseVersionVector('not json')).toBeNull();
+    expect(parseVersionVector('[1,2]')).toBeNull();
+    expect(parseVersionVector('{"a":-1}')).toBeNull();
+    expect(parseVersionVector('{"a":1.5}')).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Version Vectors
+ * Per-entity edit counters keyed by device. Comparing two vectors tells
+ * whether one edit was made with knowledge of the other or whether they
+ * were made concurrently, e.g. by two officers editing the same lead offline.
+ */
+
+export type VersionVector = Record<string, number>;
+
+export type VersionOrder = 'equal' | 'before' | 'after' | 'concurrent';
+
+/**
+ * Order `a` relative to `b`: 'before' when every counter in `a` is at most
+ * the one in `b` (b has seen a), 'after' for the reverse, and 'concurrent'
+ * when each has seen an edit the other has not
+ */
+export function compareVersionVectors(a: VersionVector, b: VersionVector): VersionOrder {
+  let aAhead = false;
+  let bAhead = false;
+
+  for (const device of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const left = a[device] ?? 0;
+    const right = b[device] ?? 0;
+    if (left > right) aAhead = true;
+    if (right > left) bAhead = true;
+  }
+
+  if (aAhead && bAhead) return 'concurrent';
+  if (aAhead) return 'after';
+  if (bAhead) return 'before';
+  return 'equal';
+}
+
+/**
+ * True when `vector` includes every edit in `other`
+ */
+export function dominates(vector: VersionVector, other: VersionVector): boolean {
+  const order = compareVersionVectors(vector, other);
+  return order === 'equal' || order === 'after';
+}
+
+export function mergeVersionVectors(...vectors: VersionVector[]): VersionVector {
+  const merged: VersionVector = {};
+  for (const vector of vectors) {
+    for (const [device, counter] of Object.entries(vector)) {
+      merged[device] = Math.max(merged[device] ?? 0, counter);
+    }
+  }
+  return merged;
+}
+
+export function incrementVersion(vector: VersionVector, deviceId: string): VersionVector {
+  return { ...vector, [deviceId]: (vector[deviceId] ?? 0) + 1 };
+}
+
+/**
+ * Parse a vector from a header or stored JSON, rejecting anything that is
+ * not an object of non-negative integer counters
+ */
+export function parseVersionVector(value: unknown): VersionVector | null {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+
+  const vector: VersionVector = {};
+  for (const [device, counter] of Object.entries(parsed)) {
+    if (!Number.isInteger(counter) || (counter as number) < 0) return null;
+    vector[device] = counter as number;
+  }
+  return vector;
+}
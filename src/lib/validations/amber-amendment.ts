@@ -0,0 +1,42 @@
+/**
+ * AMBER Alert Amendment Validation Schemas
+ * Zod schema for changing an alert's details after it has gone out
+ */
+
+import { z } from 'zod';
+
+const optionalText = (max: number) => z.string().trim().max(max).nullable().optional();
+
+// =============================================================================
+// Amendment
+// =============================================================================
+
+export const amendAmberAlertSchema = z
+  .object({
+    child_age: z.number().int().min(0).max(17).nullable().optional(),
+    child_gender: optionalText(50),
+    child_description: optionalText(2000),
+    child_photo_url: z.string().url().nullable().optional(),
+    abduction_location: z.string().trim().min(1, 'Last seen location cannot be empty').max(500).optional(),
+    abduction_circumstances: optionalText(5000),
+    suspect_name: optionalText(200),
+    suspect_description: optionalText(2000),
+    suspect_photo_url: z.string().url().nullable().optional(),
+    suspect_relationship: optionalText(100),
+    vehicle_involved: z.boolean().optional(),
+    vehicle_make: optionalText(100),
+    vehicle_model: optionalText(100),
+    vehicle_year: z.number().int().min(1900).max(2100).nullable().optional(),
+    vehicle_color: optionalText(50),
+    vehicle_license_plate: optionalText(20),
+    vehicle_license_province: z.string().length(2).nullable().optional(),
+    requesting_officer_phone: z.string().trim().min(7, 'Enter a contact phone number').max(30).optional(),
+    expires_at: z.string().datetime({ offset: true }).nullable().optional(),
+    // Recorded on the case timeline, not sent to the public
+    reason: z.string().trim().max(1000).optional(),
+  })
+  .refine((data) => Object.keys(data).some((key) => key !== 'reason'), {
+    message: 'Provide at least one detail to amend',
+  });
+
+export type AmendAmberAlertData = z.infer<typeof amendAmberAlertSchema>;
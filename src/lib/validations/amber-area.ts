@@ -0,0 +1,65 @@
+/**
+ * AMBER Alert Area Validation Schemas
+ * Zod schemas for alert areas, their widening schedule and reach estimates
+ */
+
+import { z } from 'zod';
+
+const point = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+// =============================================================================
+// Alert Area
+// =============================================================================
+
+export const amberAlertAreaSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('radius'),
+    center: point,
+    radius_km: z.number().positive().max(2000),
+  }),
+  z.object({
+    type: z.literal('polygon'),
+    points: z.array(point).min(3, 'A polygon needs at least three points').max(500),
+  }),
+  z.object({
+    type: z.literal('corridor'),
+    points: z.array(point).min(2, 'A corridor needs at least two points along the route').max(2000),
+    buffer_km: z.number().positive().max(200),
+    highways: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  }),
+]);
+
+export const amberAreaExpansionSchema = z
+  .object({
+    step_km: z.number().positive().max(500),
+    every_minutes: z.number().int().min(5).max(24 * 60),
+    max_km: z.number().positive().max(2000),
+  })
+  .refine((data) => data.max_km >= data.step_km, {
+    message: 'The maximum widening must be at least one step',
+    path: ['max_km'],
+  });
+
+export const updateAmberAlertAreaSchema = z.object({
+  area: amberAlertAreaSchema.nullable(),
+  expansion: amberAreaExpansionSchema.nullable().default(null),
+});
+
+export type UpdateAmberAlertAreaData = z.infer<typeof updateAmberAlertAreaSchema>;
+
+// =============================================================================
+// Reach Estimate
+// =============================================================================
+
+export const estimateAmberReachSchema = z.object({
+  area: amberAlertAreaSchema.nullable().default(null),
+  provinces: z.array(z.string().length(2)).default([]),
+  channels: z
+    .array(z.enum(['partner_alert', 'media_outlet', 'email', 'sms', 'push_notification']))
+    .default(['partner_alert', 'media_outlet', 'email', 'sms', 'push_notification']),
+});
+
+export type EstimateAmberReachData = z.infer<typeof estimateAmberReachSchema>;
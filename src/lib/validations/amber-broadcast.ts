@@ -0,0 +1,32 @@
+/**
+ * AMBER Broadcast Approval Validation Schemas
+ * Zod schemas for the two-person release of WEA, EAS and highway sign broadcasts
+ */
+
+import { z } from 'zod';
+
+// =============================================================================
+// Approval Request
+// =============================================================================
+
+export const requestBroadcastApprovalSchema = z.object({
+  channels: z.array(z.enum(['wea', 'eas', 'highway_signs'])).min(1, 'Select at least one broadcast channel'),
+});
+
+export type RequestBroadcastApprovalData = z.infer<typeof requestBroadcastApprovalSchema>;
+
+// =============================================================================
+// Approver Review
+// =============================================================================
+
+export const reviewBroadcastApprovalSchema = z
+  .object({
+    decision: z.enum(['approve', 'reject']),
+    notes: z.string().max(2000).optional(),
+  })
+  .refine((data) => data.decision === 'approve' || Boolean(data.notes?.trim()), {
+    message: 'Notes are required when rejecting a broadcast',
+    path: ['notes'],
+  });
+
+export type ReviewBroadcastApprovalData = z.infer<typeof reviewBroadcastApprovalSchema>;
@@ -0,0 +1,14 @@
+/**
+ * Case Lifecycle Validation Schemas
+ * Zod schema for moving a case between lifecycle statuses
+ */
+
+import { z } from 'zod';
+
+export const caseLifecycleTransitionSchema = z.object({
+  status: z.enum(['open', 'inactive', 'cold', 'revived', 'closed']),
+  reasonCode: z.string().min(1).max(100).optional(),
+  notes: z.string().max(5000).optional(),
+});
+
+export type CaseLifecycleTransitionData = z.infer<typeof caseLifecycleTransitionSchema>;
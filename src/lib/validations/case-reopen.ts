@@ -0,0 +1,48 @@
+/**
+ * Case Reopen Validation Schemas
+ * Zod schemas for the supervised reopen workflow on closed cases
+ */
+
+import { z } from 'zod';
+import { CASE_LIFECYCLE_REASON_CODES } from '@/lib/case-lifecycle';
+
+const idList = z.array(z.string().uuid()).max(500).default([]);
+
+// =============================================================================
+// Reopen Request
+// =============================================================================
+
+export const createCaseReopenRequestSchema = z.object({
+  reasonCode: z.string().refine((code) => CASE_LIFECYCLE_REASON_CODES.open.includes(code), {
+    message: `Reason code must be one of: ${CASE_LIFECYCLE_REASON_CODES.open.join(', ')}`,
+  }),
+  justification: z
+    .string()
+    .min(20, 'Explain why the case must be reopened (at least 20 characters)')
+    .max(5000),
+  carryForward: z
+    .object({
+      evidenceIds: idList,
+      leadIds: idList,
+      geofenceIds: idList,
+    })
+    .default({ evidenceIds: [], leadIds: [], geofenceIds: [] }),
+});
+
+export type CreateCaseReopenRequestData = z.infer<typeof createCaseReopenRequestSchema>;
+
+// =============================================================================
+// Supervisor Review
+// =============================================================================
+
+export const reviewCaseReopenRequestSchema = z
+  .object({
+    decision: z.enum(['approve', 'reject']),
+    notes: z.string().max(2000).optional(),
+  })
+  .refine((data) => data.decision === 'approve' || Boolean(data.notes?.trim()), {
+    message: 'Notes are required when rejecting a reopen request',
+    path: ['notes'],
+  });
+
+export type ReviewCaseReopenRequestData = z.infer<typeof reviewCaseReopenRequestSchema>;
@@ -0,0 +1,32 @@
+/**
+ * Device Validation Schemas
+ * Zod schemas for revoking and wiping registered field devices
+ */
+
+import { z } from 'zod';
+
+// Offline storage device ids are random UUIDs generated on the device
+export const deviceIdSchema = z.string().regex(/^[A-Za-z0-9-]{8,64}$/, 'Invalid device ID');
+
+export const deviceRevocationSchema = z.object({
+  reason: z.string().trim().min(3).max(500),
+  // Queue a wipe of the device's offline data as well
+  wipe: z.boolean().default(true),
+});
+
+export const deviceCheckInSchema = z.object({
+  deviceId: deviceIdSchema,
+});
+
+export const wipeCompletionSchema = z.object({
+  result: z
+    .object({
+      storesCleared: z.number().int().min(0),
+      cachesCleared: z.number().int().min(0),
+    })
+    .optional(),
+});
+
+export type DeviceRevocationData = z.infer<typeof deviceRevocationSchema>;
+export type DeviceCheckInData = z.infer<typeof deviceCheckInSchema>;
+export type WipeCompletionData = z.infer<typeof wipeCompletionSchema>;
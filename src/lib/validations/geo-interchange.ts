@@ -0,0 +1,65 @@
+/**
+ * Geo Interchange Validation Schemas
+ * Zod schemas for the options sent alongside GeoJSON, KML and GPX imports
+ * and exports. Form fields and query strings arrive as text, so numbers
+ * are coerced.
+ */
+
+import { z } from 'zod';
+
+export const geoFormatSchema = z.enum(['geojson', 'kml', 'gpx']);
+
+// e.g. "EPSG:4326", "EPSG:32612" (UTM 12N), "EPSG:3857" (Web Mercator)
+const crsSchema = z.string().trim().min(1).max(100);
+
+export const geoExportQuerySchema = z.object({
+  format: geoFormatSchema.default('geojson'),
+});
+
+export type GeoExportQueryData = z.infer<typeof geoExportQuerySchema>;
+
+export const geoImportOptionsSchema = z.object({
+  format: geoFormatSchema.optional(),
+  crs: crsSchema.optional(),
+});
+
+export type GeoImportOptionsData = z.infer<typeof geoImportOptionsSchema>;
+
+export const geofenceImportSchema = geoImportOptionsSchema.extend({
+  caseId: z.string().min(1),
+  alertType: z.enum(['entry', 'exit', 'both']).optional(),
+  defaultRadiusMeters: z.coerce.number().positive().max(100000).optional(),
+  defaultBufferMeters: z.coerce.number().positive().max(10000).optional(),
+});
+
+export type GeofenceImportData = z.infer<typeof geofenceImportSchema>;
+
+export const sectorImportSchema = geoImportOptionsSchema.extend({
+  // Replaces unassigned sectors only; a party already in the field keeps its plan
+  replace: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((value) => value === 'true'),
+});
+
+export type SectorImportData = z.infer<typeof sectorImportSchema>;
+
+export const sightingImportSchema = geoImportOptionsSchema.extend({
+  source: z.enum(['lpr', 'manual', 'tip', 'camera']).default('manual'),
+  confidence: z.coerce.number().min(0).max(100).optional(),
+});
+
+export type SightingImportData = z.infer<typeof sightingImportSchema>;
+
+export const caseMapLayerSchema = z.enum(['lastSeen', 'sightings', 'searchAreas', 'resources']);
+
+export const caseMapExportQuerySchema = geoExportQuerySchema.extend({
+  // Comma separated; every layer when absent
+  layers: z
+    .string()
+    .transform((value) => value.split(',').map((layer) => layer.trim()).filter(Boolean))
+    .pipe(z.array(caseMapLayerSchema).min(1))
+    .optional(),
+});
+
+export type CaseMapExportQueryData = z.infer<typeof caseMapExportQuerySchema>;
@@ -0,0 +1,58 @@
+/**
+ * Geofence Validation Schemas
+ * Zod schemas for geofence behaviour triggers and the location streams
+ * evaluated against active geofences
+ */
+
+import { z } from 'zod';
+
+export const MAX_LOCATION_BATCH_SIZE = 5000;
+
+// =============================================================================
+// Behaviour Triggers
+// =============================================================================
+
+const minutes = z.number().positive().max(7 * 24 * 60);
+
+export const geofenceTriggerConfigSchema = z.object({
+  dwell: z.object({ minutes }).optional(),
+  loiter: z
+    .object({
+      bandMeters: z.number().positive().max(5000),
+      minutes,
+    })
+    .optional(),
+  noMovement: z
+    .object({
+      radiusMeters: z.number().positive().max(5000),
+      minutes,
+    })
+    .optional(),
+  speed: z.object({ maxKph: z.number().positive().max(1000) }).optional(),
+});
+
+export type GeofenceTriggerConfigData = z.infer<typeof geofenceTriggerConfigSchema>;
+
+// =============================================================================
+// Location Streams
+// =============================================================================
+
+export const locationUpdateSchema = z.object({
+  deviceId: z.string().min(1).max(200),
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  accuracy: z.number().nonnegative().optional(),
+  timestamp: z.string().datetime({ offset: true }),
+  source: z.string().max(100).optional(),
+});
+
+export type LocationUpdateData = z.infer<typeof locationUpdateSchema>;
+
+export const locationBatchSchema = z.object({
+  updates: z
+    .array(locationUpdateSchema)
+    .min(1, 'At least one location update is required')
+    .max(MAX_LOCATION_BATCH_SIZE, `At most ${MAX_LOCATION_BATCH_SIZE} updates per batch`),
+});
+
+export type LocationBatchData = z.infer<typeof locationBatchSchema>;
@@ -3,3 +3,16 @@
  */
 
 export * from './intake';
+export * from './priority-profile';
+export * from './case-lifecycle';
+export * from './case-reopen';
+export * from './amber-broadcast';
+export * from './amber-area';
+export * from './amber-amendment';
+export * from './verification-rule';
+export * from './geofence';
+export * from './vehicle';
+export * from './search-planning';
+export * from './geo-interchange';
+export * from './lead';
+export * from './device';
@@ -0,0 +1,21 @@
+/**
+ * Lead Validation Schemas
+ * Zod schemas for files attached to leads
+ */
+
+import { z } from 'zod';
+
+// Either a case evidence item already uploaded, or a file stored elsewhere
+export const leadAttachmentSchema = z.union([
+  z.object({
+    evidenceItemId: z.string().uuid(),
+  }),
+  z.object({
+    fileName: z.string().min(1).max(255),
+    fileType: z.string().min(1).max(100),
+    fileSize: z.number().int().min(0),
+    fileUrl: z.string().url(),
+  }),
+]);
+
+export type LeadAttachmentData = z.infer<typeof leadAttachmentSchema>;
@@ -0,0 +1,124 @@
+/**
+ * Priority Profile Validation Schemas
+ * Zod schemas for versioned jurisdiction priority weight sets
+ */
+
+import { z } from 'zod';
+
+const weight = z
+  .number()
+  .int('Weights must be whole numbers')
+  .min(0, 'Weights cannot be negative')
+  .max(100, 'Weights cannot exceed 100');
+
+// =============================================================================
+// Weight Set
+// =============================================================================
+
+export const priorityThresholdsSchema = z
+  .object({
+    priority0: weight,
+    priority1: weight,
+    priority2: weight,
+    priority3: weight,
+  })
+  .refine(
+    (t) =>
+      t.priority0 > t.priority1 &&
+      t.priority1 > t.priority2 &&
+      t.priority2 > t.priority3,
+    {
+      message: 'Thresholds must strictly decrease from priority0 to priority3',
+    }
+  );
+
+export const priorityWeightConfigSchema = z.object({
+  ageUnder12: weight,
+  age12to17: weight,
+  ageOver65: weight,
+  mentalHealthCondition: weight,
+  medicalDependency: weight,
+  suicidalRisk: weight,
+  suspectedAbduction: weight,
+  domesticViolenceHistory: weight,
+  outOfCharacter: weight,
+  noFinancialResources: weight,
+  adverseWeather: weight,
+  missingOver24Hours: weight,
+  missingOver48Hours: weight,
+  missingOver72Hours: weight,
+  thresholds: priorityThresholdsSchema,
+});
+
+// =============================================================================
+// Profile Versions
+// =============================================================================
+
+export const createPriorityProfileVersionSchema = z.object({
+  profileKey: z
+    .string()
+    .regex(/^[a-z0-9_]{2,64}$/, 'Profile key must be lowercase letters, digits or underscores'),
+  name: z.string().min(3, 'Name must be at least 3 characters').max(200),
+  jurisdictionId: z.string().uuid().nullable().optional(),
+  weights: priorityWeightConfigSchema,
+  changeNotes: z
+    .string()
+    .min(10, 'Describe why the weights are changing (at least 10 characters)')
+    .max(2000),
+});
+
+export type CreatePriorityProfileVersionData = z.infer<
+  typeof createPriorityProfileVersionSchema
+>;
+
+// =============================================================================
+// Assessment Input
+// =============================================================================
+
+export const priorityAssessmentInputSchema = z.object({
+  age: z.number().int().min(0).max(130),
+  hoursMissing: z.number().min(0).optional(),
+  hasMedicalCondition: z.boolean(),
+  requiresDailyMedication: z.boolean(),
+  hasMentalHealthCondition: z.boolean(),
+  suicidalRisk: z.boolean(),
+  suspectedAbduction: z.boolean(),
+  domesticViolenceHistory: z.boolean(),
+  outOfCharacter: z.boolean(),
+  hasFinancialResources: z.boolean(),
+  adverseWeather: z.boolean(),
+  weatherRiskPoints: z.number().min(0).max(10).optional(),
+});
+
+export type PriorityAssessmentInputData = z.infer<
+  typeof priorityAssessmentInputSchema
+>;
+
+export const priorityAssessmentRequestSchema = z.object({
+  input: priorityAssessmentInputSchema,
+  profileKey: z.string().min(1).optional(),
+});
+
+// =============================================================================
+// What-If Simulation
+// =============================================================================
+
+export const priorityProfileSimulationSchema = z.object({
+  profileKey: z.string().min(1, 'Profile key is required'),
+  weights: priorityWeightConfigSchema,
+  jurisdictionId: z.string().uuid().optional(),
+  since: z.string().datetime().optional(),
+  limit: z.number().int().min(1).max(20000).optional(),
+  checks: z
+    .object({
+      maxMovedRatio: z.number().min(0).max(1).optional(),
+      forbidDowngradeAtOrAbove: z
+        .union([z.literal(0), z.literal(1), z.literal(2), z.literal(3), z.literal(4)])
+        .optional(),
+    })
+    .optional(),
+});
+
+export type PriorityProfileSimulationData = z.infer<
+  typeof priorityProfileSimulationSchema
+>;
@@ -0,0 +1,103 @@
+/**
+ * Search Planning Validation Schemas
+ * Zod schemas for sector planning inputs, volunteer GPS track uploads and
+ * the reports the offline field app syncs
+ */
+
+import { z } from 'zod';
+
+export const lostPersonCategorySchema = z.enum(['child', 'dementia', 'despondent', 'hiker']);
+
+export const teamCapacitySchema = z
+  .object({
+    searchersPerTeam: z.number().int().min(1).max(50),
+    hoursPerAssignment: z.number().min(0.5).max(24),
+    speedKph: z.number().min(0.1).max(10),
+    spacingMeters: z.number().min(1).max(500),
+  })
+  .partial();
+
+export const searchPlanningSchema = z.object({
+  category: lostPersonCategorySchema.optional(),
+  lastKnownPoint: z
+    .object({
+      lat: z.number().min(-90).max(90),
+      lng: z.number().min(-180).max(180),
+    })
+    .optional(),
+  capacity: teamCapacitySchema.optional(),
+});
+
+export type SearchPlanningData = z.infer<typeof searchPlanningSchema>;
+
+export const trackPointSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  timestamp: z.string().datetime({ offset: true }),
+  accuracy: z.number().min(0).optional(),
+});
+
+export const trackUploadSchema = z.object({
+  volunteerId: z.string().min(1),
+  sectorId: z.string().optional(),
+  points: z.array(trackPointSchema).min(2).max(50000),
+  sweepWidthMeters: z.number().min(1).max(500).optional(),
+  // Lets the offline field app retry an upload safely
+  clientId: z.string().uuid().optional(),
+});
+
+export type TrackUploadData = z.infer<typeof trackUploadSchema>;
+
+// Query parameters arrive as strings
+export const coverageQuerySchema = z.object({
+  sweepWidthMeters: z.coerce.number().min(1).max(500).optional(),
+  targetPod: z.coerce.number().min(0).max(1).optional(),
+});
+
+export type CoverageQueryData = z.infer<typeof coverageQuerySchema>;
+
+// =============================================================================
+// Field Reports
+// =============================================================================
+
+export const MAX_FINDING_PHOTOS = 6;
+// Photos are resized on the phone before they are stored for sync
+const MAX_PHOTO_DATA_URL_LENGTH = 3 * 1024 * 1024;
+
+export const fieldFindingSchema = z.object({
+  clientId: z.string().uuid().optional(),
+  volunteerId: z.string().min(1).optional(),
+  sectorId: z.string().optional(),
+  type: z.enum(['person_sighting', 'evidence', 'poi', 'other']),
+  description: z.string().min(1).max(5000),
+  location: z.object({
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
+    accuracy: z.number().min(0).optional(),
+  }),
+  // Image data URLs captured in the field, or URLs of already uploaded photos
+  photos: z
+    .array(
+      z
+        .string()
+        .max(MAX_PHOTO_DATA_URL_LENGTH, 'Photo is too large')
+        .refine((p) => /^data:image\/(jpeg|png|webp);base64,/.test(p) || /^https?:\/\//.test(p), 'Invalid photo')
+    )
+    .max(MAX_FINDING_PHOTOS)
+    .optional(),
+  followUpRequired: z.boolean().optional(),
+  timestamp: z.string().datetime({ offset: true }).optional(),
+});
+
+export type FieldFindingData = z.infer<typeof fieldFindingSchema>;
+
+export const sectorStatusSchema = z.enum(['unassigned', 'assigned', 'in_progress', 'completed']);
+
+export const sectorStatusUpdateSchema = z.object({
+  status: sectorStatusSchema,
+  // The status the client last saw; a different current status is a conflict
+  expectedStatus: sectorStatusSchema.optional(),
+  assignedTeam: z.string().max(100).optional(),
+});
+
+export type SectorStatusUpdateData = z.infer<typeof sectorStatusUpdateSchema>;
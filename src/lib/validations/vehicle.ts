@@ -0,0 +1,77 @@
+/**
+ * Vehicle Validation Schemas
+ * Zod schemas for LPR ingestion and plate matching thresholds
+ */
+
+import { z } from 'zod';
+
+export const plateMatchThresholdsSchema = z
+  .object({
+    minScore: z.number().min(0).max(1),
+    autoMatchScore: z.number().min(0).max(1),
+    minAutoMatchMargin: z.number().min(0).max(1),
+    minReadConfidence: z.number().min(0).max(100),
+    maxCandidates: z.number().int().min(1).max(50),
+  })
+  .partial();
+
+export type PlateMatchThresholdsData = z.infer<typeof plateMatchThresholdsSchema>;
+
+export const lprReadSchema = z.object({
+  plate: z.string().min(1).max(20),
+  state: z.string().max(10).optional(),
+  make: z.string().max(50).optional(),
+  model: z.string().max(50).optional(),
+  color: z.string().max(30).optional(),
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  timestamp: z.string().datetime({ offset: true }),
+  confidence: z.number().min(0).max(100),
+  imageUrl: z.string().url().optional(),
+});
+
+export const lprBatchSchema = z.object({
+  reads: z.array(lprReadSchema).min(1).max(1000),
+  thresholds: plateMatchThresholdsSchema.optional(),
+});
+
+export type LPRBatchData = z.infer<typeof lprBatchSchema>;
+
+const coordinateSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]).rest(z.number());
+const lineSchema = z.array(coordinateSchema).min(2);
+
+export const roadNetworkSchema = z.object({
+  type: z.literal('FeatureCollection'),
+  features: z
+    .array(
+      z.object({
+        type: z.literal('Feature'),
+        properties: z
+          .object({
+            highway: z.string().optional(),
+            maxspeed: z.union([z.number().positive(), z.string()]).optional(),
+            oneway: z.union([z.boolean(), z.string()]).optional(),
+          })
+          .nullish(),
+        geometry: z.discriminatedUnion('type', [
+          z.object({ type: z.literal('LineString'), coordinates: lineSchema }),
+          z.object({ type: z.literal('MultiLineString'), coordinates: z.array(lineSchema).min(1) }),
+        ]),
+      })
+    )
+    .min(1)
+    .max(200000),
+});
+
+export type RoadNetworkData = z.infer<typeof roadNetworkSchema>;
+
+// Query parameters arrive as strings
+export const movementQuerySchema = z.object({
+  at: z.string().datetime({ offset: true }).optional(),
+  maxSpeedKph: z.coerce.number().min(10).max(400).optional(),
+  stopRadiusMeters: z.coerce.number().min(10).max(5000).optional(),
+  minStopMinutes: z.coerce.number().min(1).max(720).optional(),
+  maxPredictionHours: z.coerce.number().min(0).max(48).optional(),
+});
+
+export type MovementQueryData = z.infer<typeof movementQuerySchema>;
@@ -0,0 +1,88 @@
+/**
+ * Verification Rule Validation Schemas
+ * Zod schemas for authoring tip verification rules and dry-running drafts.
+ * These check shape only; field names, operators and value types are
+ * checked against the engine's field catalog by validateVerificationRule.
+ */
+
+import { z } from 'zod';
+import type { RuleCondition } from '@/types/tip-verification.types';
+
+const priorityBucket = z.enum(['critical', 'high', 'medium', 'low', 'spam']);
+
+// =============================================================================
+// Conditions & Actions
+// =============================================================================
+
+export const ruleConditionSchema: z.ZodType<RuleCondition> = z.lazy(() =>
+  z.object({
+    field: z.string().max(100).optional(),
+    operator: z
+      .enum(['=', '!=', '>', '<', '>=', '<=', 'in', 'not_in', 'contains', 'matches'])
+      .optional(),
+    value: z.unknown().optional(),
+    and: z.array(ruleConditionSchema).max(20).optional(),
+    or: z.array(ruleConditionSchema).max(20).optional(),
+  })
+);
+
+export const ruleActionSchema = z.object({
+  scoreModifier: z.number().int().min(-100).max(100).optional(),
+  setStatus: z
+    .enum([
+      'unverified',
+      'auto_verified',
+      'pending_review',
+      'verified',
+      'partially_verified',
+      'unverifiable',
+      'rejected',
+    ])
+    .optional(),
+  setPriority: priorityBucket.optional(),
+  spamScoreAdd: z.number().int().min(0).max(100).optional(),
+  requireReview: z.boolean().optional(),
+  reviewPriority: z.number().int().min(1).max(10).optional(),
+  autoTriage: z.boolean().optional(),
+  slaHours: z.number().min(0).max(720).optional(),
+  sendFollowUp: z.boolean().optional(),
+  followUpType: z
+    .enum(['clarification', 'photo_request', 'location_confirm', 'additional_info'])
+    .optional(),
+});
+
+// =============================================================================
+// Rule Drafts
+// =============================================================================
+
+export const verificationRuleDraftSchema = z.object({
+  name: z.string().min(3, 'Name must be at least 3 characters').max(200),
+  description: z.string().max(2000).optional(),
+  ruleType: z.enum(['scoring', 'spam', 'priority', 'workflow']),
+  conditions: ruleConditionSchema,
+  actions: ruleActionSchema,
+  scoreWeight: z.number().int().min(0).max(100).default(10),
+  jurisdictionId: z.string().uuid().nullable().optional(),
+});
+
+export type VerificationRuleDraftData = z.infer<typeof verificationRuleDraftSchema>;
+
+export const updateVerificationRuleSchema = verificationRuleDraftSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+export type UpdateVerificationRuleData = z.infer<typeof updateVerificationRuleSchema>;
+
+// =============================================================================
+// Dry Run
+// =============================================================================
+
+export const verificationRuleDryRunSchema = z.object({
+  // Set when the draft edits an existing rule, so the stored version is
+  // left out of the candidate rule set
+  ruleId: z.string().uuid().optional(),
+  rule: verificationRuleDraftSchema,
+  limit: z.number().int().min(1).max(2000).default(500),
+});
+
+export type VerificationRuleDryRunData = z.infer<typeof verificationRuleDryRunSchema>;
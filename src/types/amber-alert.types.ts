@@ -81,6 +81,10 @@ export interface AmberAlert {
   // Geographic Distribution
   target_provinces: string[];
   target_radius_km?: number;
+  target_coordinates?: string; // Postgres point "(lng,lat)"
+  target_area?: AmberAlertArea | null;
+  area_expansion?: AmberAreaExpansion | null;
+  area_margin_km?: number;
 
   // Distribution
   distribution_channels: AmberDistributionChannel[];
@@ -149,6 +153,8 @@ export interface AmberAlertInsert {
   // Geographic Distribution
   target_provinces?: string[];
   target_radius_km?: number;
+  target_area?: AmberAlertArea;
+  area_expansion?: AmberAreaExpansion;
 
   // Distribution
   distribution_channels: AmberDistributionChannel[];
@@ -163,6 +169,36 @@ export interface AmberAlertInsert {
   expires_at?: string;
 }
 
+// =============================================================================
+// Alert Area
+// =============================================================================
+
+export interface AmberAreaPoint {
+  lat: number;
+  lng: number;
+}
+
+export type AmberAlertArea =
+  | { type: 'radius'; center: AmberAreaPoint; radius_km: number }
+  | { type: 'polygon'; points: AmberAreaPoint[] }
+  | { type: 'corridor'; points: AmberAreaPoint[]; buffer_km: number; highways?: string[] };
+
+// Widen the area by step_km every every_minutes after issue, up to max_km
+export interface AmberAreaExpansion {
+  step_km: number;
+  every_minutes: number;
+  max_km: number;
+}
+
+export interface AmberReachEstimate {
+  area_km2: number | null;
+  margin_km: number;
+  total: number;
+  by_channel: Partial<Record<AmberDistributionChannel, number>>;
+  // Recipients matched by province because they have no location
+  matched_by_province: number;
+}
+
 // =============================================================================
 // Distribution Record
 // =============================================================================
@@ -231,6 +267,27 @@ export interface AmberDistributionLog {
   created_at: string;
 }
 
+// =============================================================================
+// CAP Message
+// =============================================================================
+
+export interface AmberCapMessage {
+  id: string;
+  amber_alert_id: string;
+  identifier: string;
+  sender: string;
+  sent_at: string;
+  msg_type: 'Alert' | 'Update' | 'Cancel';
+  alert_status: AmberAlertStatus;
+  expires_at: string;
+  xml: string;
+  created_by?: string;
+  created_at: string;
+  // Set once the message may enter the public feed
+  released_at?: string;
+  released_by?: string;
+}
+
 // =============================================================================
 // Media Contact
 // =============================================================================
@@ -320,6 +377,16 @@ export interface DistributionChannelConfig {
 // Distribution Summary
 // =============================================================================
 
+export type AmberFollowUpCounts = Record<AmberFollowUpStatus, number>;
+
+export interface AmberChannelDeliveryStatus {
+  total: number;
+  by_status: Partial<Record<AmberDistributionStatus, number>>;
+  // Update and cancel messages sent after the alert went out
+  follow_ups: Record<AmberFollowUpKind, AmberFollowUpCounts>;
+  last_follow_up_at?: string;
+}
+
 export interface AmberDistributionSummary {
   total: number;
   pending: number;
@@ -329,6 +396,54 @@ export interface AmberDistributionSummary {
   delivered: number;
   failed: number;
   by_channel: Record<AmberDistributionChannel, number>;
+  channels: Partial<Record<AmberDistributionChannel, AmberChannelDeliveryStatus>>;
+}
+
+// =============================================================================
+// Follow-ups
+// =============================================================================
+
+export type AmberFollowUpKind = 'update' | 'cancel';
+
+export type AmberFollowUpStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+export type AmberFollowUpAction =
+  | 'message_sent'
+  | 'post_replied'
+  | 'post_deleted'
+  | 'webhook_sent'
+  | 'partner_notified';
+
+export interface AmberAlertChange {
+  field: string;
+  label: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface AmberFollowUpResult {
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface AmberDistributionFollowUp {
+  id: string;
+  amber_alert_id: string;
+  distribution_id: string;
+  channel: AmberDistributionChannel;
+  kind: AmberFollowUpKind;
+  status: AmberFollowUpStatus;
+  action?: AmberFollowUpAction;
+  // The queued request that sent it; one row per distribution, kind and key
+  follow_up_key?: string;
+  message: string;
+  changes: AmberAlertChange[];
+  external_id?: string;
+  status_message?: string;
+  created_by?: string;
+  created_at: string;
+  sent_at?: string;
 }
 
 // =============================================================================
@@ -368,6 +483,8 @@ export interface DistributeAmberAlertResponse {
 
 export interface CancelAmberAlertRequest {
   reason: string;
+  // The child was found, rather than the alert being called off
+  resolved?: boolean;
 }
 
 // =============================================================================
@@ -3,6 +3,8 @@
  * Types for location-based monitoring zones
  */
 
+import type { GeofenceTriggerConfig } from "./law-enforcement.types";
+
 // =============================================================================
 // Enums
 // =============================================================================
@@ -58,6 +60,7 @@ export interface Geofence {
   priority: AlertPriority;
   status: GeofenceStatus;
   notifyChannels: NotifyChannel[];
+  triggerConfig?: GeofenceTriggerConfig;
 
   // Stats
   alertCount: number;
@@ -79,6 +82,7 @@ export interface GeofenceInput {
   trigger?: AlertTrigger;
   priority?: AlertPriority;
   notifyChannels?: NotifyChannel[];
+  triggerConfig?: GeofenceTriggerConfig;
   expiresAt?: string;
 }
 
@@ -90,6 +94,7 @@ export interface GeofenceUpdateInput {
   priority?: AlertPriority;
   status?: GeofenceStatus;
   notifyChannels?: NotifyChannel[];
+  triggerConfig?: GeofenceTriggerConfig;
   expiresAt?: string;
 }
 
@@ -97,7 +102,7 @@ export interface GeofenceUpdateInput {
 // Alert Types
 // =============================================================================
 
-export type AlertTriggerType = "enter" | "exit";
+export type AlertTriggerType = "enter" | "exit" | "dwell" | "loiter" | "no_movement" | "speed";
 
 export interface GeofenceAlert {
   id: string;
@@ -113,6 +118,8 @@ export interface GeofenceAlert {
   accuracy?: number; // in meters
   source: string;
   deviceId?: string;
+  // Measurements behind behaviour alerts, e.g. dwellMinutes or speedKph
+  details?: Record<string, number>;
 
   // Acknowledgment
   acknowledged: boolean;
@@ -26,3 +26,4 @@ export * from "./partner.types";
 export * from "./amber-alert.types";
 export * from "./analytics.types";
 export * from "./geofence.types";
+export * from "./job-queue.types";
@@ -0,0 +1,124 @@
+/**
+ * Job Queue Types
+ * Background work (AMBER distribution, notification digests, agent runs)
+ * queued in Postgres and processed by leased workers
+ */
+
+// =============================================================================
+// Enums
+// =============================================================================
+
+export type JobType =
+  | 'amber.distribution'
+  | 'amber.follow_ups'
+  | 'notification.digest'
+  | 'tips.cluster_backfill'
+  | 'agent.run';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'dead';
+
+// =============================================================================
+// Job Record
+// =============================================================================
+
+export interface JobAttemptError {
+  attempt: number;
+  message: string;
+  at: string;
+}
+
+export interface Job<TPayload = Record<string, unknown>> {
+  id: string;
+  queue: string;
+  job_type: JobType;
+  payload: TPayload;
+  // Lower runs first, as with case priority levels
+  priority: number;
+  status: JobStatus;
+
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  visibility_timeout_seconds: number;
+
+  // Held by a worker until the lease expires, then claimable again
+  locked_by: string | null;
+  lease_expires_at: string | null;
+
+  idempotency_key: string | null;
+  last_error: string | null;
+  errors: JobAttemptError[];
+  result: Record<string, unknown> | null;
+  // Dead-letter entry this job replays
+  replay_of: string | null;
+
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  updated_at: string;
+}
+
+export interface JobDeadLetter {
+  id: string;
+  job_id: string;
+  queue: string;
+  job_type: JobType;
+  payload: Record<string, unknown>;
+  priority: number;
+  attempts: number;
+  errors: JobAttemptError[];
+  dead_at: string;
+  replayed_at: string | null;
+  replayed_by: string | null;
+  replay_job_id: string | null;
+}
+
+// =============================================================================
+// API Types
+// =============================================================================
+
+export interface EnqueueJobOptions {
+  queue?: string;
+  priority?: number;
+  runAt?: Date;
+  maxAttempts?: number;
+  visibilityTimeoutSeconds?: number;
+  // A second enqueue with the same key returns the first job
+  idempotencyKey?: string;
+}
+
+export interface EnqueueJobResult {
+  job: Job;
+  created: boolean;
+}
+
+export interface JobQueueStats {
+  queue: string;
+  queued: number;
+  running: number;
+  completed: number;
+  dead: number;
+  oldest_queued_at: string | null;
+}
+
+export interface JobWorkerResult {
+  claimed: number;
+  completed: number;
+  retried: number;
+  dead_lettered: number;
+}
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  completed: 'Completed',
+  dead: 'Dead-lettered',
+};
+
+export const JOB_TYPE_LABELS: Record<JobType, string> = {
+  'amber.distribution': 'AMBER distribution',
+  'amber.follow_ups': 'AMBER follow-ups',
+  'notification.digest': 'Notification digest',
+  'tips.cluster_backfill': 'Tip cluster backfill',
+  'agent.run': 'Agent run',
+};
@@ -3,9 +3,13 @@
  * Allows configuration per police service/region
  */
 
+import type { PriorityFactor, PriorityLevel } from "./case.types";
+
 export interface JurisdictionProfile {
   id: string;
   name: string;
+  // Weight set version; built-in profiles are version 1
+  version?: number;
   region: string;
   country: string;
   language: "en" | "fr" | "both";
@@ -55,6 +59,70 @@ export interface PriorityWeightConfig {
   };
 }
 
+export type PriorityWeightKey = Exclude<keyof PriorityWeightConfig, "thresholds">;
+export type PriorityThresholdKey = keyof PriorityWeightConfig["thresholds"];
+
+export const PRIORITY_WEIGHT_LABELS: Record<PriorityWeightKey, string> = {
+  ageUnder12: "Age under 12",
+  age12to17: "Age 12-17",
+  ageOver65: "Age 65+",
+  mentalHealthCondition: "Mental health condition",
+  medicalDependency: "Medical dependency",
+  suicidalRisk: "Suicidal risk",
+  suspectedAbduction: "Suspected abduction",
+  domesticViolenceHistory: "Domestic violence history",
+  outOfCharacter: "Out of character",
+  noFinancialResources: "No financial resources",
+  adverseWeather: "Adverse weather",
+  missingOver24Hours: "Missing 24+ hours",
+  missingOver48Hours: "Missing 48+ hours",
+  missingOver72Hours: "Missing 72+ hours",
+};
+
+export const PRIORITY_THRESHOLD_LABELS: Record<PriorityThresholdKey, string> = {
+  priority0: "Critical (P0)",
+  priority1: "High (P1)",
+  priority2: "Medium (P2)",
+  priority3: "Low (P3)",
+};
+
+// Versioned weight set stored in priority_weight_profiles
+export type PriorityProfileStatus = "draft" | "active" | "retired";
+
+export interface PriorityWeightProfileVersion {
+  id: string;
+  profileKey: string;
+  version: number;
+  name: string;
+  jurisdictionId: string | null;
+  weights: PriorityWeightConfig;
+  status: PriorityProfileStatus;
+  checksum: string;
+  changeNotes: string;
+  createdBy: string | null;
+  createdAt: string;
+  activatedBy: string | null;
+  activatedAt: string | null;
+  retiredAt: string | null;
+}
+
+// Immutable record of a single assessment and the weight set that produced it
+export interface PriorityAssessmentRecord {
+  id: string;
+  caseId: string;
+  profileVersionId: string | null;
+  profileKey: string;
+  profileVersion: number;
+  profileChecksum: string;
+  input: Record<string, unknown>;
+  score: number;
+  level: PriorityLevel;
+  factors: PriorityFactor[];
+  explanation: string[];
+  assessedBy: string | null;
+  assessedAt: string;
+}
+
 export interface JurisdictionIntegrations {
   hospitalRegistry: boolean;
   morgueRegistry: boolean;
@@ -84,6 +152,7 @@ export interface JurisdictionContacts {
 export const QC_SPVM_V1: JurisdictionProfile = {
   id: "qc_spvm_v1",
   name: "Service de police de la Ville de Montréal",
+  version: 1,
   region: "Montreal",
   country: "Canada",
   language: "both",
@@ -141,6 +210,7 @@ export const QC_SPVM_V1: JurisdictionProfile = {
 export const GENERIC_PROFILE: JurisdictionProfile = {
   id: "generic",
   name: "Generic Profile",
+  version: 1,
   region: "Unknown",
   country: "Unknown",
   language: "en",
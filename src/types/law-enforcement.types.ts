@@ -156,8 +156,23 @@ export interface Geofence {
   createdAt: string;
   expiresAt?: string;
   notifications: GeofenceNotification[];
+  triggerConfig?: GeofenceTriggerConfig;
 }
 
+// Behaviour triggers evaluated alongside entry/exit; each is off when absent
+export interface GeofenceTriggerConfig {
+  // Inside the fence for at least this long
+  dwell?: { minutes: number };
+  // Within bandMeters of the fence boundary, on either side, for this long
+  loiter?: { bandMeters: number; minutes: number };
+  // Inside the fence without moving more than radiusMeters for this long
+  noMovement?: { radiusMeters: number; minutes: number };
+  // Speed between consecutive fixes inside the fence above maxKph
+  speed?: { maxKph: number };
+}
+
+export type GeofenceAlertType = "entry" | "exit" | "dwell" | "loiter" | "no_movement" | "speed";
+
 export type GeofenceGeometry =
   | { type: "circle"; center: { lat: number; lng: number }; radiusMeters: number }
   | { type: "polygon"; points: Array<{ lat: number; lng: number }> }
@@ -173,7 +188,7 @@ export interface GeofenceAlert {
   id: string;
   geofenceId: string;
   caseId: string;
-  alertType: "entry" | "exit";
+  alertType: GeofenceAlertType;
   triggeredAt: string;
   location: {
     lat: number;
@@ -181,6 +196,8 @@ export interface GeofenceAlert {
     accuracy?: number;
   };
   deviceId?: string;
+  // Measurements behind behaviour alerts, e.g. dwellMinutes or speedKph
+  details?: Record<string, number>;
   acknowledged: boolean;
   acknowledgedBy?: string;
   acknowledgedAt?: string;
@@ -416,6 +433,7 @@ export interface SearchParty {
     type: "polygon" | "grid";
     geometry: Array<{ lat: number; lng: number }>;
     sectors?: SearchSector[];
+    plan?: SearchPlanSummary;
   };
 
   // Schedule
@@ -445,6 +463,9 @@ export interface SearchParty {
   emergencyContact: string;
   weatherConditions?: string;
 
+  // Width of ground one searcher reliably covers, for coverage and POD
+  sweepWidthMeters?: number;
+
   // Results
   findings: SearchFinding[];
 
@@ -452,17 +473,95 @@ export interface SearchParty {
   updatedAt: string;
 }
 
+// Lost person behaviour categories with distance statistics for planning
+export type LostPersonCategory = "child" | "dementia" | "despondent" | "hiker";
+
+export interface SearchPlanSummary {
+  // Without a category every part of the area is equally likely
+  category?: LostPersonCategory;
+  lastKnownPoint?: { lat: number; lng: number };
+  // Cumulative probability the person is within each radius of the last known point
+  rings: Array<{ probability: number; radiusKm: number }>;
+  sectorAreaKm2: number;
+  // Probability the person is inside the search area at all
+  coveredProbability: number;
+}
+
 export interface SearchSector {
   id: string;
   name: string;
   geometry: Array<{ lat: number; lng: number }>;
+  // 1 is searched first: highest probability density
   priority: number;
+  areaKm2?: number;
+  // Probability of area: chance the person is in this sector
+  poa?: number;
+  // POA per km², so small clipped sectors compete fairly
+  probabilityDensity?: number;
+  // Share of the sector swept by uploaded GPS tracks
+  coverage?: number;
+  // Cumulative probability of detection from every sweep so far
+  pod?: number;
   status: "unassigned" | "assigned" | "in_progress" | "completed";
   assignedTeam?: string;
   completedAt?: string;
   findings: string[];
 }
 
+export interface VolunteerTrackPoint {
+  lat: number;
+  lng: number;
+  timestamp: string;
+  accuracy?: number;
+}
+
+// One volunteer's GPS track for one stint in the field
+export interface VolunteerTrack {
+  id: string;
+  searchPartyId: string;
+  volunteerId: string;
+  sectorId?: string;
+  points: VolunteerTrackPoint[];
+  // Overrides the party's sweep width, e.g. for a dog team
+  sweepWidthMeters?: number;
+  uploadedAt: string;
+  // Set by the offline field app so a retried upload is not counted twice
+  clientId?: string;
+}
+
+export interface SectorCoverage {
+  sectorId: string;
+  sectorName: string;
+  areaKm2: number;
+  coverage: number;
+  pod: number;
+  poa?: number;
+  // POA left after the sweeps so far: POA x (1 - POD)
+  remainingPoa?: number;
+  needsResearch: boolean;
+  // Passes per cell, row-major from the north-west corner, -1 outside the sector
+  heat: {
+    rows: number;
+    columns: number;
+    north: number;
+    south: number;
+    east: number;
+    west: number;
+    passes: number[];
+  };
+}
+
+export interface SearchCoverageReport {
+  searchPartyId: string;
+  sweepWidthMeters: number;
+  targetPod: number;
+  trackCount: number;
+  sectors: SectorCoverage[];
+  // Sectors below the target POD, most remaining probability first
+  researchOrder: string[];
+  generatedAt: string;
+}
+
 export interface SearchVolunteer {
   id: string;
   userId?: string;
@@ -496,6 +595,27 @@ export interface SearchFinding {
   verifiedBy?: string;
   followUpRequired: boolean;
   followUpNotes?: string;
+  // Set by the offline field app so a retried report is not stored twice
+  clientId?: string;
+}
+
+// Everything a volunteer needs to keep searching without a connection
+export interface FieldSearchPack {
+  searchPartyId: string;
+  caseId: string;
+  name: string;
+  status: SearchParty["status"];
+  searchArea: Array<{ lat: number; lng: number }>;
+  sectors: SearchSector[];
+  // The requesting volunteer's assignment, when they are registered
+  volunteerId?: string;
+  teamAssignment?: string;
+  sectorAssignment?: string;
+  meetingPoint: SearchParty["meetingPoint"];
+  safetyBriefing: string;
+  emergencyContact: string;
+  sweepWidthMeters?: number;
+  generatedAt: string;
 }
 
 // Voice Command Types
@@ -134,6 +134,36 @@ export interface TipsterProfileSummary {
   isBlocked: boolean;
 }
 
+// Reviewer decisions that feed the tipster reliability model
+export type TipsterOutcomeType = 'verified' | 'hoax' | 'duplicate' | 'spam';
+
+export type TipsterTierTransitionTrigger = 'review_outcome' | 'manual';
+
+export interface TipsterOutcome {
+  id: string;
+  tipsterProfileId: string;
+  tipId: string;
+  verificationId?: string;
+  outcome: TipsterOutcomeType;
+  reviewedBy?: string;
+  reviewedAt: string;
+}
+
+export interface TipsterTierTransition {
+  id: string;
+  tipsterProfileId: string;
+  fromTier: TipsterReliabilityTier;
+  toTier: TipsterReliabilityTier;
+  fromScore: number;
+  toScore: number;
+  trigger: TipsterTierTransitionTrigger;
+  tipId?: string;
+  // Plain-language reasons recorded when the transition happened
+  reasons: string[];
+  actorId?: string;
+  createdAt: string;
+}
+
 // =============================================================================
 // TIP VERIFICATION
 // =============================================================================
@@ -216,6 +246,9 @@ export interface TipVerification {
   reviewerNotes?: string;
   reviewerOverrideScore?: number;
 
+  // Pipeline diagnostics
+  stageTimings?: TipVerifierStageTiming[];
+
   verifiedAt?: string;
   createdAt: string;
   updatedAt: string;
@@ -240,6 +273,17 @@ export interface PhotoMetadata {
   originalFilename?: string;
   fileSize?: number;
   dimensions?: { width: number; height: number };
+  // Set when read from the image bytes rather than supplied by the client
+  format?: 'jpeg' | 'png' | 'heic';
+  hasXmp?: boolean;
+  cameraMake?: string;
+  cameraModel?: string;
+  timestampSource?: 'gps' | 'exif_original' | 'exif_digitized' | 'xmp';
+  // False when the camera clock had no zone and timestamp is wall-clock time
+  timestampHasZone?: boolean;
+  modifiedAt?: string;
+  editMarkers?: string[];
+  thumbnailMismatch?: boolean;
 }
 
 // =============================================================================
@@ -421,6 +465,7 @@ export interface QueueItemWithDetails extends VerificationQueueItem {
   verification?: TipVerification;
   tipsterProfile?: TipsterProfileSummary;
   case: CaseSummary;
+  cluster?: TipClusterRef;
 }
 
 export interface TipSummary {
@@ -476,6 +521,7 @@ export interface TipVerificationResult {
   autoActions: AutomatedAction[];
   warnings: VerificationWarning[];
   suggestions: string[];
+  stageTimings: TipVerifierStageTiming[];
 }
 
 export interface AutomatedAction {
@@ -486,12 +532,91 @@ export interface AutomatedAction {
 }
 
 export interface VerificationWarning {
-  type: 'hoax' | 'spam' | 'duplicate' | 'low_credibility' | 'blocked_tipster';
+  type: 'hoax' | 'spam' | 'duplicate' | 'low_credibility' | 'blocked_tipster' | 'stage_failure';
   severity: 'low' | 'medium' | 'high' | 'critical';
   message: string;
   details?: Record<string, unknown>;
 }
 
+// =============================================================================
+// VERIFIER STAGES
+// =============================================================================
+
+export type TipVerifierStageStatus =
+  | 'completed'
+  | 'skipped'
+  | 'disabled'
+  | 'timed_out'
+  | 'failed';
+
+export interface TipVerifierStageTiming {
+  stageId: string;
+  name: string;
+  status: TipVerifierStageStatus;
+  durationMs: number;
+  weight: number;
+  score?: number;
+  error?: string;
+}
+
+/**
+ * Agency override for a registered verifier stage. A null jurisdiction
+ * applies everywhere; a jurisdiction row wins over the global one.
+ */
+export interface TipVerifierStageSetting {
+  id: string;
+  stageId: string;
+  jurisdictionId?: string;
+  enabled: boolean;
+  weight?: number;
+  timeoutMs?: number;
+  updatedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// =============================================================================
+// TIP CLUSTERS
+// =============================================================================
+
+export type TipClusterStatus = 'active' | 'merged';
+
+export type TipClusterEventType = 'created' | 'tip_added' | 'merged' | 'split';
+
+export interface TipCluster {
+  id: string;
+  caseId: string;
+  status: TipClusterStatus;
+  mergedInto?: string;
+  memberCount: number;
+  centroidLatitude?: number;
+  centroidLongitude?: number;
+  firstOccurredAt?: string;
+  lastOccurredAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TipClusterEvent {
+  id: string;
+  caseId: string;
+  clusterId: string;
+  eventType: TipClusterEventType;
+  tipIds: string[];
+  relatedClusterIds: string[];
+  actorId?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+// Cluster membership shown alongside a queue item
+export interface TipClusterRef {
+  clusterId: string;
+  memberCount: number;
+  matchScore?: number;
+  assignedBy: 'auto' | 'reviewer';
+}
+
 // =============================================================================
 // ANALYTICS & STATISTICS
 // =============================================================================
@@ -651,6 +776,7 @@ export function mapTipVerificationFromDb(data: Record<string, unknown>): TipVeri
     reviewedAt: data.reviewed_at as string | undefined,
     reviewerNotes: data.reviewer_notes as string | undefined,
     reviewerOverrideScore: data.reviewer_override_score as number | undefined,
+    stageTimings: (data.stage_timings as TipVerifierStageTiming[] | null) || undefined,
     verifiedAt: data.verified_at as string | undefined,
     createdAt: data.created_at as string,
     updatedAt: data.updated_at as string,
@@ -714,3 +840,127 @@ export function mapVerificationQueueItemFromDb(data: Record<string, unknown>): V
     updatedAt: data.updated_at as string,
   };
 }
+
+export function mapTipVerifierStageSettingFromDb(
+  data: Record<string, unknown>
+): TipVerifierStageSetting {
+  return {
+    id: data.id as string,
+    stageId: data.stage_id as string,
+    jurisdictionId: (data.jurisdiction_id as string) || undefined,
+    enabled: data.enabled as boolean,
+    weight: (data.weight as number | null) ?? undefined,
+    timeoutMs: (data.timeout_ms as number | null) ?? undefined,
+    updatedBy: (data.updated_by as string) || undefined,
+    createdAt: data.created_at as string,
+    updatedAt: data.updated_at as string,
+  };
+}
+
+export function mapTipClusterFromDb(data: Record<string, unknown>): TipCluster {
+  return {
+    id: data.id as string,
+    caseId: data.case_id as string,
+    status: data.status as TipClusterStatus,
+    mergedInto: data.merged_into as string | undefined,
+    memberCount: data.member_count as number,
+    centroidLatitude: data.centroid_latitude as number | undefined,
+    centroidLongitude: data.centroid_longitude as number | undefined,
+    firstOccurredAt: data.first_occurred_at as string | undefined,
+    lastOccurredAt: data.last_occurred_at as string | undefined,
+    createdAt: data.created_at as string,
+    updatedAt: data.updated_at as string,
+  };
+}
+
+export function mapTipClusterEventFromDb(data: Record<string, unknown>): TipClusterEvent {
+  return {
+    id: data.id as string,
+    caseId: data.case_id as string,
+    clusterId: data.cluster_id as string,
+    eventType: data.event_type as TipClusterEventType,
+    tipIds: (data.tip_ids as string[]) || [],
+    relatedClusterIds: (data.related_cluster_ids as string[]) || [],
+    actorId: data.actor_id as string | undefined,
+    notes: data.notes as string | undefined,
+    createdAt: data.created_at as string,
+  };
+}
+
+// Rule actions were seeded in snake_case; the editor writes the same shape
+const RULE_ACTION_DB_KEYS: Record<keyof RuleAction, string> = {
+  scoreModifier: 'score_modifier',
+  setStatus: 'set_status',
+  setPriority: 'set_priority',
+  spamScoreAdd: 'spam_score_add',
+  requireReview: 'require_review',
+  reviewPriority: 'review_priority',
+  autoTriage: 'auto_triage',
+  slaHours: 'sla_hours',
+  sendFollowUp: 'send_follow_up',
+  followUpType: 'follow_up_type',
+};
+
+export function mapRuleActionFromDb(data: Record<string, unknown>): RuleAction {
+  const action: Record<string, unknown> = {};
+  for (const [key, dbKey] of Object.entries(RULE_ACTION_DB_KEYS)) {
+    const value = data[dbKey] ?? data[key];
+    if (value !== undefined && value !== null) action[key] = value;
+  }
+  return action as RuleAction;
+}
+
+export function mapRuleActionToDb(action: RuleAction): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  for (const [key, dbKey] of Object.entries(RULE_ACTION_DB_KEYS)) {
+    const value = action[key as keyof RuleAction];
+    if (value !== undefined) data[dbKey] = value;
+  }
+  return data;
+}
+
+export function mapVerificationRuleFromDb(data: Record<string, unknown>): VerificationRule {
+  return {
+    id: data.id as string,
+    name: data.name as string,
+    description: data.description as string | undefined,
+    ruleType: data.rule_type as VerificationRule['ruleType'],
+    conditions: data.conditions as RuleCondition,
+    actions: mapRuleActionFromDb((data.actions as Record<string, unknown>) || {}),
+    scoreWeight: data.score_weight as number,
+    isActive: data.is_active as boolean,
+    jurisdictionId: data.jurisdiction_id as string | undefined,
+    createdBy: data.created_by as string | undefined,
+    updatedBy: data.updated_by as string | undefined,
+    createdAt: data.created_at as string,
+    updatedAt: data.updated_at as string,
+  };
+}
+
+export function mapTipsterOutcomeFromDb(data: Record<string, unknown>): TipsterOutcome {
+  return {
+    id: data.id as string,
+    tipsterProfileId: data.tipster_profile_id as string,
+    tipId: data.tip_id as string,
+    verificationId: data.verification_id as string | undefined,
+    outcome: data.outcome as TipsterOutcomeType,
+    reviewedBy: data.reviewed_by as string | undefined,
+    reviewedAt: data.reviewed_at as string,
+  };
+}
+
+export function mapTipsterTierTransitionFromDb(data: Record<string, unknown>): TipsterTierTransition {
+  return {
+    id: data.id as string,
+    tipsterProfileId: data.tipster_profile_id as string,
+    fromTier: data.from_tier as TipsterReliabilityTier,
+    toTier: data.to_tier as TipsterReliabilityTier,
+    fromScore: data.from_score as number,
+    toScore: data.to_score as number,
+    trigger: data.trigger as TipsterTierTransitionTrigger,
+    tipId: data.tip_id as string | undefined,
+    reasons: (data.reasons as string[]) || [],
+    actorId: data.actor_id as string | undefined,
+    createdAt: data.created_at as string,
+  };
+}
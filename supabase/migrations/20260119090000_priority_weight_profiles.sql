@@ -0,0 +1,200 @@
+-- =============================================================================
+-- Versioned Jurisdiction Priority Weight Profiles
+-- Stores auditable priority weight sets and the assessments they produced
+-- =============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'priority_profile_status') THEN
+    CREATE TYPE priority_profile_status AS ENUM ('draft', 'active', 'retired');
+  END IF;
+END $$;
+
+-- =============================================================================
+-- Weight Profile Versions
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS priority_weight_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_key TEXT NOT NULL, -- e.g., "qc_spvm_v1", "generic"
+  version INTEGER NOT NULL CHECK (version > 0),
+  name TEXT NOT NULL,
+  jurisdiction_id UUID REFERENCES jurisdictions(id) ON DELETE SET NULL,
+
+  -- PriorityWeightConfig, validated in the application before insert
+  weights JSONB NOT NULL,
+  checksum TEXT NOT NULL, -- SHA-256 of the canonical weights JSON
+
+  status priority_profile_status NOT NULL DEFAULT 'draft',
+  change_notes TEXT NOT NULL,
+
+  created_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  activated_by UUID REFERENCES profiles(id),
+  activated_at TIMESTAMPTZ,
+  retired_at TIMESTAMPTZ,
+
+  UNIQUE (profile_key, version)
+);
+
+-- Only one active version per profile key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_priority_weight_profiles_one_active
+  ON priority_weight_profiles(profile_key)
+  WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_priority_weight_profiles_jurisdiction
+  ON priority_weight_profiles(jurisdiction_id);
+
+-- Weights are immutable once written; only lifecycle columns may change
+CREATE OR REPLACE FUNCTION enforce_priority_profile_immutability()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status <> 'draft' THEN
+      RAISE EXCEPTION 'Priority profile % v% has been used and cannot be deleted', OLD.profile_key, OLD.version;
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.weights IS DISTINCT FROM OLD.weights
+    OR NEW.checksum IS DISTINCT FROM OLD.checksum
+    OR NEW.profile_key IS DISTINCT FROM OLD.profile_key
+    OR NEW.version IS DISTINCT FROM OLD.version THEN
+    RAISE EXCEPTION 'Priority profile weights are immutable; create a new version instead';
+  END IF;
+
+  IF OLD.status = 'retired' AND NEW.status <> 'retired' THEN
+    RAISE EXCEPTION 'Retired priority profiles cannot be reactivated; create a new version instead';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_priority_profile_immutability ON priority_weight_profiles;
+
+CREATE TRIGGER enforce_priority_profile_immutability
+  BEFORE UPDATE OR DELETE ON priority_weight_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_priority_profile_immutability();
+
+-- =============================================================================
+-- Assessment History
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS priority_assessments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+
+  -- Weight set that produced this score (snapshot kept for replay)
+  profile_version_id UUID REFERENCES priority_weight_profiles(id),
+  profile_key TEXT NOT NULL,
+  profile_version INTEGER NOT NULL,
+  profile_checksum TEXT NOT NULL,
+
+  input JSONB NOT NULL,
+  score INTEGER NOT NULL,
+  level INTEGER NOT NULL CHECK (level BETWEEN 0 AND 4),
+  factors JSONB NOT NULL DEFAULT '[]',
+  explanation JSONB NOT NULL DEFAULT '[]',
+
+  assessed_by UUID REFERENCES profiles(id),
+  assessed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_priority_assessments_case
+  ON priority_assessments(case_id, assessed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_priority_assessments_profile
+  ON priority_assessments(profile_key, profile_version);
+
+CREATE OR REPLACE FUNCTION prevent_priority_assessment_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Priority assessments are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_priority_assessment_changes ON priority_assessments;
+
+CREATE TRIGGER prevent_priority_assessment_changes
+  BEFORE UPDATE OR DELETE ON priority_assessments
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_priority_assessment_changes();
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE priority_weight_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE priority_assessments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY priority_profiles_le_select ON priority_weight_profiles
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY priority_profiles_admin_insert ON priority_weight_profiles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'developer')
+    )
+  );
+
+CREATE POLICY priority_profiles_admin_update ON priority_weight_profiles
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'developer')
+    )
+  );
+
+CREATE POLICY priority_assessments_le_select ON priority_assessments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY priority_assessments_le_insert ON priority_assessments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+-- =============================================================================
+-- Seed: built-in profiles as version 1
+-- Checksums are SHA-256 of the key-sorted weights JSON (see priority-profile-service)
+-- =============================================================================
+
+INSERT INTO priority_weight_profiles (profile_key, version, name, jurisdiction_id, weights, checksum, status, change_notes, activated_at) VALUES
+  ('qc_spvm_v1', 1, 'Service de police de la Ville de Montréal',
+   (SELECT id FROM jurisdictions WHERE code = 'SPVM'),
+   '{"ageUnder12": 30, "age12to17": 20, "ageOver65": 15, "mentalHealthCondition": 25, "medicalDependency": 30, "suicidalRisk": 35, "suspectedAbduction": 40, "domesticViolenceHistory": 25, "outOfCharacter": 15, "noFinancialResources": 10, "adverseWeather": 10, "missingOver24Hours": 10, "missingOver48Hours": 20, "missingOver72Hours": 30, "thresholds": {"priority0": 80, "priority1": 60, "priority2": 40, "priority3": 20}}',
+   '47553afcb41223a7b2761bb10e0afb235c2e3d4fe967a67ec2701eea30340616',
+   'active', 'Initial import of built-in SPVM weights', NOW()),
+  ('generic', 1, 'Generic Profile', NULL,
+   '{"ageUnder12": 25, "age12to17": 15, "ageOver65": 10, "mentalHealthCondition": 20, "medicalDependency": 25, "suicidalRisk": 30, "suspectedAbduction": 35, "domesticViolenceHistory": 20, "outOfCharacter": 10, "noFinancialResources": 5, "adverseWeather": 5, "missingOver24Hours": 5, "missingOver48Hours": 15, "missingOver72Hours": 25, "thresholds": {"priority0": 75, "priority1": 55, "priority2": 35, "priority3": 15}}',
+   '8a7ed2095600d20b18e5f2576f5780c6d11e77eb3576310c4eaa0fdfe4ebfeae',
+   'active', 'Initial import of built-in generic weights', NOW())
+ON CONFLICT (profile_key, version) DO NOTHING;
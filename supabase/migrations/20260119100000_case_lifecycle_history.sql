@@ -0,0 +1,133 @@
+-- =============================================================================
+-- Case Lifecycle History
+-- Immutable record of every lifecycle transition and the side effects it ran
+-- =============================================================================
+
+-- Reason and actor for the most recent transition; copied into history by trigger
+ALTER TABLE cases
+  ADD COLUMN IF NOT EXISTS lifecycle_reason_code TEXT,
+  ADD COLUMN IF NOT EXISTS lifecycle_reason_notes TEXT,
+  ADD COLUMN IF NOT EXISTS lifecycle_changed_by UUID REFERENCES profiles(id),
+  ADD COLUMN IF NOT EXISTS lifecycle_changed_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS case_lifecycle_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  from_status case_lifecycle_status,
+  to_status case_lifecycle_status NOT NULL,
+  reason_code TEXT NOT NULL DEFAULT 'unspecified',
+  notes TEXT,
+  changed_by UUID REFERENCES profiles(id),
+  changed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_case_lifecycle_history_case
+  ON case_lifecycle_history(case_id, changed_at DESC);
+
+CREATE TABLE IF NOT EXISTS case_lifecycle_side_effects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  history_id UUID NOT NULL REFERENCES case_lifecycle_history(id) ON DELETE CASCADE,
+  effect TEXT NOT NULL, -- cancel_amber_distributions, deactivate_geofences, notify_family_liaison
+  status TEXT NOT NULL CHECK (status IN ('completed', 'skipped', 'failed')),
+  detail TEXT,
+  executed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_case_lifecycle_side_effects_history
+  ON case_lifecycle_side_effects(history_id);
+
+-- Every lifecycle change is recorded, including updates made outside the API
+CREATE OR REPLACE FUNCTION record_case_lifecycle_history()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.lifecycle_status IS NOT DISTINCT FROM OLD.lifecycle_status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Reason metadata only counts when the same update stamped lifecycle_changed_at
+  IF NEW.lifecycle_changed_at IS DISTINCT FROM OLD.lifecycle_changed_at THEN
+    INSERT INTO case_lifecycle_history (case_id, from_status, to_status, reason_code, notes, changed_by)
+    VALUES (
+      NEW.id,
+      OLD.lifecycle_status,
+      NEW.lifecycle_status,
+      COALESCE(NEW.lifecycle_reason_code, 'unspecified'),
+      NEW.lifecycle_reason_notes,
+      COALESCE(NEW.lifecycle_changed_by, auth.uid())
+    );
+  ELSE
+    INSERT INTO case_lifecycle_history (case_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, OLD.lifecycle_status, NEW.lifecycle_status, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_case_lifecycle_history ON cases;
+
+CREATE TRIGGER record_case_lifecycle_history
+  AFTER UPDATE OF lifecycle_status ON cases
+  FOR EACH ROW
+  EXECUTE FUNCTION record_case_lifecycle_history();
+
+CREATE OR REPLACE FUNCTION prevent_case_lifecycle_history_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Case lifecycle history is immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_case_lifecycle_history_changes ON case_lifecycle_history;
+
+CREATE TRIGGER prevent_case_lifecycle_history_changes
+  BEFORE UPDATE OR DELETE ON case_lifecycle_history
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_case_lifecycle_history_changes();
+
+DROP TRIGGER IF EXISTS prevent_case_lifecycle_side_effect_changes ON case_lifecycle_side_effects;
+
+CREATE TRIGGER prevent_case_lifecycle_side_effect_changes
+  BEFORE UPDATE OR DELETE ON case_lifecycle_side_effects
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_case_lifecycle_history_changes();
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE case_lifecycle_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE case_lifecycle_side_effects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY case_lifecycle_history_le_select ON case_lifecycle_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY case_lifecycle_side_effects_le_select ON case_lifecycle_side_effects
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY case_lifecycle_side_effects_le_insert ON case_lifecycle_side_effects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
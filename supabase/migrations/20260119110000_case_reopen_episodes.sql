@@ -0,0 +1,263 @@
+-- =============================================================================
+-- Case Reopening and Episodes
+-- Supervised reopen path out of "closed": a dual-authorized request starts a
+-- new episode linked to the prior one, carrying forward selected work items
+-- =============================================================================
+
+ALTER TABLE cases
+  ADD COLUMN IF NOT EXISTS current_episode_number INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS lifecycle_reopen_request_id UUID;
+
+-- One row per open/close cycle of a case
+CREATE TABLE IF NOT EXISTS case_episodes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  episode_number INTEGER NOT NULL CHECK (episode_number >= 1),
+  previous_episode_id UUID REFERENCES case_episodes(id),
+  reopen_request_id UUID,
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_at TIMESTAMPTZ,
+  closing_reason_code TEXT,
+  disposition case_disposition,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (case_id, episode_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_case_episodes_case ON case_episodes(case_id, episode_number DESC);
+
+CREATE TABLE IF NOT EXISTS case_reopen_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  closed_episode_id UUID NOT NULL REFERENCES case_episodes(id),
+  reason_code TEXT NOT NULL,
+  justification TEXT NOT NULL,
+  -- { "evidenceIds": [], "leadIds": [], "geofenceIds": [] }
+  carry_forward JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'executed')),
+  requested_by UUID NOT NULL REFERENCES profiles(id),
+  requested_at TIMESTAMPTZ DEFAULT NOW(),
+  reviewed_by UUID REFERENCES profiles(id),
+  reviewed_at TIMESTAMPTZ,
+  review_notes TEXT,
+  executed_at TIMESTAMPTZ,
+  new_episode_id UUID REFERENCES case_episodes(id),
+  -- Dual authorization: the approver can never be the requester
+  CONSTRAINT case_reopen_requests_dual_authorization
+    CHECK (reviewed_by IS NULL OR reviewed_by <> requested_by)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_case_reopen_requests_one_open
+  ON case_reopen_requests(case_id)
+  WHERE status IN ('pending', 'approved');
+
+CREATE INDEX IF NOT EXISTS idx_case_reopen_requests_case
+  ON case_reopen_requests(case_id, requested_at DESC);
+
+ALTER TABLE case_episodes
+  DROP CONSTRAINT IF EXISTS case_episodes_reopen_request_id_fkey;
+
+ALTER TABLE case_episodes
+  ADD CONSTRAINT case_episodes_reopen_request_id_fkey
+  FOREIGN KEY (reopen_request_id) REFERENCES case_reopen_requests(id);
+
+-- Items selected to follow the case into a new episode
+CREATE TABLE IF NOT EXISTS case_episode_carryovers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  episode_id UUID NOT NULL REFERENCES case_episodes(id) ON DELETE CASCADE,
+  from_episode_id UUID NOT NULL REFERENCES case_episodes(id),
+  item_type TEXT NOT NULL CHECK (item_type IN ('evidence', 'lead', 'geofence')),
+  item_id UUID NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (episode_id, item_type, item_id)
+);
+
+-- Every existing case starts on episode 1
+INSERT INTO case_episodes (case_id, episode_number, opened_at, closed_at, disposition)
+SELECT
+  c.id,
+  1,
+  c.created_at,
+  CASE WHEN c.lifecycle_status = 'closed' THEN COALESCE(c.lifecycle_changed_at, c.updated_at) END,
+  CASE WHEN c.lifecycle_status = 'closed' THEN c.disposition END
+FROM cases c
+ON CONFLICT (case_id, episode_number) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION create_initial_case_episode()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO case_episodes (case_id, episode_number, opened_at)
+  VALUES (NEW.id, 1, COALESCE(NEW.created_at, NOW()))
+  ON CONFLICT (case_id, episode_number) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS create_initial_case_episode ON cases;
+
+CREATE TRIGGER create_initial_case_episode
+  AFTER INSERT ON cases
+  FOR EACH ROW
+  EXECUTE FUNCTION create_initial_case_episode();
+
+-- Closing a case closes its current episode with the disposition at that time
+CREATE OR REPLACE FUNCTION close_current_case_episode()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.lifecycle_status = 'closed' AND OLD.lifecycle_status IS DISTINCT FROM 'closed' THEN
+    UPDATE case_episodes
+    SET
+      closed_at = NOW(),
+      closing_reason_code = CASE
+        WHEN NEW.lifecycle_changed_at IS DISTINCT FROM OLD.lifecycle_changed_at
+          THEN NEW.lifecycle_reason_code
+      END,
+      disposition = NEW.disposition
+    WHERE case_id = NEW.id
+      AND episode_number = NEW.current_episode_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS close_current_case_episode ON cases;
+
+CREATE TRIGGER close_current_case_episode
+  AFTER UPDATE OF lifecycle_status ON cases
+  FOR EACH ROW
+  EXECUTE FUNCTION close_current_case_episode();
+
+-- Closed cases may only move back to open through an approved reopen request
+CREATE OR REPLACE FUNCTION enforce_case_lifecycle_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.lifecycle_status IS NULL OR OLD.lifecycle_status IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.lifecycle_status = OLD.lifecycle_status THEN
+    RETURN NEW;
+  END IF;
+
+  CASE OLD.lifecycle_status
+    WHEN 'open' THEN
+      IF NEW.lifecycle_status NOT IN ('inactive', 'cold', 'closed') THEN
+        RAISE EXCEPTION 'Invalid lifecycle transition from % to %', OLD.lifecycle_status, NEW.lifecycle_status;
+      END IF;
+    WHEN 'inactive' THEN
+      IF NEW.lifecycle_status NOT IN ('cold', 'revived', 'closed') THEN
+        RAISE EXCEPTION 'Invalid lifecycle transition from % to %', OLD.lifecycle_status, NEW.lifecycle_status;
+      END IF;
+    WHEN 'cold' THEN
+      IF NEW.lifecycle_status NOT IN ('revived', 'closed') THEN
+        RAISE EXCEPTION 'Invalid lifecycle transition from % to %', OLD.lifecycle_status, NEW.lifecycle_status;
+      END IF;
+    WHEN 'revived' THEN
+      IF NEW.lifecycle_status NOT IN ('inactive', 'closed') THEN
+        RAISE EXCEPTION 'Invalid lifecycle transition from % to %', OLD.lifecycle_status, NEW.lifecycle_status;
+      END IF;
+    WHEN 'closed' THEN
+      IF NEW.lifecycle_status <> 'open' THEN
+        RAISE EXCEPTION 'Closed cases cannot transition to %', NEW.lifecycle_status;
+      END IF;
+      IF NEW.lifecycle_reopen_request_id IS NOT DISTINCT FROM OLD.lifecycle_reopen_request_id
+        OR NOT EXISTS (
+          SELECT 1 FROM case_reopen_requests
+          WHERE id = NEW.lifecycle_reopen_request_id
+          AND case_id = NEW.id
+          AND status = 'approved'
+        ) THEN
+        RAISE EXCEPTION 'Reopening a closed case requires an approved reopen request';
+      END IF;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_case_reopen_requests_guard()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Decided requests only move forward to executed
+  IF OLD.status IN ('rejected', 'executed') THEN
+    RAISE EXCEPTION 'Reopen request % is already %', OLD.id, OLD.status;
+  END IF;
+  IF OLD.status = 'approved' AND NEW.status <> 'executed' THEN
+    RAISE EXCEPTION 'Approved reopen requests can only be executed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_case_reopen_requests_guard ON case_reopen_requests;
+
+CREATE TRIGGER update_case_reopen_requests_guard
+  BEFORE UPDATE ON case_reopen_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_case_reopen_requests_guard();
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE case_episodes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE case_reopen_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE case_episode_carryovers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY case_episodes_le_all ON case_episodes
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY case_episode_carryovers_le_all ON case_episode_carryovers
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY case_reopen_requests_le_select ON case_reopen_requests
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY case_reopen_requests_le_insert ON case_reopen_requests
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    requested_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+-- Only supervisors (admins) review and execute reopen requests
+CREATE POLICY case_reopen_requests_supervisor_update ON case_reopen_requests
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'developer')
+    )
+  );
@@ -0,0 +1,50 @@
+-- =============================================================================
+-- Tip Verifier Stage Settings
+-- Agency overrides for the pluggable stages of the tip verification pipeline
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS tip_verifier_stage_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Registered stage id, e.g. 'photo_metadata' or an agency stage like 'local_gazetteer'
+  stage_id TEXT NOT NULL,
+
+  -- NULL applies to every jurisdiction; a jurisdiction row wins over it
+  jurisdiction_id UUID REFERENCES jurisdictions(id) ON DELETE CASCADE,
+
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  weight NUMERIC(5, 3) CHECK (weight IS NULL OR weight >= 0),
+  timeout_ms INTEGER CHECK (timeout_ms IS NULL OR timeout_ms > 0),
+
+  -- Audit
+  updated_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tip_verifier_stage_settings_scope
+  ON tip_verifier_stage_settings(stage_id, COALESCE(jurisdiction_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+-- Per-stage status and timings from the run that produced the verification
+ALTER TABLE tip_verifications
+  ADD COLUMN IF NOT EXISTS stage_timings JSONB DEFAULT '[]'::jsonb;
+
+ALTER TABLE tip_verifier_stage_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can manage verifier stage settings" ON tip_verifier_stage_settings
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+      AND p.role IN ('admin', 'developer')
+    )
+  );
+
+CREATE POLICY "LE can view verifier stage settings" ON tip_verifier_stage_settings
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+      AND p.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
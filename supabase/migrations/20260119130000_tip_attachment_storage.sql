@@ -0,0 +1,49 @@
+-- =============================================================================
+-- Tip Attachment Storage
+-- Private bucket for tip photos; metadata is extracted from the bytes on upload
+-- =============================================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('tip-attachments', 'tip-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Storage location and when server-side extraction ran
+ALTER TABLE tip_attachments
+  ADD COLUMN IF NOT EXISTS storage_path TEXT,
+  ADD COLUMN IF NOT EXISTS metadata_extracted_at TIMESTAMPTZ;
+
+-- Tipsters submit photos with their tip; only investigators read them back
+CREATE POLICY "tip_attachments_storage_write"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'tip-attachments');
+
+CREATE POLICY "tip_attachments_storage_read"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'tip-attachments'
+    AND EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY "tip_attachments_storage_delete"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'tip-attachments'
+    AND (
+      owner = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM profiles p
+        WHERE p.id = auth.uid()
+          AND p.role IN ('admin', 'developer')
+      )
+    )
+  );
@@ -0,0 +1,108 @@
+-- =============================================================================
+-- Tip Clusters
+-- Persistent MinHash/LSH index grouping related tips per case into sighting
+-- clusters that reviewers can merge and split
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS tip_clusters (
+  id UUID PRIMARY KEY,
+  case_id UUID NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'merged')),
+  merged_into UUID REFERENCES tip_clusters(id),
+  member_count INTEGER NOT NULL DEFAULT 0,
+  centroid_latitude DOUBLE PRECISION,
+  centroid_longitude DOUBLE PRECISION,
+  first_occurred_at TIMESTAMPTZ,
+  last_occurred_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tip_clusters_case
+  ON tip_clusters(case_id, status, member_count DESC);
+
+-- One row per tip; the signature is stored so the index loads without rehashing
+CREATE TABLE IF NOT EXISTS tip_cluster_members (
+  tip_id UUID PRIMARY KEY REFERENCES tips(id) ON DELETE CASCADE,
+  cluster_id UUID NOT NULL REFERENCES tip_clusters(id) ON DELETE CASCADE,
+  case_id UUID NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  signature BIGINT[] NOT NULL,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  occurred_at TIMESTAMPTZ,
+  match_score DOUBLE PRECISION,
+  matched_tip_id UUID REFERENCES tips(id) ON DELETE SET NULL,
+  -- 'auto' when placed by the index, 'reviewer' after a merge or split
+  assigned_by TEXT NOT NULL DEFAULT 'auto' CHECK (assigned_by IN ('auto', 'reviewer')),
+  assigned_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tip_cluster_members_cluster ON tip_cluster_members(cluster_id);
+CREATE INDEX IF NOT EXISTS idx_tip_cluster_members_case ON tip_cluster_members(case_id);
+
+CREATE TABLE IF NOT EXISTS tip_cluster_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  cluster_id UUID NOT NULL REFERENCES tip_clusters(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('created', 'tip_added', 'merged', 'split')),
+  tip_ids UUID[] NOT NULL DEFAULT '{}',
+  related_cluster_ids UUID[] NOT NULL DEFAULT '{}',
+  actor_id UUID REFERENCES profiles(id),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tip_cluster_events_cluster
+  ON tip_cluster_events(cluster_id, created_at DESC);
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE tip_clusters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tip_cluster_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tip_cluster_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tip_clusters_le_all ON tip_clusters
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY tip_cluster_members_le_all ON tip_cluster_members
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY tip_cluster_events_le_select ON tip_cluster_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY tip_cluster_events_le_insert ON tip_cluster_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
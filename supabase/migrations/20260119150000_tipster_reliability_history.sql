@@ -0,0 +1,101 @@
+-- =============================================================================
+-- Tipster Reliability History
+-- Reviewer outcomes per tip feed a decaying reliability model; every tier
+-- change is logged with the reasons behind it
+-- =============================================================================
+
+-- One outcome per reviewed tip; re-reviewing a tip replaces it
+CREATE TABLE IF NOT EXISTS tipster_outcomes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tipster_profile_id UUID NOT NULL REFERENCES tipster_profiles(id) ON DELETE CASCADE,
+  tip_id UUID NOT NULL UNIQUE REFERENCES tips(id) ON DELETE CASCADE,
+  verification_id UUID REFERENCES tip_verifications(id) ON DELETE SET NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('verified', 'hoax', 'duplicate', 'spam')),
+  reviewed_by UUID REFERENCES profiles(id),
+  reviewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tipster_outcomes_tipster
+  ON tipster_outcomes(tipster_profile_id, reviewed_at DESC);
+
+CREATE TABLE IF NOT EXISTS tipster_tier_transitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tipster_profile_id UUID NOT NULL REFERENCES tipster_profiles(id) ON DELETE CASCADE,
+  from_tier tipster_reliability_tier NOT NULL,
+  to_tier tipster_reliability_tier NOT NULL,
+  from_score INTEGER NOT NULL,
+  to_score INTEGER NOT NULL,
+  trigger TEXT NOT NULL CHECK (trigger IN ('review_outcome', 'manual')),
+  tip_id UUID REFERENCES tips(id) ON DELETE SET NULL,
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+  actor_id UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tipster_tier_transitions_tipster
+  ON tipster_tier_transitions(tipster_profile_id, created_at DESC);
+
+-- The application model now owns reliability scores and tip counters; the
+-- count-based trigger would overwrite them on every status change
+DROP TRIGGER IF EXISTS trigger_update_tipster_reliability ON tip_verifications;
+
+-- Seed outcomes from reviews made before this migration
+INSERT INTO tipster_outcomes (tipster_profile_id, tip_id, verification_id, outcome, reviewed_by, reviewed_at)
+SELECT
+  t.tipster_profile_id,
+  v.tip_id,
+  v.id,
+  CASE
+    WHEN v.verification_status = 'verified' THEN 'verified'
+    WHEN v.priority_bucket = 'spam' THEN 'spam'
+    WHEN v.is_duplicate THEN 'duplicate'
+    ELSE 'hoax'
+  END,
+  v.reviewed_by,
+  v.reviewed_at
+FROM tip_verifications v
+JOIN tips t ON t.id = v.tip_id
+WHERE t.tipster_profile_id IS NOT NULL
+  AND v.reviewed_at IS NOT NULL
+  AND v.verification_status IN ('verified', 'rejected')
+ON CONFLICT (tip_id) DO NOTHING;
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE tipster_outcomes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tipster_tier_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tipster_outcomes_le_all ON tipster_outcomes
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY tipster_tier_transitions_le_select ON tipster_tier_transitions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY tipster_tier_transitions_le_insert ON tipster_tier_transitions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
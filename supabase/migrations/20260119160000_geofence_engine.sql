@@ -0,0 +1,143 @@
+-- =============================================================================
+-- Geofence Engine
+-- Persisted geofences, their alerts and the last known position of every
+-- tracked device, so fence state survives restarts and is shared between
+-- instances evaluating location streams
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS geofences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  type TEXT NOT NULL CHECK (type IN ('circle', 'polygon', 'corridor')),
+  -- circle: { center, radius }, polygon: { points }, corridor: { points, bufferWidth }
+  geometry JSONB NOT NULL,
+  trigger TEXT NOT NULL DEFAULT 'both' CHECK (trigger IN ('enter', 'exit', 'both')),
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'critical')),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'expired', 'triggered')),
+  notify_channels TEXT[] DEFAULT '{email,push}',
+  -- Per-recipient targets: [{ type, target, enabled }]
+  notifications JSONB NOT NULL DEFAULT '[]',
+  alert_count INTEGER NOT NULL DEFAULT 0,
+  last_triggered TIMESTAMPTZ,
+  created_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_geofences_case ON geofences(case_id);
+CREATE INDEX IF NOT EXISTS idx_geofences_watching
+  ON geofences(status) WHERE status IN ('active', 'triggered');
+
+CREATE TABLE IF NOT EXISTS geofence_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  geofence_id UUID NOT NULL REFERENCES geofences(id) ON DELETE CASCADE,
+  case_id UUID REFERENCES cases(id) ON DELETE CASCADE,
+  trigger_type TEXT NOT NULL CHECK (trigger_type IN ('enter', 'exit')),
+  triggered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  location JSONB NOT NULL,
+  accuracy DOUBLE PRECISION,
+  source TEXT DEFAULT 'System',
+  device_id TEXT,
+  acknowledged BOOLEAN NOT NULL DEFAULT false,
+  acknowledged_by UUID REFERENCES profiles(id),
+  acknowledged_at TIMESTAMPTZ,
+  notes TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_geofence_alerts_geofence
+  ON geofence_alerts(geofence_id, triggered_at DESC);
+CREATE INDEX IF NOT EXISTS idx_geofence_alerts_case
+  ON geofence_alerts(case_id, triggered_at DESC);
+
+-- Last accepted fix per device and the fences it was inside at that fix
+CREATE TABLE IF NOT EXISTS geofence_device_positions (
+  device_id TEXT PRIMARY KEY,
+  lat DOUBLE PRECISION NOT NULL,
+  lng DOUBLE PRECISION NOT NULL,
+  accuracy DOUBLE PRECISION,
+  recorded_at TIMESTAMPTZ NOT NULL,
+  inside_geofence_ids UUID[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =============================================================================
+-- Alert bookkeeping
+-- =============================================================================
+
+-- Alerts raised directly against a fence get its case, so case queries see them
+CREATE OR REPLACE FUNCTION fill_geofence_alert_case()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.case_id IS NULL THEN
+    SELECT case_id INTO NEW.case_id FROM geofences WHERE id = NEW.geofence_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_fill_geofence_alert_case ON geofence_alerts;
+CREATE TRIGGER trigger_fill_geofence_alert_case
+  BEFORE INSERT ON geofence_alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION fill_geofence_alert_case();
+
+CREATE OR REPLACE FUNCTION bump_geofence_alert_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE geofences
+  SET alert_count = alert_count + 1,
+      last_triggered = GREATEST(COALESCE(last_triggered, NEW.triggered_at), NEW.triggered_at)
+  WHERE id = NEW.geofence_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_bump_geofence_alert_count ON geofence_alerts;
+CREATE TRIGGER trigger_bump_geofence_alert_count
+  AFTER INSERT ON geofence_alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_geofence_alert_count();
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE geofences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE geofence_alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE geofence_device_positions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY geofences_le_all ON geofences
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY geofence_alerts_le_all ON geofence_alerts
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY geofence_device_positions_le_all ON geofence_device_positions
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
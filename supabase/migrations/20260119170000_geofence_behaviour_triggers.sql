@@ -0,0 +1,25 @@
+-- =============================================================================
+-- Geofence Behaviour Triggers
+-- Dwell, loitering, no-movement and speed alerts configured per geofence,
+-- with the per-device timers they need carried between location updates
+-- =============================================================================
+
+-- { dwell: { minutes }, loiter: { bandMeters, minutes },
+--   noMovement: { radiusMeters, minutes }, speed: { maxKph } }
+ALTER TABLE geofences
+  ADD COLUMN IF NOT EXISTS trigger_config JSONB NOT NULL DEFAULT '{}';
+
+ALTER TABLE geofence_alerts
+  DROP CONSTRAINT IF EXISTS geofence_alerts_trigger_type_check;
+ALTER TABLE geofence_alerts
+  ADD CONSTRAINT geofence_alerts_trigger_type_check
+  CHECK (trigger_type IN ('enter', 'exit', 'dwell', 'loiter', 'no_movement', 'speed'));
+
+-- Measurements behind the alert, e.g. { "dwellMinutes": 45 } or { "speedKph": 92 }
+ALTER TABLE geofence_alerts
+  ADD COLUMN IF NOT EXISTS details JSONB;
+
+-- Per-fence timers keyed by geofence id: entered, near-boundary and
+-- stationary since, and which behaviours already alerted
+ALTER TABLE geofence_device_positions
+  ADD COLUMN IF NOT EXISTS fence_state JSONB NOT NULL DEFAULT '{}';
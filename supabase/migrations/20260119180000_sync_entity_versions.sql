@@ -0,0 +1,61 @@
+-- =============================================================================
+-- Sync Entity Versions
+-- Version vectors for records edited offline, so the server can tell an edit
+-- made on top of the latest state from one made concurrently on another
+-- device, and a log of applied operations so retried requests are not
+-- applied twice
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS sync_entity_versions (
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  -- { "<device id>": <counter> }
+  version_vector JSONB NOT NULL DEFAULT '{}',
+  -- Bumped on every write; updates are conditional on it
+  revision INTEGER NOT NULL DEFAULT 1,
+  updated_by UUID REFERENCES profiles(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (entity_type, entity_id)
+);
+
+CREATE TABLE IF NOT EXISTS sync_applied_operations (
+  operation_id UUID PRIMARY KEY,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  response_status INTEGER NOT NULL,
+  response_body JSONB,
+  applied_by UUID REFERENCES profiles(id),
+  applied_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_applied_operations_entity
+  ON sync_applied_operations(entity_type, entity_id, applied_at DESC);
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE sync_entity_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sync_applied_operations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY sync_entity_versions_le_all ON sync_entity_versions
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY sync_applied_operations_le_all ON sync_applied_operations
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
@@ -0,0 +1,90 @@
+-- =============================================================================
+-- Field Device Revocation
+-- Links WebAuthn credentials to the offline storage device they were
+-- registered on, lets admins revoke them, and queues wipe commands that a
+-- lost device picks up the next time it connects
+-- =============================================================================
+
+ALTER TABLE webauthn_credentials
+  ADD COLUMN IF NOT EXISTS device_id TEXT,
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS revoked_by UUID REFERENCES profiles(id),
+  ADD COLUMN IF NOT EXISTS revocation_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_webauthn_credentials_device
+  ON webauthn_credentials(user_id, device_id);
+
+CREATE TABLE IF NOT EXISTS device_wipe_commands (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Offline storage device id, as sent by the device's sync engine
+  device_id TEXT NOT NULL,
+  credential_id UUID REFERENCES webauthn_credentials(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'completed', 'cancelled')),
+  requested_by UUID REFERENCES profiles(id),
+  requested_at TIMESTAMPTZ DEFAULT NOW(),
+  delivered_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  -- What the device reports it cleared
+  result JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_wipe_commands_device
+  ON device_wipe_commands(user_id, device_id, status);
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE device_wipe_commands ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY webauthn_credentials_admin_select ON webauthn_credentials
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'developer')
+    )
+  );
+
+CREATE POLICY webauthn_credentials_admin_update ON webauthn_credentials
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'developer')
+    )
+  );
+
+-- Devices record which device registered a credential and keep it in use
+CREATE POLICY webauthn_credentials_own_update ON webauthn_credentials
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id AND revoked_at IS NULL);
+
+CREATE POLICY device_wipe_commands_admin_all ON device_wipe_commands
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'developer')
+    )
+  );
+
+-- Devices pick up and acknowledge their own wipe commands
+CREATE POLICY device_wipe_commands_own_select ON device_wipe_commands
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY device_wipe_commands_own_update ON device_wipe_commands
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,60 @@
+-- =============================================================================
+-- AMBER Alert CAP Messages
+-- Every CAP 1.2 (CAP-CP) message generated for an AMBER alert, one per status
+-- change, so later updates and cancels can reference the messages they
+-- replace and the public feed can serve them to NAAD and broadcasters
+-- LC-FEAT-026: AMBER Alert Integration
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS amber_cap_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  amber_alert_id UUID NOT NULL REFERENCES amber_alerts(id) ON DELETE CASCADE,
+
+  -- CAP identity; sender, identifier and sent together form a reference
+  identifier TEXT NOT NULL UNIQUE,
+  sender TEXT NOT NULL,
+  sent_at TIMESTAMPTZ NOT NULL,
+  msg_type TEXT NOT NULL CHECK (msg_type IN ('Alert', 'Update', 'Cancel')),
+  alert_status TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+
+  -- Unsigned alert element; the signature is added when served
+  xml TEXT NOT NULL,
+
+  created_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_amber_cap_messages_alert
+  ON amber_cap_messages(amber_alert_id, sent_at);
+CREATE INDEX IF NOT EXISTS idx_amber_cap_messages_expires
+  ON amber_cap_messages(expires_at DESC);
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE amber_cap_messages ENABLE ROW LEVEL SECURITY;
+
+-- The public feed reads with the service role
+CREATE POLICY amber_cap_messages_le_select ON amber_cap_messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY amber_cap_messages_le_insert ON amber_cap_messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
@@ -0,0 +1,85 @@
+-- =============================================================================
+-- Two-Person Approval for AMBER Broadcast Channels
+-- WEA, EAS and highway sign distributions are carried by the CAP feed. A CAP
+-- message only enters the feed once someone other than its author, holding
+-- a role allowed to release every requested channel, approves it within the
+-- channel's approval window
+-- LC-FEAT-026: AMBER Alert Integration
+-- =============================================================================
+
+ALTER TABLE distribution_channel_config
+  ADD COLUMN IF NOT EXISTS approver_roles TEXT[] DEFAULT '{admin,developer}',
+  ADD COLUMN IF NOT EXISTS approval_window_minutes INTEGER DEFAULT 30;
+
+INSERT INTO distribution_channel_config (channel, requires_approval, approver_roles, approval_window_minutes)
+VALUES
+  ('wea', TRUE, '{admin,developer}', 30),
+  ('eas', TRUE, '{admin,developer}', 30),
+  ('highway_signs', TRUE, '{law_enforcement,admin,developer}', 60)
+ON CONFLICT (channel) DO UPDATE SET requires_approval = TRUE;
+
+-- Messages stay out of the public feed until released
+ALTER TABLE amber_cap_messages
+  ADD COLUMN IF NOT EXISTS released_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS released_by UUID REFERENCES profiles(id);
+
+CREATE INDEX IF NOT EXISTS idx_amber_cap_messages_released
+  ON amber_cap_messages(expires_at DESC) WHERE released_at IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS amber_broadcast_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  amber_alert_id UUID NOT NULL REFERENCES amber_alerts(id) ON DELETE CASCADE,
+  cap_message_id UUID NOT NULL REFERENCES amber_cap_messages(id) ON DELETE CASCADE,
+  channels amber_distribution_channel[] NOT NULL,
+
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'expired', 'superseded')),
+
+  requested_by UUID REFERENCES profiles(id),
+  requested_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+
+  reviewed_by UUID REFERENCES profiles(id),
+  reviewed_at TIMESTAMPTZ,
+  review_notes TEXT,
+
+  -- What changes on air compared with the last released message
+  broadcast_diff JSONB NOT NULL DEFAULT '[]'
+);
+
+-- One open request per CAP message
+CREATE UNIQUE INDEX IF NOT EXISTS idx_amber_broadcast_approvals_pending
+  ON amber_broadcast_approvals(cap_message_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_amber_broadcast_approvals_queue
+  ON amber_broadcast_approvals(status, expires_at);
+CREATE INDEX IF NOT EXISTS idx_amber_broadcast_approvals_alert
+  ON amber_broadcast_approvals(amber_alert_id);
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE amber_broadcast_approvals ENABLE ROW LEVEL SECURITY;
+
+-- Who may release which channel is checked per channel by the application
+CREATE POLICY amber_broadcast_approvals_le_all ON amber_broadcast_approvals
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY amber_cap_messages_le_update ON amber_cap_messages
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
@@ -0,0 +1,95 @@
+-- =============================================================================
+-- AMBER Alert Areas
+-- Each alert can target a radius around the last sighting, a polygon or a
+-- corridor along highways, optionally widening on a schedule as the alert
+-- ages. Recipients carry a location so distribution can be limited to the
+-- area; those without one are matched by province as before
+-- LC-FEAT-026: AMBER Alert Integration
+-- =============================================================================
+
+ALTER TABLE amber_alerts
+  ADD COLUMN IF NOT EXISTS target_area JSONB,
+  ADD COLUMN IF NOT EXISTS area_expansion JSONB,
+  -- How far the area had widened when distributions were last created
+  ADD COLUMN IF NOT EXISTS area_margin_km NUMERIC(7, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE partner_organizations
+  ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION;
+
+-- A media outlet reaches everyone within its coverage radius
+ALTER TABLE media_contacts
+  ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS coverage_radius_km NUMERIC(7, 2);
+
+-- Approximate location shared by the device when subscribing
+ALTER TABLE push_subscriptions
+  ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS location_updated_at TIMESTAMPTZ;
+
+-- =============================================================================
+-- Public Subscribers
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS amber_email_subscribers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL UNIQUE,
+  email_verified BOOLEAN DEFAULT FALSE,
+  province TEXT,
+  city TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS amber_sms_subscribers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone_number TEXT NOT NULL UNIQUE,
+  phone_verified BOOLEAN DEFAULT FALSE,
+  province TEXT,
+  city TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_amber_email_subscribers_province
+  ON amber_email_subscribers(province) WHERE is_active = TRUE;
+CREATE INDEX IF NOT EXISTS idx_amber_sms_subscribers_province
+  ON amber_sms_subscribers(province) WHERE is_active = TRUE;
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE amber_email_subscribers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE amber_sms_subscribers ENABLE ROW LEVEL SECURITY;
+
+-- Subscriber lists are read for distribution and reach estimates only
+CREATE POLICY amber_email_subscribers_le_select ON amber_email_subscribers
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
+
+CREATE POLICY amber_sms_subscribers_le_select ON amber_sms_subscribers
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
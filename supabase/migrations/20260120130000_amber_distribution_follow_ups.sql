@@ -0,0 +1,55 @@
+-- =============================================================================
+-- AMBER Alert Follow-ups
+-- When an alert is amended, cancelled or ends with the child found, every
+-- distribution that already reached someone gets a follow-up on the same
+-- channel: a reply to or removal of the social post, an UPDATE or CANCELLED
+-- SMS and email, a webhook event. Broadcast channels are followed up by the
+-- CAP Update or Cancel message
+-- LC-FEAT-026: AMBER Alert Integration
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS amber_distribution_follow_ups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  amber_alert_id UUID NOT NULL REFERENCES amber_alerts(id) ON DELETE CASCADE,
+  distribution_id UUID NOT NULL REFERENCES amber_distributions(id) ON DELETE CASCADE,
+  channel amber_distribution_channel NOT NULL,
+
+  kind TEXT NOT NULL CHECK (kind IN ('update', 'cancel')),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+  -- What was done on the channel, e.g. post_replied or post_deleted
+  action TEXT,
+
+  message TEXT NOT NULL,
+  -- Amended fields with their old and new values
+  changes JSONB NOT NULL DEFAULT '[]',
+
+  external_id TEXT,
+  status_message TEXT,
+
+  created_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_amber_follow_ups_alert
+  ON amber_distribution_follow_ups(amber_alert_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_amber_follow_ups_distribution
+  ON amber_distribution_follow_ups(distribution_id);
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE amber_distribution_follow_ups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY amber_follow_ups_le_all ON amber_distribution_follow_ups
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('law_enforcement', 'admin', 'developer')
+    )
+  );
@@ -0,0 +1,194 @@
+-- =============================================================================
+-- Durable Job Queue
+-- Background work (AMBER distribution, notification digests, agent runs) is
+-- queued here instead of running inside the request or cron call that asked
+-- for it. Workers claim jobs with a lease; a job whose lease runs out before
+-- it finishes becomes claimable again. Failed jobs retry with backoff until
+-- their attempts run out, then move to the dead-letter table where an admin
+-- can replay them
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  queue TEXT NOT NULL DEFAULT 'default',
+  job_type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  -- Lower runs first
+  priority SMALLINT NOT NULL DEFAULT 100,
+
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'dead')),
+
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3 CHECK (max_attempts > 0),
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  visibility_timeout_seconds INTEGER NOT NULL DEFAULT 120 CHECK (visibility_timeout_seconds > 0),
+
+  locked_by TEXT,
+  lease_expires_at TIMESTAMPTZ,
+
+  -- A second enqueue with the same key returns the existing job
+  idempotency_key TEXT UNIQUE,
+  last_error TEXT,
+  errors JSONB NOT NULL DEFAULT '[]',
+  result JSONB,
+  replay_of UUID,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_claimable
+  ON jobs(priority, run_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_jobs_leases
+  ON jobs(lease_expires_at) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_jobs_queue_status
+  ON jobs(queue, status, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS job_dead_letters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  queue TEXT NOT NULL,
+  job_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  priority SMALLINT NOT NULL,
+  attempts INTEGER NOT NULL,
+  errors JSONB NOT NULL DEFAULT '[]',
+  dead_at TIMESTAMPTZ DEFAULT NOW(),
+
+  replayed_at TIMESTAMPTZ,
+  replayed_by UUID REFERENCES profiles(id),
+  replay_job_id UUID REFERENCES jobs(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_dead_letters_open
+  ON job_dead_letters(dead_at DESC) WHERE replayed_at IS NULL;
+
+ALTER TABLE jobs
+  ADD CONSTRAINT jobs_replay_of_fkey
+  FOREIGN KEY (replay_of) REFERENCES job_dead_letters(id) ON DELETE SET NULL;
+
+-- =============================================================================
+-- Functions
+-- =============================================================================
+
+-- Claim up to p_limit jobs that are due, or whose lease expired, for one
+-- worker. SKIP LOCKED lets several workers claim at once without blocking
+CREATE OR REPLACE FUNCTION claim_jobs(p_worker_id TEXT, p_limit INTEGER, p_queues TEXT[] DEFAULT NULL)
+RETURNS SETOF jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE jobs j
+  SET
+    status = 'running',
+    locked_by = p_worker_id,
+    lease_expires_at = NOW() + make_interval(secs => j.visibility_timeout_seconds),
+    attempts = j.attempts + 1,
+    started_at = NOW(),
+    updated_at = NOW()
+  WHERE j.id IN (
+    SELECT id FROM jobs
+    WHERE (
+      (status = 'queued' AND run_at <= NOW())
+      OR (status = 'running' AND lease_expires_at <= NOW())
+    )
+    AND (p_queues IS NULL OR queue = ANY(p_queues))
+    ORDER BY priority ASC, run_at ASC
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Heartbeat: keep a long-running job's lease. False once another worker
+-- has taken the job over
+CREATE OR REPLACE FUNCTION extend_job_lease(p_job_id UUID, p_worker_id TEXT, p_seconds INTEGER)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE jobs
+  SET lease_expires_at = NOW() + make_interval(secs => p_seconds), updated_at = NOW()
+  WHERE id = p_job_id AND locked_by = p_worker_id AND status = 'running';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move a job that ran out of attempts to the dead-letter table
+CREATE OR REPLACE FUNCTION dead_letter_job(p_job_id UUID, p_worker_id TEXT, p_errors JSONB)
+RETURNS UUID AS $$
+DECLARE
+  job jobs%ROWTYPE;
+  dead_letter_id UUID;
+BEGIN
+  UPDATE jobs
+  SET
+    status = 'dead',
+    errors = p_errors,
+    last_error = p_errors -> -1 ->> 'message',
+    locked_by = NULL,
+    lease_expires_at = NULL,
+    completed_at = NOW(),
+    updated_at = NOW()
+  WHERE id = p_job_id AND locked_by = p_worker_id AND status = 'running'
+  RETURNING * INTO job;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO job_dead_letters (job_id, queue, job_type, payload, priority, attempts, errors)
+  VALUES (job.id, job.queue, job.job_type, job.payload, job.priority, job.attempts, p_errors)
+  RETURNING id INTO dead_letter_id;
+
+  RETURN dead_letter_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_dead_letters ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are queued and worked by the server with the service role. Signed-in
+-- users only reach the queue through API routes that check their role; the
+-- admin policies below back the job queue page.
+CREATE POLICY jobs_admin_all ON jobs
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'developer')
+    )
+  );
+
+CREATE POLICY job_dead_letters_admin_all ON job_dead_letters
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'developer')
+    )
+  );
+
+-- =============================================================================
+-- Grants
+-- =============================================================================
+
+-- Only the worker, running as the service role, may claim or settle jobs
+REVOKE EXECUTE ON FUNCTION claim_jobs(TEXT, INTEGER, TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION extend_job_lease(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION dead_letter_job(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+GRANT ALL ON jobs, job_dead_letters TO service_role;
+GRANT EXECUTE ON FUNCTION claim_jobs(TEXT, INTEGER, TEXT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION extend_job_lease(UUID, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION dead_letter_job(UUID, TEXT, JSONB) TO service_role;
@@ -0,0 +1,164 @@
+-- =============================================================================
+-- Two-Person Approval: Enforced in the Database
+-- Deciding a broadcast request and releasing its CAP message now happen only
+-- in review_broadcast_approval, which checks the reviewer is not the
+-- requester or message author, holds an approver role for every channel and
+-- is inside the approval window. Signed-in users can no longer set
+-- released_at, an approval's decision or its reviewer directly.
+-- LC-FEAT-026: AMBER Alert Integration
+-- =============================================================================
+
+DROP POLICY IF EXISTS amber_cap_messages_le_update ON amber_cap_messages;
+
+-- =============================================================================
+-- Guards
+-- Direct writes from signed-in users (PostgREST runs them as authenticated)
+-- are limited; SECURITY DEFINER functions and the service role are trusted
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION guard_amber_cap_message_release()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.released_at IS DISTINCT FROM OLD.released_at OR NEW.released_by IS DISTINCT FROM OLD.released_by THEN
+      RAISE EXCEPTION 'CAP messages are released through review_broadcast_approval';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- A Cancel goes straight to the feed once an earlier message was on air,
+  -- so receivers stop broadcasting without waiting for a second person
+  IF NEW.released_at IS NOT NULL THEN
+    IF NEW.msg_type <> 'Cancel' OR NOT EXISTS (
+      SELECT 1 FROM amber_cap_messages
+      WHERE amber_alert_id = NEW.amber_alert_id
+      AND released_at IS NOT NULL
+    ) THEN
+      RAISE EXCEPTION 'Only a Cancel for an alert already on air can be released without approval';
+    END IF;
+    NEW.released_at := NOW();
+    NEW.released_by := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_guard_amber_cap_message_release ON amber_cap_messages;
+CREATE TRIGGER trigger_guard_amber_cap_message_release
+  BEFORE INSERT OR UPDATE ON amber_cap_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_amber_cap_message_release();
+
+CREATE OR REPLACE FUNCTION guard_amber_broadcast_approval_decision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' OR NEW.reviewed_by IS NOT NULL OR NEW.reviewed_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Broadcast approvals start pending';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Open requests may gain channels or be closed as superseded or expired;
+  -- approving or rejecting goes through review_broadcast_approval
+  IF NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by
+    OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at
+    OR (NEW.status IS DISTINCT FROM OLD.status
+        AND NOT (OLD.status = 'pending' AND NEW.status IN ('superseded', 'expired'))) THEN
+    RAISE EXCEPTION 'Broadcast approvals are decided through review_broadcast_approval';
+  END IF;
+
+  IF OLD.status <> 'pending' AND (NEW.channels IS DISTINCT FROM OLD.channels OR NEW.expires_at IS DISTINCT FROM OLD.expires_at) THEN
+    RAISE EXCEPTION 'Only pending broadcast approvals can change';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_guard_amber_broadcast_approval_decision ON amber_broadcast_approvals;
+CREATE TRIGGER trigger_guard_amber_broadcast_approval_decision
+  BEFORE INSERT OR UPDATE ON amber_broadcast_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_amber_broadcast_approval_decision();
+
+-- =============================================================================
+-- Review
+-- Errors start with the workflow error code the application maps to HTTP
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION review_broadcast_approval(
+  p_approval_id UUID,
+  p_decision TEXT,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS amber_broadcast_approvals AS $$
+DECLARE
+  approval amber_broadcast_approvals%ROWTYPE;
+  message_author UUID;
+  reviewer_role TEXT;
+  blocked TEXT[];
+BEGIN
+  IF p_decision NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'invalid_status: Unknown decision %', p_decision;
+  END IF;
+
+  SELECT * INTO approval FROM amber_broadcast_approvals WHERE id = p_approval_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'approval_not_found: Broadcast approval not found';
+  END IF;
+
+  IF approval.status <> 'pending' THEN
+    RAISE EXCEPTION 'invalid_status: This request was decided or replaced by someone else';
+  END IF;
+  IF approval.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'expired: The approval window has closed; request a new approval';
+  END IF;
+
+  SELECT created_by INTO message_author FROM amber_cap_messages WHERE id = approval.cap_message_id;
+  IF auth.uid() IS NULL
+    OR auth.uid() = approval.requested_by
+    OR auth.uid() = message_author THEN
+    RAISE EXCEPTION 'self_approval: A broadcast must be approved by someone other than the person who requested it';
+  END IF;
+
+  SELECT role INTO reviewer_role FROM profiles WHERE id = auth.uid();
+  SELECT ARRAY_AGG(requested.name::TEXT) INTO blocked
+  FROM UNNEST(approval.channels) AS requested(name)
+  LEFT JOIN distribution_channel_config config ON config.channel::TEXT = requested.name::TEXT
+  WHERE NOT COALESCE(reviewer_role = ANY(COALESCE(config.approver_roles, '{admin,developer}')), FALSE);
+
+  IF reviewer_role IS NULL OR blocked IS NOT NULL THEN
+    RAISE EXCEPTION 'role_not_permitted: Your role cannot release: %', COALESCE(ARRAY_TO_STRING(blocked, ', '), 'any channel');
+  END IF;
+
+  UPDATE amber_broadcast_approvals
+  SET
+    status = CASE WHEN p_decision = 'approve' THEN 'approved' ELSE 'rejected' END,
+    reviewed_by = auth.uid(),
+    reviewed_at = NOW(),
+    review_notes = NULLIF(TRIM(p_notes), '')
+  WHERE id = p_approval_id
+  RETURNING * INTO approval;
+
+  IF p_decision = 'approve' THEN
+    UPDATE amber_cap_messages
+    SET released_at = NOW(), released_by = auth.uid()
+    WHERE id = approval.cap_message_id AND released_at IS NULL;
+  END IF;
+
+  RETURN approval;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION review_broadcast_approval(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION review_broadcast_approval(UUID, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,126 @@
+-- =============================================================================
+-- Sticky Field Device Revocation
+-- Revocation is recorded per (user, device) rather than per credential, so
+-- registering a new credential from a revoked device no longer brings it
+-- back; only an admin reinstating the device does. Each device has a server
+-- nonce mixed into its offline storage key, replaced when the device is
+-- revoked so the old key is never issued again. Devices already in use get
+-- a nonce here and re-encrypt their offline data on next unlock.
+-- LC-FEAT-031: Mobile App Companion
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS field_devices (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Offline storage device id, as sent by the device's sync engine
+  device_id TEXT NOT NULL,
+  key_nonce TEXT NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex'),
+  revoked_at TIMESTAMPTZ,
+  revoked_by UUID REFERENCES profiles(id),
+  revocation_reason TEXT,
+  reinstated_at TIMESTAMPTZ,
+  reinstated_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, device_id)
+);
+
+-- Devices whose latest credential was revoked stay revoked
+INSERT INTO field_devices (user_id, device_id, revoked_at, revoked_by, revocation_reason)
+SELECT DISTINCT ON (user_id, device_id) user_id, device_id, revoked_at, revoked_by, revocation_reason
+FROM webauthn_credentials
+WHERE device_id IS NOT NULL
+ORDER BY user_id, device_id, created_at DESC
+ON CONFLICT (user_id, device_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION rotate_field_device_key_nonce()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.revoked_at IS NOT NULL AND OLD.revoked_at IS NULL THEN
+    NEW.key_nonce := encode(gen_random_bytes(32), 'hex');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_rotate_field_device_key_nonce ON field_devices;
+CREATE TRIGGER trigger_rotate_field_device_key_nonce
+  BEFORE UPDATE ON field_devices
+  FOR EACH ROW
+  EXECUTE FUNCTION rotate_field_device_key_nonce();
+
+-- =============================================================================
+-- Functions
+-- =============================================================================
+
+-- Nonce for the caller's device, registering the device on first use.
+-- Returns NULL while the device is revoked.
+CREATE OR REPLACE FUNCTION field_device_key_nonce(p_device_id TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  device field_devices%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO field_devices (user_id, device_id)
+  VALUES (auth.uid(), p_device_id)
+  ON CONFLICT (user_id, device_id) DO NOTHING;
+
+  SELECT * INTO device FROM field_devices
+  WHERE user_id = auth.uid() AND device_id = p_device_id;
+
+  IF device.revoked_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+  RETURN device.key_nonce;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Sign a user out everywhere: removes their sessions and with them the
+-- refresh tokens, so no new access token is issued. Admins only.
+CREATE OR REPLACE FUNCTION end_user_sessions(p_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  ended INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('admin', 'developer')
+  ) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  DELETE FROM auth.sessions WHERE user_id = p_user_id;
+  GET DIAGNOSTICS ended = ROW_COUNT;
+  RETURN ended;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION field_device_key_nonce(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION end_user_sessions(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION field_device_key_nonce(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION end_user_sessions(UUID) TO authenticated;
+
+-- =============================================================================
+-- Row Level Security
+-- Devices are created through field_device_key_nonce; only admins change them
+-- =============================================================================
+
+ALTER TABLE field_devices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY field_devices_admin_all ON field_devices
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'developer')
+    )
+  );
+
+CREATE POLICY field_devices_own_select ON field_devices
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
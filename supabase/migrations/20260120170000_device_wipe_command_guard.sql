@@ -0,0 +1,54 @@
+-- =============================================================================
+-- Device Wipe Command Transitions
+-- A device may only acknowledge its own wipe commands: pending to delivered
+-- when it picks one up, delivered to completed when it reports the wipe
+-- done. Everything else about a command is left to admins.
+-- LC-FEAT-031: Mobile App Companion
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION guard_device_wipe_command_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') OR EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('admin', 'developer')
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.id IS DISTINCT FROM OLD.id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.device_id IS DISTINCT FROM OLD.device_id
+    OR NEW.credential_id IS DISTINCT FROM OLD.credential_id
+    OR NEW.reason IS DISTINCT FROM OLD.reason
+    OR NEW.requested_by IS DISTINCT FROM OLD.requested_by
+    OR NEW.requested_at IS DISTINCT FROM OLD.requested_at THEN
+    RAISE EXCEPTION 'Devices may only acknowledge wipe commands';
+  END IF;
+
+  IF OLD.status = 'pending' AND NEW.status = 'delivered' THEN
+    IF NEW.completed_at IS DISTINCT FROM OLD.completed_at OR NEW.result IS DISTINCT FROM OLD.result THEN
+      RAISE EXCEPTION 'A wipe command is reported complete only after delivery';
+    END IF;
+    NEW.delivered_at := NOW();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'delivered' AND NEW.status = 'completed' THEN
+    IF NEW.delivered_at IS DISTINCT FROM OLD.delivered_at THEN
+      RAISE EXCEPTION 'Delivery time of a wipe command cannot change';
+    END IF;
+    NEW.completed_at := NOW();
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Wipe command cannot move from % to %', OLD.status, NEW.status;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_guard_device_wipe_command_update ON device_wipe_commands;
+CREATE TRIGGER trigger_guard_device_wipe_command_update
+  BEFORE UPDATE ON device_wipe_commands
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_device_wipe_command_update();
@@ -0,0 +1,60 @@
+-- =============================================================================
+-- Overlapping Location Batches
+-- Two instances may evaluate batches for the same device at once. A device
+-- position is only replaced by a newer fix, and an alert is raised once per
+-- fence, device, trigger and fix however many batches carry that fix.
+-- =============================================================================
+
+-- Duplicates raised before the index existed; the earliest row is kept
+DELETE FROM geofence_alerts duplicate
+USING geofence_alerts kept
+WHERE duplicate.geofence_id = kept.geofence_id
+AND duplicate.device_id = kept.device_id
+AND duplicate.trigger_type = kept.trigger_type
+AND duplicate.triggered_at = kept.triggered_at
+AND duplicate.id > kept.id;
+
+-- Alerts raised without a device never collide: NULLs are distinct
+CREATE UNIQUE INDEX IF NOT EXISTS idx_geofence_alerts_device_fix
+  ON geofence_alerts(geofence_id, device_id, trigger_type, triggered_at);
+
+-- =============================================================================
+-- Positions
+-- =============================================================================
+
+-- Upsert positions, keeping any stored fix at least as new as the incoming
+-- one. Returns the devices whose position was written.
+CREATE OR REPLACE FUNCTION save_geofence_device_positions(p_positions JSONB)
+RETURNS SETOF TEXT AS $$
+  INSERT INTO geofence_device_positions AS stored (
+    device_id, lat, lng, accuracy, recorded_at, inside_geofence_ids, fence_state, updated_at
+  )
+  SELECT
+    incoming.device_id,
+    incoming.lat,
+    incoming.lng,
+    incoming.accuracy,
+    incoming.recorded_at,
+    COALESCE(incoming.inside_geofence_ids, '{}'),
+    COALESCE(incoming.fence_state, '{}'),
+    NOW()
+  FROM jsonb_to_recordset(p_positions) AS incoming(
+    device_id TEXT,
+    lat DOUBLE PRECISION,
+    lng DOUBLE PRECISION,
+    accuracy DOUBLE PRECISION,
+    recorded_at TIMESTAMPTZ,
+    inside_geofence_ids UUID[],
+    fence_state JSONB
+  )
+  ON CONFLICT (device_id) DO UPDATE SET
+    lat = EXCLUDED.lat,
+    lng = EXCLUDED.lng,
+    accuracy = EXCLUDED.accuracy,
+    recorded_at = EXCLUDED.recorded_at,
+    inside_geofence_ids = EXCLUDED.inside_geofence_ids,
+    fence_state = EXCLUDED.fence_state,
+    updated_at = EXCLUDED.updated_at
+  WHERE stored.recorded_at < EXCLUDED.recorded_at
+  RETURNING device_id;
+$$ LANGUAGE sql;
@@ -0,0 +1,13 @@
+-- =============================================================================
+-- AMBER Follow-up Keys
+-- A follow-up is recorded once per distribution, kind and queued request, so
+-- a job claimed again after a worker stalls finds what it already sent
+-- instead of sending it twice. Rows written before the key existed keep a
+-- NULL key and never collide.
+-- =============================================================================
+
+ALTER TABLE amber_distribution_follow_ups
+  ADD COLUMN IF NOT EXISTS follow_up_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_amber_follow_ups_key
+  ON amber_distribution_follow_ups(distribution_id, kind, follow_up_key);
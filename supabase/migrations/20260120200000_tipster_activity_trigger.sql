@@ -0,0 +1,60 @@
+-- =============================================================================
+-- Tipster Activity Counters
+-- The reliability model owns scores and outcome counters, but it only runs
+-- when a reviewer records an outcome. Partial verifications and the time of
+-- a tipster's last decided tip are still kept up to date here, without
+-- touching anything the model writes.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION update_tipster_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  tipster_id UUID;
+BEGIN
+  IF NEW.verification_status NOT IN ('verified', 'partially_verified', 'rejected')
+    OR NEW.verification_status IS NOT DISTINCT FROM OLD.verification_status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT tipster_profile_id INTO tipster_id
+  FROM tips
+  WHERE id = NEW.tip_id;
+
+  IF tipster_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE tipster_profiles
+  SET
+    partially_verified_tips = partially_verified_tips
+      + CASE WHEN NEW.verification_status = 'partially_verified' THEN 1 ELSE 0 END,
+    last_tip_at = NOW()
+  WHERE id = tipster_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_update_tipster_activity ON tip_verifications;
+CREATE TRIGGER trigger_update_tipster_activity
+  AFTER INSERT OR UPDATE OF verification_status ON tip_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION update_tipster_activity();
+
+-- Catch up on decisions made while no trigger kept these columns
+UPDATE tipster_profiles p
+SET
+  partially_verified_tips = GREATEST(p.partially_verified_tips, activity.partially_verified),
+  last_tip_at = GREATEST(p.last_tip_at, activity.last_decided_at)
+FROM (
+  SELECT
+    t.tipster_profile_id,
+    COUNT(*) FILTER (WHERE v.verification_status = 'partially_verified') AS partially_verified,
+    MAX(v.updated_at) AS last_decided_at
+  FROM tip_verifications v
+  JOIN tips t ON t.id = v.tip_id
+  WHERE t.tipster_profile_id IS NOT NULL
+    AND v.verification_status IN ('verified', 'partially_verified', 'rejected')
+  GROUP BY t.tipster_profile_id
+) activity
+WHERE activity.tipster_profile_id = p.id;
@@ -0,0 +1,50 @@
+-- =============================================================================
+-- Atomic Priority Profile Activation
+-- Retires the active version and activates the draft in one transaction, so
+-- a failure between the two never leaves a profile key with no active version
+-- =============================================================================
+
+-- Runs as the caller: the admin update policy still decides who may activate
+CREATE OR REPLACE FUNCTION activate_priority_profile_version(
+  p_profile_id UUID,
+  p_actor UUID
+)
+RETURNS priority_weight_profiles AS $$
+DECLARE
+  target priority_weight_profiles%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM priority_weight_profiles WHERE id = p_profile_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Priority profile not found';
+  END IF;
+
+  -- Serialise activations of the same key
+  PERFORM 1 FROM priority_weight_profiles
+  WHERE profile_key = target.profile_key
+  FOR UPDATE;
+
+  SELECT * INTO target FROM priority_weight_profiles WHERE id = p_profile_id;
+  IF target.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft profiles can be activated (current status: %)', target.status;
+  END IF;
+
+  UPDATE priority_weight_profiles
+  SET status = 'retired', retired_at = NOW()
+  WHERE profile_key = target.profile_key
+  AND status = 'active';
+
+  UPDATE priority_weight_profiles
+  SET status = 'active', activated_by = p_actor, activated_at = NOW()
+  WHERE id = p_profile_id
+  RETURNING * INTO target;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Priority profile could not be activated';
+  END IF;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION activate_priority_profile_version(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION activate_priority_profile_version(UUID, UUID) TO authenticated;
@@ -0,0 +1,50 @@
+-- =============================================================================
+-- Case Lifecycle History Id
+-- The history trigger stamps the id of the row it writes onto the case, so
+-- the update that changed the status can return it and side effects are
+-- recorded against that exact transition
+-- =============================================================================
+
+ALTER TABLE cases
+  ADD COLUMN IF NOT EXISTS lifecycle_history_id UUID;
+
+-- Runs before the update so it can set NEW; named to run after
+-- enforce_case_lifecycle_transition has accepted the change
+CREATE OR REPLACE FUNCTION record_case_lifecycle_history()
+RETURNS TRIGGER AS $$
+DECLARE
+  history_id UUID;
+BEGIN
+  IF NEW.lifecycle_status IS NOT DISTINCT FROM OLD.lifecycle_status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Reason metadata only counts when the same update stamped lifecycle_changed_at
+  IF NEW.lifecycle_changed_at IS DISTINCT FROM OLD.lifecycle_changed_at THEN
+    INSERT INTO case_lifecycle_history (case_id, from_status, to_status, reason_code, notes, changed_by)
+    VALUES (
+      NEW.id,
+      OLD.lifecycle_status,
+      NEW.lifecycle_status,
+      COALESCE(NEW.lifecycle_reason_code, 'unspecified'),
+      NEW.lifecycle_reason_notes,
+      COALESCE(NEW.lifecycle_changed_by, auth.uid())
+    )
+    RETURNING id INTO history_id;
+  ELSE
+    INSERT INTO case_lifecycle_history (case_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, OLD.lifecycle_status, NEW.lifecycle_status, auth.uid())
+    RETURNING id INTO history_id;
+  END IF;
+
+  NEW.lifecycle_history_id := history_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_case_lifecycle_history ON cases;
+
+CREATE TRIGGER record_case_lifecycle_history
+  BEFORE UPDATE OF lifecycle_status ON cases
+  FOR EACH ROW
+  EXECUTE FUNCTION record_case_lifecycle_history();